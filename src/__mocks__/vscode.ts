@@ -43,8 +43,40 @@ export const workspace = {
     writeFile: jest.fn(),
     stat: jest.fn(),
   },
+  textDocuments: [] as any[],
+  openTextDocument: jest.fn(),
+  applyEdit: jest.fn(async () => true),
 };
 
+export class Position {
+  constructor(public line: number, public character: number) {}
+}
+
+export class Range {
+  constructor(public start: Position, public end: Position) {}
+}
+
+// Правки записываются по порядку; применяет их мок workspace.applyEdit теста
+export class WorkspaceEdit {
+  operations: { type: 'create' | 'insert' | 'replace' | 'delete'; uri: any; range?: Range; text?: string; options?: any }[] = [];
+
+  createFile(uri: any, options?: any) {
+    this.operations.push({ type: 'create', uri, options });
+  }
+
+  insert(uri: any, position: Position, text: string) {
+    this.operations.push({ type: 'insert', uri, range: new Range(position, position), text });
+  }
+
+  replace(uri: any, range: Range, text: string) {
+    this.operations.push({ type: 'replace', uri, range, text });
+  }
+
+  deleteFile(uri: any, options?: any) {
+    this.operations.push({ type: 'delete', uri, options });
+  }
+}
+
 export const Uri = {
   joinPath: jest.fn((...parts: any[]) => ({
     fsPath: parts.map(p => (typeof p === 'string' ? p : p.fsPath || p.toString())).join('/'),
@@ -70,6 +102,9 @@ export const clearMockConfig = () => {
 export default {
   workspace,
   Uri,
+  Position,
+  Range,
+  WorkspaceEdit,
   ConfigurationTarget,
   commands: {
     executeCommand: jest.fn(),
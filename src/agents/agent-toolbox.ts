@@ -0,0 +1,370 @@
+/**
+ * Набор инструментов агента для цикла function-calling
+ * Модель запрашивает инструменты пошагово, результаты возвращаются в диалог
+ */
+
+import { FileChange, MCPClient } from './worker/mcp-client';
+import { ToolDefinition, ToolCall } from '../integration/model-providers/base-provider';
+import { SemanticSearchResult } from '../orchestrator/semantic-index';
+import { TaskTransaction } from '../orchestrator/task-transaction';
+import { PatchApplyError, PatchFailure, SearchReplaceEdit, applyPatch, formatPatchFailures } from './worker/patch-applier';
+import { TestRunResult } from './worker/test-runner';
+
+/**
+ * Результат выполнения инструмента
+ */
+export interface ToolExecutionResult {
+    output: string;
+    isError: boolean;
+    filesChanged?: string[];
+    finished?: boolean;
+}
+
+/**
+ * Итог применения готовых изменений из решения
+ */
+export interface PlannedChangesResult {
+    filesChanged: string[];
+    failures: PatchFailure[];
+}
+
+export const FINISH_TOOL = 'finish';
+
+const MAX_OUTPUT_LENGTH = 8000;
+const MAX_SEARCH_RESULTS = 30;
+const MAX_SEMANTIC_RESULTS = 20;
+const MAX_REPORTED_TEST_FAILURES = 10;
+
+export class AgentToolbox {
+    private mcpClient: MCPClient;
+
+    constructor(mcpClient: MCPClient = new MCPClient()) {
+        this.mcpClient = mcpClient;
+    }
+
+    /**
+     * Транзакция задачи, в которую попадают все изменения файлов инструментами
+     * agentId - от чьего имени берется аренда файлов
+     */
+    setTransaction(transaction?: TaskTransaction, agentId?: string): void {
+        this.mcpClient.setTransaction(transaction, agentId);
+    }
+
+    /**
+     * Описания инструментов для модели
+     */
+    getDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: 'readFile',
+                description: 'Прочитать файл проекта. Путь относительно корня рабочей области.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Путь к файлу' }
+                    },
+                    required: ['path']
+                }
+            },
+            {
+                name: 'searchCode',
+                description: 'Найти строки, содержащие текст (без учета регистра).',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'Искомый текст' },
+                        filePattern: { type: 'string', description: 'Glob шаблон файлов, например src/**/*.ts' }
+                    },
+                    required: ['query']
+                }
+            },
+            {
+                name: 'semanticSearch',
+                description: 'Найти фрагменты кода по смыслу: описание на естественном языке или набор ключевых слов.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'Что нужно найти' },
+                        k: { type: 'number', description: 'Количество фрагментов (по умолчанию 5)' }
+                    },
+                    required: ['query']
+                }
+            },
+            {
+                name: 'findReferences',
+                description: 'Найти использования символа (функции, класса, переменной).',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        symbol: { type: 'string', description: 'Имя символа' },
+                        filePattern: { type: 'string', description: 'Glob шаблон файлов' }
+                    },
+                    required: ['symbol']
+                }
+            },
+            {
+                name: 'applyPatch',
+                description: 'Изменить файл. Передай edits (фрагменты search и их замены replace) или diff (unified diff файла) для правки, ' +
+                    'content для создания или полной перезаписи файла, либо delete=true для удаления. ' +
+                    'Если хоть один ханк не применится, файл не меняется, а в ответе будут неприменившиеся ханки.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Путь к файлу' },
+                        edits: {
+                            type: 'array',
+                            description: 'Правки: search должен встречаться в файле ровно один раз',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    search: { type: 'string' },
+                                    replace: { type: 'string' }
+                                },
+                                required: ['search', 'replace']
+                            }
+                        },
+                        diff: { type: 'string', description: 'Unified diff файла с ханками @@ и строками контекста' },
+                        content: { type: 'string', description: 'Полное содержимое файла' },
+                        delete: { type: 'boolean', description: 'Удалить файл' }
+                    },
+                    required: ['path']
+                }
+            },
+            {
+                name: 'runTests',
+                description: 'Запустить тесты проекта. Возвращает число пройденных и упавших тестов и сообщения об ошибках.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        pattern: { type: 'string', description: 'Шаблон тестовых файлов' },
+                        affectedOnly: { type: 'boolean', description: 'Только тесты, затронутые изменениями задачи (по графу зависимостей)' },
+                        changedFiles: { type: 'array', items: { type: 'string' }, description: 'Измененные файлы для affectedOnly вместо файлов задачи' },
+                        coverage: { type: 'boolean', description: 'Собрать покрытие кода тестами' }
+                    }
+                }
+            },
+            {
+                name: FINISH_TOOL,
+                description: 'Завершить работу над задачей, когда все изменения внесены.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        summary: { type: 'string', description: 'Краткий итог проделанной работы' }
+                    },
+                    required: ['summary']
+                }
+            }
+        ];
+    }
+
+    /**
+     * Выполнить вызов инструмента
+     * Ошибки не выбрасываются, а возвращаются модели как результат
+     */
+    async execute(call: ToolCall): Promise<ToolExecutionResult> {
+        const args = call.arguments || {};
+
+        try {
+            switch (call.name) {
+                case 'readFile':
+                    return this.ok(await this.mcpClient.readFile(this.requireString(args, 'path')));
+
+                case 'searchCode': {
+                    const results = await this.mcpClient.searchCode(this.requireString(args, 'query'), args.filePattern);
+                    return this.ok(this.formatSearchResults(results));
+                }
+
+                case 'semanticSearch': {
+                    const k = typeof args.k === 'number' && args.k > 0 ? Math.min(args.k, MAX_SEMANTIC_RESULTS) : 5;
+                    const results = await this.mcpClient.semanticSearch(this.requireString(args, 'query'), k);
+                    return this.ok(this.formatSnippets(results));
+                }
+
+                case 'findReferences': {
+                    const results = await this.mcpClient.findReferences(this.requireString(args, 'symbol'), args.filePattern);
+                    return this.ok(this.formatSearchResults(results));
+                }
+
+                case 'applyPatch':
+                    return await this.applyPatch(args);
+
+                case 'runTests': {
+                    const result = await this.mcpClient.runTests(args.pattern, {
+                        affectedOnly: args.affectedOnly === true,
+                        changedFiles: Array.isArray(args.changedFiles) ? args.changedFiles : undefined,
+                        coverage: args.coverage === true
+                    });
+                    return { output: this.truncate(this.formatTestResult(result)), isError: false };
+                }
+
+                case FINISH_TOOL:
+                    return { output: String(args.summary || ''), isError: false, finished: true };
+
+                default:
+                    return { output: `Неизвестный инструмент: ${call.name}`, isError: true };
+            }
+        } catch (error: any) {
+            return { output: `Ошибка: ${error.message || error}`, isError: true };
+        }
+    }
+
+    /**
+     * Применить изменение файла
+     */
+    private async applyPatch(args: { [key: string]: any }): Promise<ToolExecutionResult> {
+        const filePath = this.requireString(args, 'path');
+
+        if (args.delete === true) {
+            await this.mcpClient.deleteFile(filePath);
+            return { output: `Файл ${filePath} удален`, isError: false, filesChanged: [filePath] };
+        }
+
+        if (typeof args.content === 'string') {
+            const exists = await this.fileExists(filePath);
+            if (exists) {
+                await this.mcpClient.modifyFile(filePath, args.content);
+            } else {
+                await this.mcpClient.createFile(filePath, args.content);
+            }
+            return {
+                output: `Файл ${filePath} ${exists ? 'перезаписан' : 'создан'}`,
+                isError: false,
+                filesChanged: [filePath]
+            };
+        }
+
+        const hasEdits = Array.isArray(args.edits) && args.edits.length > 0;
+        const diff = typeof args.diff === 'string' && args.diff.trim() ? args.diff : undefined;
+        if (!hasEdits && !diff) {
+            return { output: 'Нужно передать edits, diff, content или delete', isError: true };
+        }
+
+        const content = await this.mcpClient.readFile(filePath);
+        const result = applyPatch(content, { diff, edits: hasEdits ? args.edits as SearchReplaceEdit[] : undefined });
+
+        if (result.failed.length > 0) {
+            return {
+                output: `${formatPatchFailures([{ path: filePath, hunks: result.failed }])}\n` +
+                    `Файл не изменен. Прочитай актуальный фрагмент файла и повтори неприменившиеся правки.`,
+                isError: true
+            };
+        }
+
+        await this.mcpClient.modifyFile(filePath, result.content);
+        const fuzzy = result.hunks.filter(hunk => hunk.fuzz || hunk.offset);
+        return {
+            output: `Применено правок: ${result.hunks.length} в ${filePath}` +
+                (fuzzy.length > 0 ? ` (неточно совпали: ${fuzzy.map(hunk => `#${hunk.index}`).join(', ')})` : ''),
+            isError: false,
+            filesChanged: [filePath]
+        };
+    }
+
+    /**
+     * Применить готовые изменения из решения (патчи и содержимое новых файлов)
+     * Каждый файл применяется отдельно: неприменившиеся патчи возвращаются, а не прерывают остальные файлы
+     */
+    async applyPlannedChanges(changes: FileChange[]): Promise<PlannedChangesResult> {
+        const filesChanged: string[] = [];
+        const failures: PatchFailure[] = [];
+
+        for (const change of changes) {
+            try {
+                if (change.type === 'create' && change.content !== undefined) {
+                    await this.mcpClient.createFile(change.path, change.content);
+                } else {
+                    await this.mcpClient.applyChanges([change]);
+                }
+                filesChanged.push(change.path);
+            } catch (error: any) {
+                if (error instanceof PatchApplyError) {
+                    failures.push(...error.failures);
+                } else {
+                    failures.push({ path: change.path, hunks: [{ index: 1, header: '', applied: false, reason: error.message || String(error) }] });
+                }
+            }
+        }
+
+        return { filesChanged, failures };
+    }
+
+    private async fileExists(filePath: string): Promise<boolean> {
+        try {
+            await this.mcpClient.readFile(filePath);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private formatSearchResults(results: { file: string; line: number; text: string }[]): string {
+        if (results.length === 0) {
+            return 'Ничего не найдено';
+        }
+
+        const lines = results
+            .slice(0, MAX_SEARCH_RESULTS)
+            .map(r => `${r.file}:${r.line}: ${r.text}`);
+
+        if (results.length > MAX_SEARCH_RESULTS) {
+            lines.push(`... и еще ${results.length - MAX_SEARCH_RESULTS} совпадений`);
+        }
+
+        return lines.join('\n');
+    }
+
+    private formatSnippets(results: SemanticSearchResult[]): string {
+        if (results.length === 0) {
+            return 'Ничего не найдено';
+        }
+
+        return results
+            .map(r => `${r.file}:${r.startLine}-${r.endLine} (score ${r.score})\n${r.text}`)
+            .join('\n\n');
+    }
+
+    private requireString(args: { [key: string]: any }, key: string): string {
+        const value = args[key];
+        if (typeof value !== 'string' || value.length === 0) {
+            throw new Error(`Не указан аргумент ${key}`);
+        }
+        return value;
+    }
+
+    private ok(output: string): ToolExecutionResult {
+        return { output: this.truncate(output), isError: false };
+    }
+
+    /**
+     * Итог тестов для модели: сначала упавшие тесты с сообщениями, затем хвост вывода
+     */
+    private formatTestResult(result: TestRunResult): string {
+        const lines = [
+            `success: ${result.success}, passed: ${result.passed}, failed: ${result.failed}, skipped: ${result.skipped}`
+                + (result.command ? `\ncommand: ${result.command}` : '')
+                + (result.timedOut ? '\ntimed out' : '')
+                + (result.coverage ? `\ncoverage: ${result.coverage.percent}% (${result.coverage.linesHit}/${result.coverage.linesFound} lines)` : '')
+        ];
+
+        const failures = result.tests.filter(test => test.status === 'failed');
+        for (const test of failures.slice(0, MAX_REPORTED_TEST_FAILURES)) {
+            lines.push(`FAIL ${test.name}${test.file ? ` (${test.file})` : ''}\n${(test.failureMessage || '').trim()}`);
+        }
+        if (failures.length > MAX_REPORTED_TEST_FAILURES) {
+            lines.push(`... и еще ${failures.length - MAX_REPORTED_TEST_FAILURES} упавших тестов`);
+        }
+
+        // Без разобранного отчета модели нужен вывод процесса
+        if (result.tests.length === 0 || !result.success) {
+            lines.push(result.output.slice(-MAX_OUTPUT_LENGTH / 2));
+        }
+        return lines.join('\n\n');
+    }
+
+    private truncate(text: string): string {
+        if (text.length <= MAX_OUTPUT_LENGTH) {
+            return text;
+        }
+        return `${text.substring(0, MAX_OUTPUT_LENGTH)}\n... (обрезано ${text.length - MAX_OUTPUT_LENGTH} символов)`;
+    }
+}
@@ -30,7 +30,7 @@ export class ArchitectAgent extends LocalAgent {
 Контекст проекта:
 - Архитектура: ${projectContext.standards?.architecture || 'не определена'}
 - Паттерны: ${projectContext.patterns?.join(', ') || 'не определены'}
-- Структура: ${projectContext.structure.directories.join(', ')}
+- Структура: ${projectContext.structure.directories.join(', ')}${this.formatProjectContext(projectContext)}
 
 Проанализируй задачу и определи:
 1. Архитектурные аспекты проблемы
@@ -82,7 +82,7 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
 ]`;
 
         const response = await this.callLLM(prompt);
-        const options = this.parseOptions(response);
+        const options = await this.parseOptions(response);
 
         return options.map((opt, index) => ({
             id: `option-${task.id}-${index}`,
@@ -154,9 +154,9 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
         };
     }
 
-    private parseOptions(text: string): Omit<SolutionOption, 'id'>[] {
+    private async parseOptions(text: string): Promise<Omit<SolutionOption, 'id'>[]> {
         // Используем общий метод парсинга из LocalAgent
-        const parsed = this.parseJSONOptions(text, 'ArchitectAgent');
+        const parsed = await this.parseJSONOptions(text, 'ArchitectAgent');
         
         if (parsed.length > 0) {
             return parsed;
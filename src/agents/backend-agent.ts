@@ -30,7 +30,7 @@ export class BackendAgent extends LocalAgent {
 Контекст проекта:
 - Архитектура: ${projectContext.standards?.architecture || 'не определена'}
 - Стиль кода: ${projectContext.standards?.codeStyle || 'не определен'}
-- Паттерны: ${projectContext.patterns?.join(', ') || 'не определены'}
+- Паттерны: ${projectContext.patterns?.join(', ') || 'не определены'}${this.formatProjectContext(projectContext)}
 
 Проанализируй задачу и определи:
 1. Суть проблемы
@@ -85,7 +85,7 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
 ]`;
 
         const response = await this.callLLM(prompt);
-        const options = this.parseOptions(response);
+        const options = await this.parseOptions(response);
 
         return options.map((opt, index) => ({
             id: `option-${task.id}-${index}`,
@@ -163,9 +163,9 @@ ${option.cons.map(c => `- ${c}`).join('\n')}
         };
     }
 
-    private parseOptions(text: string): Omit<SolutionOption, 'id'>[] {
+    private async parseOptions(text: string): Promise<Omit<SolutionOption, 'id'>[]> {
         // Используем общий метод парсинга из LocalAgent
-        const parsed = this.parseJSONOptions(text, 'BackendAgent');
+        const parsed = await this.parseJSONOptions(text, 'BackendAgent');
         
         if (parsed.length > 0) {
             return parsed;
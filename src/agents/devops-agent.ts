@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import { Task } from '../orchestrator/orchestrator';
 import { LocalAgent, ProjectContext, SolutionOption, ExecutionResult, AgentSolution } from './local-agent';
+import { DependencyAuditor, formatVulnerability } from '../quality/dependency-audit';
+
+// Сколько уязвимостей и нарушений лицензий передавать в промпт
+const MAX_AUDIT_ITEMS = 10;
 
 /**
  * DevOps Engineer Agent
@@ -25,7 +29,7 @@ export class DevOpsAgent extends LocalAgent {
 
 Задача: ${task.description}
 Тип: ${task.type}
-Приоритет: ${task.priority}
+Приоритет: ${task.priority}${this.formatProjectContext(projectContext)}${this.formatDependencyAudit()}
 
 Проанализируй задачу и определи:
 1. Аспекты инфраструктуры и деплоя
@@ -77,7 +81,7 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
 ]`;
 
         const response = await this.callLLM(prompt);
-        const options = this.parseOptions(response);
+        const options = await this.parseOptions(response);
 
         return options.map((opt, index) => ({
             id: `option-${task.id}-${index}`,
@@ -132,6 +136,33 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
 - Простота деплоя`;
     }
 
+    /**
+     * Итоги аудита зависимостей для промпта: уязвимости и нарушения лицензий из lock-файлов
+     */
+    private formatDependencyAudit(): string {
+        let audit;
+        try {
+            audit = DependencyAuditor.getInstance().audit();
+        } catch (error) {
+            console.error('DevOpsAgent: Dependency audit failed:', error);
+            return '';
+        }
+        if (audit.lockfiles.length === 0) {
+            return '';
+        }
+
+        const lines = [
+            ...audit.vulnerabilities.slice(0, MAX_AUDIT_ITEMS).map(vulnerability => `- ${formatVulnerability(vulnerability)}`),
+            ...audit.licenseViolations.slice(0, MAX_AUDIT_ITEMS)
+                .map(violation => `- ${violation.package.name}@${violation.package.version}: лицензия ${violation.license} не разрешена`)
+        ];
+        const database = audit.advisories > 0 ? `${audit.advisories} advisories` : 'база advisories не импортирована';
+        return `\n\nАудит зависимостей (${audit.lockfiles.join(', ')}; ${audit.packages} пакетов, ${database}): ` +
+            (lines.length > 0
+                ? `уязвимостей ${audit.vulnerabilities.length}, нарушений лицензий ${audit.licenseViolations.length}\n${lines.join('\n')}`
+                : 'проблем не найдено');
+    }
+
     private parseAnalysis(text: string): { problem: string; context: string; constraints: string[] } {
         const problemMatch = text.match(/ПРОБЛЕМА:\s*(.+?)(?=КОНТЕКСТ:|$)/is);
         const contextMatch = text.match(/КОНТЕКСТ:\s*(.+?)(?=ОГРАНИЧЕНИЯ:|$)/is);
@@ -148,9 +179,9 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
         };
     }
 
-    private parseOptions(text: string): Omit<SolutionOption, 'id'>[] {
+    private async parseOptions(text: string): Promise<Omit<SolutionOption, 'id'>[]> {
         // Используем общий метод парсинга из LocalAgent
-        const parsed = this.parseJSONOptions(text, 'DevOpsAgent');
+        const parsed = await this.parseJSONOptions(text, 'DevOpsAgent');
         
         if (parsed.length > 0) {
             return parsed;
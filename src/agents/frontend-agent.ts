@@ -29,7 +29,7 @@ export class FrontendAgent extends LocalAgent {
 
 Контекст проекта:
 - Стиль кода: ${projectContext.standards?.codeStyle || 'не определен'}
-- Паттерны: ${projectContext.patterns?.join(', ') || 'не определены'}
+- Паттерны: ${projectContext.patterns?.join(', ') || 'не определены'}${this.formatProjectContext(projectContext)}
 
 Проанализируй задачу с точки зрения frontend разработки и определи:
 1. Суть проблемы
@@ -81,7 +81,7 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
 ]`;
 
         const response = await this.callLLM(prompt);
-        const options = this.parseOptions(response);
+        const options = await this.parseOptions(response);
 
         return options.map((opt, index) => ({
             id: `option-${task.id}-${index}`,
@@ -153,9 +153,9 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
         };
     }
 
-    private parseOptions(text: string): Omit<SolutionOption, 'id'>[] {
+    private async parseOptions(text: string): Promise<Omit<SolutionOption, 'id'>[]> {
         // Используем общий метод парсинга из LocalAgent
-        const parsed = this.parseJSONOptions(text, 'FrontendAgent');
+        const parsed = await this.parseJSONOptions(text, 'FrontendAgent');
         
         if (parsed.length > 0) {
             return parsed;
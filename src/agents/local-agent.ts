@@ -5,6 +5,16 @@ import { LanguageModelInfo } from '../integration/model-provider';
 import { SettingsManager } from '../integration/settings-manager';
 import { ModelProviderManager } from '../integration/model-providers/provider-manager';
 import { UsageTracker } from '../integration/model-providers/usage-tracker';
+import { ChatMessage, CallOptions, CallResult } from '../integration/model-providers/base-provider';
+import { AgentToolbox } from './agent-toolbox';
+import { PatchFailure, SearchReplaceEdit, formatPatchFailures, isPatchChange } from './worker/patch-applier';
+import { isCancellationError, throwIfCancelled } from '../integration/model-providers/retry';
+import { TaskCancellationRegistry } from '../orchestrator/task-cancellation';
+import { TaskTransactionManager } from '../orchestrator/task-transaction';
+import { TaskTracer } from '../orchestrator/task-trace';
+import { SemanticSearchResult } from '../orchestrator/semantic-index';
+import { ResponseParser, parseSolutionOptions } from './agent-response-parser';
+import { AssembledContext, ContextAssembler, ContextCandidate, ContextReport, formatContextReport, packContext } from '../orchestrator/context-assembler';
 
 /**
  * Контекст проекта для агентов
@@ -26,6 +36,9 @@ export interface ProjectContext {
     knowledge?: {
         [key: string]: any;
     };
+    relevantSnippets?: SemanticSearchResult[]; // фрагменты кода, близкие к задаче
+    contextCandidates?: ContextCandidate[]; // ранжированное содержимое для промпта (без учета бюджета)
+    assembled?: AssembledContext; // содержимое, упакованное в бюджет модели агента
 }
 
 /**
@@ -63,6 +76,8 @@ export interface AgentThoughts {
     selectedOption?: SolutionOption;
     reasoning: string;
     implementationPlan: string[];
+    partialOutput?: string; // Ответ модели по мере генерации (потоковый режим)
+    contextReport?: ContextReport; // что из контекста проекта вошло в промпты и что отброшено
     progress: {
         currentStep: number;
         totalSteps: number;
@@ -89,6 +104,10 @@ export interface AgentSolution {
             type: 'create' | 'modify' | 'delete';
             description: string;
             estimatedLines?: number;
+            // Готовое изменение: unified diff или правки search/replace (для modify), content (для create)
+            diff?: string;
+            edits?: SearchReplaceEdit[];
+            content?: string;
         }[];
         dependencies: {
             files: string[];
@@ -134,6 +153,43 @@ export abstract class LocalAgent {
     protected settingsManager: SettingsManager;
     protected selectedModel?: LanguageModelInfo;
     protected usageTracker?: UsageTracker;
+    protected toolbox?: AgentToolbox;
+    protected activeThoughts?: AgentThoughts;
+    protected currentSignal?: AbortSignal;
+    protected currentTaskId?: string;
+    private lastPartialPublish: number = 0;
+
+    /**
+     * Максимум шагов цикла инструментов на одно решение
+     */
+    protected static readonly MAX_TOOL_STEPS = 25;
+
+    /**
+     * Минимальный интервал публикации частичного ответа (мс), чтобы не перерисовывать UI на каждый токен
+     */
+    protected static readonly PARTIAL_PUBLISH_INTERVAL = 250;
+
+    /**
+     * Окно модели, если провайдер не сообщает maxTokens
+     */
+    protected static readonly DEFAULT_CONTEXT_WINDOW = 4096;
+
+    /**
+     * Токены на инструкции промпта и описание задачи (без контекста проекта)
+     */
+    protected static readonly PROMPT_RESERVE_TOKENS = 1000;
+
+    /**
+     * Минимальный бюджет контекста даже для моделей с маленьким окном
+     */
+    protected static readonly MIN_CONTEXT_BUDGET = 256;
+
+    /**
+     * Сколько символов вывода инструмента сохраняется в трассе задачи
+     */
+    protected static readonly MAX_TRACED_TOOL_OUTPUT = 4000;
+
+    private static responseParser: ResponseParser | null = null;
 
     constructor(
         id: string,
@@ -183,8 +239,25 @@ export abstract class LocalAgent {
             }
         };
 
+        const budgetedContext = await this.assembleContext(task, projectContext);
+        initialThoughts.contextReport = budgetedContext.assembled?.report;
+
         this.publishThoughts(initialThoughts);
 
+        // Пока агент размышляет, ответы модели транслируются в размышления по мере генерации
+        this.activeThoughts = initialThoughts;
+        try {
+            return await this.withTaskSignal(task, () => this.thinkPhases(initialThoughts, task, budgetedContext));
+        } finally {
+            this.activeThoughts = undefined;
+            initialThoughts.partialOutput = undefined;
+        }
+    }
+
+    /**
+     * Фазы размышления: анализ, генерация вариантов, выбор и план
+     */
+    private async thinkPhases(initialThoughts: AgentThoughts, task: Task, projectContext: ProjectContext): Promise<AgentThoughts> {
         // Анализ задачи
         const analysis = await this.analyzeTask(task, projectContext);
         initialThoughts.analysis = analysis;
@@ -221,40 +294,46 @@ export abstract class LocalAgent {
             throw new Error('No selected option in thoughts');
         }
 
-        const solution: AgentSolution = {
-            id: `solution-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            agentId: this.id,
-            agentName: this.name,
-            taskId: task.id,
-            timestamp: new Date(),
-            solution: {
-                title: thoughts.selectedOption.title,
-                description: thoughts.selectedOption.description,
-                approach: thoughts.selectedOption.approach,
-                filesToModify: thoughts.selectedOption.filesToModify,
-                codeChanges: await this.planCodeChanges(thoughts.selectedOption, task, projectContext),
-                dependencies: await this.analyzeDependencies(thoughts.selectedOption, projectContext)
-            },
-            evaluation: await this.evaluateSolution(thoughts.selectedOption, task, projectContext),
-            reasoning: thoughts.reasoning,
-            confidence: thoughts.selectedOption.confidence,
-            estimatedTime: thoughts.selectedOption.estimatedTime
-        };
+        const selectedOption = thoughts.selectedOption;
+        return await this.withTaskSignal(task, async () => {
+            const solution: AgentSolution = {
+                id: `solution-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                agentId: this.id,
+                agentName: this.name,
+                taskId: task.id,
+                timestamp: new Date(),
+                solution: {
+                    title: selectedOption.title,
+                    description: selectedOption.description,
+                    approach: selectedOption.approach,
+                    filesToModify: selectedOption.filesToModify,
+                    codeChanges: await this.planCodeChanges(selectedOption, task, projectContext),
+                    dependencies: await this.analyzeDependencies(selectedOption, projectContext)
+                },
+                evaluation: await this.evaluateSolution(selectedOption, task, projectContext),
+                reasoning: thoughts.reasoning,
+                confidence: selectedOption.confidence,
+                estimatedTime: selectedOption.estimatedTime
+            };
 
-        return solution;
+            return solution;
+        });
     }
 
     /**
      * Выполнение решения
-     * Базовая реализация, которую агенты могут переопределить
+     * Цикл function-calling: модель пошагово вызывает инструменты (readFile, searchCode,
+     * findReferences, applyPatch, runTests), результаты возвращаются ей, пока она не вызовет finish.
+     * Готовые патчи из codeChanges применяются сразу без модели; модели остаются изменения
+     * без патча и неприменившиеся ханки. Все записи файлов идут в транзакцию задачи:
+     * при ошибке или отмене изменения откатываются, фиксирует транзакцию вызывающий после проверки качества
      */
     async executeSolution(solution: AgentSolution, task: Task, projectContext: ProjectContext): Promise<ExecutionResult> {
         const startTime = Date.now();
         const filesChanged: string[] = [];
+        let codeChanges = 0;
 
         try {
-            const edit = new vscode.WorkspaceEdit();
-
             // Проверяем workspace folder перед началом обработки изменений
             const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
             if (!workspaceFolder) {
@@ -268,185 +347,298 @@ export abstract class LocalAgent {
                 throw new Error('Рабочая область недоступна. Проверьте, что папка проекта открыта корректно.');
             }
 
-            // Обрабатываем каждое изменение кода
-            for (const change of solution.solution.codeChanges) {
-
-                const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, change.file);
-
-                if (change.type === 'create') {
-                    // Генерируем код для нового файла через LLM
-                    const codePrompt = this.buildCodeGenerationPrompt(change, solution, task, projectContext);
-                    const generatedCode = await this.callLLM(codePrompt);
-                    
-                    if (generatedCode) {
-                        // Создаем новый файл с сгенерированным кодом
-                        edit.createFile(fileUri);
-                        edit.insert(fileUri, new vscode.Position(0, 0), generatedCode);
-                        filesChanged.push(change.file);
-                    }
-                } else if (change.type === 'modify') {
-                    // Читаем существующий файл
-                    let existingContent = '';
-                    try {
-                        const fileData = await vscode.workspace.fs.readFile(fileUri);
-                        existingContent = Buffer.from(fileData).toString('utf-8');
-                    } catch (error) {
-                        // Файл не существует, создаем новый
-                        existingContent = '';
-                    }
+            const signal = TaskCancellationRegistry.getInstance().getSignal(task.id);
+            const toolbox = this.getToolbox();
+            const tools = toolbox.getDefinitions();
+            toolbox.setTransaction(await TaskTransactionManager.getInstance().begin(task.id), this.id);
+
+            const prepared = solution.solution.codeChanges.filter(change =>
+                isPatchChange(change) || (change.type === 'create' && change.content !== undefined));
+            let patchFailures: PatchFailure[] = [];
+
+            if (prepared.length > 0) {
+                const applied = await toolbox.applyPlannedChanges(prepared.map(change => ({
+                    type: change.type,
+                    path: change.file,
+                    content: change.content,
+                    diff: change.diff,
+                    edits: change.edits
+                })));
+                filesChanged.push(...applied.filesChanged);
+                codeChanges += applied.filesChanged.length;
+                patchFailures = applied.failures;
+
+                if (patchFailures.length > 0) {
+                    console.warn(`Agent ${this.id}: ${formatPatchFailures(patchFailures)}`);
+                } else if (prepared.length === solution.solution.codeChanges.length) {
+                    return {
+                        success: true,
+                        message: `Решение "${solution.solution.title}" применено из патчей`,
+                        filesChanged,
+                        codeChanges,
+                        executionTime: Date.now() - startTime
+                    };
+                }
+            }
+
+            const manager = ModelProviderManager.getInstance();
+            const modelConfig = this.settingsManager.getAgentModelConfig(this.id);
+            const tracer = TaskTracer.getInstance();
+
+            const budgetedContext = await this.assembleContext(task, projectContext);
+            const messages: ChatMessage[] = [
+                { role: 'system', content: this.buildToolSystemPrompt(budgetedContext) },
+                { role: 'user', content: this.buildToolTaskPrompt(solution, task, filesChanged, patchFailures) }
+            ];
 
-                    // Генерируем изменения через LLM
-                    const modificationPrompt = this.buildCodeModificationPrompt(
-                        change, 
-                        existingContent, 
-                        solution, 
-                        task, 
-                        projectContext
-                    );
-                    const modifiedCode = await this.callLLM(modificationPrompt);
-                    
-                    if (modifiedCode) {
-                        // Заменяем весь файл (в реальной реализации можно использовать более точные правки)
-                        if (existingContent) {
-                            const lines = existingContent.split('\n');
-                            const fullRange = new vscode.Range(
-                                new vscode.Position(0, 0),
-                                new vscode.Position(Math.max(0, lines.length - 1), lines[lines.length - 1]?.length || 0)
-                            );
-                            edit.replace(fileUri, fullRange, modifiedCode);
-                        } else {
-                            edit.createFile(fileUri);
-                            edit.insert(fileUri, new vscode.Position(0, 0), modifiedCode);
+            let summary = '';
+            let finished = false;
+
+            for (let step = 0; step < LocalAgent.MAX_TOOL_STEPS && !finished; step++) {
+                throwIfCancelled(signal);
+
+                const provider = await manager.getProviderForAgent(this.id);
+                const providerType = provider?.getProviderType() || 'cursorai';
+
+                const llmSpan = tracer.startSpan(task.id, 'llm', `${this.id}: tools step ${step + 1}`, {
+                    agentId: this.id,
+                    provider: providerType,
+                    model: modelConfig.modelConfig?.model || provider?.getModelInfo().id,
+                    mode: 'tools',
+                    step: step + 1,
+                    prompt: messages[messages.length - 1].content
+                });
+                let result;
+                try {
+                    result = await manager.callForAgentWithTools(this.id, messages, tools, {
+                        temperature: modelConfig.modelConfig?.temperature,
+                        maxTokens: modelConfig.modelConfig?.maxTokens,
+                        model: modelConfig.modelConfig?.model,
+                        signal
+                    });
+                } catch (error: any) {
+                    llmSpan.end('error', { error: error?.message || String(error) });
+                    throw error;
+                }
+                llmSpan.end('ok', {
+                    response: result.text || '',
+                    toolCalls: result.toolCalls.map(call => call.name),
+                    inputTokens: result.tokensUsed?.input,
+                    outputTokens: result.tokensUsed?.output,
+                    cost: result.cost,
+                    latencyMs: result.responseTime
+                });
+
+                if (this.usageTracker) {
+                    this.usageTracker.trackUsage(providerType, this.id, result);
+                }
+
+                messages.push({ role: 'assistant', content: result.text || '', toolCalls: result.toolCalls });
+
+                // Модель ответила без вызова инструментов - считаем работу завершенной
+                if (result.toolCalls.length === 0) {
+                    summary = result.text || '';
+                    finished = true;
+                    break;
+                }
+
+                for (const call of result.toolCalls) {
+                    const toolSpan = tracer.startSpan(task.id, 'tool', call.name, { agentId: this.id, arguments: call.arguments });
+                    const toolResult = await toolbox.execute(call);
+                    toolSpan.end(toolResult.isError ? 'error' : 'ok', {
+                        output: toolResult.output.substring(0, LocalAgent.MAX_TRACED_TOOL_OUTPUT),
+                        filesChanged: toolResult.filesChanged
+                    });
+
+                    if (toolResult.filesChanged) {
+                        codeChanges++;
+                        for (const file of toolResult.filesChanged) {
+                            if (!filesChanged.includes(file)) {
+                                filesChanged.push(file);
+                            }
                         }
-                        filesChanged.push(change.file);
                     }
-                } else if (change.type === 'delete') {
-                    edit.deleteFile(fileUri);
-                    filesChanged.push(change.file);
+
+                    if (toolResult.finished) {
+                        finished = true;
+                        summary = toolResult.output;
+                    }
+
+                    messages.push({
+                        role: 'tool',
+                        toolCallId: call.id,
+                        name: call.name,
+                        content: toolResult.isError ? `ERROR: ${toolResult.output}` : toolResult.output
+                    });
                 }
             }
 
-            // Проверяем, есть ли изменения для применения
+            // Агент не завершил работу: частичные изменения откатываются, как при ошибке
+            if (!finished) {
+                console.warn(`Agent ${this.id} reached tool step limit (${LocalAgent.MAX_TOOL_STEPS}) for task ${task.id}`);
+                throw new Error(`Агент не завершил задачу за ${LocalAgent.MAX_TOOL_STEPS} шагов`);
+            }
+
+            // Проверяем, есть ли изменения
             if (filesChanged.length === 0) {
                 console.warn('No files to modify in solution');
                 return {
                     success: true,
-                    message: 'Решение не требует изменений файлов',
+                    message: summary || 'Решение не требует изменений файлов',
                     filesChanged: [],
                     codeChanges: 0,
                     executionTime: Date.now() - startTime
                 };
             }
 
-            // Применяем все изменения
-            const success = await vscode.workspace.applyEdit(edit);
-            
-            if (!success) {
-                // Получаем более детальную информацию об ошибке
-                const editSize = filesChanged.length;
-                const errorDetails = {
-                    filesCount: editSize,
-                    files: filesChanged,
-                    editSize: JSON.stringify(edit).length
-                };
-                
-                console.error('Failed to apply workspace edits:', errorDetails);
-                
-                // Пытаемся получить дополнительную информацию об ошибке
-                try {
-                    // Проверяем, может быть проблема с правами доступа
-                    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-                    if (workspaceFolder) {
-                        for (const file of filesChanged) {
-                            try {
-                                const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, file);
-                                await vscode.workspace.fs.stat(fileUri);
-                            } catch (statError: any) {
-                                console.error(`File access issue for ${file}:`, statError.message);
-                            }
-                        }
-                    }
-                } catch (diagnosticError) {
-                    console.debug('Diagnostic check failed:', diagnosticError);
-                }
-                
-                throw new Error(`Не удалось применить изменения к ${editSize} файл(ам). Возможно, файлы заблокированы или нет прав доступа.`);
-            }
-
             return {
                 success: true,
-                message: `Решение "${solution.solution.title}" успешно реализовано`,
+                message: summary || `Решение "${solution.solution.title}" успешно реализовано`,
                 filesChanged,
-                codeChanges: solution.solution.codeChanges.length,
+                codeChanges,
                 executionTime: Date.now() - startTime
             };
         } catch (error: any) {
+            const rolledBack = filesChanged.length > 0 && await this.rollbackChanges(task.id);
             return {
                 success: false,
-                error: error.message || 'Неизвестная ошибка',
-                filesChanged,
-                codeChanges: 0,
+                error: isCancellationError(error) ? 'Задача отменена' : (error.message || 'Неизвестная ошибка'),
+                filesChanged: rolledBack ? [] : filesChanged,
+                codeChanges: rolledBack ? 0 : codeChanges,
                 executionTime: Date.now() - startTime
             };
+        } finally {
+            this.getToolbox().setTransaction(undefined);
         }
     }
 
     /**
-     * Построение промпта для генерации кода
+     * Откат частично внесенных изменений задачи
      */
-    protected buildCodeGenerationPrompt(
-        change: AgentSolution['solution']['codeChanges'][0],
-        solution: AgentSolution,
-        task: Task,
-        projectContext: ProjectContext
-    ): string {
-        return `Ты - ${this.name}. ${this.description}
+    private async rollbackChanges(taskId: string): Promise<boolean> {
+        try {
+            const result = await TaskTransactionManager.getInstance().rollback(taskId, true);
+            console.warn(`Agent ${this.id}: rolled back ${result.restored.length} files of task ${taskId}`);
+            return result.failed.length === 0;
+        } catch (error) {
+            console.error(`Agent ${this.id}: rollback of task ${taskId} failed:`, error);
+            return false;
+        }
+    }
 
-Задача: ${task.description}
-Решение: ${solution.solution.title}
-Описание решения: ${solution.solution.description}
-Подход: ${solution.solution.approach}
+    /**
+     * Упаковка контекста проекта в бюджет модели агента
+     * Кандидаты ранжирует оркестратор; если их нет, они собираются из самого ProjectContext
+     */
+    protected async assembleContext(task: Task, projectContext: ProjectContext): Promise<ProjectContext> {
+        try {
+            const candidates = projectContext.contextCandidates || new ContextAssembler().collectCandidates(task, projectContext);
+            const assembled = packContext(candidates, await this.getContextBudget());
+            console.log(`${this.id}: ${formatContextReport(assembled.report)}`);
+            return { ...projectContext, assembled };
+        } catch (error) {
+            console.error(`${this.id}: Error assembling context:`, error);
+            return projectContext;
+        }
+    }
+
+    /**
+     * Бюджет токенов контекста проекта: окно модели (ModelInfo.maxTokens)
+     * за вычетом ответа модели и собственного текста промпта
+     */
+    protected async getContextBudget(): Promise<number> {
+        const provider = await ModelProviderManager.getInstance().getProviderForAgent(this.id).catch(() => undefined);
+        const contextWindow = provider?.getModelInfo().maxTokens || LocalAgent.DEFAULT_CONTEXT_WINDOW;
+        const responseTokens = this.settingsManager.getAgentModelConfig(this.id).modelConfig?.maxTokens || 1000;
+        return Math.max(LocalAgent.MIN_CONTEXT_BUDGET, contextWindow - responseTokens - LocalAgent.PROMPT_RESERVE_TOKENS);
+    }
+
+    /**
+     * Выполнить работу над задачей с ее сигналом отмены (используется в callLLM, вызовы модели попадают в трассу задачи)
+     */
+    protected async withTaskSignal<T>(task: Task, work: () => Promise<T>): Promise<T> {
+        const previousSignal = this.currentSignal;
+        const previousTaskId = this.currentTaskId;
+        this.currentSignal = TaskCancellationRegistry.getInstance().getSignal(task.id);
+        this.currentTaskId = task.id;
+        try {
+            return await work();
+        } finally {
+            this.currentSignal = previousSignal;
+            this.currentTaskId = previousTaskId;
+        }
+    }
 
-Создай код для файла: ${change.file}
-Описание изменений: ${change.description}
+    /**
+     * Получить набор инструментов агента (создается при первом использовании)
+     */
+    protected getToolbox(): AgentToolbox {
+        if (!this.toolbox) {
+            this.toolbox = new AgentToolbox();
+        }
+        return this.toolbox;
+    }
+
+    /**
+     * Системный промпт для цикла инструментов
+     */
+    protected buildToolSystemPrompt(projectContext: ProjectContext): string {
+        return `Ты - ${this.name}. ${this.description}
+
+Ты вносишь изменения в проект с помощью инструментов. Порядок работы:
+1. Прочитай нужные файлы (readFile) и найди связанный код (semanticSearch, searchCode, findReferences).
+2. Вноси точечные правки через applyPatch: фрагменты search/replace или unified diff; content используй только для новых файлов.
+3. Проверь изменения тестами: runTests с affectedOnly запускает только затронутые тесты; с coverage собирает покрытие - измененные строки должны быть покрыты тестами; исправь упавшие тесты.
+4. Когда все изменения внесены, вызови finish с кратким итогом.
 
 Контекст проекта:
 - Архитектура: ${projectContext.standards?.architecture || 'не определена'}
-- Стиль кода: ${projectContext.standards?.codeStyle || 'не определен'}
+- Стиль кода: ${projectContext.standards?.codeStyle || 'не определен'}${this.formatProjectContext(projectContext)}`;
+    }
 
-Верни только код файла, без объяснений и markdown форматирования.`;
+    /**
+     * Контекст проекта для вставки в промпт: упакованный в бюджет модели,
+     * а без него - только фрагменты кода из семантического поиска
+     */
+    protected formatProjectContext(projectContext: ProjectContext): string {
+        if (projectContext.assembled) {
+            return projectContext.assembled.text ? `\n\n${projectContext.assembled.text}` : '';
+        }
+
+        const snippets = projectContext.relevantSnippets || [];
+        if (snippets.length === 0) {
+            return '';
+        }
+
+        const blocks = snippets.map(snippet => `--- ${snippet.file}:${snippet.startLine}-${snippet.endLine}\n${snippet.text}`);
+        return `\n\nРелевантный код проекта:\n${blocks.join('\n\n')}`;
     }
 
     /**
-     * Построение промпта для модификации кода
+     * Промпт с описанием задачи и выбранного решения
+     * Уже примененные патчи помечаются, неприменившиеся ханки передаются модели для доработки
      */
-    protected buildCodeModificationPrompt(
-        change: AgentSolution['solution']['codeChanges'][0],
-        existingCode: string,
+    protected buildToolTaskPrompt(
         solution: AgentSolution,
         task: Task,
-        projectContext: ProjectContext
+        appliedFiles: string[] = [],
+        patchFailures: PatchFailure[] = []
     ): string {
-        return `Ты - ${this.name}. ${this.description}
-
-Задача: ${task.description}
+        const plannedChanges = solution.solution.codeChanges
+            .map(change => `- ${change.type} ${change.file}: ${change.description}` +
+                (appliedFiles.includes(change.file) ? ' (уже применено)' : ''))
+            .join('\n');
+        const failures = patchFailures.length > 0
+            ? `\n\n${formatPatchFailures(patchFailures)}\nПрочитай эти файлы и внеси неприменившиеся правки через applyPatch.`
+            : '';
+
+        return `Задача: ${task.description}
 Решение: ${solution.solution.title}
 Описание решения: ${solution.solution.description}
 Подход: ${solution.solution.approach}
 
-Модифицируй существующий код в файле: ${change.file}
-Описание изменений: ${change.description}
-
-Текущий код файла:
-\`\`\`
-${existingCode}
-\`\`\`
-
-Контекст проекта:
-- Архитектура: ${projectContext.standards?.architecture || 'не определена'}
-- Стиль кода: ${projectContext.standards?.codeStyle || 'не определен'}
-
-Верни полный модифицированный код файла, без объяснений и markdown форматирования.`;
+Запланированные изменения:
+${plannedChanges || '- не определены, определи сам по коду проекта'}${failures}`;
     }
 
     /**
@@ -627,11 +819,40 @@ ${existingCode}
             const provider = await manager.getProviderForAgent(this.id);
             const providerType = provider?.getProviderType() || 'cursorai';
 
-            // Вызываем модель через провайдер
-            const result = await manager.callForAgent(this.id, fullPrompt, {
+            const callOptions = {
                 temperature: modelConfig.modelConfig?.temperature,
                 maxTokens: modelConfig.modelConfig?.maxTokens,
-                model: modelConfig.modelConfig?.model
+                model: modelConfig.modelConfig?.model,
+                signal: this.currentSignal
+            };
+
+            // Промпт и параметры вызова сохраняются в трассе для повтора на другой модели
+            const span = TaskTracer.getInstance().startSpan(this.currentTaskId, 'llm', `${this.id}: completion`, {
+                agentId: this.id,
+                provider: providerType,
+                model: callOptions.model || provider?.getModelInfo().id,
+                mode: 'completion',
+                prompt: fullPrompt,
+                temperature: callOptions.temperature,
+                maxTokens: callOptions.maxTokens
+            });
+
+            // Во время размышления используем потоковый вызов, чтобы показывать ответ в UI по мере генерации
+            let result: CallResult;
+            try {
+                result = this.activeThoughts
+                    ? await this.streamLLM(fullPrompt, callOptions, this.activeThoughts)
+                    : await manager.callForAgent(this.id, fullPrompt, callOptions);
+            } catch (error: any) {
+                span.end('error', { error: error?.message || String(error) });
+                throw error;
+            }
+            span.end('ok', {
+                response: result.text || '',
+                inputTokens: result.tokensUsed?.input,
+                outputTokens: result.tokensUsed?.output,
+                cost: result.cost,
+                latencyMs: result.responseTime
             });
 
             // Отслеживаем использование
@@ -641,6 +862,11 @@ ${existingCode}
 
             return result.text || '';
         } catch (error: any) {
+            // Задача отменена - не тратим токены на fallback, прерываем работу агента
+            if (isCancellationError(error)) {
+                throw error;
+            }
+
             console.error(`Error calling LLM for agent ${this.id}:`, error);
             
             // Fallback: пытаемся использовать CursorAI напрямую
@@ -675,6 +901,37 @@ ${existingCode}
         }
     }
 
+    /**
+     * Потоковый вызов модели с публикацией частичного ответа в размышлениях
+     */
+    private async streamLLM(prompt: string, options: CallOptions, thoughts: AgentThoughts): Promise<CallResult> {
+        const manager = ModelProviderManager.getInstance();
+        let text = '';
+        let result: CallResult | undefined;
+
+        thoughts.partialOutput = '';
+        try {
+            for await (const chunk of manager.callForAgentStream(this.id, prompt, options)) {
+                if (chunk.type === 'delta') {
+                    text += chunk.text;
+                    thoughts.partialOutput = text;
+
+                    const now = Date.now();
+                    if (now - this.lastPartialPublish >= LocalAgent.PARTIAL_PUBLISH_INTERVAL) {
+                        this.lastPartialPublish = now;
+                        this.publishThoughts(thoughts);
+                    }
+                } else {
+                    result = chunk.result;
+                }
+            }
+        } finally {
+            thoughts.partialOutput = undefined;
+        }
+
+        return result || { text };
+    }
+
     /**
      * Публикация размышлений
      */
@@ -827,99 +1084,26 @@ ${existingCode}
 
     /**
      * Общий метод для парсинга JSON опций из ответа LLM
-     * Улучшенная версия, которая игнорирует промпт и извлекает только JSON
+     * С подключенным парсером (см. setResponseParser) разбор выполняется вне потока extension host
      */
-    protected parseJSONOptions(text: string, agentName: string): Omit<SolutionOption, 'id'>[] {
-        try {
-            // Проверяем, не является ли это fallback заглушкой
-            if (text.includes('Agent ') && text.includes(' received message:')) {
-                console.warn(`${agentName}: Received fallback message, skipping JSON parsing`);
-                throw new Error('Fallback message received - no real response from API');
-            }
-
-            // Удаляем промпт из начала текста, если он там есть
-            let cleanedText = text;
-            
-            // Удаляем строки, которые выглядят как промпт
-            const promptPatterns = [
-                /^.*?Ты\s*-\s*[^\n]+\n/,
-                /^.*?ПРОБЛЕМА:\s*[^\n]+\n/,
-                /^.*?КОНТЕКСТ:\s*[^\n]+\n/,
-                /^.*?ОГРАНИЧЕНИЯ:\s*[\s\S]*?(?=\n\n|\[)/,
-                /^.*?ВАЖНО:[^\n]*\n/,
-                /^.*?Тип задачи:[^\n]*\n/,
-                /^.*?Приоритет:[^\n]*\n/,
-                /^.*?Agent\s+\w+\s+received\s+message:[^\n]*\n/
-            ];
-            
-            for (const pattern of promptPatterns) {
-                cleanedText = cleanedText.replace(pattern, '');
-            }
-
-            // Удаляем все до первого символа [
-            const firstBracket = cleanedText.indexOf('[');
-            if (firstBracket > 0) {
-                cleanedText = cleanedText.substring(firstBracket);
-            }
-
-            // Пытаемся распарсить весь текст как JSON
+    protected async parseJSONOptions(text: string, agentName: string): Promise<Omit<SolutionOption, 'id'>[]> {
+        const parser = LocalAgent.responseParser;
+        if (parser && parser.isAvailable()) {
             try {
-                const parsed = JSON.parse(cleanedText.trim());
-                if (Array.isArray(parsed)) {
-                    return parsed;
-                }
-            } catch (e) {
-                // Если не сработало, пробуем найти JSON массив в тексте
+                return await parser.parseOptions(text, agentName);
+            } catch (error) {
+                // Повторный разбор в extension host мог бы заморозить UI тем же ответом - используем вариант по умолчанию
+                console.error(`${agentName}: Off-thread parsing failed:`, error);
+                return [];
             }
-
-            // Ищем JSON массив в тексте (более точный поиск)
-            // Ищем массив, который начинается с [ и содержит объекты с полями title, description и т.д.
-            const jsonArrayPattern = /\[\s*\{[\s\S]*?"title"[\s\S]*?\}\s*(?:,\s*\{[\s\S]*?\}\s*)*\]/;
-            const jsonMatch = cleanedText.match(jsonArrayPattern);
-            
-            if (jsonMatch) {
-                try {
-                    const parsed = JSON.parse(jsonMatch[0]);
-                    if (Array.isArray(parsed) && parsed.length > 0) {
-                        return parsed;
-                    }
-                } catch (e) {
-                    // Пробуем найти любой JSON массив
-                    const simpleArrayMatch = cleanedText.match(/\[[\s\S]*\]/);
-                    if (simpleArrayMatch) {
-                        try {
-                            // Пытаемся найти полный массив, даже если он обрезан
-                            let arrayText = simpleArrayMatch[0];
-                            
-                            // Если массив не закрыт, пытаемся его закрыть
-                            if (!arrayText.endsWith(']')) {
-                                // Считаем открывающие и закрывающие скобки
-                                let openBraces = (arrayText.match(/\{/g) || []).length;
-                                let closeBraces = (arrayText.match(/\}/g) || []).length;
-                                
-                                // Закрываем объекты и массив
-                                while (closeBraces < openBraces) {
-                                    arrayText += '}';
-                                    closeBraces++;
-                                }
-                                arrayText += ']';
-                            }
-                            
-                            const parsed = JSON.parse(arrayText);
-                            if (Array.isArray(parsed) && parsed.length > 0) {
-                                return parsed;
-                            }
-                        } catch (e2) {
-                            // Игнорируем ошибки парсинга
-                        }
-                    }
-                }
-            }
-        } catch (error) {
-            console.error(`${agentName}: Error parsing options:`, error);
-            console.error(`${agentName}: Response text was:`, text.substring(0, 500));
         }
+        return parseSolutionOptions(text, agentName);
+    }
 
-        return [];
+    /**
+     * Парсер ответов LLM, работающий вне потока extension host (null - разбор на месте)
+     */
+    static setResponseParser(parser: ResponseParser | null): void {
+        LocalAgent.responseParser = parser;
     }
 }
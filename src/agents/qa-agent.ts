@@ -25,7 +25,7 @@ export class QAAgent extends LocalAgent {
 
 Задача: ${task.description}
 Тип: ${task.type}
-Приоритет: ${task.priority}
+Приоритет: ${task.priority}${this.formatProjectContext(projectContext)}
 
 Проанализируй задачу и определи:
 1. Аспекты тестирования и качества
@@ -77,7 +77,7 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
 ]`;
 
         const response = await this.callLLM(prompt);
-        const options = this.parseOptions(response);
+        const options = await this.parseOptions(response);
 
         return options.map((opt, index) => ({
             id: `option-${task.id}-${index}`,
@@ -148,9 +148,9 @@ ${analysis.constraints.map(c => `- ${c}`).join('\n')}
         };
     }
 
-    private parseOptions(text: string): Omit<SolutionOption, 'id'>[] {
+    private async parseOptions(text: string): Promise<Omit<SolutionOption, 'id'>[]> {
         // Используем общий метод парсинга из LocalAgent
-        const parsed = this.parseJSONOptions(text, 'QAAgent');
+        const parsed = await this.parseJSONOptions(text, 'QAAgent');
         
         if (parsed.length > 0) {
             return parsed;
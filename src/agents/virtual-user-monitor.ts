@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { SettingsManager } from '../integration/settings-manager';
+import { CoverageTracker, loadCoverageReport, summarizeCoverage } from '../quality/coverage';
 
 export interface ProjectState {
     codeQuality: number; // 0-1
@@ -35,7 +36,7 @@ export class ProjectMonitor implements vscode.Disposable {
         const codeQuality = await this.analyzeCodeQuality();
         
         // Анализ покрытия тестами
-        const testCoverage = await this.analyzeTestCoverage();
+        const testCoverage = await this.analyzeTestCoverage(workspaceFolder.uri.fsPath);
         
         // Анализ документации
         const documentation = await this.analyzeDocumentation();
@@ -177,10 +178,15 @@ export class ProjectMonitor implements vscode.Disposable {
         return quality;
     }
 
-    private async analyzeTestCoverage(): Promise<number> {
-        // Анализ покрытия тестами
-        // В реальной реализации можно использовать инструменты покрытия
+    private async analyzeTestCoverage(workspacePath: string): Promise<number> {
+        // Покрытие строк по последнему отчету о покрытии (отчет попадает в историю покрытия)
+        const report = loadCoverageReport(workspacePath);
+        if (report) {
+            CoverageTracker.getInstance().record(report);
+            return summarizeCoverage(report.files).percent / 100;
+        }
         
+        // Без отчета - оценка по числу тестовых файлов
         const testFiles = await vscode.workspace.findFiles('**/*.test.{ts,js}', null, 100);
         const sourceFiles = await vscode.workspace.findFiles('**/*.{ts,js}', '**/node_modules/**', 100);
         
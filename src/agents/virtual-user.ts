@@ -4,6 +4,7 @@ import { SettingsManager } from '../integration/settings-manager';
 import { UIIntegration } from '../integration/ui-integration';
 import { ProjectMonitor } from './virtual-user-monitor';
 import { DecisionMaker } from './virtual-user-decision';
+import { FileRebaseConflict } from './worker/file-lock-manager';
 
 export interface ProjectGoal {
     description: string;
@@ -336,6 +337,24 @@ export class VirtualUser implements vscode.Disposable {
         };
     }
 
+    /**
+     * Решение по конфликту параллельных изменений файла: true - записать изменение задачи
+     * поверх изменений другой задачи, false - отклонить его
+     */
+    async resolveFileConflict(conflict: FileRebaseConflict): Promise<boolean> {
+        return this.makeDecision({
+            id: `conflict-${conflict.owner}-${Date.now()}`,
+            title: `Конфликт изменений ${conflict.path}`,
+            description: `Задача ${conflict.owner} (агент ${conflict.agentId}) изменяла ${conflict.path}, ` +
+                `пока файл менялся другой задачей. Не удалось перенести правок: ${conflict.failed.length}.`,
+            files: [conflict.path],
+            risks: ['Изменения другой задачи в этом файле будут перезаписаны'],
+            benefits: ['Задача будет выполнена без повторного запуска'],
+            estimatedTime: 'сразу',
+            confidence: 0.5
+        });
+    }
+
     /**
      * Инициация новой задачи
      */
@@ -0,0 +1,39 @@
+/**
+ * Тесты аренды файлов между параллельными задачами
+ */
+
+import { FileLockConflictError, FileLockManager } from '../file-lock-manager';
+
+describe('FileLockManager', () => {
+  it('не дает второй задаче писать арендованный файл и пускает ее после освобождения', async () => {
+    const manager = new FileLockManager();
+    expect(manager.tryAcquire(['src/a.ts', 'src/b.ts'], 'task-1', 'backend')).toEqual([]);
+
+    // Аренда берется на все файлы сразу: свободный c.ts не захватывается частично
+    const conflicts = manager.tryAcquire(['src/c.ts', './src/b.ts'], 'task-2', 'frontend');
+    expect(conflicts.map(conflict => [conflict.path, conflict.holder.owner])).toEqual([['src/b.ts', 'task-1']]);
+    expect(manager.getLeases().map(lease => lease.path)).toEqual(['src/a.ts', 'src/b.ts']);
+
+    const onBlocked = jest.fn();
+    const waiting = manager.acquire(['src/b.ts'], 'task-2', 'frontend', 5000, onBlocked);
+    manager.releaseAll('task-1');
+    await waiting;
+
+    expect(onBlocked).toHaveBeenCalledTimes(1);
+    expect(manager.getLeases().map(lease => [lease.path, lease.owner])).toEqual([['src/b.ts', 'task-2']]);
+    await expect(manager.acquire(['src/b.ts'], 'task-3', 'qa', 20)).rejects.toBeInstanceOf(FileLockConflictError);
+  });
+
+  it('истекшая аренда упавшего воркера освобождается сама, без обработчика конфликт отклоняется', async () => {
+    const manager = new FileLockManager(30);
+    manager.tryAcquire(['src/a.ts'], 'task-1', 'backend');
+
+    await manager.acquire(['src/a.ts'], 'task-2', 'frontend', 5000);
+    expect(manager.getLeases()[0].owner).toBe('task-2');
+
+    const conflict = { path: 'src/a.ts', owner: 'task-2', agentId: 'frontend', failed: [] };
+    expect(await manager.escalate(conflict)).toBe(false);
+    manager.setEscalationHandler(async () => true);
+    expect(await manager.escalate(conflict)).toBe(true);
+  });
+});
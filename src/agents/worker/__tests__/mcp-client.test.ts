@@ -0,0 +1,144 @@
+/**
+ * Тесты записи изменений MCPClient через документы редактора в транзакции задачи
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { MCPClient } from '../mcp-client';
+import { AgentToolbox } from '../../agent-toolbox';
+import { TaskTransactionManager } from '../../../orchestrator/task-transaction';
+
+/**
+ * Документ редактора: правки WorkspaceEdit меняют только буфер, на диск он попадает при save
+ */
+class FakeDocument {
+  isDirty = false;
+
+  constructor(readonly uri: { fsPath: string }, public text: string) {}
+
+  getText(): string {
+    return this.text;
+  }
+
+  positionAt(offset: number): vscode.Position {
+    return new vscode.Position(0, offset);
+  }
+
+  async save(): Promise<boolean> {
+    fs.writeFileSync(this.uri.fsPath, this.text);
+    this.isDirty = false;
+    return true;
+  }
+}
+
+describe('MCPClient', () => {
+  let workspace: string;
+  let documents: FakeDocument[];
+
+  const file = (relativePath: string) => path.join(workspace, relativePath);
+  const findDocument = (fsPath: string) => documents.find(document => document.uri.fsPath === fsPath);
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-client-'));
+    fs.mkdirSync(file('src'));
+    fs.writeFileSync(file('src/a.ts'), 'export const a = 1;\n');
+    documents = [];
+
+    const editor = vscode.workspace as any;
+    editor.workspaceFolders = [{ uri: vscode.Uri.file(workspace) }];
+    editor.textDocuments = documents;
+    editor.openTextDocument = jest.fn(async (uri: { fsPath: string }) => {
+      let document = findDocument(uri.fsPath);
+      if (!document) {
+        document = new FakeDocument(uri, fs.readFileSync(uri.fsPath, 'utf-8'));
+        documents.push(document);
+      }
+      return document;
+    });
+    editor.applyEdit = jest.fn(async (edit: vscode.WorkspaceEdit) => {
+      for (const operation of (edit as any).operations) {
+        if (operation.type === 'create') {
+          fs.writeFileSync(operation.uri.fsPath, '');
+          continue;
+        }
+        if (operation.type === 'delete') {
+          documents.splice(documents.findIndex(document => document.uri.fsPath === operation.uri.fsPath), 1);
+          fs.rmSync(operation.uri.fsPath, { force: true });
+          continue;
+        }
+        const document = await editor.openTextDocument(operation.uri);
+        document.text = document.text.slice(0, operation.range.start.character) + operation.text + document.text.slice(operation.range.end.character);
+        document.isDirty = true;
+      }
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    const editor = vscode.workspace as any;
+    editor.workspaceFolders = undefined;
+    editor.textDocuments = [];
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('сохраняет изменения на диск и откатывает их вместе с открытыми документами', async () => {
+    const manager = new TaskTransactionManager(workspace);
+    const client = new MCPClient();
+    client.setTransaction(await manager.begin('task-1'), 'backend');
+
+    await client.applyChanges([
+      { type: 'modify', path: 'src/a.ts', content: 'export const a = 2;\n' },
+      { type: 'create', path: 'src/new.ts', content: 'export const b = 1;\n' }
+    ]);
+
+    expect(fs.readFileSync(file('src/a.ts'), 'utf-8')).toBe('export const a = 2;\n');
+    expect(fs.readFileSync(file('src/new.ts'), 'utf-8')).toBe('export const b = 1;\n');
+    expect(documents.some(document => document.isDirty)).toBe(false);
+
+    manager.commit('task-1');
+    client.setTransaction(undefined);
+
+    // Пользователь продолжил править файл задачи, не сохраняя
+    const a = findDocument(file('src/a.ts'))!;
+    a.text = 'export const a = 3;\n';
+    a.isDirty = true;
+
+    const result = await manager.rollback('task-1');
+    expect(result).toMatchObject({ conflicts: [], failed: [] });
+    expect(result.restored.sort()).toEqual(['src/a.ts', 'src/new.ts']);
+    expect(fs.readFileSync(file('src/a.ts'), 'utf-8')).toBe('export const a = 1;\n');
+    expect(fs.existsSync(file('src/new.ts'))).toBe(false);
+
+    // Открытые документы не возвращают откаченные изменения при следующем сохранении
+    expect([a.getText(), a.isDirty]).toEqual(['export const a = 1;\n', false]);
+    expect(findDocument(file('src/new.ts'))).toBeUndefined();
+  });
+
+  it('отклоняет пути модели, которые выходят из workspace', async () => {
+    const outside = path.join(path.dirname(workspace), `${path.basename(workspace)}-secret.txt`);
+    fs.writeFileSync(outside, 'token');
+    try {
+      const toolbox = new AgentToolbox(new MCPClient());
+      const relative = `../${path.basename(outside)}`;
+
+      const read = await toolbox.execute({ id: '1', name: 'readFile', arguments: { path: relative } });
+      expect(read).toMatchObject({ isError: true });
+      expect(read.output).toContain('outside the workspace');
+      expect(read.output).not.toContain('token');
+
+      const write = await toolbox.execute({ id: '2', name: 'applyPatch', arguments: { path: `src/../../${path.basename(outside)}`, content: 'pwned' } });
+      expect(write).toMatchObject({ isError: true });
+      expect(fs.readFileSync(outside, 'utf-8')).toBe('token');
+      expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+
+      // Пути с ".." внутри workspace допустимы
+      (vscode.workspace.fs.readFile as jest.Mock).mockImplementationOnce(async (uri: { fsPath: string }) => fs.readFileSync(uri.fsPath));
+      const inside = await toolbox.execute({ id: '3', name: 'readFile', arguments: { path: 'src/../src/a.ts' } });
+      expect(inside).toMatchObject({ output: 'export const a = 1;\n', isError: false });
+    } finally {
+      fs.rmSync(outside, { force: true });
+    }
+  });
+});
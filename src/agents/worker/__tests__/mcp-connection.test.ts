@@ -0,0 +1,122 @@
+/**
+ * Тесты JSON-RPC подключения к MCP серверу
+ * Транспорт подменяется фейковым сервером в памяти
+ */
+
+import { EventEmitter } from 'events';
+import { MCPConnection, MCPError } from '../mcp/mcp-connection';
+import { MCPTransport } from '../mcp/mcp-transport';
+import { JsonRpcMessage } from '../mcp/mcp-types';
+
+/**
+ * Фейковый транспорт: отвечает на запросы через переданный обработчик
+ */
+class FakeTransport extends EventEmitter implements MCPTransport {
+    readonly kind = 'stdio' as const;
+    sent: JsonRpcMessage[] = [];
+
+    constructor(private handler: (message: any) => any) {
+        super();
+    }
+
+    async start(): Promise<void> {}
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        this.sent.push(message);
+        const reply = this.handler(message);
+        if (reply !== undefined) {
+            setImmediate(() => this.emit('message', reply));
+        }
+    }
+
+    async close(): Promise<void> {
+        this.emit('close');
+    }
+}
+
+function createServer(extra: (message: any) => any = () => undefined): FakeTransport {
+    return new FakeTransport((message) => {
+        if (message.method === 'initialize') {
+            return {
+                jsonrpc: '2.0',
+                id: message.id,
+                result: {
+                    protocolVersion: '2025-03-26',
+                    capabilities: { tools: {} },
+                    serverInfo: { name: 'fake-server', version: '1.0.0' }
+                }
+            };
+        }
+        return extra(message);
+    });
+}
+
+describe('MCPConnection', () => {
+    it('должен выполнить handshake initialize и отправить notifications/initialized', async () => {
+        const transport = createServer();
+        const connection = new MCPConnection('fake', transport, 1000);
+
+        const info = await connection.connect('test-client', '0.0.1');
+
+        expect(info.name).toBe('fake-server');
+        expect(connection.isConnected()).toBe(true);
+        expect(transport.sent.map((m: any) => m.method)).toEqual(['initialize', 'notifications/initialized']);
+        expect((transport.sent[0] as any).params.clientInfo.name).toBe('test-client');
+    });
+
+    it('должен собирать инструменты со всех страниц tools/list', async () => {
+        const transport = createServer((message) => {
+            if (message.method === 'tools/list') {
+                const page = message.params?.cursor === 'page-2'
+                    ? { tools: [{ name: 'second', inputSchema: { type: 'object' } }] }
+                    : { tools: [{ name: 'first', inputSchema: { type: 'object' } }], nextCursor: 'page-2' };
+                return { jsonrpc: '2.0', id: message.id, result: page };
+            }
+            return undefined;
+        });
+        const connection = new MCPConnection('fake', transport, 1000);
+        await connection.connect('test-client', '0.0.1');
+
+        const tools = await connection.listTools();
+
+        expect(tools.map(t => t.name)).toEqual(['first', 'second']);
+        expect(tools.every(t => t.server === 'fake')).toBe(true);
+    });
+
+    it('должен превращать JSON-RPC ошибку в MCPError', async () => {
+        const transport = createServer((message) => {
+            if (message.method === 'tools/call') {
+                return { jsonrpc: '2.0', id: message.id, error: { code: -32602, message: 'Unknown tool' } };
+            }
+            return undefined;
+        });
+        const connection = new MCPConnection('fake', transport, 1000);
+        await connection.connect('test-client', '0.0.1');
+
+        await expect(connection.callTool('missing')).rejects.toBeInstanceOf(MCPError);
+    });
+
+    it('должен отвечать на ping от сервера', async () => {
+        const transport = createServer();
+        const connection = new MCPConnection('fake', transport, 1000);
+        await connection.connect('test-client', '0.0.1');
+
+        transport.emit('message', { jsonrpc: '2.0', id: 'srv-1', method: 'ping' });
+        await new Promise(resolve => setImmediate(resolve));
+
+        const reply = transport.sent.find((m: any) => m.id === 'srv-1') as any;
+        expect(reply).toEqual({ jsonrpc: '2.0', id: 'srv-1', result: {} });
+    });
+
+    it('должен отклонять ожидающие запросы при закрытии транспорта', async () => {
+        const transport = createServer(() => undefined); // сервер не отвечает
+        const connection = new MCPConnection('fake', transport, 5000);
+        await connection.connect('test-client', '0.0.1');
+
+        const pending = connection.request('tools/list');
+        transport.emit('close');
+
+        await expect(pending).rejects.toThrow('closed the connection');
+        expect(connection.isConnected()).toBe(false);
+    });
+});
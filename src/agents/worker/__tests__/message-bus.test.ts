@@ -0,0 +1,71 @@
+/**
+ * Тесты шины сообщений: request/reply, dead-letter и воспроизведение журнала
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Message, MessageBus, MessageDeliveryError, MessageType } from '../message-bus';
+import { JournalMessageLogStore } from '../message-log-store';
+
+describe('MessageBus', () => {
+  it('разрешает request ответом и складывает недоставленные сообщения в dead-letter', async () => {
+    const bus = new MessageBus();
+    let failing = true;
+    bus.subscribe('qa', [MessageType.AGENT_QUESTION], async message => {
+      if (failing) {
+        throw new Error('qa занят');
+      }
+      await bus.respond(message, MessageType.AGENT_ANSWER, { answer: `тесты для ${message.payload.file}` });
+    });
+
+    // Обработчик упал - запрос завершается сразу, не дожидаясь таймаута
+    const failed = bus.request('qa', MessageType.AGENT_QUESTION, { file: 'a.ts' }, 5000, 'backend');
+    await expect(failed).rejects.toBeInstanceOf(MessageDeliveryError);
+    await expect(bus.request('devops', MessageType.AGENT_QUESTION, {}, 5000)).rejects.toThrow('no recipient');
+    expect(bus.getDeadLetters().map(deadLetter => [deadLetter.recipient, deadLetter.reason])).toEqual([
+      ['qa', 'handler-error'],
+      ['devops', 'no-recipient']
+    ]);
+
+    failing = false;
+    expect(await bus.request('qa', MessageType.AGENT_QUESTION, { file: 'b.ts' }, 5000, 'backend'))
+      .toEqual({ answer: 'тесты для b.ts' });
+
+    expect(await bus.retryDeadLetters(deadLetter => deadLetter.recipient === 'qa')).toBe(1);
+    expect(await bus.retryDeadLetters()).toBe(0);
+    // Ответ на повторно доставленный вопрос уже некому принять: запрос завершился ошибкой
+    expect(bus.getDeadLetters().map(deadLetter => [deadLetter.recipient, deadLetter.message.type, deadLetter.attempts])).toEqual([
+      ['devops', MessageType.AGENT_QUESTION, 2],
+      ['backend', MessageType.AGENT_ANSWER, 2]
+    ]);
+    expect(bus.getStatistics()).toMatchObject({ deadLetters: 2, pendingRequests: 0 });
+  });
+
+  it('сохраняет переписку в журнал и воспроизводит ее в новой шине', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'message-bus-'));
+    try {
+      const store = new JournalMessageLogStore(path.join(dir, 'message-bus.jsonl'));
+      const bus = new MessageBus(store);
+      bus.subscribe('frontend', [MessageType.FILE_CONFLICT], () => undefined);
+      await bus.publish({ type: MessageType.FILE_CONFLICT, from: 'backend', payload: { path: 'src/a.ts' } });
+      await bus.publish({ type: MessageType.TASK_FAILED, from: 'backend', to: 'qa', payload: { error: 'boom' } });
+
+      const fresh = new MessageBus();
+      const received: Message[] = [];
+      fresh.subscribe('frontend', [MessageType.FILE_CONFLICT], message => {
+        received.push(message);
+      });
+
+      const reloaded = new JournalMessageLogStore(path.join(dir, 'message-bus.jsonl'));
+      expect(reloaded.load().map(entry => entry.op)).toEqual(['message', 'message', 'dead-letter']);
+      expect(await fresh.replay(reloaded)).toBe(2);
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ id: bus.getHistory()[0].id, payload: { path: 'src/a.ts' } });
+      expect(received[0].timestamp).toBeInstanceOf(Date);
+      expect(fresh.getHistory().map(message => message.type)).toEqual([MessageType.FILE_CONFLICT, MessageType.TASK_FAILED]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Тесты транспортов шины сообщений
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageChannel } from 'worker_threads';
+import { MessageBus, MessageType } from '../message-bus';
+import { IpcServer, IpcTransport, WorkerThreadTransport } from '../message-transport';
+import { RemoteWorker } from '../remote-worker';
+import { serveRemoteOperations } from '../worker-host';
+
+describe('Транспорты MessageBus', () => {
+  const response = `Вот варианты:
+[{"title": "Кэш", "description": "Redis", "approach": "LRU", "pros": [], "cons": [], "estimatedTime": 1000,
+  "complexity": "low", "confidence": 0.9, "filesToModify": ["cache.ts"], "risks": []}]`;
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(condition()).toBe(true);
+  };
+
+  it('разбирает ответ в удаленном воркере и маршрутизирует сообщения между шинами', async () => {
+    const bus = new MessageBus();
+    const worker = new RemoteWorker('parser', 'in-process', bus);
+    await worker.start();
+
+    expect(worker.isAvailable()).toBe(true);
+    expect(bus.getRemoteAgents()).toEqual(['parser']);
+    const options = await worker.parseOptions(response, 'BackendAgent');
+    expect(options).toHaveLength(1);
+    expect(options[0]).toMatchObject({ title: 'Кэш', filesToModify: ['cache.ts'] });
+    await expect(worker.call('compile', {})).rejects.toThrow('Unknown operation: compile');
+
+    // Сообщения удаленному агенту не попадают в dead-letter локальной шины
+    expect(bus.getDeadLetters()).toEqual([]);
+    expect(bus.getStatistics()).toMatchObject({ transports: 1, remoteAgents: 1, pendingRequests: 0 });
+
+    await worker.stop();
+    expect(worker.isAvailable()).toBe(false);
+    expect(bus.getRemoteAgents()).toEqual([]);
+  });
+
+  it('шина с несколькими транспортами пересылает broadcast, запросы ходят через сокет и worker_threads порт', async () => {
+    const socketPath = process.platform === 'win32'
+      ? `\\\\.\\pipe\\message-transport-test-${process.pid}`
+      : path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'message-transport-')), 'bus.sock');
+    const server = await IpcServer.listen(socketPath);
+    const accepted = new Promise<IpcTransport>(resolve => server.onConnection(resolve));
+
+    const hub = new MessageBus();
+    const ipcWorker = new MessageBus();
+    const threadWorker = new MessageBus();
+
+    const client = await IpcTransport.connect(socketPath);
+    ipcWorker.attachTransport(client);
+    const serverSide = await accepted;
+    hub.attachTransport(serverSide);
+
+    const channel = new MessageChannel();
+    hub.attachTransport(new WorkerThreadTransport(channel.port1));
+    threadWorker.attachTransport(new WorkerThreadTransport(channel.port2));
+
+    const received = jest.fn();
+    threadWorker.subscribe('frontend', [MessageType.AGENT_STARTED], received);
+    await serveRemoteOperations(ipcWorker, 'ipc-parser');
+    await waitFor(() => received.mock.calls.length === 1);
+    expect(received.mock.calls[0][0]).toMatchObject({ from: 'ipc-parser', timestamp: expect.any(Date) });
+
+    // Запрос из шины worker_threads доходит до воркера за сокетом через хаб
+    const result = await threadWorker.request('ipc-parser', MessageType.COLLABORATION_REQUEST,
+      { operation: 'parseOptions', args: { text: response, agentName: 'QAAgent' } }, 5000, 'frontend');
+    expect(result.result[0].title).toBe('Кэш');
+    expect(hub.getRemoteAgents().sort()).toEqual(['frontend', 'ipc-parser']);
+
+    // Закрытие сокета отключает транспорт и его агентов
+    await client.close();
+    await waitFor(() => !hub.getRemoteAgents().includes('ipc-parser'));
+
+    channel.port1.close();
+    await waitFor(() => hub.getStatistics().transports === 0);
+    await server.close();
+    if (process.platform !== 'win32') {
+      fs.rmSync(path.dirname(socketPath), { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Тесты применения unified diff и правок search/replace
+ */
+
+import { applySearchReplace, applyUnifiedDiff, parseUnifiedDiff, rebaseContent } from '../patch-applier';
+
+describe('patch-applier', () => {
+  const source = [
+    'import { Store } from "./store";',
+    '',
+    'export class Session {',
+    '    constructor(private store: Store) {}',
+    '',
+    '    refresh(userId: string) {',
+    '        return this.store.rotate(userId);',
+    '    }',
+    '',
+    '    logout(userId: string) {',
+    '        this.store.clear(userId);',
+    '    }',
+    '}'
+  ].join('\n');
+
+  it('применяет ханки со смещением и отчитывается о ненайденных', () => {
+    // Номера строк устарели: в начало файла добавили две строки
+    const shifted = '// header\n// license\n' + source;
+    const diff = [
+      '--- a/src/session.ts',
+      '+++ b/src/session.ts',
+      '@@ -6,3 +6,4 @@',
+      '     refresh(userId: string) {',
+      '-        return this.store.rotate(userId);',
+      '+        const token = this.store.rotate(userId);',
+      '+        return token;',
+      '     }',
+      '@@ -20,2 +21,2 @@',
+      '     missing() {',
+      '-        return 1;',
+      '+        return 2;'
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)[0].newPath).toBe('src/session.ts');
+
+    const result = applyUnifiedDiff(shifted, diff);
+    expect(result.hunks[0]).toMatchObject({ applied: true, line: 8, offset: 2 });
+    expect(result.content).toContain('        const token = this.store.rotate(userId);\n        return token;');
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0]).toMatchObject({ index: 2, reason: 'контекст не найден в файле' });
+  });
+
+  it('search/replace: не учитывает отступы и отклоняет неоднозначные фрагменты', () => {
+    const result = applySearchReplace(source, [
+      { search: 'logout(userId: string) {\n  this.store.clear(userId);', replace: '    logout(userId: string) {\n        this.store.clear(userId);\n        this.store.flush();' },
+      { search: '    }', replace: '    };' }
+    ]);
+
+    expect(result.hunks[0]).toMatchObject({ applied: true, line: 10 });
+    expect(result.content).toContain('this.store.flush();');
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0].reason).toContain('несколько раз');
+  });
+
+  it('переносит изменение на содержимое, измененное другой задачей, и не сливает пересекающиеся правки', () => {
+    const ours = source.replace('return this.store.rotate(userId);', 'return this.store.rotate(userId, { force: true });');
+    const theirs = '// generated\n' + source.replace('this.store.clear(userId);', 'this.store.clear(userId);\n        this.store.flush();');
+
+    const merged = rebaseContent(source, ours, theirs);
+    expect(merged.failed).toEqual([]);
+    expect(merged.content).toBe('// generated\n' + ours.replace('this.store.clear(userId);', 'this.store.clear(userId);\n        this.store.flush();'));
+
+    const conflicting = source.replace('return this.store.rotate(userId);', 'return null;');
+    const overlap = rebaseContent(source, ours, conflicting);
+    expect(overlap.failed).toHaveLength(1);
+    expect(overlap.failed[0].reason).toBe('контекст не найден в файле');
+  });
+});
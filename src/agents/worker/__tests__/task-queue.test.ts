@@ -0,0 +1,119 @@
+/**
+ * Тесты персистентной очереди задач
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TaskPriority, TaskQueue } from '../task-queue';
+import { JournalTaskQueueStore } from '../task-queue-store';
+import { TaskPlanner } from '../../../orchestrator/task-planner';
+
+describe('TaskQueue с журналом', () => {
+  let dir: string;
+  let journalPath: string;
+
+  const createQueue = () => {
+    const queue = new TaskQueue(new JournalTaskQueueStore(journalPath));
+    queue.registerAgent({ agentId: 'backend', specializations: ['backend'], currentLoad: 0, preferredTasks: [] });
+    return queue;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-queue-'));
+    journalPath = path.join(dir, 'task-queue.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('переживает перезапуск: прерванные задачи возвращаются в очередь с учетом попыток', async () => {
+    const queue = createQueue();
+    const first = await queue.enqueue({ type: 'bug', description: 'Починить логин', priority: 'high' }, TaskPriority.HIGH);
+    const second = await queue.enqueue({ type: 'feature', description: 'Экспорт в CSV', priority: 'low' }, TaskPriority.LOW);
+    const claimed = await queue.dequeue('backend');
+    expect(claimed!.id).toBe(first.id);
+
+    // Падение окна посреди записи последней строки журнала
+    fs.appendFileSync(journalPath, '{"op":"claim","taskId":"');
+
+    const restored = createQueue();
+    const pending = restored.getPending();
+    expect(pending.map(task => task.id).sort()).toEqual([first.id, second.id].sort());
+    expect(restored.getProcessing()).toEqual([]);
+
+    const retried = pending.find(task => task.id === first.id)!;
+    expect(retried).toMatchObject({ status: 'pending', attempts: 1, priority: TaskPriority.HIGH });
+    expect(retried.queuedAt).toBeInstanceOf(Date);
+    expect((await restored.dequeue('backend'))!.id).toBe(first.id);
+  });
+
+  it('помечает проваленной прерванную задачу без оставшихся попыток, неудача сохраняет id', async () => {
+    const queue = createQueue();
+    const task = await queue.enqueue({ type: 'bug', description: 'Флапающий тест', priority: 'medium' });
+    task.maxAttempts = 2;
+
+    await queue.dequeue('backend');
+    await queue.complete(task.id, { success: false, workerId: 'backend', duration: 10, error: 'boom' });
+    expect(queue.getPending().map(pending => pending.id)).toEqual([task.id]);
+
+    // Вторая (последняя) попытка прерывается перезапуском
+    const claimed = await queue.dequeue('backend');
+    expect(claimed!.attempts).toBe(2);
+
+    const restored = createQueue();
+    expect(restored.getPending()).toEqual([]);
+    expect(restored.getCompleted().find(result => result.taskId === task.id)).toMatchObject({
+      success: false,
+      error: expect.stringContaining('попытки исчерпаны')
+    });
+    // Журнал свернут в один снимок
+    expect(fs.readFileSync(journalPath, 'utf-8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('выдает подзадачи DAG только после зависимостей и каскадно блокирует зависимые при провале', async () => {
+    const queue = new TaskQueue();
+    for (const agentId of ['architect', 'backend', 'frontend', 'qa', 'devops']) {
+      queue.registerAgent({ agentId, specializations: [agentId], currentLoad: 0, preferredTasks: [] });
+    }
+
+    const plan = await new TaskPlanner().planTask({
+      id: 'plan-1', type: 'feature', description: 'Экспорт отчетов', priority: 'medium', status: 'pending', createdAt: new Date()
+    });
+    expect(plan.subTasks.map(subTask => `${subTask.dependsOn.join('+')}>${subTask.key}`))
+      .toEqual(['>architect', 'architect>backend', 'architect>frontend', 'backend+frontend>qa', 'qa>devops']);
+
+    const ids = new Map<string, string>();
+    for (const subTask of plan.subTasks) {
+      const queued = await queue.enqueue({
+        type: subTask.type,
+        description: subTask.description,
+        priority: 'medium',
+        assignedAgent: subTask.agent,
+        dependsOn: subTask.dependsOn.map(key => ids.get(key)!)
+      });
+      queued.maxAttempts = 1;
+      ids.set(subTask.key, queued.id);
+    }
+
+    expect(await queue.dequeue('backend')).toBeNull();
+    const architect = await queue.dequeue('architect');
+    expect(architect!.id).toBe(ids.get('architect'));
+    await queue.complete(architect!.id, { success: true, workerId: 'architect', duration: 1 });
+
+    // backend и frontend выполняются параллельно, qa ждет обоих
+    const backend = await queue.dequeue('backend');
+    const frontend = await queue.dequeue('frontend');
+    expect([backend!.id, frontend!.id]).toEqual([ids.get('backend'), ids.get('frontend')]);
+    await queue.complete(frontend!.id, { success: true, workerId: 'frontend', duration: 1 });
+    expect(await queue.dequeue('qa')).toBeNull();
+    expect(queue.getStatistics().waitingForDependencies).toBe(2);
+
+    await queue.complete(backend!.id, { success: false, workerId: 'backend', duration: 1, error: 'boom' });
+    expect(queue.getPending()).toEqual([]);
+    const results = new Map(queue.getCompleted().map(result => [result.taskId, result]));
+    expect(results.get(ids.get('qa')!)!.error).toContain(ids.get('backend'));
+    expect(results.get(ids.get('devops')!)!.error).toContain(ids.get('qa'));
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Тесты стратегий планировщика очереди задач
+ */
+
+import { AgentCapabilities, QueuedTask, TaskQueue } from '../task-queue';
+import { AffinitySchedulerStrategy, ScoringSchedulerStrategy } from '../task-scheduler';
+
+describe('Планировщик очереди задач', () => {
+  const agent = (agentId: string, specializations: string[], preferredTasks: string[] = []): AgentCapabilities =>
+    ({ agentId, specializations, currentLoad: 0, preferredTasks });
+
+  const age = (task: QueuedTask, ms: number) => {
+    task.queuedAt = new Date(Date.now() - ms);
+  };
+
+  it('простаивающий агент забирает чужую задачу только после долгого ожидания', async () => {
+    const queue = new TaskQueue(undefined, new ScoringSchedulerStrategy({ stealAfterMs: 60000 }));
+    queue.registerAgent(agent('backend', ['backend'], ['bug']));
+    queue.registerAgent(agent('frontend', ['frontend'], ['ui']));
+    const stolen = jest.fn();
+    queue.on('task:stolen', stolen);
+
+    const task = await queue.enqueue({ type: 'bug', description: 'Падает API', priority: 'high', assignedAgent: 'backend' });
+    queue.updateAgentLoad('backend', 0.5);
+
+    expect(await queue.dequeue('frontend')).toBeNull();
+
+    age(task, 61000);
+    queue.updateAgentLoad('frontend', 0.3);
+    expect(await queue.dequeue('frontend')).toBeNull();
+
+    queue.updateAgentLoad('frontend', 0);
+    expect((await queue.dequeue('frontend'))!.id).toBe(task.id);
+    expect(stolen).toHaveBeenCalledWith({ task, agentId: 'frontend' });
+  });
+
+  it('отдает задачу агенту с лучшей историей по типу задач и более дешевой моделью', async () => {
+    const queue = new TaskQueue();
+    queue.registerAgent(agent('backend-a', ['backend'], ['bug']));
+    queue.registerAgent(agent('backend-b', ['backend'], ['bug']));
+
+    // backend-a проваливает баги, backend-b справляется
+    for (const [workerId, success] of [['backend-a', false], ['backend-a', false], ['backend-b', true]] as const) {
+      const task = await queue.enqueue({ type: 'bug', description: 'Баг', priority: 'medium' });
+      task.maxAttempts = 1;
+      await queue.dequeue(workerId);
+      await queue.complete(task.id, { success, workerId, duration: 1 });
+    }
+    expect(queue.getSuccessRate('backend-a', 'bug')).toBeLessThan(queue.getSuccessRate('backend-b', 'bug'));
+
+    const bug = await queue.enqueue({ type: 'bug', description: 'Новый баг', priority: 'medium' });
+    const feature = await queue.enqueue({ type: 'feature', description: 'Фича', priority: 'medium' });
+    age(bug, 1000);
+    expect((await queue.dequeue('backend-b'))!.id).toBe(bug.id);
+
+    // Без истории по типу решает стоимость модели
+    const context = {
+      now: Date.now(),
+      agents: [agent('backend-a', ['backend']), agent('backend-b', ['backend'])],
+      successRate: () => 0.5,
+      averageCost: (agentId: string) => (agentId === 'backend-a' ? 0.001 : 0.05)
+    };
+    const scoring = new ScoringSchedulerStrategy();
+    expect(scoring.score(feature, context.agents[0], context)!.score)
+      .toBeGreaterThan(scoring.score(feature, context.agents[1], context)!.score);
+
+    // Прежняя политика стоимость не учитывает
+    const affinity = new AffinitySchedulerStrategy();
+    expect(affinity.score(feature, context.agents[0], context)!.score)
+      .toBe(affinity.score(feature, context.agents[1], context)!.score);
+  });
+});
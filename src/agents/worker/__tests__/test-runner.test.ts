@@ -0,0 +1,107 @@
+/**
+ * Тесты запуска тестов проекта и разбора отчетов
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildTestCommand,
+  findAffectedTests,
+  parseGoTestJson,
+  parseJestReport,
+  parseJUnitXml,
+  runTests,
+  toTestTargets
+} from '../test-runner';
+
+describe('TestRunner', () => {
+  it('разбирает отчеты Jest, pytest JUnit и go test -json по отдельным тестам', () => {
+    const jest = parseJestReport(JSON.stringify({
+      testResults: [
+        {
+          name: '/repo/src/a.test.ts',
+          status: 'failed',
+          assertionResults: [
+            { fullName: 'a складывает', status: 'passed', duration: 3, failureMessages: [] },
+            { fullName: 'a делит', status: 'failed', duration: 1, failureMessages: ['Expected 2, received 3'] },
+            { fullName: 'a todo', status: 'todo', failureMessages: [] }
+          ]
+        },
+        { name: '/repo/src/b.test.ts', status: 'failed', message: 'Cannot find module ./b', assertionResults: [] }
+      ]
+    }));
+    expect(jest.map(test => [test.name, test.status])).toEqual([
+      ['a складывает', 'passed'], ['a делит', 'failed'], ['a todo', 'skipped'], ['/repo/src/b.test.ts', 'failed']
+    ]);
+    expect(jest[1].failureMessage).toBe('Expected 2, received 3');
+    expect(jest[3].failureMessage).toContain('Cannot find module');
+
+    const pytest = parseJUnitXml(`<?xml version="1.0"?><testsuites><testsuite name="pytest">
+      <testcase classname="tests.test_api" name="test_ok" time="0.010" />
+      <testcase classname="tests.test_api" name="test_fail" time="0.2"><failure message="assert 1 == 2">def test_fail():
+&gt;       assert 1 == 2</failure></testcase>
+      <testcase classname="tests.test_api" name="test_skip" time="0"><skipped message="later" /></testcase>
+    </testsuite></testsuites>`);
+    expect(pytest.map(test => [test.name, test.status, test.durationMs])).toEqual([
+      ['tests.test_api.test_ok', 'passed', 10], ['tests.test_api.test_fail', 'failed', 200], ['tests.test_api.test_skip', 'skipped', 0]
+    ]);
+    expect(pytest[1].failureMessage).toBe('assert 1 == 2\ndef test_fail():\n>       assert 1 == 2');
+
+    const go = parseGoTestJson([
+      '{"Action":"run","Package":"example/calc","Test":"TestAdd"}',
+      '{"Action":"pass","Package":"example/calc","Test":"TestAdd","Elapsed":0.01}',
+      '{"Action":"output","Package":"example/calc","Test":"TestDiv","Output":"calc_test.go:12: want 2, got 3\\n"}',
+      '{"Action":"fail","Package":"example/calc","Test":"TestDiv","Elapsed":0}',
+      '{"Action":"fail","Package":"example/calc","Elapsed":0.02}',
+      '{"Action":"output","Package":"example/broken","Output":"undefined: Foo\\n"}',
+      '{"Action":"fail","Package":"example/broken","Elapsed":0}'
+    ].join('\n'));
+    expect(go.map(test => [test.name, test.status])).toEqual([
+      ['example/calc.TestAdd', 'passed'], ['example/calc.TestDiv', 'failed'], ['example/broken', 'failed']
+    ]);
+    expect(go[1].failureMessage).toContain('want 2, got 3');
+    expect(go[2].failureMessage).toContain('undefined: Foo');
+  });
+
+  it('выбирает затронутые тесты по графу и останавливает зависший запуск по таймауту', async () => {
+    const dependents: Record<string, string[]> = {
+      'src/math.ts': ['src/calc.ts', 'src/math.test.ts'],
+      'src/calc.ts': ['src/__tests__/calc.test.ts', 'src/app.ts'],
+      'src/app.ts': ['src/math.ts']
+    };
+    expect(findAffectedTests(['src/math.ts'], file => dependents[file] || []))
+      .toEqual(['src/__tests__/calc.test.ts', 'src/math.test.ts']);
+    expect(toTestTargets('go', ['calc/calc_test.go', 'calc/div_test.go', 'main_test.go'])).toEqual(['.', './calc']);
+    expect(buildTestCommand('jest', '/tmp/r', ['src/math.test.ts']).args)
+      .toEqual(['--no-install', 'jest', '--json', '--outputFile=/tmp/r/jest.json', '--passWithNoTests', 'src/math.test.ts']);
+
+    // Отчеты о покрытии пишутся в каталог отчетов, а не в проект
+    expect(buildTestCommand('jest', '/tmp/r', [], undefined, true)).toMatchObject({
+      args: expect.arrayContaining(['--coverage', '--coverageDirectory=/tmp/r/coverage']),
+      coverageReport: { path: '/tmp/r/coverage/lcov.info', format: 'lcov' }
+    });
+    expect(buildTestCommand('pytest', '/tmp/r', [], undefined, true)).toMatchObject({
+      args: expect.arrayContaining(['--cov-report=xml:/tmp/r/coverage.xml']),
+      coverageReport: { path: '/tmp/r/coverage.xml', format: 'cobertura' },
+      env: { COVERAGE_FILE: '/tmp/r/.coverage' }
+    });
+
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'test-runner-'));
+    try {
+      fs.writeFileSync(path.join(workspace, 'package.json'), JSON.stringify({
+        scripts: { test: 'node -e "setTimeout(() => {}, 60000)"' }
+      }));
+
+      const unaffected = await runTests(workspace, { changedFiles: ['README.md'], getDependents: () => [] });
+      expect(unaffected).toMatchObject({ success: true, passed: 0, tests: [] });
+      expect(unaffected.output).toContain('No tests affected');
+
+      const result = await runTests(workspace, { timeoutMs: 1000 });
+      expect(result).toMatchObject({ success: false, framework: 'npm-script', timedOut: true, command: 'npm test' });
+      expect(result.durationMs).toBeLessThan(30000);
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  }, 60000);
+});
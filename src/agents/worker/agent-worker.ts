@@ -4,6 +4,15 @@ import { MessageBus, Message, MessageType } from './message-bus';
 import { MCPClient } from './mcp-client';
 import { LocalAgent, AgentSolution, AgentThoughts, ProjectContext } from '../local-agent';
 import { Task } from '../../orchestrator/orchestrator';
+import { TaskCancellationRegistry } from '../../orchestrator/task-cancellation';
+import { TaskTransactionManager } from '../../orchestrator/task-transaction';
+import { QualityController, QualityReport } from '../../quality/quality-controller';
+import { isCancellationError } from '../../integration/model-providers/retry';
+
+/**
+ * Сколько фрагментов кода из семантического индекса добавляется в контекст задачи
+ */
+const RELEVANT_SNIPPETS_COUNT = 5;
 
 /**
  * Состояние воркера
@@ -46,6 +55,7 @@ export abstract class AgentWorker {
     protected messageBus: MessageBus;
     protected mcpClient: MCPClient;
     protected localAgent: LocalAgent;
+    protected qualityController: QualityController;
     
     private mainLoopPromise: Promise<void> | null = null;
     private lastMonitoringTime: number = 0;
@@ -61,6 +71,7 @@ export abstract class AgentWorker {
         this.messageBus = messageBus;
         this.localAgent = localAgent;
         this.mcpClient = new MCPClient();
+        this.qualityController = new QualityController();
     }
     
     /**
@@ -87,6 +98,11 @@ export abstract class AgentWorker {
         
         this.taskQueue.registerAgent(capabilities);
         
+        // Подключаемся к внешним MCP серверам в фоне (общие для всех воркеров)
+        this.mcpClient.connectServers().catch(error => {
+            console.error(`${this.config.agentId}: Error connecting MCP servers:`, error);
+        });
+        
         // Подписываемся на сообщения
         this.setupMessageHandlers();
         
@@ -187,10 +203,11 @@ export abstract class AgentWorker {
         let success = false;
         let error: string | undefined;
         let filesChanged: string[] = [];
+        let qualityReport: QualityReport | undefined;
         
         try {
             // 1. Получаем контекст проекта через MCP
-            const projectContext = await this.buildProjectContext();
+            const projectContext = await this.buildProjectContext(task);
             
             // 2. Агент размышляет над задачей
             const thoughts = await this.localAgent.think(task, projectContext);
@@ -223,7 +240,18 @@ export abstract class AgentWorker {
             success = executionResult.success;
             filesChanged = executionResult.filesChanged || [];
             
-            if (!success) {
+            if (success) {
+                // Одобрен только план - примененные изменения проходят проверку качества, как в Orchestrator.executeTask
+                qualityReport = await this.qualityController.validateSolution(solution);
+                if (qualityReport.passed) {
+                    TaskTransactionManager.getInstance().commit(task.id);
+                } else {
+                    await this.rollbackTaskChanges(task.id, `quality score ${qualityReport.score}`);
+                    success = false;
+                    error = `Качество недостаточно: ${qualityReport.score}/100` +
+                        (qualityReport.blockedBy ? ` (не пройдены проверки: ${qualityReport.blockedBy.join(', ')})` : '');
+                }
+            } else {
                 error = executionResult.error;
             }
             
@@ -232,9 +260,12 @@ export abstract class AgentWorker {
         } catch (err: any) {
             console.error(`${this.config.agentId}: Task execution failed:`, err);
             success = false;
-            error = err.message || 'Unknown error';
+            error = isCancellationError(err) ? 'Task cancelled' : (err.message || 'Unknown error');
+            await this.rollbackTaskChanges(task.id, 'execution error');
         }
         
+        TaskCancellationRegistry.getInstance().release(task.id);
+        
         // 6. Отмечаем задачу как выполненную
         const duration = Date.now() - startTime;
         
@@ -244,7 +275,8 @@ export abstract class AgentWorker {
             workerId: this.config.agentId,
             duration,
             error,
-            filesChanged
+            filesChanged,
+            qualityReport
         };
         
         await this.taskQueue.complete(task.id, result);
@@ -262,6 +294,23 @@ export abstract class AgentWorker {
         this.taskQueue.updateAgentLoad(this.config.agentId, 0);
     }
     
+    /**
+     * Откатить незафиксированные изменения задачи (качество не прошло, ошибка выполнения)
+     */
+    private async rollbackTaskChanges(taskId: string, reason: string): Promise<void> {
+        const transaction = TaskTransactionManager.getInstance().get(taskId);
+        if (!transaction || transaction.record.status !== 'active') {
+            return;
+        }
+        
+        try {
+            const result = await TaskTransactionManager.getInstance().rollback(taskId, true);
+            console.log(`${this.config.agentId}: Rolled back ${result.restored.length} files of task ${taskId} (${reason})`);
+        } catch (error) {
+            console.error(`${this.config.agentId}: Rollback of task ${taskId} failed:`, error);
+        }
+    }
+    
     /**
      * Периодический мониторинг проекта
      */
@@ -299,8 +348,9 @@ export abstract class AgentWorker {
     
     /**
      * Построение контекста проекта через MCP
+     * Для задачи добавляются фрагменты кода из семантического индекса
      */
-    protected async buildProjectContext(): Promise<ProjectContext> {
+    protected async buildProjectContext(task?: Task): Promise<ProjectContext> {
         try {
             // Получаем список файлов проекта
             const files = await this.mcpClient.listFiles();
@@ -308,6 +358,14 @@ export abstract class AgentWorker {
             // Получаем git статус
             const gitStatus = await this.mcpClient.getGitStatus();
             
+            // Инструменты MCP серверов, доступные агенту
+            const mcpTools = await this.mcpClient.listTools().catch(() => []);
+
+            // Код, относящийся к задаче
+            const relevantSnippets = task
+                ? await this.mcpClient.semanticSearch(task.description, RELEVANT_SNIPPETS_COUNT).catch(() => [])
+                : [];
+            
             return {
                 structure: {
                     files: files.slice(0, 100), // Ограничиваем для производительности
@@ -318,8 +376,14 @@ export abstract class AgentWorker {
                 patterns: [],
                 standards: {},
                 knowledge: {
-                    git: gitStatus
-                }
+                    git: gitStatus,
+                    mcpTools: mcpTools.map(tool => ({
+                        server: tool.server,
+                        name: tool.name,
+                        description: tool.description
+                    }))
+                },
+                relevantSnippets
             };
         } catch (error: any) {
             console.error(`${this.config.agentId}: Error building context:`, error);
@@ -356,6 +420,17 @@ export abstract class AgentWorker {
                 }
             }
         );
+        
+        // Другой воркер ждет файл, арендованный нашей задачей
+        this.messageBus.subscribe(
+            this.config.agentId,
+            [MessageType.FILE_CONFLICT],
+            async (message) => {
+                if (message.payload.holder?.agentId === this.config.agentId) {
+                    console.log(`${this.config.agentId}: ${message.from} is waiting for ${message.payload.path} held by task ${message.payload.holder.owner}`);
+                }
+            }
+        );
     }
     
     /**
@@ -393,6 +468,21 @@ export abstract class AgentWorker {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
     
+    /**
+     * Вызов инструмента MCP сервера с получением текстового результата
+     * Ошибка инструмента (isError) превращается в исключение
+     */
+    protected async callMCPTool(server: string, tool: string, args: { [key: string]: any } = {}): Promise<string> {
+        const result = await this.mcpClient.callTool(server, tool, args);
+        const text = MCPClient.toolResultText(result);
+        
+        if (result.isError) {
+            throw new Error(`MCP tool ${server}/${tool} failed: ${text}`);
+        }
+        
+        return text;
+    }
+    
     // ==================== АБСТРАКТНЫЕ МЕТОДЫ ====================
     
     /**
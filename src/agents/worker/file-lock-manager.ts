@@ -0,0 +1,220 @@
+import { EventEmitter } from 'events';
+import { HunkResult } from './patch-applier';
+
+/**
+ * Аренда файла задачей: пока аренда действует, другие задачи не пишут в файл
+ * Аренда продлевается при каждой записи и истекает сама, если воркер упал, не освободив ее
+ */
+export interface FileLease {
+    path: string;
+    owner: string;      // ID задачи
+    agentId: string;
+    acquiredAt: number;
+    expiresAt: number;
+}
+
+/**
+ * Задача не может записать файл: он арендован другой задачей
+ */
+export interface FileConflict {
+    path: string;
+    owner: string;
+    agentId: string;
+    holder: FileLease;
+}
+
+/**
+ * Изменение не удалось перенести на новое содержимое файла - решение за виртуальным пользователем
+ */
+export interface FileRebaseConflict {
+    path: string;
+    owner: string;
+    agentId: string;
+    failed: HunkResult[];
+}
+
+/**
+ * Обработчик эскалации: true - записать изменение поверх чужого, false - отказаться от изменения
+ */
+export type FileConflictEscalationHandler = (conflict: FileRebaseConflict) => Promise<boolean>;
+
+/**
+ * Аренду не удалось получить за отведенное время
+ */
+export class FileLockConflictError extends Error {
+    constructor(public readonly conflicts: FileConflict[]) {
+        super(`Файлы заняты другими задачами: ${conflicts.map(conflict =>
+            `${conflict.path} (задача ${conflict.holder.owner}, агент ${conflict.holder.agentId})`).join(', ')}`);
+        this.name = 'FileLockConflictError';
+    }
+}
+
+/**
+ * Конфликт изменений не разрешен: изменение задачи отклонено
+ */
+export class FileConflictRejectedError extends Error {
+    constructor(public readonly conflict: FileRebaseConflict) {
+        super(`Изменение ${conflict.path} конфликтует с изменениями другой задачи и отклонено`);
+        this.name = 'FileConflictRejectedError';
+    }
+}
+
+const DEFAULT_LEASE_TTL_MS = 600000; // 10 минут
+
+/**
+ * Менеджер аренды файлов между параллельными воркерами
+ * Аренда берется сразу на все файлы изменения (все или ничего), поэтому две задачи
+ * не блокируют друг друга частично захваченными наборами файлов
+ */
+export class FileLockManager extends EventEmitter {
+    private static instance: FileLockManager;
+    private leases: Map<string, FileLease> = new Map();
+    private escalationHandler?: FileConflictEscalationHandler;
+
+    constructor(private ttlMs: number = DEFAULT_LEASE_TTL_MS) {
+        super();
+        this.setMaxListeners(0);
+    }
+
+    /**
+     * Получить общий менеджер аренды (Singleton)
+     */
+    static getInstance(): FileLockManager {
+        if (!FileLockManager.instance) {
+            FileLockManager.instance = new FileLockManager();
+        }
+        return FileLockManager.instance;
+    }
+
+    /**
+     * Взять или продлить аренду без ожидания; возвращает конфликты, если часть файлов занята
+     */
+    tryAcquire(paths: string[], owner: string, agentId: string): FileConflict[] {
+        const now = Date.now();
+        const keys = Array.from(new Set(paths.map(normalizePath)));
+        const conflicts: FileConflict[] = [];
+
+        for (const key of keys) {
+            const lease = this.leases.get(key);
+            if (lease && lease.owner !== owner && lease.expiresAt > now) {
+                conflicts.push({ path: key, owner, agentId, holder: { ...lease } });
+            }
+        }
+        if (conflicts.length > 0) {
+            return conflicts;
+        }
+
+        for (const key of keys) {
+            const lease = this.leases.get(key);
+            this.leases.set(key, {
+                path: key,
+                owner,
+                agentId,
+                acquiredAt: lease && lease.owner === owner ? lease.acquiredAt : now,
+                expiresAt: now + this.ttlMs
+            });
+        }
+        return [];
+    }
+
+    /**
+     * Взять аренду, дождавшись освобождения занятых файлов
+     * onBlocked вызывается один раз, когда задача упирается в чужую аренду
+     */
+    async acquire(
+        paths: string[],
+        owner: string,
+        agentId: string,
+        timeoutMs: number,
+        onBlocked?: (conflicts: FileConflict[]) => void | Promise<void>
+    ): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+        let notified = false;
+
+        while (true) {
+            const conflicts = this.tryAcquire(paths, owner, agentId);
+            if (conflicts.length === 0) {
+                return;
+            }
+            if (!notified) {
+                notified = true;
+                console.log(`FileLockManager: Task ${owner} is waiting for ${conflicts.map(conflict => conflict.path).join(', ')}`);
+                await onBlocked?.(conflicts);
+            }
+
+            const now = Date.now();
+            if (now >= deadline) {
+                throw new FileLockConflictError(conflicts);
+            }
+            // Ждем освобождения или истечения ближайшей аренды
+            const nextExpiry = Math.min(...conflicts.map(conflict => conflict.holder.expiresAt));
+            await this.waitForRelease(Math.min(deadline, nextExpiry) - now);
+        }
+    }
+
+    /**
+     * Освободить аренду файлов задачи
+     */
+    release(paths: string[], owner: string): void {
+        const released = paths.map(normalizePath).filter(key => this.leases.get(key)?.owner === owner);
+        released.forEach(key => this.leases.delete(key));
+        if (released.length > 0) {
+            this.emit('released', released);
+        }
+    }
+
+    /**
+     * Освободить все файлы задачи (по завершении выполнения)
+     */
+    releaseAll(owner: string): void {
+        const owned = Array.from(this.leases.values()).filter(lease => lease.owner === owner).map(lease => lease.path);
+        this.release(owned, owner);
+    }
+
+    /**
+     * Действующие аренды
+     */
+    getLeases(): FileLease[] {
+        const now = Date.now();
+        return Array.from(this.leases.values()).filter(lease => lease.expiresAt > now);
+    }
+
+    /**
+     * Обработчик конфликтов, которые не удалось разрешить переносом изменения (виртуальный пользователь)
+     */
+    setEscalationHandler(handler?: FileConflictEscalationHandler): void {
+        this.escalationHandler = handler;
+    }
+
+    /**
+     * Эскалация конфликта; без обработчика изменение отклоняется
+     */
+    async escalate(conflict: FileRebaseConflict): Promise<boolean> {
+        console.warn(`FileLockManager: Escalating conflict in ${conflict.path} (task ${conflict.owner})`);
+        if (!this.escalationHandler) {
+            return false;
+        }
+        try {
+            return await this.escalationHandler(conflict);
+        } catch (error) {
+            console.error('FileLockManager: Escalation handler failed:', error);
+            return false;
+        }
+    }
+
+    private waitForRelease(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const done = () => {
+                clearTimeout(timer);
+                this.off('released', done);
+                resolve();
+            };
+            const timer = setTimeout(done, Math.max(ms, 0));
+            this.on('released', done);
+        });
+    }
+}
+
+function normalizePath(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
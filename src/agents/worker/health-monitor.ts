@@ -1,5 +1,6 @@
 import { AgentWorker, WorkerState } from './agent-worker';
 import { EventEmitter } from 'events';
+import { TELEMETRY_METRICS, Telemetry } from '../../telemetry/telemetry';
 
 /**
  * Информация о здоровье воркера
@@ -29,6 +30,7 @@ export class HealthMonitor extends EventEmitter {
     private maxInactivityTime: number = 300000; // 5 минут
     private restartAttempts: Map<string, number>;
     private maxRestartAttempts: number = 3;
+    private stopObservingHealth?: () => void;
     
     constructor() {
         super();
@@ -64,6 +66,13 @@ export class HealthMonitor extends EventEmitter {
             this.performHealthChecks();
         }, this.checkInterval);
         
+        this.stopObservingHealth = Telemetry.getInstance().observe(TELEMETRY_METRICS.workerHealthy, () =>
+            this.getAllHealth().map(health => ({
+                attributes: { 'agent.id': health.agentId, 'worker.state': health.state },
+                value: health.isHealthy ? 1 : 0
+            }))
+        );
+        
         console.log(`HealthMonitor: Started monitoring ${workers.size} workers`);
     }
     
@@ -77,6 +86,8 @@ export class HealthMonitor extends EventEmitter {
             clearInterval(this.monitoringInterval);
             this.monitoringInterval = undefined;
         }
+        this.stopObservingHealth?.();
+        this.stopObservingHealth = undefined;
         
         console.log('HealthMonitor: Stopped');
     }
@@ -191,6 +202,7 @@ export class HealthMonitor extends EventEmitter {
             this.healthRecords.set(agentId, health);
             
             this.emit('worker:restarted', { agentId, health });
+            Telemetry.getInstance().add(TELEMETRY_METRICS.workerRestarts, 1, { 'agent.id': agentId });
             
             console.log(`HealthMonitor: Successfully restarted worker ${agentId}`);
         } catch (error: any) {
@@ -241,6 +253,15 @@ export class HealthMonitor extends EventEmitter {
         }
     }
     
+    /**
+     * Доля успешно выполненных задач воркера (0-1); undefined - задач еще не было
+     */
+    getSuccessRate(agentId: string): number | undefined {
+        const health = this.healthRecords.get(agentId);
+        const total = health ? health.tasksCompleted + health.tasksFailed : 0;
+        return total > 0 ? health!.tasksCompleted / total : undefined;
+    }
+    
     /**
      * Получить здоровье всех воркеров
      */
@@ -1,14 +1,40 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { MCPServerRegistry, getGlobalMCPServerRegistry } from './mcp/mcp-server-registry';
+import { WorkspaceMCPServer } from './mcp/workspace-server';
+import {
+    MCPPrompt,
+    MCPPromptMessage,
+    MCPResource,
+    MCPResourceContent,
+    MCPServerStatus,
+    MCPTool,
+    MCPToolResult,
+    WORKSPACE_SERVER_NAME
+} from './mcp/mcp-types';
+import { SemanticIndex, SemanticSearchResult } from '../../orchestrator/semantic-index';
+import { PatchApplyError, PatchFailure, SearchReplaceEdit, applyPatch, isPatchChange, rebaseContent } from './patch-applier';
+import { TaskTransaction, saveOpenDocuments } from '../../orchestrator/task-transaction';
+import { FileConflict, FileConflictRejectedError, FileLockManager } from './file-lock-manager';
+import { MessageType, getGlobalMessageBus } from './message-bus';
+import { TestRunResult, runTests as runProjectTests } from './test-runner';
+import { runStaticAnalysis } from '../../quality/static-analysis';
+import { CoverageTracker } from '../../quality/coverage';
+import { ProjectDependencyGraph } from '../../orchestrator/project-dependency-graph';
+
+const LEASE_WAIT_MS = 300000; // 5 минут
 
 /**
  * Изменение файла
+ * Для modify вместо полного content можно передать unified diff (diff) или правки search/replace (edits)
  */
 export interface FileChange {
     type: 'create' | 'modify' | 'delete';
     path: string;
     content?: string;
     oldContent?: string;
+    diff?: string;
+    edits?: SearchReplaceEdit[];
 }
 
 /**
@@ -35,15 +61,45 @@ export interface FileInfo {
 /**
  * MCP Client для агентов
  * Предоставляет доступ к файлам, git, поиску через единый интерфейс
+ * и к внешним MCP серверам (stdio / streamable HTTP) из .cursor/mcp.json
+ * и настройки cursor-autonomous.mcp.servers.
+ * Собственные методы доступны агентам как встроенный сервер "workspace".
+ * В транзакции задачи запись файла идет под арендой FileLockManager: занятый файл ждет
+ * освобождения (с публикацией FILE_CONFLICT), а изменение, сделанное по устаревшему содержимому,
+ * переносится на новое содержимое или эскалируется виртуальному пользователю.
  */
 export class MCPClient {
+    private static dependencyGraph?: ProjectDependencyGraph;
     private workspaceRoot: vscode.Uri | null = null;
+    private registry: MCPServerRegistry;
+    private workspaceServer: WorkspaceMCPServer;
+    private transaction?: TaskTransaction;
+    private agentId: string = 'system';
+    // Содержимое файлов, прочитанное задачей: база для переноса изменений при конфликте
+    private baseContents: Map<string, string> = new Map();
     
-    constructor() {
+    constructor(registry: MCPServerRegistry = getGlobalMCPServerRegistry()) {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (workspaceFolders && workspaceFolders.length > 0) {
             this.workspaceRoot = workspaceFolders[0].uri;
         }
+        this.registry = registry;
+        this.workspaceServer = new WorkspaceMCPServer(this);
+    }
+    
+    /**
+     * Транзакция задачи: перед каждой записью файла делается снимок для отката
+     * Снятие транзакции освобождает аренду файлов задачи
+     */
+    setTransaction(transaction?: TaskTransaction, agentId?: string): void {
+        if (this.transaction && this.transaction !== transaction) {
+            FileLockManager.getInstance().releaseAll(this.transaction.taskId);
+        }
+        this.transaction = transaction;
+        this.baseContents.clear();
+        if (agentId) {
+            this.agentId = agentId;
+        }
     }
     
     /**
@@ -58,9 +114,14 @@ export class MCPClient {
     
     /**
      * Преобразовать относительный путь в абсолютный Uri
+     * Пути приходят и от модели: путь, который после нормализации ".." выходит из workspace, отклоняется
      */
     private resolveUri(relativePath: string): vscode.Uri {
         const root = this.getWorkspaceRoot();
+        const relative = path.relative(root.fsPath, path.join(root.fsPath, relativePath));
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            throw new Error(`Path is outside the workspace: ${relativePath}`);
+        }
         return vscode.Uri.joinPath(root, relativePath);
     }
     
@@ -105,12 +166,18 @@ export class MCPClient {
     async readFile(filePath: string): Promise<string> {
         const uri = this.resolveUri(filePath);
         
+        let text: string;
         try {
             const content = await vscode.workspace.fs.readFile(uri);
-            return Buffer.from(content).toString('utf-8');
+            text = Buffer.from(content).toString('utf-8');
         } catch (error) {
             throw new Error(`Failed to read file: ${filePath}`);
         }
+        
+        if (this.transaction && !this.baseContents.has(filePath)) {
+            this.baseContents.set(filePath, text);
+        }
+        return text;
     }
     
     /**
@@ -118,6 +185,8 @@ export class MCPClient {
      */
     async createFile(filePath: string, content: string): Promise<void> {
         const uri = this.resolveUri(filePath);
+        await this.acquireLeases([filePath]);
+        this.transaction?.capture(filePath);
         
         // Создаем директории если нужно
         const dirPath = path.dirname(filePath);
@@ -127,6 +196,7 @@ export class MCPClient {
         
         const buffer = Buffer.from(content, 'utf-8');
         await vscode.workspace.fs.writeFile(uri, buffer);
+        this.rememberBase(filePath, content);
         
         console.log(`MCPClient: Created file ${filePath}`);
     }
@@ -144,8 +214,14 @@ export class MCPClient {
             throw new Error(`File does not exist: ${filePath}`);
         }
         
+        await this.acquireLeases([filePath]);
+        const current = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+        content = await this.rebaseOnCurrent(filePath, content, current);
+        
+        this.transaction?.capture(filePath);
         const buffer = Buffer.from(content, 'utf-8');
         await vscode.workspace.fs.writeFile(uri, buffer);
+        this.rememberBase(filePath, content);
         
         console.log(`MCPClient: Modified file ${filePath}`);
     }
@@ -156,6 +232,8 @@ export class MCPClient {
     async deleteFile(filePath: string): Promise<void> {
         const uri = this.resolveUri(filePath);
         
+        await this.acquireLeases([filePath]);
+        this.transaction?.capture(filePath);
         await vscode.workspace.fs.delete(uri);
         
         console.log(`MCPClient: Deleted file ${filePath}`);
@@ -177,9 +255,17 @@ export class MCPClient {
     
     /**
      * Применить множественные изменения файлов
+     * Патчи применяются к текущему тексту документа (с несохраненными правками);
+     * если хотя бы один ханк не применился, ничего не меняется и выбрасывается PatchApplyError.
+     * Измененные документы сохраняются
      */
     async applyChanges(changes: FileChange[]): Promise<void> {
         const edit = new vscode.WorkspaceEdit();
+        const failures: PatchFailure[] = [];
+        
+        // Пути вне workspace отклоняются до аренды файлов
+        changes.forEach(change => this.resolveUri(change.path));
+        await this.acquireLeases(changes.map(change => change.path));
         
         for (const change of changes) {
             const uri = this.resolveUri(change.path);
@@ -194,14 +280,26 @@ export class MCPClient {
                     break;
                     
                 case 'modify':
-                    if (change.content) {
-                        // Читаем текущий файл
+                    if (isPatchChange(change)) {
+                        const document = await vscode.workspace.openTextDocument(uri);
+                        const result = applyPatch(document.getText(), change);
+                        if (result.failed.length > 0) {
+                            failures.push({ path: change.path, hunks: result.failed });
+                            break;
+                        }
+                        const fullRange = new vscode.Range(
+                            document.positionAt(0),
+                            document.positionAt(document.getText().length)
+                        );
+                        edit.replace(uri, fullRange, result.content);
+                    } else if (change.content) {
+                        // Читаем текущий файл; изменение по устаревшему содержимому переносится на текущее
                         const document = await vscode.workspace.openTextDocument(uri);
                         const fullRange = new vscode.Range(
                             document.positionAt(0),
                             document.positionAt(document.getText().length)
                         );
-                        edit.replace(uri, fullRange, change.content);
+                        edit.replace(uri, fullRange, await this.rebaseOnCurrent(change.path, change.content, document.getText(), change.oldContent));
                     }
                     break;
                     
@@ -211,15 +309,90 @@ export class MCPClient {
             }
         }
         
+        if (failures.length > 0) {
+            console.warn(`MCPClient: Patch failed for ${failures.map(failure => failure.path).join(', ')}`);
+            throw new PatchApplyError(failures);
+        }
+        
+        for (const change of changes) {
+            this.transaction?.capture(change.path);
+        }
+        
         const success = await vscode.workspace.applyEdit(edit);
         
         if (!success) {
             throw new Error('Failed to apply workspace edits');
         }
+        // applyEdit меняет только документы редактора; транзакция, тесты и анализаторы читают файлы с диска
+        await this.saveDocuments(changes.filter(change => change.type !== 'delete').map(change => change.path));
+        // Файлы уже содержат изменения задачи - прежняя база для переноса больше не актуальна
+        changes.forEach(change => this.baseContents.delete(change.path));
         
         console.log(`MCPClient: Applied ${changes.length} changes`);
     }
     
+    /**
+     * Сохранить документы файлов, измененных через WorkspaceEdit
+     */
+    private async saveDocuments(paths: string[]): Promise<void> {
+        for (const filePath of paths) {
+            const document = await vscode.workspace.openTextDocument(this.resolveUri(filePath));
+            if (document.isDirty && !await document.save()) {
+                throw new Error(`Failed to save ${filePath}`);
+            }
+        }
+    }
+    
+    /**
+     * Аренда файлов для записи в транзакции задачи
+     * Если файл занят другой задачей, публикуется FILE_CONFLICT и запись ждет освобождения аренды
+     */
+    private async acquireLeases(paths: string[]): Promise<void> {
+        if (!this.transaction) {
+            return;
+        }
+        
+        const taskId = this.transaction.taskId;
+        await FileLockManager.getInstance().acquire(paths, taskId, this.agentId, LEASE_WAIT_MS, async (conflicts: FileConflict[]) => {
+            for (const conflict of conflicts) {
+                await getGlobalMessageBus().publish({
+                    type: MessageType.FILE_CONFLICT,
+                    from: this.agentId,
+                    payload: { ...conflict, taskId }
+                });
+            }
+        });
+    }
+    
+    /**
+     * Перенос изменения, подготовленного по прочитанному ранее содержимому, на текущее содержимое файла
+     * Если перенести не удалось, решение принимает виртуальный пользователь; отказ - FileConflictRejectedError
+     */
+    private async rebaseOnCurrent(filePath: string, content: string, current: string, base?: string): Promise<string> {
+        base = base ?? this.baseContents.get(filePath);
+        if (base === undefined || current === base || !this.transaction) {
+            return content;
+        }
+        
+        const result = rebaseContent(base, content, current);
+        if (result.failed.length === 0) {
+            console.log(`MCPClient: Rebased ${filePath} onto changes of another task`);
+            return result.content;
+        }
+        
+        const conflict = { path: filePath, owner: this.transaction.taskId, agentId: this.agentId, failed: result.failed };
+        if (await FileLockManager.getInstance().escalate(conflict)) {
+            return content;
+        }
+        throw new FileConflictRejectedError(conflict);
+    }
+    
+    private rememberBase(filePath: string, content: string): void {
+        if (this.transaction) {
+            this.baseContents.set(filePath, content);
+        }
+    }
+    
     // ==================== ПОИСК ПО КОДУ ====================
     
     /**
@@ -272,28 +445,46 @@ export class MCPClient {
     
     /**
      * Найти определение символа
+     * Сначала проверяются файлы, близкие к символу по семантическому индексу, затем остальные
      */
     async findDefinition(symbol: string, filePattern?: string): Promise<SearchResult | null> {
-        const patterns = [
-            `function ${symbol}`,
-            `const ${symbol}`,
-            `let ${symbol}`,
-            `var ${symbol}`,
-            `class ${symbol}`,
-            `interface ${symbol}`,
-            `type ${symbol}`,
-            `export ${symbol}`
-        ];
-        
-        for (const pattern of patterns) {
-            const results = await this.searchCode(pattern, filePattern);
-            if (results.length > 0) {
-                return results[0];
+        const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const definition = new RegExp(`\\b(?:function|const|let|var|class|interface|type|enum|export|def|func)\\s+${escaped}\\b`);
+
+        const candidates = filePattern
+            ? []
+            : (await this.semanticSearch(symbol, 10).catch(() => [])).map(result => result.file);
+        const files = Array.from(new Set([...candidates, ...await this.listFiles(filePattern)]));
+
+        for (const file of files) {
+            try {
+                const lines = (await this.readFile(file)).split('\n');
+                for (let i = 0; i < lines.length; i++) {
+                    const match = definition.exec(lines[i]);
+                    if (match) {
+                        return {
+                            file,
+                            line: i + 1,
+                            column: match.index + 1,
+                            text: lines[i].trim(),
+                            context: lines.slice(Math.max(0, i - 3), Math.min(lines.length, i + 4))
+                        };
+                    }
+                }
+            } catch (error) {
+                // Пропускаем файлы с ошибками чтения
             }
         }
-        
+
         return null;
     }
+
+    /**
+     * Семантический поиск: k фрагментов кода, наиболее близких запросу на естественном языке
+     */
+    async semanticSearch(query: string, k: number = 5): Promise<SemanticSearchResult[]> {
+        return await SemanticIndex.getInstance().semanticSearch(query, k);
+    }
     
     // ==================== GIT ОПЕРАЦИИ ====================
     
@@ -401,53 +592,46 @@ export class MCPClient {
     // ==================== ТЕСТИРОВАНИЕ ====================
     
     /**
-     * Запустить тесты (поддержка разных тестовых фреймворков)
+     * Запустить тесты (Jest, Vitest, Mocha, pytest, go test) и разобрать отчет по отдельным тестам
+     * С affectedOnly запускаются только тесты, затронутые changedFiles (по умолчанию - файлами
+     * транзакции задачи) через граф зависимостей проекта
+     * С coverage собирается покрытие; отчет записывается в историю покрытия проекта.
+     * Перед запуском сохраняются открытые документы файлов задачи - тесты выполняются по файлам на диске
      */
-    async runTests(pattern?: string): Promise<{
-        success: boolean;
-        passed: number;
-        failed: number;
-        output: string;
-    }> {
+    async runTests(pattern?: string, options: {
+        affectedOnly?: boolean;
+        changedFiles?: string[];
+        timeoutMs?: number;
+        coverage?: boolean;
+    } = {}): Promise<TestRunResult> {
         const root = this.getWorkspaceRoot();
+        const graph = MCPClient.dependencyGraph;
+        const taskFiles = this.transaction?.record.files.map(file => file.path) || [];
+        const changedFiles = options.affectedOnly
+            ? options.changedFiles || taskFiles
+            : undefined;
         
-        // Определяем тестовый фреймворк
-        const packageJsonPath = vscode.Uri.joinPath(root, 'package.json');
+        await saveOpenDocuments(root.fsPath, [...taskFiles, ...(options.changedFiles || [])]);
+        const result = await runProjectTests(root.fsPath, {
+            pattern,
+            changedFiles,
+            getDependents: graph ? file => graph.getDependents(file) : undefined,
+            timeoutMs: options.timeoutMs,
+            coverage: options.coverage
+        });
         
-        try {
-            const packageJson = await this.readFile('package.json');
-            const pkg = JSON.parse(packageJson);
-            
-            let testCommand = 'npm test';
-            
-            // Определяем команду тестирования
-            if (pkg.scripts?.test) {
-                testCommand = 'npm test';
-            } else if (pkg.devDependencies?.jest || pkg.dependencies?.jest) {
-                testCommand = pattern ? `npx jest ${pattern}` : 'npx jest';
-            } else if (pkg.devDependencies?.mocha || pkg.dependencies?.mocha) {
-                testCommand = pattern ? `npx mocha ${pattern}` : 'npx mocha';
-            } else if (pkg.devDependencies?.vitest || pkg.dependencies?.vitest) {
-                testCommand = pattern ? `npx vitest run ${pattern}` : 'npx vitest run';
-            }
-            
-            // Запускаем тесты через терминал (но не через этот метод)
-            // Возвращаем информацию о том, что нужно запустить
-            return {
-                success: false,
-                passed: 0,
-                failed: 0,
-                output: `Please run: ${testCommand}`
-            };
-            
-        } catch (error) {
-            return {
-                success: false,
-                passed: 0,
-                failed: 0,
-                output: 'No test configuration found'
-            };
+        if (result.coverage) {
+            CoverageTracker.getInstance().record(result.coverage.report, this.transaction?.taskId);
         }
+        console.log(`MCPClient: Tests finished (${result.command || result.framework || 'none'}): ${result.passed} passed, ${result.failed} failed`);
+        return result;
+    }
+    
+    /**
+     * Граф зависимостей для выбора затронутых тестов (общий для всех клиентов)
+     */
+    static setDependencyGraph(graph?: ProjectDependencyGraph): void {
+        MCPClient.dependencyGraph = graph;
     }
     
     /**
@@ -474,6 +658,8 @@ export class MCPClient {
     
     /**
      * Запустить линтер
+     * Файл (или файлы транзакции задачи) проверяется линтерами и проверкой типов проекта;
+     * если ни один анализатор не применим, используются диагностики VS Code
      */
     async runLinter(filePath?: string): Promise<{
         success: boolean;
@@ -481,6 +667,21 @@ export class MCPClient {
         warnings: number;
         output: string;
     }> {
+        const files = filePath ? [filePath] : this.transaction?.record.files.map(file => file.path) || [];
+        if (files.length > 0) {
+            const analysis = await runStaticAnalysis(this.getWorkspaceRoot().fsPath, files);
+            if (analysis.runs.some(run => !run.skipped)) {
+                return {
+                    success: analysis.errors === 0,
+                    errors: analysis.errors,
+                    warnings: analysis.warnings,
+                    output: analysis.findings
+                        .map(finding => `${finding.file}:${finding.line || 1}:${finding.column || 1} - ${finding.analyzer}${finding.rule ? ` ${finding.rule}` : ''}: ${finding.message}`)
+                        .join('\n')
+                };
+            }
+        }
+        
         // Используем встроенную диагностику VS Code
         const diagnostics = vscode.languages.getDiagnostics();
         
@@ -571,6 +772,157 @@ export class MCPClient {
         }
     }
     
+    // ==================== MCP СЕРВЕРЫ ====================
+    
+    /**
+     * Подключиться к настроенным MCP серверам (повторный вызов ничего не делает)
+     */
+    async connectServers(): Promise<MCPServerStatus[]> {
+        await this.registry.ensureConnected();
+        return this.getServerStatuses();
+    }
+    
+    /**
+     * Состояние серверов, включая встроенный "workspace"
+     */
+    getServerStatuses(): MCPServerStatus[] {
+        return [
+            { name: WORKSPACE_SERVER_NAME, transport: 'builtin', connected: this.workspaceRoot !== null },
+            ...this.registry.getStatuses()
+        ];
+    }
+    
+    /**
+     * Список инструментов всех серверов или одного сервера
+     */
+    async listTools(server?: string): Promise<MCPTool[]> {
+        if (server === WORKSPACE_SERVER_NAME) {
+            return this.workspaceServer.listTools();
+        }
+        
+        await this.registry.ensureConnected();
+        
+        if (server) {
+            return await this.requireConnection(server).listTools();
+        }
+        
+        const tools: MCPTool[] = this.workspaceServer.listTools();
+        for (const connection of this.registry.getConnections()) {
+            try {
+                tools.push(...await connection.listTools());
+            } catch (error) {
+                console.error(`MCPClient: Failed to list tools of ${connection.name}:`, error);
+            }
+        }
+        return tools;
+    }
+    
+    /**
+     * Вызвать инструмент MCP сервера
+     */
+    async callTool(server: string, name: string, args: { [key: string]: any } = {}): Promise<MCPToolResult> {
+        if (server === WORKSPACE_SERVER_NAME) {
+            return await this.workspaceServer.callTool(name, args);
+        }
+        
+        await this.registry.ensureConnected();
+        const result = await this.requireConnection(server).callTool(name, args);
+        
+        console.log(`MCPClient: Called ${server}/${name}${result.isError ? ' (error)' : ''}`);
+        return result;
+    }
+    
+    /**
+     * Список ресурсов всех внешних серверов или одного сервера
+     */
+    async listResources(server?: string): Promise<MCPResource[]> {
+        if (server === WORKSPACE_SERVER_NAME) {
+            return [];
+        }
+        
+        await this.registry.ensureConnected();
+        
+        if (server) {
+            return await this.requireConnection(server).listResources();
+        }
+        
+        const resources: MCPResource[] = [];
+        for (const connection of this.registry.getConnections()) {
+            try {
+                resources.push(...await connection.listResources());
+            } catch (error) {
+                console.error(`MCPClient: Failed to list resources of ${connection.name}:`, error);
+            }
+        }
+        return resources;
+    }
+    
+    /**
+     * Прочитать ресурс MCP сервера
+     */
+    async readResource(server: string, uri: string): Promise<MCPResourceContent[]> {
+        await this.registry.ensureConnected();
+        return await this.requireConnection(server).readResource(uri);
+    }
+    
+    /**
+     * Список промптов всех внешних серверов или одного сервера
+     */
+    async listPrompts(server?: string): Promise<MCPPrompt[]> {
+        if (server === WORKSPACE_SERVER_NAME) {
+            return [];
+        }
+        
+        await this.registry.ensureConnected();
+        
+        if (server) {
+            return await this.requireConnection(server).listPrompts();
+        }
+        
+        const prompts: MCPPrompt[] = [];
+        for (const connection of this.registry.getConnections()) {
+            try {
+                prompts.push(...await connection.listPrompts());
+            } catch (error) {
+                console.error(`MCPClient: Failed to list prompts of ${connection.name}:`, error);
+            }
+        }
+        return prompts;
+    }
+    
+    /**
+     * Получить промпт MCP сервера с подставленными аргументами
+     */
+    async getPrompt(
+        server: string,
+        name: string,
+        args: { [key: string]: string } = {}
+    ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+        await this.registry.ensureConnected();
+        return await this.requireConnection(server).getPrompt(name, args);
+    }
+    
+    /**
+     * Текст из результата инструмента (текстовые блоки через перевод строки)
+     */
+    static toolResultText(result: MCPToolResult): string {
+        return result.content
+            .map(block => block.type === 'text' ? block.text : block.type === 'resource' ? (block.resource.text || '') : '')
+            .filter(text => text.length > 0)
+            .join('\n');
+    }
+    
+    private requireConnection(server: string) {
+        const connection = this.registry.getConnection(server);
+        if (!connection) {
+            const status = this.registry.getStatuses().find(s => s.name === server);
+            throw new Error(status?.error
+                ? `MCP server ${server} is not connected: ${status.error}`
+                : `MCP server ${server} is not configured`);
+        }
+        return connection;
+    }
+    
     // ==================== УТИЛИТЫ ====================
     
     /**
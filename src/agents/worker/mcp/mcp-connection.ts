@@ -0,0 +1,325 @@
+import { EventEmitter } from 'events';
+import { MCPTransport, StreamableHttpTransport } from './mcp-transport';
+import {
+    JsonRpcId,
+    JsonRpcMessage,
+    JsonRpcResponse,
+    JSON_RPC_METHOD_NOT_FOUND,
+    MCPPrompt,
+    MCPPromptMessage,
+    MCPResource,
+    MCPResourceContent,
+    MCPServerInfo,
+    MCPTool,
+    MCPToolResult,
+    MCP_PROTOCOL_VERSION
+} from './mcp-types';
+
+/**
+ * Ожидающий ответа запрос
+ */
+interface PendingRequest {
+    method: string;
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Ошибка, возвращенная MCP сервером
+ */
+export class MCPError extends Error {
+    constructor(message: string, public readonly code: number, public readonly data?: any) {
+        super(message);
+        this.name = 'MCPError';
+    }
+}
+
+/**
+ * Подключение к одному MCP серверу
+ * Реализует JSON-RPC 2.0 поверх транспорта и handshake initialize/initialized
+ *
+ * События: 'tools:changed', 'resources:changed', 'prompts:changed', 'close'
+ */
+export class MCPConnection extends EventEmitter {
+    private nextId: number = 1;
+    private pending: Map<JsonRpcId, PendingRequest> = new Map();
+    private serverInfo: MCPServerInfo | null = null;
+    private connected: boolean = false;
+
+    constructor(
+        readonly name: string,
+        private transport: MCPTransport,
+        private requestTimeout: number = 60000
+    ) {
+        super();
+
+        this.transport.on('message', (message: JsonRpcMessage) => this.handleMessage(message));
+        this.transport.on('error', (error: Error) => {
+            console.error(`MCP[${this.name}]: Transport error:`, error);
+        });
+        this.transport.on('close', () => {
+            this.connected = false;
+            this.rejectAllPending(new Error(`MCP server ${this.name} closed the connection`));
+            this.emit('close');
+        });
+    }
+
+    /**
+     * Запуск транспорта и handshake
+     */
+    async connect(clientName: string, clientVersion: string): Promise<MCPServerInfo> {
+        await this.transport.start();
+
+        const result = await this.request('initialize', {
+            protocolVersion: MCP_PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: {
+                name: clientName,
+                version: clientVersion
+            }
+        });
+
+        this.serverInfo = {
+            name: result.serverInfo?.name || this.name,
+            version: result.serverInfo?.version,
+            protocolVersion: result.protocolVersion || MCP_PROTOCOL_VERSION,
+            capabilities: result.capabilities || {},
+            instructions: result.instructions
+        };
+
+        if (this.transport instanceof StreamableHttpTransport) {
+            this.transport.setProtocolVersion(this.serverInfo.protocolVersion);
+        }
+
+        await this.notify('notifications/initialized');
+        this.connected = true;
+
+        console.log(`MCP[${this.name}]: Connected to ${this.serverInfo.name} ${this.serverInfo.version || ''} (protocol ${this.serverInfo.protocolVersion})`);
+
+        return this.serverInfo;
+    }
+
+    /**
+     * Закрыть подключение
+     */
+    async close(): Promise<void> {
+        this.connected = false;
+        this.rejectAllPending(new Error(`MCP connection ${this.name} closed`));
+        await this.transport.close();
+    }
+
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    getServerInfo(): MCPServerInfo | null {
+        return this.serverInfo;
+    }
+
+    getTransportKind(): 'stdio' | 'http' {
+        return this.transport.kind;
+    }
+
+    // ==================== ИНСТРУМЕНТЫ ====================
+
+    async listTools(): Promise<MCPTool[]> {
+        if (!this.serverInfo?.capabilities.tools) {
+            return [];
+        }
+
+        const tools = await this.listPaginated('tools/list', 'tools');
+        return tools.map((tool: any) => ({
+            server: this.name,
+            name: tool.name,
+            description: tool.description,
+            inputSchema: tool.inputSchema || { type: 'object' }
+        }));
+    }
+
+    async callTool(name: string, args: { [key: string]: any } = {}): Promise<MCPToolResult> {
+        const result = await this.request('tools/call', { name, arguments: args });
+        return {
+            content: result.content || [],
+            isError: result.isError === true,
+            structuredContent: result.structuredContent
+        };
+    }
+
+    // ==================== РЕСУРСЫ ====================
+
+    async listResources(): Promise<MCPResource[]> {
+        if (!this.serverInfo?.capabilities.resources) {
+            return [];
+        }
+
+        const resources = await this.listPaginated('resources/list', 'resources');
+        return resources.map((resource: any) => ({
+            server: this.name,
+            uri: resource.uri,
+            name: resource.name || resource.uri,
+            description: resource.description,
+            mimeType: resource.mimeType
+        }));
+    }
+
+    async readResource(uri: string): Promise<MCPResourceContent[]> {
+        const result = await this.request('resources/read', { uri });
+        return result.contents || [];
+    }
+
+    // ==================== ПРОМПТЫ ====================
+
+    async listPrompts(): Promise<MCPPrompt[]> {
+        if (!this.serverInfo?.capabilities.prompts) {
+            return [];
+        }
+
+        const prompts = await this.listPaginated('prompts/list', 'prompts');
+        return prompts.map((prompt: any) => ({
+            server: this.name,
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments
+        }));
+    }
+
+    async getPrompt(name: string, args: { [key: string]: string } = {}): Promise<{
+        description?: string;
+        messages: MCPPromptMessage[];
+    }> {
+        const result = await this.request('prompts/get', { name, arguments: args });
+        return {
+            description: result.description,
+            messages: result.messages || []
+        };
+    }
+
+    // ==================== JSON-RPC ====================
+
+    /**
+     * Отправить запрос и дождаться ответа
+     */
+    async request(method: string, params?: any): Promise<any> {
+        const id = this.nextId++;
+
+        const responsePromise = new Promise<any>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                // Сообщаем серверу, что результат больше не нужен
+                this.notify('notifications/cancelled', { requestId: id, reason: 'timeout' }).catch(() => undefined);
+                reject(new Error(`MCP request ${method} to ${this.name} timed out after ${this.requestTimeout}ms`));
+            }, this.requestTimeout);
+
+            this.pending.set(id, { method, resolve, reject, timer });
+        });
+
+        try {
+            await this.transport.send({ jsonrpc: '2.0', id, method, params });
+        } catch (error: any) {
+            const pending = this.pending.get(id);
+            if (pending) {
+                clearTimeout(pending.timer);
+                this.pending.delete(id);
+            }
+            throw new Error(`MCP request ${method} to ${this.name} failed: ${error.message}`);
+        }
+
+        return responsePromise;
+    }
+
+    /**
+     * Отправить уведомление
+     */
+    async notify(method: string, params?: any): Promise<void> {
+        await this.transport.send({ jsonrpc: '2.0', method, params });
+    }
+
+    private async listPaginated(method: string, field: string): Promise<any[]> {
+        const items: any[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const result = await this.request(method, cursor ? { cursor } : {});
+            items.push(...(result[field] || []));
+            cursor = result.nextCursor;
+        } while (cursor);
+
+        return items;
+    }
+
+    private handleMessage(message: JsonRpcMessage): void {
+        const hasId = 'id' in message && message.id !== undefined && message.id !== null;
+        const hasMethod = 'method' in message;
+
+        if (hasId && !hasMethod) {
+            this.handleResponse(message as JsonRpcResponse);
+        } else if (hasId && hasMethod) {
+            this.handleServerRequest(message.id as JsonRpcId, (message as any).method);
+        } else if (hasMethod) {
+            this.handleNotification((message as any).method, (message as any).params);
+        }
+    }
+
+    private handleResponse(response: JsonRpcResponse): void {
+        const pending = this.pending.get(response.id as JsonRpcId);
+        if (!pending) {
+            return; // Ответ на запрос, который уже истек
+        }
+
+        clearTimeout(pending.timer);
+        this.pending.delete(response.id as JsonRpcId);
+
+        if (response.error) {
+            pending.reject(new MCPError(
+                `MCP ${pending.method} failed: ${response.error.message}`,
+                response.error.code,
+                response.error.data
+            ));
+        } else {
+            pending.resolve(response.result ?? {});
+        }
+    }
+
+    /**
+     * Запросы от сервера к клиенту
+     * Мы не объявляем sampling/roots/elicitation, поэтому отвечаем только на ping
+     */
+    private handleServerRequest(id: JsonRpcId, method: string): void {
+        const response: JsonRpcResponse = method === 'ping'
+            ? { jsonrpc: '2.0', id, result: {} }
+            : { jsonrpc: '2.0', id, error: { code: JSON_RPC_METHOD_NOT_FOUND, message: `Method not supported by client: ${method}` } };
+
+        this.transport.send(response).catch(error => {
+            console.error(`MCP[${this.name}]: Failed to respond to ${method}:`, error);
+        });
+    }
+
+    private handleNotification(method: string, params: any): void {
+        switch (method) {
+            case 'notifications/tools/list_changed':
+                this.emit('tools:changed');
+                break;
+            case 'notifications/resources/list_changed':
+                this.emit('resources:changed');
+                break;
+            case 'notifications/prompts/list_changed':
+                this.emit('prompts:changed');
+                break;
+            case 'notifications/message':
+                console.log(`MCP[${this.name}] ${params?.level || 'info'}:`, params?.data);
+                break;
+            default:
+                // Прогресс и прочие уведомления сейчас не используются
+                break;
+        }
+    }
+
+    private rejectAllPending(error: Error): void {
+        for (const [id, pending] of this.pending.entries()) {
+            clearTimeout(pending.timer);
+            pending.reject(error);
+            this.pending.delete(id);
+        }
+    }
+}
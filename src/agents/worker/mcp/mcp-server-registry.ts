@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import { MCPConnection } from './mcp-connection';
+import { createTransport } from './mcp-transport';
+import { MCPServerConfig, MCPServerStatus, WORKSPACE_SERVER_NAME } from './mcp-types';
+
+const CLIENT_NAME = 'cursor-autonomous';
+const CLIENT_VERSION = '0.3.0';
+
+/**
+ * Реестр подключений к внешним MCP серверам
+ * Один на все расширение: воркеры используют общие процессы серверов
+ *
+ * Конфигурация читается из:
+ * 1. .cursor/mcp.json (секция mcpServers, формат Cursor)
+ * 2. настройки cursor-autonomous.mcp.servers (переопределяет одноименные серверы)
+ */
+export class MCPServerRegistry {
+    private connections: Map<string, MCPConnection> = new Map();
+    private statuses: Map<string, MCPServerStatus> = new Map();
+    private connectPromise: Promise<void> | null = null;
+
+    /**
+     * Подключиться ко всем настроенным серверам (однократно)
+     */
+    async ensureConnected(): Promise<void> {
+        if (!this.connectPromise) {
+            this.connectPromise = this.connectAll();
+        }
+        await this.connectPromise;
+    }
+
+    /**
+     * Переподключиться с актуальной конфигурацией
+     */
+    async reload(): Promise<void> {
+        await this.disconnectAll();
+        await this.ensureConnected();
+    }
+
+    /**
+     * Получить подключение к серверу
+     */
+    getConnection(name: string): MCPConnection | undefined {
+        const connection = this.connections.get(name);
+        return connection && connection.isConnected() ? connection : undefined;
+    }
+
+    /**
+     * Все активные подключения
+     */
+    getConnections(): MCPConnection[] {
+        return Array.from(this.connections.values()).filter(c => c.isConnected());
+    }
+
+    /**
+     * Состояние всех настроенных серверов
+     */
+    getStatuses(): MCPServerStatus[] {
+        return Array.from(this.statuses.values());
+    }
+
+    /**
+     * Закрыть все подключения
+     */
+    async disconnectAll(): Promise<void> {
+        const closing = Array.from(this.connections.values()).map(connection =>
+            connection.close().catch(error => {
+                console.error(`MCPServerRegistry: Error closing ${connection.name}:`, error);
+            })
+        );
+
+        await Promise.allSettled(closing);
+
+        this.connections.clear();
+        this.statuses.clear();
+        this.connectPromise = null;
+    }
+
+    private async connectAll(): Promise<void> {
+        const configs = await this.loadConfigs();
+        const names = Object.keys(configs);
+
+        if (names.length === 0) {
+            return;
+        }
+
+        console.log(`MCPServerRegistry: Connecting to ${names.length} MCP server(s): ${names.join(', ')}`);
+
+        await Promise.allSettled(names.map(name => this.connectServer(name, configs[name])));
+    }
+
+    private async connectServer(name: string, config: MCPServerConfig): Promise<void> {
+        const transportKind = config.url ? 'http' : 'stdio';
+        let connection: MCPConnection | undefined;
+
+        try {
+            const transport = createTransport(name, config);
+            connection = new MCPConnection(name, transport, config.timeout);
+
+            connection.on('close', () => {
+                const status = this.statuses.get(name);
+                if (status) {
+                    status.connected = false;
+                }
+            });
+
+            const serverInfo = await connection.connect(CLIENT_NAME, CLIENT_VERSION);
+
+            this.connections.set(name, connection);
+            this.statuses.set(name, { name, transport: transportKind, connected: true, serverInfo });
+        } catch (error: any) {
+            console.error(`MCPServerRegistry: Failed to connect to ${name}:`, error);
+            // Процесс stdio сервера или HTTP сессия не должны пережить неудачное подключение
+            await connection?.close().catch(closeError => {
+                console.error(`MCPServerRegistry: Error closing ${name}:`, closeError);
+            });
+            this.statuses.set(name, {
+                name,
+                transport: transportKind,
+                connected: false,
+                error: error.message || String(error)
+            });
+        }
+    }
+
+    /**
+     * Загрузка конфигурации серверов
+     */
+    private async loadConfigs(): Promise<{ [name: string]: MCPServerConfig }> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const configs: { [name: string]: MCPServerConfig } = {};
+
+        if (workspaceFolder) {
+            try {
+                const uri = vscode.Uri.joinPath(workspaceFolder.uri, '.cursor', 'mcp.json');
+                const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+                const parsed = JSON.parse(content);
+                Object.assign(configs, parsed.mcpServers || {});
+            } catch (error) {
+                // mcp.json отсутствует - это нормально
+            }
+        }
+
+        const settingsServers = vscode.workspace
+            .getConfiguration('cursor-autonomous')
+            .get<{ [name: string]: MCPServerConfig }>('mcp.servers', {});
+        Object.assign(configs, settingsServers);
+
+        const result: { [name: string]: MCPServerConfig } = {};
+        for (const [name, config] of Object.entries(configs)) {
+            if (name === WORKSPACE_SERVER_NAME) {
+                console.warn(`MCPServerRegistry: Server name "${WORKSPACE_SERVER_NAME}" is reserved for the built-in server, skipping`);
+                continue;
+            }
+            if (config.enabled === false) {
+                continue;
+            }
+            result[name] = this.expandVariables(config, workspaceFolder?.uri.fsPath);
+        }
+
+        return result;
+    }
+
+    /**
+     * Подстановка ${workspaceFolder} и ${env:NAME} в конфигурацию
+     */
+    private expandVariables(config: MCPServerConfig, workspacePath?: string): MCPServerConfig {
+        const expand = (value: string): string => value
+            .replace(/\$\{workspaceFolder\}/g, workspacePath || '')
+            .replace(/\$\{env:([^}]+)\}/g, (_, envName) => process.env[envName] || '');
+
+        const expandMap = (map?: { [key: string]: string }) => map
+            ? Object.fromEntries(Object.entries(map).map(([key, value]) => [key, expand(String(value))]))
+            : undefined;
+
+        return {
+            ...config,
+            command: config.command ? expand(config.command) : undefined,
+            args: config.args?.map(arg => expand(String(arg))),
+            env: expandMap(config.env),
+            cwd: config.cwd ? expand(config.cwd) : workspacePath,
+            url: config.url ? expand(config.url) : undefined,
+            headers: expandMap(config.headers)
+        };
+    }
+}
+
+/**
+ * Singleton instance для глобального доступа
+ */
+let globalRegistry: MCPServerRegistry | null = null;
+
+export function getGlobalMCPServerRegistry(): MCPServerRegistry {
+    if (!globalRegistry) {
+        globalRegistry = new MCPServerRegistry();
+    }
+    return globalRegistry;
+}
@@ -0,0 +1,327 @@
+import { EventEmitter } from 'events';
+import { ChildProcess, spawn } from 'child_process';
+import * as http from 'http';
+import * as https from 'https';
+import { URL } from 'url';
+import { JsonRpcMessage, MCPServerConfig, MCP_PROTOCOL_VERSION } from './mcp-types';
+
+/**
+ * Транспорт MCP
+ * События: 'message' (JsonRpcMessage), 'error' (Error), 'close'
+ */
+export interface MCPTransport extends EventEmitter {
+    readonly kind: 'stdio' | 'http';
+    start(): Promise<void>;
+    send(message: JsonRpcMessage): Promise<void>;
+    close(): Promise<void>;
+}
+
+/**
+ * Транспорт через stdio дочернего процесса
+ * Сообщения разделяются переводом строки (newline-delimited JSON)
+ */
+export class StdioTransport extends EventEmitter implements MCPTransport {
+    readonly kind = 'stdio' as const;
+    private process: ChildProcess | null = null;
+    private buffer: string = '';
+
+    constructor(private serverName: string, private config: MCPServerConfig) {
+        super();
+    }
+
+    async start(): Promise<void> {
+        if (!this.config.command) {
+            throw new Error(`MCP server ${this.serverName}: command is not configured`);
+        }
+
+        const child = spawn(this.config.command, this.config.args || [], {
+            cwd: this.config.cwd,
+            env: { ...process.env, ...(this.config.env || {}) },
+            stdio: ['pipe', 'pipe', 'pipe'],
+            // На Windows npx/uvx - это .cmd файлы, которые запускаются только через shell
+            shell: process.platform === 'win32'
+        });
+        this.process = child;
+
+        child.stdout?.on('data', (chunk: Buffer) => this.handleData(chunk.toString('utf-8')));
+
+        child.stderr?.on('data', (chunk: Buffer) => {
+            // stderr серверов используется для логов, это не ошибка протокола
+            console.debug(`MCP[${this.serverName}] stderr: ${chunk.toString('utf-8').trim()}`);
+        });
+
+        child.on('error', (error) => this.emit('error', error));
+
+        child.on('exit', (code, signal) => {
+            console.log(`MCP[${this.serverName}]: process exited (code: ${code}, signal: ${signal})`);
+            this.process = null;
+            this.emit('close');
+        });
+
+        // Ждем, пока процесс действительно запустится (или упадет с ENOENT)
+        await new Promise<void>((resolve, reject) => {
+            child.once('spawn', () => resolve());
+            child.once('error', reject);
+        });
+    }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        if (!this.process || !this.process.stdin || this.process.stdin.destroyed) {
+            throw new Error(`MCP server ${this.serverName} is not running`);
+        }
+
+        const stdin = this.process.stdin;
+        await new Promise<void>((resolve, reject) => {
+            stdin.write(JSON.stringify(message) + '\n', (error) => error ? reject(error) : resolve());
+        });
+    }
+
+    async close(): Promise<void> {
+        if (!this.process) {
+            return;
+        }
+
+        const child = this.process;
+        this.process = null;
+
+        child.stdin?.end();
+        // Даем серверу шанс завершиться самому, затем принудительно
+        const timer = setTimeout(() => {
+            if (child.exitCode === null) {
+                child.kill('SIGKILL');
+            }
+        }, 2000);
+        child.once('exit', () => clearTimeout(timer));
+        child.kill('SIGTERM');
+    }
+
+    private handleData(chunk: string): void {
+        this.buffer += chunk;
+
+        let newlineIndex: number;
+        while ((newlineIndex = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.substring(0, newlineIndex).trim();
+            this.buffer = this.buffer.substring(newlineIndex + 1);
+
+            if (!line) {
+                continue;
+            }
+
+            try {
+                this.emit('message', JSON.parse(line) as JsonRpcMessage);
+            } catch (error) {
+                console.warn(`MCP[${this.serverName}]: Ignoring non-JSON output: ${line.substring(0, 200)}`);
+            }
+        }
+    }
+}
+
+/**
+ * Транспорт Streamable HTTP
+ * Каждое сообщение отправляется POST запросом, ответ приходит как JSON или SSE поток
+ */
+export class StreamableHttpTransport extends EventEmitter implements MCPTransport {
+    readonly kind = 'http' as const;
+    private url: URL;
+    private sessionId: string | null = null;
+    private protocolVersion: string | null = null;
+    private timeout: number;
+
+    constructor(private serverName: string, private config: MCPServerConfig) {
+        super();
+        if (!config.url) {
+            throw new Error(`MCP server ${serverName}: url is not configured`);
+        }
+        this.url = new URL(config.url);
+        this.timeout = config.timeout || 60000;
+    }
+
+    async start(): Promise<void> {
+        // Соединение устанавливается лениво при первом POST
+    }
+
+    /**
+     * Запомнить согласованную версию протокола (отправляется в заголовке последующих запросов)
+     */
+    setProtocolVersion(version: string): void {
+        this.protocolVersion = version;
+    }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        const body = JSON.stringify(message);
+
+        await new Promise<void>((resolve, reject) => {
+            const req = this.createRequest('POST', {
+                'Content-Type': 'application/json',
+                'Accept': 'application/json, text/event-stream',
+                'Content-Length': Buffer.byteLength(body).toString()
+            }, (res) => {
+                const sessionHeader = res.headers['mcp-session-id'];
+                if (typeof sessionHeader === 'string') {
+                    this.sessionId = sessionHeader;
+                }
+
+                const status = res.statusCode || 0;
+
+                // 202 Accepted - для уведомлений и ответов тело не возвращается
+                if (status === 202) {
+                    res.resume();
+                    resolve();
+                    return;
+                }
+
+                if (status < 200 || status >= 300) {
+                    let data = '';
+                    res.on('data', (chunk) => data += chunk.toString());
+                    res.on('end', () => {
+                        if (status === 404 && this.sessionId) {
+                            // Сессия истекла на сервере - нужно переинициализироваться
+                            this.sessionId = null;
+                        }
+                        reject(new Error(`HTTP error! status: ${status}, body: ${data}`));
+                    });
+                    return;
+                }
+
+                const contentType = String(res.headers['content-type'] || '');
+
+                if (contentType.includes('text/event-stream')) {
+                    this.consumeEventStream(res);
+                    resolve();
+                    return;
+                }
+
+                let data = '';
+                res.on('data', (chunk) => data += chunk.toString());
+                res.on('end', () => {
+                    if (data.trim()) {
+                        try {
+                            this.emitMessages(JSON.parse(data));
+                        } catch (error: any) {
+                            this.emit('error', new Error(`Failed to parse response: ${error.message}, body: ${data}`));
+                        }
+                    }
+                    resolve();
+                });
+            });
+
+            req.on('error', reject);
+            req.write(body);
+            req.end();
+        });
+    }
+
+    async close(): Promise<void> {
+        if (!this.sessionId) {
+            this.emit('close');
+            return;
+        }
+
+        // Явно завершаем сессию; ошибки игнорируем - сервер может не поддерживать DELETE
+        await new Promise<void>((resolve) => {
+            const req = this.createRequest('DELETE', {}, (res) => {
+                res.resume();
+                resolve();
+            });
+            req.on('error', () => resolve());
+            req.end();
+        });
+
+        this.sessionId = null;
+        this.emit('close');
+    }
+
+    private createRequest(
+        method: string,
+        headers: { [key: string]: string },
+        callback: (res: http.IncomingMessage) => void
+    ): http.ClientRequest {
+        const isHttps = this.url.protocol === 'https:';
+        const httpModule = isHttps ? https : http;
+
+        const allHeaders: { [key: string]: string } = {
+            ...(this.config.headers || {}),
+            ...headers
+        };
+        if (this.sessionId) {
+            allHeaders['Mcp-Session-Id'] = this.sessionId;
+        }
+        allHeaders['MCP-Protocol-Version'] = this.protocolVersion || MCP_PROTOCOL_VERSION;
+
+        const req = httpModule.request({
+            hostname: this.url.hostname,
+            port: this.url.port ? parseInt(this.url.port) : (isHttps ? 443 : 80),
+            path: this.url.pathname + this.url.search,
+            method,
+            headers: allHeaders,
+            timeout: this.timeout
+        }, callback);
+
+        req.on('timeout', () => {
+            req.destroy(new Error(`Request timeout after ${this.timeout}ms`));
+        });
+
+        return req;
+    }
+
+    /**
+     * Разбор SSE потока: события разделяются пустой строкой, данные в строках "data:"
+     */
+    private consumeEventStream(res: http.IncomingMessage): void {
+        let buffer = '';
+        let dataLines: string[] = [];
+
+        const dispatch = () => {
+            if (dataLines.length === 0) {
+                return;
+            }
+            const data = dataLines.join('\n');
+            dataLines = [];
+            try {
+                this.emitMessages(JSON.parse(data));
+            } catch (error) {
+                console.warn(`MCP[${this.serverName}]: Ignoring malformed SSE event: ${data.substring(0, 200)}`);
+            }
+        };
+
+        res.on('data', (chunk: Buffer) => {
+            buffer += chunk.toString('utf-8');
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.substring(0, newlineIndex).replace(/\r$/, '');
+                buffer = buffer.substring(newlineIndex + 1);
+
+                if (line === '') {
+                    dispatch();
+                } else if (line.startsWith('data:')) {
+                    dataLines.push(line.substring(5).replace(/^ /, ''));
+                }
+                // Поля event/id/retry и комментарии нам не нужны
+            }
+        });
+
+        res.on('end', () => dispatch());
+        res.on('error', (error) => this.emit('error', error));
+    }
+
+    private emitMessages(payload: JsonRpcMessage | JsonRpcMessage[]): void {
+        const messages = Array.isArray(payload) ? payload : [payload];
+        for (const message of messages) {
+            this.emit('message', message);
+        }
+    }
+}
+
+/**
+ * Создать транспорт по конфигурации сервера
+ */
+export function createTransport(serverName: string, config: MCPServerConfig): MCPTransport {
+    if (config.url) {
+        return new StreamableHttpTransport(serverName, config);
+    }
+    if (config.command) {
+        return new StdioTransport(serverName, config);
+    }
+    throw new Error(`MCP server ${serverName}: either "command" or "url" must be configured`);
+}
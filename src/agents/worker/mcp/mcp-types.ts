@@ -0,0 +1,189 @@
+/**
+ * Типы Model Context Protocol (MCP)
+ * Основано на спецификации MCP (JSON-RPC 2.0 поверх stdio и streamable HTTP)
+ */
+
+/**
+ * Версия протокола, которую запрашивает клиент при initialize
+ */
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+/**
+ * Имя встроенного сервера, работающего через vscode.workspace
+ */
+export const WORKSPACE_SERVER_NAME = 'workspace';
+
+/**
+ * Идентификатор JSON-RPC запроса
+ */
+export type JsonRpcId = string | number;
+
+/**
+ * JSON-RPC запрос
+ */
+export interface JsonRpcRequest {
+    jsonrpc: '2.0';
+    id: JsonRpcId;
+    method: string;
+    params?: any;
+}
+
+/**
+ * JSON-RPC уведомление (без id, ответ не ожидается)
+ */
+export interface JsonRpcNotification {
+    jsonrpc: '2.0';
+    method: string;
+    params?: any;
+}
+
+/**
+ * Ошибка JSON-RPC
+ */
+export interface JsonRpcError {
+    code: number;
+    message: string;
+    data?: any;
+}
+
+/**
+ * JSON-RPC ответ
+ */
+export interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: JsonRpcId | null;
+    result?: any;
+    error?: JsonRpcError;
+}
+
+/**
+ * Любое JSON-RPC сообщение
+ */
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Стандартный код ошибки JSON-RPC: метод не найден
+ */
+export const JSON_RPC_METHOD_NOT_FOUND = -32601;
+
+/**
+ * Конфигурация MCP сервера
+ * Формат совместим с .cursor/mcp.json (mcpServers)
+ */
+export interface MCPServerConfig {
+    // stdio транспорт
+    command?: string;
+    args?: string[];
+    env?: { [key: string]: string };
+    cwd?: string;
+    // streamable HTTP транспорт
+    url?: string;
+    headers?: { [key: string]: string };
+    // Общие настройки
+    enabled?: boolean;
+    timeout?: number; // Таймаут запроса в мс
+}
+
+/**
+ * Информация о сервере, полученная при initialize
+ */
+export interface MCPServerInfo {
+    name: string;
+    version?: string;
+    protocolVersion: string;
+    capabilities: {
+        tools?: { listChanged?: boolean };
+        resources?: { subscribe?: boolean; listChanged?: boolean };
+        prompts?: { listChanged?: boolean };
+        logging?: object;
+        [key: string]: any;
+    };
+    instructions?: string;
+}
+
+/**
+ * Инструмент MCP сервера
+ */
+export interface MCPTool {
+    server: string;
+    name: string;
+    description?: string;
+    inputSchema: {
+        type: 'object';
+        properties?: { [key: string]: any };
+        required?: string[];
+        [key: string]: any;
+    };
+}
+
+/**
+ * Ресурс MCP сервера
+ */
+export interface MCPResource {
+    server: string;
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+/**
+ * Содержимое ресурса
+ */
+export interface MCPResourceContent {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string; // base64
+}
+
+/**
+ * Промпт MCP сервера
+ */
+export interface MCPPrompt {
+    server: string;
+    name: string;
+    description?: string;
+    arguments?: Array<{
+        name: string;
+        description?: string;
+        required?: boolean;
+    }>;
+}
+
+/**
+ * Сообщение промпта, возвращаемое prompts/get
+ */
+export interface MCPPromptMessage {
+    role: 'user' | 'assistant';
+    content: MCPContent;
+}
+
+/**
+ * Блок содержимого в ответах MCP
+ */
+export type MCPContent =
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string }
+    | { type: 'audio'; data: string; mimeType: string }
+    | { type: 'resource'; resource: MCPResourceContent };
+
+/**
+ * Результат вызова инструмента
+ */
+export interface MCPToolResult {
+    content: MCPContent[];
+    isError?: boolean;
+    structuredContent?: any;
+}
+
+/**
+ * Состояние подключения к серверу
+ */
+export interface MCPServerStatus {
+    name: string;
+    transport: 'stdio' | 'http' | 'builtin';
+    connected: boolean;
+    serverInfo?: MCPServerInfo;
+    error?: string;
+}
@@ -0,0 +1,210 @@
+import type { MCPClient } from '../mcp-client';
+import { MCPTool, MCPToolResult, WORKSPACE_SERVER_NAME } from './mcp-types';
+
+/**
+ * Описание встроенного инструмента
+ */
+interface WorkspaceToolDefinition {
+    name: string;
+    description: string;
+    properties: { [key: string]: any };
+    required?: string[];
+    handler: (client: MCPClient, args: any) => Promise<any>;
+}
+
+const WORKSPACE_TOOLS: WorkspaceToolDefinition[] = [
+    {
+        name: 'list_files',
+        description: 'Список файлов проекта по glob-шаблону',
+        properties: {
+            pattern: { type: 'string', description: 'Glob-шаблон, например src/**/*.ts' },
+            exclude: { type: 'string', description: 'Glob-шаблон исключений' }
+        },
+        handler: (client, args) => client.listFiles(args.pattern, args.exclude)
+    },
+    {
+        name: 'read_file',
+        description: 'Прочитать содержимое файла',
+        properties: {
+            path: { type: 'string', description: 'Путь относительно корня workspace' }
+        },
+        required: ['path'],
+        handler: (client, args) => client.readFile(args.path)
+    },
+    {
+        name: 'create_file',
+        description: 'Создать файл с указанным содержимым',
+        properties: {
+            path: { type: 'string' },
+            content: { type: 'string' }
+        },
+        required: ['path', 'content'],
+        handler: async (client, args) => {
+            await client.createFile(args.path, args.content);
+            return `Created ${args.path}`;
+        }
+    },
+    {
+        name: 'modify_file',
+        description: 'Заменить содержимое существующего файла',
+        properties: {
+            path: { type: 'string' },
+            content: { type: 'string' }
+        },
+        required: ['path', 'content'],
+        handler: async (client, args) => {
+            await client.modifyFile(args.path, args.content);
+            return `Modified ${args.path}`;
+        }
+    },
+    {
+        name: 'apply_patch',
+        description: 'Применить unified diff или правки search/replace к файлу (с нечетким поиском ханков)',
+        properties: {
+            path: { type: 'string' },
+            diff: { type: 'string', description: 'Unified diff файла' },
+            edits: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: { search: { type: 'string' }, replace: { type: 'string' } },
+                    required: ['search', 'replace']
+                }
+            }
+        },
+        required: ['path'],
+        handler: async (client, args) => {
+            await client.applyChanges([{ type: 'modify', path: args.path, diff: args.diff, edits: args.edits }]);
+            return `Patched ${args.path}`;
+        }
+    },
+    {
+        name: 'delete_file',
+        description: 'Удалить файл',
+        properties: {
+            path: { type: 'string' }
+        },
+        required: ['path'],
+        handler: async (client, args) => {
+            await client.deleteFile(args.path);
+            return `Deleted ${args.path}`;
+        }
+    },
+    {
+        name: 'search_code',
+        description: 'Поиск строки по содержимому файлов',
+        properties: {
+            query: { type: 'string' },
+            filePattern: { type: 'string' }
+        },
+        required: ['query'],
+        handler: (client, args) => client.searchCode(args.query, args.filePattern)
+    },
+    {
+        name: 'semantic_search',
+        description: 'Поиск фрагментов кода по смыслу запроса (эмбеддинги или TF-IDF)',
+        properties: {
+            query: { type: 'string' },
+            k: { type: 'number', description: 'Количество фрагментов' }
+        },
+        required: ['query'],
+        handler: (client, args) => client.semanticSearch(args.query, args.k)
+    },
+    {
+        name: 'find_references',
+        description: 'Найти использования символа',
+        properties: {
+            symbol: { type: 'string' },
+            filePattern: { type: 'string' }
+        },
+        required: ['symbol'],
+        handler: (client, args) => client.findReferences(args.symbol, args.filePattern)
+    },
+    {
+        name: 'find_definition',
+        description: 'Найти определение символа',
+        properties: {
+            symbol: { type: 'string' },
+            filePattern: { type: 'string' }
+        },
+        required: ['symbol'],
+        handler: (client, args) => client.findDefinition(args.symbol, args.filePattern)
+    },
+    {
+        name: 'git_status',
+        description: 'Текущая ветка и количество изменений',
+        properties: {},
+        handler: (client) => client.getGitStatus()
+    },
+    {
+        name: 'git_diff',
+        description: 'Diff файла относительно HEAD',
+        properties: {
+            path: { type: 'string' }
+        },
+        required: ['path'],
+        handler: (client, args) => client.getFileDiff(args.path)
+    },
+    {
+        name: 'run_linter',
+        description: 'Замечания линтеров и проверки типов проекта для файла (без path - для файлов задачи)',
+        properties: {
+            path: { type: 'string' }
+        },
+        handler: (client, args) => client.runLinter(args.path)
+    }
+];
+
+/**
+ * Встроенный MCP сервер "workspace"
+ * Публикует файловые, git и поисковые методы MCPClient как MCP инструменты,
+ * чтобы агенты работали с ними так же, как с внешними серверами
+ */
+export class WorkspaceMCPServer {
+    constructor(private client: MCPClient) {}
+
+    listTools(): MCPTool[] {
+        return WORKSPACE_TOOLS.map(tool => ({
+            server: WORKSPACE_SERVER_NAME,
+            name: tool.name,
+            description: tool.description,
+            inputSchema: {
+                type: 'object',
+                properties: tool.properties,
+                required: tool.required
+            }
+        }));
+    }
+
+    async callTool(name: string, args: { [key: string]: any }): Promise<MCPToolResult> {
+        const tool = WORKSPACE_TOOLS.find(t => t.name === name);
+        if (!tool) {
+            return {
+                content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+                isError: true
+            };
+        }
+
+        const missing = (tool.required || []).filter(key => args[key] === undefined);
+        if (missing.length > 0) {
+            return {
+                content: [{ type: 'text', text: `Missing required arguments: ${missing.join(', ')}` }],
+                isError: true
+            };
+        }
+
+        try {
+            const result = await tool.handler(this.client, args);
+            const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+            return {
+                content: [{ type: 'text', text }],
+                structuredContent: typeof result === 'string' ? undefined : result
+            };
+        } catch (error: any) {
+            return {
+                content: [{ type: 'text', text: error.message || String(error) }],
+                isError: true
+            };
+        }
+    }
+}
@@ -1,6 +1,8 @@
 import { EventEmitter } from 'events';
-import { Task } from '../../orchestrator/orchestrator';
-import { AgentSolution, AgentThoughts } from '../local-agent';
+import type { Task } from '../../orchestrator/orchestrator';
+import type { AgentSolution, AgentThoughts } from '../local-agent';
+import { MessageLogEntry, MessageLogStore } from './message-log-store';
+import { MessageTransport } from './message-transport';
 
 /**
  * Типы сообщений для координации агентов
@@ -52,6 +54,43 @@ export interface Message<T = any> {
  */
 export type MessageHandler<T = any> = (message: Message<T>) => void | Promise<void>;
 
+/**
+ * Сообщение, которое не удалось доставить: нет получателя или обработчик упал
+ */
+export interface DeadLetter {
+    id: string;
+    message: Message;
+    recipient: string;
+    reason: 'no-recipient' | 'handler-error';
+    error?: string;
+    attempts: number;
+    failedAt: Date;
+}
+
+/**
+ * Запрос не получил ответа: доставка не удалась или истек таймаут
+ */
+export class MessageDeliveryError extends Error {
+    constructor(message: string, public readonly deadLetter?: DeadLetter) {
+        super(message);
+        this.name = 'MessageDeliveryError';
+    }
+}
+
+/**
+ * Ожидающий ответа запрос
+ */
+interface PendingRequest {
+    to: string;
+    type: MessageType;
+    resolve: (payload: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+// Типы ответов, которыми завершается request
+const REPLY_TYPES = [MessageType.AGENT_ANSWER, MessageType.COLLABORATION_RESPONSE];
+
 /**
  * Подписка на сообщения
  */
@@ -64,16 +103,76 @@ interface Subscription {
 /**
  * Шина сообщений для Swarm координации агентов
  * Реализует peer-to-peer коммуникацию и broadcast
+ * Недоставленные сообщения попадают в очередь dead-letter, откуда их можно доставить повторно;
+ * с журналом (MessageLogStore) все сообщения сохраняются, и переписку агентов можно
+ * воспроизвести в новой шине через replay
+ * Через транспорты (MessageTransport) шина связывается с шинами в worker_threads и других процессах:
+ * агенты удаленной шины узнаются по полю from входящих сообщений, и адресованные им сообщения
+ * уходят только в их транспорт; шина с несколькими транспортами пересылает broadcast между ними
  */
 export class MessageBus extends EventEmitter {
     private subscriptions: Map<string, Subscription[]>; // agentId -> subscriptions
     private messageHistory: Message[];
     private maxHistorySize: number = 1000;
+    private deadLetters: DeadLetter[] = [];
+    private maxDeadLetters: number = 500;
+    private pendingRequests: Map<string, PendingRequest> = new Map(); // correlationId -> запрос
+    private logStore?: MessageLogStore;
+    private transports: MessageTransport[] = [];
+    private remoteAgents: Map<string, MessageTransport> = new Map(); // agentId -> транспорт
     
-    constructor() {
+    constructor(logStore?: MessageLogStore) {
         super();
         this.subscriptions = new Map();
         this.messageHistory = [];
+        this.logStore = logStore;
+    }
+    
+    /**
+     * Подключить журнал сообщений
+     */
+    setLogStore(logStore?: MessageLogStore): void {
+        this.logStore = logStore;
+    }
+    
+    /**
+     * Подключить транспорт к шине в другом потоке или процессе
+     * Возвращает функцию отключения; закрытие транспорта отключает его автоматически
+     */
+    attachTransport(transport: MessageTransport): () => void {
+        this.transports.push(transport);
+        transport.onMessage(message => {
+            this.receiveRemote(message, transport).catch(error =>
+                console.error(`MessageBus: Failed to dispatch message from ${transport.name}:`, error));
+        });
+        transport.onClose(() => this.detachTransport(transport));
+        
+        console.log(`MessageBus: Attached transport ${transport.name}`);
+        return () => this.detachTransport(transport);
+    }
+    
+    /**
+     * Отключить транспорт; его агенты больше не считаются доступными
+     */
+    detachTransport(transport: MessageTransport): void {
+        const index = this.transports.indexOf(transport);
+        if (index === -1) {
+            return;
+        }
+        this.transports.splice(index, 1);
+        for (const [agentId, agentTransport] of this.remoteAgents.entries()) {
+            if (agentTransport === transport) {
+                this.remoteAgents.delete(agentId);
+            }
+        }
+        console.log(`MessageBus: Detached transport ${transport.name}`);
+    }
+    
+    /**
+     * Агенты, доступные через транспорты
+     */
+    getRemoteAgents(): string[] {
+        return Array.from(this.remoteAgents.keys());
     }
     
     /**
@@ -123,43 +222,120 @@ export class MessageBus extends EventEmitter {
             timestamp: new Date()
         };
         
+        this.writeLog({ op: 'message', message: fullMessage });
+        await this.route(fullMessage);
+    }
+    
+    private async receiveRemote(message: Message, source: MessageTransport): Promise<void> {
+        // 'system' есть в каждой шине, поэтому к транспорту не привязывается
+        if (message.from && message.from !== 'system') {
+            this.remoteAgents.set(message.from, source);
+        }
+        this.writeLog({ op: 'message', message });
+        await this.route(message, source);
+    }
+    
+    /**
+     * Маршрутизация: сообщение удаленному агенту уходит только в его транспорт,
+     * broadcast - во все транспорты, кроме источника, и локальным подписчикам
+     */
+    private async route(message: Message, source?: MessageTransport): Promise<void> {
+        const remote = message.to ? this.remoteAgents.get(message.to) : undefined;
+        if (remote) {
+            if (remote !== source) {
+                this.sendToTransport(remote, message);
+            }
+            await this.dispatch(message, false);
+            return;
+        }
+        
+        if (!message.to) {
+            this.transports
+                .filter(transport => transport !== source)
+                .forEach(transport => this.sendToTransport(transport, message));
+        }
+        await this.dispatch(message);
+    }
+    
+    private sendToTransport(transport: MessageTransport, message: Message): void {
+        try {
+            transport.send(message);
+        } catch (error) {
+            console.error(`MessageBus: Failed to send ${message.type} via ${transport.name}:`, error);
+            if (message.to) {
+                this.addDeadLetter(message, message.to, 'handler-error', error, 1);
+            }
+        }
+    }
+    
+    /**
+     * Воспроизвести сохраненные сообщения (например, из журнала другой сессии)
+     * Сообщения доставляются текущим подписчикам с исходными id и временем и не пишутся в журнал
+     */
+    async replay(source: Message[] | MessageLogStore): Promise<number> {
+        const messages = Array.isArray(source)
+            ? source
+            : source.load()
+                .filter((entry): entry is Extract<MessageLogEntry, { op: 'message' }> => entry.op === 'message')
+                .map(entry => entry.message);
+        
+        for (const message of messages) {
+            await this.dispatch(message);
+        }
+        
+        console.log(`MessageBus: Replayed ${messages.length} messages`);
+        return messages.length;
+    }
+    
+    private async dispatch(message: Message, deliverLocally: boolean = true): Promise<void> {
         // Сохраняем в историю
-        this.messageHistory.push(fullMessage);
+        this.messageHistory.push(message);
         if (this.messageHistory.length > this.maxHistorySize) {
             this.messageHistory.shift();
         }
         
-        // Если указан получатель - отправляем только ему
-        if (fullMessage.to) {
-            await this.deliverToAgent(fullMessage.to, fullMessage);
+        // Ответ на request отдается ожидающему запросу, даже если у отправителя запроса нет подписок
+        const answered = this.resolveRequest(message);
+        
+        // Если указан получатель - отправляем только ему (получатель в другой шине уже получил его через транспорт)
+        if (message.to) {
+            if (deliverLocally) {
+                await this.deliverToAgent(message.to, message, 1, answered);
+            }
         } else {
             // Broadcast - отправляем всем подписчикам
-            await this.broadcastMessage(fullMessage);
+            await this.broadcastMessage(message);
         }
         
         // Отправляем event для логирования/мониторинга
-        this.emit('message', fullMessage);
+        this.emit('message', message);
     }
     
     /**
      * Доставить сообщение конкретному агенту
+     * Возвращает false, если сообщение ушло в dead-letter
      */
-    private async deliverToAgent(agentId: string, message: Message): Promise<void> {
-        const subscriptions = this.subscriptions.get(agentId);
-        if (!subscriptions) {
-            console.warn(`MessageBus: No subscriptions for agent ${agentId}`);
-            return;
+    private async deliverToAgent(agentId: string, message: Message, attempts: number = 1, answered: boolean = false): Promise<boolean> {
+        const subscriptions = (this.subscriptions.get(agentId) || []).filter(sub => sub.types.includes(message.type));
+        if (subscriptions.length === 0) {
+            if (!answered) {
+                console.warn(`MessageBus: No subscriptions for agent ${agentId}`);
+                this.addDeadLetter(message, agentId, 'no-recipient', undefined, attempts);
+            }
+            return answered;
         }
         
+        let delivered = true;
         for (const sub of subscriptions) {
-            if (sub.types.includes(message.type)) {
-                try {
-                    await sub.handler(message);
-                } catch (error) {
-                    console.error(`MessageBus: Error in handler for agent ${agentId}:`, error);
-                }
+            try {
+                await sub.handler(message);
+            } catch (error: any) {
+                console.error(`MessageBus: Error in handler for agent ${agentId}:`, error);
+                this.addDeadLetter(message, agentId, 'handler-error', error, attempts);
+                delivered = false;
             }
         }
+        return delivered;
     }
     
     /**
@@ -178,8 +354,9 @@ export class MessageBus extends EventEmitter {
                         (async () => {
                             try {
                                 await sub.handler(message);
-                            } catch (error) {
+                            } catch (error: any) {
                                 console.error(`MessageBus: Error in broadcast handler for agent ${agentId}:`, error);
+                                this.addDeadLetter(message, agentId, 'handler-error', error, 1);
                             }
                         })()
                     );
@@ -192,38 +369,24 @@ export class MessageBus extends EventEmitter {
     
     /**
      * Отправить запрос и ждать ответа (Request-Response pattern)
+     * Промис разрешается ответом AGENT_ANSWER / COLLABORATION_RESPONSE с тем же correlationId;
+     * если запрос не доставлен или ответ не пришел за timeout, выбрасывается MessageDeliveryError
      */
     async request<TRequest = any, TResponse = any>(
-        from: string,
         to: string,
         type: MessageType,
         payload: TRequest,
-        timeout: number = 30000
+        timeout: number = 30000,
+        from: string = 'system'
     ): Promise<TResponse> {
         const correlationId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
         
-        // Создаем Promise для ожидания ответа
         const responsePromise = new Promise<TResponse>((resolve, reject) => {
-            const timeoutId = setTimeout(() => {
-                this.unsubscribe(from, subscription);
-                reject(new Error(`Request timeout after ${timeout}ms`));
+            const timer = setTimeout(() => {
+                this.pendingRequests.delete(correlationId);
+                reject(new MessageDeliveryError(`Request ${type} to ${to} timed out after ${timeout}ms`));
             }, timeout);
-            
-            const subscription: Subscription = {
-                agentId: from,
-                types: [MessageType.AGENT_ANSWER, MessageType.COLLABORATION_RESPONSE],
-                handler: (message: Message) => {
-                    if (message.correlationId === correlationId) {
-                        clearTimeout(timeoutId);
-                        this.unsubscribe(from, subscription);
-                        resolve(message.payload as TResponse);
-                    }
-                }
-            };
-            
-            const agentSubs = this.subscriptions.get(from) || [];
-            agentSubs.push(subscription);
-            this.subscriptions.set(from, agentSubs);
+            this.pendingRequests.set(correlationId, { to, type, resolve, reject, timer });
         });
         
         // Отправляем запрос
@@ -255,6 +418,102 @@ export class MessageBus extends EventEmitter {
         });
     }
     
+    private resolveRequest(message: Message): boolean {
+        if (!message.correlationId || !REPLY_TYPES.includes(message.type)) {
+            return false;
+        }
+        
+        const pending = this.pendingRequests.get(message.correlationId);
+        if (!pending) {
+            return false;
+        }
+        
+        clearTimeout(pending.timer);
+        this.pendingRequests.delete(message.correlationId);
+        pending.resolve(message.payload);
+        return true;
+    }
+    
+    // ==================== DEAD-LETTER ====================
+    
+    private addDeadLetter(message: Message, recipient: string, reason: DeadLetter['reason'], error: any, attempts: number): void {
+        const deadLetter: DeadLetter = {
+            id: `dl-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            message,
+            recipient,
+            reason,
+            error: error ? (error.message || String(error)) : undefined,
+            attempts,
+            failedAt: new Date()
+        };
+        
+        this.deadLetters.push(deadLetter);
+        if (this.deadLetters.length > this.maxDeadLetters) {
+            this.deadLetters.shift();
+        }
+        this.writeLog({ op: 'dead-letter', deadLetter });
+        this.emit('dead-letter', deadLetter);
+        
+        // Запрос, который не удалось доставить, завершается сразу, не дожидаясь таймаута
+        const pending = message.correlationId && !REPLY_TYPES.includes(message.type)
+            ? this.pendingRequests.get(message.correlationId)
+            : undefined;
+        if (pending) {
+            clearTimeout(pending.timer);
+            this.pendingRequests.delete(message.correlationId!);
+            pending.reject(new MessageDeliveryError(
+                `Request ${message.type} to ${recipient} failed: ${deadLetter.error || 'no recipient'}`, deadLetter));
+        }
+    }
+    
+    /**
+     * Недоставленные сообщения
+     */
+    getDeadLetters(): DeadLetter[] {
+        return [...this.deadLetters];
+    }
+    
+    /**
+     * Повторная доставка сообщений из dead-letter; возвращает количество доставленных
+     * Неудачная попытка возвращает сообщение в очередь с увеличенным счетчиком попыток
+     */
+    async retryDeadLetters(filter?: (deadLetter: DeadLetter) => boolean): Promise<number> {
+        const toRetry = filter ? this.deadLetters.filter(filter) : [...this.deadLetters];
+        this.deadLetters = this.deadLetters.filter(deadLetter => !toRetry.includes(deadLetter));
+        
+        let delivered = 0;
+        for (const deadLetter of toRetry) {
+            if (await this.deliverToAgent(deadLetter.recipient, deadLetter.message, deadLetter.attempts + 1)) {
+                delivered++;
+            }
+        }
+        
+        console.log(`MessageBus: Redelivered ${delivered}/${toRetry.length} dead letters`);
+        return delivered;
+    }
+    
+    /**
+     * Очистить очередь dead-letter
+     */
+    clearDeadLetters(): void {
+        this.deadLetters = [];
+    }
+    
+    /**
+     * Запись в журнал; ошибки журнала (в том числе несериализуемый payload) не мешают доставке
+     */
+    private writeLog(entry: MessageLogEntry): void {
+        if (!this.logStore) {
+            return;
+        }
+        
+        try {
+            this.logStore.append(entry);
+        } catch (error) {
+            console.error(`MessageBus: Failed to write ${entry.op} to message log:`, error);
+        }
+    }
+    
     /**
      * Получить историю сообщений
      */
@@ -300,6 +559,10 @@ export class MessageBus extends EventEmitter {
             totalMessages: this.messageHistory.length,
             subscribedAgents: this.subscriptions.size,
             totalSubscriptions: Array.from(this.subscriptions.values()).reduce((sum, subs) => sum + subs.length, 0),
+            deadLetters: this.deadLetters.length,
+            pendingRequests: this.pendingRequests.size,
+            transports: this.transports.length,
+            remoteAgents: this.remoteAgents.size,
             messagesByType
         };
     }
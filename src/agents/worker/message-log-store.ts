@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DeadLetter, Message } from './message-bus';
+
+/**
+ * Запись журнала шины сообщений
+ */
+export type MessageLogEntry =
+    | { op: 'message'; message: Message }
+    | { op: 'dead-letter'; deadLetter: DeadLetter };
+
+/**
+ * Хранилище журнала сообщений
+ */
+export interface MessageLogStore {
+    load(): MessageLogEntry[];
+    append(entry: MessageLogEntry): void;
+}
+
+/**
+ * Путь журнала шины относительно корня workspace
+ */
+export const MESSAGE_LOG_PATH = '.cursor/logs/message-bus.jsonl';
+
+const DATE_FIELDS = new Set(['timestamp', 'failedAt', 'createdAt', 'queuedAt', 'startedAt', 'completedAt']);
+
+/**
+ * Reviver для JSON.parse: восстанавливает даты сообщений, сериализованные в строки
+ */
+export function reviveMessageDates(key: string, value: any): any {
+    return DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value;
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const SIZE_CHECK_INTERVAL = 100;
+
+/**
+ * Журнал сообщений в JSONL файле (.cursor/logs/message-bus.jsonl)
+ * При превышении maxBytes остается более новая половина записей
+ */
+export class JournalMessageLogStore implements MessageLogStore {
+    private appendsSinceSizeCheck = 0;
+
+    constructor(private filePath: string, private maxBytes: number = DEFAULT_MAX_BYTES) {}
+
+    load(): MessageLogEntry[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const entries: MessageLogEntry[] = [];
+        for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                entries.push(JSON.parse(line, reviveMessageDates));
+            } catch (error) {
+                // Оборванная запись (падение окна во время записи) пропускается
+            }
+        }
+        return entries;
+    }
+
+    append(entry: MessageLogEntry): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+
+        if (++this.appendsSinceSizeCheck >= SIZE_CHECK_INTERVAL) {
+            this.appendsSinceSizeCheck = 0;
+            this.truncate();
+        }
+    }
+
+    private truncate(): void {
+        if (fs.statSync(this.filePath).size <= this.maxBytes) {
+            return;
+        }
+
+        const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n').filter(line => line.trim());
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, lines.slice(Math.floor(lines.length / 2)).map(line => line + '\n').join(''), 'utf-8');
+        fs.renameSync(tempPath, this.filePath);
+    }
+}
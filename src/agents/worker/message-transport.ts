@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type { Message } from './message-bus';
+import { reviveMessageDates } from './message-log-store';
+
+/**
+ * Канал доставки сообщений MessageBus в другую шину (поток, процесс)
+ * Сообщения передаются в JSON, поэтому payload должен быть сериализуемым
+ */
+export interface MessageTransport {
+    readonly name: string;
+    send(message: Message): void;
+    onMessage(handler: (message: Message) => void): void;
+    onClose(handler: () => void): void;
+    close(): Promise<void>;
+}
+
+/**
+ * Способ запуска удаленных воркеров (настройка cursor-autonomous.swarm.transport)
+ */
+export type TransportKind = 'in-process' | 'worker-thread' | 'ipc';
+
+/**
+ * Общая часть транспортов: подписчики на входящие сообщения и закрытие канала
+ */
+abstract class BaseTransport implements MessageTransport {
+    private messageHandlers: Array<(message: Message) => void> = [];
+    private closeHandlers: Array<() => void> = [];
+    protected closed = false;
+
+    constructor(readonly name: string) {}
+
+    abstract send(message: Message): void;
+    abstract close(): Promise<void>;
+
+    onMessage(handler: (message: Message) => void): void {
+        this.messageHandlers.push(handler);
+    }
+
+    onClose(handler: () => void): void {
+        this.closeHandlers.push(handler);
+    }
+
+    protected receive(data: string): void {
+        let message: Message;
+        try {
+            message = JSON.parse(data, reviveMessageDates);
+        } catch (error) {
+            console.error(`MessageTransport: Malformed message on ${this.name}:`, error);
+            return;
+        }
+        this.messageHandlers.forEach(handler => handler(message));
+    }
+
+    protected markClosed(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.closeHandlers.forEach(handler => handler());
+    }
+}
+
+/**
+ * Транспорт внутри одного потока: пара связанных концов
+ * Сообщения сериализуются так же, как в остальных транспортах, и доставляются асинхронно
+ */
+export class InProcessTransport extends BaseTransport {
+    private peer?: InProcessTransport;
+
+    static createPair(name: string = 'in-process'): [InProcessTransport, InProcessTransport] {
+        const left = new InProcessTransport(name);
+        const right = new InProcessTransport(name);
+        left.peer = right;
+        right.peer = left;
+        return [left, right];
+    }
+
+    send(message: Message): void {
+        const peer = this.peer;
+        if (this.closed || !peer) {
+            return;
+        }
+        const data = JSON.stringify(message);
+        setImmediate(() => peer.receive(data));
+    }
+
+    async close(): Promise<void> {
+        const peer = this.peer;
+        this.peer = undefined;
+        this.markClosed();
+        peer?.close();
+    }
+}
+
+/**
+ * Порт worker_threads: Worker со стороны extension host, parentPort или MessagePort со стороны воркера
+ */
+export interface WorkerPort {
+    postMessage(value: any): void;
+    on(event: 'message', listener: (value: any) => void): any;
+    once(event: 'close' | 'exit', listener: () => void): any;
+    terminate?(): Promise<number>;
+    close?(): void;
+}
+
+/**
+ * Транспорт между extension host и worker_threads
+ */
+export class WorkerThreadTransport extends BaseTransport {
+    constructor(private port: WorkerPort, name: string = 'worker-thread') {
+        super(name);
+        port.on('message', data => {
+            if (typeof data === 'string') {
+                this.receive(data);
+            }
+        });
+        // Worker сообщает о завершении через exit, MessagePort - через close
+        port.once(port.terminate ? 'exit' : 'close', () => this.markClosed());
+    }
+
+    send(message: Message): void {
+        if (!this.closed) {
+            this.port.postMessage(JSON.stringify(message));
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.markClosed();
+        if (this.port.terminate) {
+            await this.port.terminate();
+        } else {
+            this.port.close?.();
+        }
+    }
+}
+
+/**
+ * Транспорт через локальный сокет (Unix socket / named pipe): JSON сообщения, разделенные переводом строки
+ */
+export class IpcTransport extends BaseTransport {
+    private buffer = '';
+
+    constructor(private socket: net.Socket, name: string = 'ipc') {
+        super(name);
+        socket.setEncoding('utf-8');
+        socket.on('data', (chunk: string) => this.onData(chunk));
+        socket.on('close', () => this.markClosed());
+        socket.on('error', error => console.error(`IpcTransport: Socket error on ${this.name}:`, error));
+    }
+
+    /**
+     * Подключиться к сокету IpcServer
+     */
+    static connect(socketPath: string, name?: string): Promise<IpcTransport> {
+        return new Promise((resolve, reject) => {
+            const socket = net.createConnection(socketPath);
+            socket.once('error', reject);
+            socket.once('connect', () => {
+                socket.off('error', reject);
+                resolve(new IpcTransport(socket, name));
+            });
+        });
+    }
+
+    send(message: Message): void {
+        if (!this.closed) {
+            this.socket.write(JSON.stringify(message) + '\n');
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.markClosed();
+        await new Promise<void>(resolve => this.socket.end(() => resolve()));
+        this.socket.destroy();
+    }
+
+    private onData(chunk: string): void {
+        this.buffer += chunk;
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.slice(0, newline);
+            this.buffer = this.buffer.slice(newline + 1);
+            if (line.trim()) {
+                this.receive(line);
+            }
+        }
+    }
+}
+
+/**
+ * Сервер локального сокета: каждое подключение становится отдельным IpcTransport
+ */
+export class IpcServer {
+    private connectionHandlers: Array<(transport: IpcTransport) => void> = [];
+
+    private constructor(private server: net.Server, readonly socketPath: string) {
+        server.on('connection', socket => {
+            const transport = new IpcTransport(socket, `ipc:${path.basename(socketPath)}`);
+            this.connectionHandlers.forEach(handler => handler(transport));
+        });
+    }
+
+    static listen(socketPath: string): Promise<IpcServer> {
+        // Сокет от упавшего процесса мешает listen
+        if (process.platform !== 'win32' && fs.existsSync(socketPath)) {
+            fs.unlinkSync(socketPath);
+        }
+
+        return new Promise((resolve, reject) => {
+            const server = net.createServer();
+            server.once('error', reject);
+            server.listen(socketPath, () => {
+                server.off('error', reject);
+                resolve(new IpcServer(server, socketPath));
+            });
+        });
+    }
+
+    onConnection(handler: (transport: IpcTransport) => void): void {
+        this.connectionHandlers.push(handler);
+    }
+
+    close(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+/**
+ * Путь сокета для воркера: named pipe в Windows, файл во временной папке в остальных ОС
+ */
+export function getIpcSocketPath(id: string): string {
+    const name = `cursor-autonomous-${process.pid}-${id.replace(/[^\w-]/g, '_')}`;
+    return process.platform === 'win32'
+        ? `\\\\.\\pipe\\${name}`
+        : path.join(os.tmpdir(), `${name}.sock`);
+}
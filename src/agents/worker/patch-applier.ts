@@ -0,0 +1,525 @@
+/**
+ * Применение патчей к тексту файла: unified diff и правки search/replace
+ * Ханки ищутся сначала точно у заявленной строки, затем со смещением по файлу,
+ * без учета пробелов и с отбрасыванием крайних строк контекста (fuzz, как в GNU patch)
+ */
+
+/**
+ * Правка search/replace: фрагмент search заменяется на replace
+ */
+export interface SearchReplaceEdit {
+    search: string;
+    replace: string;
+}
+
+/**
+ * Строка ханка unified diff
+ */
+export interface PatchLine {
+    kind: ' ' | '-' | '+';
+    text: string;
+}
+
+/**
+ * Ханк unified diff; oldStart = 0, если в заголовке нет номеров строк
+ */
+export interface PatchHunk {
+    header: string;
+    oldStart: number;
+    lines: PatchLine[];
+}
+
+/**
+ * Патч одного файла из unified diff
+ */
+export interface FilePatch {
+    oldPath?: string;
+    newPath?: string;
+    hunks: PatchHunk[];
+}
+
+/**
+ * Результат применения одного ханка или правки
+ */
+export interface HunkResult {
+    index: number;
+    header: string;
+    applied: boolean;
+    line?: number;
+    offset?: number;
+    fuzz?: number;
+    reason?: string;
+}
+
+/**
+ * Результат применения патча к тексту
+ */
+export interface PatchResult {
+    content: string;
+    hunks: HunkResult[];
+    failed: HunkResult[];
+}
+
+/**
+ * Ханки, не примененные к файлу
+ */
+export interface PatchFailure {
+    path: string;
+    hunks: HunkResult[];
+}
+
+/**
+ * Патч не удалось применить: содержит неприменившиеся ханки по файлам
+ */
+export class PatchApplyError extends Error {
+    constructor(public readonly failures: PatchFailure[]) {
+        super(formatPatchFailures(failures));
+        this.name = 'PatchApplyError';
+    }
+}
+
+const MAX_FUZZ = 2;
+const MAX_LCS_CELLS = 4000000;
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/**
+ * Разбор unified diff (одного или нескольких файлов)
+ * Допускаются заголовки ханков без номеров строк ("@@ ... @@"), которые часто выдают модели
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+    const lines = diff.replace(/\r\n/g, '\n').split('\n');
+    const patches: FilePatch[] = [];
+    let current: FilePatch | undefined;
+    let hunk: PatchHunk | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.startsWith('diff --git ') || (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ '))) {
+            if (line.startsWith('diff --git ')) {
+                current = undefined;
+                hunk = undefined;
+                continue;
+            }
+            current = { oldPath: parseDiffPath(line.substring(4)), newPath: parseDiffPath(lines[i + 1].substring(4)), hunks: [] };
+            patches.push(current);
+            hunk = undefined;
+            i++;
+            continue;
+        }
+
+        if (line.startsWith('@@')) {
+            if (!current) {
+                current = { hunks: [] };
+                patches.push(current);
+            }
+            const match = HUNK_HEADER.exec(line);
+            hunk = { header: line, oldStart: match ? parseInt(match[1], 10) : 0, lines: [] };
+            current.hunks.push(hunk);
+            continue;
+        }
+
+        if (!hunk || line.startsWith('\\')) {
+            continue;
+        }
+
+        const kind = line[0];
+        if (kind === ' ' || kind === '-' || kind === '+') {
+            hunk.lines.push({ kind, text: line.substring(1) });
+        } else if (line === '') {
+            // Модели и редакторы часто срезают пробел у пустой строки контекста
+            hunk.lines.push({ kind: ' ', text: '' });
+        }
+    }
+
+    for (const patch of patches) {
+        for (const parsed of patch.hunks) {
+            // Пустые строки в конце diff - артефакт split, а не контекст
+            while (parsed.lines.length > 0 && parsed.lines[parsed.lines.length - 1].kind === ' ' && parsed.lines[parsed.lines.length - 1].text === '') {
+                parsed.lines.pop();
+            }
+        }
+    }
+
+    return patches.filter(patch => patch.hunks.length > 0 || patch.oldPath !== patch.newPath);
+}
+
+/**
+ * Применение ханков к тексту файла
+ * Примененные ханки сохраняются, даже если часть ханков не нашлась - решение о записи за вызывающим
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): PatchResult {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(eol);
+    const results: HunkResult[] = [];
+    let offset = 0;
+
+    hunks.forEach((hunk, index) => {
+        const result = applyHunk(lines, hunk, offset);
+        results.push({ index: index + 1, header: hunk.header, ...result });
+        if (result.applied && hunk.oldStart > 0 && result.line !== undefined) {
+            offset = result.line - hunk.oldStart + countDelta(hunk);
+        }
+    });
+
+    return { content: lines.join(eol), hunks: results, failed: results.filter(result => !result.applied) };
+}
+
+/**
+ * Применение unified diff к тексту одного файла
+ */
+export function applyUnifiedDiff(content: string, diff: string): PatchResult {
+    const patches = parseUnifiedDiff(diff);
+    const hunks = patches.reduce<PatchHunk[]>((all, patch) => all.concat(patch.hunks), []);
+
+    if (hunks.length === 0) {
+        const failed: HunkResult = { index: 1, header: '', applied: false, reason: 'в diff нет ханков (@@)' };
+        return { content, hunks: [failed], failed: [failed] };
+    }
+
+    return applyHunks(content, hunks);
+}
+
+/**
+ * Применение правок search/replace: точное вхождение, иначе построчно без учета отступов
+ */
+export function applySearchReplace(content: string, edits: SearchReplaceEdit[]): PatchResult {
+    const results: HunkResult[] = [];
+    let current = content;
+
+    edits.forEach((edit, i) => {
+        const header = `edit ${i + 1}: ${firstLine(edit.search)}`;
+        if (typeof edit.search !== 'string' || typeof edit.replace !== 'string' || edit.search.length === 0) {
+            results.push({ index: i + 1, header, applied: false, reason: 'search и replace должны быть непустыми строками' });
+            return;
+        }
+
+        const index = current.indexOf(edit.search);
+        if (index !== -1) {
+            if (current.indexOf(edit.search, index + 1) !== -1) {
+                results.push({ index: i + 1, header, applied: false, reason: 'фрагмент встречается несколько раз, добавь контекст' });
+                return;
+            }
+            current = current.substring(0, index) + edit.replace + current.substring(index + edit.search.length);
+            results.push({ index: i + 1, header, applied: true, line: lineAt(current, index), fuzz: 0 });
+            return;
+        }
+
+        const hunk: PatchHunk = {
+            header,
+            oldStart: 0,
+            lines: [
+                ...splitLines(edit.search).map(text => ({ kind: '-' as const, text })),
+                ...splitLines(edit.replace).map(text => ({ kind: '+' as const, text }))
+            ]
+        };
+        const eol = current.includes('\r\n') ? '\r\n' : '\n';
+        const lines = current.split(eol);
+        const result = applyHunk(lines, hunk, 0);
+        if (result.applied) {
+            current = lines.join(eol);
+        }
+        results.push({ index: i + 1, header, ...result });
+    });
+
+    return { content: current, hunks: results, failed: results.filter(result => !result.applied) };
+}
+
+/**
+ * Применение патча изменения файла: сначала diff, затем правки search/replace
+ */
+export function applyPatch(content: string, patch: { diff?: string; edits?: SearchReplaceEdit[] }): PatchResult {
+    let result: PatchResult = { content, hunks: [], failed: [] };
+
+    if (patch.diff) {
+        result = applyUnifiedDiff(result.content, patch.diff);
+    }
+    if (patch.edits && patch.edits.length > 0) {
+        const edits = applySearchReplace(result.content, patch.edits);
+        result = {
+            content: edits.content,
+            hunks: result.hunks.concat(edits.hunks),
+            failed: result.failed.concat(edits.failed)
+        };
+    }
+
+    return result;
+}
+
+/**
+ * Ханки построчной разницы двух версий текста (LCS после отсечения общих начала и конца)
+ */
+export function diffLines(oldText: string, newText: string, context: number = 3): PatchHunk[] {
+    const oldLines = oldText.split(/\r?\n/);
+    const newLines = newText.split(/\r?\n/);
+
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const ops: PatchLine[] = oldLines.slice(0, prefix).map(text => ({ kind: ' ' as const, text }));
+    ops.push(...diffMiddle(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix)));
+    ops.push(...oldLines.slice(oldLines.length - suffix).map(text => ({ kind: ' ' as const, text })));
+
+    // Группировка изменений в ханки с context строками контекста вокруг
+    const hunks: PatchHunk[] = [];
+    let oldLine = 0;
+    let newLine = 0;
+    let i = 0;
+    while (i < ops.length) {
+        if (ops[i].kind === ' ') {
+            oldLine++;
+            newLine++;
+            i++;
+            continue;
+        }
+
+        const start = Math.max(0, i - context);
+        let end = i;
+        let lastChange = i;
+        while (end < ops.length && end - lastChange <= context * 2) {
+            if (ops[end].kind !== ' ') {
+                lastChange = end;
+            }
+            end++;
+        }
+        end = Math.min(ops.length, lastChange + context + 1);
+
+        const lines = ops.slice(start, end);
+        const oldStart = oldLine - (i - start) + 1;
+        const newStart = newLine - (i - start) + 1;
+        const oldCount = lines.filter(line => line.kind !== '+').length;
+        const newCount = lines.filter(line => line.kind !== '-').length;
+        hunks.push({ header: `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, oldStart, lines });
+
+        for (let j = i; j < end; j++) {
+            if (ops[j].kind !== '+') oldLine++;
+            if (ops[j].kind !== '-') newLine++;
+        }
+        i = end;
+    }
+
+    return hunks;
+}
+
+/**
+ * Перенос изменения ours, сделанного поверх base, на текущее содержимое файла current
+ */
+export function rebaseContent(base: string, ours: string, current: string): PatchResult {
+    if (current === base || current === ours) {
+        return { content: ours, hunks: [], failed: [] };
+    }
+    return applyHunks(current, diffLines(base, ours));
+}
+
+/**
+ * Изменение задано патчем, а не полным содержимым
+ */
+export function isPatchChange(change: { diff?: string; edits?: SearchReplaceEdit[] }): boolean {
+    return Boolean(change.diff) || (Array.isArray(change.edits) && change.edits.length > 0);
+}
+
+/**
+ * Текстовый отчет о неприменившихся ханках для логов и ответа модели
+ */
+export function formatPatchFailures(failures: PatchFailure[]): string {
+    const blocks = failures.map(failure => {
+        const hunks = failure.hunks
+            .map(hunk => `  #${hunk.index} ${hunk.header}`.trimEnd() + ` - ${hunk.reason || 'не применен'}`)
+            .join('\n');
+        return `${failure.path}:\n${hunks}`;
+    });
+    return `Не удалось применить ханков: ${failures.reduce((sum, failure) => sum + failure.hunks.length, 0)}\n${blocks.join('\n')}`;
+}
+
+function applyHunk(lines: string[], hunk: PatchHunk, offset: number): Omit<HunkResult, 'index' | 'header'> {
+    const oldLines = hunk.lines.filter(line => line.kind !== '+');
+
+    if (oldLines.length === 0) {
+        // Чистая вставка без контекста возможна только по номеру строки
+        if (hunk.oldStart === 0 && !HUNK_HEADER.test(hunk.header)) {
+            return { applied: false, reason: 'ханк без контекста и номера строки' };
+        }
+        const at = Math.min(Math.max(hunk.oldStart + offset, 0), lines.length);
+        lines.splice(at, 0, ...hunk.lines.map(line => line.text));
+        return { applied: true, line: at + 1, offset: 0, fuzz: 0 };
+    }
+
+    const leading = countContext(hunk.lines);
+    const trailing = countContext([...hunk.lines].reverse());
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+        const top = Math.min(fuzz, leading);
+        const bottom = Math.min(fuzz, trailing);
+        if (fuzz > 0 && top === 0 && bottom === 0) {
+            break;
+        }
+        if (top + bottom >= oldLines.length) {
+            break;
+        }
+
+        const trimmed = hunk.lines.slice(top, hunk.lines.length - bottom);
+        const pattern = trimmed.filter(line => line.kind !== '+').map(line => line.text);
+        const expected = hunk.oldStart > 0 ? hunk.oldStart - 1 + offset + top : -1;
+
+        for (const normalize of [false, true]) {
+            const found = locate(lines, pattern, expected, normalize);
+            if (found.ambiguous) {
+                return { applied: false, reason: 'фрагмент встречается несколько раз, а номер строки не указан' };
+            }
+            if (found.at === undefined) {
+                continue;
+            }
+
+            lines.splice(found.at, pattern.length, ...buildReplacement(lines, found.at, trimmed));
+            return {
+                applied: true,
+                line: found.at + 1 - top,
+                offset: expected >= 0 ? found.at - expected : 0,
+                fuzz: fuzz + (normalize ? 1 : 0)
+            };
+        }
+    }
+
+    return { applied: false, reason: 'контекст не найден в файле' };
+}
+
+/**
+ * Поиск блока строк: ближайшее к ожидаемой позиции вхождение, без позиции - только единственное
+ */
+function locate(lines: string[], pattern: string[], expected: number, normalize: boolean): { at?: number; ambiguous?: boolean } {
+    const equals = normalize
+        ? (a: string, b: string) => normalizeWhitespace(a) === normalizeWhitespace(b)
+        : (a: string, b: string) => a === b;
+    const matches: number[] = [];
+
+    for (let start = 0; start + pattern.length <= lines.length; start++) {
+        let matched = true;
+        for (let j = 0; j < pattern.length; j++) {
+            if (!equals(lines[start + j], pattern[j])) {
+                matched = false;
+                break;
+            }
+        }
+        if (matched) {
+            matches.push(start);
+        }
+    }
+
+    if (matches.length === 0) {
+        return {};
+    }
+    if (expected < 0) {
+        return matches.length === 1 ? { at: matches[0] } : { ambiguous: true };
+    }
+
+    return { at: matches.reduce((best, at) => Math.abs(at - expected) < Math.abs(best - expected) ? at : best) };
+}
+
+/**
+ * Новые строки ханка; строки контекста берутся из файла, чтобы не менять их отступы
+ */
+function buildReplacement(lines: string[], at: number, hunkLines: PatchLine[]): string[] {
+    const replacement: string[] = [];
+    let cursor = at;
+
+    for (const line of hunkLines) {
+        if (line.kind === ' ') {
+            replacement.push(lines[cursor++]);
+        } else if (line.kind === '-') {
+            cursor++;
+        } else {
+            replacement.push(line.text);
+        }
+    }
+
+    return replacement;
+}
+
+/**
+ * Построчный LCS для измененной середины файла; слишком большие фрагменты заменяются целиком
+ */
+function diffMiddle(oldLines: string[], newLines: string[]): PatchLine[] {
+    const removed = oldLines.map(text => ({ kind: '-' as const, text }));
+    const added = newLines.map(text => ({ kind: '+' as const, text }));
+    if (oldLines.length === 0 || newLines.length === 0 || oldLines.length * newLines.length > MAX_LCS_CELLS) {
+        return [...removed, ...added];
+    }
+
+    const n = oldLines.length;
+    const m = newLines.length;
+    const lengths: Uint32Array[] = [];
+    for (let i = 0; i <= n; i++) {
+        lengths.push(new Uint32Array(m + 1));
+    }
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i][j] = oldLines[i] === newLines[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const ops: PatchLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (oldLines[i] === newLines[j]) {
+            ops.push({ kind: ' ', text: oldLines[i++] });
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            ops.push({ kind: '-', text: oldLines[i++] });
+        } else {
+            ops.push({ kind: '+', text: newLines[j++] });
+        }
+    }
+    ops.push(...removed.slice(i), ...added.slice(j));
+    return ops;
+}
+
+function countContext(lines: PatchLine[]): number {
+    let count = 0;
+    while (count < lines.length && lines[count].kind === ' ') {
+        count++;
+    }
+    return count;
+}
+
+function countDelta(hunk: PatchHunk): number {
+    return hunk.lines.reduce((delta, line) => delta + (line.kind === '+' ? 1 : line.kind === '-' ? -1 : 0), 0);
+}
+
+function parseDiffPath(header: string): string | undefined {
+    const filePath = header.split('\t')[0].trim();
+    if (filePath === '/dev/null') {
+        return undefined;
+    }
+    return filePath.replace(/^[ab]\//, '');
+}
+
+function normalizeWhitespace(text: string): string {
+    return text.trim().replace(/\s+/g, ' ');
+}
+
+function splitLines(text: string): string[] {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    if (lines.length > 1 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
+
+function firstLine(text: string): string {
+    const line = (text || '').trim().split('\n')[0];
+    return line.length > 60 ? `${line.substring(0, 57)}...` : line;
+}
+
+function lineAt(text: string, index: number): number {
+    return text.substring(0, index).split('\n').length;
+}
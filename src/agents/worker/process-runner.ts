@@ -0,0 +1,92 @@
+import { spawn } from 'child_process';
+
+/**
+ * Результат внешнего процесса (тесты, линтеры)
+ */
+export interface ProcessResult {
+    exitCode: number | null;
+    stdout: string;
+    output: string;
+    timedOut: boolean;
+    durationMs: number;
+    // Команда не найдена (ENOENT)
+    notFound?: boolean;
+}
+
+const KILL_GRACE_MS = 5000;
+const MAX_OUTPUT_CHARS = 1024 * 1024;
+
+/**
+ * Запуск процесса с таймаутом; по таймауту останавливается вся группа процессов (воркеры jest и т.п.)
+ * Код выхода null - процесс не запустился (нет команды) или был остановлен
+ */
+export function runProcess(command: { command: string; args: string[]; env?: Record<string, string> }, cwd: string, timeoutMs: number): Promise<ProcessResult> {
+    const startedAt = Date.now();
+    return new Promise(resolve => {
+        let stdout = '';
+        let output = '';
+        let timedOut = false;
+        let killTimer: NodeJS.Timeout | undefined;
+
+        const child = spawn(command.command, command.args, {
+            cwd,
+            env: { ...process.env, CI: 'true', FORCE_COLOR: '0', NO_COLOR: '1', ...command.env },
+            shell: process.platform === 'win32',
+            detached: process.platform !== 'win32'
+        });
+
+        const append = (text: string, current: string) => {
+            const next = current + text;
+            return next.length > MAX_OUTPUT_CHARS ? next.slice(next.length - MAX_OUTPUT_CHARS) : next;
+        };
+        child.stdout?.on('data', (chunk: Buffer) => {
+            stdout = append(chunk.toString(), stdout);
+            output = append(chunk.toString(), output);
+        });
+        child.stderr?.on('data', (chunk: Buffer) => {
+            output = append(chunk.toString(), output);
+        });
+
+        const kill = (signal: NodeJS.Signals) => {
+            try {
+                if (child.pid && process.platform !== 'win32') {
+                    process.kill(-child.pid, signal);
+                } else {
+                    child.kill(signal);
+                }
+            } catch (error) {
+                // Процесс уже завершился
+            }
+        };
+        const timer = setTimeout(() => {
+            timedOut = true;
+            kill('SIGTERM');
+            killTimer = setTimeout(() => kill('SIGKILL'), KILL_GRACE_MS);
+        }, timeoutMs);
+
+        let settled = false;
+        const finish = (exitCode: number | null, error?: NodeJS.ErrnoException) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            if (killTimer) {
+                clearTimeout(killTimer);
+            }
+            if (error) {
+                output += `\n${error.message}`;
+            }
+            resolve({
+                exitCode,
+                stdout,
+                output,
+                timedOut,
+                durationMs: Date.now() - startedAt,
+                notFound: error?.code === 'ENOENT' || undefined
+            });
+        };
+        child.on('error', error => finish(null, error));
+        child.on('close', code => finish(code));
+    });
+}
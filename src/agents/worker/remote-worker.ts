@@ -0,0 +1,163 @@
+import * as path from 'path';
+import { ChildProcess, fork } from 'child_process';
+import { Worker } from 'worker_threads';
+import type { SolutionOption } from '../local-agent';
+import { ResponseParser } from '../agent-response-parser';
+import { Message, MessageBus, MessageType, getGlobalMessageBus } from './message-bus';
+import {
+    InProcessTransport,
+    IpcServer,
+    MessageTransport,
+    TransportKind,
+    WorkerThreadTransport,
+    getIpcSocketPath
+} from './message-transport';
+import {
+    RemoteOperationRequest,
+    RemoteOperationResponse,
+    WORKER_ID_ENV,
+    WORKER_SOCKET_ENV,
+    serveRemoteOperations
+} from './worker-host';
+
+const WORKER_HOST_SCRIPT = path.join(__dirname, 'worker-host.js');
+const STARTUP_TIMEOUT_MS = 10000;
+const CALL_TIMEOUT_MS = 30000;
+
+/**
+ * Отправитель запросов к воркерам в шине extension host
+ */
+const HOST_AGENT_ID = 'swarm-host';
+
+/**
+ * Удаленный воркер: worker-host, запущенный в worker_threads, отдельном процессе (ipc) или
+ * в том же потоке (in-process), и связанный с шиной extension host транспортом
+ * Операции вызываются запросами COLLABORATION_REQUEST через MessageBus.request
+ */
+export class RemoteWorker implements ResponseParser {
+    private transport?: MessageTransport;
+    private server?: IpcServer;
+    private child?: ChildProcess;
+    private inProcessPair?: [InProcessTransport, InProcessTransport];
+    private ready = false;
+
+    constructor(
+        readonly workerId: string,
+        private kind: TransportKind,
+        private bus: MessageBus = getGlobalMessageBus()
+    ) {}
+
+    /**
+     * Запустить воркер и дождаться его AGENT_STARTED
+     */
+    async start(): Promise<void> {
+        this.transport = await this.createTransport();
+        // Сообщения воркера приходят не раньше следующего тика, поэтому подписка успевает
+        const started = this.waitForStart();
+        this.bus.attachTransport(this.transport);
+        this.transport.onClose(() => {
+            if (this.ready) {
+                console.warn(`RemoteWorker: Worker ${this.workerId} disconnected`);
+            }
+            this.ready = false;
+        });
+
+        if (this.kind === 'in-process') {
+            const [, remote] = this.inProcessPair!;
+            const remoteBus = new MessageBus();
+            remoteBus.attachTransport(remote);
+            await serveRemoteOperations(remoteBus, this.workerId);
+        }
+
+        await started;
+        this.ready = true;
+        console.log(`RemoteWorker: Worker ${this.workerId} started (${this.kind})`);
+    }
+
+    /**
+     * Остановить воркер
+     */
+    async stop(): Promise<void> {
+        this.ready = false;
+        await this.transport?.close();
+        await this.server?.close();
+        this.child?.kill();
+        this.transport = undefined;
+        this.server = undefined;
+        this.child = undefined;
+    }
+
+    isAvailable(): boolean {
+        return this.ready;
+    }
+
+    /**
+     * Выполнить операцию в воркере
+     */
+    async call<T = any>(operation: string, args: any, timeout: number = CALL_TIMEOUT_MS): Promise<T> {
+        const response = await this.bus.request<RemoteOperationRequest, RemoteOperationResponse>(
+            this.workerId,
+            MessageType.COLLABORATION_REQUEST,
+            { operation, args },
+            timeout,
+            HOST_AGENT_ID
+        );
+        if (response.error) {
+            throw new Error(`Remote operation ${operation} failed: ${response.error}`);
+        }
+        return response.result as T;
+    }
+
+    parseOptions(text: string, agentName: string): Promise<Omit<SolutionOption, 'id'>[]> {
+        return this.call('parseOptions', { text, agentName });
+    }
+
+    private async createTransport(): Promise<MessageTransport> {
+        switch (this.kind) {
+            case 'in-process':
+                this.inProcessPair = InProcessTransport.createPair(`in-process:${this.workerId}`);
+                return this.inProcessPair[0];
+
+            case 'worker-thread': {
+                const worker = new Worker(WORKER_HOST_SCRIPT, { workerData: { remoteWorkerId: this.workerId } });
+                worker.on('error', error => console.error(`RemoteWorker: Worker ${this.workerId} failed:`, error));
+                return new WorkerThreadTransport(worker, `worker-thread:${this.workerId}`);
+            }
+
+            case 'ipc': {
+                const socketPath = getIpcSocketPath(this.workerId);
+                this.server = await IpcServer.listen(socketPath);
+                const connected = new Promise<MessageTransport>((resolve, reject) => {
+                    const timer = setTimeout(() => reject(new Error(`Worker ${this.workerId} did not connect to ${socketPath}`)), STARTUP_TIMEOUT_MS);
+                    this.server!.onConnection(transport => {
+                        clearTimeout(timer);
+                        resolve(transport);
+                    });
+                });
+                // В extension host process.execPath - Electron, который работает как Node с ELECTRON_RUN_AS_NODE
+                this.child = fork(WORKER_HOST_SCRIPT, [], {
+                    env: { ...process.env, ELECTRON_RUN_AS_NODE: '1', [WORKER_ID_ENV]: this.workerId, [WORKER_SOCKET_ENV]: socketPath }
+                });
+                this.child.on('exit', code => console.log(`RemoteWorker: Process of ${this.workerId} exited with code ${code}`));
+                return connected;
+            }
+        }
+    }
+
+    private waitForStart(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const onMessage = (message: Message) => {
+                if (message.type === MessageType.AGENT_STARTED && message.from === this.workerId) {
+                    clearTimeout(timer);
+                    this.bus.off('message', onMessage);
+                    resolve();
+                }
+            };
+            const timer = setTimeout(() => {
+                this.bus.off('message', onMessage);
+                reject(new Error(`Worker ${this.workerId} did not start in ${STARTUP_TIMEOUT_MS}ms`));
+            }, STARTUP_TIMEOUT_MS);
+            this.bus.on('message', onMessage);
+        });
+    }
+}
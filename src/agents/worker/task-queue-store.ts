@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { QueuedTask, TaskResult } from './task-queue';
+
+/**
+ * Запись журнала очереди задач
+ * snapshot - свернутое состояние очереди после компактификации
+ */
+export type TaskQueueJournalEntry =
+    | { op: 'enqueue'; task: QueuedTask }
+    | { op: 'claim'; taskId: string; agentId: string; startedAt: Date }
+    | { op: 'complete'; result: TaskResult }
+    | { op: 'requeue'; task: QueuedTask }
+    | { op: 'cancel'; taskId: string }
+    | { op: 'remove'; taskIds: string[] }
+    | { op: 'snapshot'; pending: QueuedTask[]; processing: QueuedTask[]; completed: TaskResult[] };
+
+/**
+ * Хранилище состояния очереди задач
+ */
+export interface TaskQueueStore {
+    load(): TaskQueueJournalEntry[];
+    append(entry: TaskQueueJournalEntry): void;
+    compact(entries: TaskQueueJournalEntry[]): void;
+}
+
+const DATE_FIELDS = new Set(['createdAt', 'queuedAt', 'startedAt', 'completedAt', 'lastActivity', 'timestamp']);
+
+/**
+ * Журнал очереди в JSONL файле (.cursor/config/task-queue.jsonl)
+ * Каждое изменение дописывается отдельной строкой синхронно, поэтому после падения окна
+ * теряется максимум недописанная последняя строка; компактификация пишет снимок во временный
+ * файл и атомарно заменяет им журнал
+ */
+export class JournalTaskQueueStore implements TaskQueueStore {
+    constructor(private filePath: string) {}
+
+    load(): TaskQueueJournalEntry[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n');
+        const entries: TaskQueueJournalEntry[] = [];
+
+        lines.forEach((line, index) => {
+            if (!line.trim()) {
+                return;
+            }
+            try {
+                entries.push(JSON.parse(line, (key, value) =>
+                    DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value));
+            } catch (error) {
+                // Оборванная последняя строка - запись, прерванная падением; остальное - повреждение журнала
+                if (index < lines.length - 1) {
+                    console.warn(`TaskQueueStore: Skipping corrupted journal line ${index + 1} in ${this.filePath}`);
+                }
+            }
+        });
+
+        return entries;
+    }
+
+    append(entry: TaskQueueJournalEntry): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+    }
+
+    compact(entries: TaskQueueJournalEntry[]): void {
+        const tempPath = `${this.filePath}.tmp`;
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(tempPath, entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf-8');
+        fs.renameSync(tempPath, this.filePath);
+    }
+}
@@ -1,5 +1,8 @@
 import { Task } from '../../orchestrator/orchestrator';
+import { QualityReport } from '../../quality/quality-controller';
 import { EventEmitter } from 'events';
+import { TaskQueueJournalEntry, TaskQueueStore } from './task-queue-store';
+import { AgentPerformanceSource, ScoringSchedulerStrategy, SchedulingContext, TaskSchedulerStrategy } from './task-scheduler';
 
 /**
  * Приоритет задачи
@@ -34,6 +37,9 @@ export interface TaskResult {
     duration: number;
     error?: string;
     filesChanged?: string[];
+    completedAt?: Date;
+    taskType?: Task['type'];
+    qualityReport?: QualityReport; // Отчет проверки качества примененных изменений
 }
 
 /**
@@ -46,17 +52,30 @@ export interface AgentCapabilities {
     preferredTasks: string[];   // Типы задач, которые предпочитает
 }
 
+const COMPACT_AFTER_ENTRIES = 500;
+// Вес априорной оценки успешности (внешний источник или 0.5) относительно собственной истории очереди
+const SUCCESS_PRIOR_WEIGHT = 2;
+
 /**
  * Приоритетная очередь задач для автономных агентов
  * Реализует Swarm coordination - агенты сами выбирают задачи
+ * С хранилищем (TaskQueueStore) каждое изменение пишется в журнал, и очередь переживает
+ * перезагрузку окна: задачи, прерванные в processing, возвращаются в очередь или
+ * помечаются проваленными, если попытки исчерпаны
+ * Выбор задачи для агента делегируется стратегии планировщика (TaskSchedulerStrategy)
  */
 export class TaskQueue extends EventEmitter {
     private queues: Map<TaskPriority, QueuedTask[]>;
     private processing: Map<string, QueuedTask>; // taskId -> task
     private completed: Map<string, TaskResult>;
     private agentCapabilities: Map<string, AgentCapabilities>; // agentId -> capabilities
+    private store?: TaskQueueStore;
+    private entriesSinceCompaction = 0;
+    private scheduler: TaskSchedulerStrategy;
+    private performanceSource?: AgentPerformanceSource;
+    private outcomes: Map<string, { successes: number; total: number }> = new Map(); // `${agentId}:${taskType}`
     
-    constructor() {
+    constructor(store?: TaskQueueStore, scheduler: TaskSchedulerStrategy = new ScoringSchedulerStrategy()) {
         super();
         
         this.queues = new Map([
@@ -69,6 +88,12 @@ export class TaskQueue extends EventEmitter {
         this.processing = new Map();
         this.completed = new Map();
         this.agentCapabilities = new Map();
+        this.scheduler = scheduler;
+        
+        if (store) {
+            this.store = store;
+            this.restore();
+        }
     }
     
     /**
@@ -89,13 +114,49 @@ export class TaskQueue extends EventEmitter {
         }
     }
     
+    /**
+     * Сменить стратегию планировщика
+     */
+    setScheduler(scheduler: TaskSchedulerStrategy): void {
+        this.scheduler = scheduler;
+        console.log(`TaskQueue: Using ${scheduler.name} scheduler`);
+    }
+    
+    /**
+     * Подключить внешний источник истории агентов (успешность, стоимость модели)
+     */
+    setPerformanceSource(source: AgentPerformanceSource): void {
+        this.performanceSource = source;
+    }
+    
+    /**
+     * Успешность агента по типу задач (0-1): собственная история очереди, сглаженная
+     * априорной оценкой внешнего источника
+     */
+    getSuccessRate(agentId: string, taskType: Task['type']): number {
+        const prior = this.performanceSource?.getSuccessRate?.(agentId, taskType) ?? 0.5;
+        const outcome = this.outcomes.get(`${agentId}:${taskType}`);
+        if (!outcome) {
+            return prior;
+        }
+        return (outcome.successes + prior * SUCCESS_PRIOR_WEIGHT) / (outcome.total + SUCCESS_PRIOR_WEIGHT);
+    }
+    
     /**
      * Добавить задачу в очередь
+     * dependsOn должен ссылаться на задачи, уже известные очереди; если зависимость уже провалена,
+     * задача сразу помечается заблокированной
      */
     async enqueue(
         task: Omit<Task, 'id' | 'status' | 'createdAt'>,
         priority: TaskPriority = TaskPriority.MEDIUM
     ): Promise<QueuedTask> {
+        for (const dependencyId of task.dependsOn || []) {
+            if (!this.findQueuedTask(dependencyId) && !this.completed.has(dependencyId)) {
+                throw new Error(`TaskQueue: Unknown dependency ${dependencyId}`);
+            }
+        }
+        
         const queuedTask: QueuedTask = {
             ...task as Task,
             id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -112,6 +173,7 @@ export class TaskQueue extends EventEmitter {
             queue.push(queuedTask);
             this.sortQueue(priority);
         }
+        this.record({ op: 'enqueue', task: queuedTask });
         
         console.log(`TaskQueue: Enqueued task ${queuedTask.id} with priority ${priority}`);
         
@@ -123,6 +185,11 @@ export class TaskQueue extends EventEmitter {
             this.emit('task:immediate', queuedTask);
         }
         
+        const failedDependency = (queuedTask.dependsOn || []).find(id => this.getDependencyState(id) === 'failed');
+        if (failedDependency) {
+            this.blockTask(queuedTask, failedDependency);
+        }
+        
         return queuedTask;
     }
     
@@ -142,13 +209,15 @@ export class TaskQueue extends EventEmitter {
             return null; // Агент перегружен
         }
         
+        const context = this.createSchedulingContext();
+        
         // Ищем наиболее подходящую задачу по приоритетам
         for (const priority of [TaskPriority.IMMEDIATE, TaskPriority.HIGH, TaskPriority.MEDIUM, TaskPriority.LOW]) {
             const queue = this.queues.get(priority);
             if (!queue || queue.length === 0) continue;
             
             // Swarm intelligence: выбираем задачу, которая лучше всего подходит агенту
-            const suitableTask = this.findSuitableTask(queue, capabilities);
+            const { task: suitableTask, stolen } = this.findSuitableTask(queue, capabilities, context);
             
             if (suitableTask) {
                 // Удаляем из очереди
@@ -162,11 +231,15 @@ export class TaskQueue extends EventEmitter {
                 suitableTask.attempts++;
                 
                 this.processing.set(suitableTask.id, suitableTask);
+                this.record({ op: 'claim', taskId: suitableTask.id, agentId, startedAt: suitableTask.startedAt });
                 
-                console.log(`TaskQueue: Agent ${agentId} claimed task ${suitableTask.id} (${priority})`);
+                console.log(`TaskQueue: Agent ${agentId} ${stolen ? 'stole' : 'claimed'} task ${suitableTask.id} (${priority})`);
                 
                 // Отправляем событие
                 this.emit('task:claimed', { task: suitableTask, agentId });
+                if (stolen) {
+                    this.emit('task:stolen', { task: suitableTask, agentId });
+                }
                 
                 return suitableTask;
             }
@@ -177,53 +250,52 @@ export class TaskQueue extends EventEmitter {
     
     /**
      * Найти подходящую задачу для агента (Swarm intelligence)
+     * Рассматриваются только задачи с выполненными зависимостями, оценку дает стратегия планировщика
      */
     private findSuitableTask(
         queue: QueuedTask[],
-        capabilities: AgentCapabilities
-    ): QueuedTask | null {
-        let bestTask: QueuedTask | null = null;
-        let bestScore = -1;
+        capabilities: AgentCapabilities,
+        context: SchedulingContext
+    ): { task: QueuedTask | null; stolen: boolean } {
+        let best: { task: QueuedTask | null; stolen: boolean } = { task: null, stolen: false };
+        let bestScore = -Infinity;
         
         for (const task of queue) {
-            const score = this.calculateTaskScore(task, capabilities);
-            if (score > bestScore) {
-                bestScore = score;
-                bestTask = task;
+            if (!this.isReady(task)) continue;
+            
+            const rating = this.scheduler.score(task, capabilities, context);
+            if (rating && rating.score > bestScore) {
+                bestScore = rating.score;
+                best = { task, stolen: !!rating.stolen };
             }
         }
         
-        return bestTask;
+        return best;
+    }
+    
+    private createSchedulingContext(): SchedulingContext {
+        return {
+            now: Date.now(),
+            agents: Array.from(this.agentCapabilities.values()),
+            successRate: (agentId, taskType) => this.getSuccessRate(agentId, taskType),
+            averageCost: agentId => this.performanceSource?.getAverageCost?.(agentId)
+        };
     }
     
     /**
-     * Рассчитать оценку соответствия задачи агенту
+     * Учет исхода выполнения задачи агентом (для оценки успешности по типу задачи)
      */
-    private calculateTaskScore(
-        task: QueuedTask,
-        capabilities: AgentCapabilities
-    ): number {
-        let score = 0;
-        
-        // 1. Проверяем специализацию агента
-        if (task.assignedAgent && capabilities.specializations.includes(task.assignedAgent)) {
-            score += 50; // Задача назначена этому типу агента
+    private recordOutcome(result: TaskResult): void {
+        if (!result.workerId || !result.taskType) {
+            return;
         }
-        
-        // 2. Проверяем предпочтения агента
-        if (task.type && capabilities.preferredTasks.includes(task.type)) {
-            score += 30; // Агент предпочитает такие задачи
+        const key = `${result.workerId}:${result.taskType}`;
+        const outcome = this.outcomes.get(key) || { successes: 0, total: 0 };
+        outcome.total++;
+        if (result.success) {
+            outcome.successes++;
         }
-        
-        // 3. Учитываем нагрузку агента (чем меньше нагрузка, тем лучше)
-        score += (1 - capabilities.currentLoad) * 20;
-        
-        // 4. Учитываем время ожидания задачи
-        const waitTime = Date.now() - task.queuedAt.getTime();
-        const waitMinutes = waitTime / (1000 * 60);
-        score += Math.min(waitMinutes, 10); // Максимум 10 баллов за ожидание
-        
-        return score;
+        this.outcomes.set(key, outcome);
     }
     
     /**
@@ -245,10 +317,14 @@ export class TaskQueue extends EventEmitter {
         
         const taskResult: TaskResult = {
             ...result,
-            taskId
+            taskId,
+            completedAt: task.completedAt,
+            taskType: task.type
         };
         
         this.completed.set(taskId, taskResult);
+        this.recordOutcome(taskResult);
+        this.record({ op: 'complete', result: taskResult });
         
         // Обновляем нагрузку агента
         this.updateAgentLoad(result.workerId, 0);
@@ -258,10 +334,32 @@ export class TaskQueue extends EventEmitter {
         // Отправляем событие
         this.emit('task:completed', { task, result: taskResult });
         
-        // Если задача провалилась и еще есть попытки - возвращаем в очередь
+        // Если задача провалилась и еще есть попытки - возвращаем в очередь с тем же id и счетчиком попыток
         if (!result.success && task.attempts < task.maxAttempts) {
             console.log(`TaskQueue: Re-queueing failed task ${taskId} (attempt ${task.attempts}/${task.maxAttempts})`);
-            await this.enqueue(task, task.priority);
+            this.requeue(task);
+            this.record({ op: 'requeue', task });
+            this.emit('task:added', task);
+        } else if (!result.success) {
+            // Попытки исчерпаны - зависимые задачи уже не смогут выполниться
+            this.blockDependants(taskId);
+        }
+    }
+    
+    /**
+     * Вернуть задачу в очередь ее приоритета
+     */
+    private requeue(task: QueuedTask, queuedAt: Date = new Date()): void {
+        task.status = 'pending';
+        task.queuedAt = queuedAt;
+        task.assignedWorker = undefined;
+        task.startedAt = undefined;
+        task.completedAt = undefined;
+        
+        const queue = this.queues.get(task.priority);
+        if (queue) {
+            queue.push(task);
+            this.sortQueue(task.priority);
         }
     }
     
@@ -277,9 +375,11 @@ export class TaskQueue extends EventEmitter {
                 queue.splice(index, 1);
                 
                 task.status = 'cancelled';
+                this.record({ op: 'cancel', taskId });
                 console.log(`TaskQueue: Cancelled task ${taskId}${reason ? `: ${reason}` : ''}`);
                 
                 this.emit('task:cancelled', { task, reason });
+                this.blockDependants(taskId);
                 return;
             }
         }
@@ -289,10 +389,74 @@ export class TaskQueue extends EventEmitter {
         if (task) {
             task.status = 'cancelled';
             this.processing.delete(taskId);
+            this.record({ op: 'cancel', taskId });
             
             console.log(`TaskQueue: Cancelled in-progress task ${taskId}${reason ? `: ${reason}` : ''}`);
             this.emit('task:cancelled', { task, reason });
+            this.blockDependants(taskId);
+        }
+    }
+    
+    // ==================== ЗАВИСИМОСТИ ====================
+    
+    /**
+     * Все зависимости задачи успешно выполнены
+     */
+    isReady(task: QueuedTask): boolean {
+        return (task.dependsOn || []).every(id => this.getDependencyState(id) === 'done');
+    }
+    
+    /**
+     * Состояние зависимости: выполнена, еще в работе (или ждет повтора) либо провалена/отменена
+     */
+    private getDependencyState(taskId: string): 'done' | 'waiting' | 'failed' {
+        if (this.findQueuedTask(taskId) || this.processing.has(taskId)) {
+            return 'waiting';
         }
+        return this.completed.get(taskId)?.success ? 'done' : 'failed';
+    }
+    
+    /**
+     * Каскадная блокировка ожидающих задач, зависящих от проваленной или отмененной
+     */
+    private blockDependants(taskId: string): void {
+        for (const task of this.getPending()) {
+            if ((task.dependsOn || []).includes(taskId)) {
+                this.blockTask(task, taskId);
+            }
+        }
+    }
+    
+    private blockTask(task: QueuedTask, dependencyId: string): void {
+        this.takeFromQueues(task.id);
+        task.status = 'blocked';
+        task.completedAt = new Date();
+        
+        const result: TaskResult = {
+            taskId: task.id,
+            success: false,
+            workerId: '',
+            duration: 0,
+            error: `Зависимость ${dependencyId} не выполнена`,
+            completedAt: task.completedAt
+        };
+        this.completed.set(task.id, result);
+        this.record({ op: 'complete', result });
+        
+        console.log(`TaskQueue: Task ${task.id} blocked by failed dependency ${dependencyId}`);
+        this.emit('task:blocked', { task, dependencyId });
+        
+        this.blockDependants(task.id);
+    }
+    
+    private findQueuedTask(taskId: string): QueuedTask | undefined {
+        for (const queue of this.queues.values()) {
+            const task = queue.find(queued => queued.id === taskId);
+            if (task) {
+                return task;
+            }
+        }
+        return undefined;
     }
     
     /**
@@ -326,8 +490,10 @@ export class TaskQueue extends EventEmitter {
     getStatistics() {
         return {
             pending: this.getPending().length,
+            waitingForDependencies: this.getPending().filter(task => !this.isReady(task)).length,
             processing: this.processing.size,
             completed: this.completed.size,
+            scheduler: this.scheduler.name,
             byPriority: {
                 immediate: this.queues.get(TaskPriority.IMMEDIATE)?.length || 0,
                 high: this.queues.get(TaskPriority.HIGH)?.length || 0,
@@ -354,11 +520,15 @@ export class TaskQueue extends EventEmitter {
     cleanup(maxAge: number = 3600000): void {
         const now = Date.now();
         const toRemove: string[] = [];
+        // Результаты, от которых зависят ожидающие задачи, нужны для проверки готовности
+        const referenced = new Set<string>();
+        for (const task of [...this.getPending(), ...this.getProcessing()]) {
+            (task.dependsOn || []).forEach(id => referenced.add(id));
+        }
         
         for (const [taskId, result] of this.completed.entries()) {
-            const task = this.processing.get(taskId);
-            if (task && task.completedAt) {
-                const age = now - task.completedAt.getTime();
+            if (result.completedAt && !referenced.has(taskId)) {
+                const age = now - result.completedAt.getTime();
                 if (age > maxAge) {
                     toRemove.push(taskId);
                 }
@@ -370,7 +540,174 @@ export class TaskQueue extends EventEmitter {
         }
         
         if (toRemove.length > 0) {
+            this.record({ op: 'remove', taskIds: toRemove });
             console.log(`TaskQueue: Cleaned up ${toRemove.length} old completed tasks`);
         }
     }
+    
+    // ==================== ПЕРСИСТЕНТНОСТЬ ====================
+    
+    /**
+     * Восстановление очереди из журнала
+     * Задачи, которые выполнялись в момент падения, возвращаются в очередь (попытка уже засчитана при claim)
+     * либо помечаются проваленными, если попыток больше не осталось
+     */
+    private restore(): void {
+        let entries: TaskQueueJournalEntry[];
+        try {
+            entries = this.store!.load();
+        } catch (error) {
+            console.error('TaskQueue: Failed to load journal, starting with empty queue:', error);
+            return;
+        }
+        
+        for (const entry of entries) {
+            this.replay(entry);
+        }
+        
+        let requeued = 0;
+        let failed = 0;
+        for (const task of Array.from(this.processing.values())) {
+            this.processing.delete(task.id);
+            
+            if (task.attempts >= task.maxAttempts) {
+                task.status = 'blocked';
+                task.completedAt = new Date();
+                this.completed.set(task.id, {
+                    taskId: task.id,
+                    success: false,
+                    workerId: task.assignedWorker || '',
+                    duration: 0,
+                    error: `Выполнение прервано перезапуском, попытки исчерпаны (${task.attempts}/${task.maxAttempts})`,
+                    completedAt: task.completedAt
+                });
+                this.blockDependants(task.id);
+                failed++;
+            } else {
+                this.requeue(task, task.queuedAt);
+                requeued++;
+            }
+        }
+        
+        this.compact();
+        
+        if (entries.length > 0) {
+            console.log(`TaskQueue: Restored ${this.getPending().length} pending tasks ` +
+                `(${requeued} interrupted re-queued, ${failed} marked failed), ${this.completed.size} completed`);
+        }
+    }
+    
+    /**
+     * Применение записи журнала к состоянию очереди (без событий)
+     */
+    private replay(entry: TaskQueueJournalEntry): void {
+        switch (entry.op) {
+            case 'snapshot':
+                this.queues.forEach(queue => queue.splice(0));
+                this.processing.clear();
+                this.completed.clear();
+                entry.pending.forEach(task => this.queues.get(task.priority)?.push(task));
+                entry.processing.forEach(task => this.processing.set(task.id, task));
+                entry.completed.forEach(result => this.completed.set(result.taskId, result));
+                this.outcomes.clear();
+                entry.completed.forEach(result => this.recordOutcome(result));
+                break;
+                
+            case 'enqueue':
+                this.queues.get(entry.task.priority)?.push(entry.task);
+                break;
+                
+            case 'claim': {
+                const task = this.takeFromQueues(entry.taskId);
+                if (task) {
+                    task.status = 'in-progress';
+                    task.assignedWorker = entry.agentId;
+                    task.startedAt = entry.startedAt;
+                    task.attempts++;
+                    this.processing.set(task.id, task);
+                }
+                break;
+            }
+                
+            case 'complete': {
+                const task = this.processing.get(entry.result.taskId) || this.takeFromQueues(entry.result.taskId);
+                if (task) {
+                    task.status = entry.result.success ? 'completed' : 'blocked';
+                    task.completedAt = entry.result.completedAt;
+                    this.processing.delete(task.id);
+                }
+                this.completed.set(entry.result.taskId, entry.result);
+                this.recordOutcome(entry.result);
+                break;
+            }
+                
+            case 'requeue':
+                this.processing.delete(entry.task.id);
+                this.requeue(entry.task, entry.task.queuedAt);
+                break;
+                
+            case 'cancel': {
+                const task = this.takeFromQueues(entry.taskId) || this.processing.get(entry.taskId);
+                if (task) {
+                    task.status = 'cancelled';
+                    this.processing.delete(task.id);
+                }
+                break;
+            }
+                
+            case 'remove':
+                entry.taskIds.forEach(taskId => this.completed.delete(taskId));
+                break;
+        }
+    }
+    
+    private takeFromQueues(taskId: string): QueuedTask | undefined {
+        for (const queue of this.queues.values()) {
+            const index = queue.findIndex(task => task.id === taskId);
+            if (index !== -1) {
+                return queue.splice(index, 1)[0];
+            }
+        }
+        return undefined;
+    }
+    
+    /**
+     * Запись изменения в журнал; ошибки записи не останавливают очередь
+     */
+    private record(entry: TaskQueueJournalEntry): void {
+        if (!this.store) {
+            return;
+        }
+        
+        try {
+            this.store.append(entry);
+            this.entriesSinceCompaction++;
+            if (this.entriesSinceCompaction >= COMPACT_AFTER_ENTRIES) {
+                this.compact();
+            }
+        } catch (error) {
+            console.error(`TaskQueue: Failed to write journal entry ${entry.op}:`, error);
+        }
+    }
+    
+    /**
+     * Свертка журнала в один снимок текущего состояния
+     */
+    private compact(): void {
+        if (!this.store) {
+            return;
+        }
+        
+        try {
+            this.store.compact([{
+                op: 'snapshot',
+                pending: this.getPending(),
+                processing: this.getProcessing(),
+                completed: this.getCompleted()
+            }]);
+            this.entriesSinceCompaction = 0;
+        } catch (error) {
+            console.error('TaskQueue: Failed to compact journal:', error);
+        }
+    }
 }
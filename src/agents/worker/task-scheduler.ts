@@ -0,0 +1,157 @@
+import { Task } from '../../orchestrator/orchestrator';
+import type { AgentCapabilities, QueuedTask } from './task-queue';
+
+/**
+ * Внешний источник истории агентов (HealthMonitor, LearningEngine, UsageTracker)
+ */
+export interface AgentPerformanceSource {
+    // Доля успешных выполнений (0-1); undefined - истории нет
+    getSuccessRate?(agentId: string, taskType: Task['type']): number | undefined;
+    // Средняя стоимость вызова модели агента в $; undefined - неизвестна
+    getAverageCost?(agentId: string): number | undefined;
+}
+
+/**
+ * Данные, доступные стратегии при выборе задачи
+ */
+export interface SchedulingContext {
+    now: number;
+    agents: AgentCapabilities[];
+    successRate(agentId: string, taskType: Task['type']): number;
+    averageCost(agentId: string): number | undefined;
+}
+
+/**
+ * Стратегия планировщика очереди задач
+ * score возвращает оценку задачи для агента (больше - лучше) или null, если агент не должен брать задачу;
+ * stolen отмечает, что задача взята не своим агентом (work stealing)
+ */
+export interface TaskSchedulerStrategy {
+    readonly name: string;
+    score(task: QueuedTask, agent: AgentCapabilities, context: SchedulingContext): { score: number; stolen?: boolean } | null;
+}
+
+/**
+ * Веса составляющих оценки ScoringSchedulerStrategy
+ */
+export interface SchedulerWeights {
+    specialization: number;
+    success: number;
+    load: number;
+    cost: number;
+    wait: number;
+}
+
+const DEFAULT_WEIGHTS: SchedulerWeights = {
+    specialization: 40,
+    success: 25,
+    load: 15,
+    cost: 10,
+    wait: 10
+};
+
+const DEFAULT_STEAL_AFTER_MS = 120000; // 2 минуты
+
+/**
+ * Соответствие агента задаче: 1 - задача назначена агенту, 0.8 - его специализации,
+ * 0.5 - предпочитаемый тип задач, 0 - чужая задача
+ */
+export function getAffinity(task: QueuedTask, agent: AgentCapabilities): number {
+    if (task.assignedAgent === agent.agentId) {
+        return 1;
+    }
+    if (task.assignedAgent && agent.specializations.includes(task.assignedAgent)) {
+        return 0.8;
+    }
+    if (task.type && agent.preferredTasks.includes(task.type)) {
+        return 0.5;
+    }
+    return 0;
+}
+
+/**
+ * Прежняя политика: соответствие назначению и предпочтениям, нагрузка и время ожидания;
+ * задача, назначенная зарегистрированному агенту, достается только ему
+ */
+export class AffinitySchedulerStrategy implements TaskSchedulerStrategy {
+    readonly name = 'affinity';
+
+    score(task: QueuedTask, agent: AgentCapabilities, context: SchedulingContext): { score: number } | null {
+        if (isReservedForOther(task, agent, context)) {
+            return null;
+        }
+
+        let score = 0;
+        if (task.assignedAgent && (task.assignedAgent === agent.agentId || agent.specializations.includes(task.assignedAgent))) {
+            score += 50;
+        }
+        if (task.type && agent.preferredTasks.includes(task.type)) {
+            score += 30;
+        }
+        score += (1 - agent.currentLoad) * 20;
+        score += Math.min((context.now - task.queuedAt.getTime()) / 60000, 10);
+
+        return { score };
+    }
+}
+
+/**
+ * Оценочная политика: специализация, история успеха агента по типу задачи, нагрузка и стоимость модели
+ * Чужую задачу (назначенную другому агенту или подходящую другой специализации) агент берет только
+ * без нагрузки и после stealAfterMs ожидания - так простаивающие воркеры разбирают застрявшие задачи
+ */
+export class ScoringSchedulerStrategy implements TaskSchedulerStrategy {
+    readonly name = 'scoring';
+    private weights: SchedulerWeights;
+    private stealAfterMs: number;
+
+    constructor(options: { weights?: Partial<SchedulerWeights>; stealAfterMs?: number } = {}) {
+        this.weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+        this.stealAfterMs = options.stealAfterMs ?? DEFAULT_STEAL_AFTER_MS;
+    }
+
+    score(task: QueuedTask, agent: AgentCapabilities, context: SchedulingContext): { score: number; stolen?: boolean } | null {
+        const waitMs = context.now - task.queuedAt.getTime();
+        const affinity = getAffinity(task, agent);
+        const foreign = isReservedForOther(task, agent, context)
+            || (affinity === 0 && context.agents.some(other => other.agentId !== agent.agentId && getAffinity(task, other) > 0));
+
+        if (foreign && (agent.currentLoad > 0 || waitMs < this.stealAfterMs)) {
+            return null;
+        }
+
+        const w = this.weights;
+        const score = w.specialization * (foreign ? 0 : affinity)
+            + w.success * context.successRate(agent.agentId, task.type)
+            + w.load * (1 - agent.currentLoad)
+            + w.cost * (1 - this.relativeCost(agent.agentId, context))
+            + w.wait * Math.min(waitMs / this.stealAfterMs, 1);
+
+        return { score, stolen: foreign };
+    }
+
+    /**
+     * Стоимость модели агента относительно самой дорогой среди зарегистрированных (0-1)
+     */
+    private relativeCost(agentId: string, context: SchedulingContext): number {
+        const cost = context.averageCost(agentId);
+        if (cost === undefined) {
+            return 0.5;
+        }
+        const maxCost = Math.max(cost, ...context.agents.map(agent => context.averageCost(agent.agentId) || 0));
+        return maxCost > 0 ? cost / maxCost : 0;
+    }
+}
+
+/**
+ * Создание стратегии по имени из настройки cursor-autonomous.swarm.scheduler
+ */
+export function createSchedulerStrategy(name: string, options: { stealAfterMs?: number } = {}): TaskSchedulerStrategy {
+    return name === 'affinity' ? new AffinitySchedulerStrategy() : new ScoringSchedulerStrategy(options);
+}
+
+function isReservedForOther(task: QueuedTask, agent: AgentCapabilities, context: SchedulingContext): boolean {
+    return !!task.assignedAgent
+        && task.assignedAgent !== agent.agentId
+        && context.agents.some(other => other.agentId === task.assignedAgent);
+}
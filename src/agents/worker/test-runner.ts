@@ -0,0 +1,468 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProcessResult, runProcess } from './process-runner';
+import { CoverageFormat, CoverageReport, CoverageSummary, parseCoverageReport, summarizeCoverage } from '../../quality/coverage';
+
+/**
+ * Тестовые фреймворки с разбором структурированного отчета
+ * npm-script - только команда npm test, результат по коду выхода
+ */
+export type TestFramework = 'jest' | 'vitest' | 'mocha' | 'pytest' | 'go' | 'npm-script';
+
+/**
+ * Результат отдельного теста
+ */
+export interface TestCaseResult {
+    name: string;
+    file?: string;
+    status: 'passed' | 'failed' | 'skipped';
+    durationMs?: number;
+    failureMessage?: string;
+}
+
+/**
+ * Результат запуска тестов
+ */
+export interface TestRunResult {
+    success: boolean;
+    passed: number;
+    failed: number;
+    skipped: number;
+    output: string;
+    framework?: TestFramework;
+    command?: string;
+    tests: TestCaseResult[];
+    timedOut?: boolean;
+    durationMs?: number;
+    // Покрытие, если тесты запускались со сбором покрытия
+    coverage?: CoverageSummary & { report: CoverageReport };
+}
+
+/**
+ * Команда запуска тестов; отчет фреймворк пишет в reportPath или в stdout
+ * Отчеты (и отчет о покрытии) пишутся в каталог отчетов, а не в проект
+ */
+export interface TestCommand {
+    framework: TestFramework;
+    command: string;
+    args: string[];
+    reportPath?: string;
+    coverageReport?: { path: string; format: CoverageFormat };
+    env?: Record<string, string>;
+}
+
+export const DEFAULT_TEST_TIMEOUT_MS = 600000; // 10 минут
+
+const TEST_FILE_PATTERNS = [
+    /\.(test|spec)\.[cm]?[jt]sx?$/,
+    /(^|\/)__tests__\//,
+    /(^|\/)test_[^/]+\.py$/,
+    /_test\.py$/,
+    /_test\.go$/
+];
+
+/**
+ * Является ли файл тестовым
+ */
+export function isTestFile(filePath: string): boolean {
+    const normalized = filePath.replace(/\\/g, '/');
+    return TEST_FILE_PATTERNS.some(pattern => pattern.test(normalized));
+}
+
+/**
+ * Определение тестового фреймворка проекта по package.json, конфигурации pytest и go.mod
+ */
+export function detectTestFramework(workspacePath: string): TestFramework | null {
+    const packageJsonPath = path.join(workspacePath, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+        try {
+            const pkg = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+            const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+            const testScript: string = pkg.scripts?.test || '';
+            for (const framework of ['vitest', 'jest', 'mocha'] as const) {
+                if (deps[framework] || new RegExp(`\\b${framework}\\b`).test(testScript)) {
+                    return framework;
+                }
+            }
+            if (testScript && !/no test specified/.test(testScript)) {
+                return 'npm-script';
+            }
+        } catch (error) {
+            console.error('TestRunner: Failed to read package.json:', error);
+        }
+    }
+
+    const exists = (file: string) => fs.existsSync(path.join(workspacePath, file));
+    const contains = (file: string, marker: string) => exists(file) && fs.readFileSync(path.join(workspacePath, file), 'utf-8').includes(marker);
+    if (exists('pytest.ini') || exists('conftest.py') || contains('pyproject.toml', '[tool.pytest')
+        || contains('setup.cfg', '[tool:pytest]') || contains('tox.ini', '[pytest]')) {
+        return 'pytest';
+    }
+    if (exists('go.mod')) {
+        return 'go';
+    }
+    return null;
+}
+
+/**
+ * Команда запуска: targets - тестовые файлы (для go - пакеты), pattern - фильтр фреймворка
+ */
+export function buildTestCommand(
+    framework: TestFramework,
+    reportDir: string,
+    targets: string[] = [],
+    pattern?: string,
+    coverage: boolean = false
+): TestCommand {
+    const filters = targets.length > 0 ? targets : pattern ? [pattern] : [];
+    switch (framework) {
+        case 'jest': {
+            const reportPath = path.join(reportDir, 'jest.json');
+            const coverageDir = path.join(reportDir, 'coverage');
+            const coverageArgs = coverage ? ['--coverage', '--coverageReporters=lcov', `--coverageDirectory=${coverageDir}`] : [];
+            return {
+                framework,
+                command: 'npx',
+                args: ['--no-install', 'jest', '--json', `--outputFile=${reportPath}`, '--passWithNoTests', ...coverageArgs, ...filters],
+                reportPath,
+                coverageReport: coverage ? { path: path.join(coverageDir, 'lcov.info'), format: 'lcov' } : undefined
+            };
+        }
+        case 'vitest': {
+            const reportPath = path.join(reportDir, 'vitest.json');
+            const coverageDir = path.join(reportDir, 'coverage');
+            const coverageArgs = coverage ? ['--coverage.enabled=true', '--coverage.reporter=lcov', `--coverage.reportsDirectory=${coverageDir}`] : [];
+            return {
+                framework,
+                command: 'npx',
+                args: ['--no-install', 'vitest', 'run', '--reporter=json', `--outputFile=${reportPath}`, '--passWithNoTests', ...coverageArgs, ...filters],
+                reportPath,
+                coverageReport: coverage ? { path: path.join(coverageDir, 'lcov.info'), format: 'lcov' } : undefined
+            };
+        }
+        case 'mocha': {
+            const reportPath = path.join(reportDir, 'mocha.json');
+            return {
+                framework,
+                command: 'npx',
+                args: ['--no-install', 'mocha', '--reporter', 'json', '--reporter-option', `output=${reportPath}`, ...filters],
+                reportPath
+            };
+        }
+        case 'pytest': {
+            const reportPath = path.join(reportDir, 'pytest.xml');
+            const coveragePath = path.join(reportDir, 'coverage.xml');
+            const args = ['-m', 'pytest', `--junitxml=${reportPath}`, '-q', ...targets];
+            if (coverage) {
+                // pytest-cov; файл данных .coverage тоже в каталоге отчетов
+                args.push('--cov=.', `--cov-report=xml:${coveragePath}`);
+            }
+            if (targets.length === 0 && pattern) {
+                args.push('-k', pattern);
+            }
+            return {
+                framework,
+                command: process.platform === 'win32' ? 'python' : 'python3',
+                args,
+                reportPath,
+                coverageReport: coverage ? { path: coveragePath, format: 'cobertura' } : undefined,
+                env: coverage ? { COVERAGE_FILE: path.join(reportDir, '.coverage') } : undefined
+            };
+        }
+        case 'go': {
+            const args = ['test', '-json', ...(targets.length > 0 ? targets : ['./...'])];
+            if (targets.length === 0 && pattern) {
+                args.push('-run', pattern);
+            }
+            return { framework, command: 'go', args };
+        }
+        case 'npm-script':
+            return { framework, command: 'npm', args: pattern ? ['test', '--', pattern] : ['test'] };
+    }
+}
+
+/**
+ * Тесты, затронутые изменением файлов: измененные тестовые файлы и тесты среди
+ * транзитивных зависимых файлов (getDependents графа зависимостей проекта)
+ */
+export function findAffectedTests(changedFiles: string[], getDependents: (file: string) => string[]): string[] {
+    const visited = new Set<string>();
+    const queue = changedFiles.map(file => file.replace(/\\/g, '/'));
+    while (queue.length > 0) {
+        const file = queue.shift()!;
+        if (visited.has(file)) {
+            continue;
+        }
+        visited.add(file);
+        queue.push(...getDependents(file).map(dependent => dependent.replace(/\\/g, '/')));
+    }
+    return Array.from(visited).filter(isTestFile).sort();
+}
+
+/**
+ * Цели запуска для затронутых тестов: файлы, а для go - пакеты (./dir)
+ */
+export function toTestTargets(framework: TestFramework, testFiles: string[]): string[] {
+    if (framework !== 'go') {
+        return testFiles;
+    }
+    const packages = new Set(testFiles.map(file => {
+        const dir = path.posix.dirname(file);
+        return dir === '.' ? '.' : `./${dir}`;
+    }));
+    return Array.from(packages).sort();
+}
+
+/**
+ * Разбор отчета Jest (--json); формат Vitest json reporter совместим
+ */
+export function parseJestReport(json: string): TestCaseResult[] {
+    const report = JSON.parse(json);
+    const tests: TestCaseResult[] = [];
+    for (const suite of report.testResults || []) {
+        const assertions: any[] = suite.assertionResults || [];
+        for (const assertion of assertions) {
+            tests.push({
+                name: assertion.fullName || assertion.title,
+                file: suite.name,
+                status: assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped',
+                durationMs: assertion.duration ?? undefined,
+                failureMessage: assertion.failureMessages?.length ? assertion.failureMessages.join('\n') : undefined
+            });
+        }
+        // Набор, упавший до запуска тестов (ошибка компиляции, импорта)
+        if (assertions.length === 0 && suite.status === 'failed') {
+            tests.push({ name: suite.name, file: suite.name, status: 'failed', failureMessage: suite.message || 'Test suite failed to run' });
+        }
+    }
+    return tests;
+}
+
+/**
+ * Разбор отчета Mocha json reporter
+ */
+export function parseMochaReport(json: string): TestCaseResult[] {
+    const report = JSON.parse(json);
+    const toResult = (test: any, status: TestCaseResult['status']): TestCaseResult => ({
+        name: test.fullTitle || test.title,
+        file: test.file,
+        status,
+        durationMs: test.duration,
+        failureMessage: status === 'failed' ? test.err?.stack || test.err?.message : undefined
+    });
+    return [
+        ...(report.passes || []).map((test: any) => toResult(test, 'passed')),
+        ...(report.failures || []).map((test: any) => toResult(test, 'failed')),
+        ...(report.pending || []).map((test: any) => toResult(test, 'skipped'))
+    ];
+}
+
+/**
+ * Разбор JUnit XML (pytest --junitxml)
+ */
+export function parseJUnitXml(xml: string): TestCaseResult[] {
+    const tests: TestCaseResult[] = [];
+    const testCasePattern = /<testcase\b([^>]*?)(\/>|>([\s\S]*?)<\/testcase>)/g;
+    let match: RegExpExecArray | null;
+    while ((match = testCasePattern.exec(xml)) !== null) {
+        const attributes = parseXmlAttributes(match[1]);
+        const body = match[3] || '';
+        const failure = /<(failure|error)\b([^>]*?)(\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+        const name = attributes.classname ? `${attributes.classname}.${attributes.name}` : attributes.name;
+
+        tests.push({
+            name,
+            file: attributes.file,
+            status: failure ? 'failed' : /<skipped\b/.test(body) ? 'skipped' : 'passed',
+            durationMs: attributes.time ? Math.round(parseFloat(attributes.time) * 1000) : undefined,
+            failureMessage: failure
+                ? [parseXmlAttributes(failure[2]).message, unescapeXml(failure[4] || '').trim()].filter(Boolean).join('\n')
+                : undefined
+        });
+    }
+    return tests;
+}
+
+/**
+ * Разбор вывода go test -json
+ */
+export function parseGoTestJson(output: string): TestCaseResult[] {
+    const tests = new Map<string, TestCaseResult>();
+    const outputs = new Map<string, string>();
+    const failedPackages = new Map<string, string>();
+
+    for (const line of output.split('\n')) {
+        if (!line.startsWith('{')) {
+            continue;
+        }
+        let event: { Action: string; Package?: string; Test?: string; Output?: string; Elapsed?: number };
+        try {
+            event = JSON.parse(line);
+        } catch (error) {
+            continue;
+        }
+
+        const key = `${event.Package}/${event.Test || ''}`;
+        if (event.Action === 'output') {
+            outputs.set(key, (outputs.get(key) || '') + (event.Output || ''));
+            continue;
+        }
+        if (!['pass', 'fail', 'skip'].includes(event.Action)) {
+            continue;
+        }
+        if (!event.Test) {
+            if (event.Action === 'fail') {
+                failedPackages.set(event.Package || '', outputs.get(key) || '');
+            }
+            continue;
+        }
+        tests.set(key, {
+            name: `${event.Package}.${event.Test}`,
+            file: event.Package,
+            status: event.Action === 'pass' ? 'passed' : event.Action === 'fail' ? 'failed' : 'skipped',
+            durationMs: event.Elapsed !== undefined ? Math.round(event.Elapsed * 1000) : undefined,
+            failureMessage: event.Action === 'fail' ? outputs.get(key) : undefined
+        });
+    }
+
+    // Пакет упал без упавших тестов - ошибка сборки или паника вне теста
+    for (const [pkg, pkgOutput] of failedPackages) {
+        const hasFailedTest = Array.from(tests.values()).some(test => test.file === pkg && test.status === 'failed');
+        if (!hasFailedTest) {
+            tests.set(`${pkg}/`, { name: pkg, file: pkg, status: 'failed', failureMessage: pkgOutput || 'Package failed' });
+        }
+    }
+    return Array.from(tests.values());
+}
+
+/**
+ * Результаты тестов из отчета команды; null - отчет не найден или поврежден
+ */
+export function readTestReport(command: TestCommand, processResult: ProcessResult): TestCaseResult[] | null {
+    try {
+        switch (command.framework) {
+            case 'jest':
+            case 'vitest':
+                return fs.existsSync(command.reportPath!) ? parseJestReport(fs.readFileSync(command.reportPath!, 'utf-8')) : null;
+            case 'mocha':
+                return fs.existsSync(command.reportPath!) ? parseMochaReport(fs.readFileSync(command.reportPath!, 'utf-8')) : null;
+            case 'pytest':
+                return fs.existsSync(command.reportPath!) ? parseJUnitXml(fs.readFileSync(command.reportPath!, 'utf-8')) : null;
+            case 'go':
+                return parseGoTestJson(processResult.stdout);
+            default:
+                return null;
+        }
+    } catch (error) {
+        console.error(`TestRunner: Failed to parse ${command.framework} report:`, error);
+        return null;
+    }
+}
+
+/**
+ * Отчет о покрытии из каталога отчетов команды (до удаления каталога)
+ */
+function readCoverageReport(command: TestCommand, workspacePath: string): CoverageReport | null {
+    const report = command.coverageReport;
+    if (!report || !fs.existsSync(report.path)) {
+        return null;
+    }
+    try {
+        return {
+            format: report.format,
+            path: report.path,
+            generatedAt: fs.statSync(report.path).mtime.toISOString(),
+            files: parseCoverageReport(report.format, fs.readFileSync(report.path, 'utf-8'), workspacePath)
+        };
+    } catch (error) {
+        console.error(`TestRunner: Failed to parse coverage report of ${command.framework}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Запуск тестов проекта с разбором отчета
+ * changedFiles ограничивает запуск тестами, затронутыми изменениями (нужен getDependents графа зависимостей)
+ */
+export async function runTests(
+    workspacePath: string,
+    options: {
+        pattern?: string;
+        changedFiles?: string[];
+        getDependents?: (file: string) => string[];
+        timeoutMs?: number;
+        // Сбор покрытия (lcov для Jest/Vitest, Cobertura через pytest-cov)
+        coverage?: boolean;
+    } = {}
+): Promise<TestRunResult> {
+    const framework = detectTestFramework(workspacePath);
+    if (!framework) {
+        return { success: false, passed: 0, failed: 0, skipped: 0, output: 'No test configuration found', tests: [] };
+    }
+
+    let targets: string[] = [];
+    if (options.changedFiles) {
+        const affected = findAffectedTests(options.changedFiles, options.getDependents || (() => []));
+        if (affected.length === 0) {
+            return {
+                success: true, passed: 0, failed: 0, skipped: 0, framework, tests: [],
+                output: `No tests affected by changes in ${options.changedFiles.join(', ') || 'no files'}`
+            };
+        }
+        targets = toTestTargets(framework, affected);
+    }
+
+    const reportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-autonomous-tests-'));
+    try {
+        const command = buildTestCommand(framework, reportDir, targets, options.pattern, options.coverage);
+        const commandLine = [command.command, ...command.args].join(' ');
+        console.log(`TestRunner: Running ${commandLine}`);
+
+        const processResult = await runProcess(command, workspacePath, options.timeoutMs ?? DEFAULT_TEST_TIMEOUT_MS);
+        const tests = readTestReport(command, processResult) || [];
+        const count = (status: TestCaseResult['status']) => tests.filter(test => test.status === status).length;
+        const failed = count('failed');
+        const timeoutNote = processResult.timedOut ? `\nTests timed out after ${options.timeoutMs ?? DEFAULT_TEST_TIMEOUT_MS}ms` : '';
+        const coverage = readCoverageReport(command, workspacePath);
+
+        return {
+            success: processResult.exitCode === 0 && failed === 0 && !processResult.timedOut,
+            passed: count('passed'),
+            failed,
+            skipped: count('skipped'),
+            output: processResult.output + timeoutNote,
+            framework,
+            command: commandLine,
+            tests,
+            timedOut: processResult.timedOut,
+            durationMs: processResult.durationMs,
+            coverage: coverage ? { ...summarizeCoverage(coverage.files), report: coverage } : undefined
+        };
+    } finally {
+        fs.rmSync(reportDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Атрибуты XML тега (значения без экранирования)
+ */
+export function parseXmlAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([\w:-]+)="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = attributePattern.exec(source)) !== null) {
+        attributes[match[1]] = unescapeXml(match[2]);
+    }
+    return attributes;
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,89 @@
+import { isMainThread, parentPort, workerData } from 'worker_threads';
+import { parseSolutionOptions } from '../agent-response-parser';
+import { MessageBus, MessageType } from './message-bus';
+import { IpcTransport, WorkerThreadTransport } from './message-transport';
+
+/**
+ * Точка входа удаленного воркера (worker_threads или отдельный процесс Node)
+ * Модуль и его зависимости не используют vscode: в воркер выносятся чистые тяжелые операции,
+ * а вызовы моделей и инструменты workspace остаются в extension host
+ */
+
+/**
+ * Запрос операции воркеру (payload COLLABORATION_REQUEST)
+ */
+export interface RemoteOperationRequest {
+    operation: string;
+    args: any;
+}
+
+/**
+ * Ответ воркера (payload COLLABORATION_RESPONSE)
+ */
+export interface RemoteOperationResponse {
+    result?: any;
+    error?: string;
+}
+
+/**
+ * Операции, доступные в воркере
+ */
+export const REMOTE_OPERATIONS: Record<string, (args: any) => any> = {
+    // Регулярные выражения по длинным ответам LLM надолго занимают поток
+    parseOptions: (args: { text: string; agentName: string }) => parseSolutionOptions(args.text, args.agentName)
+};
+
+/**
+ * Переменные окружения процесса воркера в режиме ipc
+ */
+export const WORKER_ID_ENV = 'CURSOR_AUTONOMOUS_WORKER_ID';
+export const WORKER_SOCKET_ENV = 'CURSOR_AUTONOMOUS_WORKER_SOCKET';
+
+/**
+ * Обслуживать запросы операций на шине воркера и объявить о готовности (AGENT_STARTED)
+ */
+export async function serveRemoteOperations(bus: MessageBus, workerId: string): Promise<void> {
+    bus.subscribe(workerId, [MessageType.COLLABORATION_REQUEST], async message => {
+        const { operation, args } = message.payload as RemoteOperationRequest;
+        const handler = REMOTE_OPERATIONS[operation];
+        let response: RemoteOperationResponse;
+
+        if (!handler) {
+            response = { error: `Unknown operation: ${operation}` };
+        } else {
+            try {
+                response = { result: await handler(args) };
+            } catch (error: any) {
+                response = { error: error?.message || String(error) };
+            }
+        }
+        await bus.respond(message, MessageType.COLLABORATION_RESPONSE, response);
+    });
+
+    await bus.publish({
+        type: MessageType.AGENT_STARTED,
+        from: workerId,
+        payload: { operations: Object.keys(REMOTE_OPERATIONS), pid: process.pid }
+    });
+}
+
+if (!isMainThread && parentPort && workerData?.remoteWorkerId) {
+    const bus = new MessageBus();
+    bus.attachTransport(new WorkerThreadTransport(parentPort, `worker-thread:${workerData.remoteWorkerId}`));
+    serveRemoteOperations(bus, workerData.remoteWorkerId).catch(error =>
+        console.error('WorkerHost: Failed to start:', error));
+} else if (require.main === module && process.env[WORKER_ID_ENV] && process.env[WORKER_SOCKET_ENV]) {
+    const workerId = process.env[WORKER_ID_ENV]!;
+    IpcTransport.connect(process.env[WORKER_SOCKET_ENV]!, `ipc:${workerId}`)
+        .then(transport => {
+            const bus = new MessageBus();
+            bus.attachTransport(transport);
+            // Extension host закрыл сокет - процесс больше не нужен
+            transport.onClose(() => process.exit(0));
+            return serveRemoteOperations(bus, workerId);
+        })
+        .catch(error => {
+            console.error('WorkerHost: Failed to connect:', error);
+            process.exit(1);
+        });
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { Orchestrator } from './orchestrator/orchestrator';
+import { Orchestrator, Task } from './orchestrator/orchestrator';
 import { SelfLearningOrchestrator } from './orchestrator/self-learning-orchestrator';
 import { SettingsManager } from './integration/settings-manager';
 import { UIIntegration } from './integration/ui-integration';
@@ -10,12 +10,23 @@ import { CursorAPI } from './integration/cursor-api';
 import { AgentsStatusTreeProvider } from './ui/agents-status-tree';
 import { StatusPanel } from './ui/status-panel';
 import { AnalyticsPanel } from './ui/analytics-panel';
+import { TraceViewerPanel } from './ui/trace-viewer-panel';
 import { SettingsPanel } from './ui/settings-panel';
 import { AgentThoughts } from './agents/local-agent';
 import { ModelProviderManager } from './integration/model-providers/provider-manager';
 import { UsageTracker } from './integration/model-providers/usage-tracker';
 import { AutonomousOrchestratorIntegration } from './orchestrator/autonomous-orchestrator-integration';
 import { ContextMenuProvider } from './ui/context-menu-provider';
+import { getGlobalMCPServerRegistry } from './agents/worker/mcp/mcp-server-registry';
+import { TaskTransactionManager } from './orchestrator/task-transaction';
+import { FileLockManager } from './agents/worker/file-lock-manager';
+import { MessageBus } from './agents/worker/message-bus';
+import { JournalMessageLogStore, MESSAGE_LOG_PATH } from './agents/worker/message-log-store';
+import { OrchestratorLogger } from './orchestrator/orchestrator-logger';
+import { DependencyAuditor } from './quality/dependency-audit';
+import { TaskDeviationController } from './orchestrator/task-deviation-controller';
+import { AcceptanceCriterion, formatCheck, parseAcceptanceCriteria } from './orchestrator/acceptance-criteria';
+import { Telemetry, readTelemetryConfig } from './telemetry/telemetry';
 
 let orchestrator: SelfLearningOrchestrator | undefined;
 let virtualUser: VirtualUser | undefined;
@@ -63,6 +74,10 @@ export function activate(context: vscode.ExtensionContext) {
     // Инициализация автономной системы
     autonomousIntegration = new AutonomousOrchestratorIntegration(context, orchestrator);
     
+    // Конфликты параллельных изменений файлов, которые не удалось перенести автоматически, решает Virtual User
+    FileLockManager.getInstance().setEscalationHandler(async conflict =>
+        virtualUser ? virtualUser.resolveFileConflict(conflict) : false);
+    
     // Регистрация контекстного меню
     const contextMenuProvider = new ContextMenuProvider(autonomousIntegration);
     contextMenuProvider.register(context);
@@ -494,12 +509,16 @@ export function activate(context: vscode.ExtensionContext) {
 
         if (!priority) return;
 
+        const acceptanceCriteria = await promptAcceptanceCriteria(taskType.label as Task['type'], description);
+        if (!acceptanceCriteria) return;
+
         try {
             // Создание задачи
             const task = await orchestrator.createTask({
                 type: taskType.label as any,
                 description: description,
-                priority: priority.label as any
+                priority: priority.label as any,
+                acceptanceCriteria: acceptanceCriteria.length > 0 ? acceptanceCriteria : undefined
             });
 
             vscode.window.showInformationMessage(`Задача создана: ${task.id}. Запускается мозговой штурм...`);
@@ -516,6 +535,40 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    /**
+     * Критерии приемки новой задачи: свои (с проверками в [...]) или сгенерированные
+     * и подтвержденные пользователем; undefined - пользователь отменил ввод
+     */
+    async function promptAcceptanceCriteria(type: Task['type'], description: string): Promise<AcceptanceCriterion[] | undefined> {
+        const input = await vscode.window.showInputBox({
+            prompt: 'Критерии приемки через ; (пусто - сгенерировать). Проверки: [test: имя], [file: путь], [grep: glob /regex/], [ast: файл function имя], [http: GET http://localhost:3000/path 200]',
+            placeHolder: 'Поиск возвращает проекты по имени [test: searchProjects ищет по имени]; Есть документация [file: docs/search.md]',
+            validateInput: value => {
+                try {
+                    parseAcceptanceCriteria(value);
+                    return null;
+                } catch (error: any) {
+                    return error.message;
+                }
+            }
+        });
+        if (input === undefined) return undefined;
+        if (input.trim()) return parseAcceptanceCriteria(input);
+
+        const generated = await new TaskDeviationController().generateAcceptanceCriteria({ type, description });
+        const picked = await vscode.window.showQuickPick(
+            generated.map(criterion => ({
+                label: criterion.description,
+                description: criterion.check ? formatCheck(criterion.check) : 'без проверки',
+                picked: true,
+                criterion
+            })),
+            { canPickMany: true, placeHolder: 'Подтвердите критерии приемки' }
+        );
+        if (!picked) return undefined;
+        return picked.map(item => ({ ...item.criterion, confirmed: true }));
+    }
+
     // Функция отправки задачи в чат CursorAI
     async function sendTaskToChatHelper(task: any, orchestrator: Orchestrator): Promise<void> {
         try {
@@ -588,6 +641,14 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const showTraces = vscode.commands.registerCommand('cursor-autonomous.showTraces', (traceId?: string) => {
+        if (!vscode.workspace.workspaceFolders?.[0]) {
+            vscode.window.showErrorMessage('Откройте папку проекта');
+            return;
+        }
+        TraceViewerPanel.createOrShow(context.extensionUri, typeof traceId === 'string' ? traceId : undefined);
+    });
+
     const openSettings = vscode.commands.registerCommand('cursor-autonomous.openSettings', () => {
         const modelProviderManager = ModelProviderManager.getInstance();
         const usageTracker = UsageTracker.getInstance(context);
@@ -599,6 +660,110 @@ export function activate(context: vscode.ExtensionContext) {
         );
     });
 
+    const rollbackTask = vscode.commands.registerCommand('cursor-autonomous.rollbackTask', async (taskId?: string) => {
+        if (!orchestrator) {
+            vscode.window.showErrorMessage('Оркестратор не инициализирован');
+            return;
+        }
+
+        if (!taskId) {
+            const records = TaskTransactionManager.getInstance().list();
+            if (records.length === 0) {
+                vscode.window.showInformationMessage('Нет задач с изменениями для отката');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(records.map(record => ({
+                label: record.taskId,
+                description: orchestrator?.getTask(record.taskId)?.description || '',
+                detail: `Файлов: ${record.files.length}, ${new Date(record.startedAt).toLocaleString()}` +
+                    (record.status === 'active' ? ' (выполняется)' : '')
+            })), { placeHolder: 'Выберите задачу для отката изменений' });
+            if (!picked) {
+                return;
+            }
+            taskId = picked.label;
+        }
+
+        try {
+            let result = await orchestrator.rollbackTask(taskId);
+            if (result.conflicts.length > 0) {
+                const action = await vscode.window.showWarningMessage(
+                    `Файлы изменены после задачи: ${result.conflicts.join(', ')}. Откатить их с потерей последующих изменений?`,
+                    { modal: true },
+                    'Откатить принудительно'
+                );
+                if (action === 'Откатить принудительно') {
+                    const forced = await orchestrator.rollbackTask(taskId, true);
+                    result = { ...forced, restored: result.restored.concat(forced.restored) };
+                }
+            }
+
+            const failed = result.failed.length > 0 ? `\nНе удалось восстановить: ${result.failed.join(', ')}` : '';
+            vscode.window.showInformationMessage(`Откат задачи ${taskId}: восстановлено файлов ${result.restored.length}${failed}`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Не удалось откатить задачу: ${error.message}`);
+        }
+    });
+
+    const replayMessageLog = vscode.commands.registerCommand('cursor-autonomous.replayMessageLog', async () => {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showErrorMessage('Откройте папку проекта');
+            return;
+        }
+
+        // Журнал воспроизводится в отдельной шине, чтобы не разбудить работающих агентов
+        const store = new JournalMessageLogStore(vscode.Uri.joinPath(workspaceFolder.uri, MESSAGE_LOG_PATH).fsPath);
+        const entries = store.load();
+        const logger = OrchestratorLogger.getInstance();
+        const replayBus = new MessageBus();
+        replayBus.on('message', message => {
+            const payload = JSON.stringify(message.payload) || '';
+            logger.log(`${message.timestamp.toLocaleTimeString()} ${message.type} ${message.from} → ${message.to || '*'}` +
+                `${message.correlationId ? ` [${message.correlationId}]` : ''}: ${payload.length > 300 ? payload.substring(0, 300) + '…' : payload}`);
+        });
+
+        logger.clear();
+        logger.show();
+        const count = await replayBus.replay(store);
+        const deadLetters = entries.filter(entry => entry.op === 'dead-letter');
+        deadLetters.forEach(entry => {
+            if (entry.op === 'dead-letter') {
+                logger.warn(`Не доставлено ${entry.deadLetter.message.type} → ${entry.deadLetter.recipient}: ` +
+                    `${entry.deadLetter.error || entry.deadLetter.reason}`);
+            }
+        });
+        vscode.window.showInformationMessage(`Воспроизведено сообщений: ${count}, недоставленных: ${deadLetters.length}`);
+    });
+
+    const importAdvisoryDatabase = vscode.commands.registerCommand('cursor-autonomous.importAdvisoryDatabase', async () => {
+        if (!vscode.workspace.workspaceFolders?.[0]) {
+            vscode.window.showErrorMessage('Откройте папку проекта');
+            return;
+        }
+
+        // Распакованные дампы osv.dev (например, npm/all.zip) - каталоги или отдельные JSON файлы
+        const selected = await vscode.window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectFolders: true,
+            canSelectMany: true,
+            openLabel: 'Импортировать',
+            filters: { 'OSV JSON': ['json'] }
+        });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const auditor = DependencyAuditor.getInstance();
+        const { imported, total } = auditor.importAdvisories(selected.map(uri => uri.fsPath));
+        const audit = auditor.audit();
+        vscode.window.showInformationMessage(
+            `Импортировано advisories: ${imported} (в базе ${total}). ` +
+            `Уязвимых зависимостей: ${audit.vulnerabilities.length}, нарушений лицензий: ${audit.licenseViolations.length}`
+        );
+    });
+
     const refreshAgentsStatus = vscode.commands.registerCommand('cursor-autonomous.refreshAgentsStatus', () => {
         updateAgentsStatus();
         if (agentsStatusTreeProvider) {
@@ -932,8 +1097,12 @@ ${stats.health ? `Здоровье:
         runQualityCheck,
         showStatusPanel,
         showAnalytics,
+        showTraces,
         openSettings,
         refreshAgentsStatus,
+        rollbackTask,
+        replayMessageLog,
+        importAdvisoryDatabase,
         showAgentDetails,
         sendTaskToChat
     );
@@ -1103,12 +1272,25 @@ ${stats.health ? `Здоровье:
                     });
                 }
                 
+                // Переподключение MCP серверов при изменении их списка
+                if (e.affectsConfiguration('cursor-autonomous.mcp')) {
+                    getGlobalMCPServerRegistry().reload().catch(err => {
+                        console.error('Error reconnecting MCP servers:', err);
+                    });
+                }
+                
                 // Обновление настроек качества при изменении
                 if (e.affectsConfiguration('cursor-autonomous.quality')) {
                     applyQualitySettings();
                     console.log('Quality settings updated from configuration');
                 }
                 
+                // Перенастройка экспорта телеметрии (накопленное отправляется старым экспортерам)
+                if (e.affectsConfiguration('cursor-autonomous.telemetry')) {
+                    const telemetry = Telemetry.getInstance();
+                    telemetry.flush().then(() => telemetry.configure(readTelemetryConfig()));
+                }
+                
                 updateStatusBar();
             }
         })
@@ -1242,4 +1424,9 @@ export function deactivate() {
         selfImprover.stop();
         selfImprover.dispose();
     }
+    // Завершаем процессы MCP серверов и выполняем последний экспорт телеметрии
+    return Promise.all([
+        getGlobalMCPServerRegistry().disconnectAll(),
+        Telemetry.getInstance().shutdown()
+    ]);
 }
@@ -0,0 +1,119 @@
+/**
+ * Тесты построчного чтения потоковых ответов провайдеров
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+import { parseSseData, streamHttpLines } from '../model-providers/http-stream';
+import { ProviderHttpError, RequestCancelledError } from '../model-providers/retry';
+
+describe('Потоковые ответы провайдеров', () => {
+  let server: http.Server;
+  let url: URL;
+  let respond: (response: http.ServerResponse) => Promise<void>;
+  let closed: Promise<void>;
+
+  const pause = () => new Promise(resolve => setTimeout(resolve, 20));
+
+  // Каждый чанк отправляется отдельно, чтобы клиент получил его отдельным событием
+  const sendChunks = (chunks: Buffer[]) => async (response: http.ServerResponse) => {
+    response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const chunk of chunks) {
+      response.write(chunk);
+      await pause();
+    }
+    response.end();
+  };
+
+  const collect = async (options: { signal?: AbortSignal } = {}) => {
+    const lines: string[] = [];
+    for await (const line of streamHttpLines(url, { timeout: 5000, body: { stream: true }, ...options })) {
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  beforeEach(async () => {
+    server = http.createServer((request, response) => {
+      closed = new Promise(resolve => response.on('close', resolve));
+      request.resume();
+      request.on('end', () => respond(response));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/chat`);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('должен собирать строки SSE, разрезанные между чанками, и пропускать [DONE]', async () => {
+    respond = sendChunks([
+      'data: {"text":"На',
+      'чало"}\r\n\r\ndata: {"text":"конец"}\n',
+      ': keep-alive\nevent: done\ndata: [DONE]\n'
+    ].map(chunk => Buffer.from(chunk)));
+
+    const lines = await collect();
+    expect(lines).toEqual(['data: {"text":"Начало"}', 'data: {"text":"конец"}', ': keep-alive', 'event: done', 'data: [DONE]']);
+    expect(lines.map(parseSseData).filter(Boolean)).toEqual([{ text: 'Начало' }, { text: 'конец' }]);
+  });
+
+  it('должен склеивать многобайтовые символы UTF-8, разрезанные между чанками', async () => {
+    const body = Buffer.from('data: {"text":"привет 👋"}\n');
+    const cyrillic = body.indexOf(Buffer.from('и')) + 1;
+    const emoji = body.indexOf(Buffer.from('👋')) + 2;
+    respond = sendChunks([body.subarray(0, cyrillic), body.subarray(cyrillic, emoji), body.subarray(emoji)]);
+
+    const lines = await collect();
+    expect(lines.map(parseSseData)).toEqual([{ text: 'привет 👋' }]);
+  });
+
+  it('должен читать NDJSON с последней строкой без перевода строки', async () => {
+    respond = sendChunks([
+      '{"message":{"content":"a"},"done":false}\n{"message":',
+      '{"content":"b"},"done":false}\n\n{"done":true}'
+    ].map(chunk => Buffer.from(chunk)));
+
+    const lines = await collect();
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      { message: { content: 'a' }, done: false },
+      { message: { content: 'b' }, done: false },
+      { done: true }
+    ]);
+  });
+
+  it('должен выбрасывать ProviderHttpError с телом ответа и Retry-After', async () => {
+    respond = async response => {
+      response.writeHead(429, { 'Retry-After': '3' });
+      response.end('{"error":"rate limited"}');
+    };
+
+    const error = await collect().catch(error => error);
+    expect(error).toBeInstanceOf(ProviderHttpError);
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 3000 });
+    expect(error.message).toContain('rate limited');
+  });
+
+  it('должен прерывать чтение потока при отмене и закрывать соединение', async () => {
+    respond = async response => {
+      response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      response.write('{"n":1}\n');
+      // Сервер продолжает держать поток открытым, пока клиент не отключится
+    };
+
+    const controller = new AbortController();
+    const lines: string[] = [];
+    const reading = (async () => {
+      for await (const line of streamHttpLines(url, { timeout: 5000, signal: controller.signal })) {
+        lines.push(line);
+        controller.abort();
+      }
+    })();
+
+    await expect(reading).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(lines).toEqual(['{"n":1}']);
+    await closed;
+  });
+});
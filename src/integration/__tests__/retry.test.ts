@@ -0,0 +1,49 @@
+/**
+ * Тесты повторов и отмены запросов к провайдерам
+ */
+
+import {
+  withRetry,
+  parseRetryAfter,
+  ProviderHttpError,
+  RequestCancelledError
+} from '../model-providers/retry';
+
+describe('Повторы запросов к провайдерам', () => {
+  it('должен разбирать Retry-After в секундах и как HTTP дату', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const delay = parseRetryAfter(date)!;
+    expect(delay).toBeGreaterThan(3000);
+    expect(delay).toBeLessThanOrEqual(5000);
+  });
+
+  it('должен повторять 429 с задержкой из Retry-After', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new ProviderHttpError('rate limited', 429, 10))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry(operation, { retries: 2 })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('не должен повторять ошибки клиента', async () => {
+    const operation = jest.fn().mockRejectedValue(new ProviderHttpError('bad request', 400));
+
+    await expect(withRetry(operation, { retries: 3 })).rejects.toThrow('bad request');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('должен прерывать ожидание повтора при отмене', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn().mockRejectedValue(new ProviderHttpError('unavailable', 503, 30000));
+
+    const pending = withRetry(operation, { retries: 3, signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Тесты JSON протокола вызова инструментов
+ * Используется провайдерами без нативного function-calling
+ */
+
+import { parseJsonToolResponse, buildJsonToolPrompt } from '../model-providers/tool-protocol';
+
+describe('JSON протокол инструментов', () => {
+  const toolNames = ['readFile', 'applyPatch', 'finish'];
+
+  it('должен разбирать tool_calls внутри markdown блока', () => {
+    const text = 'Сначала прочитаю файл.\n```json\n{"tool_calls": [{"name": "readFile", "arguments": {"path": "src/a.ts"}}]}\n```';
+
+    const { toolCalls } = parseJsonToolResponse(text, toolNames);
+
+    expect(toolCalls).toHaveLength(1);
+    expect(toolCalls[0].name).toBe('readFile');
+    expect(toolCalls[0].arguments).toEqual({ path: 'src/a.ts' });
+  });
+
+  it('должен учитывать фигурные скобки внутри строк', () => {
+    const text = '{"tool_calls": [{"name": "applyPatch", "arguments": {"path": "a.ts", "content": "function f() { return \\"}\\"; }"}}]}';
+
+    const { toolCalls } = parseJsonToolResponse(text, toolNames);
+
+    expect(toolCalls[0].arguments.content).toBe('function f() { return "}"; }');
+  });
+
+  it('должен возвращать финальный текст без вызовов', () => {
+    expect(parseJsonToolResponse('{"final": "готово"}', toolNames)).toEqual({ toolCalls: [], text: 'готово' });
+    expect(parseJsonToolResponse('Просто текст', toolNames)).toEqual({ toolCalls: [], text: 'Просто текст' });
+  });
+
+  it('должен включать результаты инструментов в промпт', () => {
+    const prompt = buildJsonToolPrompt(
+      [
+        { role: 'system', content: 'Ты - агент' },
+        { role: 'user', content: 'Исправь баг' },
+        { role: 'assistant', content: '', toolCalls: [{ id: '1', name: 'readFile', arguments: { path: 'a.ts' } }] },
+        { role: 'tool', toolCallId: '1', name: 'readFile', content: 'const a = 1;' }
+      ],
+      [{ name: 'readFile', description: 'Прочитать файл', parameters: { type: 'object', properties: {} } }]
+    );
+
+    expect(prompt.startsWith('Ты - агент')).toBe(true);
+    expect(prompt).toContain('- readFile: Прочитать файл');
+    expect(prompt).toContain('РЕЗУЛЬТАТ ИНСТРУМЕНТА readFile (1):\nconst a = 1;');
+  });
+});
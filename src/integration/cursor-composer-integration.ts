@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { AgentSolution } from '../agents/local-agent';
 import { FileChange } from '../agents/worker/mcp-client';
+import { PatchFailure, applyPatch, formatPatchFailures, isPatchChange } from '../agents/worker/patch-applier';
 
 /**
  * Результат работы Composer
@@ -10,6 +11,7 @@ export interface ComposerResult {
     filesChanged: string[];
     error?: string;
     message?: string;
+    failedHunks?: PatchFailure[];
 }
 
 /**
@@ -89,12 +91,14 @@ export class CursorComposerIntegration {
         // Извлекаем из solution.solution.codeChanges
         if (solution.solution.codeChanges) {
             for (const change of solution.solution.codeChanges) {
-                const filePath = change.file;
-                // Используем информацию из codeChanges
+                // Описание изменения не является содержимым файла: без патча или content
+                // изменение остается на усмотрение Composer и напрямую не применяется
                 changes.push({
                     type: change.type,
-                    path: filePath,
-                    content: change.description // Используем description как контент
+                    path: change.file,
+                    content: change.content,
+                    diff: change.diff,
+                    edits: change.edits
                 });
             }
         }
@@ -147,6 +151,7 @@ export class CursorComposerIntegration {
     private async applyChangesDirect(fileChanges: FileChange[]): Promise<ComposerResult> {
         const edit = new vscode.WorkspaceEdit();
         const filesChanged: string[] = [];
+        const failedHunks: PatchFailure[] = [];
         
         for (const change of fileChanges) {
             try {
@@ -168,7 +173,21 @@ export class CursorComposerIntegration {
                         break;
                         
                     case 'modify':
-                        if (change.content) {
+                        if (isPatchChange(change)) {
+                            // Файл с неприменившимися ханками не трогаем, остальные файлы применяем
+                            const document = await vscode.workspace.openTextDocument(uri);
+                            const result = applyPatch(document.getText(), change);
+                            if (result.failed.length > 0) {
+                                failedHunks.push({ path: change.path, hunks: result.failed });
+                                break;
+                            }
+                            const fullRange = new vscode.Range(
+                                document.positionAt(0),
+                                document.positionAt(document.getText().length)
+                            );
+                            edit.replace(uri, fullRange, result.content);
+                            filesChanged.push(change.path);
+                        } else if (change.content) {
                             const document = await vscode.workspace.openTextDocument(uri);
                             const fullRange = new vscode.Range(
                                 document.positionAt(0),
@@ -189,22 +208,30 @@ export class CursorComposerIntegration {
             }
         }
         
+        const patchError = failedHunks.length > 0 ? formatPatchFailures(failedHunks) : undefined;
+        if (patchError) {
+            console.warn(`CursorComposerIntegration: ${patchError}`);
+        }
+        
         if (filesChanged.length > 0) {
             const success = await vscode.workspace.applyEdit(edit);
             
             return {
-                success,
-                filesChanged,
+                success: success && !patchError,
+                filesChanged: success ? filesChanged : [],
                 message: success 
                     ? `Applied ${filesChanged.length} changes directly` 
-                    : 'Failed to apply some changes'
+                    : 'Failed to apply some changes',
+                error: patchError,
+                failedHunks: patchError ? failedHunks : undefined
             };
         }
         
         return {
             success: false,
             filesChanged: [],
-            error: 'No changes to apply'
+            error: patchError || 'No changes to apply',
+            failedHunks: patchError ? failedHunks : undefined
         };
     }
     
@@ -6,7 +6,9 @@
 import * as http from 'http';
 import * as https from 'https';
 import { URL } from 'url';
-import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig } from './base-provider';
+import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig, ChatMessage, ToolDefinition, ToolCallResult, StreamChunk } from './base-provider';
+import { streamHttpLines, parseSseData } from './http-stream';
+import { ProviderHttpError, RequestCancelledError, isCancellationError, parseRetryAfter } from './retry';
 
 interface ClaudeResponse {
     id: string;
@@ -14,7 +16,10 @@ interface ClaudeResponse {
     role: string;
     content: Array<{
         type: string;
-        text: string;
+        text?: string;
+        id?: string;
+        name?: string;
+        input?: any;
     }>;
     model: string;
     stop_reason: string;
@@ -54,7 +59,7 @@ export class AnthropicProvider extends BaseModelProvider {
     /**
      * Выполнить HTTP запрос через встроенные модули Node.js
      */
-    private async makeRequest<T>(path: string, method: string = 'GET', body?: any): Promise<T> {
+    private async makeRequest<T>(path: string, method: string = 'GET', body?: any, signal?: AbortSignal): Promise<T> {
         return new Promise((resolve, reject) => {
             try {
                 const url = new URL(path, this.baseUrl);
@@ -72,7 +77,8 @@ export class AnthropicProvider extends BaseModelProvider {
                         'x-api-key': this.config.apiKey || '',
                         'anthropic-version': '2023-06-01'
                     },
-                    timeout: this.timeout
+                    timeout: this.timeout,
+                    signal
                 };
 
                 const req = httpModule.request(options, (res) => {
@@ -94,7 +100,11 @@ export class AnthropicProvider extends BaseModelProvider {
                                     resolve({} as T);
                                 }
                             } else {
-                                reject(new Error(`HTTP error! status: ${res.statusCode}, body: ${data}`));
+                                reject(new ProviderHttpError(
+                                    `HTTP error! status: ${res.statusCode}, body: ${data}`,
+                                    res.statusCode || 0,
+                                    parseRetryAfter(res.headers['retry-after'])
+                                ));
                             }
                         } catch (error: any) {
                             reject(new Error(`Failed to parse response: ${error.message}, body: ${data}`));
@@ -103,6 +113,10 @@ export class AnthropicProvider extends BaseModelProvider {
                 });
 
                 req.on('error', (error) => {
+                    if (isCancellationError(error)) {
+                        reject(new RequestCancelledError());
+                        return;
+                    }
                     console.error(`AnthropicProvider: Request error for ${this.baseUrl}${path}:`, error);
                     reject(error);
                 });
@@ -171,47 +185,207 @@ export class AnthropicProvider extends BaseModelProvider {
         const model = options?.model || this.config.model || this.defaultModel;
 
         try {
+            const requestBody = this.buildMessagesRequest(prompt, model, options);
+
+            const response = await this.withRetries(
+                () => this.makeRequest<ClaudeResponse>('/messages', 'POST', requestBody, options?.signal),
+                options
+            );
+            const responseTime = Date.now() - startTime;
+
+            if (!response.content || response.content.length === 0) {
+                throw new Error('No response from Anthropic Claude');
+            }
+
+            const text = response.content[0].text || '';
+            const usage = response.usage;
+
+            // Расчет стоимости
+            const cost = (usage.input_tokens * this.modelInfo.costPerToken!.input) +
+                        (usage.output_tokens * this.modelInfo.costPerToken!.output);
+
+            return {
+                text,
+                tokensUsed: {
+                    input: usage.input_tokens,
+                    output: usage.output_tokens
+                },
+                cost,
+                responseTime
+            };
+        } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('AnthropicProvider: Error calling model:', error);
+            throw new Error(`Anthropic provider error: ${error.message}`);
+        }
+    }
+
+    async *callStream(prompt: string, options?: CallOptions): AsyncGenerator<StreamChunk> {
+        if (!this.config.apiKey) {
+            throw new Error('Anthropic API key is not configured');
+        }
+
+        const startTime = Date.now();
+        const model = options?.model || this.config.model || this.defaultModel;
+        const requestBody = { ...this.buildMessagesRequest(prompt, model, options), stream: true };
+
+        let text = '';
+        let inputTokens: number | undefined;
+        let outputTokens: number | undefined;
+
+        try {
+            const lines = streamHttpLines(new URL(this.baseUrl.replace(/\/$/, '') + '/messages'), {
+                headers: {
+                    'x-api-key': this.config.apiKey,
+                    'anthropic-version': '2023-06-01'
+                },
+                body: requestBody,
+                timeout: this.timeout,
+                signal: options?.signal
+            });
+
+            for await (const line of lines) {
+                const event = parseSseData(line);
+                if (!event) {
+                    continue;
+                }
+
+                switch (event.type) {
+                    case 'message_start':
+                        inputTokens = event.message?.usage?.input_tokens;
+                        break;
+                    case 'content_block_delta':
+                        if (event.delta?.type === 'text_delta' && event.delta.text) {
+                            text += event.delta.text;
+                            yield { type: 'delta', text: event.delta.text };
+                        }
+                        break;
+                    case 'message_delta':
+                        outputTokens = event.usage?.output_tokens ?? outputTokens;
+                        break;
+                    case 'error':
+                        throw new Error(event.error?.message || 'Stream error');
+                }
+            }
+        } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('AnthropicProvider: Error streaming model:', error);
+            throw new Error(`Anthropic provider error: ${error.message}`);
+        }
+
+        const input = inputTokens ?? Math.ceil(prompt.length / 4);
+        const output = outputTokens ?? Math.ceil(text.length / 4);
+
+        yield {
+            type: 'done',
+            result: {
+                text,
+                tokensUsed: { input, output },
+                cost: (input * this.modelInfo.costPerToken!.input) +
+                      (output * this.modelInfo.costPerToken!.output),
+                responseTime: Date.now() - startTime
+            }
+        };
+    }
+
+    /**
+     * Тело запроса /messages для одиночного промпта
+     */
+    private buildMessagesRequest(prompt: string, model: string, options?: CallOptions): any {
+        const requestBody: any = {
+            model: model,
+            max_tokens: options?.maxTokens ?? this.config.maxTokens ?? 1000,
+            messages: [
+                {
+                    role: 'user',
+                    content: prompt
+                }
+            ]
+        };
+
+        if (options?.temperature !== undefined) {
+            requestBody.temperature = options.temperature;
+        } else if (this.config.temperature !== undefined) {
+            requestBody.temperature = this.config.temperature;
+        }
+
+        if (options?.topP !== undefined) {
+            requestBody.top_p = options.topP;
+        }
+
+        if (options?.stopSequences && options.stopSequences.length > 0) {
+            requestBody.stop_sequences = options.stopSequences;
+        }
+
+        return requestBody;
+    }
+
+    async callWithTools(messages: ChatMessage[], tools: ToolDefinition[], options?: CallOptions): Promise<ToolCallResult> {
+        if (!this.config.apiKey) {
+            throw new Error('Anthropic API key is not configured');
+        }
+
+        const startTime = Date.now();
+        const model = options?.model || this.config.model || this.defaultModel;
+
+        try {
+            const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
             const requestBody: any = {
                 model: model,
                 max_tokens: options?.maxTokens ?? this.config.maxTokens ?? 1000,
-                messages: [
-                    {
-                        role: 'user',
-                        content: prompt
-                    }
-                ]
+                messages: this.toClaudeMessages(messages.filter(m => m.role !== 'system')),
+                tools: tools.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    input_schema: tool.parameters
+                }))
             };
 
+            if (system) {
+                requestBody.system = system;
+            }
+
             if (options?.temperature !== undefined) {
                 requestBody.temperature = options.temperature;
             } else if (this.config.temperature !== undefined) {
                 requestBody.temperature = this.config.temperature;
             }
 
-            if (options?.topP !== undefined) {
-                requestBody.top_p = options.topP;
-            }
-
-            if (options?.stopSequences && options.stopSequences.length > 0) {
-                requestBody.stop_sequences = options.stopSequences;
-            }
-
-            const response = await this.makeRequest<ClaudeResponse>('/messages', 'POST', requestBody);
+            const response = await this.withRetries(
+                () => this.makeRequest<ClaudeResponse>('/messages', 'POST', requestBody, options?.signal),
+                options
+            );
             const responseTime = Date.now() - startTime;
 
-            if (!response.content || response.content.length === 0) {
-                throw new Error('No response from Anthropic Claude');
+            // makeRequest возвращает пустой объект на 400 (используется для проверки доступности)
+            if (!response.content) {
+                throw new Error('Anthropic rejected the tool request');
             }
 
-            const text = response.content[0].text;
+            const text = response.content
+                .filter(block => block.type === 'text')
+                .map(block => block.text || '')
+                .join('');
+            const toolCalls = response.content
+                .filter(block => block.type === 'tool_use')
+                .map(block => ({
+                    id: block.id || this.createToolCallId(),
+                    name: block.name || '',
+                    arguments: this.parseToolArguments(block.input)
+                }));
             const usage = response.usage;
 
-            // Расчет стоимости
             const cost = (usage.input_tokens * this.modelInfo.costPerToken!.input) +
                         (usage.output_tokens * this.modelInfo.costPerToken!.output);
 
             return {
                 text,
+                toolCalls,
+                stopReason: toolCalls.length > 0 ? 'tool_calls' : (response.stop_reason === 'max_tokens' ? 'length' : 'stop'),
                 tokensUsed: {
                     input: usage.input_tokens,
                     output: usage.output_tokens
@@ -220,11 +394,51 @@ export class AnthropicProvider extends BaseModelProvider {
                 responseTime
             };
         } catch (error: any) {
-            console.error('AnthropicProvider: Error calling model:', error);
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('AnthropicProvider: Error calling model with tools:', error);
             throw new Error(`Anthropic provider error: ${error.message}`);
         }
     }
 
+    /**
+     * Преобразовать диалог в формат Messages API
+     * Результаты инструментов подряд объединяются в одно сообщение user с блоками tool_result
+     */
+    private toClaudeMessages(messages: ChatMessage[]): any[] {
+        const result: any[] = [];
+
+        for (const message of messages) {
+            if (message.role === 'tool') {
+                const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+                const last = result[result.length - 1];
+                if (last && last.role === 'user' && Array.isArray(last.content) && last.content[0]?.type === 'tool_result') {
+                    last.content.push(block);
+                } else {
+                    result.push({ role: 'user', content: [block] });
+                }
+                continue;
+            }
+
+            if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+                const content: any[] = [];
+                if (message.content) {
+                    content.push({ type: 'text', text: message.content });
+                }
+                for (const call of message.toolCalls) {
+                    content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+                }
+                result.push({ role: 'assistant', content });
+                continue;
+            }
+
+            result.push({ role: message.role, content: message.content });
+        }
+
+        return result;
+    }
+
     async getAvailableModels(): Promise<ModelInfo[]> {
         // Anthropic API не предоставляет endpoint для списка моделей
         // Возвращаем список известных моделей
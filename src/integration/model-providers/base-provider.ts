@@ -3,6 +3,9 @@
  * Обеспечивает единообразный интерфейс для работы с разными моделями
  */
 
+import { withRetry } from './retry';
+import { estimateTokens } from '../../optimization/token-estimator';
+
 /**
  * Тип провайдера модели
  */
@@ -36,6 +39,7 @@ export interface CallOptions {
     presencePenalty?: number;
     stopSequences?: string[];
     model?: string; // конкретная модель для использования
+    signal?: AbortSignal; // отмена запроса (например, при отмене задачи)
 }
 
 /**
@@ -51,6 +55,57 @@ export interface CallResult {
     responseTime?: number;
 }
 
+/**
+ * Событие потокового ответа модели
+ * delta - очередной фрагмент текста, done - финальный результат с usage и стоимостью
+ */
+export type StreamChunk =
+    | { type: 'delta'; text: string }
+    | { type: 'done'; result: CallResult };
+
+/**
+ * Описание инструмента для function-calling
+ * parameters - JSON Schema аргументов
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: {
+        type: 'object';
+        properties: { [key: string]: any };
+        required?: string[];
+    };
+}
+
+/**
+ * Запрос модели на вызов инструмента
+ */
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: { [key: string]: any };
+}
+
+/**
+ * Сообщение диалога с моделью
+ * role 'tool' - результат вызова инструмента (toolCallId + name)
+ */
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    toolCalls?: ToolCall[];
+    toolCallId?: string;
+    name?: string;
+}
+
+/**
+ * Результат вызова модели с инструментами
+ */
+export interface ToolCallResult extends CallResult {
+    toolCalls: ToolCall[];
+    stopReason: 'stop' | 'tool_calls' | 'length';
+}
+
 /**
  * Конфигурация провайдера
  */
@@ -62,6 +117,7 @@ export interface ProviderConfig {
     maxTokens?: number;
     timeout?: number;
     retries?: number;
+    embeddingModel?: string; // модель эмбеддингов для семантического поиска по коду
     [key: string]: any; // для дополнительных настроек
 }
 
@@ -84,6 +140,24 @@ export interface IModelProvider {
      */
     call(prompt: string, options?: CallOptions): Promise<CallResult>;
 
+    /**
+     * Вызвать модель с инструментами (нативный function-calling)
+     * Провайдеры без поддержки не реализуют метод - для них используется JSON протокол
+     */
+    callWithTools?(messages: ChatMessage[], tools: ToolDefinition[], options?: CallOptions): Promise<ToolCallResult>;
+
+    /**
+     * Вызвать модель с потоковым ответом
+     * Провайдеры без поддержки не реализуют метод - для них ответ приходит одним фрагментом
+     */
+    callStream?(prompt: string, options?: CallOptions): AsyncIterable<StreamChunk>;
+
+    /**
+     * Получить эмбеддинги текстов моделью config.embeddingModel
+     * Провайдеры без поддержки не реализуют метод - семантический индекс использует TF-IDF
+     */
+    embed?(texts: string[], options?: CallOptions): Promise<number[][]>;
+
     /**
      * Проверить доступность провайдера
      */
@@ -133,8 +207,7 @@ export abstract class BaseModelProvider implements IModelProvider {
     }
 
     estimateCost(prompt: string, options?: CallOptions): number {
-        // Базовая оценка: примерно 4 символа = 1 токен
-        const estimatedTokens = Math.ceil(prompt.length / 4);
+        const estimatedTokens = estimateTokens(prompt);
         const maxOutputTokens = options?.maxTokens || this.config.maxTokens || 1000;
         const totalTokens = estimatedTokens + maxOutputTokens;
 
@@ -147,6 +220,43 @@ export abstract class BaseModelProvider implements IModelProvider {
         return 0; // Неизвестная стоимость
     }
 
+    /**
+     * Выполнить запрос с повторами (config.retries) и отменой через options.signal
+     */
+    protected async withRetries<T>(operation: () => Promise<T>, options?: CallOptions): Promise<T> {
+        return await withRetry(operation, {
+            retries: this.config.retries ?? 2,
+            signal: options?.signal,
+            label: this.getProviderType()
+        });
+    }
+
+    /**
+     * Разбор аргументов инструмента (модели возвращают их строкой JSON или объектом)
+     */
+    protected parseToolArguments(raw: any): { [key: string]: any } {
+        if (!raw) {
+            return {};
+        }
+        if (typeof raw === 'object') {
+            return raw;
+        }
+        try {
+            const parsed = JSON.parse(raw);
+            return parsed && typeof parsed === 'object' ? parsed : {};
+        } catch (error) {
+            console.warn(`${this.getProviderType()}: Failed to parse tool arguments: ${String(raw).substring(0, 200)}`);
+            return {};
+        }
+    }
+
+    /**
+     * Сгенерировать ID вызова инструмента для API, которые его не возвращают
+     */
+    protected createToolCallId(): string {
+        return `call-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    }
+
     updateConfig(config: Partial<ProviderConfig>): void {
         this.config = { ...this.config, ...config };
     }
@@ -5,6 +5,7 @@
 
 import { BaseModelProvider, IModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig } from './base-provider';
 import { CursorAPI } from '../cursor-api';
+import { throwIfCancelled, isCancellationError } from './retry';
 import { LanguageModelInfo } from '../model-provider';
 
 export class CursorAIProvider extends BaseModelProvider {
@@ -78,6 +79,9 @@ export class CursorAIProvider extends BaseModelProvider {
         const startTime = Date.now();
 
         try {
+            // CursorAPI не поддерживает прерывание запроса - проверяем отмену до и после вызова
+            throwIfCancelled(options?.signal);
+
             // Убеждаемся, что фоновый агент создан
             const agentInstructions = `Ты - AI помощник. Твоя задача - помогать пользователю в разработке, предоставляя детальные и точные ответы.`;
             
@@ -92,6 +96,7 @@ export class CursorAIProvider extends BaseModelProvider {
 
             // Отправляем сообщение через CursorAPI
             const response = await CursorAPI.sendMessageToAgent(this.agentId, prompt, modelId);
+            throwIfCancelled(options?.signal);
             
             const responseTime = Date.now() - startTime;
 
@@ -108,6 +113,9 @@ export class CursorAIProvider extends BaseModelProvider {
                 responseTime
             };
         } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
             console.error('CursorAIProvider: Error calling model:', error);
             throw new Error(`CursorAI provider error: ${error.message}`);
         }
@@ -6,13 +6,19 @@
 import * as http from 'http';
 import * as https from 'https';
 import { URL } from 'url';
-import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig } from './base-provider';
+import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig, ChatMessage, ToolDefinition, ToolCallResult, StreamChunk } from './base-provider';
+import { streamHttpLines, parseSseData } from './http-stream';
+import { ProviderHttpError, RequestCancelledError, isCancellationError, parseRetryAfter } from './retry';
 
 interface GeminiResponse {
     candidates: Array<{
         content: {
             parts: Array<{
-                text: string;
+                text?: string;
+                functionCall?: {
+                    name: string;
+                    args?: any;
+                };
             }>;
             role: string;
         };
@@ -59,7 +65,7 @@ export class GoogleProvider extends BaseModelProvider {
     /**
      * Выполнить HTTP запрос через встроенные модули Node.js
      */
-    private async makeRequest<T>(path: string, method: string = 'GET', body?: any): Promise<T> {
+    private async makeRequest<T>(path: string, method: string = 'GET', body?: any, signal?: AbortSignal): Promise<T> {
         return new Promise((resolve, reject) => {
             try {
                 const url = new URL(path, this.baseUrl);
@@ -78,7 +84,8 @@ export class GoogleProvider extends BaseModelProvider {
                     headers: {
                         'Content-Type': 'application/json'
                     },
-                    timeout: this.timeout
+                    timeout: this.timeout,
+                    signal
                 };
 
                 const req = httpModule.request(options, (res) => {
@@ -94,7 +101,11 @@ export class GoogleProvider extends BaseModelProvider {
                                 const parsed = JSON.parse(data);
                                 resolve(parsed as T);
                             } else {
-                                reject(new Error(`HTTP error! status: ${res.statusCode}, body: ${data}`));
+                                reject(new ProviderHttpError(
+                                    `HTTP error! status: ${res.statusCode}, body: ${data}`,
+                                    res.statusCode || 0,
+                                    parseRetryAfter(res.headers['retry-after']) ?? this.parseRetryDelay(data)
+                                ));
                             }
                         } catch (error: any) {
                             reject(new Error(`Failed to parse response: ${error.message}, body: ${data}`));
@@ -103,6 +114,10 @@ export class GoogleProvider extends BaseModelProvider {
                 });
 
                 req.on('error', (error) => {
+                    if (isCancellationError(error)) {
+                        reject(new RequestCancelledError());
+                        return;
+                    }
                     console.error(`GoogleProvider: Request error for ${this.baseUrl}${path}:`, error);
                     reject(error);
                 });
@@ -124,6 +139,14 @@ export class GoogleProvider extends BaseModelProvider {
         });
     }
 
+    /**
+     * Задержка повтора из тела ошибки Gemini (RetryInfo.retryDelay, например "30s")
+     */
+    private parseRetryDelay(body: string): number | undefined {
+        const match = body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+        return match ? parseFloat(match[1]) * 1000 : undefined;
+    }
+
     getProviderType(): ModelProviderType {
         return 'google';
     }
@@ -159,32 +182,181 @@ export class GoogleProvider extends BaseModelProvider {
         const model = options?.model || this.config.model || this.defaultModel;
 
         try {
+            const requestBody = this.buildGenerateRequest(prompt, options);
+
+            const response = await this.withRetries(
+                () => this.makeRequest<GeminiResponse>(
+                    `/models/${model}:generateContent`,
+                    'POST',
+                    requestBody,
+                    options?.signal
+                ),
+                options
+            );
+            const responseTime = Date.now() - startTime;
+
+            if (!response.candidates || response.candidates.length === 0) {
+                throw new Error('No response from Google Gemini');
+            }
+
+            const text = response.candidates[0].content.parts[0].text || '';
+            const usage = response.usageMetadata;
+
+            // Расчет стоимости
+            let cost = 0;
+            if (usage) {
+                cost = (usage.promptTokenCount * this.modelInfo.costPerToken!.input) +
+                       (usage.candidatesTokenCount * this.modelInfo.costPerToken!.output);
+            }
+
+            return {
+                text,
+                tokensUsed: usage ? {
+                    input: usage.promptTokenCount,
+                    output: usage.candidatesTokenCount
+                } : undefined,
+                cost,
+                responseTime
+            };
+        } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('GoogleProvider: Error calling model:', error);
+            throw new Error(`Google provider error: ${error.message}`);
+        }
+    }
+
+    async *callStream(prompt: string, options?: CallOptions): AsyncGenerator<StreamChunk> {
+        if (!this.config.apiKey) {
+            throw new Error('Google API key is not configured');
+        }
+
+        const startTime = Date.now();
+        const model = options?.model || this.config.model || this.defaultModel;
+
+        let text = '';
+        let usage: GeminiResponse['usageMetadata'];
+
+        try {
+            const url = new URL(`${this.baseUrl.replace(/\/$/, '')}/models/${model}:streamGenerateContent`);
+            url.searchParams.set('alt', 'sse');
+            url.searchParams.set('key', this.config.apiKey);
+
+            const lines = streamHttpLines(url, {
+                body: this.buildGenerateRequest(prompt, options),
+                timeout: this.timeout,
+                signal: options?.signal
+            });
+
+            for await (const line of lines) {
+                const event = parseSseData(line) as GeminiResponse | undefined;
+                if (!event) {
+                    continue;
+                }
+
+                const delta = (event.candidates?.[0]?.content?.parts || [])
+                    .map(part => part.text || '')
+                    .join('');
+                if (delta) {
+                    text += delta;
+                    yield { type: 'delta', text: delta };
+                }
+
+                // usageMetadata накапливается, итоговые значения - в последнем событии
+                if (event.usageMetadata) {
+                    usage = event.usageMetadata;
+                }
+            }
+        } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('GoogleProvider: Error streaming model:', error);
+            throw new Error(`Google provider error: ${error.message}`);
+        }
+
+        const input = usage?.promptTokenCount ?? Math.ceil(prompt.length / 4);
+        const output = usage?.candidatesTokenCount ?? Math.ceil(text.length / 4);
+
+        yield {
+            type: 'done',
+            result: {
+                text,
+                tokensUsed: { input, output },
+                cost: (input * this.modelInfo.costPerToken!.input) +
+                      (output * this.modelInfo.costPerToken!.output),
+                responseTime: Date.now() - startTime
+            }
+        };
+    }
+
+    /**
+     * Тело запроса generateContent для одиночного промпта
+     */
+    private buildGenerateRequest(prompt: string, options?: CallOptions): any {
+        const requestBody: any = {
+            contents: [
+                {
+                    parts: [
+                        {
+                            text: prompt
+                        }
+                    ]
+                }
+            ],
+            generationConfig: {
+                temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+                maxOutputTokens: options?.maxTokens ?? this.config.maxTokens ?? 1000,
+                topP: options?.topP ?? 0.95,
+                topK: 40
+            }
+        };
+
+        if (options?.stopSequences && options.stopSequences.length > 0) {
+            requestBody.generationConfig.stopSequences = options.stopSequences;
+        }
+
+        return requestBody;
+    }
+
+    async callWithTools(messages: ChatMessage[], tools: ToolDefinition[], options?: CallOptions): Promise<ToolCallResult> {
+        if (!this.config.apiKey) {
+            throw new Error('Google API key is not configured');
+        }
+
+        const startTime = Date.now();
+        const model = options?.model || this.config.model || this.defaultModel;
+
+        try {
+            const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
             const requestBody: any = {
-                contents: [
-                    {
-                        parts: [
-                            {
-                                text: prompt
-                            }
-                        ]
-                    }
-                ],
+                contents: this.toGeminiContents(messages.filter(m => m.role !== 'system')),
+                tools: [{
+                    functionDeclarations: tools.map(tool => ({
+                        name: tool.name,
+                        description: tool.description,
+                        parameters: tool.parameters
+                    }))
+                }],
                 generationConfig: {
                     temperature: options?.temperature ?? this.config.temperature ?? 0.7,
-                    maxOutputTokens: options?.maxTokens ?? this.config.maxTokens ?? 1000,
-                    topP: options?.topP ?? 0.95,
-                    topK: 40
+                    maxOutputTokens: options?.maxTokens ?? this.config.maxTokens ?? 1000
                 }
             };
 
-            if (options?.stopSequences && options.stopSequences.length > 0) {
-                requestBody.generationConfig.stopSequences = options.stopSequences;
+            if (system) {
+                requestBody.systemInstruction = { parts: [{ text: system }] };
             }
 
-            const response = await this.makeRequest<GeminiResponse>(
-                `/models/${model}:generateContent`,
-                'POST',
-                requestBody
+            const response = await this.withRetries(
+                () => this.makeRequest<GeminiResponse>(
+                    `/models/${model}:generateContent`,
+                    'POST',
+                    requestBody,
+                    options?.signal
+                ),
+                options
             );
             const responseTime = Date.now() - startTime;
 
@@ -192,10 +364,19 @@ export class GoogleProvider extends BaseModelProvider {
                 throw new Error('No response from Google Gemini');
             }
 
-            const text = response.candidates[0].content.parts[0].text;
+            const candidate = response.candidates[0];
+            const parts = candidate.content?.parts || [];
+            const text = parts.filter(part => part.text).map(part => part.text).join('');
+            // Gemini не возвращает ID вызовов - генерируем свои
+            const toolCalls = parts
+                .filter(part => part.functionCall)
+                .map(part => ({
+                    id: this.createToolCallId(),
+                    name: part.functionCall!.name,
+                    arguments: this.parseToolArguments(part.functionCall!.args)
+                }));
             const usage = response.usageMetadata;
 
-            // Расчет стоимости
             let cost = 0;
             if (usage) {
                 cost = (usage.promptTokenCount * this.modelInfo.costPerToken!.input) +
@@ -204,6 +385,8 @@ export class GoogleProvider extends BaseModelProvider {
 
             return {
                 text,
+                toolCalls,
+                stopReason: toolCalls.length > 0 ? 'tool_calls' : (candidate.finishReason === 'MAX_TOKENS' ? 'length' : 'stop'),
                 tokensUsed: usage ? {
                     input: usage.promptTokenCount,
                     output: usage.candidatesTokenCount
@@ -212,11 +395,51 @@ export class GoogleProvider extends BaseModelProvider {
                 responseTime
             };
         } catch (error: any) {
-            console.error('GoogleProvider: Error calling model:', error);
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('GoogleProvider: Error calling model with tools:', error);
             throw new Error(`Google provider error: ${error.message}`);
         }
     }
 
+    /**
+     * Преобразовать диалог в формат contents Gemini API
+     * Результаты инструментов подряд объединяются в одно сообщение с частями functionResponse
+     */
+    private toGeminiContents(messages: ChatMessage[]): any[] {
+        const contents: any[] = [];
+
+        for (const message of messages) {
+            if (message.role === 'tool') {
+                const part = { functionResponse: { name: message.name || '', response: { content: message.content } } };
+                const last = contents[contents.length - 1];
+                if (last && last.role === 'user' && last.parts[0]?.functionResponse) {
+                    last.parts.push(part);
+                } else {
+                    contents.push({ role: 'user', parts: [part] });
+                }
+                continue;
+            }
+
+            if (message.role === 'assistant') {
+                const parts: any[] = [];
+                if (message.content) {
+                    parts.push({ text: message.content });
+                }
+                for (const call of message.toolCalls || []) {
+                    parts.push({ functionCall: { name: call.name, args: call.arguments } });
+                }
+                contents.push({ role: 'model', parts });
+                continue;
+            }
+
+            contents.push({ role: 'user', parts: [{ text: message.content }] });
+        }
+
+        return contents;
+    }
+
     async getAvailableModels(): Promise<ModelInfo[]> {
         try {
             const response = await this.makeRequest<{ models: any[] }>('/models', 'GET');
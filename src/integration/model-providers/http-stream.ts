@@ -0,0 +1,112 @@
+/**
+ * Потоковые HTTP запросы для провайдеров моделей
+ * Ответ читается построчно: SSE (OpenAI, Anthropic, Google) или NDJSON (Ollama)
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { URL } from 'url';
+import { ProviderHttpError, RequestCancelledError, isCancellationError, parseRetryAfter } from './retry';
+
+export interface StreamRequestOptions {
+    method?: string;
+    headers?: { [key: string]: string };
+    body?: any;
+    timeout: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Выполнить запрос и вернуть строки тела ответа по мере поступления
+ * Для статуса вне 2xx тело читается целиком и выбрасывается ProviderHttpError
+ */
+export async function* streamHttpLines(url: URL, options: StreamRequestOptions): AsyncGenerator<string> {
+    const isHttps = url.protocol === 'https:';
+    const httpModule = isHttps ? https : http;
+
+    const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+        const req = httpModule.request({
+            hostname: url.hostname,
+            port: url.port ? parseInt(url.port) : (isHttps ? 443 : 80),
+            path: url.pathname + url.search,
+            method: options.method || 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...options.headers
+            },
+            timeout: options.timeout,
+            signal: options.signal
+        }, resolve);
+
+        req.on('error', (error) => reject(isCancellationError(error) ? new RequestCancelledError() : error));
+        req.on('timeout', () => {
+            req.destroy(new Error(`Request timeout after ${options.timeout}ms`));
+        });
+
+        if (options.body) {
+            req.write(JSON.stringify(options.body));
+        }
+
+        req.end();
+    });
+
+    // Многобайтовые символы могут приходить разрезанными между чанками
+    response.setEncoding('utf8');
+
+    if (!response.statusCode || response.statusCode < 200 || response.statusCode >= 300) {
+        let data = '';
+        for await (const chunk of response) {
+            data += chunk;
+        }
+        throw new ProviderHttpError(
+            `HTTP error! status: ${response.statusCode}, body: ${data}`,
+            response.statusCode || 0,
+            parseRetryAfter(response.headers['retry-after'])
+        );
+    }
+
+    let buffer = '';
+    try {
+        for await (const chunk of response) {
+            buffer += chunk;
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.substring(0, newlineIndex).replace(/\r$/, '');
+                buffer = buffer.substring(newlineIndex + 1);
+                if (line) {
+                    yield line;
+                }
+            }
+        }
+    } catch (error) {
+        // Отмена посреди ответа обрывает сокет и приходит как ECONNRESET
+        throw options.signal?.aborted || isCancellationError(error) ? new RequestCancelledError() : error;
+    }
+
+    if (buffer.trim()) {
+        yield buffer.trim();
+    }
+}
+
+/**
+ * Извлечь JSON из строки SSE "data: {...}"
+ * Возвращает undefined для служебных строк (event:, комментарии, [DONE])
+ */
+export function parseSseData(line: string): any | undefined {
+    if (!line.startsWith('data:')) {
+        return undefined;
+    }
+
+    const payload = line.substring(5).trim();
+    if (!payload || payload === '[DONE]') {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(payload);
+    } catch (error) {
+        console.warn(`Failed to parse SSE payload: ${payload.substring(0, 200)}`);
+        return undefined;
+    }
+}
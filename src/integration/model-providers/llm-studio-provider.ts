@@ -4,7 +4,7 @@
  * или может использовать собственный API, если доступен
  */
 
-import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig } from './base-provider';
+import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig, ChatMessage, ToolDefinition, ToolCallResult, StreamChunk } from './base-provider';
 import { OllamaProvider } from './ollama-provider';
 
 export class LLMStudioProvider extends BaseModelProvider {
@@ -60,6 +60,16 @@ export class LLMStudioProvider extends BaseModelProvider {
         };
     }
 
+    async *callStream(prompt: string, options?: CallOptions): AsyncGenerator<StreamChunk> {
+        // Делегируем потоковый вызов OllamaProvider
+        yield* this.ollamaProvider.callStream(prompt, options);
+    }
+
+    async callWithTools(messages: ChatMessage[], tools: ToolDefinition[], options?: CallOptions): Promise<ToolCallResult> {
+        // Делегируем вызов OllamaProvider (/api/chat с tools)
+        return await this.ollamaProvider.callWithTools(messages, tools, options);
+    }
+
     async getAvailableModels(): Promise<ModelInfo[]> {
         const models = await this.ollamaProvider.getAvailableModels();
         
@@ -6,7 +6,9 @@
 import * as http from 'http';
 import * as https from 'https';
 import { URL } from 'url';
-import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig } from './base-provider';
+import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig, ChatMessage, ToolDefinition, ToolCallResult, StreamChunk } from './base-provider';
+import { streamHttpLines } from './http-stream';
+import { ProviderHttpError, RequestCancelledError, isCancellationError, parseRetryAfter } from './retry';
 
 interface OllamaResponse {
     model: string;
@@ -22,6 +24,25 @@ interface OllamaResponse {
     eval_duration?: number;
 }
 
+interface OllamaChatResponse {
+    model: string;
+    created_at: string;
+    message: {
+        role: string;
+        content: string;
+        tool_calls?: Array<{
+            function: {
+                name: string;
+                arguments: any;
+            };
+        }>;
+    };
+    done: boolean;
+    done_reason?: string;
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
 interface OllamaModel {
     name: string;
     modified_at: string;
@@ -66,7 +87,7 @@ export class OllamaProvider extends BaseModelProvider {
     /**
      * Выполнить HTTP запрос через встроенные модули Node.js
      */
-    private async makeRequest<T>(path: string, method: string = 'GET', body?: any): Promise<T> {
+    private async makeRequest<T>(path: string, method: string = 'GET', body?: any, signal?: AbortSignal): Promise<T> {
         return new Promise((resolve, reject) => {
             try {
                 const url = new URL(path, this.baseUrl);
@@ -82,7 +103,8 @@ export class OllamaProvider extends BaseModelProvider {
                     headers: {
                         'Content-Type': 'application/json'
                     },
-                    timeout: this.timeout
+                    timeout: this.timeout,
+                    signal
                 };
                 
                 console.log(`OllamaProvider: Making ${method} request to ${url.hostname}:${port}${url.pathname}`);
@@ -100,7 +122,11 @@ export class OllamaProvider extends BaseModelProvider {
                                 const parsed = JSON.parse(data);
                                 resolve(parsed as T);
                             } else {
-                                reject(new Error(`HTTP error! status: ${res.statusCode}, body: ${data}`));
+                                reject(new ProviderHttpError(
+                                    `HTTP error! status: ${res.statusCode}, body: ${data}`,
+                                    res.statusCode || 0,
+                                    parseRetryAfter(res.headers['retry-after'])
+                                ));
                             }
                         } catch (error: any) {
                             reject(new Error(`Failed to parse response: ${error.message}, body: ${data}`));
@@ -109,6 +135,10 @@ export class OllamaProvider extends BaseModelProvider {
                 });
 
                 req.on('error', (error) => {
+                    if (isCancellationError(error)) {
+                        reject(new RequestCancelledError());
+                        return;
+                    }
                     console.error(`OllamaProvider: Request error for ${this.baseUrl}${path}:`, error);
                     reject(error);
                 });
@@ -171,74 +201,237 @@ export class OllamaProvider extends BaseModelProvider {
         console.log(`OllamaProvider: Selected model = ${model}`);
 
         try {
-            const requestBody: any = {
-                model: model,
-                prompt: prompt,
-                stream: false
-            };
+            const requestBody = this.buildGenerateRequest(prompt, model, options, false);
 
-            if (options?.temperature !== undefined) {
-                requestBody.options = {
-                    temperature: options.temperature
-                };
-            } else if (this.config.temperature !== undefined) {
-                requestBody.options = {
-                    temperature: this.config.temperature
-                };
+            const response = await this.withRetries(
+                () => this.makeRequest<OllamaResponse>('/api/generate', 'POST', requestBody, options?.signal),
+                options
+            );
+            const responseTime = Date.now() - startTime;
+
+            if (!response.response) {
+                throw new Error('No response from Ollama');
             }
 
-            if (options?.maxTokens !== undefined) {
-                if (!requestBody.options) {
-                    requestBody.options = {};
+            const text = response.response;
+
+            // Оценка токенов (примерно 4 символа = 1 токен)
+            const inputTokens = response.prompt_eval_count || Math.ceil(prompt.length / 4);
+            const outputTokens = response.eval_count || Math.ceil(text.length / 4);
+
+            return {
+                text,
+                tokensUsed: {
+                    input: inputTokens,
+                    output: outputTokens
+                },
+                cost: 0, // Локальные модели бесплатны
+                responseTime
+            };
+        } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('OllamaProvider: Error calling model:', error);
+            throw new Error(`Ollama provider error: ${error.message || error}`);
+        }
+    }
+
+    async *callStream(prompt: string, options?: CallOptions): AsyncGenerator<StreamChunk> {
+        const startTime = Date.now();
+        const model = options?.model || this.config.model || this.defaultModel;
+
+        let text = '';
+        let finalEvent: OllamaResponse | undefined;
+
+        try {
+            // Ollama отдает NDJSON: по объекту на строку, последний с done: true и счетчиками токенов
+            const lines = streamHttpLines(new URL('/api/generate', this.baseUrl), {
+                body: this.buildGenerateRequest(prompt, model, options, true),
+                timeout: this.timeout,
+                signal: options?.signal
+            });
+
+            for await (const line of lines) {
+                const event = JSON.parse(line) as OllamaResponse & { error?: string };
+                if (event.error) {
+                    throw new Error(event.error);
                 }
-                requestBody.options.num_predict = options.maxTokens;
-            } else if (this.config.maxTokens !== undefined) {
-                if (!requestBody.options) {
-                    requestBody.options = {};
+
+                if (event.response) {
+                    text += event.response;
+                    yield { type: 'delta', text: event.response };
                 }
-                requestBody.options.num_predict = this.config.maxTokens;
-            }
 
-            if (options?.topP !== undefined) {
-                if (!requestBody.options) {
-                    requestBody.options = {};
+                if (event.done) {
+                    finalEvent = event;
                 }
-                requestBody.options.top_p = options.topP;
             }
+        } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('OllamaProvider: Error streaming model:', error);
+            throw new Error(`Ollama provider error: ${error.message || error}`);
+        }
 
-            if (options?.stopSequences && options.stopSequences.length > 0) {
-                requestBody.options = requestBody.options || {};
-                requestBody.options.stop = options.stopSequences;
+        yield {
+            type: 'done',
+            result: {
+                text,
+                tokensUsed: {
+                    input: finalEvent?.prompt_eval_count || Math.ceil(prompt.length / 4),
+                    output: finalEvent?.eval_count || Math.ceil(text.length / 4)
+                },
+                cost: 0, // Локальные модели бесплатны
+                responseTime: Date.now() - startTime
             }
+        };
+    }
+
+    /**
+     * Тело запроса /api/generate
+     */
+    private buildGenerateRequest(prompt: string, model: string, options: CallOptions | undefined, stream: boolean): any {
+        const requestBody: any = {
+            model: model,
+            prompt: prompt,
+            stream: stream
+        };
+
+        if (options?.temperature !== undefined) {
+            requestBody.options = {
+                temperature: options.temperature
+            };
+        } else if (this.config.temperature !== undefined) {
+            requestBody.options = {
+                temperature: this.config.temperature
+            };
+        }
+
+        if (options?.maxTokens !== undefined) {
+            if (!requestBody.options) {
+                requestBody.options = {};
+            }
+            requestBody.options.num_predict = options.maxTokens;
+        } else if (this.config.maxTokens !== undefined) {
+            if (!requestBody.options) {
+                requestBody.options = {};
+            }
+            requestBody.options.num_predict = this.config.maxTokens;
+        }
+
+        if (options?.topP !== undefined) {
+            if (!requestBody.options) {
+                requestBody.options = {};
+            }
+            requestBody.options.top_p = options.topP;
+        }
+
+        if (options?.stopSequences && options.stopSequences.length > 0) {
+            requestBody.options = requestBody.options || {};
+            requestBody.options.stop = options.stopSequences;
+        }
+
+        return requestBody;
+    }
+
+    async callWithTools(messages: ChatMessage[], tools: ToolDefinition[], options?: CallOptions): Promise<ToolCallResult> {
+        const startTime = Date.now();
+        const model = options?.model || this.config.model || this.defaultModel;
+
+        try {
+            const requestBody: any = {
+                model: model,
+                messages: messages.map(message => this.toOllamaMessage(message)),
+                tools: tools.map(tool => ({
+                    type: 'function',
+                    function: {
+                        name: tool.name,
+                        description: tool.description,
+                        parameters: tool.parameters
+                    }
+                })),
+                stream: false,
+                options: {
+                    temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+                    num_predict: options?.maxTokens ?? this.config.maxTokens ?? 1000
+                }
+            };
 
-            const response = await this.makeRequest<OllamaResponse>('/api/generate', 'POST', requestBody);
+            const response = await this.withRetries(
+                () => this.makeRequest<OllamaChatResponse>('/api/chat', 'POST', requestBody, options?.signal),
+                options
+            );
             const responseTime = Date.now() - startTime;
 
-            if (!response.response) {
+            if (!response.message) {
                 throw new Error('No response from Ollama');
             }
 
-            const text = response.response;
+            const text = response.message.content || '';
+            // Ollama не возвращает ID вызовов - генерируем свои
+            const toolCalls = (response.message.tool_calls || []).map(call => ({
+                id: this.createToolCallId(),
+                name: call.function.name,
+                arguments: this.parseToolArguments(call.function.arguments)
+            }));
 
-            // Оценка токенов (примерно 4 символа = 1 токен)
-            const inputTokens = response.prompt_eval_count || Math.ceil(prompt.length / 4);
-            const outputTokens = response.eval_count || Math.ceil(text.length / 4);
+            const promptLength = messages.reduce((sum, m) => sum + m.content.length, 0);
 
             return {
                 text,
+                toolCalls,
+                stopReason: toolCalls.length > 0 ? 'tool_calls' : (response.done_reason === 'length' ? 'length' : 'stop'),
                 tokensUsed: {
-                    input: inputTokens,
-                    output: outputTokens
+                    input: response.prompt_eval_count || Math.ceil(promptLength / 4),
+                    output: response.eval_count || Math.ceil(text.length / 4)
                 },
-                cost: 0, // Локальные модели бесплатны
+                cost: 0,
                 responseTime
             };
         } catch (error: any) {
-            console.error('OllamaProvider: Error calling model:', error);
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('OllamaProvider: Error calling model with tools:', error);
             throw new Error(`Ollama provider error: ${error.message || error}`);
         }
     }
 
+    async embed(texts: string[], options?: CallOptions): Promise<number[][]> {
+        const model = this.config.embeddingModel;
+        if (!model) {
+            throw new Error('Ollama embedding model is not configured');
+        }
+
+        const response = await this.withRetries(
+            () => this.makeRequest<{ embeddings: number[][] }>('/api/embed', 'POST', { model, input: texts }, options?.signal),
+            options
+        );
+        if (!response.embeddings || response.embeddings.length !== texts.length) {
+            throw new Error('Ollama returned unexpected embeddings response');
+        }
+        return response.embeddings;
+    }
+
+    /**
+     * Преобразовать сообщение диалога в формат /api/chat
+     */
+    private toOllamaMessage(message: ChatMessage): any {
+        if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+            return {
+                role: 'assistant',
+                content: message.content,
+                tool_calls: message.toolCalls.map(call => ({
+                    function: { name: call.name, arguments: call.arguments }
+                }))
+            };
+        }
+
+        return { role: message.role, content: message.content };
+    }
+
     async getAvailableModels(): Promise<ModelInfo[]> {
         try {
             console.log(`OllamaProvider: Getting available models from ${this.baseUrl}/api/tags`);
@@ -6,7 +6,9 @@
 import * as http from 'http';
 import * as https from 'https';
 import { URL } from 'url';
-import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig } from './base-provider';
+import { BaseModelProvider, ModelProviderType, ModelInfo, CallOptions, CallResult, ProviderConfig, ChatMessage, ToolDefinition, ToolCallResult, StreamChunk } from './base-provider';
+import { streamHttpLines, parseSseData } from './http-stream';
+import { ProviderHttpError, RequestCancelledError, isCancellationError, parseRetryAfter } from './retry';
 
 interface OpenAIResponse {
     id: string;
@@ -17,7 +19,12 @@ interface OpenAIResponse {
         index: number;
         message: {
             role: string;
-            content: string;
+            content: string | null;
+            tool_calls?: Array<{
+                id: string;
+                type: 'function';
+                function: { name: string; arguments: string };
+            }>;
         };
         finish_reason: string;
     }>;
@@ -57,7 +64,7 @@ export class OpenAIProvider extends BaseModelProvider {
     /**
      * Выполнить HTTP запрос через встроенные модули Node.js
      */
-    private async makeRequest<T>(path: string, method: string = 'GET', body?: any): Promise<T> {
+    private async makeRequest<T>(path: string, method: string = 'GET', body?: any, signal?: AbortSignal): Promise<T> {
         return new Promise((resolve, reject) => {
             try {
                 const url = new URL(path, this.baseUrl);
@@ -74,7 +81,8 @@ export class OpenAIProvider extends BaseModelProvider {
                         'Content-Type': 'application/json',
                         'Authorization': `Bearer ${this.config.apiKey || ''}`
                     },
-                    timeout: this.timeout
+                    timeout: this.timeout,
+                    signal
                 };
 
                 const req = httpModule.request(options, (res) => {
@@ -90,7 +98,11 @@ export class OpenAIProvider extends BaseModelProvider {
                                 const parsed = JSON.parse(data);
                                 resolve(parsed as T);
                             } else {
-                                reject(new Error(`HTTP error! status: ${res.statusCode}, body: ${data}`));
+                                reject(new ProviderHttpError(
+                                    `HTTP error! status: ${res.statusCode}, body: ${data}`,
+                                    res.statusCode || 0,
+                                    parseRetryAfter(res.headers['retry-after'])
+                                ));
                             }
                         } catch (error: any) {
                             reject(new Error(`Failed to parse response: ${error.message}, body: ${data}`));
@@ -99,6 +111,10 @@ export class OpenAIProvider extends BaseModelProvider {
                 });
 
                 req.on('error', (error) => {
+                    if (isCancellationError(error)) {
+                        reject(new RequestCancelledError());
+                        return;
+                    }
                     console.error(`OpenAIProvider: Request error for ${this.baseUrl}${path}:`, error);
                     reject(error);
                 });
@@ -155,48 +171,189 @@ export class OpenAIProvider extends BaseModelProvider {
         const startTime = Date.now();
         const model = options?.model || this.config.model || this.defaultModel;
 
+        try {
+            const requestBody = this.buildCompletionRequest(prompt, model, options);
+
+            const response = await this.withRetries(
+                () => this.makeRequest<OpenAIResponse>('/chat/completions', 'POST', requestBody, options?.signal),
+                options
+            );
+            const responseTime = Date.now() - startTime;
+
+            if (!response.choices || response.choices.length === 0) {
+                throw new Error('No response from OpenAI');
+            }
+
+            const text = response.choices[0].message.content || '';
+            const usage = response.usage;
+
+            // Расчет стоимости
+            const cost = (usage.prompt_tokens * this.modelInfo.costPerToken!.input) +
+                        (usage.completion_tokens * this.modelInfo.costPerToken!.output);
+
+            return {
+                text,
+                tokensUsed: {
+                    input: usage.prompt_tokens,
+                    output: usage.completion_tokens
+                },
+                cost,
+                responseTime
+            };
+        } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('OpenAIProvider: Error calling model:', error);
+            throw new Error(`OpenAI provider error: ${error.message}`);
+        }
+    }
+
+    async *callStream(prompt: string, options?: CallOptions): AsyncGenerator<StreamChunk> {
+        if (!this.config.apiKey) {
+            throw new Error('OpenAI API key is not configured');
+        }
+
+        const startTime = Date.now();
+        const model = options?.model || this.config.model || this.defaultModel;
+        const requestBody = {
+            ...this.buildCompletionRequest(prompt, model, options),
+            stream: true,
+            stream_options: { include_usage: true }
+        };
+
+        let text = '';
+        let usage: OpenAIResponse['usage'] | undefined;
+
+        try {
+            const lines = streamHttpLines(new URL(this.baseUrl.replace(/\/$/, '') + '/chat/completions'), {
+                headers: { 'Authorization': `Bearer ${this.config.apiKey}` },
+                body: requestBody,
+                timeout: this.timeout,
+                signal: options?.signal
+            });
+
+            for await (const line of lines) {
+                const event = parseSseData(line);
+                if (!event) {
+                    continue;
+                }
+
+                const delta = event.choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    yield { type: 'delta', text: delta };
+                }
+
+                // Последний чанк содержит usage (stream_options.include_usage)
+                if (event.usage) {
+                    usage = event.usage;
+                }
+            }
+        } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('OpenAIProvider: Error streaming model:', error);
+            throw new Error(`OpenAI provider error: ${error.message}`);
+        }
+
+        const inputTokens = usage?.prompt_tokens ?? Math.ceil(prompt.length / 4);
+        const outputTokens = usage?.completion_tokens ?? Math.ceil(text.length / 4);
+
+        yield {
+            type: 'done',
+            result: {
+                text,
+                tokensUsed: { input: inputTokens, output: outputTokens },
+                cost: (inputTokens * this.modelInfo.costPerToken!.input) +
+                      (outputTokens * this.modelInfo.costPerToken!.output),
+                responseTime: Date.now() - startTime
+            }
+        };
+    }
+
+    /**
+     * Тело запроса /chat/completions для одиночного промпта
+     */
+    private buildCompletionRequest(prompt: string, model: string, options?: CallOptions): any {
+        const requestBody: any = {
+            model: model,
+            messages: [
+                {
+                    role: 'user',
+                    content: prompt
+                }
+            ],
+            temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? this.config.maxTokens ?? 1000
+        };
+
+        if (options?.topP !== undefined) {
+            requestBody.top_p = options.topP;
+        }
+        if (options?.frequencyPenalty !== undefined) {
+            requestBody.frequency_penalty = options.frequencyPenalty;
+        }
+        if (options?.presencePenalty !== undefined) {
+            requestBody.presence_penalty = options.presencePenalty;
+        }
+        if (options?.stopSequences && options.stopSequences.length > 0) {
+            requestBody.stop = options.stopSequences;
+        }
+
+        return requestBody;
+    }
+
+    async callWithTools(messages: ChatMessage[], tools: ToolDefinition[], options?: CallOptions): Promise<ToolCallResult> {
+        if (!this.config.apiKey) {
+            throw new Error('OpenAI API key is not configured');
+        }
+
+        const startTime = Date.now();
+        const model = options?.model || this.config.model || this.defaultModel;
+
         try {
             const requestBody: any = {
                 model: model,
-                messages: [
-                    {
-                        role: 'user',
-                        content: prompt
+                messages: messages.map(message => this.toOpenAIMessage(message)),
+                tools: tools.map(tool => ({
+                    type: 'function',
+                    function: {
+                        name: tool.name,
+                        description: tool.description,
+                        parameters: tool.parameters
                     }
-                ],
+                })),
                 temperature: options?.temperature ?? this.config.temperature ?? 0.7,
                 max_tokens: options?.maxTokens ?? this.config.maxTokens ?? 1000
             };
 
-            if (options?.topP !== undefined) {
-                requestBody.top_p = options.topP;
-            }
-            if (options?.frequencyPenalty !== undefined) {
-                requestBody.frequency_penalty = options.frequencyPenalty;
-            }
-            if (options?.presencePenalty !== undefined) {
-                requestBody.presence_penalty = options.presencePenalty;
-            }
-            if (options?.stopSequences && options.stopSequences.length > 0) {
-                requestBody.stop = options.stopSequences;
-            }
-
-            const response = await this.makeRequest<OpenAIResponse>('/chat/completions', 'POST', requestBody);
+            const response = await this.withRetries(
+                () => this.makeRequest<OpenAIResponse>('/chat/completions', 'POST', requestBody, options?.signal),
+                options
+            );
             const responseTime = Date.now() - startTime;
 
             if (!response.choices || response.choices.length === 0) {
                 throw new Error('No response from OpenAI');
             }
 
-            const text = response.choices[0].message.content;
+            const choice = response.choices[0];
             const usage = response.usage;
+            const toolCalls = (choice.message.tool_calls || []).map(call => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: this.parseToolArguments(call.function.arguments)
+            }));
 
-            // Расчет стоимости
             const cost = (usage.prompt_tokens * this.modelInfo.costPerToken!.input) +
                         (usage.completion_tokens * this.modelInfo.costPerToken!.output);
 
             return {
-                text,
+                text: choice.message.content || '',
+                toolCalls,
+                stopReason: toolCalls.length > 0 ? 'tool_calls' : (choice.finish_reason === 'length' ? 'length' : 'stop'),
                 tokensUsed: {
                     input: usage.prompt_tokens,
                     output: usage.completion_tokens
@@ -205,11 +362,55 @@ export class OpenAIProvider extends BaseModelProvider {
                 responseTime
             };
         } catch (error: any) {
-            console.error('OpenAIProvider: Error calling model:', error);
+            if (isCancellationError(error)) {
+                throw error;
+            }
+            console.error('OpenAIProvider: Error calling model with tools:', error);
             throw new Error(`OpenAI provider error: ${error.message}`);
         }
     }
 
+    async embed(texts: string[], options?: CallOptions): Promise<number[][]> {
+        if (!this.config.apiKey) {
+            throw new Error('OpenAI API key is not configured');
+        }
+        const model = this.config.embeddingModel;
+        if (!model) {
+            throw new Error('OpenAI embedding model is not configured');
+        }
+
+        const response = await this.withRetries(
+            () => this.makeRequest<{ data: Array<{ index: number; embedding: number[] }> }>(
+                '/embeddings', 'POST', { model, input: texts }, options?.signal
+            ),
+            options
+        );
+        return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    }
+
+    /**
+     * Преобразовать сообщение диалога в формат Chat Completions API
+     */
+    private toOpenAIMessage(message: ChatMessage): any {
+        if (message.role === 'tool') {
+            return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+        }
+
+        if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+            return {
+                role: 'assistant',
+                content: message.content || null,
+                tool_calls: message.toolCalls.map(call => ({
+                    id: call.id,
+                    type: 'function',
+                    function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+                }))
+            };
+        }
+
+        return { role: message.role, content: message.content };
+    }
+
     async getAvailableModels(): Promise<ModelInfo[]> {
         try {
             const response = await this.makeRequest<{ data: any[] }>('/models', 'GET');
@@ -4,7 +4,9 @@
  */
 
 import * as vscode from 'vscode';
-import { IModelProvider, ModelProviderType, ProviderConfig, ModelInfo, CallOptions, CallResult } from './base-provider';
+import { IModelProvider, ModelProviderType, ProviderConfig, ModelInfo, CallOptions, CallResult, ChatMessage, ToolDefinition, ToolCallResult, StreamChunk } from './base-provider';
+import { callWithJsonToolProtocol } from './tool-protocol';
+import { isCancellationError } from './retry';
 import { SettingsManager } from '../settings-manager';
 
 export class ModelProviderManager {
@@ -134,6 +136,11 @@ export class ModelProviderManager {
         try {
             return await provider.call(prompt, finalOptions);
         } catch (error: any) {
+            // Отмененный запрос не переадресуем на fallback - задача больше не нужна
+            if (isCancellationError(error)) {
+                throw error;
+            }
+
             console.error(`ModelProviderManager: Error calling provider for agent ${agentId}:`, error);
             
             // Пробуем fallback
@@ -147,6 +154,135 @@ export class ModelProviderManager {
         }
     }
 
+    /**
+     * Вызвать модель для агента с потоковым ответом
+     * Fallback на другой провайдер возможен только до получения первого фрагмента
+     */
+    async *callForAgentStream(agentId: string, prompt: string, options?: CallOptions): AsyncGenerator<StreamChunk> {
+        const provider = await this.getProviderForAgent(agentId);
+
+        if (!provider) {
+            throw new Error(`No available provider found for agent ${agentId}`);
+        }
+
+        const config = vscode.workspace.getConfiguration('cursor-autonomous');
+        const agentConfig = config.get<{ model?: string; modelConfig?: ProviderConfig }>(`agents.${agentId}`, {});
+
+        const finalOptions: CallOptions = {
+            ...options,
+            model: options?.model || agentConfig.modelConfig?.model || undefined
+        };
+
+        let receivedChunks = false;
+        try {
+            for await (const chunk of this.streamProvider(provider, prompt, finalOptions)) {
+                receivedChunks = true;
+                yield chunk;
+            }
+        } catch (error: any) {
+            console.error(`ModelProviderManager: Error streaming provider for agent ${agentId}:`, error);
+
+            if (receivedChunks || isCancellationError(error)) {
+                throw error;
+            }
+
+            const fallbackProvider = await this.getFallbackProvider(provider.getProviderType());
+            if (!fallbackProvider) {
+                throw error;
+            }
+
+            console.log(`ModelProviderManager: Trying fallback provider stream for agent ${agentId}`);
+            yield* this.streamProvider(fallbackProvider, prompt, finalOptions);
+        }
+    }
+
+    /**
+     * Потоковый вызов провайдера; без поддержки стриминга ответ отдается одним фрагментом
+     */
+    private async *streamProvider(provider: IModelProvider, prompt: string, options: CallOptions): AsyncGenerator<StreamChunk> {
+        if (provider.callStream) {
+            yield* provider.callStream(prompt, options);
+            return;
+        }
+
+        const result = await provider.call(prompt, options);
+        if (result.text) {
+            yield { type: 'delta', text: result.text };
+        }
+        yield { type: 'done', result };
+    }
+
+    /**
+     * Вызвать модель для агента с инструментами (function-calling)
+     * Провайдеры без нативной поддержки работают через JSON протокол
+     */
+    async callForAgentWithTools(
+        agentId: string,
+        messages: ChatMessage[],
+        tools: ToolDefinition[],
+        options?: CallOptions
+    ): Promise<ToolCallResult> {
+        const provider = await this.getProviderForAgent(agentId);
+
+        if (!provider) {
+            throw new Error(`No available provider found for agent ${agentId}`);
+        }
+
+        const config = vscode.workspace.getConfiguration('cursor-autonomous');
+        const agentConfig = config.get<{ model?: string; modelConfig?: ProviderConfig }>(`agents.${agentId}`, {});
+
+        const finalOptions: CallOptions = {
+            ...options,
+            model: options?.model || agentConfig.modelConfig?.model || undefined
+        };
+
+        try {
+            return await this.callProviderWithTools(provider, messages, tools, finalOptions);
+        } catch (error: any) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
+
+            console.error(`ModelProviderManager: Error calling provider with tools for agent ${agentId}:`, error);
+
+            const fallbackProvider = await this.getFallbackProvider(provider.getProviderType());
+            if (fallbackProvider) {
+                console.log(`ModelProviderManager: Trying fallback provider with tools for agent ${agentId}`);
+                return await this.callProviderWithTools(fallbackProvider, messages, tools, finalOptions);
+            }
+
+            throw error;
+        }
+    }
+
+    private async callProviderWithTools(
+        provider: IModelProvider,
+        messages: ChatMessage[],
+        tools: ToolDefinition[],
+        options: CallOptions
+    ): Promise<ToolCallResult> {
+        if (provider.callWithTools) {
+            return await provider.callWithTools(messages, tools, options);
+        }
+        return await callWithJsonToolProtocol(provider, messages, tools, options);
+    }
+
+    /**
+     * Провайдер эмбеддингов: локальный Ollama в приоритете, затем OpenAI
+     * Учитываются только провайдеры с настроенной embeddingModel
+     */
+    getEmbeddingProvider(): IModelProvider | undefined {
+        const candidates: ModelProviderType[] = ['ollama', 'openai'];
+        for (const type of candidates) {
+            const provider = this.providers.get(type);
+            const config = provider?.getConfig();
+            if (provider?.embed && config?.embeddingModel && config.enabled !== false) {
+                return provider;
+            }
+        }
+        return undefined;
+    }
+
     /**
      * Получить все зарегистрированные провайдеры
      */
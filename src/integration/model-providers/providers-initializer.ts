@@ -53,6 +53,7 @@ export class ProvidersInitializer {
             const openAIConfig: ProviderConfig = {
                 apiKey: providersConfig.openai.apiKey,
                 baseUrl: providersConfig.openai.baseUrl || 'https://api.openai.com/v1',
+                embeddingModel: providersConfig.openai.embeddingModel,
                 timeout: 60000
             };
             if (openAIConfig.apiKey) {
@@ -94,6 +95,7 @@ export class ProvidersInitializer {
         // Это нужно для возможности проверки подключения в настройках
         const ollamaConfig: ProviderConfig = {
             baseUrl: providersConfig.ollama?.baseUrl || 'http://localhost:11434',
+            embeddingModel: providersConfig.ollama?.embeddingModel,
             timeout: 120000,
             enabled: providersConfig.ollama?.enabled !== false
         };
@@ -0,0 +1,168 @@
+/**
+ * Повторы и отмена запросов к провайдерам моделей
+ * Экспоненциальная задержка с jitter, учет заголовка Retry-After, отмена через AbortSignal
+ */
+
+/**
+ * HTTP ошибка провайдера со статусом и рекомендованной задержкой повтора
+ */
+export class ProviderHttpError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'ProviderHttpError';
+    }
+}
+
+/**
+ * Запрос отменен (задача отменена пользователем или оркестратором)
+ */
+export class RequestCancelledError extends Error {
+    constructor(message: string = 'Request cancelled') {
+        super(message);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+export interface RetryOptions {
+    retries: number;
+    signal?: AbortSignal;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    label?: string;
+}
+
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+/**
+ * Дольше этого Retry-After не ждем - лучше переключиться на fallback провайдер
+ */
+const MAX_RETRY_AFTER_MS = 60000;
+
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ECONNREFUSED']);
+
+/**
+ * Является ли ошибка отменой запроса
+ */
+export function isCancellationError(error: any): boolean {
+    return error instanceof RequestCancelledError || error?.name === 'AbortError' || error?.code === 'ABORT_ERR';
+}
+
+/**
+ * Выбросить RequestCancelledError, если сигнал уже отменен
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new RequestCancelledError();
+    }
+}
+
+/**
+ * Разобрать Retry-After: число секунд или HTTP дата
+ */
+export function parseRetryAfter(header: string | string[] | undefined): number | undefined {
+    const value = Array.isArray(header) ? header[0] : header;
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Экспоненциальная задержка с jitter: половина фиксированная, половина случайная
+ */
+export function computeBackoffDelay(
+    attempt: number,
+    baseDelayMs: number = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs: number = DEFAULT_MAX_DELAY_MS
+): number {
+    const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+    return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Можно ли повторить запрос после ошибки
+ */
+export function isRetryableError(error: any): boolean {
+    if (isCancellationError(error)) {
+        return false;
+    }
+    if (error instanceof ProviderHttpError) {
+        return RETRYABLE_STATUSES.has(error.status);
+    }
+    return RETRYABLE_NETWORK_CODES.has(error?.code);
+}
+
+/**
+ * Пауза, прерываемая сигналом отмены
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestCancelledError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestCancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Выполнить операцию с повторами
+ * Retry-After имеет приоритет над расчетной задержкой
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+    let attempt = 0;
+
+    while (true) {
+        throwIfCancelled(options.signal);
+
+        try {
+            return await operation();
+        } catch (error: any) {
+            if (isCancellationError(error) || options.signal?.aborted) {
+                throw new RequestCancelledError();
+            }
+
+            if (attempt >= options.retries || !isRetryableError(error)) {
+                throw error;
+            }
+
+            const retryAfterMs = error instanceof ProviderHttpError ? error.retryAfterMs : undefined;
+            if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) {
+                throw error;
+            }
+
+            const delay = retryAfterMs ?? computeBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+            console.warn(`${options.label || 'Request'}: attempt ${attempt + 1} failed (${error.message}), retrying in ${Math.round(delay)}ms`);
+
+            await sleep(delay, options.signal);
+            attempt++;
+        }
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * JSON протокол вызова инструментов
+ * Используется для провайдеров без нативного function-calling (CursorAI, гибридный режим)
+ * Модель получает описание инструментов в промпте и отвечает JSON объектом
+ */
+
+import { IModelProvider, ChatMessage, ToolDefinition, ToolCall, ToolCallResult, CallOptions } from './base-provider';
+
+/**
+ * Построить промпт из диалога и описания инструментов
+ */
+export function buildJsonToolPrompt(messages: ChatMessage[], tools: ToolDefinition[]): string {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    const toolsDescription = tools.map(tool =>
+        `- ${tool.name}: ${tool.description}\n  Аргументы (JSON Schema): ${JSON.stringify(tool.parameters)}`
+    ).join('\n');
+
+    const transcript = messages
+        .filter(m => m.role !== 'system')
+        .map(m => {
+            switch (m.role) {
+                case 'user':
+                    return `ПОЛЬЗОВАТЕЛЬ:\n${m.content}`;
+                case 'assistant': {
+                    const calls = m.toolCalls && m.toolCalls.length > 0
+                        ? `\n${JSON.stringify({ tool_calls: m.toolCalls.map(c => ({ name: c.name, arguments: c.arguments })) })}`
+                        : '';
+                    return `АССИСТЕНТ:\n${m.content}${calls}`;
+                }
+                case 'tool':
+                    return `РЕЗУЛЬТАТ ИНСТРУМЕНТА ${m.name || ''} (${m.toolCallId || ''}):\n${m.content}`;
+                default:
+                    return m.content;
+            }
+        })
+        .join('\n\n');
+
+    return `${system ? system + '\n\n' : ''}Тебе доступны инструменты:
+${toolsDescription}
+
+Чтобы вызвать инструменты, ответь ТОЛЬКО JSON объектом без пояснений:
+{"tool_calls": [{"name": "имя_инструмента", "arguments": { ... }}]}
+
+Когда работа завершена, ответь ТОЛЬКО JSON объектом:
+{"final": "краткий итог проделанной работы"}
+
+ДИАЛОГ:
+${transcript}
+
+АССИСТЕНТ:`;
+}
+
+/**
+ * Разобрать ответ модели в формате JSON протокола
+ * Ответ без распознаваемого JSON считается финальным текстом
+ */
+export function parseJsonToolResponse(text: string, toolNames: string[]): { toolCalls: ToolCall[]; text: string } {
+    const parsed = extractJsonObject(text);
+
+    if (!parsed) {
+        return { toolCalls: [], text: text.trim() };
+    }
+
+    let rawCalls: any[] = [];
+    if (Array.isArray(parsed.tool_calls)) {
+        rawCalls = parsed.tool_calls;
+    } else if (typeof parsed.tool === 'string') {
+        // Частая ошибка моделей: одиночный вызов без массива
+        rawCalls = [{ name: parsed.tool, arguments: parsed.arguments }];
+    } else if (typeof parsed.name === 'string' && toolNames.includes(parsed.name)) {
+        rawCalls = [{ name: parsed.name, arguments: parsed.arguments }];
+    }
+
+    const toolCalls: ToolCall[] = rawCalls
+        .filter(call => call && typeof call.name === 'string')
+        .map((call, index) => ({
+            id: `json-call-${Date.now()}-${index}`,
+            name: call.name,
+            arguments: call.arguments && typeof call.arguments === 'object' ? call.arguments : {}
+        }));
+
+    const finalText = typeof parsed.final === 'string' ? parsed.final : (toolCalls.length === 0 ? text.trim() : '');
+
+    return { toolCalls, text: finalText };
+}
+
+/**
+ * Вызвать провайдер через JSON протокол
+ */
+export async function callWithJsonToolProtocol(
+    provider: IModelProvider,
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: CallOptions
+): Promise<ToolCallResult> {
+    const prompt = buildJsonToolPrompt(messages, tools);
+    const result = await provider.call(prompt, options);
+    const { toolCalls, text } = parseJsonToolResponse(result.text || '', tools.map(t => t.name));
+
+    return {
+        ...result,
+        text,
+        toolCalls,
+        stopReason: toolCalls.length > 0 ? 'tool_calls' : 'stop'
+    };
+}
+
+/**
+ * Найти первый сбалансированный JSON объект в тексте (модели часто добавляют пояснения или ```json)
+ */
+function extractJsonObject(text: string): any | null {
+    let start = text.indexOf('{');
+
+    while (start !== -1) {
+        let depth = 0;
+        let inString = false;
+        let escaped = false;
+
+        for (let i = start; i < text.length; i++) {
+            const char = text[i];
+
+            if (inString) {
+                if (escaped) {
+                    escaped = false;
+                } else if (char === '\\') {
+                    escaped = true;
+                } else if (char === '"') {
+                    inString = false;
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                inString = true;
+            } else if (char === '{') {
+                depth++;
+            } else if (char === '}') {
+                depth--;
+                if (depth === 0) {
+                    try {
+                        return JSON.parse(text.substring(start, i + 1));
+                    } catch (error) {
+                        break; // Пробуем следующую открывающую скобку
+                    }
+                }
+            }
+        }
+
+        start = text.indexOf('{', start + 1);
+    }
+
+    return null;
+}
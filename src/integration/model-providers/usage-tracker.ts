@@ -5,6 +5,7 @@
 
 import * as vscode from 'vscode';
 import { ModelProviderType, CallResult } from './base-provider';
+import { TELEMETRY_METRICS, Telemetry } from '../../telemetry/telemetry';
 
 export interface UsageStats {
     provider: ModelProviderType;
@@ -130,10 +131,35 @@ export class UsageTracker {
 
         providerStats.agents.set(agentId, agentStats);
 
+        this.recordTelemetry(provider, agentId, result, error);
+
         // Сохраняем статистику
         this.saveStats();
     }
 
+    /**
+     * Метрики вызова модели для экспорта в OTLP
+     */
+    private recordTelemetry(provider: ModelProviderType, agentId: string, result: CallResult, error?: Error): void {
+        const telemetry = Telemetry.getInstance();
+        const attributes = { 'gen_ai.system': provider, 'agent.id': agentId };
+
+        telemetry.add(TELEMETRY_METRICS.llmCalls, 1, { ...attributes, outcome: error ? 'error' : 'ok' });
+        if (error || !result) {
+            return;
+        }
+        if (result.tokensUsed) {
+            telemetry.add(TELEMETRY_METRICS.llmTokens, result.tokensUsed.input, { ...attributes, 'gen_ai.token.type': 'input' });
+            telemetry.add(TELEMETRY_METRICS.llmTokens, result.tokensUsed.output, { ...attributes, 'gen_ai.token.type': 'output' });
+        }
+        if (result.cost !== undefined) {
+            telemetry.add(TELEMETRY_METRICS.llmCost, result.cost, attributes);
+        }
+        if (result.responseTime !== undefined) {
+            telemetry.record(TELEMETRY_METRICS.llmLatency, result.responseTime, attributes);
+        }
+    }
+
     /**
      * Получить статистику для агента
      */
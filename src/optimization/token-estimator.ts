@@ -0,0 +1,75 @@
+/**
+ * Оценка числа токенов текста
+ * Текст разбивается на фрагменты по схеме пре-токенизации cl100k (слова, числа до 3 цифр,
+ * знаки препинания, пробелы); токены фрагмента оцениваются без словаря BPE:
+ * короткие английские слова - один токен, идентификаторы - по частям camelCase,
+ * кириллица и прочие алфавиты - по числу символов.
+ */
+
+const PRETOKEN_PATTERN = /'(?:[sdmtSDMT]|ll|LL|re|RE|ve|VE)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+export function estimateTokens(text: string): number {
+    if (!text) {
+        return 0;
+    }
+
+    let tokens = 0;
+    for (const piece of text.match(PRETOKEN_PATTERN) || []) {
+        tokens += estimatePieceTokens(piece);
+    }
+    return tokens;
+}
+
+/**
+ * Обрезка текста до бюджета токенов (по границе строк, если возможно)
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+    if (estimateTokens(text) <= maxTokens) {
+        return text;
+    }
+
+    const lines = text.split('\n');
+    const result: string[] = [];
+    let used = 0;
+
+    for (const line of lines) {
+        const lineTokens = estimateTokens(line) + 1;
+        if (used + lineTokens > maxTokens) {
+            break;
+        }
+        result.push(line);
+        used += lineTokens;
+    }
+
+    return result.join('\n');
+}
+
+function estimatePieceTokens(piece: string): number {
+    const letters = piece.replace(/^[^\p{L}]/u, '');
+
+    if (/^\p{L}+$/u.test(letters) && letters.length > 0) {
+        if (CJK_PATTERN.test(letters)) {
+            return letters.length;
+        }
+        if (!/^[A-Za-z]+$/.test(letters)) {
+            // Кириллица и другие алфавиты: в среднем 2-3 символа на токен
+            return Math.ceil(letters.length / 2.5);
+        }
+
+        const humps = letters.split(/(?<=[a-z])(?=[A-Z])/).length;
+        return Math.max(humps, letters.length <= 8 ? 1 : Math.ceil(letters.length / 6));
+    }
+
+    if (/^\s+$/.test(piece)) {
+        return 1;
+    }
+
+    if (/^\p{N}+$/u.test(piece)) {
+        return 1;
+    }
+
+    // Знаки препинания и операторы: частые пары (=>, ();) кодируются одним токеном
+    return Math.ceil(piece.trim().length / 2) || 1;
+}
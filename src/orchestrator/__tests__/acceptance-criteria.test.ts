@@ -0,0 +1,123 @@
+/**
+ * Тесты критериев приемки: разбор привязок к проверкам и проверка по workspace
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { AgentSolution } from '../../agents/local-agent';
+import { TestRunResult } from '../../agents/worker/test-runner';
+import { Task } from '../orchestrator';
+import { TaskDeviationController } from '../task-deviation-controller';
+import { formatCheck, normalizeCheck, parseAcceptanceCriteria } from '../acceptance-criteria';
+
+describe('AcceptanceCriteria', () => {
+  it('разбирает критерии с проверками и отклоняет некорректные привязки', () => {
+    const criteria = parseAcceptanceCriteria([
+      '- Поиск по имени [test: src/search.test.ts > ищет по имени]',
+      '- Нет отладочного вывода [!grep: src/**/*.ts /console\\.(log|debug);?/]; Есть документация [file: docs/search.md]',
+      '1. Сервис объявлен [ast: src/search.ts method SearchService.search]',
+      '2. Эндпоинт отвечает [http: POST http://localhost:3000/api/search 201 "results"]',
+      'Поиск работает быстро'
+    ].join('\n'));
+
+    expect(criteria.map(criterion => [criterion.description, criterion.check && formatCheck(criterion.check)])).toEqual([
+      ['Поиск по имени', '[test: src/search.test.ts > ищет по имени]'],
+      ['Нет отладочного вывода', '[!grep: src/**/*.ts /console\\.(log|debug);?/]'],
+      ['Есть документация', '[file: docs/search.md]'],
+      ['Сервис объявлен', '[ast: src/search.ts method SearchService.search]'],
+      ['Эндпоинт отвечает', '[http: POST http://localhost:3000/api/search 201 "results"]'],
+      ['Поиск работает быстро', undefined]
+    ]);
+    expect(criteria.every(criterion => criterion.source === 'user' && criterion.confirmed)).toBe(true);
+
+    expect(() => parseAcceptanceCriteria('Есть сервис [ast: src/search.ts module Search]')).toThrow(/Есть сервис.*вид объявления/);
+    expect(() => parseAcceptanceCriteria('Нет ошибок [grep: src/**/*.ts /(/]')).toThrow();
+    expect(() => normalizeCheck({ type: 'http', url: 'https://example.com/api' })).toThrow('только запросы к локальному серверу');
+  });
+
+  it('разделяет критерии на доказанные, невыполненные и непроверенные', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'acceptance-'));
+    const server = http.createServer((request, response) => {
+      response.statusCode = request.url === '/health' ? 200 : 404;
+      response.end(request.url === '/health' ? '{"status":"ok"}' : 'not found');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as AddressInfo).port;
+
+    try {
+      fs.mkdirSync(path.join(workspace, 'src'));
+      fs.writeFileSync(path.join(workspace, 'src/search.ts'), [
+        'export class SearchService {',
+        '  search(query: string) { return [query]; }',
+        '  reset = () => {};',
+        '}',
+        'export const searchProjects = (query: string) => new SearchService().search(query);',
+        'console.log("debug");'
+      ].join('\n'));
+
+      const task: Task = {
+        id: 'task-acceptance',
+        type: 'feature',
+        description: 'Добавить поиск проектов',
+        priority: 'medium',
+        status: 'in-progress',
+        createdAt: new Date(),
+        acceptanceCriteria: [
+          ...parseAcceptanceCriteria([
+            'Сервис поиска [ast: src/search.ts method SearchService.search]',
+            'Функция поиска экспортируется [ast: src/search.ts export searchProjects]',
+            'Нет отладочного вывода [!grep: src/** /console\\.log/]',
+            'Есть документация [file: docs/search.md]',
+            'Поиск по имени [test: src/search.test.ts > ищет по имени]',
+            'Поиск пустой строки [test: src/search.test.ts > пустой запрос]',
+            `Сервер здоров [http: GET http://127.0.0.1:${port}/health 200 "ok"]`,
+            `Есть страница поиска [http: http://127.0.0.1:${port}/search]`,
+            'Поиск работает быстро'
+          ].join('\n')),
+          { id: 'criterion-generated', description: 'Есть README', check: { type: 'file', path: 'README.md' }, source: 'generated', confirmed: false }
+        ]
+      };
+      const solution = { taskId: task.id, solution: { title: 'Поиск', description: '', approach: '' } } as AgentSolution;
+
+      const runTests = jest.fn(async (): Promise<TestRunResult> => ({
+        success: false, passed: 1, failed: 1, skipped: 0, output: '', framework: 'jest',
+        tests: [
+          { name: 'SearchService ищет по имени', file: path.join(workspace, 'src/search.test.ts'), status: 'passed' },
+          { name: 'SearchService пустой запрос', file: path.join(workspace, 'src/search.test.ts'), status: 'failed', failureMessage: 'Expected [] received [""]\n  at ...' }
+        ]
+      }));
+
+      const deviation = await new TaskDeviationController().checkDeviation(task, solution, { workspacePath: workspace, runTests });
+      const acceptance = deviation.acceptance!;
+
+      // Тесты всех критериев запускаются одним прогоном по их файлам
+      expect(runTests).toHaveBeenCalledTimes(1);
+      expect(runTests).toHaveBeenCalledWith(workspace, { changedFiles: ['src/search.test.ts'] });
+
+      expect(acceptance.proven.map(result => result.criterion.description)).toEqual(
+        ['Сервис поиска', 'Функция поиска экспортируется', 'Поиск по имени', 'Сервер здоров']
+      );
+      expect(acceptance.failed.map(result => [result.criterion.description, result.detail])).toEqual([
+        ['Нет отладочного вывода', '/console\\.log/ найден в src/search.ts'],
+        ['Есть документация', 'docs/search.md не найден'],
+        ['Поиск пустой строки', 'тест "SearchService пустой запрос" не прошел: Expected [] received [""]'],
+        ['Есть страница поиска', `GET http://127.0.0.1:${port}/search: статус 404, ожидался 200`]
+      ]);
+      expect(acceptance.unverified.map(result => [result.criterion.description, result.detail])).toEqual([
+        ['Поиск работает быстро', 'нет проверки'],
+        ['Есть README', 'критерий не подтвержден']
+      ]);
+
+      expect(deviation.keyRequirements).toHaveLength(10);
+      expect(deviation.missingRequirements).toEqual(acceptance.failed.map(result => result.criterion.description));
+      expect(deviation.deviationLevel).toBe('medium');
+      expect(deviation.feedback).toContain('Не проверены (2):');
+    } finally {
+      server.close();
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Тесты сборки контекста промпта в бюджет токенов
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContextAssembler, packContext } from '../context-assembler';
+import { estimateTokens, truncateToTokens } from '../../optimization/token-estimator';
+import { ProjectContext } from '../../agents/local-agent';
+import { Task } from '../orchestrator';
+
+describe('ContextAssembler', () => {
+  let workspace: string;
+
+  const task: Task = {
+    id: 'task-1',
+    type: 'bug',
+    description: 'Исправить обновление токена в src/auth/session.ts',
+    priority: 'high',
+    status: 'pending',
+    createdAt: new Date()
+  };
+
+  const projectContext: ProjectContext = {
+    structure: { files: ['src/auth/session.ts', 'src/auth/tokens.ts', 'src/api/client.ts', 'src/ui/page.ts'], directories: [], entryPoints: [] },
+    dependencies: {
+      'src/auth/session.ts': ['src/auth/tokens.ts'],
+      'src/api/client.ts': ['src/auth/session.ts'],
+      'src/ui/page.ts': ['src/api/client.ts']
+    },
+    relevantSnippets: [
+      { file: 'src/auth/tokens.ts', startLine: 1, endLine: 3, score: 0.8, text: 'export function rotateToken() {\n  return crypto.randomUUID();\n}' }
+    ],
+    knowledge: { history: [] }
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'context-assembler-'));
+    fs.mkdirSync(path.join(workspace, '.cursor', 'rules'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, '.cursor', 'rules', 'auth.mdc'),
+      '---\ndescription: Работа с сессиями\nglobs: ["src/auth/**"]\nalwaysApply: false\n---\nТокены хранить только в SessionStore.\n');
+    fs.writeFileSync(path.join(workspace, '.cursor', 'rules', 'docs.mdc'),
+      '---\ndescription: Документация\nglobs: ["docs/**"]\nalwaysApply: false\n---\n' + 'Пиши документацию подробно. '.repeat(200));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('оценивает токены точнее, чем длина / 4', () => {
+    expect(estimateTokens('hello world')).toBe(2);
+    expect(estimateTokens('getUserName')).toBe(3);
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens(truncateToTokens('строка\n'.repeat(100), 20))).toBeLessThanOrEqual(20);
+  });
+
+  it('ранжирует по близости в графе и правилам, упаковывает в бюджет с отчетом', () => {
+    const candidates = new ContextAssembler({ workspacePath: workspace }).collectCandidates(task, projectContext);
+    const score = (id: string) => candidates.find(candidate => candidate.id === id)!.score;
+
+    // Правило с globs по файлам задачи выше несвязанного
+    expect(score('rule:.cursor/rules/auth.mdc')).toBeGreaterThan(score('rule:.cursor/rules/docs.mdc'));
+    // Прямой импортер выше файла через одно звено
+    expect(score('related:src/api/client.ts')).toBeGreaterThan(score('related:src/ui/page.ts'));
+
+    const assembled = packContext(candidates, 150);
+    expect(assembled.report.usedTokens).toBeLessThanOrEqual(150);
+    expect(estimateTokens(assembled.text)).toBeLessThanOrEqual(150);
+    expect(assembled.text).toContain('Токены хранить только в SessionStore');
+    expect(assembled.text).toContain('rotateToken');
+    expect(assembled.report.dropped.map(entry => entry.id)).toContain('rule:.cursor/rules/docs.mdc');
+    expect(assembled.report.included.length + assembled.report.dropped.length).toBe(candidates.length);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Тесты парсеров зависимостей для Python, Go, PHP и Java
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createResolveContext } from '../dependency-parsers/language-parser';
+import { PythonLanguageParser } from '../dependency-parsers/python-parser';
+import { GoLanguageParser } from '../dependency-parsers/go-parser';
+import { PhpLanguageParser } from '../dependency-parsers/php-parser';
+import { JavaLanguageParser } from '../dependency-parsers/java-parser';
+
+describe('Парсеры зависимостей для других языков', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-parsers-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('Python: импорты, реэкспорты __init__.py и функции-пользователи', () => {
+    const parser = new PythonLanguageParser();
+    const parsed = parser.parse('app/main.py', [
+      'import os.path',
+      'from .core import (slugify,',
+      '    Formatter as Fmt)',
+      '"""from fake import nothing"""',
+      '',
+      'class Page:',
+      '    def title(self, s):',
+      '        return slugify(os.path.basename(s))',
+      '',
+      'def render():',
+      '    return Fmt()'
+    ].join('\n'));
+
+    expect(parsed.imports.map(entry => entry.specifier)).toEqual(['os.path', '.core']);
+    expect(parsed.imports[1].usedIn).toEqual({ slugify: ['Page.title'], Formatter: ['render'] });
+    expect(parsed.exports).toEqual(['Page', 'render']);
+
+    const barrel = parser.parse('app/core/__init__.py', 'from .helpers import slugify\n');
+    expect(barrel.reExports).toEqual([{ specifier: '.helpers', all: false, names: [{ exported: 'slugify', original: 'slugify' }] }]);
+
+    const context = createResolveContext(workspace, ['app/main.py', 'app/core/__init__.py', 'app/core/helpers.py']);
+    expect(parser.resolveImport('.core', 'app/main.py', context)).toEqual(['app/core/__init__.py']);
+    expect(parser.resolveImport('app.core.helpers', 'app/main.py', context)).toEqual(['app/core/helpers.py']);
+  });
+
+  it('Go: пакеты модуля из go.mod разрешаются во все файлы пакета', () => {
+    fs.writeFileSync(path.join(workspace, 'go.mod'), 'module example.com/shop\n\ngo 1.21\n');
+    const parser = new GoLanguageParser();
+    const parsed = parser.parse('cmd/main.go', [
+      'package main',
+      '',
+      'import (',
+      '\t"fmt"',
+      '\tst "example.com/shop/internal/store"',
+      ')',
+      '',
+      'func main() {',
+      '\tfmt.Println(st.NewStore())',
+      '}'
+    ].join('\n'));
+
+    const store = parsed.imports.find(entry => entry.specifier === 'example.com/shop/internal/store')!;
+    expect(store.symbols).toEqual(['NewStore']);
+    expect(store.usedIn.NewStore).toEqual(['main']);
+
+    const context = createResolveContext(workspace, [
+      'cmd/main.go',
+      'internal/store/store.go',
+      'internal/store/cache.go',
+      'internal/store/store_test.go'
+    ]);
+    expect(parser.resolveImport('example.com/shop/internal/store', 'cmd/main.go', context))
+      .toEqual(['internal/store/store.go', 'internal/store/cache.go']);
+    expect(parser.resolveImport('fmt', 'cmd/main.go', context)).toEqual([]);
+  });
+
+  it('PHP: use разрешается по PSR-4, use трейта внутри класса не считается импортом', () => {
+    fs.writeFileSync(path.join(workspace, 'composer.json'), JSON.stringify({ autoload: { 'psr-4': { 'App\\': 'src/' } } }));
+    const parser = new PhpLanguageParser();
+    const parsed = parser.parse('src/Http/Controller.php', [
+      '<?php',
+      'namespace App\\Http;',
+      '',
+      'use App\\Models\\{User, Post as Article};',
+      '',
+      'class Controller {',
+      '    use Loggable;',
+      '',
+      '    public function show($id) {',
+      '        return User::find($id);',
+      '    }',
+      '}'
+    ].join('\n'));
+
+    expect(parsed.imports.map(entry => entry.specifier)).toEqual(['App\\Models\\User', 'App\\Models\\Post']);
+    expect(parsed.imports[0].usedIn.User).toEqual(['Controller.show']);
+    expect(parsed.exports).toEqual(['Controller']);
+
+    const context = createResolveContext(workspace, ['src/Http/Controller.php', 'src/Models/User.php']);
+    expect(parser.resolveImport('App\\Models\\User', 'src/Http/Controller.php', context)).toEqual(['src/Models/User.php']);
+  });
+
+  it('Java: import класса разрешается от корня исходников по package', () => {
+    const handlerPath = 'api/src/main/java/com/acme/api/Handler.java';
+    const source = [
+      'package com.acme.api;',
+      '',
+      'import com.acme.util.Strings;',
+      'import java.util.List;',
+      '',
+      'public class Handler {',
+      '    public String handle(String input) throws Exception {',
+      '        return Strings.trim(input);',
+      '    }',
+      '}'
+    ].join('\n');
+    fs.mkdirSync(path.join(workspace, path.dirname(handlerPath)), { recursive: true });
+    fs.writeFileSync(path.join(workspace, handlerPath), source);
+
+    const parser = new JavaLanguageParser();
+    const parsed = parser.parse(handlerPath, source);
+    expect(parsed.imports[0].usedIn.Strings).toEqual(['Handler.handle']);
+    expect(parsed.declarations.functions).toEqual(['Handler.handle']);
+
+    const context = createResolveContext(workspace, [handlerPath, 'util/src/main/java/com/acme/util/Strings.java']);
+    expect(parser.resolveImport('com.acme.util.Strings', handlerPath, context))
+      .toEqual(['util/src/main/java/com/acme/util/Strings.java']);
+    expect(parser.resolveImport('java.util.List', handlerPath, context)).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Тесты семантического индекса кода
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EmbeddingSource, SemanticIndex, tokenize } from '../semantic-index';
+import { MessageType, getGlobalMessageBus } from '../../agents/worker/message-bus';
+
+describe('SemanticIndex', () => {
+  let workspace: string;
+  let index: SemanticIndex | undefined;
+
+  const writeFile = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.join(workspace, path.dirname(relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(workspace, relativePath), content);
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-index-'));
+    writeFile('src/auth/session.ts', [
+      'export class SessionStore {',
+      '  refreshAccessToken(userId: string) {',
+      '    return this.tokens.rotate(userId);',
+      '  }',
+      '}'
+    ].join('\n'));
+    writeFile('src/billing/invoice.ts', 'export function calculateInvoiceTotal(items: number[]) {\n  return items.reduce((a, b) => a + b, 0);\n}\n');
+    writeFile('node_modules/lib/index.js', 'function refreshAccessToken() {}\n');
+  });
+
+  afterEach(() => {
+    index?.dispose();
+    index = undefined;
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('разбивает идентификаторы на части', () => {
+    expect(tokenize('refreshAccessToken MAX_SIZE')).toEqual(['refreshaccesstoken', 'refresh', 'access', 'token', 'max_size', 'max', 'size']);
+  });
+
+  it('TF-IDF: находит фрагмент по словам запроса и обновляется по FILE_CHANGED', async () => {
+    const tfIdfIndex = index = new SemanticIndex(workspace, () => null);
+
+    const results = await tfIdfIndex.semanticSearch('refresh access token for user', 2);
+    expect(results[0].file).toBe('src/auth/session.ts');
+    expect(results[0].startLine).toBe(1);
+    expect(results[0].text).toContain('refreshAccessToken');
+    expect(results.some(result => result.file.startsWith('node_modules'))).toBe(false);
+    expect(fs.existsSync(path.join(workspace, '.cursor', 'config', 'semantic-index.json'))).toBe(true);
+
+    writeFile('src/billing/discount.ts', 'export function applyDiscountCoupon(total: number) {\n  return total * 0.9;\n}\n');
+    fs.rmSync(path.join(workspace, 'src/auth/session.ts'));
+    await getGlobalMessageBus().publish({
+      type: MessageType.FILE_CHANGED,
+      from: 'file-watcher',
+      payload: { changeType: 'changed', files: ['src/billing/discount.ts', 'src/auth/session.ts'], timestamp: new Date() }
+    });
+
+    expect((await tfIdfIndex.semanticSearch('discount coupon', 1))[0].file).toBe('src/billing/discount.ts');
+    expect(await tfIdfIndex.semanticSearch('refresh access token', 5)).toEqual([]);
+  });
+
+  it('использует эмбеддинги, когда ими покрыт весь индекс', async () => {
+    // Модель "понимает" только тему: авторизация или оплата
+    const source: EmbeddingSource = {
+      model: 'test:topics',
+      embed: async (texts) => texts.map(text => /auth|session|login/i.test(text) ? [1, 0] : [0, 1])
+    };
+    const embeddingIndex = index = new SemanticIndex(workspace, () => source);
+
+    const results = await embeddingIndex.semanticSearch('login', 1);
+    expect(results[0].file).toBe('src/auth/session.ts');
+    expect(results[0].score).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Тесты трасс задач: дерево спанов в JSONL и повтор вызовов моделей на другом провайдере
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CallOptions, IModelProvider } from '../../integration/model-providers/base-provider';
+import { JournalTraceStore, TaskTracer, buildTraceTree } from '../task-trace';
+import { readReplayComparison, replayTrace } from '../trace-replay';
+
+describe('TaskTrace', () => {
+  let dir: string;
+  let store: JournalTraceStore;
+  let tracer: TaskTracer;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-trace-'));
+    store = new JournalTraceStore(path.join(dir, '.cursor/traces'));
+    tracer = new TaskTracer(store);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('записывает фазы задачи с вложенными вызовами и восстанавливает дерево', async () => {
+    tracer.startTrace('task-1', 'Добавить поиск', { type: 'feature' });
+    await tracer.span('task-1', 'planning', 'Планирование', async span => span.setAttributes({ assignedAgent: 'backend' }));
+    await tracer.span('task-1', 'brainstorming', 'Мозговой штурм', async span => {
+      span.event('solution', { agentId: 'backend' });
+      tracer.startSpan('task-1', 'llm', 'backend: completion', { prompt: 'p' }).end('ok', { response: 'r' });
+    });
+    await expect(tracer.span('task-1', 'apply', 'Применение', async () => {
+      tracer.startSpan('task-1', 'tool', 'write_file').end('error');
+      throw new Error('нет доступа');
+    })).rejects.toThrow('нет доступа');
+    // Незакрытая фаза закрывается вместе с трассой
+    tracer.startSpan('task-1', 'refinement', 'Доработка', undefined, { phase: true });
+    tracer.endTrace('task-1', 'error', { status: 'blocked' });
+
+    // Спаны вне открытой трассы не записываются
+    tracer.startSpan('task-1', 'llm', 'после завершения').end();
+    tracer.startSpan(undefined, 'llm', 'без задачи').end();
+
+    // Повторный запуск задачи - второй корень в той же трассе
+    tracer.startTrace('task-1', 'Добавить поиск');
+    tracer.endTrace('task-1', 'ok');
+
+    fs.appendFileSync(path.join(dir, '.cursor/traces/task-1.jsonl'), '{"op":"end","spanId"');
+    const roots = buildTraceTree(store.load('task-1'));
+    const shape = (span: any): any => [span.kind, span.status, span.children.map(shape)];
+
+    expect(roots.map(shape)).toEqual([
+      ['task', 'error', [
+        ['planning', 'ok', []],
+        ['brainstorming', 'ok', [['llm', 'ok', []]]],
+        ['apply', 'error', [['tool', 'error', []]]],
+        ['refinement', 'error', []]
+      ]],
+      ['task', 'ok', []]
+    ]);
+    expect(roots[0].attributes).toEqual({ type: 'feature', status: 'blocked' });
+    expect(roots[0].children[0].attributes).toEqual({ assignedAgent: 'backend' });
+    expect(roots[0].children[1].events.map(event => event.name)).toEqual(['solution']);
+    expect(roots[0].children[2].attributes).toEqual({ error: 'нет доступа' });
+    expect(store.list().map(trace => [trace.traceId, trace.name])).toEqual([['task-1', 'Добавить поиск']]);
+  });
+
+  it('повторяет вызовы моделей трассы на другом провайдере и сравнивает ответы', async () => {
+    tracer.startTrace('task-2', 'Исправить ошибку');
+    await tracer.span('task-2', 'brainstorming', 'Мозговой штурм', async () => {
+      tracer.startSpan('task-2', 'llm', 'backend: completion', { agentId: 'backend', provider: 'openai', model: 'gpt-4', mode: 'completion', prompt: 'Найди ошибку', temperature: 0.2 })
+        .end('ok', { response: 'ошибка в парсере дат', inputTokens: 10, outputTokens: 5, cost: 0.01, latencyMs: 900 });
+      tracer.startSpan('task-2', 'llm', 'qa: completion', { agentId: 'qa', provider: 'openai', mode: 'completion', prompt: 'Напиши тест' })
+        .end('ok', { response: 'тест готов', latencyMs: 500 });
+      // Вызовы с инструментами не повторяются
+      tracer.startSpan('task-2', 'llm', 'backend: tools step 1', { mode: 'tools', prompt: '...' }).end('ok');
+    });
+    tracer.endTrace('task-2', 'ok');
+
+    const calls: [string, CallOptions | undefined][] = [];
+    const provider = {
+      getProviderType: () => 'ollama',
+      getModelInfo: () => ({ id: 'llama3', name: 'Llama 3', provider: 'ollama', type: 'local' }),
+      call: async (prompt: string, options?: CallOptions) => {
+        calls.push([prompt, options]);
+        if (prompt === 'Напиши тест') {
+          throw new Error('timeout');
+        }
+        return { text: 'ошибка в парсере', tokensUsed: { input: 12, output: 3 }, responseTime: 300 };
+      }
+    } as unknown as IModelProvider;
+
+    const comparison = await replayTrace('task-2', store.load('task-2'), provider, { tracer });
+
+    expect(calls.map(([prompt, options]) => [prompt, options?.model, options?.temperature])).toEqual([
+      ['Найди ошибку', 'llama3', 0.2],
+      ['Напиши тест', 'llama3', undefined]
+    ]);
+    expect(comparison.traceId).toMatch(/^task-2\.replay-ollama-\d+$/);
+    expect(comparison.calls.map(call => [call.agentId, call.similarity, call.replay.error])).toEqual([
+      ['backend', 0.75, undefined],
+      ['qa', 0, 'timeout']
+    ]);
+    expect(comparison.original).toEqual({ calls: 2, latencyMs: 1400, tokens: 15, cost: 0.01 });
+    expect(comparison.replay).toEqual({ calls: 2, latencyMs: expect.any(Number), tokens: 15, cost: 0 });
+    expect(comparison.skippedToolCalls).toBe(1);
+
+    // Сравнение читается из сохраненной трассы повтора
+    const saved = readReplayComparison(comparison.traceId, store.load(comparison.traceId));
+    expect(saved).toMatchObject({ sourceTraceId: 'task-2', provider: 'ollama', model: 'llama3', similarity: 0.375, skippedToolCalls: 1 });
+    expect(saved!.calls.map(call => [call.originalSpanId, call.original.response, call.replay.response])).toEqual(
+      comparison.calls.map(call => [call.originalSpanId, call.original.response, call.replay.response])
+    );
+    expect(store.list().map(trace => trace.kind).sort()).toEqual(['replay', 'task']);
+  });
+});
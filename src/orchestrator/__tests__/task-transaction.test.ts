@@ -0,0 +1,103 @@
+/**
+ * Тесты транзакций изменений файлов задачи
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TaskTransactionManager } from '../task-transaction';
+
+describe('TaskTransactionManager', () => {
+  let workspace: string;
+  let manager: TaskTransactionManager;
+
+  const file = (relativePath: string) => path.join(workspace, relativePath);
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'task-transaction-'));
+    fs.mkdirSync(file('src'));
+    fs.writeFileSync(file('src/a.ts'), 'export const a = 1;\n');
+    fs.writeFileSync(file('src/b.ts'), 'export const b = 1;\n');
+    manager = new TaskTransactionManager(workspace);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('откатывает измененные, созданные и удаленные файлы незавершенной задачи', async () => {
+    const transaction = await manager.begin('task-1');
+
+    transaction.capture('src/a.ts');
+    fs.writeFileSync(file('src/a.ts'), 'export const a = 2;\n');
+    transaction.capture('src/a.ts');
+    fs.writeFileSync(file('src/a.ts'), 'export const a = 3;\n');
+    transaction.capture('src/new.ts');
+    fs.writeFileSync(file('src/new.ts'), 'export {};\n');
+    transaction.capture(file('src/b.ts'));
+    fs.unlinkSync(file('src/b.ts'));
+    transaction.capture('node_modules/lib/index.js');
+
+    expect(transaction.record.files.map(snapshot => snapshot.path)).toEqual(['src/a.ts', 'src/new.ts', 'src/b.ts']);
+
+    const result = await manager.rollback('task-1');
+    expect(result.restored.sort()).toEqual(['src/a.ts', 'src/b.ts', 'src/new.ts']);
+    expect(fs.readFileSync(file('src/a.ts'), 'utf-8')).toBe('export const a = 1;\n');
+    expect(fs.readFileSync(file('src/b.ts'), 'utf-8')).toBe('export const b = 1;\n');
+    expect(fs.existsSync(file('src/new.ts'))).toBe(false);
+    expect(manager.list()).toEqual([]);
+  });
+
+  it('после фиксации не трогает файлы, измененные позже, без force', async () => {
+    const transaction = await manager.begin('task-2');
+    transaction.capture('src/a.ts');
+    fs.writeFileSync(file('src/a.ts'), 'export const a = 2;\n');
+    transaction.capture('src/b.ts');
+    fs.writeFileSync(file('src/b.ts'), 'export const b = 2;\n');
+    manager.commit('task-2');
+
+    // Следующая задача изменила b.ts; транзакция читается из хранилища после "перезапуска"
+    fs.writeFileSync(file('src/b.ts'), 'export const b = 3;\n');
+    const reloaded = new TaskTransactionManager(workspace);
+    expect(reloaded.list().map(record => record.taskId)).toEqual(['task-2']);
+
+    const result = await reloaded.rollback('task-2');
+    expect(result.restored).toEqual(['src/a.ts']);
+    expect(result.conflicts).toEqual(['src/b.ts']);
+    expect(fs.readFileSync(file('src/a.ts'), 'utf-8')).toBe('export const a = 1;\n');
+    expect(fs.readFileSync(file('src/b.ts'), 'utf-8')).toBe('export const b = 3;\n');
+
+    const forced = await reloaded.rollback('task-2', true);
+    expect(forced.restored).toEqual(['src/b.ts']);
+    expect(fs.readFileSync(file('src/b.ts'), 'utf-8')).toBe('export const b = 1;\n');
+    await expect(reloaded.rollback('task-2')).rejects.toThrow('Нет изменений для отката');
+  });
+
+  it('не перезаписывает внешние изменения, измененные после того, как их заметили во время задачи', async () => {
+    const transaction = await manager.begin('task-3');
+    transaction.capture('src/a.ts');
+    fs.writeFileSync(file('src/a.ts'), 'export const a = 2;\n');
+    transaction.recordExternalChange(file('src/a.ts'), 'changed');
+
+    // Чат создает файл и дописывает его; пользователь в то же время создает свой
+    fs.writeFileSync(file('src/chat.ts'), 'export const c = 1;\n');
+    transaction.recordExternalChange(file('src/chat.ts'), 'created');
+    fs.writeFileSync(file('src/chat.ts'), 'export const c = 2;\n');
+    transaction.recordExternalChange(file('src/chat.ts'), 'changed');
+    fs.writeFileSync(file('src/notes.ts'), '// TODO\n');
+    transaction.recordExternalChange(file('src/notes.ts'), 'created');
+    expect(transaction.record.files.map(snapshot => [snapshot.path, !!snapshot.external])).toEqual([
+      ['src/a.ts', false], ['src/chat.ts', true], ['src/notes.ts', true]
+    ]);
+
+    // Пользователь продолжил править свой файл после последнего события наблюдателя
+    fs.writeFileSync(file('src/notes.ts'), '// TODO: поиск\n');
+
+    const result = await manager.rollback('task-3', true);
+    expect(result.restored.sort()).toEqual(['src/a.ts', 'src/chat.ts']);
+    expect(result.conflicts).toEqual(['src/notes.ts']);
+    expect(fs.readFileSync(file('src/a.ts'), 'utf-8')).toBe('export const a = 1;\n');
+    expect(fs.existsSync(file('src/chat.ts'))).toBe(false);
+    expect(fs.readFileSync(file('src/notes.ts'), 'utf-8')).toBe('// TODO: поиск\n');
+  });
+});
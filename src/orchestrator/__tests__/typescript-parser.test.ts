@@ -0,0 +1,63 @@
+/**
+ * Тесты разбора TS/JS файлов для графа зависимостей
+ */
+
+import { parseTypeScriptSource } from '../dependency-parsers/typescript-parser';
+
+describe('Разбор TypeScript через compiler API', () => {
+  it('должен находить dynamic import, type-only импорты и игнорировать строки и комментарии', () => {
+    const parsed = parseTypeScriptSource('src/a.ts', [
+      "import type { Options } from './options';",
+      "// import { Fake } from './fake';",
+      "const text = \"export class NotAClass {}\";",
+      'export async function load() {',
+      "  const module = await import('./lazy');",
+      '  return module;',
+      '}'
+    ].join('\n'));
+
+    expect(parsed.imports.map(entry => entry.specifier)).toEqual(['./options', './lazy']);
+    expect(parsed.imports[0].typeOnly).toBe(true);
+    expect(parsed.imports[1].kind).toBe('dynamic');
+    expect(parsed.exports).toEqual(['load']);
+    expect(parsed.declarations.classes).toEqual([]);
+  });
+
+  it('должен определять функции, в которых используются импортированные символы', () => {
+    const parsed = parseTypeScriptSource('src/b.ts', [
+      "import { helper, unused } from './utils';",
+      "import * as api from './api';",
+      'export class Service {',
+      '  run() { return helper(api.fetchData()); }',
+      '}',
+      'export const format = () => helper();'
+    ].join('\n'));
+
+    const utils = parsed.imports.find(entry => entry.specifier === './utils')!;
+    expect(utils.usedIn.helper).toEqual(['Service.run', 'format']);
+    expect(utils.usedIn.unused).toBeUndefined();
+
+    const api = parsed.imports.find(entry => entry.specifier === './api')!;
+    expect(api.symbols).toEqual(['fetchData']);
+    expect(api.usedIn.fetchData).toEqual(['Service.run']);
+  });
+
+  it('должен разбирать цепочки реэкспортов', () => {
+    const parsed = parseTypeScriptSource('src/index.ts', [
+      "export * from './models';",
+      "export { run as start, default as Engine } from './engine';",
+      "export * as utils from './utils';"
+    ].join('\n'));
+
+    expect(parsed.reExports).toEqual([
+      { specifier: './models', all: true, names: [] },
+      {
+        specifier: './engine',
+        all: false,
+        names: [{ exported: 'start', original: 'run' }, { exported: 'Engine', original: 'default' }]
+      },
+      { specifier: './utils', all: false, names: [{ exported: 'utils', original: '*' }] }
+    ]);
+    expect(parsed.exports).toEqual(['start', 'Engine', 'utils']);
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Критерии приемки задачи и их проверка по workspace
+ *
+ * Критерий привязывается к проверке; в тексте - в квадратных скобках в конце строки:
+ * - Поиск работает по имени [test: SearchService ищет по имени]
+ * - Есть обработчик [ast: src/search.ts function searchProjects]
+ * - Нет console.log в сервисах [!grep: src/services/** /console\.log/]
+ * - Эндпоинт отвечает [http: GET http://localhost:3000/api/search?q=a 200 "results"]
+ * - Документация добавлена [file: docs/search.md]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { globToRegExp } from './context-assembler';
+import { IGNORED_DIRECTORIES } from './project-dependency-graph';
+import { TestRunResult, runTests } from '../agents/worker/test-runner';
+
+export type AstDeclarationKind = 'function' | 'class' | 'interface' | 'type' | 'method' | 'export';
+
+/**
+ * Проверка критерия
+ */
+export type AcceptanceCheck =
+    // Тест с именем (подстрока полного имени), file - тестовый файл, чтобы не запускать все тесты
+    | { type: 'test'; name: string; file?: string }
+    // Шаблон в файлах по glob; absent - шаблона быть не должно
+    | { type: 'grep'; files: string; pattern: string; absent?: boolean }
+    // Объявление в JS/TS файле; для method - Class.method или method
+    | { type: 'ast'; file: string; kind: AstDeclarationKind; name: string }
+    // Запрос к локальному серверу
+    | { type: 'http'; url: string; method?: string; body?: string; status?: number; contains?: string; timeoutMs?: number }
+    | { type: 'file'; path: string; absent?: boolean };
+
+/**
+ * Критерий приемки; сгенерированный критерий учитывается только после подтверждения пользователем
+ */
+export interface AcceptanceCriterion {
+    id: string;
+    description: string;
+    check?: AcceptanceCheck;
+    source: 'user' | 'generated';
+    confirmed: boolean;
+}
+
+export type CriterionStatus = 'proven' | 'failed' | 'unverified';
+
+export interface CriterionResult {
+    criterion: AcceptanceCriterion;
+    status: CriterionStatus;
+    detail: string;
+}
+
+/**
+ * Итог проверки критериев задачи
+ */
+export interface AcceptanceReport {
+    checkedAt: string;
+    proven: CriterionResult[];
+    failed: CriterionResult[];
+    unverified: CriterionResult[];
+}
+
+/**
+ * Зависимости проверки (подменяются в тестах)
+ */
+export interface AcceptanceVerifierOptions {
+    runTests?: (workspacePath: string, options: { changedFiles?: string[] }) => Promise<TestRunResult>;
+    fetch?: typeof fetch;
+}
+
+const CHECK_TYPES = ['test', 'grep', 'ast', 'http', 'file'];
+const AST_KINDS: AstDeclarationKind[] = ['function', 'class', 'interface', 'type', 'method', 'export'];
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]', '0.0.0.0'];
+const DEFAULT_HTTP_TIMEOUT_MS = 10000;
+const AST_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Разобрать критерии из текста: по строке (или через ;) на критерий, проверка в [...] в конце
+ * Некорректная проверка - ошибка с текстом критерия
+ */
+export function parseAcceptanceCriteria(text: string, source: AcceptanceCriterion['source'] = 'user'): AcceptanceCriterion[] {
+    const criteria: AcceptanceCriterion[] = [];
+    for (const rawLine of splitCriteria(text)) {
+        const line = rawLine.replace(/^\s*(?:[-*]|\d+[.)])\s*/, '').trim();
+        if (!line) {
+            continue;
+        }
+
+        const binding = /^(.*?)\s*\[(!?\w+):\s*(.+)\]$/.exec(line);
+        let check: AcceptanceCheck | undefined;
+        if (binding) {
+            try {
+                check = parseCheck(binding[2], binding[3].trim());
+            } catch (error: any) {
+                throw new Error(`"${line}": ${error.message}`);
+            }
+        }
+        criteria.push({
+            id: `criterion-${criteria.length + 1}`,
+            description: binding ? binding[1] || line : line,
+            check,
+            source,
+            confirmed: source === 'user'
+        });
+    }
+    return criteria;
+}
+
+function splitCriteria(text: string): string[] {
+    // ; внутри [...] (например, в регулярном выражении) не разделяет критерии
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+        if ((char === '\n' || char === ';') && depth === 0) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        depth += char === '[' ? 1 : char === ']' && depth > 0 ? -1 : 0;
+        current += char;
+    }
+    return [...parts, current];
+}
+
+function parseCheck(kind: string, spec: string): AcceptanceCheck {
+    const absent = kind.startsWith('!');
+    const type = absent ? kind.substring(1) : kind;
+    switch (type) {
+        case 'test': {
+            const [file, name] = spec.includes(' > ') ? spec.split(' > ', 2) : [undefined, spec];
+            return normalizeCheck({ type, name, file });
+        }
+        case 'grep': {
+            const match = /^(\S+)\s+\/(.+)\/$/.exec(spec);
+            if (!match) {
+                throw new Error('grep: ожидается "<glob> /<регулярное выражение>/"');
+            }
+            return normalizeCheck({ type, files: match[1], pattern: match[2], absent });
+        }
+        case 'ast': {
+            const [file, declarationKind, name] = spec.split(/\s+/);
+            return normalizeCheck({ type, file, kind: declarationKind, name });
+        }
+        case 'http': {
+            const match = /^(?:([A-Z]+)\s+)?(\S+)(?:\s+(\d{3}))?(?:\s+"(.*)")?$/.exec(spec);
+            if (!match) {
+                throw new Error('http: ожидается "[МЕТОД] <url> [статус] ["подстрока ответа"]"');
+            }
+            return normalizeCheck({ type, method: match[1], url: match[2], status: match[3] ? Number(match[3]) : undefined, contains: match[4] });
+        }
+        case 'file':
+            return normalizeCheck({ type, path: spec, absent });
+        default:
+            throw new Error(`неизвестный тип проверки ${type}`);
+    }
+}
+
+/**
+ * Проверить и привести описание проверки (например, из ответа модели) к AcceptanceCheck
+ */
+export function normalizeCheck(value: any): AcceptanceCheck {
+    if (!value || !CHECK_TYPES.includes(value.type)) {
+        throw new Error(`тип проверки должен быть одним из ${CHECK_TYPES.join(', ')}`);
+    }
+    const required = (field: string) => {
+        if (typeof value[field] !== 'string' || !value[field].trim()) {
+            throw new Error(`${value.type}: не указано ${field}`);
+        }
+        return value[field].trim();
+    };
+
+    switch (value.type) {
+        case 'test':
+            return { type: 'test', name: required('name'), file: value.file || undefined };
+        case 'grep':
+            new RegExp(required('pattern'));
+            return { type: 'grep', files: required('files'), pattern: value.pattern, absent: value.absent === true || undefined };
+        case 'ast':
+            if (!AST_KINDS.includes(value.kind)) {
+                throw new Error(`ast: вид объявления должен быть одним из ${AST_KINDS.join(', ')}`);
+            }
+            return { type: 'ast', file: required('file'), kind: value.kind, name: required('name') };
+        case 'http': {
+            const url = new URL(required('url'));
+            if (!LOCAL_HOSTS.includes(url.hostname)) {
+                throw new Error('http: допускаются только запросы к локальному серверу');
+            }
+            return {
+                type: 'http',
+                url: url.toString(),
+                method: value.method ? String(value.method).toUpperCase() : undefined,
+                body: value.body,
+                status: value.status,
+                contains: value.contains,
+                timeoutMs: value.timeoutMs
+            };
+        }
+        default:
+            return { type: 'file', path: required('path'), absent: value.absent === true || undefined };
+    }
+}
+
+/**
+ * Описание проверки для отчетов (в синтаксисе parseAcceptanceCriteria)
+ */
+export function formatCheck(check: AcceptanceCheck): string {
+    switch (check.type) {
+        case 'test':
+            return `[test: ${check.file ? `${check.file} > ` : ''}${check.name}]`;
+        case 'grep':
+            return `[${check.absent ? '!' : ''}grep: ${check.files} /${check.pattern}/]`;
+        case 'ast':
+            return `[ast: ${check.file} ${check.kind} ${check.name}]`;
+        case 'http':
+            return `[http: ${check.method || 'GET'} ${check.url}${check.status ? ` ${check.status}` : ''}${check.contains ? ` "${check.contains}"` : ''}]`;
+        case 'file':
+            return `[${check.absent ? '!' : ''}file: ${check.path}]`;
+    }
+}
+
+/**
+ * Проверить критерии по workspace; тесты всех критериев запускаются одним прогоном
+ */
+export async function verifyAcceptanceCriteria(
+    criteria: AcceptanceCriterion[],
+    workspacePath: string,
+    options: AcceptanceVerifierOptions = {}
+): Promise<AcceptanceReport> {
+    const report: AcceptanceReport = { checkedAt: new Date().toISOString(), proven: [], failed: [], unverified: [] };
+    let testRun: Promise<TestRunResult> | null = null;
+    const getTestRun = () => {
+        if (!testRun) {
+            const checks = criteria.map(criterion => criterion.check).filter(check => check?.type === 'test') as { file?: string }[];
+            // Без файла у любого из тестов - полный прогон
+            const files = checks.every(check => check.file) ? [...new Set(checks.map(check => check.file!))] : undefined;
+            testRun = (options.runTests || runTests)(workspacePath, { changedFiles: files });
+        }
+        return testRun;
+    };
+
+    for (const criterion of criteria) {
+        let result: Omit<CriterionResult, 'criterion'>;
+        if (!criterion.check) {
+            result = { status: 'unverified', detail: 'нет проверки' };
+        } else if (!criterion.confirmed) {
+            result = { status: 'unverified', detail: 'критерий не подтвержден' };
+        } else {
+            try {
+                result = await runCheck(criterion.check, workspacePath, getTestRun, options.fetch || fetch);
+            } catch (error: any) {
+                result = { status: 'unverified', detail: `ошибка проверки: ${error.message}` };
+            }
+        }
+        report[result.status].push({ criterion, ...result });
+    }
+
+    console.log(`AcceptanceCriteria: ${report.proven.length} proven, ${report.failed.length} failed, ${report.unverified.length} unverified`);
+    return report;
+}
+
+async function runCheck(
+    check: AcceptanceCheck,
+    workspacePath: string,
+    getTestRun: () => Promise<TestRunResult>,
+    fetchFn: typeof fetch
+): Promise<Omit<CriterionResult, 'criterion'>> {
+    switch (check.type) {
+        case 'file': {
+            const exists = fs.existsSync(resolveInWorkspace(workspacePath, check.path));
+            return exists === !check.absent
+                ? { status: 'proven', detail: `${check.path} ${exists ? 'существует' : 'отсутствует'}` }
+                : { status: 'failed', detail: `${check.path} ${exists ? 'существует' : 'не найден'}` };
+        }
+        case 'grep':
+            return checkGrep(check, workspacePath);
+        case 'ast':
+            return checkAst(check, workspacePath);
+        case 'http':
+            return checkHttp(check, fetchFn);
+        case 'test': {
+            const run = await getTestRun();
+            const test = run.tests.find(candidate =>
+                candidate.name.includes(check.name) && (!check.file || !candidate.file || candidate.file.replace(/\\/g, '/').endsWith(check.file)));
+            if (!test || test.status === 'skipped') {
+                return { status: 'unverified', detail: test ? `тест "${test.name}" пропущен` : `тест "${check.name}" не найден${run.framework ? '' : ' (тесты не настроены)'}` };
+            }
+            return test.status === 'passed'
+                ? { status: 'proven', detail: `тест "${test.name}" прошел` }
+                : { status: 'failed', detail: `тест "${test.name}" не прошел${test.failureMessage ? `: ${test.failureMessage.split('\n')[0]}` : ''}` };
+        }
+    }
+}
+
+function checkGrep(check: Extract<AcceptanceCheck, { type: 'grep' }>, workspacePath: string): Omit<CriterionResult, 'criterion'> {
+    const glob = globToRegExp(check.files);
+    const regExp = new RegExp(check.pattern, 'm');
+    const files = listWorkspaceFiles(workspacePath).filter(file => glob.test(file));
+    if (files.length === 0) {
+        return check.absent
+            ? { status: 'proven', detail: `нет файлов ${check.files}` }
+            : { status: 'failed', detail: `нет файлов ${check.files}` };
+    }
+
+    const matched = files.filter(file => regExp.test(fs.readFileSync(path.join(workspacePath, file), 'utf-8')));
+    if (check.absent) {
+        return matched.length === 0
+            ? { status: 'proven', detail: `/${check.pattern}/ не найден в ${files.length} файлах` }
+            : { status: 'failed', detail: `/${check.pattern}/ найден в ${matched.slice(0, 3).join(', ')}` };
+    }
+    return matched.length > 0
+        ? { status: 'proven', detail: `/${check.pattern}/ найден в ${matched.slice(0, 3).join(', ')}` }
+        : { status: 'failed', detail: `/${check.pattern}/ не найден в ${check.files}` };
+}
+
+function checkAst(check: Extract<AcceptanceCheck, { type: 'ast' }>, workspacePath: string): Omit<CriterionResult, 'criterion'> {
+    if (!AST_EXTENSIONS.includes(path.extname(check.file))) {
+        return { status: 'unverified', detail: `AST проверка поддерживает только JS/TS файлы` };
+    }
+    const fullPath = resolveInWorkspace(workspacePath, check.file);
+    if (!fs.existsSync(fullPath)) {
+        return { status: 'failed', detail: `${check.file} не найден` };
+    }
+
+    const sourceFile = ts.createSourceFile(check.file, fs.readFileSync(fullPath, 'utf-8'), ts.ScriptTarget.Latest, true);
+    const found = findDeclarations(sourceFile).some(declaration =>
+        (check.kind === 'export' ? declaration.exported : declaration.kind === check.kind) &&
+        (declaration.name === check.name || declaration.qualifiedName === check.name));
+    return found
+        ? { status: 'proven', detail: `${check.kind} ${check.name} объявлен в ${check.file}` }
+        : { status: 'failed', detail: `${check.kind} ${check.name} не найден в ${check.file}` };
+}
+
+function findDeclarations(sourceFile: ts.SourceFile): { kind: AstDeclarationKind; name: string; qualifiedName: string; exported: boolean }[] {
+    const declarations: { kind: AstDeclarationKind; name: string; qualifiedName: string; exported: boolean }[] = [];
+    const isExported = (node: ts.Node) =>
+        ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+    const add = (kind: AstDeclarationKind, name: string, exported: boolean, owner?: string) =>
+        declarations.push({ kind, name, qualifiedName: owner ? `${owner}.${name}` : name, exported });
+
+    const visit = (node: ts.Node, owner?: string) => {
+        if (ts.isFunctionDeclaration(node) && node.name) {
+            add('function', node.name.text, isExported(node));
+        } else if (ts.isClassDeclaration(node) && node.name) {
+            add('class', node.name.text, isExported(node));
+            node.members.forEach(member => visit(member, node.name!.text));
+            return;
+        } else if (ts.isInterfaceDeclaration(node)) {
+            add('interface', node.name.text, isExported(node));
+        } else if (ts.isTypeAliasDeclaration(node)) {
+            add('type', node.name.text, isExported(node));
+        } else if ((ts.isMethodDeclaration(node) || ts.isPropertyDeclaration(node)) && owner && ts.isIdentifier(node.name)) {
+            if (ts.isMethodDeclaration(node) || (node.initializer && ts.isFunctionLike(node.initializer))) {
+                add('method', node.name.text, false, owner);
+            }
+        } else if (ts.isVariableStatement(node)) {
+            // const handler = () => {} и const handler = function () {}
+            for (const declaration of node.declarationList.declarations) {
+                if (ts.isIdentifier(declaration.name)) {
+                    const isFunction = !!declaration.initializer && (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer));
+                    add(isFunction ? 'function' : 'export', declaration.name.text, isExported(node));
+                }
+            }
+        } else if (ts.isExportSpecifier(node)) {
+            add('export', node.name.text, true);
+        }
+        ts.forEachChild(node, child => visit(child, owner));
+    };
+    visit(sourceFile);
+    return declarations;
+}
+
+async function checkHttp(check: Extract<AcceptanceCheck, { type: 'http' }>, fetchFn: typeof fetch): Promise<Omit<CriterionResult, 'criterion'>> {
+    const method = check.method || 'GET';
+    let response: Response;
+    try {
+        response = await fetchFn(check.url, {
+            method,
+            body: check.body,
+            headers: check.body ? { 'Content-Type': 'application/json' } : undefined,
+            signal: AbortSignal.timeout(check.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS)
+        });
+    } catch (error: any) {
+        // Сервер не запущен - проверить критерий нельзя
+        return { status: 'unverified', detail: `${method} ${check.url}: сервер недоступен (${error.cause?.code || error.message})` };
+    }
+
+    const body = await response.text();
+    const expectedStatus = check.status ?? 200;
+    if (response.status !== expectedStatus) {
+        return { status: 'failed', detail: `${method} ${check.url}: статус ${response.status}, ожидался ${expectedStatus}` };
+    }
+    if (check.contains && !body.includes(check.contains)) {
+        return { status: 'failed', detail: `${method} ${check.url}: в ответе нет "${check.contains}"` };
+    }
+    return { status: 'proven', detail: `${method} ${check.url}: ${response.status}` };
+}
+
+function resolveInWorkspace(workspacePath: string, file: string): string {
+    const fullPath = path.resolve(workspacePath, file);
+    if (path.relative(workspacePath, fullPath).startsWith('..')) {
+        throw new Error(`${file} вне workspace`);
+    }
+    return fullPath;
+}
+
+function listWorkspaceFiles(workspacePath: string, dir: string = ''): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(path.join(workspacePath, dir), { withFileTypes: true })) {
+        const relative = dir ? `${dir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+            if (!entry.name.startsWith('.') && !IGNORED_DIRECTORIES.includes(entry.name)) {
+                files.push(...listWorkspaceFiles(workspacePath, relative));
+            }
+        } else if (entry.isFile()) {
+            files.push(relative);
+        }
+    }
+    return files;
+}
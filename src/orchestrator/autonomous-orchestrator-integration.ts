@@ -5,6 +5,7 @@ import { FileWatcher } from './file-watcher';
 import { HealthMonitor } from '../agents/worker/health-monitor';
 import { MessageBus, MessageType, getGlobalMessageBus } from '../agents/worker/message-bus';
 import { TaskPriority } from '../agents/worker/task-queue';
+import { UsageTracker } from '../integration/model-providers/usage-tracker';
 import { Task } from './orchestrator';
 
 /**
@@ -198,7 +199,22 @@ export class AutonomousOrchestratorIntegration {
             });
         }
         
-        // 3. Интеграция с SelfLearningOrchestrator
+        // 3. История агентов для планировщика очереди: успешность из LearningEngine (по типу задачи)
+        // или HealthMonitor (по воркеру), стоимость модели из UsageTracker
+        if (this.swarmOrchestrator) {
+            const learningEngine = this.selfLearningOrchestrator.getLearningEngine();
+            this.swarmOrchestrator.setPerformanceSource({
+                getSuccessRate: (agentId, taskType) =>
+                    learningEngine.getAgentSuccessRate(taskType, agentId) ?? this.healthMonitor?.getSuccessRate(agentId),
+                getAverageCost: agentId => {
+                    const stats = UsageTracker.getInstance()?.getAgentStats(agentId) || [];
+                    const calls = stats.reduce((sum, usage) => sum + usage.calls, 0);
+                    return calls > 0 ? stats.reduce((sum, usage) => sum + usage.totalCost, 0) / calls : undefined;
+                }
+            });
+        }
+        
+        // 4. Интеграция с SelfLearningOrchestrator
         // Когда SelfLearningOrchestrator создает задачу - добавляем в SwarmQueue
         // (Это будет добавлено через обертку методов)
     }
@@ -247,12 +263,20 @@ export class AutonomousOrchestratorIntegration {
         }
         
         const taskPriority = this.mapPriority(priority);
-        
-        await this.swarmOrchestrator.createTask({
+        const task = {
             type,
             description,
-            priority: priority === 'immediate' ? 'high' : priority
-        }, taskPriority);
+            priority: priority === 'immediate' ? 'high' as const : priority
+        };
+        
+        // Фичи разбиваются на подзадачи агентов (architect → backend/frontend → qa → devops)
+        if (type === 'feature') {
+            const subTasks = await this.swarmOrchestrator.createPlannedTask(task, taskPriority);
+            vscode.window.showInformationMessage(`📝 Задача разбита на ${subTasks.length} подзадач с приоритетом "${priority}"`);
+            return;
+        }
+        
+        await this.swarmOrchestrator.createTask(task, taskPriority);
         
         vscode.window.showInformationMessage(`📝 Задача создана с приоритетом "${priority}"`);
     }
@@ -0,0 +1,376 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Task } from './orchestrator';
+import { ProjectContext } from '../agents/local-agent';
+import { ProjectDependencyGraph } from './project-dependency-graph';
+import { ProjectKnowledgeBase, DecisionHistory } from './project-knowledge-base';
+import { tokenize } from './semantic-index';
+import { estimateTokens } from '../optimization/token-estimator';
+
+/**
+ * Вид элемента контекста
+ */
+export type ContextItemKind = 'rule' | 'snippet' | 'related-file' | 'decision' | 'file-list';
+
+/**
+ * Кандидат на включение в промпт с оценкой релевантности задаче
+ */
+export interface ContextCandidate {
+    id: string;
+    kind: ContextItemKind;
+    label: string; // для отчета
+    text: string;
+    tokens: number;
+    score: number; // 0-1
+}
+
+/**
+ * Запись отчета о сборке контекста
+ */
+export interface ContextReportEntry {
+    id: string;
+    kind: ContextItemKind;
+    label: string;
+    tokens: number;
+    score: number;
+}
+
+/**
+ * Что вошло в контекст промпта, а что отброшено из-за бюджета
+ */
+export interface ContextReport {
+    budgetTokens: number;
+    usedTokens: number;
+    included: ContextReportEntry[];
+    dropped: ContextReportEntry[];
+}
+
+/**
+ * Контекст, упакованный в бюджет модели
+ */
+export interface AssembledContext {
+    text: string;
+    report: ContextReport;
+}
+
+/**
+ * Источники для ранжирования; без графа близость считается по ProjectContext.dependencies
+ */
+export interface ContextAssemblerOptions {
+    dependencyGraph?: ProjectDependencyGraph;
+    knowledgeBase?: ProjectKnowledgeBase;
+    workspacePath?: string;
+}
+
+/**
+ * Заголовки разделов в порядке вывода
+ */
+const SECTION_TITLES: { [kind in ContextItemKind]: string } = {
+    'rule': 'Правила проекта:',
+    'snippet': 'Релевантный код проекта:',
+    'related-file': 'Связанные файлы (по графу зависимостей):',
+    'decision': 'Недавние решения по проекту:',
+    'file-list': 'Файлы проекта:'
+};
+
+const MAX_PROXIMITY_DEPTH = 2;
+const MAX_DECISIONS = 20;
+const MAX_LISTED_FILES = 200;
+
+/**
+ * Сборщик контекста промпта
+ * Ранжирует содержимое по релевантности задаче: фрагменты семантического индекса,
+ * близость по графу зависимостей, недавние решения из базы знаний, подходящие правила .cursor/rules.
+ * Упаковка в бюджет выполняется отдельно (packContext), т.к. бюджет зависит от модели агента.
+ */
+export class ContextAssembler {
+    private workspacePath: string;
+
+    constructor(private options: ContextAssemblerOptions = {}) {
+        this.workspacePath = options.workspacePath ?? (vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '');
+    }
+
+    /**
+     * Кандидаты в контекст задачи, отсортированные по убыванию релевантности
+     */
+    collectCandidates(task: Task, projectContext: ProjectContext): ContextCandidate[] {
+        const taskTerms = new Set(tokenize(task.description));
+        const candidates: ContextCandidate[] = [];
+
+        // Фрагменты кода из семантического поиска
+        const seeds = new Map<string, number>();
+        for (const snippet of projectContext.relevantSnippets || []) {
+            const label = `${snippet.file}:${snippet.startLine}-${snippet.endLine}`;
+            candidates.push(this.createCandidate(`snippet:${label}`, 'snippet', label,
+                `--- ${label}\n${snippet.text}`, 0.4 + 0.5 * Math.min(1, snippet.score)));
+            seeds.set(snippet.file, Math.max(seeds.get(snippet.file) || 0, snippet.score));
+        }
+
+        // Файлы, упомянутые в задаче
+        const knownFiles = new Set([...projectContext.structure.files, ...Object.keys(projectContext.dependencies || {})]);
+        for (const mentioned of task.description.match(/[\w./-]+\.\w+/g) || []) {
+            const file = mentioned.replace(/^\.\//, '');
+            if (knownFiles.has(file)) {
+                seeds.set(file, 1);
+            }
+        }
+
+        candidates.push(...this.collectRelatedFiles(seeds, projectContext));
+        candidates.push(...this.collectDecisions(taskTerms, projectContext));
+        candidates.push(...this.collectRules(taskTerms, Array.from(seeds.keys())));
+
+        const mentionedFiles = new Set(candidates.filter(c => c.kind === 'related-file').map(c => c.label));
+        const listed = projectContext.structure.files.filter(file => !seeds.has(file) && !mentionedFiles.has(file)).slice(0, MAX_LISTED_FILES);
+        if (listed.length > 0) {
+            candidates.push(this.createCandidate('file-list', 'file-list', `${listed.length} файлов`, listed.join('\n'), 0.1));
+        }
+
+        return candidates.sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Файлы на расстоянии 1-2 по импортам от исходных (фрагменты кода и файлы из задачи)
+     */
+    private collectRelatedFiles(seeds: Map<string, number>, projectContext: ProjectContext): ContextCandidate[] {
+        const neighbours = this.createNeighbourLookup(projectContext);
+        const best = new Map<string, { score: number; relation: string }>();
+
+        for (const [seed, weight] of seeds) {
+            let frontier = [seed];
+            const visited = new Set(frontier);
+
+            for (let distance = 1; distance <= MAX_PROXIMITY_DEPTH && frontier.length > 0; distance++) {
+                const next: string[] = [];
+                for (const file of frontier) {
+                    for (const { file: neighbour, relation } of neighbours(file)) {
+                        if (visited.has(neighbour) || seeds.has(neighbour)) {
+                            continue;
+                        }
+                        visited.add(neighbour);
+                        next.push(neighbour);
+
+                        const score = (0.3 + 0.4 * weight) / distance;
+                        if (score > (best.get(neighbour)?.score || 0)) {
+                            best.set(neighbour, { score, relation: `${relation} ${file}` });
+                        }
+                    }
+                }
+                frontier = next;
+            }
+        }
+
+        return Array.from(best.entries()).map(([file, { score, relation }]) =>
+            this.createCandidate(`related:${file}`, 'related-file', file, `- ${file} (${relation})`, score));
+    }
+
+    private createNeighbourLookup(projectContext: ProjectContext): (file: string) => Array<{ file: string; relation: string }> {
+        const graph = this.options.dependencyGraph;
+        if (graph) {
+            return (file) => [
+                ...graph.getImportedFiles(file).map(dep => ({ file: dep, relation: 'импортируется в' })),
+                ...graph.getDependents(file).map(dep => ({ file: dep, relation: 'импортирует' }))
+            ];
+        }
+
+        const imports = projectContext.dependencies || {};
+        const dependents = new Map<string, string[]>();
+        for (const [file, deps] of Object.entries(imports)) {
+            deps.forEach(dep => (dependents.get(dep) || dependents.set(dep, []).get(dep)!).push(file));
+        }
+
+        return (file) => [
+            ...(imports[file] || []).map(dep => ({ file: dep, relation: 'импортируется в' })),
+            ...(dependents.get(file) || []).map(dep => ({ file: dep, relation: 'импортирует' }))
+        ];
+    }
+
+    /**
+     * Недавние решения: свежесть и пересечение с формулировкой задачи
+     */
+    private collectDecisions(taskTerms: Set<string>, projectContext: ProjectContext): ContextCandidate[] {
+        // От старых к новым: свежесть растет с индексом
+        const history: DecisionHistory[] = this.options.knowledgeBase
+            ? this.options.knowledgeBase.getHistory(MAX_DECISIONS).reverse()
+            : (projectContext.knowledge?.history || []).slice(-MAX_DECISIONS);
+
+        return history.map((decision, index) => {
+            const recency = (index + 1) / history.length;
+            const lessons = decision.lessons.slice(0, 3).join('; ');
+            const text = `- [${decision.outcome.success ? 'успех' : 'неудача'}, качество ${decision.outcome.quality.toFixed(2)}] ` +
+                `${decision.decision.reasoning.substring(0, 300)}${lessons ? ` Уроки: ${lessons}` : ''}`;
+            const score = 0.1 + 0.2 * recency + 0.4 * termOverlap(taskTerms, text) + (decision.outcome.success ? 0.05 : 0);
+
+            return this.createCandidate(`decision:${decision.id}`, 'decision', `решение ${decision.taskId}`, text, score);
+        });
+    }
+
+    /**
+     * Правила .cursor/rules: alwaysApply, совпадение globs с файлами задачи, затем по описанию
+     */
+    private collectRules(taskTerms: Set<string>, files: string[]): ContextCandidate[] {
+        const rulesPath = this.workspacePath ? path.join(this.workspacePath, '.cursor', 'rules') : '';
+        if (!rulesPath || !fs.existsSync(rulesPath)) {
+            return [];
+        }
+
+        return findRuleFiles(rulesPath).map(fullPath => {
+            const rule = parseRule(fs.readFileSync(fullPath, 'utf-8'));
+            const label = path.relative(this.workspacePath, fullPath).replace(/\\/g, '/');
+            const globs = rule.globs.map(globToRegExp);
+
+            let score = 0.15 + 0.5 * termOverlap(taskTerms, `${path.basename(fullPath)} ${rule.description}`);
+            if (rule.alwaysApply) {
+                score = 0.95;
+            } else if (files.some(file => globs.some(glob => glob.test(file))) && !rule.globs.includes('**/*')) {
+                score = 0.85;
+            }
+
+            return this.createCandidate(`rule:${label}`, 'rule', label, `--- ${label}\n${rule.body.trim()}`, score);
+        });
+    }
+
+    private createCandidate(id: string, kind: ContextItemKind, label: string, text: string, score: number): ContextCandidate {
+        return { id, kind, label, text, tokens: estimateTokens(text) + 1, score: Math.round(score * 1000) / 1000 };
+    }
+}
+
+/**
+ * Упаковка кандидатов в бюджет токенов
+ * Жадно по убыванию релевантности; заголовок раздела учитывается при первом элементе раздела
+ */
+export function packContext(candidates: ContextCandidate[], budgetTokens: number): AssembledContext {
+    const included: ContextCandidate[] = [];
+    const dropped: ContextCandidate[] = [];
+    const sections = new Set<ContextItemKind>();
+    let usedTokens = 0;
+
+    for (const candidate of [...candidates].sort((a, b) => b.score - a.score)) {
+        const headerTokens = sections.has(candidate.kind) ? 0 : estimateTokens(SECTION_TITLES[candidate.kind]) + 2;
+        if (usedTokens + headerTokens + candidate.tokens > budgetTokens) {
+            dropped.push(candidate);
+            continue;
+        }
+
+        usedTokens += headerTokens + candidate.tokens;
+        sections.add(candidate.kind);
+        included.push(candidate);
+    }
+
+    const blocks = (Object.keys(SECTION_TITLES) as ContextItemKind[])
+        .filter(kind => sections.has(kind))
+        .map(kind => {
+            const separator = kind === 'snippet' || kind === 'rule' ? '\n\n' : '\n';
+            const items = included.filter(candidate => candidate.kind === kind).map(candidate => candidate.text);
+            return `${SECTION_TITLES[kind]}\n${items.join(separator)}`;
+        });
+
+    const toEntry = ({ id, kind, label, tokens, score }: ContextCandidate): ContextReportEntry => ({ id, kind, label, tokens, score });
+    return {
+        text: blocks.join('\n\n'),
+        report: {
+            budgetTokens,
+            usedTokens,
+            included: included.map(toEntry),
+            dropped: dropped.map(toEntry)
+        }
+    };
+}
+
+/**
+ * Краткое описание отчета для логов
+ */
+export function formatContextReport(report: ContextReport): string {
+    const dropped = report.dropped.length > 0
+        ? `; отброшено ${report.dropped.length}: ${report.dropped.slice(0, 5).map(entry => `${entry.label} (${entry.tokens})`).join(', ')}` +
+            (report.dropped.length > 5 ? ', ...' : '')
+        : '';
+    return `контекст ${report.usedTokens}/${report.budgetTokens} токенов, включено ${report.included.length}${dropped}`;
+}
+
+/**
+ * Доля термов задачи, встречающихся в тексте
+ */
+function termOverlap(taskTerms: Set<string>, text: string): number {
+    if (taskTerms.size === 0) {
+        return 0;
+    }
+    const textTerms = new Set(tokenize(text));
+    let matched = 0;
+    taskTerms.forEach(term => {
+        if (textTerms.has(term)) {
+            matched++;
+        }
+    });
+    return matched / taskTerms.size;
+}
+
+function findRuleFiles(dir: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...findRuleFiles(fullPath));
+        } else if (entry.name.endsWith('.mdc') || entry.name.endsWith('.md')) {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Frontmatter правила Cursor: description, globs, alwaysApply
+ */
+function parseRule(content: string): { description: string; globs: string[]; alwaysApply: boolean; body: string } {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (!match) {
+        return { description: '', globs: [], alwaysApply: false, body: content };
+    }
+
+    const field = (name: string) => match[1].match(new RegExp(`^${name}:\\s*(.*)$`, 'm'))?.[1].trim() || '';
+    const globs = field('globs')
+        .replace(/^\[|\]$/g, '')
+        .split(',')
+        .map(glob => glob.trim().replace(/^["']|["']$/g, ''))
+        .filter(Boolean);
+
+    return {
+        description: field('description').replace(/^["']|["']$/g, ''),
+        globs,
+        alwaysApply: field('alwaysApply') === 'true',
+        body: content.substring(match[0].length)
+    };
+}
+
+/**
+ * Glob (**, *, ?, {a,b}) в регулярное выражение для относительного пути
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else if (char === '{') {
+            const end = glob.indexOf('}', i);
+            if (end === -1) {
+                pattern += '\\{';
+                continue;
+            }
+            pattern += `(?:${glob.substring(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+            i = end;
+        } else {
+            pattern += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,252 @@
+import {
+    LanguageParser,
+    ParsedSourceFile,
+    ResolveContext,
+    createEmptyParsedFile,
+    createImport,
+    getAncestorDirectories,
+    joinPath
+} from './language-parser';
+import { ImportBindings, ScopeDeclaration, collectUsages, findBraceScopes, maskSource } from './source-scanner';
+
+/**
+ * Модуль Go: путь из go.mod и директория, в которой он лежит
+ */
+interface GoModule {
+    path: string;
+    dir: string;
+    replaces: Array<{ from: string; dir: string }>;
+}
+
+/**
+ * Парсер Go
+ * Импорт указывает на пакет (директорию), поэтому разрешается во все файлы пакета.
+ * Пути пакетов сопоставляются с модулем из ближайшего go.mod, replace на локальные
+ * директории и модулями из go.work (монорепозиторий).
+ */
+export class GoLanguageParser implements LanguageParser {
+    readonly language = 'Go';
+    readonly extensions = ['.go'];
+    private modules: Map<string, GoModule | null> = new Map();
+    private workspaceModules: GoModule[] | null = null;
+
+    parse(filePath: string, content: string): ParsedSourceFile {
+        const masked = maskSource(content, {
+            lineComments: ['//'],
+            blockComments: [['/*', '*/']],
+            quotes: ['"', "'"],
+            rawQuotes: ['`']
+        });
+        const result = createEmptyParsedFile();
+        const bindings: ImportBindings = new Map();
+        const excluded: Array<[number, number]> = [];
+
+        // import "path" | import alias "path" | import ( ... )
+        const importPattern = /^import[ \t]*(\()?/gm;
+        let match: RegExpExecArray | null;
+        while ((match = importPattern.exec(masked)) !== null) {
+            const start = match.index + match[0].length;
+            const end = match[1] ? masked.indexOf(')', start) : masked.indexOf('\n', start);
+            const stop = end === -1 ? masked.length : end;
+            excluded.push([match.index, stop]);
+
+            // Содержимое строк в маскированном тексте заменено пробелами - путь берем из исходника
+            const specPattern = /(?:([\w.]+)[ \t]+)?"[^"\n]*"/g;
+            const block = masked.substring(start, stop);
+            let spec: RegExpExecArray | null;
+            while ((spec = specPattern.exec(block)) !== null) {
+                const quoteIndex = start + spec.index + spec[0].indexOf('"');
+                const importPath = content.substring(quoteIndex + 1, start + spec.index + spec[0].length - 1);
+                const alias = spec[1];
+                const entry = createImport(importPath, 'static', false, alias === '_' ? [] : ['*']);
+
+                if (alias !== '_' && alias !== '.') {
+                    bindings.set(alias || this.getPackageName(importPath), { entry, symbol: '*' });
+                }
+                result.imports.push(entry);
+            }
+        }
+
+        // func Name(...) и методы func (r *Type) Name(...)
+        const declarations: ScopeDeclaration[] = [];
+        const funcPattern = /^func[ \t]*(?:\([^)]*?\*?[ \t]*([A-Za-z_]\w*)(?:\[[^\]]*\])?[ \t]*\)[ \t]*)?([A-Za-z_]\w*)/gm;
+        while ((match = funcPattern.exec(masked)) !== null) {
+            const name = match[1] ? `${match[1]}.${match[2]}` : match[2];
+            declarations.push({ name, kind: 'function', index: match.index });
+            result.declarations.functions.push(name);
+            if (this.isExported(match[2]) && (!match[1] || this.isExported(match[1]))) {
+                result.exports.push(name);
+            }
+        }
+
+        // type Name struct/interface/...
+        const typePattern = /^(?:type[ \t]+|\t)([A-Za-z_]\w*)(?:\[[^\]]*\])?[ \t]+(struct|interface|[\w.*\[\]]+)/gm;
+        const typeBlocks = this.findBlocks(masked, 'type');
+        while ((match = typePattern.exec(masked)) !== null) {
+            const inBlock = typeBlocks.some(([from, to]) => match!.index > from && match!.index < to);
+            if (!match[0].startsWith('type') && !inBlock) {
+                continue;
+            }
+            (match[2] === 'struct' ? result.declarations.classes : result.declarations.types).push(match[1]);
+            if (this.isExported(match[1])) {
+                result.exports.push(match[1]);
+            }
+        }
+
+        // var/const Name ... и блоки var ( ... )
+        const variableBlocks = [...this.findBlocks(masked, 'var'), ...this.findBlocks(masked, 'const')];
+        const variablePattern = /^(?:(?:var|const)[ \t]+|\t)([A-Za-z_]\w*(?:[ \t]*,[ \t]*[A-Za-z_]\w*)*)/gm;
+        while ((match = variablePattern.exec(masked)) !== null) {
+            const inBlock = variableBlocks.some(([from, to]) => match!.index > from && match!.index < to);
+            if (!/^(var|const)[ \t]/.test(match[0]) && !inBlock) {
+                continue;
+            }
+            for (const name of match[1].split(',').map(part => part.trim())) {
+                if (name === '_' || result.declarations.variables.includes(name)) {
+                    continue;
+                }
+                result.declarations.variables.push(name);
+                if (this.isExported(name)) {
+                    result.exports.push(name);
+                }
+            }
+        }
+
+        collectUsages(masked, result.imports, bindings, findBraceScopes(masked, declarations), {
+            separator: '.',
+            excluded
+        });
+
+        result.exports = Array.from(new Set(result.exports));
+        return result;
+    }
+
+    resolveImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+        const candidates: GoModule[] = [];
+        const nearest = this.findModule(fromFile, context);
+        if (nearest) {
+            candidates.push(nearest);
+        }
+        candidates.push(...this.getWorkspaceModules(context));
+
+        for (const module of candidates) {
+            let packageDir: string | null = null;
+
+            const replacement = module.replaces.find(entry => specifier === entry.from || specifier.startsWith(`${entry.from}/`));
+            if (replacement) {
+                packageDir = joinPath(replacement.dir, specifier.substring(replacement.from.length + 1));
+            } else if (specifier === module.path || specifier.startsWith(`${module.path}/`)) {
+                packageDir = joinPath(module.dir, specifier.substring(module.path.length + 1));
+            }
+
+            if (packageDir === null) {
+                continue;
+            }
+
+            const files = context.listFiles(packageDir).filter(file => file.endsWith('.go') && !file.endsWith('_test.go'));
+            if (files.length > 0) {
+                return files;
+            }
+        }
+
+        return [];
+    }
+
+    loadProjectConfig(): void {
+        this.modules.clear();
+        this.workspaceModules = null;
+    }
+
+    /**
+     * Ближайший go.mod вверх от файла
+     */
+    private findModule(fromFile: string, context: ResolveContext): GoModule | null {
+        for (const dir of getAncestorDirectories(fromFile)) {
+            const module = this.readModule(dir, context);
+            if (module) {
+                return module;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Модули из go.work в корне workspace
+     */
+    private getWorkspaceModules(context: ResolveContext): GoModule[] {
+        if (this.workspaceModules) {
+            return this.workspaceModules;
+        }
+
+        this.workspaceModules = [];
+        const goWork = context.readFile('go.work');
+        if (!goWork) {
+            return this.workspaceModules;
+        }
+
+        const usePattern = /^\s*(?:use\s+)?(\.[^\s()]*)\s*$/gm;
+        let match: RegExpExecArray | null;
+        while ((match = usePattern.exec(goWork.replace(/\/\/[^\n]*/g, ''))) !== null) {
+            const module = this.readModule(joinPath(match[1]), context);
+            if (module) {
+                this.workspaceModules.push(module);
+            }
+        }
+
+        return this.workspaceModules;
+    }
+
+    private readModule(dir: string, context: ResolveContext): GoModule | null {
+        if (this.modules.has(dir)) {
+            return this.modules.get(dir)!;
+        }
+
+        let module: GoModule | null = null;
+        const goMod = context.readFile(joinPath(dir, 'go.mod'));
+        const moduleMatch = goMod?.match(/^module\s+(\S+)/m);
+
+        if (goMod && moduleMatch) {
+            module = { path: moduleMatch[1].replace(/"/g, ''), dir, replaces: [] };
+
+            // replace example.com/lib => ../lib (только локальные пути)
+            const replacePattern = /^\s*(?:replace\s+)?(\S+)(?:\s+\S+)?\s+=>\s+(\.{1,2}\/\S*)/gm;
+            let match: RegExpExecArray | null;
+            while ((match = replacePattern.exec(goMod)) !== null) {
+                module.replaces.push({ from: match[1], dir: joinPath(dir, match[2]) });
+            }
+        }
+
+        this.modules.set(dir, module);
+        return module;
+    }
+
+    /**
+     * Имя пакета по пути импорта: последний сегмент, суффикс версии /vN пропускается
+     */
+    private getPackageName(importPath: string): string {
+        const segments = importPath.split('/');
+        let name = segments[segments.length - 1];
+        if (/^v\d+$/.test(name) && segments.length > 1) {
+            name = segments[segments.length - 2];
+        }
+        return name.replace(/^go-/, '').replace(/[.-]go$/, '').replace(/[^\w]/g, '_');
+    }
+
+    /**
+     * Диапазоны блоков "keyword ( ... )" верхнего уровня
+     */
+    private findBlocks(masked: string, keyword: string): Array<[number, number]> {
+        const blocks: Array<[number, number]> = [];
+        const pattern = new RegExp(`^${keyword}[ \\t]*\\(`, 'gm');
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(masked)) !== null) {
+            const end = masked.indexOf('\n)', match.index);
+            blocks.push([match.index, end === -1 ? masked.length : end]);
+        }
+        return blocks;
+    }
+
+    private isExported(name: string): boolean {
+        return /^[A-Z]/.test(name);
+    }
+}
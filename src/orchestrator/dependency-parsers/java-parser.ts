@@ -0,0 +1,216 @@
+import * as path from 'path';
+import {
+    LanguageParser,
+    ParsedSourceFile,
+    ResolveContext,
+    createEmptyParsedFile,
+    createImport,
+    getAncestorDirectories,
+    joinPath
+} from './language-parser';
+import { ImportBindings, ScopeDeclaration, collectUsages, findBraceScopes, maskSource } from './source-scanner';
+
+/**
+ * Ключевые слова, после которых или вместо имени метода идет не объявление
+ */
+const JAVA_NON_METHOD_WORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'synchronized', 'return', 'new', 'throw', 'else', 'try']);
+
+/**
+ * Парсер Java: package, import a.b.C, import a.b.*, import static a.b.C.member
+ * Класс ищется относительно корня исходников файла (по объявленному package),
+ * затем по всему проекту (модули монорепозитория).
+ */
+export class JavaLanguageParser implements LanguageParser {
+    readonly language = 'Java';
+    readonly extensions = ['.java'];
+    private sourceRoots: Map<string, string | null> = new Map();
+
+    parse(filePath: string, content: string): ParsedSourceFile {
+        const masked = maskSource(content, {
+            lineComments: ['//'],
+            blockComments: [['/*', '*/']],
+            quotes: ['"', "'"],
+            tripleQuotes: true
+        });
+        const result = createEmptyParsedFile();
+        const bindings: ImportBindings = new Map();
+        const excluded: Array<[number, number]> = [];
+
+        const importPattern = /^[ \t]*import\s+(static\s+)?([\w.]+)(\.\*)?\s*;/gm;
+        let match: RegExpExecArray | null;
+        while ((match = importPattern.exec(masked)) !== null) {
+            excluded.push([match.index, match.index + match[0].length]);
+            const isStatic = !!match[1];
+            const name = match[2];
+            const wildcard = !!match[3];
+
+            if (isStatic) {
+                // import static a.b.C.member -> класс a.b.C, символ member
+                const className = wildcard ? name : name.substring(0, name.lastIndexOf('.'));
+                const member = wildcard ? '*' : name.substring(name.lastIndexOf('.') + 1);
+                const entry = createImport(className, 'static', false, [member]);
+                if (!wildcard) {
+                    bindings.set(member, { entry, symbol: member });
+                }
+                result.imports.push(entry);
+            } else if (wildcard) {
+                result.imports.push(createImport(`${name}.*`, 'static', false, ['*']));
+            } else {
+                const simpleName = name.substring(name.lastIndexOf('.') + 1);
+                const entry = createImport(name, 'static', false, [simpleName]);
+                bindings.set(simpleName, { entry, symbol: simpleName });
+                result.imports.push(entry);
+            }
+        }
+
+        // Типы (class/interface/enum/record/@interface) и методы
+        const declarations: ScopeDeclaration[] = [];
+        const typeKinds = new Map<number, string>();
+        const typePattern = /(@?interface|\bclass|\benum|\brecord)\s+([A-Za-z_]\w*)/g;
+        while ((match = typePattern.exec(masked)) !== null) {
+            if (masked.substring(Math.max(0, match.index - 1), match.index) === '.') {
+                continue; // Foo.class
+            }
+            declarations.push({ name: match[2], kind: 'class', index: match.index });
+            typeKinds.set(match.index, match[1]);
+        }
+
+        // Метод: "<тип> name(...) [throws ...] {", где тип - слово, generic или массив
+        const methodPattern = /([\w>\]])\s+([A-Za-z_]\w*)\s*\(/g;
+        while ((match = methodPattern.exec(masked)) !== null) {
+            const name = match[2];
+            const previousWord = masked.substring(0, match.index + 1).match(/(\w+)$/)?.[1];
+            if (JAVA_NON_METHOD_WORDS.has(name) || (previousWord && JAVA_NON_METHOD_WORDS.has(previousWord))) {
+                continue;
+            }
+
+            const bodyStart = this.findMethodBody(masked, match.index + match[0].length - 1);
+            if (bodyStart !== -1) {
+                declarations.push({ name, kind: 'function', index: match.index + match[0].indexOf(name, match[1].length) });
+            }
+        }
+
+        declarations.sort((a, b) => a.index - b.index);
+        const scopes = findBraceScopes(masked, declarations);
+
+        for (const scope of scopes) {
+            const outer = scopes.filter(other => other !== scope && other.start < scope.start && scope.start < other.end);
+            const kind = typeKinds.get(scope.start);
+
+            if (scope.kind === 'class') {
+                if (outer.length === 0) {
+                    (kind === 'interface' || kind === '@interface' ? result.declarations.types : result.declarations.classes).push(scope.name);
+                    result.exports.push(scope.name);
+                }
+            } else if (outer.length === 1 && outer[0].kind === 'class') {
+                result.declarations.functions.push(`${outer[0].name}.${scope.name}`);
+            }
+        }
+
+        collectUsages(masked, result.imports, bindings, scopes, { separator: '.', excluded });
+
+        result.exports = Array.from(new Set(result.exports));
+        return result;
+    }
+
+    /**
+     * a.b.C -> <корень исходников>/a/b/C.java, a.b.* -> все файлы пакета
+     * Для вложенных классов (a.b.Outer.Inner) пробуется внешний класс
+     */
+    resolveImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+        const roots = this.getCandidateRoots(fromFile, context);
+
+        if (specifier.endsWith('.*')) {
+            const packagePath = specifier.slice(0, -2).replace(/\./g, '/');
+            for (const root of roots) {
+                const files = context.listFiles(joinPath(root, packagePath)).filter(file => file.endsWith('.java'));
+                if (files.length > 0) {
+                    return files;
+                }
+            }
+            return [];
+        }
+
+        const segments = specifier.split('.');
+        for (let length = segments.length; length > 1; length--) {
+            const relative = `${segments.slice(0, length).join('/')}.java`;
+
+            for (const root of roots) {
+                const candidate = joinPath(root, relative);
+                if (context.fileExists(candidate)) {
+                    return [candidate];
+                }
+            }
+
+            // Класс из другого модуля монорепозитория
+            const matches = context.findFilesBySuffix(relative);
+            if (matches.length > 0) {
+                return [matches[0]];
+            }
+        }
+
+        return [];
+    }
+
+    loadProjectConfig(): void {
+        this.sourceRoots.clear();
+    }
+
+    /**
+     * Позиция '{' тела метода после списка параметров (или -1 для вызова/абстрактного метода)
+     */
+    private findMethodBody(masked: string, openParen: number): number {
+        let depth = 0;
+        let i = openParen;
+        for (; i < masked.length; i++) {
+            if (masked[i] === '(') {
+                depth++;
+            } else if (masked[i] === ')') {
+                depth--;
+                if (depth === 0) {
+                    break;
+                }
+            }
+        }
+
+        const rest = masked.substring(i + 1, i + 300);
+        const bodyMatch = rest.match(/^\s*(?:throws\s+[\w.,\s<>]+?)?\s*\{/);
+        return bodyMatch ? i + 1 + bodyMatch[0].length - 1 : -1;
+    }
+
+    /**
+     * Корень исходников: директория файла без пути пакета
+     */
+    private getSourceRoot(filePath: string, packageName: string): string | null {
+        const dir = path.posix.dirname(filePath);
+        const packagePath = packageName.replace(/\./g, '/');
+
+        if (dir === packagePath) {
+            return '';
+        }
+        if (dir.endsWith(`/${packagePath}`)) {
+            return dir.substring(0, dir.length - packagePath.length - 1);
+        }
+        return null;
+    }
+
+    private getCandidateRoots(fromFile: string, context: ResolveContext): string[] {
+        if (!this.sourceRoots.has(fromFile)) {
+            const packageMatch = context.readFile(fromFile)?.match(/^\s*package\s+([\w.]+)\s*;/m);
+            this.sourceRoots.set(fromFile, packageMatch ? this.getSourceRoot(fromFile, packageMatch[1]) : null);
+        }
+
+        const knownRoot = this.sourceRoots.get(fromFile);
+        const roots = knownRoot !== undefined && knownRoot !== null ? [knownRoot] : [];
+
+        // Соседние корни Maven/Gradle (src/main/java <-> src/test/java)
+        for (const root of [...roots]) {
+            const sibling = root.replace(/src\/(main|test)\/java$/, (_, part) => `src/${part === 'main' ? 'test' : 'main'}/java`);
+            if (sibling !== root) {
+                roots.push(sibling);
+            }
+        }
+
+        return roots.length > 0 ? roots : getAncestorDirectories(fromFile);
+    }
+}
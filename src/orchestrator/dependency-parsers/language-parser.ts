@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Импорт модуля с перечнем используемых символов
+ */
+export interface ParsedImport {
+    specifier: string;
+    kind: 'static' | 'dynamic' | 'require' | 'type';
+    typeOnly: boolean;
+    /**
+     * Импортированные символы ('default' - импорт по умолчанию, '*' - модуль целиком:
+     * namespace без известных членов, import(), require)
+     */
+    symbols: string[];
+    /**
+     * Где используется каждый символ: имена функций/методов файла-импортера
+     */
+    usedIn: { [symbol: string]: string[] };
+}
+
+/**
+ * Реэкспорт из другого модуля (barrel файлы)
+ */
+export interface ParsedReExport {
+    specifier: string;
+    all: boolean; // export * from '...'
+    names: Array<{ exported: string; original: string }>;
+}
+
+/**
+ * Результат разбора исходного файла
+ */
+export interface ParsedSourceFile {
+    imports: ParsedImport[];
+    reExports: ParsedReExport[];
+    exports: string[];
+    declarations: {
+        classes: string[];
+        functions: string[];
+        types: string[];
+        variables: string[];
+    };
+}
+
+/**
+ * Доступ к файлам проекта при разрешении импортов
+ * Пути относительные (от корня workspace) с разделителем '/'
+ */
+export interface ResolveContext {
+    workspacePath: string;
+    fileExists(relativePath: string): boolean;
+    listFiles(relativeDir: string): string[];
+    findFilesBySuffix(suffix: string): string[];
+    readFile(relativePath: string): string | null;
+}
+
+/**
+ * Парсер зависимостей для языка
+ * Разбирает файл и разрешает спецификаторы импортов в файлы проекта.
+ * Для пакетных импортов (Go, Java wildcard) разрешение возвращает все файлы пакета.
+ */
+export interface LanguageParser {
+    readonly language: string;
+    readonly extensions: string[];
+    parse(filePath: string, content: string): ParsedSourceFile;
+    resolveImport(specifier: string, fromFile: string, context: ResolveContext): string[];
+    /**
+     * Символ, не найденный в экспортах модуля, может быть вложенным модулем (Python: from pkg import module)
+     */
+    resolveMember?(specifier: string, symbol: string, fromFile: string, context: ResolveContext): string[];
+    /**
+     * Загрузка конфигурации проекта (tsconfig, go.mod, composer.json) перед построением графа
+     */
+    loadProjectConfig?(workspacePath: string): void;
+}
+
+/**
+ * Область видимости верхнего уровня (используется, когда импорт применяется вне функций)
+ */
+export const MODULE_SCOPE = '<module>';
+
+export function createEmptyParsedFile(): ParsedSourceFile {
+    return {
+        imports: [],
+        reExports: [],
+        exports: [],
+        declarations: { classes: [], functions: [], types: [], variables: [] }
+    };
+}
+
+export function createImport(specifier: string, kind: ParsedImport['kind'], typeOnly: boolean, symbols: string[]): ParsedImport {
+    return { specifier, kind, typeOnly, symbols, usedIn: {} };
+}
+
+export function addSymbol(entry: ParsedImport, symbol: string): void {
+    if (!entry.symbols.includes(symbol)) {
+        entry.symbols.push(symbol);
+    }
+}
+
+export function addUsage(entry: ParsedImport, symbol: string, scope: string): void {
+    const scopes = entry.usedIn[symbol] || (entry.usedIn[symbol] = []);
+    if (!scopes.includes(scope)) {
+        scopes.push(scope);
+    }
+}
+
+/**
+ * Контекст разрешения по списку исходных файлов проекта
+ * Конфигурационные файлы (go.mod, composer.json) читаются с диска
+ */
+export function createResolveContext(workspacePath: string, files: Iterable<string>): ResolveContext {
+    const fileSet = new Set(files);
+    const byDirectory = new Map<string, string[]>();
+    const byName = new Map<string, string[]>();
+
+    for (const file of fileSet) {
+        const dir = path.posix.dirname(file);
+        const name = path.posix.basename(file);
+        (byDirectory.get(dir) || byDirectory.set(dir, []).get(dir)!).push(file);
+        (byName.get(name) || byName.set(name, []).get(name)!).push(file);
+    }
+
+    return {
+        workspacePath,
+        fileExists: (relativePath) => fileSet.has(relativePath),
+        listFiles: (relativeDir) => byDirectory.get(relativeDir === '' ? '.' : relativeDir) || [],
+        findFilesBySuffix: (suffix) => (byName.get(path.posix.basename(suffix)) || [])
+            .filter(file => file === suffix || file.endsWith(`/${suffix}`)),
+        readFile: (relativePath) => {
+            try {
+                return fs.readFileSync(path.join(workspacePath, relativePath), 'utf-8');
+            } catch {
+                return null;
+            }
+        }
+    };
+}
+
+/**
+ * Директории от файла до корня workspace: 'a/b/c.py' -> ['a/b', 'a', '']
+ */
+export function getAncestorDirectories(filePath: string): string[] {
+    const result: string[] = [];
+    let dir = path.posix.dirname(filePath);
+
+    while (dir !== '.' && dir !== '/' && dir !== '') {
+        result.push(dir);
+        dir = path.posix.dirname(dir);
+    }
+    result.push('');
+
+    return result;
+}
+
+/**
+ * Склейка относительных путей без ведущего './'
+ */
+export function joinPath(...parts: string[]): string {
+    const joined = path.posix.join(...parts);
+    return joined === '.' ? '' : joined.replace(/^\.\//, '');
+}
@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { LanguageParser } from './language-parser';
+import { TypeScriptLanguageParser } from './typescript-parser';
+import { PythonLanguageParser } from './python-parser';
+import { GoLanguageParser } from './go-parser';
+import { PhpLanguageParser } from './php-parser';
+import { JavaLanguageParser } from './java-parser';
+
+/**
+ * Реестр парсеров зависимостей по расширению файла
+ * Новые языки подключаются через register(); парсер, зарегистрированный позже,
+ * перекрывает расширения предыдущих.
+ */
+export class LanguageParserRegistry {
+    private static instance: LanguageParserRegistry;
+    private parsers: LanguageParser[] = [];
+    private byExtension: Map<string, LanguageParser> = new Map();
+
+    private constructor() {
+        this.register(new TypeScriptLanguageParser());
+        this.register(new PythonLanguageParser());
+        this.register(new GoLanguageParser());
+        this.register(new PhpLanguageParser());
+        this.register(new JavaLanguageParser());
+    }
+
+    /**
+     * Получить экземпляр реестра (Singleton)
+     */
+    static getInstance(): LanguageParserRegistry {
+        if (!LanguageParserRegistry.instance) {
+            LanguageParserRegistry.instance = new LanguageParserRegistry();
+        }
+        return LanguageParserRegistry.instance;
+    }
+
+    /**
+     * Регистрация парсера
+     */
+    register(parser: LanguageParser): void {
+        this.parsers = this.parsers.filter(existing => existing.language !== parser.language);
+        this.parsers.push(parser);
+        parser.extensions.forEach(ext => this.byExtension.set(ext.toLowerCase(), parser));
+    }
+
+    /**
+     * Парсер для файла (undefined, если язык не поддерживается)
+     */
+    getParserForFile(filePath: string): LanguageParser | undefined {
+        return this.byExtension.get(path.extname(filePath).toLowerCase());
+    }
+
+    getParsers(): LanguageParser[] {
+        return [...this.parsers];
+    }
+
+    getSupportedExtensions(): string[] {
+        return Array.from(this.byExtension.keys());
+    }
+}
@@ -0,0 +1,206 @@
+import * as path from 'path';
+import {
+    LanguageParser,
+    ParsedSourceFile,
+    ResolveContext,
+    createEmptyParsedFile,
+    createImport,
+    getAncestorDirectories,
+    joinPath
+} from './language-parser';
+import { ImportBindings, ScopeDeclaration, SourceScope, collectUsages, findBraceScopes, maskSource } from './source-scanner';
+
+/**
+ * Правила PSR-4 из composer.json: префикс пространства имен -> директории
+ */
+interface Psr4Mapping {
+    prefix: string;
+    dirs: string[];
+}
+
+/**
+ * Парсер PHP
+ * use App\Models\User разрешается по PSR-4 из ближайшего composer.json (и корневого),
+ * require/include - как путь относительно файла.
+ */
+export class PhpLanguageParser implements LanguageParser {
+    readonly language = 'PHP';
+    readonly extensions = ['.php'];
+    private composerMappings: Map<string, Psr4Mapping[] | null> = new Map();
+
+    parse(filePath: string, content: string): ParsedSourceFile {
+        const masked = maskSource(content, {
+            lineComments: ['//', '#'],
+            blockComments: [['/*', '*/']],
+            quotes: ['"', "'"]
+        });
+        const result = createEmptyParsedFile();
+        const bindings: ImportBindings = new Map();
+        const excluded: Array<[number, number]> = [];
+
+        // Объявления: классы (class/interface/trait/enum) и функции/методы
+        const declarations: ScopeDeclaration[] = [];
+        const typeKinds = new Map<number, string>();
+        const classPattern = /\b(class|interface|trait|enum)\s+([A-Za-z_]\w*)/g;
+        let match: RegExpExecArray | null;
+        while ((match = classPattern.exec(masked)) !== null) {
+            const before = masked.substring(Math.max(0, match.index - 2), match.index);
+            if (before === '::' || match[2] === 'extends' || match[2] === 'implements') {
+                continue;
+            }
+            declarations.push({ name: match[2], kind: 'class', index: match.index });
+            typeKinds.set(match.index, match[1]);
+        }
+
+        const functionPattern = /\bfunction\s+&?\s*([A-Za-z_]\w*)\s*\(/g;
+        while ((match = functionPattern.exec(masked)) !== null) {
+            declarations.push({ name: match[1], kind: 'function', index: match.index });
+        }
+
+        declarations.sort((a, b) => a.index - b.index);
+        const scopes = findBraceScopes(masked, declarations);
+        const isNested = (index: number) => scopes.some(scope => scope.start < index && index < scope.end);
+
+        for (const declaration of declarations) {
+            if (isNested(declaration.index)) {
+                continue;
+            }
+            if (declaration.kind === 'function') {
+                result.declarations.functions.push(declaration.name);
+            } else if (typeKinds.get(declaration.index) === 'interface') {
+                result.declarations.types.push(declaration.name);
+            } else {
+                result.declarations.classes.push(declaration.name);
+            }
+            result.exports.push(declaration.name);
+        }
+
+        // use A\B\C [as D], A\{B, C as D}; use внутри класса - подключение трейта, а не импорт
+        const usePattern = /^[ \t]*use\s+(function\s+|const\s+)?([^;]+);/gm;
+        while ((match = usePattern.exec(masked)) !== null) {
+            if (this.isInsideClass(scopes, match.index)) {
+                continue;
+            }
+            excluded.push([match.index, match.index + match[0].length]);
+            if (match[1]) {
+                continue; // use function / use const
+            }
+
+            for (const [className, alias] of this.splitUseClause(match[2])) {
+                const shortName = className.split('\\').pop()!;
+                const entry = createImport(className, 'static', false, [shortName]);
+                bindings.set(alias || shortName, { entry, symbol: shortName });
+                result.imports.push(entry);
+            }
+        }
+
+        // require/include 'path.php' и __DIR__ . '/path.php'
+        const requirePattern = /\b(?:require|require_once|include|include_once)\b\s*\(?\s*(__DIR__\s*\.\s*)?(['"])/g;
+        while ((match = requirePattern.exec(masked)) !== null) {
+            const quoteIndex = match.index + match[0].length - 1;
+            const closing = masked.indexOf(match[2], quoteIndex + 1);
+            if (closing === -1) {
+                continue;
+            }
+
+            const target = content.substring(quoteIndex + 1, closing);
+            const specifier = (match[1] || !target.startsWith('.')) ? `./${target.replace(/^\//, '')}` : target;
+            result.imports.push(createImport(specifier, 'require', false, ['*']));
+        }
+
+        collectUsages(masked, result.imports, bindings, scopes, { separator: '\\', excluded });
+
+        result.exports = Array.from(new Set(result.exports));
+        return result;
+    }
+
+    resolveImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+        if (specifier.startsWith('.') || specifier.endsWith('.php')) {
+            const candidate = joinPath(path.posix.dirname(fromFile), specifier);
+            return context.fileExists(candidate) ? [candidate] : [];
+        }
+
+        const className = specifier.replace(/^\\/, '');
+        const composerDirs = getAncestorDirectories(fromFile);
+
+        for (const dir of composerDirs) {
+            const mappings = this.readComposerMappings(dir, context);
+            if (!mappings) {
+                continue;
+            }
+
+            for (const mapping of mappings) {
+                if (!className.startsWith(mapping.prefix)) {
+                    continue;
+                }
+
+                const relative = `${className.substring(mapping.prefix.length).replace(/\\/g, '/')}.php`;
+                for (const mappingDir of mapping.dirs) {
+                    const candidate = joinPath(dir, mappingDir, relative);
+                    if (context.fileExists(candidate)) {
+                        return [candidate];
+                    }
+                }
+            }
+        }
+
+        return [];
+    }
+
+    loadProjectConfig(): void {
+        this.composerMappings.clear();
+    }
+
+    /**
+     * PSR-4 из autoload и autoload-dev composer.json (длинные префиксы первыми)
+     */
+    private readComposerMappings(dir: string, context: ResolveContext): Psr4Mapping[] | null {
+        if (this.composerMappings.has(dir)) {
+            return this.composerMappings.get(dir)!;
+        }
+
+        let mappings: Psr4Mapping[] | null = null;
+        const composerJson = context.readFile(joinPath(dir, 'composer.json'));
+
+        if (composerJson) {
+            try {
+                const composer = JSON.parse(composerJson);
+                const psr4 = { ...composer.autoload?.['psr-4'], ...composer['autoload-dev']?.['psr-4'] };
+                mappings = Object.entries(psr4)
+                    .map(([prefix, dirs]) => ({
+                        prefix: prefix.replace(/^\\/, ''),
+                        dirs: (Array.isArray(dirs) ? dirs : [dirs]).map(String)
+                    }))
+                    .sort((a, b) => b.prefix.length - a.prefix.length);
+            } catch (error) {
+                console.error(`Error parsing ${joinPath(dir, 'composer.json')}:`, error);
+            }
+        }
+
+        this.composerMappings.set(dir, mappings);
+        return mappings;
+    }
+
+    /**
+     * "A\B, C as D" или "A\{B, C as D}" -> [['A\B', undefined], ...]
+     */
+    private splitUseClause(clause: string): Array<[string, string | undefined]> {
+        const result: Array<[string, string | undefined]> = [];
+        const groupMatch = clause.match(/^\s*\\?([\w\\]*)\\\s*\{([^}]*)\}\s*$/);
+        const prefix = groupMatch ? `${groupMatch[1]}\\` : '';
+        const items = groupMatch ? groupMatch[2] : clause;
+
+        for (const item of items.split(',')) {
+            const itemMatch = item.trim().match(/^\\?([\w\\]+)(?:\s+as\s+(\w+))?$/i);
+            if (itemMatch) {
+                result.push([prefix + itemMatch[1], itemMatch[2]]);
+            }
+        }
+
+        return result;
+    }
+
+    private isInsideClass(scopes: SourceScope[], index: number): boolean {
+        return scopes.some(scope => scope.kind === 'class' && scope.start < index && index < scope.end);
+    }
+}
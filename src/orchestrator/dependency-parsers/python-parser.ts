@@ -0,0 +1,187 @@
+import * as path from 'path';
+import {
+    LanguageParser,
+    ParsedSourceFile,
+    ResolveContext,
+    createEmptyParsedFile,
+    createImport,
+    getAncestorDirectories,
+    joinPath
+} from './language-parser';
+import { ImportBindings, ScopeDeclaration, collectUsages, findIndentScopes, maskSource } from './source-scanner';
+
+/**
+ * Парсер Python: import a.b [as c], from .pkg import x [as y], from pkg import *
+ * Импорты в __init__.py считаются реэкспортами пакета (barrel)
+ */
+export class PythonLanguageParser implements LanguageParser {
+    readonly language = 'Python';
+    readonly extensions = ['.py'];
+
+    parse(filePath: string, content: string): ParsedSourceFile {
+        const masked = maskSource(content, {
+            lineComments: ['#'],
+            blockComments: [],
+            quotes: ['"', "'"],
+            tripleQuotes: true
+        });
+        const result = createEmptyParsedFile();
+        const bindings: ImportBindings = new Map();
+        const excluded: Array<[number, number]> = [];
+        const isPackageInit = path.posix.basename(filePath) === '__init__.py';
+
+        // import a.b.c [as d], e
+        const importPattern = /^[ \t]*import[ \t]+([^\n]+)/gm;
+        let match: RegExpExecArray | null;
+        while ((match = importPattern.exec(masked)) !== null) {
+            const statement = this.readStatement(masked, match.index + match[0].length - match[1].length);
+            excluded.push([match.index, statement.end]);
+
+            for (const part of this.splitNames(statement.text)) {
+                const [name, alias] = part;
+                const entry = createImport(name, 'static', false, ['*']);
+                bindings.set(alias || name, { entry, symbol: '*' });
+                result.imports.push(entry);
+            }
+        }
+
+        // from .pkg.module import a as b, c
+        const fromPattern = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+/gm;
+        while ((match = fromPattern.exec(masked)) !== null) {
+            const specifier = match[1];
+            const statement = this.readStatement(masked, match.index + match[0].length);
+            excluded.push([match.index, statement.end]);
+
+            const names = this.splitNames(statement.text);
+            const isStar = names.length === 1 && names[0][0] === '*';
+            const entry = createImport(specifier, 'static', false, isStar ? ['*'] : names.map(([name]) => name));
+
+            if (!isStar) {
+                names.forEach(([name, alias]) => bindings.set(alias || name, { entry, symbol: name }));
+            }
+            result.imports.push(entry);
+
+            if (isPackageInit) {
+                result.reExports.push({
+                    specifier,
+                    all: isStar,
+                    names: isStar ? [] : names.map(([name, alias]) => ({ exported: alias || name, original: name }))
+                });
+                if (!isStar) {
+                    result.exports.push(...names.map(([name, alias]) => alias || name));
+                }
+            }
+        }
+
+        // Объявления: def/class на любом уровне задают области, экспортируются только верхнего уровня
+        const declarations: ScopeDeclaration[] = [];
+        const declarationPattern = /^([ \t]*)(?:async[ \t]+)?(def|class)[ \t]+([A-Za-z_]\w*)/gm;
+        while ((match = declarationPattern.exec(masked)) !== null) {
+            const kind = match[2] === 'class' ? 'class' : 'function';
+            declarations.push({ name: match[3], kind, index: match.index + match[1].length });
+
+            if (match[1].length === 0) {
+                (kind === 'class' ? result.declarations.classes : result.declarations.functions).push(match[3]);
+                if (!match[3].startsWith('_')) {
+                    result.exports.push(match[3]);
+                }
+            }
+        }
+
+        // Переменные модуля: NAME = ..., NAME: type = ...
+        const variablePattern = /^([A-Za-z_]\w*)[ \t]*(?::[^=\n]+)?=(?!=)/gm;
+        while ((match = variablePattern.exec(masked)) !== null) {
+            if (!result.declarations.variables.includes(match[1])) {
+                result.declarations.variables.push(match[1]);
+                if (!match[1].startsWith('_')) {
+                    result.exports.push(match[1]);
+                }
+            }
+        }
+
+        collectUsages(masked, result.imports, bindings, findIndentScopes(masked, declarations), {
+            separator: '.',
+            excluded
+        });
+
+        result.exports = Array.from(new Set(result.exports));
+        return result;
+    }
+
+    /**
+     * Разрешение модуля: относительные импорты от пакета файла,
+     * абсолютные - от директорий-предков (корень проекта, src/ и т.п.)
+     */
+    resolveImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+        const dots = specifier.match(/^\.*/)![0].length;
+        const modulePath = specifier.substring(dots).split('.').filter(Boolean).join('/');
+        const roots: string[] = [];
+
+        if (dots > 0) {
+            let base = path.posix.dirname(fromFile);
+            for (let level = 1; level < dots; level++) {
+                base = path.posix.dirname(base);
+            }
+            roots.push(base === '.' ? '' : base);
+        } else {
+            roots.push(...getAncestorDirectories(fromFile));
+        }
+
+        for (const root of roots) {
+            const base = joinPath(root, modulePath);
+            const candidates = modulePath ? [`${base}.py`, joinPath(base, '__init__.py')] : [joinPath(base, '__init__.py')];
+            const found = candidates.find(candidate => context.fileExists(candidate));
+            if (found) {
+                return [found];
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * from pkg import module: имя из пакета, которое является его модулем
+     */
+    resolveMember(specifier: string, symbol: string, fromFile: string, context: ResolveContext): string[] {
+        const separator = specifier === '' || specifier.endsWith('.') ? '' : '.';
+        return this.resolveImport(`${specifier}${separator}${symbol}`, fromFile, context);
+    }
+
+    /**
+     * Текст оператора импорта с учетом скобок и продолжения строки через '\'
+     */
+    private readStatement(masked: string, start: number): { text: string; end: number } {
+        let depth = 0;
+        let i = start;
+
+        for (; i < masked.length; i++) {
+            const char = masked[i];
+            if (char === '(') {
+                depth++;
+            } else if (char === ')') {
+                depth--;
+            } else if (char === '\n' && depth <= 0 && masked[i - 1] !== '\\') {
+                break;
+            } else if (char === ';' && depth <= 0) {
+                break;
+            }
+        }
+
+        return { text: masked.substring(start, i).replace(/[()\\]/g, ' '), end: i };
+    }
+
+    /**
+     * "a as b, c" -> [['a', 'b'], ['c', undefined]]
+     */
+    private splitNames(text: string): Array<[string, string | undefined]> {
+        return text
+            .split(',')
+            .map(part => part.trim())
+            .filter(Boolean)
+            .map(part => {
+                const aliasMatch = part.match(/^([\w.*]+)(?:\s+as\s+(\w+))?$/);
+                return aliasMatch ? [aliasMatch[1], aliasMatch[2]] as [string, string | undefined] : null;
+            })
+            .filter((entry): entry is [string, string | undefined] => entry !== null);
+    }
+}
@@ -0,0 +1,306 @@
+import { ParsedImport, MODULE_SCOPE, addSymbol, addUsage } from './language-parser';
+
+/**
+ * Лексические помощники для парсеров без собственного AST (Python, Go, PHP, Java)
+ * Комментарии и содержимое строк заменяются пробелами с сохранением позиций,
+ * поэтому ключевые слова внутри них не принимаются за импорты и объявления.
+ */
+
+export interface MaskOptions {
+    lineComments: string[];
+    blockComments: Array<[string, string]>;
+    quotes: string[];
+    tripleQuotes?: boolean; // Python """...""", Java text blocks
+    rawQuotes?: string[]; // Go `...` (без экранирования, многострочные)
+}
+
+/**
+ * Область видимости: класс или функция с диапазоном в исходнике
+ */
+export interface SourceScope {
+    name: string;
+    kind: 'class' | 'function';
+    start: number;
+    end: number;
+}
+
+/**
+ * Объявление, найденное в маскированном исходнике (index - позиция начала объявления)
+ */
+export interface ScopeDeclaration {
+    name: string;
+    kind: 'class' | 'function';
+    index: number;
+}
+
+/**
+ * Привязка локального имени к импорту ('*' - модуль/пакет целиком)
+ */
+export type ImportBindings = Map<string, { entry: ParsedImport; symbol: string }>;
+
+/**
+ * Замена комментариев и содержимого строк пробелами (кавычки и переводы строк сохраняются)
+ */
+export function maskSource(content: string, options: MaskOptions): string {
+    const result = content.split('');
+    const blank = (from: number, to: number) => {
+        for (let k = from; k < to && k < result.length; k++) {
+            if (result[k] !== '\n') {
+                result[k] = ' ';
+            }
+        }
+    };
+
+    let i = 0;
+    while (i < content.length) {
+        const block = options.blockComments.find(([open]) => content.startsWith(open, i));
+        if (block) {
+            const end = content.indexOf(block[1], i + block[0].length);
+            const stop = end === -1 ? content.length : end + block[1].length;
+            blank(i, stop);
+            i = stop;
+            continue;
+        }
+
+        if (options.lineComments.some(marker => content.startsWith(marker, i))) {
+            const end = content.indexOf('\n', i);
+            const stop = end === -1 ? content.length : end;
+            blank(i, stop);
+            i = stop;
+            continue;
+        }
+
+        const char = content[i];
+
+        if (options.tripleQuotes && (content.startsWith('"""', i) || content.startsWith("'''", i))) {
+            const delimiter = content.substr(i, 3);
+            const end = findClosing(content, delimiter, i + 3, true);
+            blank(i + 3, end);
+            i = Math.min(content.length, end + 3);
+            continue;
+        }
+
+        if (options.rawQuotes?.includes(char)) {
+            const end = content.indexOf(char, i + 1);
+            const stop = end === -1 ? content.length : end;
+            blank(i + 1, stop);
+            i = stop + 1;
+            continue;
+        }
+
+        if (options.quotes.includes(char)) {
+            const end = findClosing(content, char, i + 1, false);
+            blank(i + 1, end);
+            i = end + 1;
+            continue;
+        }
+
+        i++;
+    }
+
+    return result.join('');
+}
+
+/**
+ * Поиск закрывающей кавычки с учетом экранирования
+ * Однострочные строки обрываются на переводе строки (незакрытая строка не съедает весь файл)
+ */
+function findClosing(content: string, delimiter: string, from: number, multiline: boolean): number {
+    let i = from;
+    while (i < content.length) {
+        if (content[i] === '\\') {
+            i += 2;
+            continue;
+        }
+        if (!multiline && content[i] === '\n') {
+            return i;
+        }
+        if (content.startsWith(delimiter, i)) {
+            return i;
+        }
+        i++;
+    }
+    return content.length;
+}
+
+/**
+ * Области видимости для языков с фигурными скобками (Go, PHP, Java)
+ * Тело начинается с первой '{' после объявления; ';' до нее означает объявление без тела
+ */
+export function findBraceScopes(masked: string, declarations: ScopeDeclaration[]): SourceScope[] {
+    const scopes: SourceScope[] = [];
+
+    for (const declaration of declarations) {
+        let open = -1;
+        let parens = 0;
+        for (let i = declaration.index; i < masked.length; i++) {
+            const char = masked[i];
+            if (char === '(') {
+                parens++;
+            } else if (char === ')') {
+                parens--;
+            } else if (char === ';' && parens <= 0) {
+                break;
+            } else if (char === '{' && parens <= 0) {
+                open = i;
+                break;
+            }
+        }
+
+        if (open === -1) {
+            continue;
+        }
+
+        let depth = 0;
+        let end = masked.length;
+        for (let i = open; i < masked.length; i++) {
+            if (masked[i] === '{') {
+                depth++;
+            } else if (masked[i] === '}') {
+                depth--;
+                if (depth === 0) {
+                    end = i + 1;
+                    break;
+                }
+            }
+        }
+
+        scopes.push({ name: declaration.name, kind: declaration.kind, start: declaration.index, end });
+    }
+
+    return scopes;
+}
+
+/**
+ * Области видимости по отступам (Python)
+ * Блок заканчивается на первой непустой строке с отступом не больше, чем у объявления
+ */
+export function findIndentScopes(masked: string, declarations: ScopeDeclaration[]): SourceScope[] {
+    const scopes: SourceScope[] = [];
+
+    for (const declaration of declarations) {
+        const lineStart = masked.lastIndexOf('\n', declaration.index - 1) + 1;
+        const indent = getIndent(masked, lineStart);
+        let end = masked.length;
+        let parens = 0;
+        let position = lineStart;
+
+        while (position < masked.length) {
+            const lineEnd = masked.indexOf('\n', position);
+            const line = masked.substring(position, lineEnd === -1 ? masked.length : lineEnd);
+
+            if (position > lineStart && parens <= 0 && line.trim() && getIndent(masked, position) <= indent) {
+                end = position;
+                break;
+            }
+
+            for (const char of line) {
+                if (char === '(' || char === '[' || char === '{') {
+                    parens++;
+                } else if (char === ')' || char === ']' || char === '}') {
+                    parens--;
+                }
+            }
+
+            if (lineEnd === -1) {
+                break;
+            }
+            position = lineEnd + 1;
+        }
+
+        scopes.push({ name: declaration.name, kind: declaration.kind, start: declaration.index, end });
+    }
+
+    return scopes;
+}
+
+function getIndent(text: string, lineStart: number): number {
+    let indent = 0;
+    while (lineStart + indent < text.length && (text[lineStart + indent] === ' ' || text[lineStart + indent] === '\t')) {
+        indent++;
+    }
+    return indent;
+}
+
+/**
+ * Имя области в позиции: вложенные классы и первая функция (Class.method)
+ */
+export function getScopeNameAt(scopes: SourceScope[], offset: number): string {
+    const containing = scopes
+        .filter(scope => scope.start <= offset && offset < scope.end)
+        .sort((a, b) => a.start - b.start);
+
+    const names: string[] = [];
+    for (const scope of containing) {
+        names.push(scope.name);
+        if (scope.kind === 'function') {
+            break;
+        }
+    }
+
+    return names.length > 0 ? names.join('.') : MODULE_SCOPE;
+}
+
+/**
+ * Сбор использований импортированных имен
+ * Для привязок модуля целиком ('*') обращение ns<separator>member записывается как использование member.
+ * Диапазоны excluded (сами операторы импорта) пропускаются.
+ */
+export function collectUsages(
+    masked: string,
+    imports: ParsedImport[],
+    bindings: ImportBindings,
+    scopes: SourceScope[],
+    options: { separator: string; excluded: Array<[number, number]> }
+): void {
+    const separator = options.separator.replace(/[\\.]/g, '\\$&');
+    const pattern = new RegExp(`[A-Za-z_][A-Za-z0-9_]*(?:${separator}[A-Za-z_][A-Za-z0-9_]*)*`, 'g');
+    const usedWhole = new Set<ParsedImport>();
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(masked)) !== null) {
+        const index = match.index;
+        if (options.excluded.some(([from, to]) => index >= from && index < to)) {
+            continue;
+        }
+
+        // Член другого объекта: obj.name, $name, obj->name, Class::name
+        const before = masked.substring(Math.max(0, index - 2), index);
+        if (before.endsWith('.') || before.endsWith('$') || before.endsWith('\\') || before === '->' || before === '::') {
+            continue;
+        }
+
+        const parts = match[0].split(options.separator);
+        for (let length = parts.length; length > 0; length--) {
+            const binding = bindings.get(parts.slice(0, length).join(options.separator));
+            if (!binding) {
+                continue;
+            }
+
+            const scope = getScopeNameAt(scopes, index);
+            if (binding.symbol !== '*') {
+                addUsage(binding.entry, binding.symbol, scope);
+            } else if (length < parts.length) {
+                addSymbol(binding.entry, parts[length]);
+                addUsage(binding.entry, parts[length], scope);
+            } else {
+                usedWhole.add(binding.entry);
+                addUsage(binding.entry, '*', scope);
+            }
+            break;
+        }
+    }
+
+    finalizeNamespaceSymbols(imports, usedWhole);
+}
+
+/**
+ * Namespace импорт, у которого известны используемые члены, не зависит от модуля целиком
+ */
+export function finalizeNamespaceSymbols(imports: ParsedImport[], usedWhole: Set<ParsedImport>): void {
+    for (const entry of imports) {
+        if (entry.symbols.length > 1 && entry.symbols.includes('*') && !usedWhole.has(entry)) {
+            entry.symbols = entry.symbols.filter(symbol => symbol !== '*');
+        }
+    }
+}
@@ -0,0 +1,438 @@
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    LanguageParser,
+    ParsedImport,
+    ParsedReExport,
+    ParsedSourceFile,
+    ResolveContext,
+    MODULE_SCOPE,
+    createEmptyParsedFile,
+    createImport,
+    addSymbol,
+    addUsage,
+    joinPath
+} from './language-parser';
+import { ImportBindings, finalizeNamespaceSymbols } from './source-scanner';
+
+/**
+ * Алиасы путей из tsconfig.json/jsconfig.json (пути относительно workspace)
+ */
+interface PathAliases {
+    baseUrl?: string;
+    pathsBase: string;
+    paths: { [pattern: string]: string[] };
+}
+
+const MODULE_EXTENSIONS = ['', '.ts', '.tsx', '.d.ts', '.js', '.jsx'];
+const INDEX_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+/**
+ * Парсер TypeScript/JavaScript
+ * Разрешает относительные пути, алиасы paths и baseUrl из tsconfig, barrel файлы (index.*)
+ */
+export class TypeScriptLanguageParser implements LanguageParser {
+    readonly language = 'TypeScript';
+    readonly extensions = ['.ts', '.tsx', '.js', '.jsx'];
+    private pathAliases: PathAliases | null = null;
+
+    parse(filePath: string, content: string): ParsedSourceFile {
+        return parseTypeScriptSource(filePath, content);
+    }
+
+    resolveImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+        const bases: string[] = [];
+
+        if (specifier.startsWith('.')) {
+            bases.push(joinPath(path.posix.dirname(fromFile), specifier));
+        } else if (!specifier.startsWith('/') && this.pathAliases) {
+            bases.push(...this.matchPathAliases(specifier));
+            if (this.pathAliases.baseUrl !== undefined) {
+                bases.push(joinPath(this.pathAliases.baseUrl, specifier));
+            }
+        }
+
+        for (const base of bases) {
+            const candidates = MODULE_EXTENSIONS.map(ext => base + ext);
+
+            // ESM импорты в TS указывают на .js, а файл в проекте - .ts
+            const jsExtension = base.match(/\.[mc]?jsx?$/);
+            if (jsExtension) {
+                const stem = base.substring(0, base.length - jsExtension[0].length);
+                candidates.push(`${stem}.ts`, `${stem}.tsx`);
+            }
+
+            // Barrel файлы: импорт директории разрешается в index.*
+            candidates.push(...INDEX_EXTENSIONS.map(ext => `${base}/index${ext}`));
+
+            const found = candidates.find(candidate => context.fileExists(candidate));
+            if (found) {
+                return [found];
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * Загрузка baseUrl и paths из tsconfig.json/jsconfig.json (с учетом extends)
+     */
+    loadProjectConfig(workspacePath: string): void {
+        this.pathAliases = null;
+
+        for (const configName of ['tsconfig.json', 'jsconfig.json']) {
+            const configPath = path.join(workspacePath, configName);
+            if (!fs.existsSync(configPath)) {
+                continue;
+            }
+
+            try {
+                const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+                if (error || !config) {
+                    continue;
+                }
+
+                // Список файлов проекта не нужен - не обходим директории
+                const host: ts.ParseConfigHost = {
+                    useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+                    readDirectory: () => [],
+                    fileExists: ts.sys.fileExists,
+                    readFile: ts.sys.readFile
+                };
+                const { options } = ts.parseJsonConfigFileContent(config, host, path.dirname(configPath), undefined, configPath);
+                if (!options.baseUrl && !options.paths) {
+                    return;
+                }
+
+                const toRelative = (absolutePath: string) => path.relative(workspacePath, absolutePath).replace(/\\/g, '/');
+                const pathsBase = typeof options.pathsBasePath === 'string'
+                    ? options.pathsBasePath
+                    : options.baseUrl || path.dirname(configPath);
+
+                this.pathAliases = {
+                    baseUrl: options.baseUrl ? toRelative(options.baseUrl) : undefined,
+                    pathsBase: toRelative(pathsBase),
+                    paths: options.paths || {}
+                };
+                return;
+            } catch (error) {
+                console.error(`Error loading path aliases from ${configName}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Подстановка спецификатора в шаблоны paths из tsconfig ("@app/*" -> ["src/*"])
+     */
+    private matchPathAliases(specifier: string): string[] {
+        if (!this.pathAliases) {
+            return [];
+        }
+
+        const results: string[] = [];
+        for (const [pattern, targets] of Object.entries(this.pathAliases.paths)) {
+            const starIndex = pattern.indexOf('*');
+            let captured: string | undefined;
+
+            if (starIndex === -1) {
+                captured = pattern === specifier ? '' : undefined;
+            } else {
+                const prefix = pattern.substring(0, starIndex);
+                const suffix = pattern.substring(starIndex + 1);
+                if (specifier.length >= prefix.length + suffix.length &&
+                    specifier.startsWith(prefix) && specifier.endsWith(suffix)) {
+                    captured = specifier.substring(prefix.length, specifier.length - suffix.length);
+                }
+            }
+
+            if (captured !== undefined) {
+                const value = captured;
+                targets.forEach(target => results.push(joinPath(this.pathAliases!.pathsBase, target.replace('*', value))));
+            }
+        }
+
+        return results;
+    }
+}
+
+/**
+ * Разбор TS/JS файла через TypeScript compiler API
+ * В отличие от регулярных выражений не реагирует на ключевые слова в строках и комментариях,
+ * находит import(), type-only импорты и цепочки реэкспортов
+ */
+export function parseTypeScriptSource(fileName: string, content: string): ParsedSourceFile {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+
+    const result = createEmptyParsedFile();
+
+    // Локальное имя -> импорт и импортированный символ ('*' для namespace)
+    const bindings: ImportBindings = new Map();
+    const namespaceUsedWhole = new Set<ParsedImport>();
+
+    for (const statement of sourceFile.statements) {
+        collectTopLevel(statement, result, bindings);
+    }
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)) {
+            return;
+        }
+
+        if (ts.isCallExpression(node)) {
+            const specifier = getStringArgument(node);
+            if (specifier !== undefined) {
+                if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+                    result.imports.push(createImport(specifier, 'dynamic', false, ['*']));
+                } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+                    result.imports.push(createImport(specifier, 'require', false, ['*']));
+                }
+            }
+        } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument) && ts.isStringLiteral(node.argument.literal)) {
+            result.imports.push(createImport(node.argument.literal.text, 'type', true, ['*']));
+        } else if (ts.isIdentifier(node) && bindings.has(node.text) && !isDeclarationName(node)) {
+            const binding = bindings.get(node.text)!;
+            const scope = getEnclosingScopeName(node);
+
+            if (binding.symbol === '*') {
+                const member = getNamespaceMember(node);
+                if (member) {
+                    addSymbol(binding.entry, member);
+                    addUsage(binding.entry, member, scope);
+                } else {
+                    namespaceUsedWhole.add(binding.entry);
+                    addUsage(binding.entry, '*', scope);
+                }
+            } else {
+                addUsage(binding.entry, binding.symbol, scope);
+            }
+        }
+
+        ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(sourceFile, visit);
+
+    finalizeNamespaceSymbols(result.imports, namespaceUsedWhole);
+
+    result.exports = Array.from(new Set(result.exports));
+    return result;
+}
+
+/**
+ * Разбор оператора верхнего уровня: импорты, экспорты, объявления
+ */
+function collectTopLevel(
+    statement: ts.Statement,
+    result: ParsedSourceFile,
+    bindings: ImportBindings
+): void {
+    if (ts.isImportDeclaration(statement)) {
+        if (!ts.isStringLiteral(statement.moduleSpecifier)) {
+            return;
+        }
+
+        const clause = statement.importClause;
+        const entry = createImport(statement.moduleSpecifier.text, 'static', !!clause?.isTypeOnly, []);
+
+        if (clause?.name) {
+            entry.symbols.push('default');
+            bindings.set(clause.name.text, { entry, symbol: 'default' });
+        }
+
+        if (clause?.namedBindings) {
+            if (ts.isNamespaceImport(clause.namedBindings)) {
+                entry.symbols.push('*');
+                bindings.set(clause.namedBindings.name.text, { entry, symbol: '*' });
+            } else {
+                for (const element of clause.namedBindings.elements) {
+                    const imported = (element.propertyName || element.name).text;
+                    entry.symbols.push(imported);
+                    bindings.set(element.name.text, { entry, symbol: imported });
+                }
+                if (clause.namedBindings.elements.length > 0 && clause.namedBindings.elements.every(e => e.isTypeOnly)) {
+                    entry.typeOnly = true;
+                }
+            }
+        }
+
+        result.imports.push(entry);
+        return;
+    }
+
+    if (ts.isImportEqualsDeclaration(statement)) {
+        const reference = statement.moduleReference;
+        if (ts.isExternalModuleReference(reference) && ts.isStringLiteral(reference.expression)) {
+            const entry = createImport(reference.expression.text, 'require', statement.isTypeOnly, ['*']);
+            bindings.set(statement.name.text, { entry, symbol: '*' });
+            result.imports.push(entry);
+        }
+        return;
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+        const clause = statement.exportClause;
+
+        if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+            const reExport: ParsedReExport = { specifier: statement.moduleSpecifier.text, all: !clause, names: [] };
+
+            if (clause && ts.isNamespaceExport(clause)) {
+                reExport.names.push({ exported: clause.name.text, original: '*' });
+            } else if (clause && ts.isNamedExports(clause)) {
+                for (const element of clause.elements) {
+                    reExport.names.push({ exported: element.name.text, original: (element.propertyName || element.name).text });
+                }
+            }
+
+            result.exports.push(...reExport.names.map(name => name.exported));
+            result.reExports.push(reExport);
+        } else if (clause && ts.isNamedExports(clause)) {
+            result.exports.push(...clause.elements.map(element => element.name.text));
+        }
+        return;
+    }
+
+    if (ts.isExportAssignment(statement)) {
+        result.exports.push('default');
+        return;
+    }
+
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+    const names: string[] = [];
+
+    if (ts.isClassDeclaration(statement) && statement.name) {
+        result.declarations.classes.push(statement.name.text);
+        names.push(statement.name.text);
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+        result.declarations.functions.push(statement.name.text);
+        names.push(statement.name.text);
+    } else if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+        result.declarations.types.push(statement.name.text);
+        names.push(statement.name.text);
+    } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+            if (!ts.isIdentifier(declaration.name)) {
+                continue;
+            }
+            const initializer = declaration.initializer;
+            if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+                result.declarations.functions.push(declaration.name.text);
+            } else {
+                result.declarations.variables.push(declaration.name.text);
+            }
+            names.push(declaration.name.text);
+        }
+    }
+
+    if (exported) {
+        result.exports.push(...names);
+        if (isDefault) {
+            result.exports.push('default');
+        }
+    }
+}
+
+function getStringArgument(node: ts.CallExpression): string | undefined {
+    const argument = node.arguments[0];
+    if (node.arguments.length === 1 && argument && (ts.isStringLiteral(argument) || ts.isNoSubstitutionTemplateLiteral(argument))) {
+        return argument.text;
+    }
+    return undefined;
+}
+
+/**
+ * Член namespace импорта: ns.member в выражениях и ns.Type в типах
+ */
+function getNamespaceMember(node: ts.Identifier): string | undefined {
+    const parent = node.parent;
+    if (ts.isPropertyAccessExpression(parent) && parent.expression === node) {
+        return parent.name.text;
+    }
+    if (ts.isQualifiedName(parent) && parent.left === node) {
+        return parent.right.text;
+    }
+    return undefined;
+}
+
+/**
+ * Идентификатор в позиции объявления или имени свойства (не является использованием импорта)
+ */
+function isDeclarationName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    if (ts.isPropertyAccessExpression(parent) && parent.name === node) {
+        return true;
+    }
+    if (ts.isQualifiedName(parent) && parent.right === node) {
+        return true;
+    }
+    if ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) || ts.isMethodDeclaration(parent) ||
+        ts.isPropertySignature(parent) || ts.isMethodSignature(parent)) && parent.name === node) {
+        return true;
+    }
+    if ((ts.isExportSpecifier(parent) || ts.isImportSpecifier(parent)) && parent.propertyName === node) {
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Имя функции/метода верхнего уровня, внутри которого находится узел (Class.method для методов)
+ */
+function getEnclosingScopeName(node: ts.Node): string {
+    let member: ts.Node | undefined;
+    let current: ts.Node = node;
+
+    while (current.parent && !ts.isSourceFile(current.parent)) {
+        if (ts.isClassLike(current.parent)) {
+            member = current;
+        }
+        current = current.parent;
+    }
+
+    const statement = current;
+    let name = MODULE_SCOPE;
+
+    if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) && statement.name) {
+        name = statement.name.text;
+    } else if (ts.isVariableStatement(statement)) {
+        const declaration = statement.declarationList.declarations.find(d => d.pos <= node.pos && node.end <= d.end);
+        if (declaration && ts.isIdentifier(declaration.name)) {
+            name = declaration.name.text;
+        }
+    } else if (ts.isExportAssignment(statement)) {
+        name = 'default';
+    }
+
+    if (member && ts.isClassDeclaration(statement)) {
+        if (ts.isConstructorDeclaration(member)) {
+            return `${name}.constructor`;
+        }
+        const memberName = (member as ts.ClassElement).name;
+        if (memberName && (ts.isIdentifier(memberName) || ts.isPrivateIdentifier(memberName))) {
+            return `${name}.${memberName.text}`;
+        }
+    }
+
+    return name;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+    return !!modifiers && modifiers.some(modifier => modifier.kind === kind);
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+    switch (path.extname(fileName).toLowerCase()) {
+        case '.tsx':
+            return ts.ScriptKind.TSX;
+        case '.jsx':
+            return ts.ScriptKind.JSX;
+        case '.js':
+        case '.mjs':
+        case '.cjs':
+            return ts.ScriptKind.JS;
+        default:
+            return ts.ScriptKind.TS;
+    }
+}
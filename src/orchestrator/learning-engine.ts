@@ -31,6 +31,8 @@ export interface EvaluationWeights {
 export class LearningEngine {
     private knowledgeBase: ProjectKnowledgeBase;
     private strategies: Map<Task['type'], AgentSelectionStrategy> = new Map();
+    // Успешность агентов, вычисленная по истории решений (в отличие от весов по умолчанию)
+    private learnedSuccessRates: Map<Task['type'], Map<string, number>> = new Map();
     private evaluationWeights: EvaluationWeights = {
         quality: 0.15,
         performance: 0.15,
@@ -98,6 +100,13 @@ export class LearningEngine {
         };
     }
 
+    /**
+     * Успешность агента по типу задач из истории решений; undefined - истории по агенту нет
+     */
+    getAgentSuccessRate(taskType: Task['type'], agentId: string): number | undefined {
+        return this.learnedSuccessRates.get(taskType)?.get(agentId);
+    }
+
     /**
      * Получение весов критериев оценки
      */
@@ -142,6 +151,7 @@ export class LearningEngine {
         // Обновляем стратегии для каждого типа задачи
         byTaskType.forEach((decisionsForType, taskType) => {
             const agentSuccessRates = this.calculateAgentSuccessRates(decisionsForType);
+            this.learnedSuccessRates.set(taskType, agentSuccessRates);
             const strategy = this.strategies.get(taskType);
             
             if (strategy) {
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
 import { SettingsManager } from '../integration/settings-manager';
 import { AgentManager } from './agent-manager';
 import { TaskPlanner } from './task-planner';
@@ -11,6 +12,10 @@ import { AgentSolution } from '../agents/local-agent';
 import { ModelProviderManager } from '../integration/model-providers/provider-manager';
 import { QualityController, QualityReport } from '../quality/quality-controller';
 import { OrchestratorLogger } from './orchestrator-logger';
+import { RollbackResult, TaskTransactionManager } from './task-transaction';
+import { TaskDeviationController } from './task-deviation-controller';
+import { AcceptanceCriterion, AcceptanceReport } from './acceptance-criteria';
+import { TaskTracer } from './task-trace';
 
 export interface Task {
     id: string;
@@ -30,9 +35,15 @@ export interface Task {
     executionResult?: TaskExecutionResult;
     // Для задач проверки качества
     parentTaskId?: string; // ID родительской задачи проверки качества
+    // ID задач, которые должны успешно завершиться до начала этой (DAG подзадач)
+    dependsOn?: string[];
     qualityCheckResults?: QualityCheckResult[];
     // Результаты проверки качества от QualityController
     qualityReport?: QualityReport;
+    // Критерии приемки (заданные пользователем или сгенерированные и подтвержденные)
+    acceptanceCriteria?: AcceptanceCriterion[];
+    // Проверка критериев приемки после выполнения
+    acceptanceReport?: AcceptanceReport;
 }
 
 export interface AgentConsultation {
@@ -41,6 +52,15 @@ export interface AgentConsultation {
     context: string;
 }
 
+const TASK_FINISHED_EVENTS = ['task:completed', 'task:blocked', 'task:cancelled'];
+
+/**
+ * Задача больше не выполняется (выполнена, заблокирована или отменена)
+ */
+export function isTaskFinished(task: Task): boolean {
+    return task.status === 'completed' || task.status === 'blocked' || task.status === 'cancelled';
+}
+
 export class Orchestrator {
     private context: vscode.ExtensionContext;
     protected settingsManager: SettingsManager;
@@ -50,10 +70,13 @@ export class Orchestrator {
     private ruleGenerator: RuleGenerator;
     private taskAnalytics: TaskAnalytics;
     private taskExecutor: TaskExecutor;
-    private qualityController: QualityController;
+    protected qualityController: QualityController;
+    private deviationController: TaskDeviationController;
     protected logger: OrchestratorLogger;
     private isRunning: boolean = false;
     private tasks: Task[] = [];
+    // События завершения задач: task:completed, task:blocked, task:cancelled
+    private taskEvents: EventEmitter = new EventEmitter();
     private virtualUser?: any; // VirtualUser instance (избегаем циклической зависимости)
 
     constructor(
@@ -69,6 +92,7 @@ export class Orchestrator {
         this.taskAnalytics = new TaskAnalytics(context, settingsManager);
         this.taskExecutor = new TaskExecutor(context, this.taskAnalytics);
         this.qualityController = new QualityController();
+        this.deviationController = new TaskDeviationController();
         this.logger = OrchestratorLogger.getInstance();
     }
 
@@ -151,9 +175,15 @@ export class Orchestrator {
         this.logger.info(`Приоритет: ${newTask.priority.toUpperCase()}`);
         this.logger.info(`Тип: ${newTask.type}`);
         
+        // Трасса задачи открывается до планирования, выполнение пишет в нее свои фазы
+        this.startTaskTrace(newTask);
+        
         // Планирование выполнения задачи
         this.logger.taskProgress(newTask.id, 'Планирование задачи...');
-        await this.taskPlanner.planTask(newTask, this.agentManager);
+        await TaskTracer.getInstance().span(newTask.id, 'planning', 'Планирование', async span => {
+            await this.taskPlanner.planTask(newTask, this.agentManager);
+            span.setAttributes({ assignedAgent: newTask.assignedAgent });
+        });
         
         // Обновляем статус назначенного агента
         if (newTask.assignedAgent) {
@@ -207,9 +237,17 @@ export class Orchestrator {
             });
         }
 
-        // Реальное выполнение задачи через TaskExecutor
+        const tracer = TaskTracer.getInstance();
+        this.startTaskTrace(task);
+
+        // Реальное выполнение задачи через TaskExecutor; изменения файлов идут в транзакцию задачи
         try {
-            const result = await this.taskExecutor.executeTask(task);
+            await TaskTransactionManager.getInstance().begin(taskId);
+            const result = await tracer.span(taskId, 'apply', 'Выполнение', async span => {
+                const executionResult = await this.taskExecutor.executeTask(task);
+                span.setAttributes({ success: executionResult.success, error: executionResult.error, filesChanged: executionResult.filesChanged });
+                return executionResult;
+            }, { agentId: task.assignedAgent });
             task.executionResult = result;
 
             if (result.success) {
@@ -218,12 +256,20 @@ export class Orchestrator {
                 
                 // Создаем AgentSolution из результата для проверки качества
                 const solution = this.createSolutionFromResult(task, result);
-                const qualityReport = await this.qualityController.validateSolution(solution);
+                const qualityReport = await tracer.span(taskId, 'quality-check', 'Проверка качества', async span => {
+                    const report = await this.qualityController.validateSolution(solution);
+                    span.setAttributes(this.describeQualityReport(report));
+                    return report;
+                });
                 
                 // Сохраняем результат проверки качества в задачу
                 task.qualityReport = qualityReport;
                 
-                if (qualityReport.passed) {
+                // Критерии приемки проверяются по примененным изменениям; непроверенные не блокируют задачу
+                await this.verifyAcceptanceCriteria(task, solution);
+                const failedCriteria = task.acceptanceReport?.failed || [];
+                
+                if (qualityReport.passed && failedCriteria.length === 0) {
                     // Качество прошло проверку - передать VirtualUser для финального подтверждения
                     if (this.virtualUser) {
                         console.log(`Orchestrator: Sending result to VirtualUser for approval...`);
@@ -231,16 +277,19 @@ export class Orchestrator {
                         const approved = await this.virtualUser.makeDecision(proposal);
                         
                         if (approved) {
+                            this.commitTaskChanges(taskId);
                             task.status = 'completed';
                             this.updateTaskStatus(taskId, 'completed', true);
                             console.log(`✅ Task ${taskId} completed and approved by VirtualUser`);
                         } else {
+                            await this.rollbackTaskChanges(taskId, 'rejected by VirtualUser');
                             task.status = 'blocked';
                             this.updateTaskStatus(taskId, 'blocked', false, 'Отклонено виртуальным пользователем');
                             console.log(`⚠️ Task ${taskId} rejected by VirtualUser`);
                         }
                     } else {
                         // VirtualUser не подключен - автоматически одобряем
+                        this.commitTaskChanges(taskId);
                         task.status = 'completed';
                         this.updateTaskStatus(taskId, 'completed', true);
                         console.log(`✅ Task ${taskId} completed (no VirtualUser, auto-approved)`);
@@ -254,29 +303,42 @@ export class Orchestrator {
                             vscode.commands.executeCommand('workbench.action.showAllEditors');
                         }
                     });
+                } else if (qualityReport.passed) {
+                    // Критерии приемки не выполнены - изменения откатываются
+                    await this.rollbackTaskChanges(taskId, `${failedCriteria.length} acceptance criteria failed`);
+                    task.status = 'blocked';
+                    const failures = failedCriteria.map(result => `- ${result.criterion.description}: ${result.detail}`).join('\n');
+                    this.updateTaskStatus(taskId, 'blocked', false, `Не выполнены критерии приемки:\n${failures}`);
+                    
+                    vscode.window.showWarningMessage(`⚠️ Не выполнены критерии приемки, изменения откатаны\n${failures}`, 'Повторить').then(action => {
+                        if (action === 'Повторить') {
+                            task.description += `\n\nВыполнить критерии приемки:\n${failures}`;
+                            this.executeTask(taskId);
+                        }
+                    });
                 } else {
-                    // Качество не прошло проверку
+                    // Качество не прошло проверку - изменения откатываются
+                    await this.rollbackTaskChanges(taskId, `quality score ${qualityReport.score}`);
                     task.status = 'blocked';
-                    this.updateTaskStatus(taskId, 'blocked', false, `Качество недостаточно: ${qualityReport.score}/100`);
+                    this.updateTaskStatus(taskId, 'blocked', false, `Качество недостаточно: ${qualityReport.score}/100` +
+                        (qualityReport.blockedBy ? ` (не пройдены проверки: ${qualityReport.blockedBy.join(', ')})` : ''));
                     
                     const issuesSummary = qualityReport.issues
                         .slice(0, 3)
                         .map(i => `- ${i.severity}: ${i.message}`)
                         .join('\n');
                     
-                    const message = `⚠️ Задача выполнена, но качество недостаточно\nОценка: ${qualityReport.score}/100\nПроблемы:\n${issuesSummary}`;
-                    vscode.window.showWarningMessage(message, 'Повторить с улучшениями', 'Принять как есть').then(action => {
+                    const message = `⚠️ Качество недостаточно, изменения откатаны\nОценка: ${qualityReport.score}/100\nПроблемы:\n${issuesSummary}`;
+                    vscode.window.showWarningMessage(message, 'Повторить с улучшениями').then(action => {
                         if (action === 'Повторить с улучшениями') {
                             // Добавляем в описание задачи рекомендации по качеству
                             task.description += `\n\nУлучшить качество:\n${qualityReport.recommendations.join('\n')}`;
                             this.executeTask(taskId);
-                        } else if (action === 'Принять как есть') {
-                            task.status = 'completed';
-                            this.updateTaskStatus(taskId, 'completed', true);
                         }
                     });
                 }
             } else {
+                await this.rollbackTaskChanges(taskId, 'execution failed');
                 task.status = 'blocked';
                 this.updateTaskStatus(taskId, 'blocked', false, result.error);
                 
@@ -289,6 +351,7 @@ export class Orchestrator {
             }
         } catch (error: any) {
             console.error(`Error executing task ${taskId}:`, error);
+            await this.rollbackTaskChanges(taskId, 'execution error');
             task.status = 'blocked';
             task.executionResult = {
                 success: false,
@@ -300,6 +363,60 @@ export class Orchestrator {
                 `❌ Ошибка выполнения задачи: ${task.description}\n${error.message}`
             );
         }
+
+        tracer.endTrace(taskId, task.status === 'completed' ? 'ok' : 'error', { status: task.status, error: task.executionResult?.error });
+    }
+
+    /**
+     * Атрибуты спана проверки качества
+     */
+    protected describeQualityReport(report: QualityReport): Record<string, any> {
+        return {
+            score: report.score,
+            passed: report.passed,
+            blockedBy: report.blockedBy,
+            unverified: report.unverified?.map(({ check, reason }) => `${check}: ${reason}`),
+            issues: report.issues.map(issue => `${issue.severity} ${issue.type}: ${issue.message}${issue.file ? ` (${issue.file}${issue.line ? `:${issue.line}` : ''})` : ''}`)
+        };
+    }
+
+    /**
+     * Открыть трассу задачи (повторный запуск задачи добавляет в ее трассу новый корень)
+     */
+    protected startTaskTrace(task: Task): void {
+        TaskTracer.getInstance().startTrace(task.id, task.description, {
+            taskId: task.id,
+            type: task.type,
+            priority: task.priority,
+            description: task.description,
+            acceptanceCriteria: task.acceptanceCriteria?.map(criterion => criterion.description)
+        });
+    }
+
+    /**
+     * Проверить критерии приемки задачи по workspace (результат - task.acceptanceReport)
+     */
+    private async verifyAcceptanceCriteria(task: Task, solution: AgentSolution): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder || !task.acceptanceCriteria || task.acceptanceCriteria.length === 0) {
+            return;
+        }
+        
+        try {
+            const deviation = await TaskTracer.getInstance().span(task.id, 'acceptance', 'Критерии приемки', async span => {
+                const result = await this.deviationController.checkDeviation(task, solution, { workspacePath: workspaceFolder.uri.fsPath });
+                span.setAttributes({
+                    proven: result.acceptance?.proven.length,
+                    failed: result.acceptance?.failed.map(item => `${item.criterion.description}: ${item.detail}`),
+                    unverified: result.acceptance?.unverified.length
+                });
+                return result;
+            });
+            task.acceptanceReport = deviation.acceptance;
+            this.logger.info(`Критерии приемки: ${deviation.feedback}`);
+        } catch (error) {
+            console.error(`Orchestrator: Acceptance criteria check failed for task ${task.id}:`, error);
+        }
     }
 
     /**
@@ -390,6 +507,24 @@ export class Orchestrator {
         } else if (status === 'blocked' || (status === 'in-progress' && !isSuccessful)) {
             this.taskAnalytics.trackTaskError(task, errorMessage || 'Unknown error');
         }
+
+        if (isTaskFinished(task)) {
+            this.taskEvents.emit(`task:${status}`, task);
+        }
+    }
+
+    /**
+     * Подписка на завершение задач (выполнена, заблокирована, отменена); возвращает функцию отписки
+     */
+    onTaskFinished(listener: (task: Task) => void): () => void {
+        for (const event of TASK_FINISHED_EVENTS) {
+            this.taskEvents.on(event, listener);
+        }
+        return () => {
+            for (const event of TASK_FINISHED_EVENTS) {
+                this.taskEvents.off(event, listener);
+            }
+        };
     }
 
     /**
@@ -478,8 +613,9 @@ export class Orchestrator {
         const task = this.tasks.find(t => t.id === taskId);
         if (task && task.status === 'in-progress') {
             this.taskExecutor.cancelTaskExecution(taskId);
-            task.status = 'blocked';
             task.progress = undefined;
+            // Через updateTaskStatus, чтобы ожидающие завершения задачи получили событие
+            this.updateTaskStatus(taskId, 'blocked', false, 'Выполнение остановлено');
             
             if (task.assignedAgent) {
                 this.agentManager.updateAgentStatus(task.assignedAgent, {
@@ -623,6 +759,51 @@ export class Orchestrator {
         }
     }
 
+    /**
+     * Откатить изменения файлов завершенной задачи
+     * Без force файлы, измененные после задачи, не трогаются и возвращаются как конфликты
+     */
+    async rollbackTask(taskId: string, force: boolean = false): Promise<RollbackResult> {
+        const result = await TaskTransactionManager.getInstance().rollback(taskId, force);
+
+        const task = this.tasks.find(t => t.id === taskId);
+        if (task && task.status === 'completed' && result.restored.length > 0) {
+            this.updateTaskStatus(taskId, 'cancelled', false, 'Изменения откатаны');
+        }
+
+        return result;
+    }
+
+    /**
+     * Зафиксировать транзакцию задачи после проверки качества и одобрения
+     */
+    protected commitTaskChanges(taskId: string): void {
+        TaskTransactionManager.getInstance().commit(taskId);
+    }
+
+    /**
+     * Автоматический откат изменений задачи (качество не прошло, решение отклонено, ошибка выполнения)
+     */
+    protected async rollbackTaskChanges(taskId: string, reason: string): Promise<void> {
+        const transaction = TaskTransactionManager.getInstance().get(taskId);
+        if (!transaction || transaction.record.status !== 'active') {
+            return;
+        }
+
+        try {
+            const result = await TaskTransactionManager.getInstance().rollback(taskId, true);
+            console.log(`Orchestrator: Rolled back ${result.restored.length} files of task ${taskId} (${reason})`);
+            if (result.conflicts.length > 0) {
+                // Файлы, измененные вне задачи во время ее выполнения, не перезаписываются
+                vscode.window.showWarningMessage(
+                    `⚠️ Изменения задачи откатаны не полностью: файлы изменены вне задачи\n${result.conflicts.join('\n')}`
+                );
+            }
+        } catch (error) {
+            console.error(`Orchestrator: Rollback of task ${taskId} failed:`, error);
+        }
+    }
+
     /**
      * Установить VirtualUser для передачи результатов
      */
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { loadCoverageReport, summarizeCoverage } from '../quality/coverage';
+import { ADVISORY_DATABASE_PATH, DependencyAuditor, JournalAdvisoryStore, formatVulnerability } from '../quality/dependency-audit';
 
 export interface ProjectProfile {
     type: 'web-application' | 'mobile-application' | 'desktop-application' | 'library' | 'unknown';
@@ -580,11 +582,15 @@ export class ProjectAnalyzer {
             complexity = 'medium';
         }
 
+        // Покрытие строк по последнему отчету инструмента покрытия
+        const coverageReport = loadCoverageReport(workspacePath);
+
         return {
             totalFiles,
             totalLines,
             averageFileSize,
-            complexity
+            complexity,
+            testCoverage: coverageReport ? summarizeCoverage(coverageReport.files).percent : undefined
         };
     }
 
@@ -1212,9 +1218,10 @@ export class ProjectAnalyzer {
             }
         }
 
-        // Оценка покрытия (базовая)
-        let testCoverage: number | undefined;
-        if (foundTestDirs.length > 0) {
+        // Покрытие по отчету о покрытии; без отчета - оценка по числу тестовых файлов
+        const coverageReport = loadCoverageReport(workspacePath);
+        let testCoverage: number | undefined = coverageReport ? summarizeCoverage(coverageReport.files).percent : undefined;
+        if (testCoverage === undefined && foundTestDirs.length > 0) {
             // Подсчет тестовых файлов
             let testFiles = 0;
             let sourceFiles = 0;
@@ -1490,10 +1497,32 @@ export class ProjectAnalyzer {
             }
         }
 
+        // Аудит lock-файлов по локальной базе advisories и списку разрешенных лицензий
+        const auditor = new DependencyAuditor(workspacePath, new JournalAdvisoryStore(path.join(workspacePath, ADVISORY_DATABASE_PATH)));
+        const audit = auditor.audit();
+        for (const vulnerability of audit.vulnerabilities) {
+            const { package: pkg } = vulnerability;
+            securityIssues.push(formatVulnerability(vulnerability));
+            if (vulnerability.fixedIn) {
+                outdated.push(`${pkg.name}@${pkg.version}: обновите до ${vulnerability.fixedIn} (${vulnerability.advisoryId})`);
+            }
+        }
+        for (const violation of audit.licenseViolations) {
+            conflicts.push(`${violation.package.name}@${violation.package.version}: лицензия ${violation.license} не входит в разрешенные`);
+        }
+        if (audit.vulnerabilities.length > 0) {
+            recommendations.push('Обновите уязвимые зависимости до исправленных версий');
+        }
+        if (audit.licenseViolations.length > 0) {
+            recommendations.push('Замените пакеты с несовместимыми лицензиями или добавьте лицензии в audit.allowedLicenses');
+        }
+
         // Рекомендации по безопасности зависимостей
         if (Object.keys(dependencies).length > 0) {
-            securityIssues.push('Рекомендуется регулярно проверять зависимости на уязвимости');
-            recommendations.push('Используйте npm audit, composer audit или Snyk для проверки безопасности');
+            if (audit.advisories === 0 || audit.lockfiles.length === 0) {
+                securityIssues.push('Рекомендуется регулярно проверять зависимости на уязвимости');
+                recommendations.push('Импортируйте базу OSV (команда "Импортировать базу уязвимостей OSV") и зафиксируйте зависимости lock-файлом для офлайн аудита');
+            }
             recommendations.push('Обновляйте зависимости регулярно, но тестируйте после обновления');
         }
 
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ParsedImport, ParsedReExport, ResolveContext, createResolveContext } from './dependency-parsers/language-parser';
+import { LanguageParserRegistry } from './dependency-parsers/parser-registry';
 
 /**
  * Информация о зависимостях файла
@@ -16,6 +18,15 @@ export interface DependencyInfo {
         variables: string[];
     };
     dependents: string[];
+    symbolDependents?: { [symbol: string]: SymbolUsage[] };
+}
+
+/**
+ * Использование экспортированного символа в другом файле
+ */
+export interface SymbolUsage {
+    file: string;
+    functions: string[]; // Функции/методы импортера, в которых используется символ
 }
 
 /**
@@ -35,6 +46,13 @@ export interface DependencyGraph {
                 variables: string[];
             };
             dependents: string[];
+            importDetails?: ParsedImport[];
+            reExports?: ParsedReExport[];
+            /**
+             * Кто использует каждый экспортированный символ ('*' - модуль целиком)
+             * Строится по определяющему файлу: импорт через barrel учитывается в исходном файле
+             */
+            symbolDependents?: { [symbol: string]: SymbolUsage[] };
         };
     };
     indexes: {
@@ -52,6 +70,11 @@ export interface ImpactAnalysis {
     totalAffected: number;
     impactLevel: 'low' | 'medium' | 'high';
     risks: string[];
+    affectedSymbols: Array<{
+        file: string;
+        symbol: string;
+        usedBy: SymbolUsage[];
+    }>;
 }
 
 /**
@@ -60,8 +83,16 @@ export interface ImpactAnalysis {
 export interface FileChange {
     file: string;
     type: 'create' | 'modify' | 'delete';
+    symbols?: string[]; // Измененные экспортированные символы (если известны)
 }
 
+const GRAPH_VERSION = '2.1.0';
+
+/**
+ * Служебные директории, которые не обходятся при поиске исходников
+ */
+export const IGNORED_DIRECTORIES = ['node_modules', 'out', 'vendor', '__pycache__', 'venv', 'target'];
+
 /**
  * Карта зависимостей проекта
  * Анализирует зависимости между файлами и предоставляет быстрый доступ к информации
@@ -73,6 +104,8 @@ export class ProjectDependencyGraph {
     private fileWatcher: vscode.FileSystemWatcher | undefined;
     private parseCache: Map<string, { timestamp: number; data: any }> = new Map();
     private readonly CACHE_TTL = 60000; // 1 минута
+    private parsers = LanguageParserRegistry.getInstance();
+    private importsContext: { graph: DependencyGraph; lastUpdated: string; context: ResolveContext } | null = null;
 
     constructor() {
         this.workspaceFolder = vscode.workspace.workspaceFolders?.[0];
@@ -85,6 +118,10 @@ export class ProjectDependencyGraph {
      * Инициализация графа зависимостей
      */
     async initialize(): Promise<void> {
+        if (this.workspaceFolder) {
+            this.loadProjectConfigs(this.workspaceFolder.uri.fsPath);
+        }
+
         // Загружаем существующий граф или создаем новый
         await this.loadGraph();
 
@@ -109,10 +146,12 @@ export class ProjectDependencyGraph {
         const startTime = Date.now();
 
         const workspacePath = this.workspaceFolder.uri.fsPath;
+        this.loadProjectConfigs(workspacePath);
         const files = await this.findSourceFiles(workspacePath);
+        const context = createResolveContext(workspacePath, files);
 
         const graph: DependencyGraph = {
-            version: '1.0.0',
+            version: GRAPH_VERSION,
             lastUpdated: new Date().toISOString(),
             files: {},
             indexes: {
@@ -124,7 +163,7 @@ export class ProjectDependencyGraph {
         // Парсим каждый файл
         for (const file of files) {
             try {
-                const fileInfo = await this.parseFile(file, workspacePath);
+                const fileInfo = await this.parseFile(file, workspacePath, context);
                 if (fileInfo) {
                     graph.files[file] = fileInfo;
                     this.updateIndexes(graph, file, fileInfo);
@@ -163,7 +202,8 @@ export class ProjectDependencyGraph {
             exports: fileInfo.exports,
             imports: fileInfo.imports,
             dependencies: fileInfo.dependencies,
-            dependents: fileInfo.dependents
+            dependents: fileInfo.dependents,
+            symbolDependents: fileInfo.symbolDependents
         };
     }
 
@@ -180,8 +220,39 @@ export class ProjectDependencyGraph {
         return fileInfo ? fileInfo.dependents : [];
     }
 
+    /**
+     * Файлы проекта, которые импортирует данный файл (спецификаторы разрешены в пути)
+     */
+    getImportedFiles(filePath: string): string[] {
+        if (!this.graph) {
+            return [];
+        }
+
+        const relativePath = this.getRelativePath(filePath);
+        const fileInfo = this.graph.files[relativePath];
+        if (!fileInfo) {
+            return [];
+        }
+
+        // Контекст разрешения переиспользуется, пока граф не изменился
+        if (!this.importsContext || this.importsContext.graph !== this.graph || this.importsContext.lastUpdated !== this.graph.lastUpdated) {
+            this.importsContext = {
+                graph: this.graph,
+                lastUpdated: this.graph.lastUpdated,
+                context: this.createGraphContext(this.graph)
+            };
+        }
+
+        const context = this.importsContext.context;
+        const resolved = new Set<string>();
+        fileInfo.imports.forEach(imp => this.resolveImport(imp, relativePath, context).forEach(file => resolved.add(file)));
+        return Array.from(resolved);
+    }
+
     /**
      * Анализ влияния изменений
+     * Для измененных файлов перечисляются затронутые символы и функции, которые их используют.
+     * Если в изменении указаны symbols, прямо затронутыми считаются только их пользователи.
      */
     getImpactAnalysis(changes: FileChange[]): ImpactAnalysis {
         if (!this.graph) {
@@ -190,13 +261,15 @@ export class ProjectDependencyGraph {
                 indirectlyAffected: [],
                 totalAffected: 0,
                 impactLevel: 'low',
-                risks: []
+                risks: [],
+                affectedSymbols: []
             };
         }
 
         const directlyAffected = new Set<string>();
         const indirectlyAffected = new Set<string>();
         const risks: string[] = [];
+        const affectedSymbols: ImpactAnalysis['affectedSymbols'] = [];
 
         for (const change of changes) {
             const relativePath = this.getRelativePath(change.file);
@@ -205,13 +278,24 @@ export class ProjectDependencyGraph {
             if (change.type === 'delete' && fileInfo) {
                 // Удаление файла влияет на все файлы, которые его импортируют
                 fileInfo.dependents.forEach(dep => directlyAffected.add(dep));
+                affectedSymbols.push(...this.collectAffectedSymbols(relativePath, fileInfo));
                 risks.push(`Удаление файла ${relativePath} может сломать зависимости`);
             } else if (change.type === 'modify' && fileInfo) {
-                // Изменение файла влияет на все файлы, которые его импортируют
-                fileInfo.dependents.forEach(dep => directlyAffected.add(dep));
-                
+                const symbols = this.collectAffectedSymbols(relativePath, fileInfo, change.symbols);
+                affectedSymbols.push(...symbols);
+
+                if (change.symbols && change.symbols.length > 0) {
+                    // Изменение конкретных символов влияет только на их пользователей
+                    symbols.forEach(entry => entry.usedBy.forEach(usage => directlyAffected.add(usage.file)));
+                } else {
+                    // Изменение файла влияет на все файлы, которые его импортируют
+                    fileInfo.dependents.forEach(dep => directlyAffected.add(dep));
+                }
+
                 // Если изменяются экспорты, это критично
-                if (fileInfo.exports.length > 0) {
+                if (symbols.length > 0) {
+                    risks.push(`Изменение экспортов в ${relativePath} затрагивает: ${this.formatSymbolUsages(symbols)}`);
+                } else if (fileInfo.exports.length > 0 && !change.symbols?.length) {
                     risks.push(`Изменение экспортов в ${relativePath} может сломать зависимости`);
                 }
             } else if (change.type === 'create') {
@@ -242,10 +326,42 @@ export class ProjectDependencyGraph {
             indirectlyAffected: Array.from(indirectlyAffected),
             totalAffected,
             impactLevel,
-            risks
+            risks,
+            affectedSymbols
         };
     }
 
+    /**
+     * Символы файла, у которых есть пользователи (с учетом импортов модуля целиком)
+     */
+    private collectAffectedSymbols(
+        file: string,
+        fileInfo: DependencyGraph['files'][string],
+        symbols?: string[]
+    ): ImpactAnalysis['affectedSymbols'] {
+        const symbolDependents = fileInfo.symbolDependents || {};
+        const names = symbols && symbols.length > 0
+            ? Array.from(new Set([...symbols, '*']))
+            : Object.keys(symbolDependents);
+
+        return names
+            .filter(symbol => symbolDependents[symbol] && symbolDependents[symbol].length > 0)
+            .map(symbol => ({ file, symbol, usedBy: symbolDependents[symbol] }));
+    }
+
+    /**
+     * Форматирование затронутых символов для отчета: "symbol → file (fn1, fn2)"
+     */
+    private formatSymbolUsages(symbols: ImpactAnalysis['affectedSymbols'], limit: number = 10): string {
+        const lines = symbols.map(entry => {
+            const usages = entry.usedBy.map(usage => `${usage.file} (${usage.functions.join(', ') || '<module>'})`);
+            return `${entry.symbol === '*' ? 'модуль целиком' : entry.symbol} → ${usages.join(', ')}`;
+        });
+
+        const shown = lines.slice(0, limit).join('; ');
+        return lines.length > limit ? `${shown}; и еще ${lines.length - limit}` : shown;
+    }
+
     /**
      * Поиск связанных файлов
      */
@@ -263,11 +379,14 @@ export class ProjectDependencyGraph {
         }
 
         // Добавляем зависимости
+        const context = this.createGraphContext(this.graph);
         fileInfo.imports.forEach(imp => {
-            related.add(imp);
-            if (depth > 1) {
-                this.findRelatedFiles(imp, depth - 1).forEach(f => related.add(f));
-            }
+            this.resolveImport(imp, relativePath, context).forEach(resolved => {
+                related.add(resolved);
+                if (depth > 1) {
+                    this.findRelatedFiles(resolved, depth - 1).forEach(f => related.add(f));
+                }
+            });
         });
 
         // Добавляем зависимые файлы
@@ -292,8 +411,14 @@ export class ProjectDependencyGraph {
         const relativePath = this.getRelativePath(filePath);
         const workspacePath = this.workspaceFolder.uri.fsPath;
 
+        // File watcher видит и служебные директории (vendor, node_modules) - их в графе нет
+        if (relativePath.split('/').some(segment => segment.startsWith('.') || IGNORED_DIRECTORIES.includes(segment))) {
+            return;
+        }
+
         try {
-            const fileInfo = await this.parseFile(relativePath, workspacePath);
+            const context = createResolveContext(workspacePath, [...Object.keys(this.graph.files), relativePath]);
+            const fileInfo = await this.parseFile(relativePath, workspacePath, context);
             if (fileInfo) {
                 // Удаляем старые индексы
                 this.removeFromIndexes(this.graph, relativePath, this.graph.files[relativePath]);
@@ -318,7 +443,7 @@ export class ProjectDependencyGraph {
      */
     private async findSourceFiles(workspacePath: string): Promise<string[]> {
         const files: string[] = [];
-        const extensions = ['.ts', '.tsx', '.js', '.jsx'];
+        const extensions = this.parsers.getSupportedExtensions();
 
         const walkDir = (dir: string): void => {
             const entries = fs.readdirSync(dir, { withFileTypes: true });
@@ -328,11 +453,11 @@ export class ProjectDependencyGraph {
 
                 // Пропускаем node_modules, .git, .cursor и другие служебные директории
                 if (entry.isDirectory()) {
-                    if (!entry.name.startsWith('.') && entry.name !== 'node_modules' && entry.name !== 'out') {
+                    if (!entry.name.startsWith('.') && !IGNORED_DIRECTORIES.includes(entry.name)) {
                         walkDir(fullPath);
                     }
                 } else if (entry.isFile()) {
-                    const ext = path.extname(entry.name);
+                    const ext = path.extname(entry.name).toLowerCase();
                     if (extensions.includes(ext)) {
                         const relativePath = path.relative(workspacePath, fullPath).replace(/\\/g, '/');
                         files.push(relativePath);
@@ -347,12 +472,18 @@ export class ProjectDependencyGraph {
 
     /**
      * Парсинг файла для извлечения зависимостей
-     * Использует регулярные выражения для простоты (без AST парсинга)
+     * Парсер выбирается по расширению: импорты, реэкспорты, экспорты и объявления
+     * с указанием, где используется каждый импортированный символ
      */
-    private async parseFile(filePath: string, workspacePath: string): Promise<DependencyGraph['files'][string] | null> {
+    private async parseFile(
+        filePath: string,
+        workspacePath: string,
+        context: ResolveContext
+    ): Promise<DependencyGraph['files'][string] | null> {
         const fullPath = path.join(workspacePath, filePath);
+        const parser = this.parsers.getParserForFile(filePath);
         
-        if (!fs.existsSync(fullPath)) {
+        if (!parser || !fs.existsSync(fullPath)) {
             return null;
         }
 
@@ -364,90 +495,28 @@ export class ProjectDependencyGraph {
         }
 
         const content = fs.readFileSync(fullPath, 'utf-8');
+        const parsed = parser.parse(filePath, content);
 
-        const exports: string[] = [];
-        const imports: string[] = [];
-        const dependencies = {
-            classes: [] as string[],
-            functions: [] as string[],
-            types: [] as string[],
-            variables: [] as string[]
-        };
-
-        // Парсинг импортов
-        const importRegex = /import\s+(?:(?:\{[^}]*\}|\*\s+as\s+\w+|\w+)(?:\s*,\s*(?:\{[^}]*\}|\*\s+as\s+\w+|\w+))*\s+from\s+)?['"]([^'"]+)['"]/g;
-        let match;
-        while ((match = importRegex.exec(content)) !== null) {
-            const importPath = match[1];
-            if (importPath.startsWith('.') || importPath.startsWith('/')) {
-                imports.push(importPath);
-            }
-        }
-
-        // Парсинг require
-        const requireRegex = /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
-        while ((match = requireRegex.exec(content)) !== null) {
-            const importPath = match[1];
-            if (importPath.startsWith('.') || importPath.startsWith('/')) {
-                imports.push(importPath);
-            }
-        }
-
-        // Парсинг экспортов
-        const exportRegex = /export\s+(?:default\s+)?(?:class|interface|type|function|const|let|var|enum)\s+(\w+)/g;
-        while ((match = exportRegex.exec(content)) !== null) {
-            exports.push(match[1]);
-        }
-
-        // Парсинг export from
-        const exportFromRegex = /export\s+(?:\{[^}]*\}|\*\s+as\s+\w+)\s+from\s+['"]([^'"]+)['"]/g;
-        while ((match = exportFromRegex.exec(content)) !== null) {
-            const exportPath = match[1];
-            if (exportPath.startsWith('.') || exportPath.startsWith('/')) {
-                exports.push(exportPath);
-            }
-        }
-
-        // Парсинг классов
-        const classRegex = /(?:export\s+)?class\s+(\w+)/g;
-        while ((match = classRegex.exec(content)) !== null) {
-            dependencies.classes.push(match[1]);
-            if (content.substring(Math.max(0, match.index - 10), match.index).includes('export')) {
-                exports.push(match[1]);
-            }
-        }
-
-        // Парсинг функций
-        const functionRegex = /(?:export\s+)?(?:async\s+)?function\s+(\w+)/g;
-        while ((match = functionRegex.exec(content)) !== null) {
-            dependencies.functions.push(match[1]);
-            if (content.substring(Math.max(0, match.index - 10), match.index).includes('export')) {
-                exports.push(match[1]);
-            }
-        }
-
-        // Парсинг интерфейсов и типов
-        const interfaceRegex = /(?:export\s+)?interface\s+(\w+)/g;
-        while ((match = interfaceRegex.exec(content)) !== null) {
-            dependencies.types.push(match[1]);
-            if (content.substring(Math.max(0, match.index - 10), match.index).includes('export')) {
-                exports.push(match[1]);
-            }
-        }
+        // Внешние пакеты в граф не попадают, только файлы проекта (алиасы tsconfig, модули go.mod, PSR-4 и т.п.)
+        const isProjectImport = (specifier: string): boolean =>
+            specifier.startsWith('.') ||
+            specifier.startsWith('/') ||
+            parser.resolveImport(specifier, filePath, context).length > 0;
 
-        const typeRegex = /(?:export\s+)?type\s+(\w+)/g;
-        while ((match = typeRegex.exec(content)) !== null) {
-            dependencies.types.push(match[1]);
-            if (content.substring(Math.max(0, match.index - 10), match.index).includes('export')) {
-                exports.push(match[1]);
-            }
-        }
+        const importDetails = parsed.imports.filter(entry => isProjectImport(entry.specifier));
+        const reExports = parsed.reExports.filter(entry => isProjectImport(entry.specifier));
+        const imports = Array.from(new Set([
+            ...importDetails.map(entry => entry.specifier),
+            ...reExports.map(entry => entry.specifier)
+        ]));
 
         const result = {
-            exports,
+            exports: parsed.exports,
             imports,
-            dependencies,
-            dependents: [] as string[]
+            dependencies: parsed.declarations,
+            dependents: [] as string[],
+            importDetails,
+            reExports
         };
 
         // Кэшируем результат
@@ -518,46 +587,161 @@ export class ProjectDependencyGraph {
         // Очищаем существующие dependents
         Object.keys(graph.files).forEach(file => {
             graph.files[file].dependents = [];
+            graph.files[file].symbolDependents = {};
         });
 
+        const context = this.createGraphContext(graph);
+        const addDependent = (target: string, file: string): void => {
+            if (graph.files[target] && target !== file && !graph.files[target].dependents.includes(file)) {
+                graph.files[target].dependents.push(file);
+            }
+        };
+
         // Строим dependents на основе импортов
         Object.keys(graph.files).forEach(file => {
             const fileInfo = graph.files[file];
             fileInfo.imports.forEach(imp => {
                 // Находим файлы, которые экспортируют то, что импортирует текущий файл
-                const importedFiles = this.resolveImport(imp, file, graph);
-                importedFiles.forEach(importedFile => {
-                    if (graph.files[importedFile] && !graph.files[importedFile].dependents.includes(file)) {
-                        graph.files[importedFile].dependents.push(file);
+                const importedFiles = this.resolveImport(imp, file, context);
+                importedFiles.forEach(importedFile => addDependent(importedFile, file));
+            });
+
+            // Связи на уровне символов: символ привязывается к файлу, где он определен (через цепочки реэкспортов)
+            // Импорт пакета (Go, Java wildcard) разрешается в несколько файлов - символ ищется среди них
+            (fileInfo.importDetails || []).forEach(detail => {
+                const targets = this.resolveImport(detail.specifier, file, context);
+                if (targets.length === 0) {
+                    return;
+                }
+
+                const symbols = detail.symbols.length > 0 ? detail.symbols : ['*'];
+                for (const symbol of symbols) {
+                    let origins = targets.map(target => ({ file: target, symbol }));
+                    if (symbol !== '*') {
+                        const found = targets
+                            .map(target => this.resolveSymbolSource(target, symbol, graph, context))
+                            .find(origin => origin !== null);
+                        const member = found ? undefined : this.parsers.getParserForFile(file)
+                            ?.resolveMember?.(detail.specifier, symbol, file, context)[0];
+                        origins = found ? [found] : member ? [{ file: member, symbol: '*' }] : origins.slice(0, 1);
+                    }
+
+                    for (const origin of origins) {
+                        addDependent(origin.file, file);
+                        this.addSymbolDependent(graph, origin.file, origin.symbol, file, detail.usedIn[symbol] || []);
                     }
-                });
+                }
             });
         });
     }
 
     /**
-     * Разрешение импорта в путь к файлу
+     * Добавление использования символа в symbolDependents определяющего файла
      */
-    private resolveImport(importPath: string, fromFile: string, graph: DependencyGraph): string[] {
-        const results: string[] = [];
-
-        // Если это относительный путь
-        if (importPath.startsWith('.')) {
-            const fromDir = path.dirname(fromFile);
-            const resolved = path.join(fromDir, importPath).replace(/\\/g, '/');
-            
-            // Пробуем разные расширения
-            const extensions = ['', '.ts', '.tsx', '.js', '.jsx'];
-            for (const ext of extensions) {
-                const candidate = resolved + ext;
-                if (graph.files[candidate]) {
-                    results.push(candidate);
-                    break;
+    private addSymbolDependent(graph: DependencyGraph, target: string, symbol: string, file: string, functions: string[]): void {
+        const targetInfo = graph.files[target];
+        if (!targetInfo || target === file) {
+            return;
+        }
+
+        const symbolDependents = targetInfo.symbolDependents || (targetInfo.symbolDependents = {});
+        const usages = symbolDependents[symbol] || (symbolDependents[symbol] = []);
+        const existing = usages.find(usage => usage.file === file);
+
+        if (existing) {
+            functions.forEach(fn => {
+                if (!existing.functions.includes(fn)) {
+                    existing.functions.push(fn);
+                }
+            });
+        } else {
+            usages.push({ file, functions: [...functions] });
+        }
+    }
+
+    /**
+     * Поиск файла, где определен символ, по цепочке реэкспортов (barrel файлы)
+     * Возвращает null, если файл не экспортирует символ
+     */
+    private resolveSymbolSource(
+        file: string,
+        symbol: string,
+        graph: DependencyGraph,
+        context: ResolveContext,
+        visited: Set<string> = new Set()
+    ): { file: string; symbol: string } | null {
+        const key = `${file}#${symbol}`;
+        const fileInfo = graph.files[file];
+        if (!fileInfo || visited.has(key)) {
+            return null;
+        }
+        visited.add(key);
+
+        if (symbol === '*') {
+            return { file, symbol };
+        }
+
+        // export { a as b } from './x' и export * as ns from './x'
+        for (const reExport of fileInfo.reExports || []) {
+            const named = reExport.names.find(name => name.exported === symbol);
+            if (!named) {
+                continue;
+            }
+
+            const target = this.resolveImport(reExport.specifier, file, context)[0];
+            if (!target) {
+                return { file, symbol };
+            }
+            if (named.original === '*') {
+                return { file: target, symbol: '*' };
+            }
+            return this.resolveSymbolSource(target, named.original, graph, context, visited) || { file, symbol };
+        }
+
+        if (fileInfo.exports.includes(symbol)) {
+            return { file, symbol };
+        }
+
+        // export * from './x' не реэкспортирует default
+        if (symbol !== 'default') {
+            for (const reExport of fileInfo.reExports || []) {
+                if (!reExport.all) {
+                    continue;
+                }
+
+                const target = this.resolveImport(reExport.specifier, file, context)[0];
+                const found = target ? this.resolveSymbolSource(target, symbol, graph, context, visited) : null;
+                if (found) {
+                    return found;
                 }
             }
         }
 
-        return results;
+        return null;
+    }
+
+    /**
+     * Разрешение импорта в пути к файлам проекта
+     * Делегируется парсеру языка импортирующего файла (алиасы, barrel файлы, пакеты Go, PSR-4)
+     */
+    private resolveImport(importPath: string, fromFile: string, context: ResolveContext): string[] {
+        const parser = this.parsers.getParserForFile(fromFile);
+        return parser ? parser.resolveImport(importPath, fromFile, context) : [];
+    }
+
+    /**
+     * Контекст разрешения импортов по файлам графа
+     */
+    private createGraphContext(graph: DependencyGraph): ResolveContext {
+        const workspacePath = this.workspaceFolder?.uri.fsPath || '';
+        return createResolveContext(workspacePath, Object.keys(graph.files));
+    }
+
+    /**
+     * Загрузка конфигураций языков (tsconfig, go.mod, composer.json) перед разбором
+     */
+    private loadProjectConfigs(workspacePath: string): void {
+        this.parsers.getParsers().forEach(parser => parser.loadProjectConfig?.(workspacePath));
     }
 
     /**
@@ -568,7 +752,8 @@ export class ProjectDependencyGraph {
             return;
         }
 
-        const pattern = new vscode.RelativePattern(this.workspaceFolder, '**/*.{ts,tsx,js,jsx}');
+        const extensions = this.parsers.getSupportedExtensions().map(ext => ext.substring(1)).join(',');
+        const pattern = new vscode.RelativePattern(this.workspaceFolder, `**/*.{${extensions}}`);
         this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
 
         this.fileWatcher.onDidChange(async (uri) => {
@@ -654,6 +839,11 @@ export class ProjectDependencyGraph {
             return true;
         }
 
+        // Граф в старом формате (без связей на уровне символов) перестраиваем
+        if (this.graph.version !== GRAPH_VERSION) {
+            return true;
+        }
+
         const lastUpdated = new Date(this.graph.lastUpdated);
         const daysSinceUpdate = (Date.now() - lastUpdated.getTime()) / (1000 * 60 * 60 * 24);
         return daysSinceUpdate > 1; // Граф считается устаревшим, если не обновлялся более 1 дня
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { Orchestrator, Task } from './orchestrator';
+import { Orchestrator, Task, isTaskFinished } from './orchestrator';
 import { SettingsManager } from '../integration/settings-manager';
 import { LocalAgent, AgentThoughts, AgentSolution, ProjectContext } from '../agents/local-agent';
 import { BackendAgent } from '../agents/backend-agent';
@@ -20,6 +20,23 @@ import { AgentsStatusTreeProvider } from '../ui/agents-status-tree';
 import { AgentInfo } from './agent-manager';
 import { TaskDeviationController } from './task-deviation-controller';
 import { EnsembleRefinementManager } from './ensemble-refinement-manager';
+import { TaskCancellationRegistry } from './task-cancellation';
+import { TaskTracer } from './task-trace';
+import { TaskTransactionManager } from './task-transaction';
+import { isCancellationError } from '../integration/model-providers/retry';
+import { SemanticIndex } from './semantic-index';
+import { ContextAssembler } from './context-assembler';
+import { MCPClient } from '../agents/worker/mcp-client';
+
+/**
+ * Сколько фрагментов кода из семантического индекса добавляется в контекст задачи
+ */
+const RELEVANT_SNIPPETS_COUNT = 5;
+
+/**
+ * Сколько ждать завершения подзадач проверки качества (подзадачу могли так и не запустить)
+ */
+const SUBTASKS_TIMEOUT_MS = 300000;
 
 /**
  * Самообучаемый оркестратор
@@ -39,6 +56,7 @@ export class SelfLearningOrchestrator extends Orchestrator {
     private qualityChecker: QualityChecker;
     private taskDeviationController: TaskDeviationController;
     private ensembleRefinementManager: EnsembleRefinementManager;
+    private contextAssembler: ContextAssembler;
     private thoughtsCallbacks: Map<string, (thoughts: AgentThoughts) => void> = new Map();
     private learningInterval?: NodeJS.Timeout;
     private agentsStatusTreeProvider?: AgentsStatusTreeProvider;
@@ -57,6 +75,10 @@ export class SelfLearningOrchestrator extends Orchestrator {
         this.ensembleRefinementManager = new EnsembleRefinementManager(this.solutionEvaluator, this.taskDeviationController);
         this.learningEngine = new LearningEngine(this.knowledgeBase);
         this.qualityChecker = new QualityChecker(this.dependencyGraph, this.knowledgeBase);
+        this.contextAssembler = new ContextAssembler({
+            dependencyGraph: this.dependencyGraph,
+            knowledgeBase: this.knowledgeBase
+        });
         this.agentsStatusTreeProvider = agentsStatusTreeProvider;
         
         // Инициализация агентов асинхронно (не блокируем конструктор)
@@ -189,6 +211,14 @@ export class SelfLearningOrchestrator extends Orchestrator {
 
         // Инициализация карты зависимостей
         await this.dependencyGraph.initialize();
+        // По графу агенты запускают только тесты, затронутые их изменениями
+        MCPClient.setDependencyGraph(this.dependencyGraph);
+        this.qualityController.setDependencyGraph(this.dependencyGraph);
+
+        // Семантический индекс строится в фоне, чтобы не задерживать запуск
+        SemanticIndex.getInstance().initialize().catch(error => {
+            console.error('Error initializing semantic index:', error);
+        });
 
         // Инициализация базы знаний
         await this.knowledgeBase.initialize();
@@ -320,6 +350,8 @@ export class SelfLearningOrchestrator extends Orchestrator {
         }
 
         this.brainstormingManager.dispose();
+        MCPClient.setDependencyGraph(undefined);
+        this.qualityController.setDependencyGraph(undefined);
         this.dependencyGraph.dispose();
         await this.knowledgeBase.saveKnowledge();
         await this.learningEngine.saveStrategies();
@@ -349,7 +381,7 @@ export class SelfLearningOrchestrator extends Orchestrator {
         }
 
         // Получаем контекст проекта
-        const projectContext = await this.buildProjectContext();
+        const projectContext = await this.buildProjectContext(task);
 
         // Инициируем мозговой штурм (с автоматической генерацией вариаций задач)
         const session = await this.brainstormingManager.initiateBrainstorming(
@@ -394,24 +426,49 @@ export class SelfLearningOrchestrator extends Orchestrator {
 
         task.status = 'in-progress';
 
+        const tracer = TaskTracer.getInstance();
+        this.startTaskTrace(task);
+
         try {
             // Инициируем мозговой штурм
-            const consolidated = await this.initiateBrainstorming(task, undefined, thoughtsCallback);
+            const consolidated = await tracer.span(task.id, 'brainstorming', 'Мозговой штурм', async span => {
+                const result = await this.initiateBrainstorming(task, undefined, thoughtsCallback);
+                for (const solution of result.solutions) {
+                    span.event('solution', {
+                        agentId: solution.agentId,
+                        title: solution.solution.title,
+                        approach: solution.solution.approach,
+                        files: solution.solution.filesToModify,
+                        confidence: solution.confidence
+                    });
+                }
+                span.setAttributes({
+                    solutions: result.solutions.length,
+                    selectedAgent: result.bestSolution?.agentId,
+                    selectedTitle: result.bestSolution?.solution.title
+                });
+                return result;
+            });
 
-            const projectContext = await this.buildProjectContext();
+            const projectContext = await this.buildProjectContext(task);
 
             // Проверяем, идеально ли решение (с учетом соответствия задаче)
-            const evaluation = await this.solutionEvaluator.evaluateSolution(
-                consolidated.bestSolution!,
-                projectContext,
-                task
-            );
+            const evaluation = await tracer.span(task.id, 'evaluation', 'Оценка решения', async span => {
+                const result = await this.solutionEvaluator.evaluateSolution(
+                    consolidated.bestSolution!,
+                    projectContext,
+                    task
+                );
+                span.setAttributes({ score: result.score, ...result.breakdown, weaknesses: result.weaknesses });
+                return result;
+            });
 
             let finalSolution = consolidated.bestSolution!;
 
             // Если решение не идеально или имеет отклонения, дорабатываем его через ансамбль
             if (evaluation.score < 0.8 || evaluation.breakdown.taskAlignment < 0.7) {
                 console.log(`Solution score ${evaluation.score} or task alignment ${evaluation.breakdown.taskAlignment} is below threshold, refining with ensemble...`);
+                const refinementSpan = tracer.startSpan(task.id, 'refinement', 'Доработка решения', { scoreBefore: evaluation.score }, { phase: true });
                 
                 // Используем ансамблевую доработку
                 const refinementResult = await this.ensembleRefinementManager.initiateEnsembleRefinement(
@@ -421,6 +478,8 @@ export class SelfLearningOrchestrator extends Orchestrator {
                     projectContext
                 );
                 
+                refinementSpan.setAttributes({ method: 'ensemble', improvementScore: refinementResult.improvementScore, applied: refinementResult.appliedSuggestions });
+                
                 if (refinementResult.improvementScore > 0) {
                     finalSolution = refinementResult.refinedSolution;
                     console.log(`Solution improved by ${(refinementResult.improvementScore * 100).toFixed(1)}%`);
@@ -444,11 +503,13 @@ export class SelfLearningOrchestrator extends Orchestrator {
                             task
                         );
                         
+                        refinementSpan.setAttributes({ method: 'agent', scoreAfter: refinedEvaluation.score });
                         if (refinedEvaluation.score > evaluation.score) {
                             finalSolution = refined;
                         }
                     }
                 }
+                refinementSpan.end('ok', { refined: finalSolution !== consolidated.bestSolution });
             }
 
             // Выполняем решение
@@ -457,7 +518,31 @@ export class SelfLearningOrchestrator extends Orchestrator {
                 throw new Error(`Agent ${finalSolution.agentId} not found`);
             }
 
-            const executionResult = await agent.executeSolution(finalSolution, task, projectContext);
+            const executionResult = await tracer.span(task.id, 'apply', 'Применение решения', async span => {
+                const result = await agent.executeSolution(finalSolution, task, projectContext);
+                span.setAttributes({ success: result.success, error: result.error, filesChanged: result.filesChanged, codeChanges: result.codeChanges });
+                return result;
+            }, { agentId: agent.getId(), title: finalSolution.solution.title });
+
+            // Проверка качества: при провале изменения задачи откатываются, иначе транзакция фиксируется
+            const transactionFiles = TaskTransactionManager.getInstance().get(task.id)?.record.files.length || 0;
+            if (executionResult.success && (executionResult.filesChanged.length > 0 || transactionFiles > 0)) {
+                const qualityReport = await tracer.span(task.id, 'quality-check', 'Проверка качества', async span => {
+                    const report = await this.qualityController.validateSolution(finalSolution);
+                    span.setAttributes(this.describeQualityReport(report));
+                    return report;
+                });
+                task.qualityReport = qualityReport;
+
+                if (qualityReport.passed) {
+                    this.commitTaskChanges(task.id);
+                } else {
+                    await this.rollbackTaskChanges(task.id, `quality score ${qualityReport.score}`);
+                    executionResult.success = false;
+                    executionResult.error = `Качество недостаточно: ${qualityReport.score}/100, изменения откатаны`;
+                    executionResult.filesChanged = [];
+                }
+            }
 
             // Сохраняем решение в историю
             await this.recordDecision(task, finalSolution, executionResult, evaluation);
@@ -497,8 +582,18 @@ export class SelfLearningOrchestrator extends Orchestrator {
             task.status = 'blocked';
             task.executionResult = {
                 success: false,
-                error: error.message || 'Unknown error'
+                error: isCancellationError(error) ? 'Задача отменена' : (error.message || 'Unknown error')
             };
+            this.updateTaskStatus(task.id, 'blocked', false, task.executionResult.error);
+        } finally {
+            // Транзакция не остается активной ни при каком исходе: выполненная задача фиксируется, иначе откат
+            if (task.status === 'completed') {
+                this.commitTaskChanges(task.id);
+            } else {
+                await this.rollbackTaskChanges(task.id, 'task not completed');
+            }
+            TaskCancellationRegistry.getInstance().release(task.id);
+            tracer.endTrace(task.id, task.status === 'completed' ? 'ok' : 'error', { status: task.status, error: task.executionResult?.error });
         }
     }
 
@@ -525,7 +620,7 @@ export class SelfLearningOrchestrator extends Orchestrator {
         task: Task,
         solutions: AgentSolution[]
     ): Promise<{ corrected: AgentSolution[]; deviations: Map<string, any> }> {
-        const projectContext = await this.buildProjectContext();
+        const projectContext = await this.buildProjectContext(task);
         const corrected: AgentSolution[] = [];
         const deviations = new Map<string, any>();
 
@@ -569,8 +664,9 @@ export class SelfLearningOrchestrator extends Orchestrator {
 
     /**
      * Построение контекста проекта
+     * Для задачи добавляются фрагменты кода из семантического индекса
      */
-    private async buildProjectContext(): Promise<ProjectContext> {
+    private async buildProjectContext(task?: Task): Promise<ProjectContext> {
         const knowledge = this.knowledgeBase.getKnowledge();
         const profile = knowledge?.profile || null;
 
@@ -578,14 +674,21 @@ export class SelfLearningOrchestrator extends Orchestrator {
         const dependencies: { [filePath: string]: string[] } = {};
         if (knowledge?.dependencies) {
             Object.keys(knowledge.dependencies.files || {}).forEach(filePath => {
-                const depInfo = this.dependencyGraph.getDependencies(filePath);
-                if (depInfo) {
-                    dependencies[filePath] = depInfo.imports;
+                const imported = this.dependencyGraph.getImportedFiles(filePath);
+                if (imported.length > 0) {
+                    dependencies[filePath] = imported;
                 }
             });
         }
 
-        return {
+        const relevantSnippets = task
+            ? await SemanticIndex.getInstance().semanticSearch(task.description, RELEVANT_SNIPPETS_COUNT).catch(error => {
+                console.error('Error searching semantic index:', error);
+                return [];
+            })
+            : [];
+
+        const projectContext: ProjectContext = {
             structure: knowledge?.structure || {
                 files: [],
                 directories: [],
@@ -600,8 +703,16 @@ export class SelfLearningOrchestrator extends Orchestrator {
             knowledge: knowledge ? {
                 metrics: knowledge.metrics,
                 history: knowledge.history.slice(-10) // Последние 10 решений
-            } : {}
+            } : {},
+            relevantSnippets
         };
+
+        // Кандидаты в промпт ранжируются здесь, в бюджет модели их упаковывает каждый агент
+        if (task) {
+            projectContext.contextCandidates = this.contextAssembler.collectCandidates(task, projectContext);
+        }
+
+        return projectContext;
     }
 
     /**
@@ -695,6 +806,13 @@ export class SelfLearningOrchestrator extends Orchestrator {
         return this.knowledgeBase;
     }
 
+    /**
+     * Получение движка самообучения
+     */
+    getLearningEngine(): LearningEngine {
+        return this.learningEngine;
+    }
+
     /**
      * Получение локальных агентов
      */
@@ -801,26 +919,30 @@ export class SelfLearningOrchestrator extends Orchestrator {
     }
 
     /**
-     * Ожидание завершения всех подзадач
+     * Ожидание завершения всех подзадач по событиям завершения и провала задач, не дольше SUBTASKS_TIMEOUT_MS
      */
-    private async waitForSubTasksCompletion(subTasks: Task[]): Promise<void> {
-        return new Promise((resolve) => {
-            const checkInterval = setInterval(() => {
-                const allCompleted = subTasks.every(t => 
-                    t.status === 'completed' || t.status === 'blocked'
-                );
-
-                if (allCompleted) {
-                    clearInterval(checkInterval);
-                    resolve();
-                }
-            }, 1000); // Проверяем каждую секунду
+    private waitForSubTasksCompletion(subTasks: Task[]): Promise<void> {
+        const pending = new Set(subTasks.filter(task => !isTaskFinished(task)).map(task => task.id));
+        if (pending.size === 0) {
+            return Promise.resolve();
+        }
 
-            // Таймаут через 5 минут
-            setTimeout(() => {
-                clearInterval(checkInterval);
+        return new Promise(resolve => {
+            const finish = () => {
+                clearTimeout(timeout);
+                unsubscribe();
                 resolve();
-            }, 300000);
+            };
+            const unsubscribe = this.onTaskFinished(task => {
+                pending.delete(task.id);
+                if (pending.size === 0) {
+                    finish();
+                }
+            });
+            const timeout = setTimeout(() => {
+                console.warn(`SelfLearningOrchestrator: Sub-tasks ${Array.from(pending).join(', ')} not finished in ${SUBTASKS_TIMEOUT_MS / 1000}s`);
+                finish();
+            }, SUBTASKS_TIMEOUT_MS);
         });
     }
 
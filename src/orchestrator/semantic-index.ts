@@ -0,0 +1,544 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ModelProviderManager } from '../integration/model-providers/provider-manager';
+import { MessageType, getGlobalMessageBus } from '../agents/worker/message-bus';
+import { LanguageParserRegistry } from './dependency-parsers/parser-registry';
+import { IGNORED_DIRECTORIES } from './project-dependency-graph';
+
+/**
+ * Фрагмент кода, найденный семантическим поиском
+ */
+export interface SemanticSearchResult {
+    file: string;
+    startLine: number; // 1-based, включительно
+    endLine: number;
+    score: number;
+    text: string;
+}
+
+/**
+ * Источник эмбеддингов (модель провайдера)
+ * model входит в индекс: при смене модели векторы пересчитываются
+ */
+export interface EmbeddingSource {
+    model: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+interface IndexedChunk {
+    startLine: number;
+    endLine: number;
+    terms: { [term: string]: number }; // частоты термов для TF-IDF
+    vector?: number[];
+}
+
+interface IndexedFile {
+    mtime: number;
+    hash: string;
+    chunks: IndexedChunk[];
+}
+
+interface SemanticIndexData {
+    version: string;
+    embeddingModel: string | null;
+    lastUpdated: string;
+    files: { [filePath: string]: IndexedFile };
+}
+
+const INDEX_VERSION = '1.0.0';
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 10;
+const MAX_FILE_SIZE = 256 * 1024;
+const EMBEDDING_BATCH_SIZE = 32;
+const MAX_EMBEDDING_INPUT = 4000;
+
+/**
+ * Файлы, которые индексируются помимо исходников поддерживаемых языков
+ */
+const EXTRA_EXTENSIONS = ['.vue', '.svelte', '.html', '.css', '.scss', '.md'];
+
+/**
+ * Служебные слова, не несущие смысла для поиска
+ */
+const STOP_WORDS = new Set([
+    'the', 'and', 'or', 'to', 'of', 'in', 'is', 'it', 'for', 'on', 'with', 'as', 'by', 'be', 'this', 'that',
+    'const', 'let', 'var', 'function', 'return', 'import', 'export', 'from', 'new', 'if', 'else', 'def',
+    'public', 'private', 'protected', 'static', 'void', 'async', 'await', 'true', 'false', 'null', 'undefined',
+    'и', 'в', 'на', 'с', 'по', 'для', 'не', 'из', 'что', 'как'
+]);
+
+/**
+ * Разбиение текста на термы: идентификаторы целиком и их части
+ * getUserName -> getusername, get, user, name; MAX_SIZE -> max_size, max, size
+ */
+export function tokenize(text: string): string[] {
+    const terms: string[] = [];
+    const words = text.match(/[\p{L}_][\p{L}\p{N}_]*/gu) || [];
+
+    for (const word of words) {
+        const parts = word
+            .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')
+            .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')
+            .split(/[\s_]+/)
+            .map(part => part.toLowerCase())
+            .filter(part => part.length > 1 && !STOP_WORDS.has(part));
+
+        const whole = word.toLowerCase();
+        if (parts.length > 1 && !STOP_WORDS.has(whole)) {
+            terms.push(whole);
+        }
+        terms.push(...parts);
+    }
+
+    return terms;
+}
+
+/**
+ * Эмбеддинги из провайдера с настроенной embeddingModel (Ollama, OpenAI)
+ */
+function getProviderEmbeddingSource(): EmbeddingSource | null {
+    const provider = ModelProviderManager.getInstance().getEmbeddingProvider();
+    if (!provider || !provider.embed) {
+        return null;
+    }
+
+    return {
+        model: `${provider.getProviderType()}:${provider.getConfig().embeddingModel}`,
+        embed: (texts) => provider.embed!(texts)
+    };
+}
+
+/**
+ * Локальный семантический индекс фрагментов кода
+ * Файлы режутся на перекрывающиеся окна строк; для каждого окна хранятся частоты термов (TF-IDF)
+ * и, если доступна модель эмбеддингов, вектор. Индекс хранится в .cursor/config/semantic-index.json
+ * и обновляется инкрементально по событиям FILE_CHANGED от FileWatcher.
+ */
+export class SemanticIndex {
+    private static instance: SemanticIndex;
+    private indexPath: string;
+    private data: SemanticIndexData | null = null;
+    private initialization: Promise<void> | null = null;
+    private updateQueue: Promise<void> = Promise.resolve();
+    private unsubscribe?: () => void;
+    private documentFrequency: Map<string, number> | null = null;
+    private extensions: Set<string>;
+
+    constructor(
+        private workspacePath: string,
+        private getEmbeddingSource: () => EmbeddingSource | null = getProviderEmbeddingSource
+    ) {
+        this.indexPath = workspacePath
+            ? path.join(workspacePath, '.cursor', 'config', 'semantic-index.json')
+            : '';
+        this.extensions = new Set([...LanguageParserRegistry.getInstance().getSupportedExtensions(), ...EXTRA_EXTENSIONS]);
+    }
+
+    /**
+     * Получить индекс текущего workspace (Singleton)
+     */
+    static getInstance(): SemanticIndex {
+        if (!SemanticIndex.instance) {
+            SemanticIndex.instance = new SemanticIndex(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '');
+        }
+        return SemanticIndex.instance;
+    }
+
+    /**
+     * Загрузка индекса, подписка на изменения файлов и досчет изменившихся с прошлого запуска файлов
+     * Повторные вызовы ждут первую инициализацию
+     */
+    initialize(): Promise<void> {
+        if (!this.initialization) {
+            this.initialization = this.doInitialize();
+        }
+        return this.initialization;
+    }
+
+    /**
+     * Поиск k наиболее близких запросу фрагментов кода
+     * Используются эмбеддинги, если ими покрыт весь индекс, иначе TF-IDF
+     */
+    async semanticSearch(query: string, k: number = 5): Promise<SemanticSearchResult[]> {
+        await this.initialize();
+        await this.updateQueue;
+
+        if (!this.data || !query.trim()) {
+            return [];
+        }
+
+        const scored = (await this.scoreByEmbeddings(query)) || this.scoreByTfIdf(query);
+        const top = scored
+            .filter(entry => entry.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, k);
+
+        const contents = new Map<string, string[]>();
+        return top.map(({ file, chunk, score }) => {
+            if (!contents.has(file)) {
+                contents.set(file, this.readFile(file)?.split('\n') || []);
+            }
+            return {
+                file,
+                startLine: chunk.startLine,
+                endLine: chunk.endLine,
+                score: Math.round(score * 1000) / 1000,
+                text: contents.get(file)!.slice(chunk.startLine - 1, chunk.endLine).join('\n')
+            };
+        });
+    }
+
+    /**
+     * Переиндексация файлов (относительные пути); удаленные файлы убираются из индекса
+     */
+    updateFiles(files: string[]): Promise<void> {
+        const work = this.updateQueue.then(async () => {
+            if (!this.data) {
+                return;
+            }
+
+            let changed = false;
+            for (const file of files.map(f => f.replace(/\\/g, '/'))) {
+                if (!this.shouldIndex(file)) {
+                    continue;
+                }
+                changed = this.indexFile(file) || changed;
+            }
+
+            const embedded = await this.embedMissingChunks();
+            if (changed || embedded) {
+                this.saveIndex();
+            }
+        });
+
+        this.updateQueue = work.catch(error => console.error('SemanticIndex: Error updating index:', error));
+        return this.updateQueue;
+    }
+
+    /**
+     * Отписка от событий изменения файлов
+     */
+    dispose(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = undefined;
+    }
+
+    private async doInitialize(): Promise<void> {
+        if (!this.workspacePath) {
+            return;
+        }
+
+        this.loadIndex();
+        if (!this.data || this.data.version !== INDEX_VERSION) {
+            this.data = { version: INDEX_VERSION, embeddingModel: null, lastUpdated: new Date().toISOString(), files: {} };
+        }
+
+        this.unsubscribe = getGlobalMessageBus().subscribe(
+            'semantic-index',
+            [MessageType.FILE_CHANGED],
+            async (message) => {
+                await this.updateFiles(message.payload?.files || []);
+            }
+        );
+
+        await this.updateFiles(this.findFiles());
+
+        // Файлы, удаленные, пока расширение не работало
+        const removed = Object.keys(this.data.files).filter(file => !fs.existsSync(path.join(this.workspacePath, file)));
+        if (removed.length > 0) {
+            await this.updateFiles(removed);
+        }
+
+        console.log(`SemanticIndex: ${Object.keys(this.data.files).length} files indexed (${this.data.embeddingModel || 'TF-IDF'})`);
+    }
+
+    /**
+     * Переиндексация файла, если он изменился
+     * Возвращает true, если индекс изменен
+     */
+    private indexFile(file: string): boolean {
+        const data = this.data!;
+        const fullPath = path.join(this.workspacePath, file);
+
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(fullPath);
+        } catch {
+            if (data.files[file]) {
+                delete data.files[file];
+                this.documentFrequency = null;
+                return true;
+            }
+            return false;
+        }
+
+        const existing = data.files[file];
+        if (!stat.isFile() || stat.size > MAX_FILE_SIZE || (existing && existing.mtime === stat.mtimeMs)) {
+            return false;
+        }
+
+        const content = this.readFile(file);
+        if (content === null) {
+            return false;
+        }
+
+        const hash = crypto.createHash('sha1').update(content).digest('hex');
+        if (existing && existing.hash === hash) {
+            existing.mtime = stat.mtimeMs;
+            return true;
+        }
+
+        data.files[file] = { mtime: stat.mtimeMs, hash, chunks: this.createChunks(content) };
+        this.documentFrequency = null;
+        return true;
+    }
+
+    /**
+     * Окна по CHUNK_LINES строк с перекрытием CHUNK_OVERLAP
+     */
+    private createChunks(content: string): IndexedChunk[] {
+        const lines = content.split('\n');
+        const chunks: IndexedChunk[] = [];
+        const step = CHUNK_LINES - CHUNK_OVERLAP;
+
+        for (let start = 0; start < lines.length; start += step) {
+            const end = Math.min(lines.length, start + CHUNK_LINES);
+            const terms: { [term: string]: number } = {};
+            for (const term of tokenize(lines.slice(start, end).join('\n'))) {
+                terms[term] = (terms[term] || 0) + 1;
+            }
+
+            if (Object.keys(terms).length > 0) {
+                chunks.push({ startLine: start + 1, endLine: end, terms });
+            }
+            if (end === lines.length) {
+                break;
+            }
+        }
+
+        return chunks;
+    }
+
+    /**
+     * Досчет векторов для фрагментов без эмбеддингов
+     * При смене модели старые векторы сбрасываются; при ошибке провайдера индекс остается на TF-IDF
+     * Возвращает true, если добавлены векторы
+     */
+    private async embedMissingChunks(): Promise<boolean> {
+        const data = this.data!;
+        const source = this.getEmbeddingSource();
+        if (!source) {
+            return false;
+        }
+
+        if (data.embeddingModel !== source.model) {
+            Object.values(data.files).forEach(entry => entry.chunks.forEach(chunk => delete chunk.vector));
+            data.embeddingModel = source.model;
+        }
+
+        const pending: Array<{ file: string; chunk: IndexedChunk }> = [];
+        for (const [file, entry] of Object.entries(data.files)) {
+            entry.chunks.filter(chunk => !chunk.vector).forEach(chunk => pending.push({ file, chunk }));
+        }
+
+        const contents = new Map<string, string[]>();
+        let embedded = false;
+        for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+            const texts = batch.map(({ file, chunk }) => {
+                if (!contents.has(file)) {
+                    contents.set(file, this.readFile(file)?.split('\n') || []);
+                }
+                const text = contents.get(file)!.slice(chunk.startLine - 1, chunk.endLine).join('\n');
+                return `${file}\n${text}`.substring(0, MAX_EMBEDDING_INPUT);
+            });
+
+            try {
+                const vectors = await source.embed(texts);
+                batch.forEach(({ chunk }, index) => {
+                    chunk.vector = vectors[index];
+                });
+                embedded = true;
+            } catch (error: any) {
+                console.warn(`SemanticIndex: Embedding failed (${source.model}), using TF-IDF: ${error.message || error}`);
+                break;
+            }
+        }
+        return embedded;
+    }
+
+    /**
+     * Оценка по косинусной близости эмбеддингов
+     * null - модель недоступна или индекс покрыт векторами не полностью
+     */
+    private async scoreByEmbeddings(query: string): Promise<Array<{ file: string; chunk: IndexedChunk; score: number }> | null> {
+        const data = this.data!;
+        const source = this.getEmbeddingSource();
+        if (!source || data.embeddingModel !== source.model) {
+            return null;
+        }
+
+        const entries = Object.entries(data.files);
+        if (entries.some(([, entry]) => entry.chunks.some(chunk => !chunk.vector))) {
+            return null;
+        }
+
+        let queryVector: number[];
+        try {
+            [queryVector] = await source.embed([query]);
+        } catch (error: any) {
+            console.warn(`SemanticIndex: Query embedding failed, using TF-IDF: ${error.message || error}`);
+            return null;
+        }
+
+        const results: Array<{ file: string; chunk: IndexedChunk; score: number }> = [];
+        for (const [file, entry] of entries) {
+            for (const chunk of entry.chunks) {
+                results.push({ file, chunk, score: cosineSimilarity(queryVector, chunk.vector!) });
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Оценка TF-IDF: (1 + log tf) * idf, косинус между запросом и фрагментом
+     */
+    private scoreByTfIdf(query: string): Array<{ file: string; chunk: IndexedChunk; score: number }> {
+        const data = this.data!;
+        const frequency = this.getDocumentFrequency();
+        const totalChunks = Object.values(data.files).reduce((sum, entry) => sum + entry.chunks.length, 0);
+        const idf = (term: string) => Math.log(1 + totalChunks / (1 + (frequency.get(term) || 0)));
+
+        const queryWeights = new Map<string, number>();
+        for (const term of tokenize(query)) {
+            queryWeights.set(term, (queryWeights.get(term) || 0) + 1);
+        }
+        queryWeights.forEach((count, term) => queryWeights.set(term, (1 + Math.log(count)) * idf(term)));
+        const queryNorm = Math.sqrt(Array.from(queryWeights.values()).reduce((sum, w) => sum + w * w, 0));
+        if (queryNorm === 0) {
+            return [];
+        }
+
+        const results: Array<{ file: string; chunk: IndexedChunk; score: number }> = [];
+        for (const [file, entry] of Object.entries(data.files)) {
+            for (const chunk of entry.chunks) {
+                let dot = 0;
+                let norm = 0;
+                for (const [term, count] of Object.entries(chunk.terms)) {
+                    const weight = (1 + Math.log(count)) * idf(term);
+                    norm += weight * weight;
+                    dot += weight * (queryWeights.get(term) || 0);
+                }
+                if (dot > 0) {
+                    results.push({ file, chunk, score: dot / (Math.sqrt(norm) * queryNorm) });
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Число фрагментов с каждым термом (пересчитывается после изменений индекса)
+     */
+    private getDocumentFrequency(): Map<string, number> {
+        if (!this.documentFrequency) {
+            this.documentFrequency = new Map();
+            for (const entry of Object.values(this.data!.files)) {
+                for (const chunk of entry.chunks) {
+                    for (const term of Object.keys(chunk.terms)) {
+                        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+                    }
+                }
+            }
+        }
+        return this.documentFrequency;
+    }
+
+    private shouldIndex(file: string): boolean {
+        return this.extensions.has(path.extname(file).toLowerCase()) &&
+            !file.split('/').some(segment => segment.startsWith('.') || IGNORED_DIRECTORIES.includes(segment));
+    }
+
+    /**
+     * Обход workspace без служебных директорий
+     */
+    private findFiles(): string[] {
+        const files: string[] = [];
+
+        const walkDir = (dir: string): void => {
+            let entries: fs.Dirent[];
+            try {
+                entries = fs.readdirSync(dir, { withFileTypes: true });
+            } catch {
+                return;
+            }
+
+            for (const entry of entries) {
+                const fullPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    if (!entry.name.startsWith('.') && !IGNORED_DIRECTORIES.includes(entry.name)) {
+                        walkDir(fullPath);
+                    }
+                } else if (entry.isFile() && this.extensions.has(path.extname(entry.name).toLowerCase())) {
+                    files.push(path.relative(this.workspacePath, fullPath).replace(/\\/g, '/'));
+                }
+            }
+        };
+
+        walkDir(this.workspacePath);
+        return files;
+    }
+
+    private readFile(file: string): string | null {
+        try {
+            return fs.readFileSync(path.join(this.workspacePath, file), 'utf-8');
+        } catch {
+            return null;
+        }
+    }
+
+    private loadIndex(): void {
+        if (!this.indexPath || !fs.existsSync(this.indexPath)) {
+            this.data = null;
+            return;
+        }
+
+        try {
+            this.data = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8')) as SemanticIndexData;
+        } catch (error) {
+            console.error('SemanticIndex: Error loading index:', error);
+            this.data = null;
+        }
+    }
+
+    private saveIndex(): void {
+        if (!this.indexPath || !this.data) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+            this.data.lastUpdated = new Date().toISOString();
+            fs.writeFileSync(this.indexPath, JSON.stringify(this.data), 'utf-8');
+        } catch (error) {
+            console.error('SemanticIndex: Error saving index:', error);
+        }
+    }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    const length = Math.min(a.length, b.length);
+
+    for (let i = 0; i < length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -1,8 +1,17 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { TaskQueue, TaskPriority, QueuedTask } from '../agents/worker/task-queue';
+import { JournalTaskQueueStore } from '../agents/worker/task-queue-store';
+import { AgentPerformanceSource, createSchedulerStrategy } from '../agents/worker/task-scheduler';
 import { MessageBus, getGlobalMessageBus } from '../agents/worker/message-bus';
+import { JournalMessageLogStore, MESSAGE_LOG_PATH } from '../agents/worker/message-log-store';
+import { TransportKind } from '../agents/worker/message-transport';
+import { RemoteWorker } from '../agents/worker/remote-worker';
 import { AgentWorker, WorkerConfig, WorkerState } from '../agents/worker/agent-worker';
 import { Task } from './orchestrator';
+import { TaskCancellationRegistry } from './task-cancellation';
+import { TaskPlanner } from './task-planner';
+import { TELEMETRY_METRICS, Telemetry } from '../telemetry/telemetry';
 import { LocalAgent } from '../agents/local-agent';
 import { BackendAgent } from '../agents/backend-agent';
 import { FrontendAgent } from '../agents/frontend-agent';
@@ -41,12 +50,29 @@ export class SwarmOrchestrator {
     private messageBus: MessageBus;
     private workers: Map<string, AgentWorker>;
     private localAgents: Map<string, LocalAgent>;
+    private taskPlanner: TaskPlanner = new TaskPlanner();
+    private remoteWorker?: RemoteWorker;
     private isRunning: boolean = false;
+    private stopObservingQueue?: () => void;
     
     constructor(context: vscode.ExtensionContext, localAgents: Map<string, LocalAgent>) {
         this.context = context;
-        this.taskQueue = new TaskQueue();
+        // Очередь хранится в журнале workspace и переживает перезагрузку окна
+        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const config = vscode.workspace.getConfiguration('cursor-autonomous');
+        this.taskQueue = new TaskQueue(
+            workspacePath
+                ? new JournalTaskQueueStore(path.join(workspacePath, '.cursor', 'config', 'task-queue.jsonl'))
+                : undefined,
+            createSchedulerStrategy(config.get<string>('swarm.scheduler', 'scoring'), {
+                stealAfterMs: config.get<number>('swarm.stealAfterSeconds', 120) * 1000
+            })
+        );
         this.messageBus = getGlobalMessageBus();
+        // Переписка агентов сохраняется для разбора (команда cursor-autonomous.replayMessageLog)
+        if (workspacePath) {
+            this.messageBus.setLogStore(new JournalMessageLogStore(path.join(workspacePath, MESSAGE_LOG_PATH)));
+        }
         this.workers = new Map();
         this.localAgents = localAgents;
     }
@@ -72,6 +98,18 @@ export class SwarmOrchestrator {
         // Запускаем автоматическую очистку старых задач
         this.startCleanupJob();
         
+        // Глубина очереди по приоритетам и задачи в работе для экспорта телеметрии
+        this.stopObservingQueue = Telemetry.getInstance().observe(TELEMETRY_METRICS.queueDepth, () => {
+            const statistics = this.taskQueue.getStatistics();
+            return [
+                ...Object.entries(statistics.byPriority).map(([priority, count]) => ({
+                    attributes: { 'queue.state': 'pending', 'task.priority': priority },
+                    value: count
+                })),
+                { attributes: { 'queue.state': 'processing' }, value: statistics.processing }
+            ];
+        });
+        
         console.log('SwarmOrchestrator: Started with ' + this.workers.size + ' workers');
     }
     
@@ -86,9 +124,12 @@ export class SwarmOrchestrator {
         console.log('SwarmOrchestrator: Stopping...');
         
         this.isRunning = false;
+        this.stopObservingQueue?.();
+        this.stopObservingQueue = undefined;
         
         // Останавливаем всех воркеров
         await this.stopAllWorkers();
+        await this.stopRemoteWorker();
         
         console.log('SwarmOrchestrator: Stopped');
     }
@@ -97,6 +138,8 @@ export class SwarmOrchestrator {
      * Создать воркеров для каждого агента
      */
     private async createWorkers(): Promise<void> {
+        await this.startRemoteWorker();
+        
         const workerConfigs: WorkerConfig[] = [
             {
                 agentId: 'backend',
@@ -161,6 +204,36 @@ export class SwarmOrchestrator {
         }
     }
     
+    /**
+     * Запустить воркер вне потока extension host (настройка cursor-autonomous.swarm.transport)
+     * В нем агенты разбирают ответы LLM; если воркер не запустился, разбор остается в extension host
+     */
+    private async startRemoteWorker(): Promise<void> {
+        const kind = vscode.workspace.getConfiguration('cursor-autonomous').get<TransportKind>('swarm.transport', 'in-process');
+        if (kind === 'in-process' || this.remoteWorker) {
+            return;
+        }
+        
+        const remoteWorker = new RemoteWorker('swarm-worker', kind, this.messageBus);
+        try {
+            await remoteWorker.start();
+            this.remoteWorker = remoteWorker;
+            LocalAgent.setResponseParser(remoteWorker);
+        } catch (error) {
+            console.error(`SwarmOrchestrator: Failed to start ${kind} worker, parsing stays in extension host:`, error);
+            await remoteWorker.stop();
+        }
+    }
+    
+    private async stopRemoteWorker(): Promise<void> {
+        if (!this.remoteWorker) {
+            return;
+        }
+        LocalAgent.setResponseParser(null);
+        await this.remoteWorker.stop();
+        this.remoteWorker = undefined;
+    }
+    
     /**
      * Запустить всех воркеров
      */
@@ -205,11 +278,62 @@ export class SwarmOrchestrator {
         return queuedTask;
     }
     
+    /**
+     * Создать задачу, разбитую планировщиком на DAG подзадач по агентам
+     * Подзадачи одного этапа (например, backend и frontend) воркеры берут параллельно,
+     * следующий этап становится доступен после успешного завершения предыдущего
+     */
+    async createPlannedTask(
+        task: Omit<Task, 'id' | 'status' | 'createdAt'>,
+        priority: TaskPriority = TaskPriority.MEDIUM
+    ): Promise<QueuedTask[]> {
+        const draft: Task = {
+            ...task,
+            id: `plan-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            status: 'pending',
+            createdAt: new Date()
+        };
+        const plan = await this.taskPlanner.planTask(draft);
+        
+        if (plan.subTasks.length <= 1) {
+            return [await this.createTask(task, priority)];
+        }
+        
+        // Шаги плана упорядочены по этапам, поэтому зависимости создаются раньше зависимых
+        const idsByKey = new Map<string, string>();
+        const created: QueuedTask[] = [];
+        for (const subTask of plan.subTasks) {
+            const queuedTask = await this.taskQueue.enqueue({
+                ...task,
+                type: subTask.type,
+                description: subTask.description,
+                assignedAgent: subTask.agent,
+                parentTaskId: draft.id,
+                dependsOn: subTask.dependsOn.map(key => idsByKey.get(key)!).filter(Boolean)
+            }, priority);
+            idsByKey.set(subTask.key, queuedTask.id);
+            created.push(queuedTask);
+        }
+        
+        console.log(`SwarmOrchestrator: Planned task ${draft.id} into ${created.length} subtasks: ` +
+            plan.subTasks.map(subTask => subTask.dependsOn.length > 0 ? `${subTask.dependsOn.join('+')}→${subTask.key}` : subTask.key).join(', '));
+        
+        return created;
+    }
+    
+    /**
+     * Подключить историю агентов (успешность, стоимость модели) к планировщику очереди
+     */
+    setPerformanceSource(source: AgentPerformanceSource): void {
+        this.taskQueue.setPerformanceSource(source);
+    }
+    
     /**
      * Отменить задачу
      */
     async cancelTask(taskId: string, reason?: string): Promise<void> {
         await this.taskQueue.cancel(taskId, reason);
+        TaskCancellationRegistry.getInstance().cancel(taskId, reason);
         console.log(`SwarmOrchestrator: Cancelled task ${taskId}`);
     }
     
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { SettingsManager } from '../integration/settings-manager';
 import { Task } from './orchestrator';
+import { TELEMETRY_METRICS, Telemetry } from '../telemetry/telemetry';
 
 /**
  * Расширенные метрики задачи
@@ -146,6 +147,13 @@ export class TaskAnalytics {
         if (metrics.startedAt) {
             metrics.executionTime = metrics.completedAt.getTime() - metrics.startedAt.getTime();
             metrics.actualTime = metrics.executionTime;
+            Telemetry.getInstance().record(TELEMETRY_METRICS.taskDuration, metrics.executionTime, {
+                'task.type': metrics.type,
+                'task.priority': metrics.priority,
+                'agent.id': metrics.assignedAgent,
+                'task.status': metrics.status,
+                outcome: isSuccessful ? 'ok' : 'error'
+            });
         }
 
         // Перемещаем в историю
@@ -0,0 +1,62 @@
+/**
+ * Реестр отмены задач
+ * Связывает ID задачи с AbortController, сигнал которого передается в вызовы моделей.
+ * Отмена задачи прерывает HTTP запросы к провайдерам, уже находящиеся в полете.
+ */
+
+export class TaskCancellationRegistry {
+    private static instance: TaskCancellationRegistry;
+    private controllers: Map<string, AbortController> = new Map();
+
+    private constructor() {}
+
+    /**
+     * Получить экземпляр реестра (Singleton)
+     */
+    static getInstance(): TaskCancellationRegistry {
+        if (!TaskCancellationRegistry.instance) {
+            TaskCancellationRegistry.instance = new TaskCancellationRegistry();
+        }
+        return TaskCancellationRegistry.instance;
+    }
+
+    /**
+     * Получить сигнал отмены задачи (создается при первом обращении)
+     */
+    getSignal(taskId: string): AbortSignal {
+        let controller = this.controllers.get(taskId);
+        if (!controller) {
+            controller = new AbortController();
+            this.controllers.set(taskId, controller);
+        }
+        return controller.signal;
+    }
+
+    /**
+     * Отменить задачу: все запросы с ее сигналом будут прерваны
+     * Контроллер остается в реестре до release, чтобы новые вызовы тоже получали отмененный сигнал
+     */
+    cancel(taskId: string, reason?: string): void {
+        const controller = this.controllers.get(taskId) || new AbortController();
+        this.controllers.set(taskId, controller);
+
+        if (!controller.signal.aborted) {
+            console.log(`TaskCancellationRegistry: Cancelling task ${taskId}${reason ? ` (${reason})` : ''}`);
+            controller.abort();
+        }
+    }
+
+    /**
+     * Отменена ли задача
+     */
+    isCancelled(taskId: string): boolean {
+        return this.controllers.get(taskId)?.signal.aborted ?? false;
+    }
+
+    /**
+     * Освободить контроллер после завершения задачи
+     */
+    release(taskId: string): void {
+        this.controllers.delete(taskId);
+    }
+}
@@ -2,6 +2,13 @@ import * as vscode from 'vscode';
 import { Task } from './orchestrator';
 import { AgentSolution } from '../agents/local-agent';
 import { CursorAPI } from '../integration/cursor-api';
+import {
+    AcceptanceCriterion,
+    AcceptanceReport,
+    AcceptanceVerifierOptions,
+    normalizeCheck,
+    verifyAcceptanceCriteria
+} from './acceptance-criteria';
 
 /**
  * Результат проверки отклонения
@@ -15,6 +22,8 @@ export interface DeviationResult {
     extraRequirements: string[];
     feedback: string;
     recommendations: string[];
+    // Проверка критериев приемки задачи по workspace
+    acceptance?: AcceptanceReport;
 }
 
 /**
@@ -28,36 +37,55 @@ export class TaskDeviationController {
 
     /**
      * Проверка отклонения решения от исходной задачи
+     * Критерии приемки задачи заменяют извлеченные требования; с workspacePath (решение уже применено)
+     * критерии проверяются их проверками, и уровень отклонения определяется по результату
      */
     async checkDeviation(
         originalTask: Task,
-        solution: AgentSolution
+        solution: AgentSolution,
+        options: AcceptanceVerifierOptions & { workspacePath?: string } = {}
     ): Promise<DeviationResult> {
+        const criteria = originalTask.acceptanceCriteria || [];
+
         // Извлекаем ключевые требования из исходной задачи
-        const keyRequirements = await this.extractKeyRequirements(originalTask);
+        const keyRequirements = criteria.length > 0
+            ? criteria.map(criterion => criterion.description)
+            : await this.extractKeyRequirements(originalTask);
+
+        const acceptance = criteria.length > 0 && options.workspacePath
+            ? await verifyAcceptanceCriteria(criteria, options.workspacePath, options)
+            : undefined;
 
         // Анализируем решение на соответствие требованиям
-        const analysis = await this.analyzeSolutionCompliance(
-            originalTask,
-            solution,
-            keyRequirements
-        );
+        const analysis = acceptance
+            ? {
+                missingRequirements: acceptance.failed.map(result => result.criterion.description),
+                extraRequirements: [],
+                matchedRequirements: acceptance.proven.map(result => result.criterion.description)
+            }
+            : await this.analyzeSolutionCompliance(originalTask, solution, keyRequirements);
 
         // Вычисляем релевантность
         const relevance = await this.calculateRelevance(originalTask, solution);
 
         // Определяем уровень отклонения
-        const deviationLevel = this.determineDeviationLevel(
-            analysis.missingRequirements.length,
-            analysis.extraRequirements.length,
-            relevance
-        );
+        const deviationLevel = acceptance
+            ? this.determineAcceptanceDeviationLevel(acceptance)
+            : this.determineDeviationLevel(
+                analysis.missingRequirements.length,
+                analysis.extraRequirements.length,
+                relevance
+            );
 
         // Генерируем обратную связь
-        const feedback = this.generateFeedback(originalTask, solution, analysis, relevance);
+        const feedback = acceptance
+            ? this.generateAcceptanceFeedback(acceptance)
+            : this.generateFeedback(originalTask, solution, analysis, relevance);
 
         // Генерируем рекомендации
-        const recommendations = this.generateRecommendations(analysis, relevance);
+        const recommendations = acceptance
+            ? this.generateAcceptanceRecommendations(acceptance)
+            : this.generateRecommendations(analysis, relevance);
 
         return {
             hasDeviation: deviationLevel !== 'none',
@@ -67,10 +95,78 @@ export class TaskDeviationController {
             missingRequirements: analysis.missingRequirements,
             extraRequirements: analysis.extraRequirements,
             feedback,
-            recommendations
+            recommendations,
+            acceptance
         };
     }
 
+    /**
+     * Сгенерировать критерии приемки с проверками; критерии требуют подтверждения пользователем
+     */
+    async generateAcceptanceCriteria(task: Pick<Task, 'type' | 'description'>): Promise<AcceptanceCriterion[]> {
+        const config = vscode.workspace.getConfiguration('cursor-autonomous');
+        const useCursorAIFor = config.get<string[]>('useCursorAIFor', []);
+        const apiKey = config.get<string>('apiKey', '');
+        const fallback = () => this.extractRequirementsFallback(task as Task)
+            .map((description, index) => this.toGeneratedCriterion(index, description));
+
+        if (!apiKey || useCursorAIFor.includes('never') || useCursorAIFor.length === 0) {
+            console.log('TaskDeviationController: Using fallback criteria (CursorAI not configured)');
+            return fallback();
+        }
+
+        try {
+            const generatorAgentId = `acceptance-criteria-${Date.now()}`;
+            await CursorAPI.createOrUpdateBackgroundAgent(
+                generatorAgentId,
+                'Критерии приемки',
+                'Специализируется на проверяемых критериях приемки задач',
+                'Твоя задача - сформулировать проверяемые критерии приемки задачи и привязать каждый к автоматической проверке. Верни только JSON.',
+                undefined
+            );
+
+            const prompt = `Сформулируй критерии приемки задачи:
+
+Тип: ${task.type}
+Описание: ${task.description}
+
+Для каждого критерия по возможности укажи проверку одного из видов:
+{"type": "test", "name": "имя теста", "file": "путь к тестовому файлу"}
+{"type": "grep", "files": "glob", "pattern": "регулярное выражение", "absent": false}
+{"type": "ast", "file": "путь к JS/TS файлу", "kind": "function|class|interface|type|method|export", "name": "имя"}
+{"type": "http", "url": "http://localhost:порт/путь", "method": "GET", "status": 200, "contains": "подстрока ответа"}
+{"type": "file", "path": "путь", "absent": false}
+
+Верни JSON массив:
+[{"description": "критерий", "check": {...}}]`;
+
+            const response = await CursorAPI.sendMessageToAgent(generatorAgentId, prompt);
+            const jsonMatch = response.match(/\[[\s\S]*\]/);
+            const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : [];
+            const criteria = (Array.isArray(parsed) ? parsed : [])
+                .filter((item: any) => typeof item?.description === 'string' && item.description.trim())
+                .map((item: any, index: number) => this.toGeneratedCriterion(index, item.description.trim(), item.check));
+
+            return criteria.length > 0 ? criteria : fallback();
+        } catch (error) {
+            console.warn('TaskDeviationController: CursorAPI unavailable, using fallback criteria');
+            return fallback();
+        }
+    }
+
+    private toGeneratedCriterion(index: number, description: string, check?: any): AcceptanceCriterion {
+        let normalized;
+        if (check) {
+            try {
+                normalized = normalizeCheck(check);
+            } catch (error: any) {
+                // Критерий без проверки остается непроверяемым
+                console.warn(`TaskDeviationController: Invalid check for "${description}": ${error.message}`);
+            }
+        }
+        return { id: `criterion-${index + 1}`, description, check: normalized, source: 'generated', confirmed: false };
+    }
+
     /**
      * Извлечение ключевых требований из задачи
      */
@@ -288,6 +384,42 @@ export class TaskDeviationController {
         return 'high';
     }
 
+    /**
+     * Уровень отклонения по критериям приемки: непроверенные критерии - не больше low
+     */
+    private determineAcceptanceDeviationLevel(acceptance: AcceptanceReport): 'none' | 'low' | 'medium' | 'high' {
+        const verified = acceptance.proven.length + acceptance.failed.length;
+        if (acceptance.failed.length === 0) {
+            return acceptance.unverified.length === 0 ? 'none' : 'low';
+        }
+        return acceptance.failed.length * 2 > verified ? 'high' : 'medium';
+    }
+
+    private generateAcceptanceFeedback(acceptance: AcceptanceReport): string {
+        const section = (title: string, results: AcceptanceReport['proven']) => results.length > 0
+            ? [`${title} (${results.length}):`, ...results.map(result => `- ${result.criterion.description}: ${result.detail}`)]
+            : [];
+        return [
+            ...section('Доказаны', acceptance.proven),
+            ...section('Не выполнены', acceptance.failed),
+            ...section('Не проверены', acceptance.unverified)
+        ].join('\n') || 'У задачи нет критериев приемки.';
+    }
+
+    private generateAcceptanceRecommendations(acceptance: AcceptanceReport): string[] {
+        const recommendations: string[] = [];
+        if (acceptance.failed.length > 0) {
+            recommendations.push(`Выполнить критерии приемки: ${acceptance.failed.map(result => result.criterion.description).join(', ')}`);
+        }
+        if (acceptance.unverified.length > 0) {
+            recommendations.push(`Привязать к проверкам или подтвердить критерии: ${acceptance.unverified.map(result => result.criterion.description).join(', ')}`);
+        }
+        if (recommendations.length === 0) {
+            recommendations.push('Все критерии приемки доказаны проверками');
+        }
+        return recommendations;
+    }
+
     /**
      * Генерация обратной связи
      */
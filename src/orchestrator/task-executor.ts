@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import { Task } from './orchestrator';
 import { CursorAPI } from '../integration/cursor-api';
 import { TaskAnalytics } from './task-analytics';
+import { TaskCancellationRegistry } from './task-cancellation';
+import { TaskTransactionManager } from './task-transaction';
 
 /**
  * Результат выполнения задачи
@@ -330,6 +332,8 @@ export class TaskExecutor {
 
             const startTime = Date.now();
             const changedFiles = new Set<string>();
+            // Правки чата CursorAI проходят мимо MCPClient: отмечаем их в транзакции задачи для отката
+            const transaction = TaskTransactionManager.getInstance().get(task.id);
             let lastChangeTime = startTime;
             const checkInterval = 5000; // Проверка каждые 5 секунд
             const inactivityTimeout = 300000; // 5 минут без изменений = завершение
@@ -340,18 +344,21 @@ export class TaskExecutor {
 
             watcher.onDidCreate((uri) => {
                 changedFiles.add(uri.fsPath);
+                transaction?.recordExternalChange(uri.fsPath, 'created');
                 lastChangeTime = Date.now();
                 console.log(`TaskExecutor: File created: ${uri.fsPath}`);
             });
 
             watcher.onDidChange((uri) => {
                 changedFiles.add(uri.fsPath);
+                transaction?.recordExternalChange(uri.fsPath, 'changed');
                 lastChangeTime = Date.now();
                 console.log(`TaskExecutor: File changed: ${uri.fsPath}`);
             });
 
             watcher.onDidDelete((uri) => {
                 changedFiles.add(uri.fsPath);
+                transaction?.recordExternalChange(uri.fsPath, 'deleted');
                 lastChangeTime = Date.now();
                 console.log(`TaskExecutor: File deleted: ${uri.fsPath}`);
             });
@@ -433,6 +440,9 @@ export class TaskExecutor {
      * Отмена выполнения задачи
      */
     cancelTaskExecution(taskId: string): void {
+        // Прерываем запросы к моделям, которые агенты выполняют по этой задаче
+        TaskCancellationRegistry.getInstance().cancel(taskId, 'task execution cancelled');
+
         const intervalId = this.activeExecutions.get(taskId);
         if (intervalId) {
             clearInterval(intervalId);
@@ -1,16 +1,50 @@
 import { Task } from './orchestrator';
 import { AgentManager } from './agent-manager';
 
+/**
+ * Подзадача плана: key - локальный ключ шага, dependsOn - ключи шагов, которые должны завершиться раньше
+ */
+export interface PlannedSubTask {
+    key: string;
+    agent: string;
+    type: Task['type'];
+    description: string;
+    dependsOn: string[];
+}
+
+/**
+ * План выполнения задачи - DAG подзадач по агентам
+ */
+export interface TaskPlan {
+    taskId: string;
+    subTasks: PlannedSubTask[];
+}
+
+/**
+ * Формулировка работы агента в подзадаче
+ */
+const AGENT_STEP_DESCRIPTIONS: { [agent: string]: string } = {
+    architect: 'Спроектировать решение и определить затрагиваемые модули',
+    backend: 'Реализовать серверную часть',
+    frontend: 'Реализовать пользовательский интерфейс',
+    qa: 'Проверить изменения и дописать тесты',
+    devops: 'Обновить сборку, конфигурацию и деплой',
+    analyst: 'Проанализировать проблему и метрики'
+};
+
 export class TaskPlanner {
     /**
      * Планирование выполнения задачи
+     * Назначает задачу первому агенту и возвращает план - DAG подзадач: агенты одного этапа
+     * работают параллельно, каждый этап зависит от всех подзадач предыдущего
      */
-    async planTask(task: Task, agentManager: AgentManager): Promise<void> {
+    async planTask(task: Task, agentManager?: AgentManager): Promise<TaskPlan> {
         console.log(`Planning task: ${task.id} - ${task.type}`);
 
-        // Определение последовательности агентов для задачи
-        const agentSequence = this.determineAgentSequence(task);
-        
+        // Определение этапов агентов для задачи
+        const stages = this.determineAgentStages(task);
+        const agentSequence = stages.reduce<string[]>((all, stage) => all.concat(stage), []);
+
         // Назначение задачи первому агенту в последовательности
         if (agentSequence.length > 0) {
             task.assignedAgent = agentSequence[0];
@@ -18,28 +52,44 @@ export class TaskPlanner {
         }
 
         console.log(`Task ${task.id} assigned to ${task.assignedAgent}`);
+
+        const subTasks: PlannedSubTask[] = [];
+        stages.forEach((stage, index) => {
+            const previous = index > 0 ? stages[index - 1] : [];
+            for (const agent of stage) {
+                subTasks.push({
+                    key: agent,
+                    agent,
+                    type: task.type,
+                    description: `${AGENT_STEP_DESCRIPTIONS[agent] || 'Выполнить свою часть задачи'}: ${task.description}`,
+                    dependsOn: [...previous]
+                });
+            }
+        });
+
+        return { taskId: task.id, subTasks };
     }
 
     /**
-     * Определение последовательности агентов для задачи
+     * Этапы агентов для задачи
      */
-    private determineAgentSequence(task: Task): string[] {
+    private determineAgentStages(task: Task): string[][] {
         switch (task.type) {
             case 'feature':
-                return ['architect', 'backend', 'frontend', 'qa'];
+                return [['architect'], ['backend', 'frontend'], ['qa'], ['devops']];
             case 'bug':
-                return ['backend', 'qa', 'analyst'];
+                return [['backend'], ['qa'], ['analyst']];
             case 'improvement':
-                return ['analyst', 'backend', 'devops'];
+                return [['analyst'], ['backend'], ['devops']];
             case 'refactoring':
-                return ['architect', 'backend', 'qa'];
+                return [['architect'], ['backend'], ['qa']];
             case 'documentation':
-                return ['architect'];
+                return [['architect']];
             case 'quality-check':
                 // Для проверки качества оркестратор сам распределит задачи
-                return ['orchestrator'];
+                return [['orchestrator']];
             default:
-                return ['backend'];
+                return [['backend']];
         }
     }
 }
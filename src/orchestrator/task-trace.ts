@@ -0,0 +1,458 @@
+/**
+ * Трассировка выполнения задач
+ * Дерево спанов задачи (планирование → мозговой штурм → оценка → доработка → применение → проверка качества)
+ * с вызовами моделей и инструментов сохраняется в .cursor/traces/<id задачи>.jsonl;
+ * завершенные спаны также передаются в телеметрию (экспорт OTLP)
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { Attributes } from '../telemetry/otlp';
+import { Telemetry, toOtlpTraceId } from '../telemetry/telemetry';
+
+export type TraceSpanKind =
+    | 'task'
+    | 'planning'
+    | 'brainstorming'
+    | 'evaluation'
+    | 'refinement'
+    | 'apply'
+    | 'quality-check'
+    | 'acceptance'
+    | 'llm'
+    | 'tool'
+    | 'replay';
+
+export type TraceStatus = 'ok' | 'error';
+
+export interface TraceEvent {
+    name: string;
+    time: string;
+    attributes?: Record<string, any>;
+}
+
+/**
+ * Запись журнала трассы: начало спана, событие в спане, завершение спана
+ */
+export type TraceRecord =
+    | { op: 'start'; spanId: string; parentSpanId?: string; kind: TraceSpanKind; name: string; time: string; attributes?: Record<string, any> }
+    | { op: 'event'; spanId: string; event: TraceEvent }
+    | { op: 'end'; spanId: string; time: string; status: TraceStatus; attributes?: Record<string, any> };
+
+/**
+ * Спан, восстановленный из журнала; running - спан не завершен (окно закрылось во время задачи)
+ */
+export interface TraceSpan {
+    spanId: string;
+    parentSpanId?: string;
+    kind: TraceSpanKind;
+    name: string;
+    startTime: string;
+    endTime?: string;
+    durationMs?: number;
+    status: TraceStatus | 'running';
+    attributes: Record<string, any>;
+    events: TraceEvent[];
+    children: TraceSpan[];
+}
+
+export interface TraceSummary {
+    traceId: string;
+    kind: TraceSpanKind;
+    name: string;
+    startTime: string;
+    updatedAt: string;
+}
+
+/**
+ * Хранилище трасс (по файлу на трассу)
+ */
+export interface TraceStore {
+    load(traceId: string): TraceRecord[];
+    append(traceId: string, record: TraceRecord): void;
+    list(): TraceSummary[];
+}
+
+/**
+ * Спан в процессе записи
+ */
+export interface TraceSpanHandle {
+    readonly spanId: string;
+    event(name: string, attributes?: Record<string, any>): void;
+    setAttributes(attributes: Record<string, any>): void;
+    end(status?: TraceStatus, attributes?: Record<string, any>): void;
+}
+
+/**
+ * Каталог трасс относительно корня workspace
+ */
+export const TRACES_DIR = '.cursor/traces';
+
+// Промпты сохраняются целиком (нужны для повтора), но не больше этого размера
+const MAX_ATTRIBUTE_CHARS = 100000;
+
+// Атрибуты трасс, у которых есть имена в семантических соглашениях OpenTelemetry
+const SEMANTIC_ATTRIBUTES: Record<string, string> = {
+    provider: 'gen_ai.system',
+    model: 'gen_ai.request.model',
+    inputTokens: 'gen_ai.usage.input_tokens',
+    outputTokens: 'gen_ai.usage.output_tokens',
+    agentId: 'agent.id'
+};
+
+const NOOP_SPAN: TraceSpanHandle = {
+    spanId: '',
+    event: () => undefined,
+    setAttributes: () => undefined,
+    end: () => undefined
+};
+
+/**
+ * Восстановить дерево спанов; у трассы может быть несколько корней (повторные запуски задачи)
+ */
+export function buildTraceTree(records: TraceRecord[]): TraceSpan[] {
+    const spans = new Map<string, TraceSpan>();
+    for (const record of records) {
+        if (record.op === 'start') {
+            spans.set(record.spanId, {
+                spanId: record.spanId,
+                parentSpanId: record.parentSpanId,
+                kind: record.kind,
+                name: record.name,
+                startTime: record.time,
+                status: 'running',
+                attributes: { ...record.attributes },
+                events: [],
+                children: []
+            });
+            continue;
+        }
+
+        const span = spans.get(record.spanId);
+        if (!span) {
+            continue;
+        }
+        if (record.op === 'event') {
+            span.events.push(record.event);
+        } else {
+            span.endTime = record.time;
+            span.durationMs = new Date(record.time).getTime() - new Date(span.startTime).getTime();
+            span.status = record.status;
+            Object.assign(span.attributes, record.attributes);
+        }
+    }
+
+    const roots: TraceSpan[] = [];
+    for (const span of spans.values()) {
+        const parent = span.parentSpanId ? spans.get(span.parentSpanId) : undefined;
+        (parent ? parent.children : roots).push(span);
+    }
+    return roots;
+}
+
+/**
+ * Все спаны дерева в порядке обхода в глубину
+ */
+export function flattenTrace(spans: TraceSpan[]): TraceSpan[] {
+    return spans.flatMap(span => [span, ...flattenTrace(span.children)]);
+}
+
+/**
+ * Трассы в JSONL файлах каталога (.cursor/traces)
+ */
+export class JournalTraceStore implements TraceStore {
+    constructor(private dir: string) {}
+
+    load(traceId: string): TraceRecord[] {
+        const filePath = this.getPath(traceId);
+        if (!fs.existsSync(filePath)) {
+            return [];
+        }
+
+        const records: TraceRecord[] = [];
+        for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                records.push(JSON.parse(line));
+            } catch (error) {
+                // Оборванная запись (падение окна во время записи) пропускается
+            }
+        }
+        return records;
+    }
+
+    append(traceId: string, record: TraceRecord): void {
+        fs.mkdirSync(this.dir, { recursive: true });
+        fs.appendFileSync(this.getPath(traceId), JSON.stringify(record) + '\n', 'utf-8');
+    }
+
+    /**
+     * Трассы от новых к старым
+     */
+    list(): TraceSummary[] {
+        if (!fs.existsSync(this.dir)) {
+            return [];
+        }
+
+        const summaries: TraceSummary[] = [];
+        for (const file of fs.readdirSync(this.dir).filter(name => name.endsWith('.jsonl'))) {
+            const filePath = path.join(this.dir, file);
+            try {
+                const firstLine = fs.readFileSync(filePath, 'utf-8').split('\n', 1)[0];
+                const root: TraceRecord = JSON.parse(firstLine);
+                if (root.op !== 'start') {
+                    continue;
+                }
+                summaries.push({
+                    traceId: file.replace(/\.jsonl$/, ''),
+                    kind: root.kind,
+                    name: root.name,
+                    startTime: root.time,
+                    updatedAt: fs.statSync(filePath).mtime.toISOString()
+                });
+            } catch (error) {
+                console.debug(`JournalTraceStore: Skipping ${file}`);
+            }
+        }
+        return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    private getPath(traceId: string): string {
+        return path.join(this.dir, `${traceId.replace(/[^\w.-]/g, '_')}.jsonl`);
+    }
+}
+
+/**
+ * Запись трасс задач
+ * Фазы задачи выполняются последовательно: новые спаны задачи по умолчанию вкладываются в последнюю открытую фазу
+ */
+export class TaskTracer {
+    private static instance: TaskTracer;
+    private openSpans: Map<string, string[]> = new Map(); // traceId -> стек открытых фаз (корень первый)
+    // Начатые спаны для телеметрии (только при включенном экспорте)
+    private exportedSpans: Map<string, { traceId: string; start: Extract<TraceRecord, { op: 'start' }>; events: TraceEvent[] }> = new Map();
+
+    constructor(private store: TraceStore | null, private telemetry: Telemetry = Telemetry.getInstance()) {}
+
+    /**
+     * Получить трассировщик текущего workspace (Singleton)
+     */
+    static getInstance(): TaskTracer {
+        if (!TaskTracer.instance) {
+            const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            TaskTracer.instance = new TaskTracer(workspacePath ? new JournalTraceStore(path.join(workspacePath, TRACES_DIR)) : null);
+        }
+        return TaskTracer.instance;
+    }
+
+    getStore(): TraceStore | null {
+        return this.store;
+    }
+
+    isTracing(traceId: string): boolean {
+        return this.openSpans.has(traceId);
+    }
+
+    /**
+     * Начать трассу (корневой спан); уже открытая трасса не перезапускается
+     */
+    startTrace(traceId: string, name: string, attributes?: Record<string, any>, kind: TraceSpanKind = 'task'): void {
+        if (!this.store || this.openSpans.has(traceId)) {
+            return;
+        }
+        const spanId = this.write(traceId, { op: 'start', spanId: createSpanId(), kind, name, time: new Date().toISOString(), attributes });
+        this.openSpans.set(traceId, [spanId]);
+    }
+
+    /**
+     * Завершить трассу: закрываются все открытые фазы и корень
+     */
+    endTrace(traceId: string, status: TraceStatus, attributes?: Record<string, any>): void {
+        const stack = this.openSpans.get(traceId);
+        if (!stack) {
+            return;
+        }
+        this.openSpans.delete(traceId);
+        while (stack.length > 0) {
+            const spanId = stack.pop()!;
+            this.write(traceId, { op: 'end', spanId, time: new Date().toISOString(), status, attributes: stack.length === 0 ? attributes : undefined });
+        }
+    }
+
+    /**
+     * Начать спан в трассе; без открытой трассы возвращается спан, который ничего не записывает
+     * phase - спан становится родителем следующих спанов трассы до своего завершения
+     */
+    startSpan(
+        traceId: string | undefined,
+        kind: TraceSpanKind,
+        name: string,
+        attributes?: Record<string, any>,
+        options: { phase?: boolean; parentSpanId?: string } = {}
+    ): TraceSpanHandle {
+        const stack = traceId ? this.openSpans.get(traceId) : undefined;
+        if (!traceId || !stack) {
+            return NOOP_SPAN;
+        }
+
+        const spanId = this.write(traceId, {
+            op: 'start',
+            spanId: createSpanId(),
+            parentSpanId: options.parentSpanId || stack[stack.length - 1],
+            kind,
+            name,
+            time: new Date().toISOString(),
+            attributes
+        });
+        if (options.phase) {
+            stack.push(spanId);
+        }
+
+        let pending: Record<string, any> = {};
+        let ended = false;
+        return {
+            spanId,
+            event: (eventName, eventAttributes) => {
+                this.write(traceId, { op: 'event', spanId, event: { name: eventName, time: new Date().toISOString(), attributes: eventAttributes } });
+            },
+            setAttributes: values => {
+                pending = { ...pending, ...values };
+            },
+            end: (status = 'ok', endAttributes) => {
+                if (ended) {
+                    return;
+                }
+                ended = true;
+                const index = stack.lastIndexOf(spanId);
+                if (index > 0) {
+                    stack.splice(index, 1);
+                }
+                const values = { ...pending, ...endAttributes };
+                this.write(traceId, {
+                    op: 'end', spanId, time: new Date().toISOString(), status,
+                    attributes: Object.keys(values).length > 0 ? values : undefined
+                });
+            }
+        };
+    }
+
+    /**
+     * Выполнить фазу задачи в спане; исключение завершает спан с ошибкой и пробрасывается дальше
+     */
+    async span<T>(
+        traceId: string,
+        kind: TraceSpanKind,
+        name: string,
+        work: (span: TraceSpanHandle) => Promise<T>,
+        attributes?: Record<string, any>
+    ): Promise<T> {
+        const span = this.startSpan(traceId, kind, name, attributes, { phase: true });
+        try {
+            const result = await work(span);
+            span.end('ok');
+            return result;
+        } catch (error: any) {
+            span.end('error', { error: error?.message || String(error) });
+            throw error;
+        }
+    }
+
+    /**
+     * Событие в текущей фазе трассы
+     */
+    event(traceId: string, name: string, attributes?: Record<string, any>): void {
+        const stack = this.openSpans.get(traceId);
+        if (stack) {
+            this.write(traceId, { op: 'event', spanId: stack[stack.length - 1], event: { name, time: new Date().toISOString(), attributes } });
+        }
+    }
+
+    private write(traceId: string, record: TraceRecord): string {
+        if ('attributes' in record && record.attributes) {
+            record.attributes = truncateAttributes(record.attributes);
+        }
+        if (record.op === 'event' && record.event.attributes) {
+            record.event.attributes = truncateAttributes(record.event.attributes);
+        }
+        try {
+            this.store?.append(traceId, record);
+        } catch (error) {
+            // Трассировка не должна прерывать выполнение задачи
+            console.error(`TaskTracer: Could not write trace ${traceId}:`, error);
+        }
+        this.exportSpan(traceId, record);
+        return record.spanId;
+    }
+
+    /**
+     * Передать завершенный спан в телеметрию
+     */
+    private exportSpan(traceId: string, record: TraceRecord): void {
+        if (record.op === 'start') {
+            if (this.telemetry.isEnabled()) {
+                this.exportedSpans.set(record.spanId, { traceId, start: record, events: [] });
+            }
+            return;
+        }
+
+        const exported = this.exportedSpans.get(record.spanId);
+        if (!exported) {
+            return;
+        }
+        if (record.op === 'event') {
+            exported.events.push(record.event);
+            return;
+        }
+
+        this.exportedSpans.delete(record.spanId);
+        const { start, events } = exported;
+        const attributes = { ...start.attributes, ...record.attributes };
+        this.telemetry.recordSpan({
+            traceId: toOtlpTraceId(traceId),
+            spanId: record.spanId,
+            parentSpanId: start.parentSpanId,
+            name: start.name,
+            kind: start.kind === 'llm' ? 'client' : 'internal',
+            startTime: Date.parse(start.time),
+            endTime: Date.parse(record.time),
+            status: record.status,
+            statusMessage: typeof attributes.error === 'string' ? attributes.error : undefined,
+            attributes: { 'task.trace_id': traceId, 'task.span_kind': start.kind, ...toTelemetryAttributes(attributes) },
+            events: events.map(event => ({ name: event.name, time: Date.parse(event.time), attributes: toTelemetryAttributes(event.attributes || {}) }))
+        });
+    }
+}
+
+function createSpanId(): string {
+    return randomBytes(8).toString('hex');
+}
+
+function toTelemetryAttributes(attributes: Record<string, any>): Attributes {
+    const result: Attributes = {};
+    for (const [key, value] of Object.entries(attributes)) {
+        if (value === undefined || value === null) {
+            continue;
+        }
+        const isPrimitive = ['string', 'number', 'boolean'].includes(typeof value);
+        const isStringArray = Array.isArray(value) && value.every(item => typeof item === 'string');
+        result[SEMANTIC_ATTRIBUTES[key] || key] = isPrimitive || isStringArray ? value : JSON.stringify(value);
+    }
+    return result;
+}
+
+function truncateAttributes(attributes: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(attributes)) {
+        if (value === undefined) {
+            continue;
+        }
+        result[key] = typeof value === 'string' && value.length > MAX_ATTRIBUTE_CHARS
+            ? value.substring(0, MAX_ATTRIBUTE_CHARS) + `… (+${value.length - MAX_ATTRIBUTE_CHARS})`
+            : value;
+    }
+    return result;
+}
@@ -0,0 +1,480 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execFile } from 'child_process';
+import { IGNORED_DIRECTORIES } from './project-dependency-graph';
+
+/**
+ * Состояние транзакции задачи
+ */
+export type TransactionStatus = 'active' | 'committed' | 'rolled-back';
+
+/**
+ * Снимок файла до изменений задачи
+ */
+export interface FileSnapshot {
+    path: string;
+    existed: boolean;
+    // Исходное содержимое (base64); если снимок не успели сделать до записи - восстанавливается из baseRef
+    content?: string;
+    // Хеш содержимого на момент фиксации; null - файл удален задачей
+    afterHash?: string | null;
+    // Изменение замечено вне расширения (чат CursorAI); afterHash - последнее замеченное содержимое
+    external?: boolean;
+}
+
+/**
+ * Транзакция изменений файлов одной задачи
+ */
+export interface TaskTransactionRecord {
+    taskId: string;
+    status: TransactionStatus;
+    startedAt: string;
+    finishedAt?: string;
+    // Коммит git с состоянием рабочей копии до задачи (git stash create или HEAD)
+    baseRef?: string;
+    files: FileSnapshot[];
+}
+
+/**
+ * Результат отката задачи
+ */
+export interface RollbackResult {
+    taskId: string;
+    restored: string[];
+    // Файлы, измененные после задачи: без force не откатываются
+    conflicts: string[];
+    // Файлы, исходное содержимое которых неизвестно
+    failed: string[];
+}
+
+const MAX_STORED_TRANSACTIONS = 50;
+const GIT_TIMEOUT_MS = 10000;
+
+/**
+ * Открытый в редакторе документ файла (абсолютный путь)
+ */
+export function findOpenDocument(fullPath: string): vscode.TextDocument | undefined {
+    const resolved = path.resolve(fullPath);
+    return vscode.workspace.textDocuments.find(document => path.resolve(document.uri.fsPath) === resolved);
+}
+
+/**
+ * Текущее содержимое файла: текст открытого документа (с несохраненными правками) или файл на диске;
+ * null - файла нет
+ */
+export function readCurrentText(fullPath: string): string | null {
+    const document = findOpenDocument(fullPath);
+    if (document?.isDirty) {
+        return document.getText();
+    }
+    return fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : null;
+}
+
+/**
+ * Хеш содержимого файла на диске (абсолютный путь); null - файла нет
+ */
+function hashFileContent(fullPath: string): string | null {
+    if (!fs.existsSync(fullPath)) {
+        return null;
+    }
+    return crypto.createHash('sha1').update(fs.readFileSync(fullPath)).digest('hex');
+}
+
+/**
+ * Сохранить несохраненные правки открытых документов файлов (пути относительно workspace)
+ * перед запуском внешних процессов, которые читают файлы с диска (тесты, анализаторы)
+ */
+export async function saveOpenDocuments(workspacePath: string, filePaths: string[]): Promise<void> {
+    for (const filePath of new Set(filePaths)) {
+        const document = findOpenDocument(path.join(workspacePath, filePath));
+        if (document?.isDirty && !await document.save()) {
+            console.warn(`TaskTransaction: Failed to save ${filePath}`);
+        }
+    }
+}
+
+/**
+ * Транзакция задачи: снимки файлов перед первой записью
+ * MCPClient вызывает capture перед каждым изменением файла, TaskExecutor отмечает
+ * изменения, сделанные вне расширения (чат CursorAI), через recordExternalChange
+ */
+export class TaskTransaction {
+    constructor(
+        readonly record: TaskTransactionRecord,
+        private workspacePath: string,
+        private save: (record: TaskTransactionRecord) => void
+    ) {}
+
+    get taskId(): string {
+        return this.record.taskId;
+    }
+
+    /**
+     * Снимок файла перед записью (только первый раз за транзакцию)
+     */
+    capture(filePath: string): void {
+        const relative = this.toTrackedPath(filePath);
+        if (!relative) {
+            return;
+        }
+
+        const fullPath = path.join(this.workspacePath, relative);
+        const existed = fs.existsSync(fullPath);
+        this.record.files.push({
+            path: relative,
+            existed,
+            content: existed ? fs.readFileSync(fullPath).toString('base64') : undefined
+        });
+        this.save(this.record);
+    }
+
+    /**
+     * Изменение, замеченное после записи: исходное содержимое берется из baseRef при откате.
+     * Запоминается хеш замеченного содержимого - откат не трогает файл, если его изменили после этого
+     * (в том числе правки пользователя, попавшие в окно наблюдения за задачей)
+     */
+    recordExternalChange(filePath: string, kind: 'created' | 'changed' | 'deleted'): void {
+        const relative = this.toRelativePath(filePath);
+        if (!relative) {
+            return;
+        }
+
+        const afterHash = hashFileContent(path.join(this.workspacePath, relative));
+        const existing = this.record.files.find(file => file.path === relative);
+        if (existing) {
+            if (!existing.external) {
+                return;
+            }
+            existing.afterHash = afterHash;
+        } else {
+            this.record.files.push({ path: relative, existed: kind !== 'created', afterHash, external: true });
+        }
+        this.save(this.record);
+    }
+
+    private toTrackedPath(filePath: string): string | null {
+        const relative = this.toRelativePath(filePath);
+        if (!relative || this.record.files.some(file => file.path === relative)) {
+            return null;
+        }
+        return relative;
+    }
+
+    private toRelativePath(filePath: string): string | null {
+        if (this.record.status !== 'active' || !this.workspacePath) {
+            return null;
+        }
+
+        const relative = (path.isAbsolute(filePath) ? path.relative(this.workspacePath, filePath) : filePath).replace(/\\/g, '/');
+        if (relative.startsWith('../') || relative.split('/').some(segment => segment === '.git' || segment === '.cursor' || IGNORED_DIRECTORIES.includes(segment))) {
+            return null;
+        }
+        return relative;
+    }
+}
+
+/**
+ * Менеджер транзакций задач
+ * Транзакции хранятся в .cursor/config/transactions/<taskId>.json, поэтому завершенную задачу
+ * можно откатить и после перезапуска (команда cursor-autonomous.rollbackTask)
+ */
+export class TaskTransactionManager {
+    private static instance: TaskTransactionManager;
+    private transactions: Map<string, TaskTransaction> = new Map();
+    private storageDir: string;
+
+    constructor(private workspacePath: string) {
+        this.storageDir = workspacePath
+            ? path.join(workspacePath, '.cursor', 'config', 'transactions')
+            : '';
+    }
+
+    /**
+     * Получить менеджер транзакций текущего workspace (Singleton)
+     */
+    static getInstance(): TaskTransactionManager {
+        if (!TaskTransactionManager.instance) {
+            TaskTransactionManager.instance = new TaskTransactionManager(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '');
+        }
+        return TaskTransactionManager.instance;
+    }
+
+    /**
+     * Начать транзакцию задачи; активная транзакция (повторный вызов внутри выполнения) переиспользуется
+     */
+    async begin(taskId: string): Promise<TaskTransaction> {
+        const existing = this.get(taskId);
+        if (existing && existing.record.status === 'active') {
+            return existing;
+        }
+
+        const record: TaskTransactionRecord = {
+            taskId,
+            status: 'active',
+            startedAt: new Date().toISOString(),
+            baseRef: await this.resolveBaseRef(),
+            files: []
+        };
+        const transaction = this.createTransaction(record);
+        this.transactions.set(taskId, transaction);
+        this.save(record);
+        return transaction;
+    }
+
+    /**
+     * Транзакция задачи (из памяти или из хранилища)
+     */
+    get(taskId: string): TaskTransaction | undefined {
+        const cached = this.transactions.get(taskId);
+        if (cached) {
+            return cached;
+        }
+
+        const record = this.load(taskId);
+        if (!record) {
+            return undefined;
+        }
+        const transaction = this.createTransaction(record);
+        this.transactions.set(taskId, transaction);
+        return transaction;
+    }
+
+    /**
+     * Зафиксировать изменения задачи: запоминаем итоговое состояние файлов для проверки конфликтов при откате
+     */
+    commit(taskId: string): void {
+        const transaction = this.get(taskId);
+        if (!transaction || transaction.record.status !== 'active') {
+            return;
+        }
+
+        const record = transaction.record;
+        for (const file of record.files.filter(file => !file.external)) {
+            file.afterHash = this.hashFile(file.path);
+        }
+        record.status = 'committed';
+        record.finishedAt = new Date().toISOString();
+        this.save(record);
+        this.prune();
+
+        console.log(`TaskTransactionManager: Committed ${record.files.length} files of task ${taskId}`);
+    }
+
+    /**
+     * Откатить изменения задачи
+     * Файлы, измененные после фиксации задачи, пропускаются как конфликты, если не указан force;
+     * внешние изменения, содержимое которых отличается от замеченного во время задачи, - конфликты и с force.
+     * Транзакция считается откаченной, когда восстановлены все файлы
+     */
+    async rollback(taskId: string, force: boolean = false): Promise<RollbackResult> {
+        const transaction = this.get(taskId);
+        if (!transaction || transaction.record.status === 'rolled-back') {
+            throw new Error(`Нет изменений для отката по задаче ${taskId}`);
+        }
+
+        const record = transaction.record;
+        const result: RollbackResult = { taskId, restored: [], conflicts: [], failed: [] };
+
+        for (const file of [...record.files].reverse()) {
+            if (file.external ? this.isChangedExternally(file) : record.status === 'committed' && !force && this.hashFile(file.path) !== file.afterHash) {
+                result.conflicts.push(file.path);
+                continue;
+            }
+
+            try {
+                if (await this.restoreFile(file, record.baseRef)) {
+                    result.restored.push(file.path);
+                } else {
+                    result.failed.push(file.path);
+                }
+            } catch (error: any) {
+                console.error(`TaskTransactionManager: Failed to restore ${file.path}:`, error);
+                result.failed.push(file.path);
+            }
+        }
+
+        record.files = record.files.filter(file => !result.restored.includes(file.path));
+        if (record.files.length === 0) {
+            record.status = 'rolled-back';
+            record.finishedAt = new Date().toISOString();
+        }
+        this.save(record);
+
+        console.log(`TaskTransactionManager: Rolled back task ${taskId}: restored ${result.restored.length}, ` +
+            `conflicts ${result.conflicts.length}, failed ${result.failed.length}`);
+        return result;
+    }
+
+    /**
+     * Транзакции, которые можно откатить (новые первыми)
+     */
+    list(): TaskTransactionRecord[] {
+        const records = new Map<string, TaskTransactionRecord>();
+
+        if (this.storageDir && fs.existsSync(this.storageDir)) {
+            for (const file of fs.readdirSync(this.storageDir)) {
+                if (file.endsWith('.json')) {
+                    const record = this.load(path.basename(file, '.json'));
+                    if (record) {
+                        records.set(record.taskId, record);
+                    }
+                }
+            }
+        }
+        for (const transaction of this.transactions.values()) {
+            records.set(transaction.taskId, transaction.record);
+        }
+
+        return Array.from(records.values())
+            .filter(record => record.status !== 'rolled-back' && record.files.length > 0)
+            .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    }
+
+    /**
+     * Восстановить файл на диске; открытый документ файла приводится к восстановленному содержимому,
+     * иначе несохраненный буфер с изменениями задачи вернет их при следующем сохранении
+     */
+    private async restoreFile(file: FileSnapshot, baseRef?: string): Promise<boolean> {
+        const fullPath = path.join(this.workspacePath, file.path);
+        const document = findOpenDocument(fullPath);
+
+        if (!file.existed) {
+            if (document) {
+                // Удаление через редактор отбрасывает и несохраненный буфер документа
+                const edit = new vscode.WorkspaceEdit();
+                edit.deleteFile(document.uri, { ignoreIfNotExists: true });
+                await vscode.workspace.applyEdit(edit);
+            }
+            if (fs.existsSync(fullPath)) {
+                fs.unlinkSync(fullPath);
+            }
+            return true;
+        }
+
+        let content: Buffer | null = file.content !== undefined ? Buffer.from(file.content, 'base64') : null;
+        if (!content && baseRef) {
+            content = await this.git(['show', `${baseRef}:${file.path}`]);
+        }
+        if (!content) {
+            return false;
+        }
+
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+        if (document) {
+            await this.reloadDocument(document, content.toString('utf-8'));
+        }
+        return true;
+    }
+
+    /**
+     * Заменить текст открытого документа восстановленным и сохранить (документ остается без несохраненных правок)
+     */
+    private async reloadDocument(document: vscode.TextDocument, content: string): Promise<void> {
+        if (!document.isDirty && document.getText() === content) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), content);
+        if (!await vscode.workspace.applyEdit(edit) || !await document.save()) {
+            console.warn(`TaskTransactionManager: Open document ${document.uri.fsPath} was not reloaded`);
+        }
+    }
+
+    /**
+     * Состояние рабочей копии до задачи: git stash create сохраняет незакоммиченные изменения,
+     * не трогая рабочую копию; без изменений возвращает пустую строку - тогда берем HEAD
+     */
+    private async resolveBaseRef(): Promise<string | undefined> {
+        if (!this.workspacePath || !fs.existsSync(path.join(this.workspacePath, '.git'))) {
+            return undefined;
+        }
+
+        const stash = (await this.git(['stash', 'create']))?.toString().trim();
+        if (stash) {
+            return stash;
+        }
+        return (await this.git(['rev-parse', 'HEAD']))?.toString().trim() || undefined;
+    }
+
+    private git(args: string[]): Promise<Buffer | null> {
+        return new Promise(resolve => {
+            execFile('git', args, { cwd: this.workspacePath, encoding: 'buffer', timeout: GIT_TIMEOUT_MS, maxBuffer: 64 * 1024 * 1024 },
+                (error, stdout) => resolve(error ? null : stdout));
+        });
+    }
+
+    private hashFile(relativePath: string): string | null {
+        return hashFileContent(path.join(this.workspacePath, relativePath));
+    }
+
+    /**
+     * Внешнее изменение, которое задача не производила: файл на диске или его открытый документ
+     * отличается от содержимого, замеченного во время задачи
+     */
+    private isChangedExternally(file: FileSnapshot): boolean {
+        const fullPath = path.join(this.workspacePath, file.path);
+        return this.hashFile(file.path) !== file.afterHash || !!findOpenDocument(fullPath)?.isDirty;
+    }
+
+    private createTransaction(record: TaskTransactionRecord): TaskTransaction {
+        return new TaskTransaction(record, this.workspacePath, saved => this.save(saved));
+    }
+
+    private recordPath(taskId: string): string {
+        return path.join(this.storageDir, `${taskId.replace(/[^\w.-]/g, '_')}.json`);
+    }
+
+    private load(taskId: string): TaskTransactionRecord | null {
+        if (!this.storageDir) {
+            return null;
+        }
+
+        try {
+            const filePath = this.recordPath(taskId);
+            return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TaskTransactionRecord : null;
+        } catch (error) {
+            console.error(`TaskTransactionManager: Failed to load transaction ${taskId}:`, error);
+            return null;
+        }
+    }
+
+    private save(record: TaskTransactionRecord): void {
+        if (!this.storageDir) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(this.storageDir, { recursive: true });
+            fs.writeFileSync(this.recordPath(record.taskId), JSON.stringify(record), 'utf-8');
+        } catch (error) {
+            console.error(`TaskTransactionManager: Failed to save transaction ${record.taskId}:`, error);
+        }
+    }
+
+    /**
+     * Удаление старых завершенных транзакций сверх лимита
+     */
+    private prune(): void {
+        if (!this.storageDir || !fs.existsSync(this.storageDir)) {
+            return;
+        }
+
+        const finished = fs.readdirSync(this.storageDir)
+            .filter(file => file.endsWith('.json'))
+            .map(file => ({ file, mtime: fs.statSync(path.join(this.storageDir, file)).mtimeMs }))
+            .sort((a, b) => b.mtime - a.mtime);
+
+        for (const { file } of finished.slice(MAX_STORED_TRANSACTIONS)) {
+            const record = this.load(path.basename(file, '.json'));
+            if (record && record.status === 'active') {
+                continue;
+            }
+            fs.unlinkSync(path.join(this.storageDir, file));
+            this.transactions.delete(record?.taskId || '');
+        }
+    }
+}
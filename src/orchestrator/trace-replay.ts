@@ -0,0 +1,245 @@
+/**
+ * Повтор задачи по сохраненной трассе на другой модели
+ * Записанные промпты вызовов моделей отправляются выбранному провайдеру, ответы сравниваются с исходными.
+ * Шаги с инструментами (применение решения) не повторяются: в трассе записан только последний
+ * промпт шага, а не весь диалог с результатами инструментов - сравниваются только вызовы без инструментов
+ */
+
+import { IModelProvider } from '../integration/model-providers/base-provider';
+import { TaskTracer, TraceRecord, TraceSpan, buildTraceTree, flattenTrace } from './task-trace';
+
+export interface ReplayCallComparison {
+    originalSpanId: string;
+    agentId?: string;
+    original: {
+        provider?: string;
+        model?: string;
+        response: string;
+        latencyMs?: number;
+        tokens?: number;
+        cost?: number;
+    };
+    replay: {
+        response: string;
+        latencyMs: number;
+        tokens?: number;
+        cost?: number;
+        error?: string;
+    };
+    // Схожесть ответов по словам (Jaccard), 0-1
+    similarity: number;
+}
+
+export interface ReplayTotals {
+    calls: number;
+    latencyMs: number;
+    tokens: number;
+    cost: number;
+}
+
+export interface ReplayComparison {
+    traceId: string;
+    sourceTraceId: string;
+    provider: string;
+    model: string;
+    calls: ReplayCallComparison[];
+    original: ReplayTotals;
+    replay: ReplayTotals;
+    // Средняя схожесть ответов
+    similarity: number;
+    // Шаги с инструментами исходной трассы, которые не повторялись
+    skippedToolCalls: number;
+}
+
+export interface ReplayOptions {
+    model?: string;
+    signal?: AbortSignal;
+    tracer?: TaskTracer;
+}
+
+/**
+ * Вызовы моделей трассы, которые можно повторить (вызовы без инструментов с сохраненным промптом)
+ */
+export function getReplayableCalls(records: TraceRecord[]): TraceSpan[] {
+    return flattenTrace(buildTraceTree(records))
+        .filter(span => span.kind === 'llm' && span.attributes.mode === 'completion' && typeof span.attributes.prompt === 'string');
+}
+
+/**
+ * Шаги с инструментами трассы, которые повтор пропускает
+ */
+export function getSkippedToolCalls(records: TraceRecord[]): TraceSpan[] {
+    return flattenTrace(buildTraceTree(records)).filter(span => span.kind === 'llm' && span.attributes.mode === 'tools');
+}
+
+/**
+ * Повторить вызовы моделей трассы на провайдере; результат записывается в отдельную трассу вида replay
+ */
+export async function replayTrace(
+    sourceTraceId: string,
+    records: TraceRecord[],
+    provider: IModelProvider,
+    options: ReplayOptions = {}
+): Promise<ReplayComparison> {
+    const calls = getReplayableCalls(records);
+    if (calls.length === 0) {
+        throw new Error('В трассе нет вызовов модели с сохраненным промптом');
+    }
+
+    const tracer = options.tracer || TaskTracer.getInstance();
+    const providerType = provider.getProviderType();
+    const model = options.model || provider.getModelInfo().id;
+    const traceId = `${sourceTraceId}.replay-${providerType}-${Date.now()}`;
+    const source = buildTraceTree(records)[0];
+    const skippedToolCalls = getSkippedToolCalls(records).length;
+
+    tracer.startTrace(traceId, `Повтор: ${source?.name || sourceTraceId}`, { sourceTraceId, provider: providerType, model, skippedToolCalls }, 'replay');
+
+    const comparisons: ReplayCallComparison[] = [];
+    try {
+        for (const call of calls) {
+            comparisons.push(await replayCall(tracer, traceId, call, provider, model, options.signal));
+        }
+    } catch (error: any) {
+        tracer.endTrace(traceId, 'error', { error: error?.message || String(error) });
+        throw error;
+    }
+
+    const comparison: ReplayComparison = {
+        traceId,
+        sourceTraceId,
+        provider: providerType,
+        model,
+        calls: comparisons,
+        original: sumTotals(comparisons.map(item => item.original)),
+        replay: sumTotals(comparisons.map(item => item.replay)),
+        similarity: comparisons.reduce((sum, item) => sum + item.similarity, 0) / comparisons.length,
+        skippedToolCalls
+    };
+    tracer.endTrace(traceId, comparisons.some(item => item.replay.error) ? 'error' : 'ok', {
+        originalTotals: comparison.original,
+        replayTotals: comparison.replay,
+        similarity: comparison.similarity
+    });
+    return comparison;
+}
+
+/**
+ * Сравнение повтора из сохраненной трассы replay (для просмотра без повторного вызова моделей)
+ */
+export function readReplayComparison(traceId: string, records: TraceRecord[]): ReplayComparison | undefined {
+    const root = buildTraceTree(records)[0];
+    if (!root || root.kind !== 'replay') {
+        return undefined;
+    }
+
+    const calls: ReplayCallComparison[] = flattenTrace(root.children)
+        .filter(span => span.kind === 'llm')
+        .map(span => ({
+            originalSpanId: span.attributes.originalSpanId,
+            agentId: span.attributes.agentId,
+            original: span.attributes.original || { response: '' },
+            replay: {
+                response: span.attributes.response || '',
+                latencyMs: span.attributes.latencyMs || 0,
+                tokens: span.attributes.tokens,
+                cost: span.attributes.cost,
+                error: span.attributes.error
+            },
+            similarity: span.attributes.similarity || 0
+        }));
+
+    return {
+        traceId,
+        sourceTraceId: root.attributes.sourceTraceId,
+        provider: root.attributes.provider,
+        model: root.attributes.model,
+        calls,
+        original: root.attributes.originalTotals || sumTotals(calls.map(item => item.original)),
+        replay: root.attributes.replayTotals || sumTotals(calls.map(item => item.replay)),
+        similarity: root.attributes.similarity ?? 0,
+        skippedToolCalls: root.attributes.skippedToolCalls || 0
+    };
+}
+
+/**
+ * Схожесть текстов по множествам слов (Jaccard)
+ */
+export function textSimilarity(a: string, b: string): number {
+    const words = (text: string) => new Set(text.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(Boolean));
+    const left = words(a);
+    const right = words(b);
+    if (left.size === 0 && right.size === 0) {
+        return 1;
+    }
+    const intersection = [...left].filter(word => right.has(word)).length;
+    return intersection / (left.size + right.size - intersection);
+}
+
+async function replayCall(
+    tracer: TaskTracer,
+    traceId: string,
+    call: TraceSpan,
+    provider: IModelProvider,
+    model: string,
+    signal?: AbortSignal
+): Promise<ReplayCallComparison> {
+    const original = {
+        provider: call.attributes.provider,
+        model: call.attributes.model,
+        response: call.attributes.response || '',
+        latencyMs: call.attributes.latencyMs ?? call.durationMs,
+        tokens: sumTokens(call.attributes.inputTokens, call.attributes.outputTokens),
+        cost: call.attributes.cost
+    };
+    const span = tracer.startSpan(traceId, 'llm', call.name, {
+        originalSpanId: call.spanId,
+        agentId: call.attributes.agentId,
+        provider: provider.getProviderType(),
+        model,
+        mode: 'completion',
+        prompt: call.attributes.prompt,
+        original
+    });
+
+    const startTime = Date.now();
+    let replay: ReplayCallComparison['replay'];
+    try {
+        const result = await provider.call(call.attributes.prompt, {
+            model,
+            temperature: call.attributes.temperature,
+            maxTokens: call.attributes.maxTokens,
+            signal
+        });
+        replay = {
+            response: result.text || '',
+            latencyMs: result.responseTime ?? Date.now() - startTime,
+            tokens: sumTokens(result.tokensUsed?.input, result.tokensUsed?.output),
+            cost: result.cost
+        };
+    } catch (error: any) {
+        if (signal?.aborted) {
+            span.end('error', { error: 'отменено' });
+            throw error;
+        }
+        // Ошибка одного вызова не прерывает повтор: в сравнении она видна как пустой ответ
+        replay = { response: '', latencyMs: Date.now() - startTime, error: error?.message || String(error) };
+    }
+
+    const similarity = replay.error ? 0 : textSimilarity(original.response, replay.response);
+    span.end(replay.error ? 'error' : 'ok', { ...replay, similarity });
+    return { originalSpanId: call.spanId, agentId: call.attributes.agentId, original, replay, similarity };
+}
+
+function sumTokens(input?: number, output?: number): number | undefined {
+    return input === undefined && output === undefined ? undefined : (input || 0) + (output || 0);
+}
+
+function sumTotals(items: { latencyMs?: number; tokens?: number; cost?: number }[]): ReplayTotals {
+    return {
+        calls: items.length,
+        latencyMs: items.reduce((sum, item) => sum + (item.latencyMs || 0), 0),
+        tokens: items.reduce((sum, item) => sum + (item.tokens || 0), 0),
+        cost: items.reduce((sum, item) => sum + (item.cost || 0), 0)
+    };
+}
@@ -0,0 +1,96 @@
+/**
+ * Тесты разбора отчетов о покрытии и покрытия измененных строк
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CoverageTracker,
+  JournalCoverageHistoryStore,
+  compareCoverage,
+  getModifiedLines,
+  loadCoverageReport,
+  parseCoberturaXml,
+  parseCoveragePyJson,
+  parseIstanbulJson,
+  parseLcov,
+  summarizeCoverage
+} from '../coverage';
+
+describe('Coverage', () => {
+  const root = path.resolve('/repo');
+
+  it('разбирает lcov, Istanbul JSON, Cobertura XML и coverage.py в покрытие строк', () => {
+    const lcov = parseLcov([
+      'TN:', `SF:${path.join(root, 'src/math.ts')}`, 'DA:1,4', 'DA:2,0', 'DA:5,1', 'LF:3', 'LH:2', 'end_of_record',
+      'SF:src/util.ts', 'DA:3,0', 'end_of_record'
+    ].join('\n'), root);
+    expect(lcov).toEqual([
+      { file: 'src/math.ts', lines: { 1: 4, 2: 0, 5: 1 } },
+      { file: 'src/util.ts', lines: { 3: 0 } }
+    ]);
+    expect(summarizeCoverage(lcov)).toEqual({ linesFound: 4, linesHit: 2, percent: 50 });
+
+    expect(parseIstanbulJson(JSON.stringify({
+      [path.join(root, 'src/math.ts')]: {
+        path: path.join(root, 'src/math.ts'),
+        statementMap: { 0: { start: { line: 1 } }, 1: { start: { line: 1 } }, 2: { start: { line: 3 } } },
+        s: { 0: 0, 1: 2, 2: 0 }
+      }
+    }), root)).toEqual([{ file: 'src/math.ts', lines: { 1: 2, 3: 0 } }]);
+
+    expect(parseCoberturaXml(`<?xml version="1.0" ?>
+      <coverage line-rate="0.5"><sources><source>${root}</source></sources><packages><package name="app"><classes>
+        <class name="api.py" filename="app/api.py" line-rate="0.5"><methods/><lines>
+          <line number="1" hits="1"/>
+          <line number="4" hits="0" branch="true" condition-coverage="0% (0/2)"><conditions><condition number="0" type="jump" coverage="0%"/></conditions></line>
+        </lines></class>
+      </classes></package></packages></coverage>`, root)).toEqual([{ file: 'app/api.py', lines: { 1: 1, 4: 0 } }]);
+
+    expect(parseCoveragePyJson(JSON.stringify({
+      meta: { version: '7.4.0' },
+      files: { 'app/api.py': { executed_lines: [1, 2], missing_lines: [7], excluded_lines: [] } }
+    }), root)).toEqual([{ file: 'app/api.py', lines: { 1: 1, 2: 1, 7: 0 } }]);
+  });
+
+  it('находит непокрытые измененные строки и снижение покрытия относительно прошлого отчета', () => {
+    expect(getModifiedLines('a\nb\nc\nd', 'a\nB\nc\nnew\nd')).toEqual([2, 4]);
+    expect(getModifiedLines(null, 'x\n\ny')).toEqual([1, 3]);
+
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-'));
+    try {
+      const historyPath = path.join(workspace, '.cursor/logs/coverage-history.jsonl');
+      fs.mkdirSync(path.join(workspace, 'coverage'));
+      const lcovPath = path.join(workspace, 'coverage/lcov.info');
+
+      fs.writeFileSync(lcovPath, 'SF:src/math.ts\nDA:1,1\nDA:2,1\nDA:3,1\nDA:4,0\nend_of_record\n');
+      fs.utimesSync(lcovPath, new Date('2026-01-01T10:00:00Z'), new Date('2026-01-01T10:00:00Z'));
+      const tracker = new CoverageTracker(new JournalCoverageHistoryStore(historyPath));
+      tracker.record(loadCoverageReport(workspace)!);
+
+      // Отчет до начала задачи не считается отчетом задачи
+      const taskStart = new Date('2026-01-01T11:00:00Z');
+      expect(loadCoverageReport(workspace, taskStart)).toBeNull();
+
+      fs.writeFileSync(lcovPath, 'SF:src/math.ts\nDA:1,1\nDA:2,0\nDA:3,1\nDA:4,0\nDA:5,1\nend_of_record\n');
+      fs.utimesSync(lcovPath, new Date('2026-01-01T12:00:00Z'), new Date('2026-01-01T12:00:00Z'));
+      const report = loadCoverageReport(workspace, taskStart)!;
+      expect(report).toMatchObject({ format: 'lcov', path: 'coverage/lcov.info', generatedAt: '2026-01-01T12:00:00.000Z' });
+
+      const baseline = tracker.getBaseline(taskStart);
+      expect(baseline).toMatchObject({ percent: 75, files: { 'src/math.ts': { linesFound: 4, linesHit: 3 } } });
+      expect(compareCoverage(baseline, report, { 'src/math.ts': [2, 5], 'README.md': [1] })).toEqual([
+        { file: 'src/math.ts', beforePercent: 75, afterPercent: 60, modifiedLines: 2, uncoveredModifiedLines: [2] }
+      ]);
+
+      // История переживает перезапуск, повторная запись того же отчета не дублируется
+      tracker.record(report, 'task-1');
+      tracker.record(report, 'task-1');
+      const restored = new CoverageTracker(new JournalCoverageHistoryStore(historyPath)).getHistory();
+      expect(restored.map(entry => [entry.percent, entry.taskId])).toEqual([[75, undefined], [60, 'task-1']]);
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Тесты аудита зависимостей: lock-файлы, диапазоны версий OSV и лицензии
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseLockfile } from '../lockfiles';
+import { DependencyAuditor, JournalAdvisoryStore, compareVersions, isLicenseAllowed } from '../dependency-audit';
+
+describe('DependencyAudit', () => {
+  const versions = (file: string, content: string) =>
+    parseLockfile(file, content).map(pkg => `${pkg.name}@${pkg.version}${pkg.dev ? ' dev' : ''}${pkg.license ? ` ${pkg.license}` : ''}`);
+
+  it('разбирает lock-файлы npm, yarn, pnpm, pip, Poetry и Composer', () => {
+    expect(versions('package-lock.json', JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', version: '1.0.0' },
+        'node_modules/lodash': { version: '4.17.20', license: 'MIT' },
+        'node_modules/@babel/core': { version: '7.22.0', dev: true, license: 'MIT' },
+        'node_modules/@babel/core/node_modules/semver': { version: '6.3.0', dev: true, license: 'ISC' },
+        'packages/local': { version: '0.1.0' }
+      }
+    }))).toEqual(['lodash@4.17.20 MIT', '@babel/core@7.22.0 dev MIT', 'semver@6.3.0 dev ISC']);
+
+    expect(versions('yarn.lock', [
+      '# yarn lockfile v1', '',
+      '"@types/node@^20.0.0", "@types/node@^20.1.0":', '  version "20.4.2"', '  resolved "https://registry..."', '',
+      'minimist@^1.2.0:', '  version "1.2.5"'
+    ].join('\n'))).toEqual(['@types/node@20.4.2', 'minimist@1.2.5']);
+
+    expect(versions('pnpm-lock.yaml', [
+      "lockfileVersion: '9.0'", 'packages:', '', '  /express@4.18.1:', '    resolution: {integrity: sha512-x}', '',
+      "  '@scope/pkg@1.0.0(react@18.2.0)':", '    dependencies:', '      react: 18.2.0', 'snapshots:', '  other@1.0.0:'
+    ].join('\n'))).toEqual(['express@4.18.1', '@scope/pkg@1.0.0']);
+
+    expect(versions('requirements.txt', 'Django==3.2.1\nrequests[socks]>=2.0\nPyYAML == 5.3  # pinned\n-r base.txt\n'))
+      .toEqual(['django@3.2.1', 'pyyaml@5.3']);
+
+    expect(versions('poetry.lock', [
+      '[[package]]', 'name = "Jinja2"', 'version = "2.11.2"', 'category = "main"', '',
+      '[package.dependencies]', 'version = "9.9.9"', '',
+      '[[package]]', 'name = "pytest"', 'version = "7.0.0"', 'category = "dev"'
+    ].join('\n'))).toEqual(['jinja2@2.11.2', 'pytest@7.0.0 dev']);
+
+    expect(versions('composer.lock', JSON.stringify({
+      packages: [{ name: 'Guzzlehttp/Guzzle', version: 'v7.4.0', license: ['MIT'] }],
+      'packages-dev': [{ name: 'phpunit/phpunit', version: '9.5.0', license: ['BSD-3-Clause'] }]
+    }))).toEqual(['guzzlehttp/guzzle@7.4.0 MIT', 'phpunit/phpunit@9.5.0 dev BSD-3-Clause']);
+  });
+
+  it('импортирует дамп OSV и находит уязвимые версии и лицензии вне списка разрешенных', () => {
+    expect(compareVersions('1.2.3-beta.2', '1.2.3')).toBe(-1);
+    expect(compareVersions('1.0rc1', '1.0a9')).toBe(1);
+    expect(compareVersions('2.0.post1', '2.0')).toBe(1);
+    expect(compareVersions('v7.4', '7.4.0')).toBe(0);
+    expect(isLicenseAllowed('(MIT OR GPL-3.0-only)', ['MIT'])).toBe(true);
+    expect(isLicenseAllowed('MIT AND GPL-2.0-or-later', ['MIT'])).toBe(false);
+    expect(isLicenseAllowed('Apache-2.0 WITH LLVM-exception', ['apache-2.0'])).toBe(true);
+
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-audit-'));
+    try {
+      const dump = path.join(workspace, 'osv-dump', 'npm');
+      fs.mkdirSync(dump, { recursive: true });
+      const osv = (id: string, ecosystem: string, name: string, events: object[], extra: object = {}) => ({
+        id, modified: '2024-01-01T00:00:00Z', summary: `${name} advisory`,
+        affected: [{ package: { ecosystem, name }, ranges: [{ type: 'ECOSYSTEM', events }] }], ...extra
+      });
+      fs.writeFileSync(path.join(dump, 'GHSA-lodash.json'), JSON.stringify(osv('GHSA-lodash', 'npm', 'lodash',
+        [{ introduced: '0' }, { fixed: '4.17.21' }], { aliases: ['CVE-2021-23337'], database_specific: { severity: 'HIGH' } })));
+      fs.writeFileSync(path.join(dump, 'batch.json'), JSON.stringify({ vulns: [
+        osv('GHSA-minimist', 'npm', 'minimist', [{ introduced: '1.0.0' }, { fixed: '1.2.3' }, { introduced: '1.2.4' }, { last_affected: '1.2.5' }],
+          { database_specific: { severity: 'CRITICAL' } }),
+        osv('GHSA-withdrawn', 'npm', 'lodash', [{ introduced: '0' }], { withdrawn: '2024-02-01T00:00:00Z' }),
+        osv('GO-2024-1', 'Go', 'lodash', [{ introduced: '0' }])
+      ] }));
+      fs.writeFileSync(path.join(dump, 'PYSEC-django.json'), JSON.stringify(osv('PYSEC-django', 'PyPI', 'Django',
+        [{ introduced: '3.0' }, { fixed: '3.1.9' }, { introduced: '3.2' }, { fixed: '3.2.2' }])));
+
+      fs.writeFileSync(path.join(workspace, 'package-lock.json'), JSON.stringify({ lockfileVersion: 3, packages: {
+        'node_modules/lodash': { version: '4.17.20', license: 'MIT' },
+        'node_modules/minimist': { version: '1.2.5', license: 'MIT' },
+        'node_modules/gpl-lib': { version: '1.0.0', license: 'GPL-3.0' },
+        'node_modules/dev-tool': { version: '1.0.0', license: 'AGPL-3.0', dev: true }
+      } }));
+      fs.writeFileSync(path.join(workspace, 'requirements.txt'), 'django==3.2.1\n');
+      fs.mkdirSync(path.join(workspace, '.cursor/config'), { recursive: true });
+      fs.writeFileSync(path.join(workspace, '.cursor/config/quality.json'), JSON.stringify({ audit: { ignore: ['CVE-2021-23337'] } }));
+
+      const store = new JournalAdvisoryStore(path.join(workspace, '.cursor/advisories/osv.jsonl'));
+      expect(new DependencyAuditor(workspace, store).importAdvisories([path.join(workspace, 'osv-dump')]))
+        .toEqual({ imported: 3, total: 3 });
+
+      // Новый аудитор читает сохраненную базу
+      const audit = new DependencyAuditor(workspace, store).audit();
+      expect(audit).toMatchObject({ lockfiles: ['package-lock.json', 'requirements.txt'], packages: 5, advisories: 3 });
+      expect(audit.vulnerabilities.map(v => [v.package.name, v.advisoryId, v.severity, v.fixedIn])).toEqual([
+        ['minimist', 'GHSA-minimist', 'critical', undefined],
+        ['django', 'PYSEC-django', 'medium', '3.2.2']
+      ]);
+      expect(audit.licenseViolations.map(v => `${v.package.name} ${v.license}`)).toEqual(['gpl-lib GPL-3.0']);
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Тесты реестра проверок качества и правил проекта из quality.json
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AgentSolution } from '../../agents/local-agent';
+import { TaskTransactionManager } from '../../orchestrator/task-transaction';
+import { QualityController } from '../quality-controller';
+import { QUALITY_CONFIG_PATH, createRuleChecks } from '../quality-checks';
+
+describe('Проверки качества', () => {
+  let workspace: string;
+
+  const solutionFor = (files: string[]): AgentSolution => ({
+    id: 'solution-1',
+    agentId: 'backend',
+    agentName: 'BackendAgent',
+    taskId: 'task-quality-checks',
+    timestamp: new Date(),
+    solution: {
+      title: 'Маршрут пользователей',
+      description: '',
+      approach: '',
+      filesToModify: files,
+      codeChanges: files.map(file => ({ file, type: 'modify' as const, description: 'Маршрут /users' })),
+      dependencies: { files: [], impact: 'low' }
+    },
+    evaluation: { quality: 1, performance: 1, security: 1, maintainability: 1, compliance: 1, overallScore: 1 },
+    reasoning: '',
+    confidence: 1,
+    estimatedTime: 0
+  });
+
+  const writeFile = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(workspace, file)), { recursive: true });
+    fs.writeFileSync(path.join(workspace, file), content);
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'quality-checks-'));
+    writeFile('src/controllers/users.md', '# users\nconst rows = db.query("select * from users");\n');
+    writeFile('src/routes/users.md', "router.get('/users', list);\nrouter.post('/users/:id', update);\n");
+    writeFile('openapi.yaml', 'paths:\n  /users:\n    get: {}\n');
+  });
+
+  afterEach(() => {
+    (vscode.workspace as any).workspaceFolders = undefined;
+    (vscode.workspace as any).textDocuments = [];
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('правила проекта находят запрещенный код, маршруты без OpenAPI и ошибки команды', async () => {
+    const checks = createRuleChecks([
+      { id: 'no-db-in-controllers', files: ['src/controllers/**'], forbid: '\\bdb\\.query\\(', message: 'Доступ к БД из контроллера', severity: 'high' },
+      { id: 'openapi-routes', files: ['src/routes/**'], match: "router\\.(get|post)\\('([^']+)'", expectIn: { file: 'openapi.yaml', text: '$2:' }, message: 'Маршрут без OpenAPI' },
+      { id: 'architecture', command: 'echo "cycle: a -> b" >&2; exit 3', message: 'Нарушены границы модулей' },
+      { id: 'broken', forbid: '(', message: 'Некорректное выражение' },
+      { id: 'ambiguous', forbid: 'a', require: 'b', message: 'Два вида правила' }
+    ]);
+    expect(checks.map(check => check.id)).toEqual(['no-db-in-controllers', 'openapi-routes', 'architecture']);
+
+    const context = {
+      solution: solutionFor(['src/controllers/users.md', 'src/routes/users.md']),
+      workspacePath: workspace,
+      results: new Map()
+    };
+    const [forbid, openapi, command] = await Promise.all(checks.map(check => check.run(context)));
+
+    expect(forbid.issues).toEqual([expect.objectContaining({
+      severity: 'high', type: 'custom', file: 'src/controllers/users.md', line: 2, rule: 'no-db-in-controllers'
+    })]);
+    expect(openapi.issues.map(issue => [issue.line, issue.message]))
+      .toEqual([[2, 'Маршрут без OpenAPI: "/users/:id:" нет в openapi.yaml']]);
+    expect(command.issues).toHaveLength(1);
+    expect(command.issues[0].message).toContain('код выхода 3');
+    expect(command.issues[0].message).toContain('cycle: a -> b');
+  });
+
+  it('QualityController применяет веса, важность и отключение проверок из quality.json', async () => {
+    (vscode.workspace as any).workspaceFolders = [{ uri: { fsPath: workspace } }];
+    writeFile(QUALITY_CONFIG_PATH, JSON.stringify({
+      checks: {
+        dependencies: { enabled: false },
+        'api-naming': { weight: 4, severity: 'low' }
+      },
+      rules: [
+        { id: 'no-db-in-controllers', files: ['src/controllers/**'], forbid: '\\bdb\\.query\\(', message: 'Доступ к БД из контроллера', blocking: true }
+      ]
+    }));
+
+    const controller = new QualityController();
+    controller.registerCheck({
+      id: 'api-naming',
+      description: 'Имена маршрутов во множественном числе',
+      weight: 20,
+      run: async ({ solution }) => ({
+        issues: solution.solution.filesToModify.map(file => ({ severity: 'high' as const, type: 'custom' as const, message: 'user вместо users', file }))
+      })
+    });
+    expect(controller.getChecks().map(check => check.id)).toEqual(
+      ['completeness', 'static-analysis', 'standards', 'coverage', 'security', 'dependencies', 'api-naming']
+    );
+
+    // Изменение контроллера еще не сохранено в редакторе: проверки видят его после сохранения
+    writeFile('src/controllers/users.md', '# users\n');
+    const controllerPath = path.join(workspace, 'src/controllers/users.md');
+    const document = {
+      uri: { fsPath: controllerPath },
+      isDirty: true,
+      save: jest.fn(async () => {
+        fs.writeFileSync(controllerPath, '# users\nconst rows = db.query("select * from users");\n');
+        return true;
+      })
+    };
+    (vscode.workspace as any).textDocuments = [document];
+    (await TaskTransactionManager.getInstance().begin('task-quality-checks')).capture('src/controllers/users.md');
+
+    // Пять файлов без изменения зависимостей - замечание dependencies, но проверка отключена
+    const files = ['src/controllers/users.md', 'src/a.md', 'src/b.md', 'src/c.md', 'src/d.md'];
+    const report = await controller.validateSolution(solutionFor(files));
+    expect(document.save).toHaveBeenCalledTimes(1);
+
+    expect(report.issues.some(issue => issue.check === 'dependencies')).toBe(false);
+    const naming = report.issues.filter(issue => issue.check === 'api-naming');
+    expect(naming).toHaveLength(5);
+    expect(naming.every(issue => issue.severity === 'low')).toBe(true);
+    expect(report.issues.filter(issue => issue.check === 'no-db-in-controllers')).toHaveLength(1);
+
+    // 100 - 5 * 4 (api-naming) - 10 (правило)
+    expect(report.score).toBe(70);
+    expect(report.blockedBy).toEqual(['no-db-in-controllers']);
+    expect(report.passed).toBe(false);
+    expect(report.recommendations.some(rec => rec.includes('Нарушены правила проекта'))).toBe(true);
+    // Без тестового фреймворка покрытие не проверено, но и не штрафуется
+    expect(report.unverified).toEqual([{ check: 'coverage', reason: 'тестовый фреймворк проекта не найден' }]);
+    expect(report.recommendations).toContain('Проверка coverage не выполнена: тестовый фреймворк проекта не найден.');
+  }, 60000);
+});
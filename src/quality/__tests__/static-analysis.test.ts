@@ -0,0 +1,63 @@
+/**
+ * Тесты запуска линтеров и проверки типов
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseEslintJson, parsePhpstanJson, parseRuffJson, parseTscOutput, runStaticAnalysis } from '../static-analysis';
+
+describe('StaticAnalysis', () => {
+  const root = path.resolve('/repo');
+
+  it('разбирает отчеты ESLint, tsc, Ruff и PHPStan в замечания с файлом и строкой', () => {
+    expect(parseEslintJson(JSON.stringify([{
+      filePath: path.join(root, 'src/app.js'),
+      messages: [
+        { ruleId: 'no-undef', severity: 2, message: "'foo' is not defined.", line: 3, column: 5 },
+        { ruleId: 'no-unused-vars', severity: 1, message: "'x' is assigned a value but never used.", line: 1, column: 7 }
+      ]
+    }]), root)).toEqual([
+      { analyzer: 'eslint', file: 'src/app.js', line: 3, column: 5, severity: 'error', rule: 'no-undef', message: "'foo' is not defined." },
+      { analyzer: 'eslint', file: 'src/app.js', line: 1, column: 7, severity: 'warning', rule: 'no-unused-vars', message: "'x' is assigned a value but never used." }
+    ]);
+
+    expect(parseTscOutput("src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.\nFound 1 error.", root))
+      .toEqual([{ analyzer: 'tsc', file: 'src/a.ts', line: 12, column: 5, severity: 'error', rule: 'TS2322', message: "Type 'string' is not assignable to type 'number'." }]);
+
+    expect(parseRuffJson(JSON.stringify([
+      { code: 'F401', message: '`os` imported but unused', filename: path.join(root, 'app/main.py'), location: { row: 1, column: 8 } },
+      { code: 'E501', message: 'Line too long (120 > 88)', filename: path.join(root, 'app/main.py'), location: { row: 9, column: 89 } }
+    ]), root).map(finding => [finding.rule, finding.severity, finding.line])).toEqual([['F401', 'error', 1], ['E501', 'warning', 9]]);
+
+    expect(parsePhpstanJson(JSON.stringify({
+      totals: { errors: 0, file_errors: 1 },
+      files: { [path.join(root, 'src/User.php')]: { errors: 1, messages: [{ message: 'Call to an undefined method User::nam().', line: 14, identifier: 'method.notFound' }] } },
+      errors: []
+    }), root)).toEqual([{ analyzer: 'phpstan', file: 'src/User.php', line: 14, severity: 'error', rule: 'method.notFound', message: 'Call to an undefined method User::nam().' }]);
+  });
+
+  it('запускает tsc проекта и оставляет ошибки измененных файлов, не установленный линтер пропускается', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'static-analysis-'));
+    try {
+      fs.symlinkSync(path.resolve('node_modules'), path.join(workspace, 'node_modules'), 'dir');
+      fs.writeFileSync(path.join(workspace, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true, noEmit: true, types: [] }, include: ['*.ts'] }));
+      fs.writeFileSync(path.join(workspace, 'changed.ts'), 'export const total: number = "42";\n');
+      fs.writeFileSync(path.join(workspace, 'legacy.ts'), 'export const name: string = 42;\n');
+      fs.writeFileSync(path.join(workspace, 'script.py'), 'import os\n');
+      fs.writeFileSync(path.join(workspace, 'ruff.toml'), '');
+
+      const result = await runStaticAnalysis(workspace, ['changed.ts', 'script.py', 'deleted.ts']);
+      const tsc = result.runs.find(run => run.analyzer === 'tsc')!;
+      expect(tsc.skipped).toBeUndefined();
+      expect(tsc.findings).toEqual([expect.objectContaining({ file: 'changed.ts', line: 1, severity: 'error', rule: 'TS2322' })]);
+
+      // Ruff в окружении теста может быть не установлен - тогда он пропускается без замечаний
+      const ruff = result.runs.find(run => run.analyzer === 'ruff')!;
+      expect(ruff.skipped === 'not installed' || ruff.findings.some(finding => finding.rule === 'F401')).toBe(true);
+      expect(result.errors).toBe(1 + ruff.findings.filter(finding => finding.severity === 'error').length);
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  }, 120000);
+});
@@ -0,0 +1,414 @@
+/**
+ * Покрытие кода тестами по отчетам инструментов покрытия
+ *
+ * Поддерживаются lcov, Istanbul JSON (coverage-final.json), Cobertura XML и JSON coverage.py.
+ * По отчету, снятому после изменений задачи, и истории прошлых отчетов считается
+ * изменение покрытия файлов и непокрытые измененные строки.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { diffLines } from '../agents/worker/patch-applier';
+import { parseXmlAttributes } from '../agents/worker/test-runner';
+
+export type CoverageFormat = 'lcov' | 'istanbul' | 'cobertura' | 'coverage-py';
+
+/**
+ * Покрытие файла: номер строки -> число выполнений (только исполняемые строки)
+ */
+export interface FileCoverage {
+    file: string; // Относительно корня workspace
+    lines: Record<number, number>;
+}
+
+/**
+ * Отчет о покрытии
+ */
+export interface CoverageReport {
+    format: CoverageFormat;
+    path: string;
+    generatedAt: string;
+    files: FileCoverage[];
+}
+
+/**
+ * Сводка покрытия строк
+ */
+export interface CoverageSummary {
+    linesFound: number;
+    linesHit: number;
+    percent: number; // 0-100
+}
+
+/**
+ * Запись истории покрытия (сводки по проекту и по файлам)
+ */
+export interface CoverageHistoryEntry extends CoverageSummary {
+    timestamp: string; // Время создания отчета
+    format: CoverageFormat;
+    taskId?: string;
+    files: Record<string, { linesFound: number; linesHit: number }>;
+}
+
+/**
+ * Изменение покрытия файла задачей
+ */
+export interface CoverageDelta {
+    file: string;
+    beforePercent?: number; // Нет - файла не было в прошлом отчете
+    afterPercent: number;
+    modifiedLines: number;
+    uncoveredModifiedLines: number[];
+}
+
+/**
+ * Хранилище истории покрытия
+ */
+export interface CoverageHistoryStore {
+    load(): CoverageHistoryEntry[];
+    append(entry: CoverageHistoryEntry): void;
+}
+
+/**
+ * Путь истории покрытия относительно корня workspace
+ */
+export const COVERAGE_HISTORY_PATH = '.cursor/logs/coverage-history.jsonl';
+
+/**
+ * Расположение отчетов по умолчанию (jest/vitest с lcov, istanbul/nyc, pytest-cov, coverage json)
+ */
+const REPORT_LOCATIONS: { file: string; format: CoverageFormat }[] = [
+    { file: 'coverage/lcov.info', format: 'lcov' },
+    { file: 'lcov.info', format: 'lcov' },
+    { file: 'coverage/coverage-final.json', format: 'istanbul' },
+    { file: '.nyc_output/coverage-final.json', format: 'istanbul' },
+    { file: 'coverage/cobertura-coverage.xml', format: 'cobertura' },
+    { file: 'coverage.xml', format: 'cobertura' },
+    { file: 'coverage.json', format: 'coverage-py' }
+];
+
+const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * Разбор lcov (SF: / DA:строка,выполнения / end_of_record)
+ */
+export function parseLcov(content: string, workspacePath: string): FileCoverage[] {
+    const files = new Map<string, FileCoverage>();
+    let current: FileCoverage | null = null;
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.trim();
+        if (line.startsWith('SF:')) {
+            current = getFile(files, toRelative(line.slice(3), workspacePath));
+        } else if (line.startsWith('DA:') && current) {
+            const [lineNumber, hits] = line.slice(3).split(',');
+            addLineHits(current, parseInt(lineNumber, 10), parseInt(hits, 10));
+        } else if (line === 'end_of_record') {
+            current = null;
+        }
+    }
+    return Array.from(files.values());
+}
+
+/**
+ * Разбор Istanbul coverage-final.json: строка покрыта числом выполнений ее инструкций (максимум)
+ */
+export function parseIstanbulJson(json: string, workspacePath: string): FileCoverage[] {
+    const data = JSON.parse(json);
+    const files = new Map<string, FileCoverage>();
+
+    for (const [key, entry] of Object.entries<any>(data)) {
+        const coverage = getFile(files, toRelative(entry.path || key, workspacePath));
+        for (const [id, location] of Object.entries<any>(entry.statementMap || {})) {
+            addLineHits(coverage, location.start.line, entry.s?.[id] ?? 0);
+        }
+    }
+    return Array.from(files.values());
+}
+
+/**
+ * Разбор Cobertura XML; пути классов относительны первому каталогу <source>
+ */
+export function parseCoberturaXml(xml: string, workspacePath: string): FileCoverage[] {
+    const sources = Array.from(xml.matchAll(/<source>([^<]*)<\/source>/g), match => match[1].trim());
+    const sourceRoot = sources.find(source => path.isAbsolute(source)) || '';
+    const files = new Map<string, FileCoverage>();
+
+    const classPattern = /<class\b([^>]*)>([\s\S]*?)<\/class>/g;
+    let match: RegExpExecArray | null;
+    while ((match = classPattern.exec(xml)) !== null) {
+        const filename = parseXmlAttributes(match[1]).filename;
+        if (!filename) {
+            continue;
+        }
+        const absolute = path.isAbsolute(filename) ? filename : sourceRoot ? path.join(sourceRoot, filename) : filename;
+        const coverage = getFile(files, toRelative(absolute, workspacePath));
+
+        for (const line of match[2].matchAll(/<line\b([^>]*?)\/?>/g)) {
+            const attributes = parseXmlAttributes(line[1]);
+            addLineHits(coverage, parseInt(attributes.number, 10), parseInt(attributes.hits, 10));
+        }
+    }
+    return Array.from(files.values());
+}
+
+/**
+ * Разбор JSON отчета coverage.py (coverage json)
+ */
+export function parseCoveragePyJson(json: string, workspacePath: string): FileCoverage[] {
+    const data = JSON.parse(json);
+    return Object.entries<any>(data.files || {}).map(([file, entry]) => {
+        const coverage: FileCoverage = { file: toRelative(file, workspacePath), lines: {} };
+        for (const line of entry.executed_lines || []) {
+            coverage.lines[line] = 1;
+        }
+        for (const line of entry.missing_lines || []) {
+            coverage.lines[line] = 0;
+        }
+        return coverage;
+    });
+}
+
+/**
+ * Разобрать отчет о покрытии в указанном формате
+ */
+export function parseCoverageReport(format: CoverageFormat, content: string, workspacePath: string): FileCoverage[] {
+    switch (format) {
+        case 'lcov':
+            return parseLcov(content, workspacePath);
+        case 'istanbul':
+            return parseIstanbulJson(content, workspacePath);
+        case 'cobertura':
+            return parseCoberturaXml(content, workspacePath);
+        case 'coverage-py':
+            return parseCoveragePyJson(content, workspacePath);
+    }
+}
+
+/**
+ * Самый новый отчет о покрытии в стандартных расположениях
+ * since - учитываются только отчеты, созданные не раньше этого момента
+ */
+export function loadCoverageReport(workspacePath: string, since?: Date): CoverageReport | null {
+    let newest: { location: typeof REPORT_LOCATIONS[number]; mtime: Date } | null = null;
+    for (const location of REPORT_LOCATIONS) {
+        const fullPath = path.join(workspacePath, location.file);
+        if (!fs.existsSync(fullPath)) {
+            continue;
+        }
+        const mtime = fs.statSync(fullPath).mtime;
+        if ((!since || mtime >= since) && (!newest || mtime > newest.mtime)) {
+            newest = { location, mtime };
+        }
+    }
+    if (!newest) {
+        return null;
+    }
+
+    const fullPath = path.join(workspacePath, newest.location.file);
+    try {
+        return {
+            format: newest.location.format,
+            path: newest.location.file,
+            generatedAt: newest.mtime.toISOString(),
+            files: parseCoverageReport(newest.location.format, fs.readFileSync(fullPath, 'utf-8'), workspacePath)
+        };
+    } catch (error) {
+        console.error(`Coverage: Failed to parse ${newest.location.file}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Сводка покрытия файла или всего отчета
+ */
+export function summarizeCoverage(files: FileCoverage[]): CoverageSummary {
+    let linesFound = 0;
+    let linesHit = 0;
+    for (const file of files) {
+        for (const hits of Object.values(file.lines)) {
+            linesFound++;
+            if (hits > 0) {
+                linesHit++;
+            }
+        }
+    }
+    return { linesFound, linesHit, percent: toPercent(linesHit, linesFound) };
+}
+
+/**
+ * Строки нового содержимого (с 1), добавленные или измененные относительно before
+ * before = null - файл создан, изменены все непустые строки
+ */
+export function getModifiedLines(before: string | null, after: string): number[] {
+    if (before === null) {
+        return after.split(/\r?\n/)
+            .map((text, index) => text.trim() ? index + 1 : 0)
+            .filter(line => line > 0);
+    }
+
+    const modified: number[] = [];
+    for (const hunk of diffLines(before, after, 0)) {
+        let newLine = parseInt(/\+(\d+)/.exec(hunk.header)?.[1] || '1', 10);
+        for (const line of hunk.lines) {
+            if (line.kind === '+') {
+                modified.push(newLine);
+            }
+            if (line.kind !== '-') {
+                newLine++;
+            }
+        }
+    }
+    return modified;
+}
+
+/**
+ * Изменение покрытия измененных файлов относительно прошлого отчета
+ * Файлы, которых нет в текущем отчете (не инструментированы), пропускаются
+ */
+export function compareCoverage(
+    baseline: CoverageHistoryEntry | null,
+    current: CoverageReport,
+    modifiedLines: Record<string, number[]>
+): CoverageDelta[] {
+    const deltas: CoverageDelta[] = [];
+    for (const [file, lines] of Object.entries(modifiedLines)) {
+        const coverage = current.files.find(entry => entry.file === file);
+        if (!coverage) {
+            continue;
+        }
+
+        const before = baseline?.files[file];
+        deltas.push({
+            file,
+            beforePercent: before ? toPercent(before.linesHit, before.linesFound) : undefined,
+            afterPercent: summarizeCoverage([coverage]).percent,
+            modifiedLines: lines.length,
+            uncoveredModifiedLines: lines.filter(line => coverage.lines[line] === 0)
+        });
+    }
+    return deltas;
+}
+
+/**
+ * История покрытия в JSONL файле (.cursor/logs/coverage-history.jsonl)
+ */
+export class JournalCoverageHistoryStore implements CoverageHistoryStore {
+    constructor(private filePath: string) {}
+
+    load(): CoverageHistoryEntry[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const entries: CoverageHistoryEntry[] = [];
+        for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                entries.push(JSON.parse(line));
+            } catch (error) {
+                // Оборванная запись пропускается
+            }
+        }
+        return entries.slice(-MAX_HISTORY_ENTRIES);
+    }
+
+    append(entry: CoverageHistoryEntry): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+    }
+}
+
+/**
+ * История покрытия проекта: отчеты после запуска тестов и проверки решений
+ */
+export class CoverageTracker {
+    private static instance: CoverageTracker;
+    private history: CoverageHistoryEntry[];
+
+    constructor(private store: CoverageHistoryStore | null) {
+        this.history = store ? store.load() : [];
+    }
+
+    /**
+     * Получить историю покрытия текущего workspace (Singleton)
+     */
+    static getInstance(): CoverageTracker {
+        if (!CoverageTracker.instance) {
+            const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            CoverageTracker.instance = new CoverageTracker(
+                workspacePath ? new JournalCoverageHistoryStore(path.join(workspacePath, COVERAGE_HISTORY_PATH)) : null
+            );
+        }
+        return CoverageTracker.instance;
+    }
+
+    /**
+     * Добавить отчет в историю; отчет, уже записанный ранее (то же время создания), не дублируется
+     */
+    record(report: CoverageReport, taskId?: string): CoverageHistoryEntry {
+        const existing = this.history.find(entry => entry.timestamp === report.generatedAt);
+        if (existing) {
+            return existing;
+        }
+
+        const files: CoverageHistoryEntry['files'] = {};
+        for (const file of report.files) {
+            const { linesFound, linesHit } = summarizeCoverage([file]);
+            files[file.file] = { linesFound, linesHit };
+        }
+        const entry: CoverageHistoryEntry = {
+            timestamp: report.generatedAt,
+            format: report.format,
+            taskId,
+            ...summarizeCoverage(report.files),
+            files
+        };
+
+        this.history.push(entry);
+        this.history.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        this.store?.append(entry);
+        return entry;
+    }
+
+    /**
+     * Последний отчет, созданный до момента before (база для сравнения изменений задачи)
+     */
+    getBaseline(before: Date): CoverageHistoryEntry | null {
+        const time = before.toISOString();
+        const earlier = this.history.filter(entry => entry.timestamp < time);
+        return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+    }
+
+    getHistory(): CoverageHistoryEntry[] {
+        return [...this.history];
+    }
+}
+
+function getFile(files: Map<string, FileCoverage>, file: string): FileCoverage {
+    let coverage = files.get(file);
+    if (!coverage) {
+        coverage = { file, lines: {} };
+        files.set(file, coverage);
+    }
+    return coverage;
+}
+
+function addLineHits(coverage: FileCoverage, line: number, hits: number): void {
+    if (!Number.isFinite(line) || !Number.isFinite(hits)) {
+        return;
+    }
+    coverage.lines[line] = Math.max(coverage.lines[line] ?? 0, hits);
+}
+
+function toPercent(hit: number, found: number): number {
+    return found > 0 ? Math.round((hit / found) * 1000) / 10 : 100;
+}
+
+function toRelative(filePath: string, workspacePath: string): string {
+    const relative = path.isAbsolute(filePath) ? path.relative(workspacePath, filePath) : filePath;
+    return relative.replace(/\\/g, '/').replace(/^\.\//, '');
+}
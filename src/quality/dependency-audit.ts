@@ -0,0 +1,566 @@
+/**
+ * Офлайн аудит зависимостей: уязвимости по локальной базе advisories (импорт дампов OSV)
+ * и лицензии пакетов по списку разрешенных
+ *
+ * Настройки - раздел audit в .cursor/config/quality.json:
+ * { "audit": { "allowedLicenses": ["MIT", "Apache-2.0"], "ignore": ["GHSA-xxxx-xxxx-xxxx", "left-pad"], "includeDev": true } }
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LOCKFILE_NAMES, LockedPackage, PackageEcosystem, normalizePythonName, parseLockfile } from './lockfiles';
+import { loadQualityConfig } from './quality-checks';
+
+export type AdvisorySeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/**
+ * Событие диапазона OSV
+ */
+export interface AdvisoryEvent {
+    introduced?: string;
+    fixed?: string;
+    last_affected?: string;
+    limit?: string;
+}
+
+/**
+ * Затронутый пакет advisory (только поддерживаемые экосистемы)
+ */
+export interface AdvisoryAffected {
+    ecosystem: PackageEcosystem;
+    name: string;
+    ranges: { type: string; events: AdvisoryEvent[] }[];
+    versions: string[];
+}
+
+/**
+ * Advisory в локальной базе (сокращенная запись OSV)
+ */
+export interface Advisory {
+    id: string;
+    aliases: string[];
+    summary: string;
+    severity: AdvisorySeverity;
+    modified: string;
+    affected: AdvisoryAffected[];
+}
+
+/**
+ * Уязвимая версия пакета
+ */
+export interface Vulnerability {
+    package: LockedPackage;
+    advisoryId: string;
+    aliases: string[];
+    summary: string;
+    severity: AdvisorySeverity;
+    // Ближайшая исправленная версия
+    fixedIn?: string;
+}
+
+/**
+ * Пакет с лицензией не из списка разрешенных
+ */
+export interface LicenseViolation {
+    package: LockedPackage;
+    license: string;
+}
+
+/**
+ * Настройки аудита
+ */
+export interface DependencyAuditConfig {
+    allowedLicenses?: string[];
+    // id advisory (или алиасы) и имена пакетов, исключенные из аудита
+    ignore?: string[];
+    // Проверять dev-зависимости (по умолчанию нет)
+    includeDev?: boolean;
+}
+
+export interface DependencyAuditResult {
+    timestamp: string;
+    lockfiles: string[];
+    packages: number;
+    advisories: number;
+    vulnerabilities: Vulnerability[];
+    licenseViolations: LicenseViolation[];
+}
+
+/**
+ * Хранилище локальной базы advisories
+ */
+export interface AdvisoryStore {
+    load(): Advisory[];
+    save(advisories: Advisory[]): void;
+}
+
+/**
+ * Путь локальной базы advisories относительно корня workspace
+ */
+export const ADVISORY_DATABASE_PATH = '.cursor/advisories/osv.jsonl';
+
+/**
+ * Разрешенные лицензии по умолчанию - пермиссивные
+ */
+export const DEFAULT_ALLOWED_LICENSES = [
+    'MIT', 'MIT-0', 'ISC', '0BSD', 'BSD-2-Clause', 'BSD-3-Clause', 'Apache-2.0', 'Unlicense', 'CC0-1.0',
+    'CC-BY-3.0', 'CC-BY-4.0', 'Zlib', 'BlueOak-1.0.0', 'Python-2.0', 'PSF-2.0', 'MPL-2.0', 'WTFPL', 'BSL-1.0'
+];
+
+const OSV_ECOSYSTEMS: Record<string, PackageEcosystem> = { npm: 'npm', pypi: 'PyPI', packagist: 'Packagist' };
+
+const SEVERITY_NAMES: Record<string, AdvisorySeverity> = {
+    critical: 'critical',
+    high: 'high',
+    moderate: 'medium',
+    medium: 'medium',
+    low: 'low'
+};
+
+const SEVERITY_ORDER: AdvisorySeverity[] = ['critical', 'high', 'medium', 'low'];
+
+// Этапы версии: dev < alpha < beta < rc < релиз < post
+const VERSION_STAGES: Record<string, number> = {
+    dev: 0, alpha: 1, a: 1, beta: 2, b: 2, rc: 3, c: 3, pre: 3, preview: 3,
+    post: 5, rev: 5, r: 5, p: 5, pl: 5, patch: 5
+};
+const RELEASE_STAGE = 4;
+const UNKNOWN_PRERELEASE_STAGE = 1;
+
+/**
+ * Сравнить версии (semver, PEP 440, composer); результат как у sort
+ */
+export function compareVersions(a: string, b: string): number {
+    const left = parseVersion(a);
+    const right = parseVersion(b);
+
+    for (let i = 0; i < Math.max(left.release.length, right.release.length); i++) {
+        const diff = (left.release[i] || 0) - (right.release[i] || 0);
+        if (diff !== 0) {
+            return Math.sign(diff);
+        }
+    }
+    if (left.stage !== right.stage) {
+        return Math.sign(left.stage - right.stage);
+    }
+
+    for (let i = 0; i < Math.max(left.suffix.length, right.suffix.length); i++) {
+        const x = left.suffix[i];
+        const y = right.suffix[i];
+        if (x === undefined || y === undefined) {
+            return x === undefined ? -1 : 1;
+        }
+        const xNumeric = /^\d+$/.test(x);
+        const yNumeric = /^\d+$/.test(y);
+        if (xNumeric && yNumeric) {
+            const diff = Number(x) - Number(y);
+            if (diff !== 0) {
+                return Math.sign(diff);
+            }
+        } else if (xNumeric !== yNumeric) {
+            return xNumeric ? -1 : 1;
+        } else if (x !== y) {
+            return x < y ? -1 : 1;
+        }
+    }
+    return 0;
+}
+
+function parseVersion(version: string): { release: number[]; stage: number; suffix: string[] } {
+    // Метаданные сборки (+build) и эпоха PEP 440 (1!) на сравнение не влияют
+    const clean = version.trim().toLowerCase().replace(/^[v=]+/, '').replace(/^\d+!/, '').replace(/\+.*$/, '');
+    const match = /^(\d+(?:\.\d+)*)(.*)$/.exec(clean);
+    if (!match) {
+        return { release: [], stage: UNKNOWN_PRERELEASE_STAGE, suffix: [clean] };
+    }
+
+    const release = match[1].split('.').map(Number);
+    const rest = match[2].replace(/^[-._]/, '');
+    if (!rest) {
+        return { release, stage: RELEASE_STAGE, suffix: [] };
+    }
+
+    const suffix = rest.split(/[-._]|(?<=\d)(?=[a-z])|(?<=[a-z])(?=\d)/).filter(part => part.length > 0);
+    const stage = VERSION_STAGES[suffix[0]];
+    return stage === undefined
+        ? { release, stage: UNKNOWN_PRERELEASE_STAGE, suffix }
+        : { release, stage, suffix: suffix.slice(1) };
+}
+
+/**
+ * Затрагивает ли advisory версию пакета; fixedIn - ближайшая исправленная версия
+ */
+export function matchAdvisory(advisory: Advisory, pkg: LockedPackage): { affected: boolean; fixedIn?: string } {
+    let affected = false;
+    const fixes: string[] = [];
+
+    for (const entry of advisory.affected) {
+        if (entry.ecosystem !== pkg.ecosystem || entry.name !== packageName(pkg.ecosystem, pkg.name)) {
+            continue;
+        }
+        if (entry.versions.some(version => compareVersions(version, pkg.version) === 0)) {
+            affected = true;
+        }
+        for (const range of entry.ranges) {
+            // Диапазоны коммитов (GIT) к версиям из lock-файлов не применимы
+            if (range.type === 'GIT' || !isInRange(pkg.version, range.events)) {
+                continue;
+            }
+            affected = true;
+            fixes.push(...range.events
+                .map(event => event.fixed)
+                .filter((fixed): fixed is string => fixed !== undefined && compareVersions(fixed, pkg.version) > 0));
+        }
+    }
+
+    return { affected, fixedIn: affected && fixes.length > 0 ? fixes.sort(compareVersions)[0] : undefined };
+}
+
+function isInRange(version: string, events: AdvisoryEvent[]): boolean {
+    const eventVersion = (event: AdvisoryEvent) => event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0';
+    const sorted = [...events].sort((a, b) => {
+        const x = eventVersion(a);
+        const y = eventVersion(b);
+        return x === '0' ? (y === '0' ? 0 : -1) : y === '0' ? 1 : compareVersions(x, y);
+    });
+
+    // События по возрастанию версий: последнее пройденное определяет состояние
+    let affected = false;
+    for (const event of sorted) {
+        if (event.introduced !== undefined) {
+            if (event.introduced === '0' || compareVersions(version, event.introduced) >= 0) {
+                affected = true;
+            }
+        } else if (event.fixed !== undefined || event.limit !== undefined) {
+            if (compareVersions(version, (event.fixed ?? event.limit)!) >= 0) {
+                affected = false;
+            }
+        } else if (event.last_affected !== undefined && compareVersions(version, event.last_affected) > 0) {
+            affected = false;
+        }
+    }
+    return affected;
+}
+
+/**
+ * Advisory из записи OSV; null - запись отозвана или не касается поддерживаемых экосистем
+ */
+export function fromOsv(record: any): Advisory | null {
+    if (!record || typeof record.id !== 'string' || record.withdrawn) {
+        return null;
+    }
+
+    const affected: AdvisoryAffected[] = [];
+    let severity: AdvisorySeverity | undefined = SEVERITY_NAMES[String(record.database_specific?.severity || '').toLowerCase()];
+    for (const entry of Array.isArray(record.affected) ? record.affected : []) {
+        const ecosystem = OSV_ECOSYSTEMS[String(entry.package?.ecosystem || '').toLowerCase()];
+        if (!ecosystem || !entry.package.name) {
+            continue;
+        }
+        affected.push({
+            ecosystem,
+            name: packageName(ecosystem, entry.package.name),
+            ranges: (entry.ranges || []).map((range: any) => ({ type: range.type, events: range.events || [] })),
+            versions: entry.versions || []
+        });
+        severity = severity || SEVERITY_NAMES[String(entry.ecosystem_specific?.severity || '').toLowerCase()];
+    }
+    if (affected.length === 0) {
+        return null;
+    }
+
+    return {
+        id: record.id,
+        aliases: record.aliases || [],
+        summary: record.summary || String(record.details || '').split('\n')[0].substring(0, 200),
+        severity: severity || 'medium',
+        modified: record.modified || '',
+        affected
+    };
+}
+
+function packageName(ecosystem: PackageEcosystem, name: string): string {
+    return ecosystem === 'PyPI' ? normalizePythonName(name) : ecosystem === 'Packagist' ? name.toLowerCase() : name;
+}
+
+/**
+ * Соответствует ли SPDX выражение (OR, AND, WITH, скобки) списку разрешенных лицензий
+ */
+export function isLicenseAllowed(expression: string, allowed: string[]): boolean {
+    const allowedSet = new Set(allowed.map(license => license.toLowerCase()));
+    const tokens = expression.replace(/[()]/g, ' $& ').split(/\s+/).filter(token => token.length > 0);
+    let position = 0;
+
+    // Разбор с приоритетом AND над OR
+    const parseOr = (): boolean => {
+        let result = parseAnd();
+        while (tokens[position]?.toUpperCase() === 'OR') {
+            position++;
+            result = parseAnd() || result;
+        }
+        return result;
+    };
+    const parseAnd = (): boolean => {
+        let result = parseTerm();
+        while (tokens[position]?.toUpperCase() === 'AND') {
+            position++;
+            result = parseTerm() && result;
+        }
+        return result;
+    };
+    const parseTerm = (): boolean => {
+        const token = tokens[position++];
+        if (token === '(') {
+            const result = parseOr();
+            position++; // )
+            return result;
+        }
+        if (tokens[position]?.toUpperCase() === 'WITH') {
+            position += 2; // Исключение к лицензии не меняет ее совместимость
+        }
+        return token !== undefined && allowedSet.has(token.toLowerCase().replace(/\+$|-or-later$|-only$/, ''));
+    };
+
+    return parseOr();
+}
+
+/**
+ * Проверить пакеты по advisories и списку лицензий
+ */
+export function auditPackages(
+    packages: LockedPackage[],
+    advisories: Advisory[],
+    config: DependencyAuditConfig = {}
+): { vulnerabilities: Vulnerability[]; licenseViolations: LicenseViolation[] } {
+    const ignored = new Set(config.ignore || []);
+    const allowed = config.allowedLicenses || DEFAULT_ALLOWED_LICENSES;
+    const index = indexAdvisories(advisories);
+    const vulnerabilities: Vulnerability[] = [];
+    const licenseViolations: LicenseViolation[] = [];
+
+    for (const pkg of packages) {
+        if ((pkg.dev && !config.includeDev) || ignored.has(pkg.name)) {
+            continue;
+        }
+
+        for (const advisory of index.get(`${pkg.ecosystem}:${packageName(pkg.ecosystem, pkg.name)}`) || []) {
+            if (ignored.has(advisory.id) || advisory.aliases.some(alias => ignored.has(alias))) {
+                continue;
+            }
+            const match = matchAdvisory(advisory, pkg);
+            if (match.affected) {
+                vulnerabilities.push({
+                    package: pkg,
+                    advisoryId: advisory.id,
+                    aliases: advisory.aliases,
+                    summary: advisory.summary,
+                    severity: advisory.severity,
+                    fixedIn: match.fixedIn
+                });
+            }
+        }
+
+        // Пакет без известной лицензии не считается нарушением
+        if (pkg.license && !/^SEE LICENSE/i.test(pkg.license) && !isLicenseAllowed(pkg.license, allowed)) {
+            licenseViolations.push({ package: pkg, license: pkg.license });
+        }
+    }
+
+    vulnerabilities.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+    return { vulnerabilities, licenseViolations };
+}
+
+function indexAdvisories(advisories: Advisory[]): Map<string, Advisory[]> {
+    const index = new Map<string, Advisory[]>();
+    for (const advisory of advisories) {
+        const keys = new Set(advisory.affected.map(entry => `${entry.ecosystem}:${entry.name}`));
+        for (const key of keys) {
+            index.set(key, [...(index.get(key) || []), advisory]);
+        }
+    }
+    return index;
+}
+
+/**
+ * База advisories в JSONL (по записи на строку)
+ */
+export class JournalAdvisoryStore implements AdvisoryStore {
+    constructor(private filePath: string) {}
+
+    load(): Advisory[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const advisories: Advisory[] = [];
+        for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                advisories.push(JSON.parse(line));
+            } catch (error) {
+                // Поврежденная запись пропускается
+            }
+        }
+        return advisories;
+    }
+
+    save(advisories: Advisory[]): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, advisories.map(advisory => JSON.stringify(advisory) + '\n').join(''), 'utf-8');
+    }
+}
+
+/**
+ * Аудит зависимостей workspace по локальной базе advisories
+ */
+export class DependencyAuditor {
+    private static instance: DependencyAuditor;
+    private advisories: Advisory[] | null = null;
+
+    constructor(private workspacePath: string | null, private store: AdvisoryStore | null) {}
+
+    /**
+     * Получить аудитор текущего workspace (Singleton)
+     */
+    static getInstance(): DependencyAuditor {
+        if (!DependencyAuditor.instance) {
+            const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || null;
+            DependencyAuditor.instance = new DependencyAuditor(
+                workspacePath,
+                workspacePath ? new JournalAdvisoryStore(path.join(workspacePath, ADVISORY_DATABASE_PATH)) : null
+            );
+        }
+        return DependencyAuditor.instance;
+    }
+
+    getAdvisories(): Advisory[] {
+        if (!this.advisories) {
+            this.advisories = this.store ? this.store.load() : [];
+        }
+        return this.advisories;
+    }
+
+    getConfig(): DependencyAuditConfig {
+        return this.workspacePath ? loadQualityConfig(this.workspacePath).audit || {} : {};
+    }
+
+    /**
+     * Импортировать записи OSV из JSON файлов или каталогов (распакованные дампы osv.dev);
+     * запись с тем же id заменяется более новой
+     */
+    importAdvisories(paths: string[]): { imported: number; total: number } {
+        const advisories = new Map(this.getAdvisories().map(advisory => [advisory.id, advisory]));
+        let imported = 0;
+
+        for (const file of paths.flatMap(listJsonFiles)) {
+            let content: any;
+            try {
+                content = JSON.parse(fs.readFileSync(file, 'utf-8'));
+            } catch (error) {
+                console.error(`DependencyAuditor: Skipping ${file}:`, error);
+                continue;
+            }
+
+            // Одна запись, массив записей или ответ querybatch ({ vulns: [...] })
+            const records = Array.isArray(content) ? content : Array.isArray(content?.vulns) ? content.vulns : [content];
+            for (const record of records) {
+                const advisory = fromOsv(record);
+                const existing = advisory && advisories.get(advisory.id);
+                if (advisory && (!existing || existing.modified <= advisory.modified)) {
+                    advisories.set(advisory.id, advisory);
+                    imported++;
+                }
+            }
+        }
+
+        this.advisories = Array.from(advisories.values());
+        this.store?.save(this.advisories);
+        console.log(`DependencyAuditor: Imported ${imported} advisories, ${this.advisories.length} in database`);
+        return { imported, total: this.advisories.length };
+    }
+
+    /**
+     * Зависимости из всех lock-файлов в корне workspace
+     */
+    loadPackages(): { lockfiles: string[]; packages: LockedPackage[] } {
+        const lockfiles: string[] = [];
+        const packages: LockedPackage[] = [];
+        if (!this.workspacePath) {
+            return { lockfiles, packages };
+        }
+
+        for (const name of LOCKFILE_NAMES) {
+            const fullPath = path.join(this.workspacePath, name);
+            if (!fs.existsSync(fullPath)) {
+                continue;
+            }
+            try {
+                packages.push(...this.resolveLicenses(parseLockfile(name, fs.readFileSync(fullPath, 'utf-8'))));
+                lockfiles.push(name);
+            } catch (error) {
+                console.error(`DependencyAuditor: Could not parse ${name}:`, error);
+            }
+        }
+        return { lockfiles, packages };
+    }
+
+    /**
+     * Аудит зависимостей workspace
+     */
+    audit(): DependencyAuditResult {
+        const { lockfiles, packages } = this.loadPackages();
+        const advisories = this.getAdvisories();
+        return {
+            timestamp: new Date().toISOString(),
+            lockfiles,
+            packages: packages.length,
+            advisories: advisories.length,
+            ...auditPackages(packages, advisories, this.getConfig())
+        };
+    }
+
+    /**
+     * Лицензии npm пакетов, которых нет в lock-файле, - из установленного пакета той же версии
+     */
+    resolveLicenses(packages: LockedPackage[]): LockedPackage[] {
+        return packages.map(pkg => {
+            if (pkg.license || pkg.ecosystem !== 'npm' || !this.workspacePath) {
+                return pkg;
+            }
+            const manifestPath = path.join(this.workspacePath, 'node_modules', pkg.name, 'package.json');
+            try {
+                const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+                const license = typeof manifest.license === 'string' ? manifest.license : manifest.license?.type;
+                return manifest.version === pkg.version && license ? { ...pkg, license } : pkg;
+            } catch (error) {
+                return pkg;
+            }
+        });
+    }
+}
+
+/**
+ * Краткое описание уязвимости для отчетов и промптов
+ */
+export function formatVulnerability(vulnerability: Vulnerability): string {
+    const { package: pkg } = vulnerability;
+    return `${pkg.name}@${pkg.version}: ${vulnerability.advisoryId} (${vulnerability.severity}) ${vulnerability.summary}` +
+        (vulnerability.fixedIn ? `, исправлено в ${vulnerability.fixedIn}` : '');
+}
+
+function listJsonFiles(target: string): string[] {
+    if (!fs.existsSync(target)) {
+        console.error(`DependencyAuditor: ${target} not found`);
+        return [];
+    }
+    if (!fs.statSync(target).isDirectory()) {
+        return [target];
+    }
+    return fs.readdirSync(target, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(target, entry.name);
+        return entry.isDirectory() ? listJsonFiles(fullPath) : entry.name.endsWith('.json') ? [fullPath] : [];
+    });
+}
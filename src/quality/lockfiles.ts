@@ -0,0 +1,249 @@
+/**
+ * Разбор lock-файлов: npm (package-lock.json), yarn (v1 и berry), pnpm, pip (requirements.txt),
+ * Poetry (poetry.lock) и Composer (composer.lock)
+ */
+
+import * as path from 'path';
+
+/**
+ * Экосистемы в терминах OSV
+ */
+export type PackageEcosystem = 'npm' | 'PyPI' | 'Packagist';
+
+/**
+ * Зафиксированная версия пакета
+ */
+export interface LockedPackage {
+    ecosystem: PackageEcosystem;
+    name: string;
+    version: string;
+    license?: string;
+    dev?: boolean;
+    source: string; // lock-файл относительно корня workspace
+}
+
+/**
+ * Поддерживаемые lock-файлы
+ */
+export const LOCKFILE_NAMES = ['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'requirements.txt', 'poetry.lock', 'composer.lock'];
+
+/**
+ * Является ли файл lock-файлом
+ */
+export function isLockfile(file: string): boolean {
+    return LOCKFILE_NAMES.includes(path.basename(file));
+}
+
+/**
+ * Разобрать lock-файл по имени; неизвестный файл - пустой список
+ */
+export function parseLockfile(file: string, content: string): LockedPackage[] {
+    const source = file.replace(/\\/g, '/');
+    switch (path.basename(file)) {
+        case 'package-lock.json':
+        case 'npm-shrinkwrap.json':
+            return parsePackageLock(content, source);
+        case 'yarn.lock':
+            return parseYarnLock(content, source);
+        case 'pnpm-lock.yaml':
+            return parsePnpmLock(content, source);
+        case 'requirements.txt':
+            return parseRequirements(content, source);
+        case 'poetry.lock':
+            return parsePoetryLock(content, source);
+        case 'composer.lock':
+            return parseComposerLock(content, source);
+        default:
+            return [];
+    }
+}
+
+/**
+ * package-lock.json: v2/v3 (packages) и v1 (вложенные dependencies)
+ */
+export function parsePackageLock(content: string, source: string): LockedPackage[] {
+    const lock = JSON.parse(content);
+    const packages: LockedPackage[] = [];
+
+    if (lock.packages) {
+        for (const [location, entry] of Object.entries<any>(lock.packages)) {
+            // "" - сам проект, ссылки на локальные пакеты без версии пропускаем
+            const index = location.lastIndexOf('node_modules/');
+            if (index === -1 || !entry.version || entry.link) {
+                continue;
+            }
+            packages.push({
+                ecosystem: 'npm',
+                name: entry.name || location.substring(index + 'node_modules/'.length),
+                version: entry.version,
+                license: typeof entry.license === 'string' ? entry.license : undefined,
+                dev: entry.dev === true || undefined,
+                source
+            });
+        }
+        return uniquePackages(packages);
+    }
+
+    const walk = (dependencies: Record<string, any> = {}) => {
+        for (const [name, entry] of Object.entries<any>(dependencies)) {
+            if (entry.version && !/^(file|link|git)/.test(entry.version)) {
+                packages.push({ ecosystem: 'npm', name, version: entry.version, dev: entry.dev === true || undefined, source });
+            }
+            walk(entry.dependencies);
+        }
+    };
+    walk(lock.dependencies);
+    return uniquePackages(packages);
+}
+
+/**
+ * yarn.lock: v1 (version "1.2.3") и berry (version: 1.2.3)
+ */
+export function parseYarnLock(content: string, source: string): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    let names: string[] = [];
+
+    for (const line of content.split('\n')) {
+        if (!line.trim() || line.startsWith('#')) {
+            continue;
+        }
+        if (!/^\s/.test(line)) {
+            // Заголовок блока: "pkg@^1.0.0", pkg@~1.1.0: или "pkg@npm:^1.0.0":
+            names = line.replace(/:\s*$/, '').split(',').map(spec => specName(spec.trim().replace(/^"|"$/g, '')));
+            continue;
+        }
+        const version = /^\s+version:?\s+"?([^"\s]+)"?/.exec(line);
+        if (version && names.length > 0 && names[0] !== '__metadata') {
+            for (const name of new Set(names)) {
+                packages.push({ ecosystem: 'npm', name, version: version[1], source });
+            }
+            names = [];
+        }
+    }
+    return uniquePackages(packages);
+}
+
+/**
+ * pnpm-lock.yaml: ключи раздела packages (/name/1.0.0 в v5, /name@1.0.0 в v6, name@1.0.0 в v9)
+ */
+export function parsePnpmLock(content: string, source: string): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    let inPackages = false;
+
+    for (const line of content.split('\n')) {
+        if (/^\S/.test(line)) {
+            inPackages = /^packages:\s*$/.test(line);
+            continue;
+        }
+        const key = inPackages && /^ {2}['"]?([^\s'"][^'"]*?)['"]?:\s*$/.exec(line);
+        if (!key) {
+            continue;
+        }
+
+        // Суффиксы peer-зависимостей: (react@18.2.0) в v6+, _react@18.2.0 в v5
+        const spec = key[1].replace(/^\//, '').replace(/\(.*$/, '');
+        const at = spec.lastIndexOf('@');
+        let name: string;
+        let version: string;
+        if (at > 0) {
+            name = spec.substring(0, at);
+            version = spec.substring(at + 1);
+        } else {
+            const slash = spec.lastIndexOf('/');
+            name = spec.substring(0, slash);
+            version = spec.substring(slash + 1).replace(/_.*$/, '');
+        }
+        if (name && /^\d/.test(version)) {
+            packages.push({ ecosystem: 'npm', name, version, source });
+        }
+    }
+    return uniquePackages(packages);
+}
+
+/**
+ * requirements.txt: только закрепленные версии (name==1.2.3)
+ */
+export function parseRequirements(content: string, source: string): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    for (const rawLine of content.split('\n')) {
+        const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*===?\s*([^\s;#]+)/.exec(rawLine);
+        if (match) {
+            packages.push({ ecosystem: 'PyPI', name: normalizePythonName(match[1]), version: match[2], source });
+        }
+    }
+    return uniquePackages(packages);
+}
+
+/**
+ * poetry.lock: блоки [[package]] с name, version и category
+ */
+export function parsePoetryLock(content: string, source: string): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    for (const block of content.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+        const field = (key: string) => new RegExp(`^${key}\\s*=\\s*"([^"]*)"`, 'm').exec(block.split(/^\[/m)[0])?.[1];
+        const name = field('name');
+        const version = field('version');
+        if (name && version) {
+            packages.push({ ecosystem: 'PyPI', name: normalizePythonName(name), version, dev: field('category') === 'dev' || undefined, source });
+        }
+    }
+    return uniquePackages(packages);
+}
+
+/**
+ * composer.lock: packages и packages-dev с лицензиями
+ */
+export function parseComposerLock(content: string, source: string): LockedPackage[] {
+    const lock = JSON.parse(content);
+    const packages: LockedPackage[] = [];
+    for (const [list, dev] of [[lock.packages, false], [lock['packages-dev'], true]] as const) {
+        for (const entry of list || []) {
+            if (!entry.name || !entry.version) {
+                continue;
+            }
+            packages.push({
+                ecosystem: 'Packagist',
+                name: String(entry.name).toLowerCase(),
+                version: String(entry.version).replace(/^v/, ''),
+                license: Array.isArray(entry.license) && entry.license.length > 0 ? entry.license.join(' OR ') : undefined,
+                dev: dev || undefined,
+                source
+            });
+        }
+    }
+    return uniquePackages(packages);
+}
+
+/**
+ * Ключ пакета для сравнения наборов зависимостей
+ */
+export function packageKey(pkg: Pick<LockedPackage, 'ecosystem' | 'name' | 'version'>): string {
+    return `${pkg.ecosystem}:${pkg.name}@${pkg.version}`;
+}
+
+/**
+ * Имя пакета PyPI по PEP 503
+ */
+export function normalizePythonName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+function specName(spec: string): string {
+    // @scope/name@range - первый @ относится к scope
+    const at = spec.indexOf('@', spec.startsWith('@') ? 1 : 0);
+    return at > 0 ? spec.substring(0, at) : spec;
+}
+
+function uniquePackages(packages: LockedPackage[]): LockedPackage[] {
+    const unique = new Map<string, LockedPackage>();
+    for (const pkg of packages) {
+        const existing = unique.get(packageKey(pkg));
+        // Пакет, нужный и в prod, не считается dev-зависимостью
+        if (!existing) {
+            unique.set(packageKey(pkg), pkg);
+        } else if (existing.dev && !pkg.dev) {
+            unique.set(packageKey(pkg), { ...existing, dev: undefined });
+        }
+    }
+    return Array.from(unique.values());
+}
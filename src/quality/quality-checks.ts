@@ -0,0 +1,280 @@
+/**
+ * Реестр проверок качества и настройки проверок workspace
+ *
+ * Настройки читаются из .cursor/config/quality.json:
+ * {
+ *   "checks": { "dependencies": { "enabled": false }, "security": { "weight": 30, "blocking": true } },
+ *   "rules": [
+ *     { "id": "no-db-in-controllers", "files": ["src/controllers/**"], "forbid": "\\bdb\\.query\\(",
+ *       "message": "Контроллеры обращаются к БД только через репозитории", "severity": "high" },
+ *     { "id": "openapi-routes", "files": ["src/routes/**"], "match": "router\\.(get|post)\\('([^']+)'",
+ *       "expectIn": { "file": "openapi.yaml", "text": "$2:" }, "message": "Маршрут без описания в OpenAPI" },
+ *     { "id": "architecture", "command": "npm run check:architecture", "message": "Нарушены границы модулей" }
+ *   ],
+ *   "audit": { "allowedLicenses": ["MIT", "Apache-2.0"], "ignore": ["GHSA-xxxx-xxxx-xxxx"] }
+ * }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentSolution } from '../agents/local-agent';
+import { globToRegExp } from '../orchestrator/context-assembler';
+import { runProcess } from '../agents/worker/process-runner';
+import type { QualityIssue } from './quality-controller';
+import type { DependencyAuditConfig } from './dependency-audit';
+
+/**
+ * Общий контекст проверок одного решения; results - итоги уже выполненных проверок
+ */
+export interface QualityCheckContext {
+    solution: AgentSolution;
+    workspacePath?: string;
+    results: Map<string, QualityCheckOutcome>;
+}
+
+/**
+ * Итог проверки
+ */
+export interface QualityCheckOutcome {
+    issues: QualityIssue[];
+    // Решение не проходит независимо от балла
+    blocking?: boolean;
+    // Проверку не удалось выполнить по существу (причина); замечаний нет, но и подтверждения тоже
+    unverified?: string;
+    details?: any;
+}
+
+/**
+ * Проверка качества; weight - штраф за замечание (переопределяется в quality.json)
+ */
+export interface QualityCheck {
+    id: string;
+    description: string;
+    weight: number;
+    run(context: QualityCheckContext): Promise<QualityCheckOutcome>;
+    // Свой расчет штрафа (по умолчанию weight за каждое замечание)
+    penalty?(outcome: QualityCheckOutcome, weight: number): number;
+}
+
+/**
+ * Настройки проверки в workspace
+ */
+export interface QualityCheckSettings {
+    enabled?: boolean;
+    weight?: number;
+    // Важность всех замечаний проверки
+    severity?: QualityIssue['severity'];
+    // true - любое замечание не пропускает решение, false - проверка влияет только на балл
+    blocking?: boolean;
+}
+
+/**
+ * Правило проекта: запрещенный или обязательный шаблон в измененных файлах,
+ * ссылка на другой файл (expectIn, $n - группы match) или внешняя команда
+ */
+export interface QualityRuleConfig extends QualityCheckSettings {
+    id: string;
+    message: string;
+    description?: string;
+    files?: string[];
+    forbid?: string;
+    require?: string;
+    match?: string;
+    expectIn?: { file: string; text: string };
+    command?: string;
+    timeoutMs?: number;
+}
+
+/**
+ * Содержимое .cursor/config/quality.json
+ */
+export interface QualityConfig {
+    checks?: Record<string, QualityCheckSettings>;
+    rules?: QualityRuleConfig[];
+    // Аудит зависимостей (см. dependency-audit.ts)
+    audit?: DependencyAuditConfig;
+}
+
+/**
+ * Путь настроек проверок относительно корня workspace
+ */
+export const QUALITY_CONFIG_PATH = '.cursor/config/quality.json';
+
+const DEFAULT_RULE_WEIGHT = 10;
+const DEFAULT_RULE_TIMEOUT_MS = 120000;
+const MAX_RULE_OUTPUT_CHARS = 500;
+
+/**
+ * Реестр проверок; проверки выполняются в порядке регистрации
+ */
+export class QualityCheckRegistry {
+    private checks: Map<string, QualityCheck> = new Map();
+
+    /**
+     * Зарегистрировать проверку; проверка с тем же id заменяется
+     */
+    register(check: QualityCheck): void {
+        this.checks.set(check.id, check);
+    }
+
+    unregister(id: string): boolean {
+        return this.checks.delete(id);
+    }
+
+    get(id: string): QualityCheck | undefined {
+        return this.checks.get(id);
+    }
+
+    list(): QualityCheck[] {
+        return Array.from(this.checks.values());
+    }
+}
+
+/**
+ * Прочитать настройки проверок workspace; без файла или при ошибке разбора - настройки по умолчанию
+ */
+export function loadQualityConfig(workspacePath: string): QualityConfig {
+    const configPath = path.join(workspacePath, QUALITY_CONFIG_PATH);
+    if (!fs.existsSync(configPath)) {
+        return {};
+    }
+
+    try {
+        const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+        return {
+            checks: config.checks && typeof config.checks === 'object' ? config.checks : undefined,
+            rules: Array.isArray(config.rules) ? config.rules : undefined,
+            audit: config.audit && typeof config.audit === 'object' ? config.audit : undefined
+        };
+    } catch (error) {
+        console.error(`QualityChecks: Invalid ${QUALITY_CONFIG_PATH}:`, error);
+        return {};
+    }
+}
+
+/**
+ * Проверки правил проекта; некорректные и отключенные правила пропускаются
+ */
+export function createRuleChecks(rules: QualityRuleConfig[] = []): QualityCheck[] {
+    const checks: QualityCheck[] = [];
+    for (const rule of rules) {
+        if (rule.enabled === false) {
+            continue;
+        }
+        try {
+            checks.push(createRuleCheck(rule));
+        } catch (error: any) {
+            console.error(`QualityChecks: Skipping rule ${rule?.id || '(no id)'}: ${error.message}`);
+        }
+    }
+    return checks;
+}
+
+/**
+ * Проверка по правилу проекта
+ */
+export function createRuleCheck(rule: QualityRuleConfig): QualityCheck {
+    if (!rule.id || !rule.message) {
+        throw new Error('rule requires id and message');
+    }
+    const kinds = [rule.forbid, rule.require, rule.match, rule.command].filter(kind => kind !== undefined);
+    if (kinds.length !== 1) {
+        throw new Error('rule requires exactly one of forbid, require, match, command');
+    }
+    if (rule.match !== undefined && !rule.expectIn) {
+        throw new Error('match requires expectIn');
+    }
+
+    const pattern = rule.forbid ?? rule.require ?? rule.match;
+    // Проверяем регулярное выражение при загрузке, чтобы ошибка не всплывала на каждом решении
+    const regExp = pattern !== undefined ? new RegExp(pattern, 'gm') : null;
+    const globs = (rule.files || []).map(globToRegExp);
+
+    return {
+        id: rule.id,
+        description: rule.description || rule.message,
+        weight: rule.weight ?? DEFAULT_RULE_WEIGHT,
+        run: async context => {
+            const issues = rule.command !== undefined
+                ? await runRuleCommand(rule, context)
+                : checkRuleFiles(rule, regExp!, globs, context);
+            return { issues, blocking: rule.blocking === true && issues.length > 0 };
+        }
+    };
+}
+
+function checkRuleFiles(rule: QualityRuleConfig, regExp: RegExp, globs: RegExp[], context: QualityCheckContext): QualityIssue[] {
+    if (!context.workspacePath) {
+        return [];
+    }
+
+    const issues: QualityIssue[] = [];
+    const issue = (message: string, file: string, line?: number): QualityIssue => ({
+        severity: rule.severity || 'medium',
+        type: 'custom',
+        message: `${rule.message}: ${message}`,
+        file,
+        line,
+        rule: rule.id
+    });
+
+    for (const change of context.solution.solution.codeChanges) {
+        const file = change.file.replace(/\\/g, '/');
+        const content = change.type === 'delete' ? null : readWorkspaceFile(context.workspacePath, file);
+        if (content === null || (globs.length > 0 && !globs.some(glob => glob.test(file)))) {
+            continue;
+        }
+
+        if (rule.require !== undefined) {
+            regExp.lastIndex = 0;
+            if (!regExp.test(content)) {
+                issues.push(issue(`нет обязательного шаблона /${rule.require}/`, file));
+            }
+            continue;
+        }
+
+        for (const match of content.matchAll(regExp)) {
+            const line = content.substring(0, match.index).split('\n').length;
+            if (rule.forbid !== undefined) {
+                issues.push(issue(match[0].trim(), file, line));
+                continue;
+            }
+
+            const expected = rule.expectIn!.text.replace(/\$(\d+)/g, (_, group) => match[Number(group)] ?? '');
+            const target = readWorkspaceFile(context.workspacePath, rule.expectIn!.file);
+            if (target === null || !target.includes(expected)) {
+                issues.push(issue(`"${expected}" нет в ${rule.expectIn!.file}`, file, line));
+            }
+        }
+    }
+    return issues;
+}
+
+async function runRuleCommand(rule: QualityRuleConfig, context: QualityCheckContext): Promise<QualityIssue[]> {
+    if (!context.workspacePath) {
+        return [];
+    }
+
+    const shell = process.platform === 'win32'
+        ? { command: 'cmd', args: ['/c', rule.command!] }
+        : { command: 'sh', args: ['-c', rule.command!] };
+    const result = await runProcess(shell, context.workspacePath, rule.timeoutMs ?? DEFAULT_RULE_TIMEOUT_MS);
+    if (result.exitCode === 0) {
+        return [];
+    }
+
+    const output = result.output.trim();
+    const tail = output.length > MAX_RULE_OUTPUT_CHARS ? '...' + output.slice(-MAX_RULE_OUTPUT_CHARS) : output;
+    return [{
+        severity: rule.severity || 'medium',
+        type: 'custom',
+        message: `${rule.message}: ${result.timedOut ? 'превышено время выполнения' : `код выхода ${result.exitCode}`}` +
+            (tail ? `\n${tail}` : ''),
+        rule: rule.id
+    }];
+}
+
+function readWorkspaceFile(workspacePath: string, file: string): string | null {
+    const fullPath = path.join(workspacePath, file);
+    return fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : null;
+}
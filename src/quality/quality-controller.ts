@@ -1,77 +1,150 @@
 /**
  * Контроллер качества решений агентов
  * 
- * Проверяет качество решений по критериям:
+ * Проверяет качество решений встроенными проверками реестра и правилами проекта
+ * (.cursor/config/quality.json, см. quality-checks.ts):
  * - Полнота кода (нет TODO/заглушек)
- * - Соответствие стандартам
- * - Безопасность
- * - Обновление зависимостей
+ * - Линтеры и проверка типов проекта на измененных файлах (без них - эвристики стандартов)
+ * - Покрытие измененных строк тестами (запуск затронутых тестов со сбором покрытия)
+ * - Безопасность (непроверенные данные в опасных вызовах, секреты в коде)
+ * - Зависимости: уязвимости (локальная база OSV) и лицензии пакетов, добавленных решением
  */
 
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { AgentSolution } from '../agents/local-agent';
+import { TaskTransactionManager, readCurrentText, saveOpenDocuments } from '../orchestrator/task-transaction';
+import { ProjectDependencyGraph } from '../orchestrator/project-dependency-graph';
+import { runTests } from '../agents/worker/test-runner';
+import { AnalyzerFinding, StaticAnalysisResult, runStaticAnalysis } from './static-analysis';
+import { scanSource } from './security-scanner';
+import { DependencyAuditor, auditPackages, formatVulnerability } from './dependency-audit';
+import { LockedPackage, isLockfile, packageKey, parseLockfile } from './lockfiles';
+import { CoverageDelta, CoverageTracker, compareCoverage, getModifiedLines, loadCoverageReport } from './coverage';
+import {
+    QualityCheck,
+    QualityCheckContext,
+    QualityCheckOutcome,
+    QualityCheckRegistry,
+    QUALITY_CONFIG_PATH,
+    createRuleChecks,
+    loadQualityConfig
+} from './quality-checks';
 
 export interface QualityReport {
     passed: boolean;
     score: number; // 0-100
     issues: QualityIssue[];
     recommendations: string[];
+    // Изменение покрытия файлов задачи (если во время задачи собиралось покрытие)
+    coverage?: CoverageDelta[];
+    // Проверки, не пропустившие решение независимо от балла
+    blockedBy?: string[];
+    // Проверки, которые не удалось выполнить (например, покрытие без тестов, затронутых изменениями)
+    unverified?: { check: string; reason: string }[];
 }
 
 export interface QualityIssue {
     severity: 'critical' | 'high' | 'medium' | 'low';
-    type: 'incomplete' | 'standards' | 'security' | 'dependencies' | 'other';
+    type: 'incomplete' | 'standards' | 'lint' | 'type-check' | 'coverage' | 'security' | 'dependencies' | 'custom' | 'other';
     message: string;
     file?: string;
     line?: number;
+    column?: number;
+    rule?: string;
+    // id проверки реестра
+    check?: string;
+    // Уверенность анализатора 0-1 (замечания безопасности)
+    confidence?: number;
 }
 
+const LINT_ERROR_PENALTY = 10;
+const LINT_WARNING_PENALTY = 2;
+const MAX_LINT_WARNING_PENALTY = 20;
+const TYPE_CHECK_ANALYZERS = ['tsc', 'phpstan'];
+const UNCOVERED_LINES_PENALTY = 3;
+const MIN_SECURITY_CONFIDENCE = 0.5;
+// Штраф за замечание зависимостей - вес проверки, умноженный на множитель важности
+const DEPENDENCY_SEVERITY_FACTORS: Record<QualityIssue['severity'], number> = { critical: 4, high: 3, medium: 2, low: 1 };
+const MAX_REPORTED_LINES = 10;
+const COVERAGE_RUN_TIMEOUT_MS = 300000; // 5 минут
+
 export class QualityController {
     private minAcceptableScore: number = 70;
+    private registry: QualityCheckRegistry = new QualityCheckRegistry();
+    private dependencyGraph?: ProjectDependencyGraph;
+    
+    constructor() {
+        this.registerBuiltinChecks();
+    }
     
     /**
      * Проверить качество решения
+     * Проверки реестра и правила проекта выполняются по порядку с настройками из .cursor/config/quality.json;
+     * до проверок сохраняются открытые документы файлов решения (анализаторы читают файлы с диска)
      */
     async validateSolution(solution: AgentSolution): Promise<QualityReport> {
         const issues: QualityIssue[] = [];
+        const blockedBy: string[] = [];
+        const unverified: { check: string; reason: string }[] = [];
         let score = 100;
         
         console.log(`QualityController: Validating solution ${solution.id} from ${solution.agentName}`);
         
-        // 1. Проверка на заглушки/TODO
-        const incompleteness = await this.checkCodeCompleteness(solution);
-        if (incompleteness.length > 0) {
-            issues.push(...incompleteness);
-            score -= incompleteness.length * 15; // -15 за каждую заглушку
-        }
+        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const config = workspacePath ? loadQualityConfig(workspacePath) : {};
+        const context: QualityCheckContext = { solution, workspacePath, results: new Map() };
         
-        // 2. Проверка соответствия стандартам
-        const standardIssues = this.checkStandards(solution);
-        if (standardIssues.length > 0) {
-            issues.push(...standardIssues);
-            score -= standardIssues.length * 10;
-        }
-        
-        // 3. Проверка безопасности
-        const securityIssues = await this.checkSecurity(solution);
-        if (securityIssues.length > 0) {
-            issues.push(...securityIssues);
-            score -= securityIssues.length * 20; // -20 за проблему безопасности
+        if (workspacePath) {
+            const record = TaskTransactionManager.getInstance().get(solution.taskId)?.record;
+            await saveOpenDocuments(workspacePath, [
+                ...solution.solution.codeChanges.filter(change => change.type !== 'delete').map(change => change.file),
+                ...(record?.files.map(file => file.path) || [])
+            ]);
         }
         
-        // 4. Проверка обновления зависимостей
-        const dependencyIssues = this.checkDependencies(solution);
-        if (dependencyIssues.length > 0) {
-            issues.push(...dependencyIssues);
-            score -= dependencyIssues.length * 5;
+        for (const check of [...this.registry.list(), ...createRuleChecks(config.rules)]) {
+            const settings = config.checks?.[check.id] || {};
+            if (settings.enabled === false) {
+                console.log(`QualityController: Check ${check.id} disabled`);
+                continue;
+            }
+            
+            let outcome: QualityCheckOutcome;
+            try {
+                outcome = await check.run(context);
+            } catch (error) {
+                console.error(`QualityController: Check ${check.id} failed:`, error);
+                continue;
+            }
+            context.results.set(check.id, outcome);
+            if (outcome.unverified) {
+                console.log(`QualityController: Check ${check.id} unverified: ${outcome.unverified}`);
+                unverified.push({ check: check.id, reason: outcome.unverified });
+            }
+            
+            const weight = settings.weight ?? check.weight;
+            score -= check.penalty ? check.penalty(outcome, weight) : outcome.issues.length * weight;
+            issues.push(...outcome.issues.map(issue => ({
+                ...issue,
+                severity: settings.severity || issue.severity,
+                check: check.id
+            })));
+            
+            const blocking = settings.blocking === undefined ? outcome.blocking : settings.blocking && outcome.issues.length > 0;
+            if (blocking) {
+                blockedBy.push(check.id);
+            }
         }
         
         // Минимальный балл = 0
         score = Math.max(0, score);
         
-        const passed = score >= this.minAcceptableScore;
+        const passed = score >= this.minAcceptableScore && blockedBy.length === 0;
         
-        console.log(`QualityController: Solution ${solution.id} score: ${score}/100 (${passed ? 'PASSED' : 'FAILED'})`);
+        console.log(`QualityController: Solution ${solution.id} score: ${score}/100 (${passed ? 'PASSED' : 'FAILED'})` +
+            (blockedBy.length > 0 ? `, blocked by ${blockedBy.join(', ')}` : ''));
         if (issues.length > 0) {
             console.log(`QualityController: Found ${issues.length} issues:`, issues.map(i => `${i.severity}: ${i.message}`));
         }
@@ -80,10 +153,114 @@ export class QualityController {
             passed,
             score,
             issues,
-            recommendations: this.generateRecommendations(issues)
+            recommendations: this.generateRecommendations(issues, unverified),
+            coverage: context.results.get('coverage')?.details,
+            blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+            unverified: unverified.length > 0 ? unverified : undefined
         };
     }
     
+    /**
+     * Зарегистрировать проверку (заменяет встроенную с тем же id)
+     */
+    registerCheck(check: QualityCheck): void {
+        this.registry.register(check);
+    }
+    
+    unregisterCheck(id: string): boolean {
+        return this.registry.unregister(id);
+    }
+    
+    getChecks(): QualityCheck[] {
+        return this.registry.list();
+    }
+    
+    /**
+     * Граф зависимостей проекта для выбора тестов, затронутых решением (проверка покрытия)
+     */
+    setDependencyGraph(graph?: ProjectDependencyGraph): void {
+        this.dependencyGraph = graph;
+    }
+    
+    /**
+     * Встроенные проверки; штрафы по умолчанию: заглушка -15, ошибка линтера -10 (предупреждение -2, не больше -20),
+     * стандарты -10, непокрытые изменения -3, безопасность до -20 (по уверенности), зависимости от -5 до -20 (по важности)
+     */
+    private registerBuiltinChecks(): void {
+        this.registry.register({
+            id: 'completeness',
+            description: 'Нет TODO и заглушек',
+            weight: 15,
+            run: async ({ solution }) => ({ issues: await this.checkCodeCompleteness(solution) })
+        });
+        
+        // Оценка по реальному числу ошибок и предупреждений линтеров и проверки типов
+        this.registry.register({
+            id: 'static-analysis',
+            description: 'Линтеры и проверка типов проекта на измененных файлах',
+            weight: LINT_ERROR_PENALTY,
+            run: async ({ solution }) => {
+                const analysis = await this.runAnalyzers(solution);
+                return { issues: analysis ? analysis.findings.map(finding => this.toQualityIssue(finding)) : [], details: analysis };
+            },
+            penalty: (outcome, weight) => {
+                const analysis: StaticAnalysisResult | null = outcome.details;
+                return analysis
+                    ? analysis.errors * weight + Math.min(analysis.warnings * LINT_WARNING_PENALTY, MAX_LINT_WARNING_PENALTY)
+                    : 0;
+            }
+        });
+        
+        // Эвристики по коду - только без анализаторов
+        this.registry.register({
+            id: 'standards',
+            description: 'Соответствие стандартам кода',
+            weight: 10,
+            run: async ({ solution, results }) => {
+                const analysis: StaticAnalysisResult | null | undefined = results.get('static-analysis')?.details;
+                return { issues: this.checkStandards(solution, !!analysis && analysis.runs.some(run => !run.skipped)) };
+            }
+        });
+        
+        // Снижение покрытия файла с непокрытыми изменениями не пропускает решение;
+        // без отчета о покрытии проверка помечается непроверенной
+        this.registry.register({
+            id: 'coverage',
+            description: 'Покрытие измененных строк тестами',
+            weight: UNCOVERED_LINES_PENALTY,
+            run: async ({ solution }) => {
+                const coverage = await this.checkCoverage(solution);
+                if ('unverified' in coverage) {
+                    return { issues: [], unverified: coverage.unverified };
+                }
+                const issues = this.coverageIssues(coverage);
+                return { issues, blocking: issues.some(issue => issue.severity === 'high'), details: coverage };
+            },
+            penalty: (outcome, weight) => outcome.issues.filter(issue => issue.severity === 'low').length * weight
+        });
+        
+        // Штраф за замечание безопасности пропорционален уверенности сканера
+        this.registry.register({
+            id: 'security',
+            description: 'Безопасность',
+            weight: 20,
+            run: async ({ solution }) => ({ issues: await this.checkSecurity(solution) }),
+            penalty: (outcome, weight) => Math.round(outcome.issues.reduce((sum, issue) => sum + weight * (issue.confidence ?? 1), 0))
+        });
+        
+        // Критическая уязвимость в добавленном пакете не пропускает решение
+        this.registry.register({
+            id: 'dependencies',
+            description: 'Уязвимости и лицензии зависимостей',
+            weight: 5,
+            run: async ({ solution }) => {
+                const issues = this.checkDependencies(solution);
+                return { issues, blocking: issues.some(issue => issue.severity === 'critical') };
+            },
+            penalty: (outcome, weight) => outcome.issues.reduce((sum, issue) => sum + weight * DEPENDENCY_SEVERITY_FACTORS[issue.severity], 0)
+        });
+    }
+    
     /**
      * Проверить код на полноту (нет TODO/заглушек)
      */
@@ -148,10 +325,117 @@ export class QualityController {
         return issues;
     }
     
+    /**
+     * Запустить линтеры и проверку типов проекта на измененных файлах решения
+     */
+    private async runAnalyzers(solution: AgentSolution): Promise<StaticAnalysisResult | null> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const files = solution.solution.codeChanges.filter(change => change.type !== 'delete').map(change => change.file);
+        if (!workspaceFolder || files.length === 0) {
+            return null;
+        }
+        
+        try {
+            const analysis = await runStaticAnalysis(workspaceFolder.uri.fsPath, files);
+            for (const run of analysis.runs) {
+                console.log(`QualityController: ${run.analyzer} ${run.skipped ? `skipped (${run.skipped})` : `found ${run.findings.length} issues`}`);
+            }
+            return analysis;
+        } catch (error) {
+            console.error('QualityController: Static analysis failed:', error);
+            return null;
+        }
+    }
+    
+    private toQualityIssue(finding: AnalyzerFinding): QualityIssue {
+        const typeCheck = TYPE_CHECK_ANALYZERS.includes(finding.analyzer);
+        return {
+            severity: finding.severity === 'warning' ? 'low' : typeCheck ? 'high' : 'medium',
+            type: typeCheck ? 'type-check' : 'lint',
+            message: `${finding.analyzer}${finding.rule ? ` ${finding.rule}` : ''}: ${finding.message}`,
+            file: finding.file,
+            line: finding.line,
+            column: finding.column,
+            rule: finding.rule
+        };
+    }
+    
+    /**
+     * Изменение покрытия файлов задачи: тесты, затронутые файлами транзакции задачи, запускаются
+     * со сбором покрытия (если не получилось - берется отчет, созданный в проекте после начала задачи);
+     * отчет сравнивается с последним отчетом до задачи, измененные строки - по снимкам транзакции
+     */
+    private async checkCoverage(solution: AgentSolution): Promise<CoverageDelta[] | { unverified: string }> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const record = TaskTransactionManager.getInstance().get(solution.taskId)?.record;
+        if (!workspaceFolder || !record || record.files.length === 0) {
+            return { unverified: 'нет изменений файлов в транзакции задачи' };
+        }
+        
+        const workspacePath = workspaceFolder.uri.fsPath;
+        const startedAt = new Date(record.startedAt);
+        const graph = this.dependencyGraph;
+        const run = await runTests(workspacePath, {
+            changedFiles: record.files.map(file => file.path),
+            getDependents: graph ? file => graph.getDependents(file) : undefined,
+            coverage: true,
+            timeoutMs: COVERAGE_RUN_TIMEOUT_MS
+        });
+        const report = run.coverage?.report || loadCoverageReport(workspacePath, startedAt);
+        if (!report) {
+            return {
+                unverified: !run.framework
+                    ? 'тестовый фреймворк проекта не найден'
+                    : !run.command
+                        ? 'нет тестов, затронутых изменениями'
+                        : `${run.command} не создал отчет о покрытии`
+            };
+        }
+        
+        const tracker = CoverageTracker.getInstance();
+        const baseline = tracker.getBaseline(startedAt);
+        tracker.record(report, solution.taskId);
+        
+        const modifiedLines: Record<string, number[]> = {};
+        for (const file of record.files) {
+            const fullPath = path.join(workspacePath, file.path);
+            // Удаленные файлы и файлы без снимка исходного содержимого не оцениваются
+            if (!fs.existsSync(fullPath) || (file.existed && file.content === undefined)) {
+                continue;
+            }
+            const before = file.existed ? Buffer.from(file.content!, 'base64').toString('utf-8') : null;
+            modifiedLines[file.path] = getModifiedLines(before, fs.readFileSync(fullPath, 'utf-8'));
+        }
+        
+        const deltas = compareCoverage(baseline, report, modifiedLines);
+        console.log(`QualityController: Coverage of ${deltas.length} changed files from ${report.path}`);
+        return deltas;
+    }
+    
+    private coverageIssues(deltas: CoverageDelta[]): QualityIssue[] {
+        return deltas
+            .filter(delta => delta.uncoveredModifiedLines.length > 0)
+            .map(delta => {
+                const lines = delta.uncoveredModifiedLines;
+                const listed = lines.slice(0, MAX_REPORTED_LINES).join(', ') + (lines.length > MAX_REPORTED_LINES ? ', ...' : '');
+                const dropped = delta.beforePercent !== undefined && delta.afterPercent < delta.beforePercent;
+                return {
+                    severity: dropped ? 'high' as const : 'low' as const,
+                    type: 'coverage' as const,
+                    message: dropped
+                        ? `Покрытие ${delta.file} снизилось с ${delta.beforePercent}% до ${delta.afterPercent}%, не покрыты измененные строки: ${listed}`
+                        : `Измененные строки ${delta.file} не покрыты тестами: ${listed}`,
+                    file: delta.file,
+                    line: lines[0]
+                };
+            });
+    }
+    
     /**
      * Проверить соответствие стандартам
+     * analyzed - изменение проверено линтерами, эвристика по типам не нужна
      */
-    private checkStandards(solution: AgentSolution): QualityIssue[] {
+    private checkStandards(solution: AgentSolution, analyzed: boolean): QualityIssue[] {
         const issues: QualityIssue[] = [];
         
         // Проверка длины имен переменных
@@ -177,7 +461,7 @@ export class QualityController {
         }
         
         // Проверка наличия типизации (для TypeScript)
-        for (const change of solution.solution.codeChanges) {
+        for (const change of analyzed ? [] : solution.solution.codeChanges) {
             if (change.file.endsWith('.ts') && change.description.includes('any')) {
                 issues.push({
                     severity: 'low',
@@ -192,58 +476,34 @@ export class QualityController {
     }
     
     /**
-     * Проверить безопасность
+     * Проверить безопасность: непроверенные данные в опасных вызовах и секреты в коде (security-scanner)
+     * Сканируется текущее содержимое: несохраненные правки открытого документа тоже
      */
     private async checkSecurity(solution: AgentSolution): Promise<QualityIssue[]> {
         const issues: QualityIssue[] = [];
         
-        const securityPatterns = [
-            {
-                pattern: /eval\s*\(/gi,
-                message: 'Использование eval() - серьезная уязвимость безопасности',
-                severity: 'critical' as const
-            },
-            {
-                pattern: /innerHTML\s*=/gi,
-                message: 'Использование innerHTML может привести к XSS уязвимости',
-                severity: 'high' as const
-            },
-            {
-                pattern: /document\.write\s*\(/gi,
-                message: 'Использование document.write() небезопасно',
-                severity: 'high' as const
-            },
-            {
-                pattern: /\$\{[^}]*\}/g,
-                message: 'Интерполяция строк в SQL/HTML может привести к injection атакам',
-                severity: 'high' as const
-            },
-            {
-                pattern: /password|secret|api[_-]?key/gi,
-                message: 'Обнаружены чувствительные данные. Убедитесь, что они не хардкодятся.',
-                severity: 'critical' as const
-            }
-        ];
-        
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
         if (workspaceFolder) {
             for (const change of solution.solution.codeChanges) {
                 if (change.type === 'delete') continue;
                 
                 try {
-                    const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, change.file);
-                    const fileContent = await vscode.workspace.fs.readFile(fileUri);
-                    const content = Buffer.from(fileContent).toString('utf-8');
+                    const content = readCurrentText(path.join(workspaceFolder.uri.fsPath, change.file));
+                    if (content === null) {
+                        continue;
+                    }
                     
-                    for (const { pattern, message, severity } of securityPatterns) {
-                        if (pattern.test(content)) {
-                            issues.push({
-                                severity,
-                                type: 'security',
-                                message,
-                                file: change.file
-                            });
-                        }
+                    for (const finding of scanSource(change.file, content)) {
+                        issues.push({
+                            severity: finding.confidence < MIN_SECURITY_CONFIDENCE ? 'low' : finding.severity,
+                            type: 'security',
+                            message: `${finding.message} (${finding.kind}, уверенность ${Math.round(finding.confidence * 100)}%)`,
+                            file: finding.file,
+                            line: finding.line,
+                            column: finding.column,
+                            rule: finding.rule,
+                            confidence: finding.confidence
+                        });
                     }
                 } catch (error) {
                     console.debug(`QualityController: Could not read file ${change.file} for security check`);
@@ -255,7 +515,9 @@ export class QualityController {
     }
     
     /**
-     * Проверить обновление зависимостей
+     * Проверить зависимости: пакеты, добавленные в lock-файлы решением (по снимкам транзакции задачи),
+     * сверяются с локальной базой advisories и списком разрешенных лицензий; lock-файл читается
+     * с несохраненными правками открытого документа
      */
     private checkDependencies(solution: AgentSolution): QualityIssue[] {
         const issues: QualityIssue[] = [];
@@ -280,31 +542,116 @@ export class QualityController {
             }
         }
         
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const record = TaskTransactionManager.getInstance().get(solution.taskId)?.record;
+        const lockfiles = new Set([
+            ...solution.solution.codeChanges.filter(change => change.type !== 'delete').map(change => change.file),
+            ...(record?.files.map(file => file.path) || [])
+        ].filter(isLockfile));
+        if (!workspaceFolder || lockfiles.size === 0) {
+            return issues;
+        }
+        
+        const auditor = DependencyAuditor.getInstance();
+        const added: LockedPackage[] = [];
+        for (const lockfile of lockfiles) {
+            try {
+                const current = readCurrentText(path.join(workspaceFolder.uri.fsPath, lockfile));
+                if (current === null) {
+                    continue;
+                }
+                // Без снимка исходного lock-файла все его пакеты считаются добавленными
+                const snapshot = record?.files.find(file => file.path === lockfile);
+                const before = new Set(snapshot?.existed && snapshot.content !== undefined
+                    ? parseLockfile(lockfile, Buffer.from(snapshot.content, 'base64').toString('utf-8')).map(packageKey)
+                    : []);
+                const after = parseLockfile(lockfile, current);
+                added.push(...auditor.resolveLicenses(after.filter(pkg => !before.has(packageKey(pkg)))));
+            } catch (error) {
+                console.error(`QualityController: Could not audit ${lockfile}:`, error);
+            }
+        }
+        
+        const audit = auditPackages(added, auditor.getAdvisories(), auditor.getConfig());
+        console.log(`QualityController: Audited ${added.length} added packages, ${audit.vulnerabilities.length} vulnerable`);
+        for (const vulnerability of audit.vulnerabilities) {
+            issues.push({
+                severity: vulnerability.severity,
+                type: 'dependencies',
+                message: `Уязвимая зависимость ${formatVulnerability(vulnerability)}`,
+                file: vulnerability.package.source,
+                rule: vulnerability.advisoryId
+            });
+        }
+        for (const violation of audit.licenseViolations) {
+            issues.push({
+                severity: 'medium',
+                type: 'dependencies',
+                message: `Лицензия ${violation.license} пакета ${violation.package.name}@${violation.package.version} не входит в разрешенные`,
+                file: violation.package.source,
+                rule: 'license'
+            });
+        }
+        
         return issues;
     }
     
     /**
      * Генерировать рекомендации на основе проблем
      */
-    private generateRecommendations(issues: QualityIssue[]): string[] {
+    private generateRecommendations(issues: QualityIssue[], unverified: { check: string; reason: string }[] = []): string[] {
         const recommendations: string[] = [];
         
         const criticalIssues = issues.filter(i => i.severity === 'critical');
-        const securityIssues = issues.filter(i => i.type === 'security');
+        const securityIssues = issues.filter(i => i.type === 'security' && i.severity !== 'low');
         const incompleteIssues = issues.filter(i => i.type === 'incomplete');
+        const typeErrors = issues.filter(i => i.type === 'type-check' && i.severity !== 'low');
+        const lintErrors = issues.filter(i => i.type === 'lint' && i.severity !== 'low');
+        const coverageDrops = issues.filter(i => i.type === 'coverage' && i.severity === 'high');
+        const ruleViolations = issues.filter(i => i.type === 'custom');
+        const vulnerableDependencies = issues.filter(i => i.type === 'dependencies' && i.rule && i.rule !== 'license');
+        const licenseViolations = issues.filter(i => i.type === 'dependencies' && i.rule === 'license');
         
         if (criticalIssues.length > 0) {
             recommendations.push(`Обнаружено ${criticalIssues.length} критических проблем. Необходимо исправить перед применением.`);
         }
         
         if (securityIssues.length > 0) {
-            recommendations.push(`Найдены проблемы безопасности. Рекомендуется пересмотреть код с точки зрения security best practices.`);
+            recommendations.push(`Найдены проблемы безопасности: ${this.formatLocations(securityIssues)}. Проверяйте и экранируйте данные пользователя, секреты храните вне кода.`);
         }
         
         if (incompleteIssues.length > 0) {
             recommendations.push(`Код содержит TODO/заглушки. Необходимо завершить реализацию всех функций.`);
         }
         
+        if (typeErrors.length > 0) {
+            recommendations.push(`Проверка типов нашла ${typeErrors.length} ошибок: ${this.formatLocations(typeErrors)}.`);
+        }
+        
+        if (lintErrors.length > 0) {
+            recommendations.push(`Линтер нашел ${lintErrors.length} ошибок: ${this.formatLocations(lintErrors)}.`);
+        }
+        
+        if (coverageDrops.length > 0) {
+            recommendations.push(`Изменения снизили покрытие ${coverageDrops.length} файлов: добавьте тесты для измененных строк (${this.formatLocations(coverageDrops)}).`);
+        }
+        
+        if (vulnerableDependencies.length > 0) {
+            recommendations.push(`Добавлены уязвимые зависимости: ${this.formatLocations(vulnerableDependencies)}. Обновите пакеты до исправленных версий.`);
+        }
+        
+        if (licenseViolations.length > 0) {
+            recommendations.push(`Лицензии ${licenseViolations.length} добавленных пакетов не входят в разрешенные (audit.allowedLicenses в ${QUALITY_CONFIG_PATH}): замените пакеты или согласуйте лицензии.`);
+        }
+        
+        if (ruleViolations.length > 0) {
+            recommendations.push(`Нарушены правила проекта (${ruleViolations.length}): ${this.formatLocations(ruleViolations)}.`);
+        }
+        
+        for (const { check, reason } of unverified) {
+            recommendations.push(`Проверка ${check} не выполнена: ${reason}.`);
+        }
+        
         if (recommendations.length === 0) {
             recommendations.push('Качество решения соответствует стандартам.');
         }
@@ -312,6 +659,11 @@ export class QualityController {
         return recommendations;
     }
     
+    private formatLocations(issues: QualityIssue[]): string {
+        const locations = issues.slice(0, 5).map(i => i.file ? `${i.file}${i.line ? `:${i.line}` : ''} ${i.message}` : i.message);
+        return locations.join('; ') + (issues.length > 5 ? ` и еще ${issues.length - 5}` : '');
+    }
+    
     /**
      * Установить минимальный приемлемый балл
      */
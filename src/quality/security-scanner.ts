@@ -0,0 +1,437 @@
+/**
+ * Статический анализ безопасности измененных файлов
+ *
+ * JS/TS разбирается в AST: находим опасные приемники (eval, innerHTML, child_process,
+ * сырые SQL запросы), до которых доходят данные пользователя (req.body, location, argv...)
+ * без санитизации. Во всех файлах ищутся секреты по известным форматам ключей
+ * и по энтропии строк, присвоенных переменным с «секретными» именами.
+ * Строка с комментарием `security-ignore` (или строка под ним) не проверяется;
+ * `security-ignore: sql-injection, secret` подавляет только указанные виды.
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+
+export type SecurityFindingKind = 'code-injection' | 'xss' | 'command-injection' | 'sql-injection' | 'secret';
+
+/**
+ * Замечание сканера; confidence - уверенность 0-1
+ */
+export interface SecurityFinding {
+    kind: SecurityFindingKind;
+    rule: string;
+    severity: 'critical' | 'high' | 'medium' | 'low';
+    confidence: number;
+    message: string;
+    file: string;
+    line: number;
+    column?: number;
+}
+
+/**
+ * Уровень заражения выражения: источник прямо в выражении или через переменную
+ */
+enum Taint {
+    None = 0,
+    Propagated = 1,
+    Direct = 2
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+const REQUEST_OBJECTS = /^(req|request|ctx)$/i;
+const REQUEST_FIELDS = new Set(['body', 'query', 'params', 'headers', 'cookies', 'rawBody', 'files']);
+const LOCATION_FIELDS = new Set(['search', 'hash', 'href', 'pathname']);
+const DOCUMENT_SOURCES = new Set(['document.URL', 'document.documentURI', 'document.referrer', 'document.cookie', 'window.name', 'process.argv']);
+const STORAGE_OBJECTS = new Set(['localStorage', 'sessionStorage', 'window.localStorage', 'window.sessionStorage']);
+
+const SANITIZER_PATTERN = /(escape|sanitiz|encode|quote)/i;
+const SANITIZER_FUNCTIONS = new Set(['parseInt', 'parseFloat', 'Number', 'Boolean', 'Math.floor', 'Math.round']);
+
+const CHILD_PROCESS_FUNCTIONS = new Set(['exec', 'execSync', 'spawn', 'spawnSync', 'execFile', 'execFileSync']);
+const RAW_SQL_METHODS = new Set(['raw', 'whereRaw', 'orderByRaw', 'havingRaw', 'joinRaw', '$queryRawUnsafe', '$executeRawUnsafe', 'unsafe']);
+const SQL_METHODS = new Set(['query', 'execute']);
+const SQL_RECEIVERS = /(db|pool|conn|connection|client|knex|sequelize|database|sql|tx|trx|mysql|pg)$/i;
+
+const HTML_PROPERTIES = new Set(['innerHTML', 'outerHTML']);
+
+/**
+ * Форматы ключей и токенов
+ */
+const SECRET_FORMATS: { rule: string; pattern: RegExp; message: string; severity: SecurityFinding['severity']; confidence: number }[] = [
+    { rule: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/, message: 'AWS access key ID', severity: 'critical', confidence: 0.95 },
+    { rule: 'aws-secret-key', pattern: /aws.{0,20}?(?:secret|private).{0,20}?['"][0-9a-zA-Z/+]{40}['"]/i, message: 'AWS secret access key', severity: 'critical', confidence: 0.9 },
+    { rule: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{82})\b/, message: 'GitHub token', severity: 'critical', confidence: 0.95 },
+    { rule: 'stripe-live-key', pattern: /\b(?:sk|rk)_live_[0-9a-zA-Z]{24,}\b/, message: 'Stripe live secret key', severity: 'critical', confidence: 0.95 },
+    { rule: 'stripe-test-key', pattern: /\b(?:sk|rk)_test_[0-9a-zA-Z]{24,}\b/, message: 'Stripe test secret key', severity: 'medium', confidence: 0.9 },
+    { rule: 'slack-token', pattern: /\bxox[baprs]-[0-9A-Za-z-]{10,}\b/, message: 'Slack token', severity: 'high', confidence: 0.9 },
+    { rule: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/, message: 'Google API key', severity: 'high', confidence: 0.9 },
+    { rule: 'private-key', pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/, message: 'Private key', severity: 'critical', confidence: 0.99 }
+];
+
+// Присваивание строки переменной/ключу с «секретным» именем (JS, Python, PHP, YAML, .env)
+const SECRET_ASSIGNMENT = /((?:[A-Za-z_$][\w$.-]*?)?(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|private[_-]?key|credential|auth)[\w$-]*)['"]?\s*(?:[:=]|=>)\s*['"`]([^'"`\s]{12,})['"`]/gi;
+const MIN_SECRET_ENTROPY = 3.5;
+
+/**
+ * Проверить файл: AST для JS/TS и секреты для всех файлов
+ */
+export function scanSource(file: string, content: string): SecurityFinding[] {
+    const findings = [
+        ...(SCRIPT_EXTENSIONS.includes(path.extname(file).toLowerCase()) ? scanScript(file, content) : []),
+        ...scanSecrets(file, content)
+    ];
+    const lines = content.split('\n');
+    return findings
+        .filter(finding => !isSuppressed(finding, lines))
+        .sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Поиск приемников, до которых доходят непроверенные данные, в JS/TS
+ */
+export function scanScript(file: string, content: string): SecurityFinding[] {
+    const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, scriptKind(file));
+    const findings: SecurityFinding[] = [];
+    const tainted = new Map<ts.Node, Set<string>>();
+    const childProcess = collectChildProcessBindings(sourceFile);
+
+    const report = (node: ts.Node, kind: SecurityFindingKind, rule: string, severity: SecurityFinding['severity'], taint: Taint, message: string) => {
+        const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        findings.push({
+            kind,
+            rule,
+            severity: taint === Taint.None ? 'medium' : severity,
+            confidence: taint === Taint.Direct ? 0.9 : taint === Taint.Propagated ? 0.75 : 0.4,
+            message,
+            file,
+            line: position.line + 1,
+            column: position.character + 1
+        });
+    };
+
+    const scopeOf = (node: ts.Node): ts.Node => {
+        let current: ts.Node | undefined = node.parent;
+        while (current && !ts.isFunctionLike(current) && !ts.isSourceFile(current)) {
+            current = current.parent;
+        }
+        return current || sourceFile;
+    };
+
+    const isTaintedName = (node: ts.Identifier): boolean => {
+        for (let scope: ts.Node | undefined = scopeOf(node); scope; scope = scope.parent && scopeOf(scope)) {
+            if (tainted.get(scope)?.has(node.text)) {
+                return true;
+            }
+            if (ts.isSourceFile(scope)) {
+                break;
+            }
+        }
+        return false;
+    };
+
+    const markTainted = (name: ts.BindingName | ts.Expression, scope: ts.Node) => {
+        if (ts.isIdentifier(name)) {
+            const names = tainted.get(scope) || new Set<string>();
+            names.add(name.text);
+            tainted.set(scope, names);
+        } else if (ts.isObjectBindingPattern(name) || ts.isArrayBindingPattern(name)) {
+            for (const element of name.elements) {
+                if (ts.isBindingElement(element)) {
+                    markTainted(element.name, scope);
+                }
+            }
+        }
+    };
+
+    const taintOf = (node: ts.Expression): Taint => {
+        if (isSource(node)) {
+            return Taint.Direct;
+        }
+        if (ts.isIdentifier(node)) {
+            return isTaintedName(node) ? Taint.Propagated : Taint.None;
+        }
+        if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+            return taintOf(node.expression);
+        }
+        if (ts.isCallExpression(node)) {
+            const callee = calleeName(node.expression);
+            if (SANITIZER_FUNCTIONS.has(callee) || SANITIZER_PATTERN.test(callee.split('.').pop() || '')) {
+                return Taint.None;
+            }
+            const receiver = ts.isPropertyAccessExpression(node.expression) ? taintOf(node.expression.expression) : Taint.None;
+            return Math.max(receiver, ...node.arguments.map(taintOf));
+        }
+        if (ts.isTemplateExpression(node)) {
+            return Math.max(Taint.None, ...node.templateSpans.map(span => taintOf(span.expression)));
+        }
+        if (ts.isBinaryExpression(node)) {
+            return Math.max(taintOf(node.left), taintOf(node.right));
+        }
+        if (ts.isConditionalExpression(node)) {
+            return Math.max(taintOf(node.whenTrue), taintOf(node.whenFalse));
+        }
+        if (ts.isArrayLiteralExpression(node)) {
+            return Math.max(Taint.None, ...node.elements.map(taintOf));
+        }
+        if (ts.isObjectLiteralExpression(node)) {
+            return Math.max(Taint.None, ...node.properties.map(property =>
+                ts.isPropertyAssignment(property) ? taintOf(property.initializer)
+                    : ts.isShorthandPropertyAssignment(property) ? taintOf(property.name)
+                        : ts.isSpreadAssignment(property) ? taintOf(property.expression) : Taint.None));
+        }
+        if (ts.isParenthesizedExpression(node) || ts.isAwaitExpression(node) || ts.isAsExpression(node) ||
+            ts.isNonNullExpression(node) || ts.isTypeAssertionExpression(node) || ts.isSpreadElement(node)) {
+            return taintOf(node.expression);
+        }
+        return Taint.None;
+    };
+
+    const checkCall = (node: ts.CallExpression | ts.NewExpression) => {
+        const callee = calleeName(node.expression);
+        const method = callee.split('.').pop() || '';
+        const args = node.arguments ? Array.from(node.arguments) : [];
+        const first = args[0];
+        if (!first) {
+            return;
+        }
+        const taint = taintOf(first);
+        const dynamic = !ts.isStringLiteralLike(first);
+
+        if (ts.isNewExpression(node)) {
+            if (callee === 'Function' && args.some(arg => !ts.isStringLiteralLike(arg))) {
+                report(node, 'code-injection', 'new-function', 'critical', Math.max(...args.map(taintOf)),
+                    'new Function() с динамическим кодом');
+            }
+            return;
+        }
+
+        if (callee === 'eval' && dynamic) {
+            report(node, 'code-injection', 'eval', 'critical', taint, taint ? 'eval() выполняет данные пользователя' : 'eval() с динамическим кодом');
+        } else if (['setTimeout', 'setInterval', 'window.setTimeout', 'window.setInterval'].includes(callee) && taint) {
+            report(node, 'code-injection', 'timer-string', 'critical', taint, `${callee}() выполняет строку из данных пользователя`);
+        } else if (['document.write', 'document.writeln'].includes(callee) && taint) {
+            report(node, 'xss', 'document-write', 'high', taint, `${callee}() с данными пользователя`);
+        } else if (method === 'insertAdjacentHTML' && args[1] && taintOf(args[1])) {
+            report(node, 'xss', 'insert-adjacent-html', 'high', taintOf(args[1]), 'insertAdjacentHTML() с данными пользователя');
+        } else if (isChildProcessCall(node.expression, childProcess) && taint) {
+            report(node, 'command-injection', 'child-process', 'critical', taint, `${callee}() запускает команду из данных пользователя`);
+        } else if ((RAW_SQL_METHODS.has(method) || (SQL_METHODS.has(method) && SQL_RECEIVERS.test(callee.split('.').slice(-2, -1)[0] || ''))) && taint) {
+            report(node, 'sql-injection', 'raw-sql', 'high', taint, `SQL запрос ${callee}() собран из данных пользователя - используйте параметры`);
+        }
+    };
+
+    const visit = (node: ts.Node) => {
+        if (ts.isVariableDeclaration(node) && node.initializer && taintOf(node.initializer)) {
+            markTainted(node.name, scopeOf(node));
+        } else if (ts.isBinaryExpression(node) && isAssignment(node.operatorToken.kind)) {
+            const rightTaint = taintOf(node.right);
+            if (rightTaint && ts.isIdentifier(node.left)) {
+                markTainted(node.left, scopeOf(node));
+            } else if (rightTaint && ts.isPropertyAccessExpression(node.left) && HTML_PROPERTIES.has(node.left.name.text)) {
+                report(node, 'xss', 'inner-html', 'high', rightTaint, `${node.left.name.text} из данных пользователя`);
+            }
+        } else if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+            checkCall(node);
+        } else if (ts.isJsxAttribute(node) && node.name.getText(sourceFile) === 'dangerouslySetInnerHTML' &&
+            node.initializer && ts.isJsxExpression(node.initializer) && node.initializer.expression) {
+            const taint = taintOf(node.initializer.expression);
+            if (taint) {
+                report(node, 'xss', 'dangerously-set-inner-html', 'high', taint, 'dangerouslySetInnerHTML из данных пользователя');
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return findings;
+}
+
+/**
+ * Поиск секретов: известные форматы ключей и строки с высокой энтропией в «секретных» переменных
+ */
+export function scanSecrets(file: string, content: string): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+    const lines = content.split('\n');
+
+    lines.forEach((text, index) => {
+        const known = new Set<string>();
+        for (const format of SECRET_FORMATS) {
+            const match = format.pattern.exec(text);
+            if (match) {
+                known.add(match[0]);
+                findings.push({
+                    kind: 'secret',
+                    rule: format.rule,
+                    severity: format.severity,
+                    confidence: format.confidence,
+                    message: `${format.message} в коде - храните секреты в переменных окружения или хранилище секретов`,
+                    file,
+                    line: index + 1,
+                    column: match.index + 1
+                });
+            }
+        }
+
+        for (const match of text.matchAll(SECRET_ASSIGNMENT)) {
+            const value = match[2];
+            if (Array.from(known).some(secret => secret.includes(value) || value.includes(secret)) ||
+                /^(\$\{|process\.env|<|%|\{\{)/.test(value) || shannonEntropy(value) < MIN_SECRET_ENTROPY) {
+                continue;
+            }
+            findings.push({
+                kind: 'secret',
+                rule: 'high-entropy-secret',
+                severity: 'high',
+                confidence: 0.7,
+                message: `Похоже на секрет в ${match[1]} - храните секреты в переменных окружения или хранилище секретов`,
+                file,
+                line: index + 1,
+                column: (match.index || 0) + 1
+            });
+        }
+    });
+    return findings;
+}
+
+/**
+ * Энтропия Шеннона строки (бит на символ)
+ */
+export function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) || 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+}
+
+function isSuppressed(finding: SecurityFinding, lines: string[]): boolean {
+    for (const text of [lines[finding.line - 1], lines[finding.line - 2]]) {
+        const match = text && /security-ignore(?::\s*([\w\s,-]+))?/.exec(text);
+        if (match) {
+            const kinds = match[1]?.split(',').map(kind => kind.trim()).filter(Boolean);
+            if (!kinds || kinds.length === 0 || kinds.includes(finding.kind) || kinds.includes(finding.rule)) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+/**
+ * Источник непроверенных данных: запрос (req.body, ctx.query...), адрес страницы, argv, storage, prompt()
+ */
+function isSource(node: ts.Expression): boolean {
+    if (ts.isPropertyAccessExpression(node)) {
+        const text = expressionText(node);
+        const receiver = expressionText(node.expression).split('.').pop() || '';
+        const field = node.name.text;
+        return DOCUMENT_SOURCES.has(text) ||
+            (REQUEST_FIELDS.has(field) && REQUEST_OBJECTS.test(receiver)) ||
+            (LOCATION_FIELDS.has(field) && receiver === 'location') ||
+            (field === 'value' && receiver === 'target');
+    }
+    if (ts.isCallExpression(node)) {
+        const callee = calleeName(node.expression);
+        return callee === 'prompt' || callee === 'window.prompt' ||
+            (ts.isPropertyAccessExpression(node.expression) && node.expression.name.text === 'getItem' &&
+                STORAGE_OBJECTS.has(expressionText(node.expression.expression)));
+    }
+    return false;
+}
+
+/**
+ * Имена, под которыми импортирован child_process: модуль целиком и отдельные функции
+ */
+function collectChildProcessBindings(sourceFile: ts.SourceFile): { modules: Set<string>; functions: Set<string> } {
+    const bindings = { modules: new Set<string>(), functions: new Set<string>() };
+    const isChildProcessModule = (specifier: ts.Node | undefined) =>
+        !!specifier && ts.isStringLiteralLike(specifier) && /^(node:)?child_process$/.test(specifier.text);
+
+    const bindName = (name: ts.BindingName) => {
+        if (ts.isIdentifier(name)) {
+            bindings.modules.add(name.text);
+        } else if (ts.isObjectBindingPattern(name)) {
+            for (const element of name.elements) {
+                const imported = (element.propertyName || element.name).getText(sourceFile);
+                if (CHILD_PROCESS_FUNCTIONS.has(imported) && ts.isIdentifier(element.name)) {
+                    bindings.functions.add(element.name.text);
+                }
+            }
+        }
+    };
+
+    const visit = (node: ts.Node) => {
+        if (ts.isImportDeclaration(node) && isChildProcessModule(node.moduleSpecifier) && node.importClause) {
+            const clause = node.importClause;
+            if (clause.name) {
+                bindings.modules.add(clause.name.text);
+            }
+            if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+                bindings.modules.add(clause.namedBindings.name.text);
+            } else if (clause.namedBindings) {
+                for (const element of clause.namedBindings.elements) {
+                    if (CHILD_PROCESS_FUNCTIONS.has((element.propertyName || element.name).text)) {
+                        bindings.functions.add(element.name.text);
+                    }
+                }
+            }
+        } else if (ts.isVariableDeclaration(node) && node.initializer && ts.isCallExpression(node.initializer) &&
+            calleeName(node.initializer.expression) === 'require' && isChildProcessModule(node.initializer.arguments[0])) {
+            bindName(node.name);
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return bindings;
+}
+
+function isChildProcessCall(callee: ts.Expression, bindings: { modules: Set<string>; functions: Set<string> }): boolean {
+    if (ts.isIdentifier(callee)) {
+        return bindings.functions.has(callee.text);
+    }
+    if (ts.isPropertyAccessExpression(callee) && CHILD_PROCESS_FUNCTIONS.has(callee.name.text)) {
+        const receiver = callee.expression;
+        return (ts.isIdentifier(receiver) && bindings.modules.has(receiver.text)) ||
+            (ts.isCallExpression(receiver) && calleeName(receiver.expression) === 'require' &&
+                !!receiver.arguments[0] && ts.isStringLiteralLike(receiver.arguments[0]) && /child_process$/.test(receiver.arguments[0].text));
+    }
+    return false;
+}
+
+function isAssignment(kind: ts.SyntaxKind): boolean {
+    return kind === ts.SyntaxKind.EqualsToken || kind === ts.SyntaxKind.PlusEqualsToken;
+}
+
+function calleeName(node: ts.Expression): string {
+    return ts.isIdentifier(node) || ts.isPropertyAccessExpression(node) ? expressionText(node) : '';
+}
+
+/**
+ * Текст цепочки обращений (a.b.c) без пробелов и вызовов
+ */
+function expressionText(node: ts.Expression): string {
+    if (ts.isIdentifier(node)) {
+        return node.text;
+    }
+    if (ts.isPropertyAccessExpression(node)) {
+        return `${expressionText(node.expression)}.${node.name.text}`;
+    }
+    if (node.kind === ts.SyntaxKind.ThisKeyword) {
+        return 'this';
+    }
+    return '';
+}
+
+function scriptKind(file: string): ts.ScriptKind {
+    const extension = path.extname(file).toLowerCase();
+    return extension === '.tsx' ? ts.ScriptKind.TSX
+        : extension === '.jsx' ? ts.ScriptKind.JSX
+            : ['.js', '.mjs', '.cjs'].includes(extension) ? ts.ScriptKind.JS
+                : ts.ScriptKind.TS;
+}
@@ -0,0 +1,350 @@
+/**
+ * Запуск линтеров и проверки типов проекта на измененных файлах
+ *
+ * Поддерживаются ESLint (или npm-скрипт lint без ESLint), tsc --noEmit, Ruff / flake8 и PHPStan.
+ * Анализатор запускается, только если в изменении есть его файлы и он настроен в проекте;
+ * не установленный анализатор пропускается без замечаний.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProcessResult, runProcess } from '../agents/worker/process-runner';
+
+export type AnalyzerId = 'eslint' | 'npm-lint' | 'tsc' | 'ruff' | 'flake8' | 'phpstan';
+
+/**
+ * Замечание анализатора
+ */
+export interface AnalyzerFinding {
+    analyzer: AnalyzerId;
+    file: string; // Относительно корня workspace
+    line?: number;
+    column?: number;
+    severity: 'error' | 'warning';
+    rule?: string;
+    message: string;
+}
+
+/**
+ * Запуск одного анализатора; skipped - причина, по которой результата нет
+ */
+export interface AnalyzerRun {
+    analyzer: AnalyzerId;
+    command: string;
+    findings: AnalyzerFinding[];
+    skipped?: string;
+    durationMs?: number;
+}
+
+/**
+ * Итог статического анализа изменения
+ */
+export interface StaticAnalysisResult {
+    runs: AnalyzerRun[];
+    findings: AnalyzerFinding[];
+    errors: number;
+    warnings: number;
+}
+
+/**
+ * Описание анализатора
+ */
+interface AnalyzerDefinition {
+    id: AnalyzerId;
+    extensions: RegExp;
+    isApplicable(workspacePath: string, previousRuns: AnalyzerRun[]): boolean;
+    command(workspacePath: string, files: string[]): { command: string; args: string[] };
+    parse(result: ProcessResult, workspacePath: string, files: string[]): AnalyzerFinding[];
+}
+
+export const DEFAULT_ANALYZER_TIMEOUT_MS = 120000; // 2 минуты
+
+const JS_EXTENSIONS = /\.(js|jsx|ts|tsx|mjs|cjs|vue)$/;
+const TS_EXTENSIONS = /\.(ts|tsx|mts|cts)$/;
+const PY_EXTENSIONS = /\.py$/;
+const PHP_EXTENSIONS = /\.php$/;
+
+const ESLINT_CONFIGS = [
+    'eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts',
+    '.eslintrc', '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.json', '.eslintrc.yaml', '.eslintrc.yml'
+];
+const PHPSTAN_CONFIGS = ['phpstan.neon', 'phpstan.neon.dist', 'phpstan.dist.neon'];
+const NOT_INSTALLED = 'not installed';
+
+const ANALYZERS: AnalyzerDefinition[] = [
+    {
+        id: 'eslint',
+        extensions: JS_EXTENSIONS,
+        isApplicable: workspacePath => hasEslintConfig(workspacePath),
+        command: (workspacePath, files) => ({
+            command: 'npx',
+            args: ['--no-install', 'eslint', '--format', 'json', '--no-error-on-unmatched-pattern', ...files]
+        }),
+        parse: (result, workspacePath) => parseEslintJson(result.stdout, workspacePath)
+    },
+    {
+        id: 'npm-lint',
+        extensions: JS_EXTENSIONS,
+        isApplicable: workspacePath => !hasEslintConfig(workspacePath) && !!readPackageJson(workspacePath)?.scripts?.lint,
+        command: () => ({ command: 'npm', args: ['run', 'lint', '--silent'] }),
+        parse: (result, workspacePath, files) => parseLineFindings('npm-lint', result, workspacePath, files)
+    },
+    {
+        id: 'tsc',
+        extensions: TS_EXTENSIONS,
+        isApplicable: workspacePath => fs.existsSync(path.join(workspacePath, 'tsconfig.json')),
+        command: () => ({ command: 'npx', args: ['--no-install', 'tsc', '--noEmit', '--pretty', 'false', '-p', 'tsconfig.json'] }),
+        // tsc проверяет весь проект - оставляем ошибки в измененных файлах
+        parse: (result, workspacePath, files) => {
+            const findings = parseTscOutput(result.output, workspacePath);
+            if (result.exitCode !== 0 && findings.length === 0) {
+                throw new Error('tsc failed without diagnostics');
+            }
+            return findings.filter(finding => files.includes(finding.file));
+        }
+    },
+    {
+        id: 'ruff',
+        extensions: PY_EXTENSIONS,
+        isApplicable: workspacePath => hasRuffConfig(workspacePath) || !hasFlake8Config(workspacePath),
+        command: (workspacePath, files) => ({
+            command: 'ruff',
+            args: ['check', '--output-format', 'json', '--exit-zero', ...files]
+        }),
+        parse: (result, workspacePath) => parseRuffJson(result.stdout, workspacePath)
+    },
+    {
+        id: 'flake8',
+        extensions: PY_EXTENSIONS,
+        // flake8 - настроенный линтер проекта или замена не установленному Ruff
+        isApplicable: (workspacePath, previousRuns) => !hasRuffConfig(workspacePath)
+            && (hasFlake8Config(workspacePath) || previousRuns.some(run => run.analyzer === 'ruff' && run.skipped === NOT_INSTALLED)),
+        command: (workspacePath, files) => ({ command: 'flake8', args: files }),
+        parse: (result, workspacePath, files) => parseLineFindings('flake8', result, workspacePath, files)
+    },
+    {
+        id: 'phpstan',
+        extensions: PHP_EXTENSIONS,
+        isApplicable: workspacePath => PHPSTAN_CONFIGS.some(config => fs.existsSync(path.join(workspacePath, config)))
+            || fs.existsSync(path.join(workspacePath, 'vendor', 'bin', 'phpstan')),
+        command: (workspacePath, files) => ({
+            command: fs.existsSync(path.join(workspacePath, 'vendor', 'bin', 'phpstan'))
+                ? path.join(workspacePath, 'vendor', 'bin', 'phpstan')
+                : 'phpstan',
+            args: ['analyse', '--error-format=json', '--no-progress', '--no-interaction', ...files]
+        }),
+        parse: (result, workspacePath) => parsePhpstanJson(result.stdout, workspacePath)
+    }
+];
+
+/**
+ * Запустить анализаторы, подходящие измененным файлам (пути относительно workspace)
+ * Анализаторы выполняются последовательно, чтобы не перегружать машину
+ */
+export async function runStaticAnalysis(
+    workspacePath: string,
+    changedFiles: string[],
+    timeoutMs: number = DEFAULT_ANALYZER_TIMEOUT_MS
+): Promise<StaticAnalysisResult> {
+    const existing = changedFiles
+        .map(file => file.replace(/\\/g, '/'))
+        .filter(file => fs.existsSync(path.join(workspacePath, file)));
+    const runs: AnalyzerRun[] = [];
+
+    for (const analyzer of ANALYZERS) {
+        const files = existing.filter(file => analyzer.extensions.test(file));
+        if (files.length === 0 || !analyzer.isApplicable(workspacePath, runs)) {
+            continue;
+        }
+
+        const command = analyzer.command(workspacePath, files);
+        const commandLine = [command.command, ...command.args].join(' ');
+        console.log(`StaticAnalysis: Running ${commandLine}`);
+        const result = await runProcess(command, workspacePath, timeoutMs);
+
+        if (result.notFound) {
+            runs.push({ analyzer: analyzer.id, command: commandLine, findings: [], skipped: NOT_INSTALLED });
+            continue;
+        }
+        if (result.timedOut) {
+            runs.push({ analyzer: analyzer.id, command: commandLine, findings: [], skipped: `timed out after ${timeoutMs}ms` });
+            continue;
+        }
+
+        try {
+            runs.push({ analyzer: analyzer.id, command: commandLine, findings: analyzer.parse(result, workspacePath, files), durationMs: result.durationMs });
+        } catch (error: any) {
+            // Неразбираемый вывод - обычно ошибка конфигурации анализатора, а не кода
+            console.error(`StaticAnalysis: Failed to parse ${analyzer.id} output:`, error);
+            runs.push({
+                analyzer: analyzer.id,
+                command: commandLine,
+                findings: [],
+                skipped: `unreadable output: ${result.output.trim().split('\n').slice(-3).join(' ')}`
+            });
+        }
+    }
+
+    const findings = runs.flatMap(run => run.findings);
+    return {
+        runs,
+        findings,
+        errors: findings.filter(finding => finding.severity === 'error').length,
+        warnings: findings.filter(finding => finding.severity === 'warning').length
+    };
+}
+
+/**
+ * Разбор ESLint --format json
+ */
+export function parseEslintJson(json: string, workspacePath: string): AnalyzerFinding[] {
+    const results: any[] = JSON.parse(json);
+    return results.flatMap(result => (result.messages || []).map((message: any): AnalyzerFinding => ({
+        analyzer: 'eslint',
+        file: toRelative(result.filePath, workspacePath),
+        line: message.line,
+        column: message.column,
+        severity: message.severity === 2 || message.fatal ? 'error' : 'warning',
+        rule: message.ruleId || undefined,
+        message: message.message
+    })));
+}
+
+/**
+ * Разбор вывода tsc --pretty false: file(line,col): error TS2322: message
+ */
+export function parseTscOutput(output: string, workspacePath: string): AnalyzerFinding[] {
+    const findings: AnalyzerFinding[] = [];
+    const pattern = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+    for (const line of output.split('\n')) {
+        const match = pattern.exec(line.trim());
+        if (match) {
+            findings.push({
+                analyzer: 'tsc',
+                file: toRelative(match[1], workspacePath),
+                line: parseInt(match[2], 10),
+                column: parseInt(match[3], 10),
+                severity: match[4] as 'error' | 'warning',
+                rule: match[5],
+                message: match[6]
+            });
+        }
+    }
+    return findings;
+}
+
+/**
+ * Разбор ruff check --output-format json
+ */
+export function parseRuffJson(json: string, workspacePath: string): AnalyzerFinding[] {
+    const results: any[] = JSON.parse(json);
+    return results.map(result => ({
+        analyzer: 'ruff' as const,
+        file: toRelative(result.filename, workspacePath),
+        line: result.location?.row,
+        column: result.location?.column,
+        severity: pythonSeverity(result.code),
+        rule: result.code || undefined,
+        message: result.message
+    }));
+}
+
+/**
+ * Разбор PHPStan --error-format=json
+ */
+export function parsePhpstanJson(json: string, workspacePath: string): AnalyzerFinding[] {
+    const report = JSON.parse(json);
+    const findings: AnalyzerFinding[] = [];
+    for (const [file, entry] of Object.entries<any>(report.files || {})) {
+        for (const message of entry.messages || []) {
+            findings.push({
+                analyzer: 'phpstan',
+                file: toRelative(file, workspacePath),
+                line: message.line,
+                severity: 'error',
+                rule: message.identifier,
+                message: message.message
+            });
+        }
+    }
+    return findings;
+}
+
+/**
+ * Разбор строк вида file:line:col: message (flake8, большинство линтеров в npm-скрипте lint)
+ * Если строк с файлами нет, а команда упала, результатом считается одна ошибка с хвостом вывода
+ */
+function parseLineFindings(analyzer: AnalyzerId, result: ProcessResult, workspacePath: string, files: string[]): AnalyzerFinding[] {
+    const findings: AnalyzerFinding[] = [];
+    const pattern = /^(.+?):(\d+):(\d+):?\s+(?:([A-Z]+\d+)\s+)?(.*)$/;
+    for (const line of result.output.split('\n')) {
+        const match = pattern.exec(line.trim());
+        if (!match) {
+            continue;
+        }
+        const file = toRelative(match[1], workspacePath);
+        if (analyzer === 'npm-lint' && !files.includes(file)) {
+            continue;
+        }
+        findings.push({
+            analyzer,
+            file,
+            line: parseInt(match[2], 10),
+            column: parseInt(match[3], 10),
+            severity: analyzer === 'flake8' ? pythonSeverity(match[4]) : /warn/i.test(match[5]) ? 'warning' : 'error',
+            rule: match[4],
+            message: match[5]
+        });
+    }
+
+    if (findings.length === 0 && result.exitCode !== 0) {
+        findings.push({
+            analyzer,
+            file: analyzer === 'npm-lint' ? 'package.json' : files[0],
+            severity: 'error',
+            message: `${analyzer} завершился с кодом ${result.exitCode}: ${result.output.trim().split('\n').slice(-5).join('\n')}`
+        });
+    }
+    return findings;
+}
+
+/**
+ * Ошибки pyflakes (F) и синтаксиса (E9) ломают код, остальное - стиль
+ */
+function pythonSeverity(code?: string): 'error' | 'warning' {
+    return code && /^(F|E9)/.test(code) ? 'error' : 'warning';
+}
+
+function hasEslintConfig(workspacePath: string): boolean {
+    return ESLINT_CONFIGS.some(config => fs.existsSync(path.join(workspacePath, config)))
+        || !!readPackageJson(workspacePath)?.eslintConfig;
+}
+
+function hasRuffConfig(workspacePath: string): boolean {
+    return fs.existsSync(path.join(workspacePath, 'ruff.toml'))
+        || fs.existsSync(path.join(workspacePath, '.ruff.toml'))
+        || fileContains(path.join(workspacePath, 'pyproject.toml'), '[tool.ruff');
+}
+
+function hasFlake8Config(workspacePath: string): boolean {
+    return fs.existsSync(path.join(workspacePath, '.flake8'))
+        || fileContains(path.join(workspacePath, 'setup.cfg'), '[flake8]')
+        || fileContains(path.join(workspacePath, 'tox.ini'), '[flake8]');
+}
+
+function readPackageJson(workspacePath: string): any {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(workspacePath, 'package.json'), 'utf-8'));
+    } catch (error) {
+        return null;
+    }
+}
+
+function fileContains(filePath: string, marker: string): boolean {
+    return fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8').includes(marker);
+}
+
+function toRelative(filePath: string, workspacePath: string): string {
+    const relative = path.isAbsolute(filePath) ? path.relative(workspacePath, filePath) : filePath;
+    return relative.replace(/\\/g, '/').replace(/^\.\//, '');
+}
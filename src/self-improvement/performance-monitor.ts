@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { SettingsManager } from '../integration/settings-manager';
+import { TELEMETRY_METRICS, Telemetry } from '../telemetry/telemetry';
 
 export interface AgentMetrics {
     agentId: string;
@@ -39,6 +40,11 @@ export class PerformanceMonitor {
         };
 
         this.loadMetrics();
+
+        // Метрики агентов снимаются при каждом экспорте телеметрии
+        const telemetry = Telemetry.getInstance();
+        telemetry.observe(TELEMETRY_METRICS.agentSuccessRate, () => this.getAgentPoints(metrics => metrics.successRate));
+        telemetry.observe(TELEMETRY_METRICS.agentCodeQuality, () => this.getAgentPoints(metrics => metrics.codeQuality));
     }
 
     /**
@@ -145,6 +151,10 @@ export class PerformanceMonitor {
         return this.metrics.agents.get(agentId);
     }
 
+    private getAgentPoints(value: (metrics: AgentMetrics) => number): { attributes: { 'agent.id': string }; value: number }[] {
+        return Array.from(this.metrics.agents.values()).map(metrics => ({ attributes: { 'agent.id': metrics.agentId }, value: value(metrics) }));
+    }
+
     private calculateMovingAverage(current: number, newValue: number, count: number): number {
         // Экспоненциальное скользящее среднее
         const alpha = 0.3; // Коэффициент сглаживания
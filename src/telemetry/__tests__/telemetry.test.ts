@@ -0,0 +1,153 @@
+/**
+ * Тесты телеметрии: агрегация метрик, спаны трасс задач и экспорт OTLP/JSON в файл и по HTTP
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { TaskTracer } from '../../orchestrator/task-trace';
+import { FileTelemetryExporter, OtlpHttpExporter } from '../otlp';
+import { TELEMETRY_METRICS, Telemetry, TelemetryConfig, toOtlpTraceId } from '../telemetry';
+
+describe('Telemetry', () => {
+  const config: TelemetryConfig = { enabled: true, file: '', otlpEndpoint: '', headers: {}, exportIntervalSeconds: 0 };
+  const value = (attribute: any) => attribute.value.stringValue ?? attribute.value.intValue ?? attribute.value.doubleValue;
+  const attributes = (list: any[]) => Object.fromEntries(list.map(attribute => [attribute.key, value(attribute)]));
+
+  it('накапливает метрики и пишет запросы экспорта OTLP в файл', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'telemetry-'));
+    try {
+      const file = path.join(dir, '.cursor/telemetry/otlp.jsonl');
+      const telemetry = new Telemetry({ 'service.version': '1.0.0' });
+      telemetry.add(TELEMETRY_METRICS.llmCalls, 1, { 'gen_ai.system': 'openai' });
+      telemetry.configure(config, [new FileTelemetryExporter(file)]);
+
+      // Пустой экспорт ничего не пишет
+      await telemetry.flush();
+      expect(fs.existsSync(file)).toBe(false);
+
+      const llm = { 'gen_ai.system': 'openai', 'agent.id': 'backend' };
+      telemetry.add(TELEMETRY_METRICS.llmCalls, 1, { ...llm, outcome: 'ok' });
+      telemetry.add(TELEMETRY_METRICS.llmCalls, 1, { outcome: 'ok', 'agent.id': 'backend', 'gen_ai.system': 'openai' });
+      telemetry.add(TELEMETRY_METRICS.llmCost, 0.25, llm);
+      telemetry.add(TELEMETRY_METRICS.llmCost, NaN, llm);
+      [80, 300, 300, 70000].forEach(latency => telemetry.record(TELEMETRY_METRICS.llmLatency, latency, llm));
+      let depth = 3;
+      const stopObserving = telemetry.observe(TELEMETRY_METRICS.queueDepth, () => [{ attributes: { 'queue.state': 'pending' }, value: depth }]);
+      await telemetry.flush();
+
+      depth = 1;
+      telemetry.add(TELEMETRY_METRICS.llmCost, 0.5, llm);
+      await telemetry.flush();
+      stopObserving();
+      await telemetry.flush();
+
+      const requests = fs.readFileSync(file, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+      expect(requests).toHaveLength(3);
+      expect(attributes(requests[0].resourceMetrics[0].resource.attributes)).toMatchObject({ 'service.name': 'cursor-autonomous', 'service.version': '1.0.0' });
+
+      const metrics = (request: any) => Object.fromEntries(request.resourceMetrics[0].scopeMetrics[0].metrics.map((metric: any) => [metric.name, metric]));
+      const first = metrics(requests[0]);
+      expect(Object.keys(first)).toEqual(['cursor_autonomous.llm.latency', 'cursor_autonomous.llm.calls', 'cursor_autonomous.llm.cost', 'cursor_autonomous.queue.depth']);
+      // Одинаковые атрибуты в разном порядке - одна точка; до включения метрики не копятся
+      expect(first['cursor_autonomous.llm.calls'].sum).toMatchObject({ aggregationTemporality: 2, isMonotonic: true });
+      expect(first['cursor_autonomous.llm.calls'].sum.dataPoints.map((point: any) => [attributes(point.attributes), point.asDouble]))
+        .toEqual([[{ ...llm, outcome: 'ok' }, 2]]);
+      expect(first['cursor_autonomous.llm.latency'].histogram.dataPoints[0]).toMatchObject({
+        count: '4', sum: 70680, min: 80, max: 70000,
+        bucketCounts: ['1', '0', '2', '0', '0', '0', '0', '0', '0', '1'],
+        explicitBounds: [100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000]
+      });
+      expect(first['cursor_autonomous.queue.depth'].gauge.dataPoints[0].asDouble).toBe(3);
+
+      // Суммы накопительные от старта, срезы - текущие значения
+      const second = metrics(requests[1]);
+      expect(second['cursor_autonomous.llm.cost'].sum.dataPoints[0].asDouble).toBe(0.75);
+      expect(second['cursor_autonomous.llm.cost'].sum.dataPoints[0].startTimeUnixNano)
+        .toBe(first['cursor_autonomous.llm.cost'].sum.dataPoints[0].startTimeUnixNano);
+      expect(second['cursor_autonomous.queue.depth'].gauge.dataPoints[0].asDouble).toBe(1);
+      expect(metrics(requests[2])['cursor_autonomous.queue.depth']).toBeUndefined();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('отправляет спаны трассы задачи в OTLP приемник по HTTP', async () => {
+    const received: { url?: string; headers: http.IncomingHttpHeaders; body: any }[] = [];
+    let status = 200;
+    const server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => body += chunk);
+      request.on('end', () => {
+        received.push({ url: request.url, headers: request.headers, body: JSON.parse(body) });
+        response.statusCode = status;
+        response.end('{}');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+    try {
+      expect(() => new OtlpHttpExporter('ftp://localhost:4318')).toThrow('http(s) URL');
+
+      const telemetry = new Telemetry();
+      telemetry.configure(config, [new OtlpHttpExporter(endpoint, { Authorization: 'Bearer local' })]);
+      const tracer = new TaskTracer({ load: () => [], append: () => undefined, list: () => [] }, telemetry);
+
+      tracer.startTrace('task-1', 'Добавить поиск', { type: 'feature' });
+      await tracer.span('task-1', 'brainstorming', 'Мозговой штурм', async span => {
+        span.event('solution', { agentId: 'backend', files: ['src/search.ts'] });
+        tracer.startSpan('task-1', 'llm', 'backend: completion', { agentId: 'backend', provider: 'openai', model: 'gpt-4', prompt: 'x'.repeat(5000) })
+          .end('ok', { inputTokens: 10, outputTokens: 5, cost: 0.01 });
+      });
+      tracer.endTrace('task-1', 'error', { error: 'Качество недостаточно' });
+
+      await telemetry.flush();
+
+      expect(received.map(request => request.url)).toEqual(['/v1/traces']);
+      expect(received[0].headers).toMatchObject({ 'content-type': 'application/json', authorization: 'Bearer local' });
+
+      const spans = received[0].body.resourceSpans[0].scopeSpans[0].spans;
+      expect(spans.map((span: any) => [span.name, span.kind, span.status.code])).toEqual([
+        ['backend: completion', 3, 1],
+        ['Мозговой штурм', 1, 1],
+        ['Добавить поиск', 1, 2]
+      ]);
+      const [llm, brainstorming, root] = spans;
+      expect(new Set(spans.map((span: any) => span.traceId))).toEqual(new Set([toOtlpTraceId('task-1')]));
+      expect(toOtlpTraceId('task-1')).toMatch(/^[0-9a-f]{32}$/);
+      expect([llm.parentSpanId, brainstorming.parentSpanId, root.parentSpanId]).toEqual([brainstorming.spanId, root.spanId, undefined]);
+      expect(root.status.message).toBe('Качество недостаточно');
+      expect(BigInt(root.endTimeUnixNano) >= BigInt(root.startTimeUnixNano)).toBe(true);
+
+      const llmAttributes = attributes(llm.attributes);
+      expect(llmAttributes).toMatchObject({
+        'task.trace_id': 'task-1',
+        'task.span_kind': 'llm',
+        'agent.id': 'backend',
+        'gen_ai.system': 'openai',
+        'gen_ai.request.model': 'gpt-4',
+        'gen_ai.usage.input_tokens': '10',
+        'gen_ai.usage.output_tokens': '5',
+        cost: 0.01
+      });
+      expect(llmAttributes.prompt).toHaveLength(1001);
+      expect(brainstorming.events[0].attributes).toEqual([
+        { key: 'agent.id', value: { stringValue: 'backend' } },
+        { key: 'files', value: { arrayValue: { values: [{ stringValue: 'src/search.ts' }] } } }
+      ]);
+
+      // Ошибка приемника не прерывает работу, неотправленные спаны не копятся
+      status = 503;
+      tracer.startTrace('task-2', 'Исправить ошибку');
+      tracer.endTrace('task-2', 'ok');
+      await telemetry.flush();
+      await telemetry.flush();
+      expect(received.map(request => request.url)).toEqual(['/v1/traces', '/v1/traces']);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Кодирование телеметрии в OTLP/JSON и экспортеры
+ * Файловый экспортер пишет по запросу экспорта на строку (формат file exporter OpenTelemetry Collector),
+ * HTTP экспортер отправляет те же запросы на /v1/traces и /v1/metrics OTLP приемника (Collector, Jaeger)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type AttributeValue = string | number | boolean | string[] | number[];
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+export interface TelemetrySpan {
+    traceId: string; // 32 hex
+    spanId: string; // 16 hex
+    parentSpanId?: string;
+    name: string;
+    kind: 'internal' | 'client';
+    startTime: number; // ms
+    endTime: number; // ms
+    status: 'ok' | 'error';
+    statusMessage?: string;
+    attributes: Attributes;
+    events: { name: string; time: number; attributes?: Attributes }[];
+}
+
+export interface SumPoint {
+    attributes: Attributes;
+    value: number;
+}
+
+export interface HistogramPoint {
+    attributes: Attributes;
+    count: number;
+    sum: number;
+    min: number;
+    max: number;
+    bucketCounts: number[];
+}
+
+export type MetricData =
+    | { type: 'sum'; name: string; unit: string; description: string; points: SumPoint[] }
+    | { type: 'histogram'; name: string; unit: string; description: string; bounds: number[]; points: HistogramPoint[] }
+    | { type: 'gauge'; name: string; unit: string; description: string; points: SumPoint[] };
+
+export type OtlpSignal = 'traces' | 'metrics';
+
+/**
+ * Получатель запросов экспорта OTLP/JSON
+ */
+export interface TelemetryExporter {
+    readonly name: string;
+    export(signal: OtlpSignal, request: object): Promise<void>;
+}
+
+// OTLP приемники ограничивают размер запроса; промпты и ответы моделей остаются в трассах задач
+const MAX_ATTRIBUTE_CHARS = 1000;
+
+const SPAN_KIND = { internal: 1, client: 3 };
+const STATUS_CODE = { ok: 1, error: 2 };
+const AGGREGATION_TEMPORALITY_CUMULATIVE = 2;
+
+/**
+ * Запрос ExportTraceServiceRequest
+ */
+export function toOtlpTraces(resource: Attributes, scope: string, spans: TelemetrySpan[]): object {
+    return {
+        resourceSpans: [{
+            resource: { attributes: toOtlpAttributes(resource) },
+            scopeSpans: [{
+                scope: { name: scope },
+                spans: spans.map(span => ({
+                    traceId: span.traceId,
+                    spanId: span.spanId,
+                    parentSpanId: span.parentSpanId,
+                    name: span.name,
+                    kind: SPAN_KIND[span.kind],
+                    startTimeUnixNano: toUnixNano(span.startTime),
+                    endTimeUnixNano: toUnixNano(span.endTime),
+                    attributes: toOtlpAttributes(span.attributes),
+                    events: span.events.map(event => ({
+                        name: event.name,
+                        timeUnixNano: toUnixNano(event.time),
+                        attributes: toOtlpAttributes(event.attributes || {})
+                    })),
+                    status: { code: STATUS_CODE[span.status], message: span.statusMessage }
+                }))
+            }]
+        }]
+    };
+}
+
+/**
+ * Запрос ExportMetricsServiceRequest (накопительные суммы и гистограммы от startTime)
+ */
+export function toOtlpMetrics(resource: Attributes, scope: string, metrics: MetricData[], startTime: number, time: number): object {
+    const start = toUnixNano(startTime);
+    const now = toUnixNano(time);
+
+    return {
+        resourceMetrics: [{
+            resource: { attributes: toOtlpAttributes(resource) },
+            scopeMetrics: [{
+                scope: { name: scope },
+                metrics: metrics.map(metric => {
+                    const base = { name: metric.name, unit: metric.unit, description: metric.description };
+                    switch (metric.type) {
+                        case 'sum':
+                            return {
+                                ...base,
+                                sum: {
+                                    aggregationTemporality: AGGREGATION_TEMPORALITY_CUMULATIVE,
+                                    isMonotonic: true,
+                                    dataPoints: metric.points.map(point => ({
+                                        attributes: toOtlpAttributes(point.attributes), startTimeUnixNano: start, timeUnixNano: now, asDouble: point.value
+                                    }))
+                                }
+                            };
+                        case 'histogram':
+                            return {
+                                ...base,
+                                histogram: {
+                                    aggregationTemporality: AGGREGATION_TEMPORALITY_CUMULATIVE,
+                                    dataPoints: metric.points.map(point => ({
+                                        attributes: toOtlpAttributes(point.attributes),
+                                        startTimeUnixNano: start,
+                                        timeUnixNano: now,
+                                        count: String(point.count),
+                                        sum: point.sum,
+                                        min: point.min,
+                                        max: point.max,
+                                        bucketCounts: point.bucketCounts.map(String),
+                                        explicitBounds: metric.bounds
+                                    }))
+                                }
+                            };
+                        case 'gauge':
+                            return {
+                                ...base,
+                                gauge: {
+                                    dataPoints: metric.points.map(point => ({
+                                        attributes: toOtlpAttributes(point.attributes), timeUnixNano: now, asDouble: point.value
+                                    }))
+                                }
+                            };
+                    }
+                })
+            }]
+        }]
+    };
+}
+
+/**
+ * Атрибуты OTLP (KeyValue); undefined пропускаются, длинные строки обрезаются
+ */
+export function toOtlpAttributes(attributes: Attributes): object[] {
+    return Object.entries(attributes)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ({ key, value: toAnyValue(value!) }));
+}
+
+function toAnyValue(value: AttributeValue): object {
+    if (Array.isArray(value)) {
+        return { arrayValue: { values: (value as AttributeValue[]).map(toAnyValue) } };
+    }
+    if (typeof value === 'boolean') {
+        return { boolValue: value };
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+    }
+    return { stringValue: value.length > MAX_ATTRIBUTE_CHARS ? value.substring(0, MAX_ATTRIBUTE_CHARS) + '…' : value };
+}
+
+function toUnixNano(ms: number): string {
+    return (BigInt(Math.round(ms)) * BigInt(1000000)).toString();
+}
+
+/**
+ * Запросы экспорта в JSONL файле
+ */
+export class FileTelemetryExporter implements TelemetryExporter {
+    readonly name = 'file';
+
+    constructor(private filePath: string) {}
+
+    async export(signal: OtlpSignal, request: object): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(request) + '\n', 'utf-8');
+    }
+}
+
+/**
+ * OTLP/HTTP с JSON кодированием (порт 4318 Collector и Jaeger)
+ */
+export class OtlpHttpExporter implements TelemetryExporter {
+    readonly name = 'otlp-http';
+    private endpoint: string;
+
+    constructor(
+        endpoint: string,
+        private headers: Record<string, string> = {},
+        private timeoutMs: number = 10000,
+        private fetchImpl: typeof fetch = fetch
+    ) {
+        const url = new URL(endpoint);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new Error(`OTLP endpoint должен быть http(s) URL: ${endpoint}`);
+        }
+        this.endpoint = endpoint.replace(/\/+$/, '');
+    }
+
+    async export(signal: OtlpSignal, request: object): Promise<void> {
+        const response = await this.fetchImpl(`${this.endpoint}/v1/${signal}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...this.headers },
+            body: JSON.stringify(request),
+            signal: AbortSignal.timeout(this.timeoutMs)
+        });
+        if (!response.ok) {
+            throw new Error(`OTLP ${signal}: HTTP ${response.status} ${await response.text().catch(() => '')}`.trim());
+        }
+    }
+}
@@ -0,0 +1,323 @@
+/**
+ * Единый слой телеметрии оркестратора и провайдеров моделей
+ * UsageTracker, TaskAnalytics, PerformanceMonitor, HealthMonitor, очередь задач и трассы задач
+ * пишут сюда метрики и спаны; периодически они экспортируются в OTLP (файл и/или локальный приемник)
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import {
+    Attributes,
+    FileTelemetryExporter,
+    HistogramPoint,
+    MetricData,
+    OtlpHttpExporter,
+    SumPoint,
+    TelemetryExporter,
+    TelemetrySpan,
+    toOtlpMetrics,
+    toOtlpTraces
+} from './otlp';
+
+/**
+ * Настройки cursor-autonomous.telemetry.*
+ */
+export interface TelemetryConfig {
+    enabled: boolean;
+    // Файл OTLP/JSON (относительно корня workspace); пусто - без файла
+    file: string;
+    // Базовый URL OTLP/HTTP приемника, например http://localhost:4318; пусто - без отправки
+    otlpEndpoint: string;
+    headers: Record<string, string>;
+    exportIntervalSeconds: number;
+}
+
+export const DEFAULT_TELEMETRY_FILE = '.cursor/telemetry/otlp.jsonl';
+
+const LATENCY_BOUNDS_MS = [100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+const TASK_DURATION_BOUNDS_MS = [1000, 5000, 15000, 30000, 60000, 120000, 300000, 600000, 1800000];
+
+/**
+ * Метрики телеметрии
+ */
+export const TELEMETRY_METRICS = {
+    taskDuration: { name: 'cursor_autonomous.task.duration', type: 'histogram', unit: 'ms', description: 'Длительность выполнения задачи', bounds: TASK_DURATION_BOUNDS_MS },
+    llmLatency: { name: 'cursor_autonomous.llm.latency', type: 'histogram', unit: 'ms', description: 'Задержка ответа модели', bounds: LATENCY_BOUNDS_MS },
+    llmCalls: { name: 'cursor_autonomous.llm.calls', type: 'sum', unit: '{call}', description: 'Вызовы моделей' },
+    llmTokens: { name: 'cursor_autonomous.llm.tokens', type: 'sum', unit: '{token}', description: 'Токены моделей' },
+    llmCost: { name: 'cursor_autonomous.llm.cost', type: 'sum', unit: 'USD', description: 'Стоимость вызовов моделей' },
+    queueDepth: { name: 'cursor_autonomous.queue.depth', type: 'gauge', unit: '{task}', description: 'Задачи в очереди автономного режима' },
+    workerHealthy: { name: 'cursor_autonomous.worker.healthy', type: 'gauge', unit: '1', description: 'Воркер агента здоров (1) или нет (0)' },
+    workerRestarts: { name: 'cursor_autonomous.worker.restarts', type: 'sum', unit: '{restart}', description: 'Перезапуски воркеров' },
+    agentSuccessRate: { name: 'cursor_autonomous.agent.success_rate', type: 'gauge', unit: '1', description: 'Успешность решений агента' },
+    agentCodeQuality: { name: 'cursor_autonomous.agent.code_quality', type: 'gauge', unit: '1', description: 'Качество кода агента' }
+} as const;
+
+export type TelemetryMetric = typeof TELEMETRY_METRICS[keyof typeof TELEMETRY_METRICS];
+type MetricOf<T extends string> = Extract<TelemetryMetric, { type: T }>;
+
+/**
+ * Снимок значений наблюдаемой метрики (вызывается при каждом экспорте)
+ */
+export type GaugeCallback = () => SumPoint[];
+
+const INSTRUMENTATION_SCOPE = 'cursor-autonomous';
+
+// Спаны копятся между экспортами; при недоступном приемнике старые отбрасываются
+const MAX_BUFFERED_SPANS = 5000;
+
+/**
+ * Прочитать настройки телеметрии
+ */
+export function readTelemetryConfig(): TelemetryConfig {
+    const config = vscode.workspace.getConfiguration('cursor-autonomous');
+    return {
+        enabled: config.get<boolean>('telemetry.enabled', false),
+        file: config.get<string>('telemetry.file', DEFAULT_TELEMETRY_FILE),
+        otlpEndpoint: config.get<string>('telemetry.otlpEndpoint', ''),
+        headers: config.get<Record<string, string>>('telemetry.headers', {}),
+        exportIntervalSeconds: config.get<number>('telemetry.exportIntervalSeconds', 30)
+    };
+}
+
+/**
+ * traceId OTLP (16 байт) для идентификатора трассы задачи
+ */
+export function toOtlpTraceId(traceId: string): string {
+    return createHash('sha256').update(traceId).digest('hex').substring(0, 32);
+}
+
+export class Telemetry {
+    private static instance: Telemetry;
+    private enabled: boolean = false;
+    private exporters: TelemetryExporter[] = [];
+    private spans: TelemetrySpan[] = [];
+    private sums: Map<string, Map<string, SumPoint>> = new Map();
+    private histograms: Map<string, Map<string, HistogramPoint>> = new Map();
+    private gauges: Map<string, GaugeCallback> = new Map();
+    private startTime: number = Date.now();
+    private exportTimer?: NodeJS.Timeout;
+    private exporting: Promise<void> = Promise.resolve();
+    private resource: Attributes;
+
+    constructor(resource: Attributes = {}) {
+        this.resource = {
+            'service.name': 'cursor-autonomous',
+            'service.instance.id': randomBytes(8).toString('hex'),
+            ...resource
+        };
+    }
+
+    /**
+     * Получить слой телеметрии (Singleton), настроенный из cursor-autonomous.telemetry.*
+     */
+    static getInstance(): Telemetry {
+        if (!Telemetry.instance) {
+            Telemetry.instance = new Telemetry({ 'workspace.name': vscode.workspace.workspaceFolders?.[0]?.name });
+            Telemetry.instance.configure(readTelemetryConfig());
+        }
+        return Telemetry.instance;
+    }
+
+    /**
+     * Применить настройки; exporters - явный набор экспортеров вместо созданных по настройкам
+     */
+    configure(config: TelemetryConfig, exporters?: TelemetryExporter[]): void {
+        if (this.exportTimer) {
+            clearInterval(this.exportTimer);
+            this.exportTimer = undefined;
+        }
+
+        this.enabled = config.enabled;
+        this.exporters = config.enabled ? exporters || this.createExporters(config) : [];
+        if (!this.enabled) {
+            this.spans = [];
+            return;
+        }
+
+        if (config.exportIntervalSeconds > 0) {
+            this.exportTimer = setInterval(() => this.flush(), config.exportIntervalSeconds * 1000);
+            this.exportTimer.unref?.();
+        }
+        console.log(`Telemetry: Exporting to ${this.exporters.map(exporter => exporter.name).join(', ') || 'nowhere'}`);
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Прибавить к накопительной метрике
+     */
+    add(metric: MetricOf<'sum'>, value: number, attributes: Attributes = {}): void {
+        if (!this.enabled || !Number.isFinite(value)) {
+            return;
+        }
+        const points = getOrCreate(this.sums, metric.name);
+        const key = attributesKey(attributes);
+        const point = points.get(key);
+        if (point) {
+            point.value += value;
+        } else {
+            points.set(key, { attributes, value });
+        }
+    }
+
+    /**
+     * Записать значение в гистограмму
+     */
+    record(metric: MetricOf<'histogram'>, value: number, attributes: Attributes = {}): void {
+        if (!this.enabled || !Number.isFinite(value)) {
+            return;
+        }
+        const points = getOrCreate(this.histograms, metric.name);
+        const key = attributesKey(attributes);
+        let point = points.get(key);
+        if (!point) {
+            point = { attributes, count: 0, sum: 0, min: value, max: value, bucketCounts: new Array(metric.bounds.length + 1).fill(0) };
+            points.set(key, point);
+        }
+        point.count++;
+        point.sum += value;
+        point.min = Math.min(point.min, value);
+        point.max = Math.max(point.max, value);
+        const bucket = metric.bounds.findIndex(bound => value <= bound);
+        point.bucketCounts[bucket === -1 ? metric.bounds.length : bucket]++;
+    }
+
+    /**
+     * Наблюдать метрику-срез (очередь, здоровье воркеров); возвращает отписку
+     * Повторная регистрация метрики заменяет предыдущий источник
+     */
+    observe(metric: MetricOf<'gauge'>, callback: GaugeCallback): () => void {
+        this.gauges.set(metric.name, callback);
+        return () => {
+            if (this.gauges.get(metric.name) === callback) {
+                this.gauges.delete(metric.name);
+            }
+        };
+    }
+
+    /**
+     * Добавить завершенный спан к следующему экспорту
+     */
+    recordSpan(span: TelemetrySpan): void {
+        if (!this.enabled) {
+            return;
+        }
+        this.spans.push(span);
+        if (this.spans.length > MAX_BUFFERED_SPANS) {
+            this.spans.splice(0, this.spans.length - MAX_BUFFERED_SPANS);
+        }
+    }
+
+    /**
+     * Отправить накопленные спаны и текущие значения метрик всем экспортерам
+     * Экспорты выполняются по очереди, ошибка экспортера не влияет на остальные
+     */
+    flush(): Promise<void> {
+        this.exporting = this.exporting.then(() => this.export());
+        return this.exporting;
+    }
+
+    /**
+     * Последний экспорт и остановка таймера (при деактивации расширения)
+     */
+    async shutdown(): Promise<void> {
+        if (this.exportTimer) {
+            clearInterval(this.exportTimer);
+            this.exportTimer = undefined;
+        }
+        await this.flush();
+    }
+
+    /**
+     * Текущие значения метрик
+     */
+    collectMetrics(): MetricData[] {
+        const metrics: MetricData[] = [];
+        for (const definition of Object.values(TELEMETRY_METRICS)) {
+            const base = { name: definition.name, unit: definition.unit, description: definition.description };
+            if (definition.type === 'sum') {
+                const points = [...(this.sums.get(definition.name)?.values() || [])];
+                if (points.length > 0) {
+                    metrics.push({ ...base, type: 'sum', points: points.map(point => ({ ...point })) });
+                }
+            } else if (definition.type === 'histogram') {
+                const points = [...(this.histograms.get(definition.name)?.values() || [])];
+                if (points.length > 0) {
+                    metrics.push({ ...base, type: 'histogram', bounds: [...definition.bounds], points: points.map(point => ({ ...point, bucketCounts: [...point.bucketCounts] })) });
+                }
+            } else {
+                const callback = this.gauges.get(definition.name);
+                if (!callback) {
+                    continue;
+                }
+                try {
+                    const points = callback();
+                    if (points.length > 0) {
+                        metrics.push({ ...base, type: 'gauge', points });
+                    }
+                } catch (error) {
+                    console.error(`Telemetry: Error observing ${definition.name}:`, error);
+                }
+            }
+        }
+        return metrics;
+    }
+
+    private async export(): Promise<void> {
+        if (!this.enabled || this.exporters.length === 0) {
+            return;
+        }
+
+        const spans = this.spans;
+        this.spans = [];
+        const metrics = this.collectMetrics();
+
+        const requests: [('traces' | 'metrics'), object][] = [];
+        if (spans.length > 0) {
+            requests.push(['traces', toOtlpTraces(this.resource, INSTRUMENTATION_SCOPE, spans)]);
+        }
+        if (metrics.length > 0) {
+            requests.push(['metrics', toOtlpMetrics(this.resource, INSTRUMENTATION_SCOPE, metrics, this.startTime, Date.now())]);
+        }
+
+        await Promise.all(this.exporters.flatMap(exporter => requests.map(([signal, request]) =>
+            exporter.export(signal, request).catch(error => {
+                console.error(`Telemetry: ${exporter.name} export of ${signal} failed:`, error?.message || error);
+            })
+        )));
+    }
+
+    private createExporters(config: TelemetryConfig): TelemetryExporter[] {
+        const exporters: TelemetryExporter[] = [];
+        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+        if (config.file && (path.isAbsolute(config.file) || workspacePath)) {
+            exporters.push(new FileTelemetryExporter(path.isAbsolute(config.file) ? config.file : path.join(workspacePath!, config.file)));
+        }
+        if (config.otlpEndpoint) {
+            try {
+                exporters.push(new OtlpHttpExporter(config.otlpEndpoint, config.headers));
+            } catch (error: any) {
+                console.error(`Telemetry: ${error.message}`);
+            }
+        }
+        return exporters;
+    }
+}
+
+function getOrCreate<T>(map: Map<string, Map<string, T>>, name: string): Map<string, T> {
+    let points = map.get(name);
+    if (!points) {
+        points = new Map();
+        map.set(name, points);
+    }
+    return points;
+}
+
+function attributesKey(attributes: Attributes): string {
+    return JSON.stringify(Object.entries(attributes).filter(([, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -198,6 +198,11 @@ class AgentTreeItem extends vscode.TreeItem {
         if (this.agent.currentTask) {
             tooltip += `\n\nТекущая задача: ${this.agent.currentTask.description}`;
         }
+
+        // Ответ модели по мере генерации
+        if (this.agent.currentThoughts?.partialOutput) {
+            tooltip += `\n\n💭 ${this.agent.currentThoughts.partialOutput.slice(-300)}`;
+        }
         
         if (this.agent.lastActivity) {
             tooltip += `\nПоследняя активность: ${this.agent.lastActivity.toLocaleTimeString()}`;
@@ -245,6 +250,12 @@ class AgentTreeItem extends vscode.TreeItem {
             parts.push(`(${this.agent.tasksInProgress} в работе)`);
         }
 
+        const partialOutput = this.agent.currentThoughts?.partialOutput;
+        if (partialOutput) {
+            const tail = partialOutput.replace(/\s+/g, ' ').trim().slice(-40);
+            parts.push(`💭 …${tail}`);
+        }
+
         // Добавляем краткую информацию об ошибке в описание
         if (this.agent.status === 'error' && this.agent.errorMessage) {
             const shortError = this.agent.errorMessage.length > 40 
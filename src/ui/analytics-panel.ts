@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import { Orchestrator } from '../orchestrator/orchestrator';
 import { AnalyticsReport, TaskTypeStatistics, AgentTaskStatistics } from '../orchestrator/task-analytics';
+import { CoverageHistoryEntry, CoverageTracker } from '../quality/coverage';
+
+const COVERAGE_CHART_POINTS = 50;
 
 export class AnalyticsPanel {
     private static currentPanel: AnalyticsPanel | undefined;
@@ -103,7 +106,8 @@ export class AnalyticsPanel {
     private async update(): Promise<void> {
         const webview = this._panel.webview;
         const report = this._orchestrator.getAnalyticsReport();
-        this._panel.webview.html = this.getHtmlForWebview(webview, report);
+        const coverageHistory = CoverageTracker.getInstance().getHistory();
+        this._panel.webview.html = this.getHtmlForWebview(webview, report, coverageHistory);
     }
 
     private async exportReport(): Promise<void> {
@@ -189,7 +193,38 @@ export class AnalyticsPanel {
         return `${(ms / 3600000).toFixed(1)} ч`;
     }
 
-    private getHtmlForWebview(webview: vscode.Webview, report: AnalyticsReport): string {
+    /**
+     * График покрытия по истории отчетов (SVG, последние COVERAGE_CHART_POINTS отчетов)
+     */
+    private getCoverageChart(history: CoverageHistoryEntry[]): string {
+        const points = history.slice(-COVERAGE_CHART_POINTS);
+        if (points.length === 0) {
+            return '<p class="stat-label">Нет отчетов о покрытии. Запустите тесты со сбором покрытия (coverage/lcov.info, coverage.xml и др.).</p>';
+        }
+
+        const width = 600;
+        const height = 160;
+        const padding = 30;
+        const x = (index: number) => padding + (points.length === 1 ? 0 : index * (width - 2 * padding) / (points.length - 1));
+        const y = (percent: number) => height - padding - percent * (height - 2 * padding) / 100;
+        const polyline = points.map((entry, index) => `${x(index).toFixed(1)},${y(entry.percent).toFixed(1)}`).join(' ');
+        const last = points[points.length - 1];
+
+        return `
+        <svg class="chart" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none">
+            ${[0, 50, 100].map(percent => `
+            <line x1="${padding}" y1="${y(percent)}" x2="${width - padding}" y2="${y(percent)}" class="chart-grid" />
+            <text x="2" y="${y(percent) + 4}" class="chart-label">${percent}%</text>`).join('')}
+            <polyline points="${polyline}" class="chart-line" />
+            ${points.map((entry, index) => `
+            <circle cx="${x(index).toFixed(1)}" cy="${y(entry.percent).toFixed(1)}" r="3" class="chart-point">
+                <title>${new Date(entry.timestamp).toLocaleString()}: ${entry.percent}%${entry.taskId ? ` (${entry.taskId})` : ''}</title>
+            </circle>`).join('')}
+        </svg>
+        <p class="stat-label">Последний отчет: ${last.percent}% (${last.linesHit}/${last.linesFound} строк), ${new Date(last.timestamp).toLocaleString()}</p>`;
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview, report: AnalyticsReport, coverageHistory: CoverageHistoryEntry[]): string {
         return `<!DOCTYPE html>
 <html lang="ru">
 <head>
@@ -311,6 +346,27 @@ export class AnalyticsPanel {
         .btn-secondary:hover {
             background: var(--vscode-button-secondaryHoverBackground);
         }
+        .chart {
+            width: 100%;
+            height: 160px;
+        }
+        .chart-grid {
+            stroke: var(--vscode-panel-border);
+            stroke-width: 1;
+        }
+        .chart-label {
+            fill: var(--vscode-foreground);
+            font-size: 10px;
+            opacity: 0.8;
+        }
+        .chart-line {
+            fill: none;
+            stroke: var(--vscode-textLink-foreground);
+            stroke-width: 2;
+        }
+        .chart-point {
+            fill: var(--vscode-textLink-foreground);
+        }
     </style>
 </head>
 <body>
@@ -451,6 +507,11 @@ export class AnalyticsPanel {
         </table>
     </div>
 
+    <div class="section">
+        <div class="section-title">🧪 Покрытие тестами</div>
+        ${this.getCoverageChart(coverageHistory)}
+    </div>
+
     <div class="recommendations">
         <div class="section-title">💡 Рекомендации</div>
         <ul>
@@ -233,6 +233,17 @@ export class StatusPanel {
             border-radius: 3px;
             font-size: 12px;
         }
+        .thoughts-partial {
+            margin: 8px 0;
+            padding: 8px;
+            max-height: 160px;
+            overflow-y: auto;
+            white-space: pre-wrap;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+            background: var(--vscode-editor-background);
+            border-radius: 3px;
+        }
         .thoughts-progress {
             margin-top: 8px;
             font-size: 11px;
@@ -519,6 +530,9 @@ export class StatusPanel {
                         <strong>Обоснование:</strong> ${this.escapeHtml(thoughts.reasoning.substring(0, 200))}${thoughts.reasoning.length > 200 ? '...' : ''}
                     </div>
                 ` : ''}
+                ${thoughts.partialOutput ? `
+                    <div class="thoughts-partial">${this.escapeHtml(thoughts.partialOutput.slice(-2000))}▌</div>
+                ` : ''}
                 ${thoughts.progress.totalSteps > 0 ? `
                     <div class="thoughts-progress">
                         Прогресс: ${thoughts.progress.currentStep} / ${thoughts.progress.totalSteps} (${progressPercent}%)
@@ -0,0 +1,485 @@
+import * as vscode from 'vscode';
+import { ModelProviderManager } from '../integration/model-providers/provider-manager';
+import { TaskTracer, TraceSpan, TraceSummary, buildTraceTree } from '../orchestrator/task-trace';
+import { ReplayComparison, getReplayableCalls, readReplayComparison, replayTrace } from '../orchestrator/trace-replay';
+
+const MAX_LISTED_TRACES = 100;
+
+// Длинные атрибуты (промпты, ответы) показываются свернутыми
+const INLINE_ATTRIBUTE_CHARS = 120;
+
+export class TraceViewerPanel {
+    private static currentPanel: TraceViewerPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _extensionUri: vscode.Uri;
+    private _disposables: vscode.Disposable[] = [];
+    private _selectedTraceId?: string;
+    private _replaying = false;
+
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, traceId?: string) {
+        this._panel = panel;
+        this._extensionUri = extensionUri;
+        this._selectedTraceId = traceId;
+
+        // Обработка сообщений от webview
+        this._panel.webview.onDidReceiveMessage(
+            message => {
+                switch (message.command) {
+                    case 'select':
+                        this._selectedTraceId = message.traceId;
+                        this.update();
+                        return;
+                    case 'refresh':
+                        this.update();
+                        return;
+                    case 'replay':
+                        this.replay(message.traceId);
+                        return;
+                }
+            },
+            null,
+            this._disposables
+        );
+
+        // Обновление при изменении видимости
+        this._panel.onDidChangeViewState(
+            () => {
+                if (this._panel.visible) {
+                    this.update();
+                }
+            },
+            null,
+            this._disposables
+        );
+
+        // Очистка при закрытии
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        // Первоначальная загрузка
+        this.update();
+    }
+
+    public static createOrShow(extensionUri: vscode.Uri, traceId?: string): void {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        // Если панель уже открыта, показываем её
+        if (TraceViewerPanel.currentPanel) {
+            if (traceId) {
+                TraceViewerPanel.currentPanel._selectedTraceId = traceId;
+                TraceViewerPanel.currentPanel.update();
+            }
+            TraceViewerPanel.currentPanel._panel.reveal(column);
+            return;
+        }
+
+        // Создаем новую панель
+        const panel = vscode.window.createWebviewPanel(
+            'taskTraces',
+            'Трассы задач',
+            column || vscode.ViewColumn.Two,
+            {
+                enableScripts: true,
+                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+            }
+        );
+
+        TraceViewerPanel.currentPanel = new TraceViewerPanel(panel, extensionUri, traceId);
+    }
+
+    public static revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri): void {
+        TraceViewerPanel.currentPanel = new TraceViewerPanel(panel, extensionUri);
+    }
+
+    public dispose(): void {
+        TraceViewerPanel.currentPanel = undefined;
+
+        // Очистка ресурсов
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private update(): void {
+        const store = TaskTracer.getInstance().getStore();
+        const traces = store ? store.list().slice(0, MAX_LISTED_TRACES) : [];
+        const selectedId = this._selectedTraceId || traces[0]?.traceId;
+        const records = store && selectedId ? store.load(selectedId) : [];
+
+        this._panel.webview.html = this.getHtmlForWebview(traces, selectedId, buildTraceTree(records),
+            selectedId ? readReplayComparison(selectedId, records) : undefined, getReplayableCalls(records).length);
+    }
+
+    /**
+     * Повторить вызовы моделей трассы на выбранном провайдере и показать сравнение
+     */
+    private async replay(traceId: string): Promise<void> {
+        const store = TaskTracer.getInstance().getStore();
+        if (!store || this._replaying) {
+            return;
+        }
+
+        const providers = ModelProviderManager.getInstance().getAllProviders();
+        const picked = await vscode.window.showQuickPick(
+            providers.map(provider => ({
+                label: provider.getProviderType(),
+                description: provider.getModelInfo().name,
+                provider
+            })),
+            { placeHolder: 'Провайдер для повтора задачи' }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const model = await vscode.window.showInputBox({
+            prompt: 'Модель (пусто - модель провайдера по умолчанию)',
+            value: picked.provider.getModelInfo().id
+        });
+        if (model === undefined) {
+            return;
+        }
+
+        this._replaying = true;
+        try {
+            const comparison = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Повтор трассы на ${picked.label}`,
+                cancellable: true
+            }, (_progress, token) => {
+                const controller = new AbortController();
+                token.onCancellationRequested(() => controller.abort());
+                return replayTrace(traceId, store.load(traceId), picked.provider, { model: model || undefined, signal: controller.signal });
+            });
+
+            this._selectedTraceId = comparison.traceId;
+            vscode.window.showInformationMessage(
+                `Повтор завершен: ${comparison.calls.length} вызовов, схожесть ответов ${(comparison.similarity * 100).toFixed(0)}%` +
+                (comparison.skippedToolCalls > 0 ? `; шаги с инструментами (${comparison.skippedToolCalls}) не повторялись` : '')
+            );
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Не удалось повторить трассу: ${error.message || error}`);
+        } finally {
+            this._replaying = false;
+            this.update();
+        }
+    }
+
+    private renderTraceList(traces: TraceSummary[], selectedId?: string): string {
+        if (traces.length === 0) {
+            return '<p class="muted">Трасс пока нет. Они записываются в .cursor/traces при выполнении задач.</p>';
+        }
+
+        return traces.map(trace => `
+            <div class="trace-item ${trace.traceId === selectedId ? 'selected' : ''}" data-trace-id="${this.escapeHtml(trace.traceId)}">
+                <div>${trace.kind === 'replay' ? '🔁 ' : ''}${this.escapeHtml(trace.name)}</div>
+                <div class="muted">${new Date(trace.startTime).toLocaleString()}</div>
+            </div>`).join('');
+    }
+
+    private renderSpan(span: TraceSpan, rootStart: number, rootDuration: number): string {
+        const offset = (new Date(span.startTime).getTime() - rootStart) / rootDuration * 100;
+        const width = Math.max(0.5, (span.durationMs ?? 0) / rootDuration * 100);
+        const attributes = Object.entries(span.attributes);
+
+        return `
+        <details class="span" ${span.kind === 'llm' || span.kind === 'tool' ? '' : 'open'}>
+            <summary>
+                <span class="kind kind-${span.kind}">${span.kind}</span>
+                <span class="span-name">${this.escapeHtml(span.name)}</span>
+                <span class="status status-${span.status}">${span.status}</span>
+                <span class="muted">${span.durationMs !== undefined ? this.formatDuration(span.durationMs) : '…'}</span>
+                <span class="timeline"><span class="timeline-bar status-${span.status}" style="margin-left: ${offset.toFixed(2)}%; width: ${Math.min(width, 100 - offset).toFixed(2)}%"></span></span>
+            </summary>
+            <div class="span-body">
+                ${attributes.length > 0 ? `
+                <table class="attributes">
+                    ${attributes.map(([key, value]) => `<tr><td>${this.escapeHtml(key)}</td><td>${this.renderValue(value)}</td></tr>`).join('')}
+                </table>` : ''}
+                ${span.events.length > 0 ? `
+                <ul class="events">
+                    ${span.events.map(event => `
+                    <li>
+                        <span class="muted">${new Date(event.time).toLocaleTimeString()}</span> <b>${this.escapeHtml(event.name)}</b>
+                        ${event.attributes ? this.renderValue(event.attributes) : ''}
+                    </li>`).join('')}
+                </ul>` : ''}
+                ${span.children.map(child => this.renderSpan(child, rootStart, rootDuration)).join('')}
+            </div>
+        </details>`;
+    }
+
+    private renderValue(value: any): string {
+        const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+        if (text.length <= INLINE_ATTRIBUTE_CHARS && !text.includes('\n')) {
+            return `<code>${this.escapeHtml(text)}</code>`;
+        }
+        return `<details><summary class="muted">${text.length} символов</summary><pre>${this.escapeHtml(text)}</pre></details>`;
+    }
+
+    private renderComparison(comparison: ReplayComparison): string {
+        const totals = (label: string, original: number, replay: number, format: (value: number) => string) => `
+            <tr><td>${label}</td><td>${format(original)}</td><td>${format(replay)}</td></tr>`;
+
+        return `
+        <div class="section">
+            <h3>Сравнение с исходной трассой (${this.escapeHtml(comparison.provider)} / ${this.escapeHtml(comparison.model)})</h3>
+            <table class="table">
+                <tr><th></th><th>Исходный запуск</th><th>Повтор</th></tr>
+                ${totals('Вызовов', comparison.original.calls, comparison.replay.calls, String)}
+                ${totals('Задержка', comparison.original.latencyMs, comparison.replay.latencyMs, value => this.formatDuration(value))}
+                ${totals('Токены', comparison.original.tokens, comparison.replay.tokens, String)}
+                ${totals('Стоимость', comparison.original.cost, comparison.replay.cost, value => `$${value.toFixed(4)}`)}
+            </table>
+            <p>Средняя схожесть ответов: <b>${(comparison.similarity * 100).toFixed(0)}%</b></p>
+            ${comparison.skippedToolCalls > 0 ? `
+            <p class="muted">⚠️ Сравниваются только вызовы без инструментов (планирование, мозговой штурм, оценка).
+                Шаги применения решения с инструментами (${comparison.skippedToolCalls}) не повторялись.</p>` : ''}
+            <table class="table">
+                <tr><th>Вызов</th><th>Модель</th><th>Задержка</th><th>Токены</th><th>Схожесть</th></tr>
+                ${comparison.calls.map(call => `
+                <tr>
+                    <td>${this.escapeHtml(call.agentId || call.originalSpanId)}</td>
+                    <td>${this.escapeHtml(call.original.model || call.original.provider || '?')} → ${this.escapeHtml(comparison.model)}</td>
+                    <td>${call.original.latencyMs !== undefined ? this.formatDuration(call.original.latencyMs) : '?'} → ${this.formatDuration(call.replay.latencyMs)}</td>
+                    <td>${call.original.tokens ?? '?'} → ${call.replay.tokens ?? '?'}</td>
+                    <td>${call.replay.error ? `<span class="status status-error">${this.escapeHtml(call.replay.error)}</span>` : `${(call.similarity * 100).toFixed(0)}%`}</td>
+                </tr>`).join('')}
+            </table>
+        </div>`;
+    }
+
+    private formatDuration(ms: number): string {
+        return ms < 1000 ? `${Math.round(ms)} мс` : `${(ms / 1000).toFixed(1)} с`;
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    private getHtmlForWebview(
+        traces: TraceSummary[],
+        selectedId: string | undefined,
+        roots: TraceSpan[],
+        comparison: ReplayComparison | undefined,
+        replayableCalls: number
+    ): string {
+        const rootStart = roots.length > 0 ? Math.min(...roots.map(root => new Date(root.startTime).getTime())) : 0;
+        const rootEnd = roots.length > 0 ? Math.max(...roots.map(root => new Date(root.endTime || root.startTime).getTime())) : 0;
+        const rootDuration = Math.max(1, rootEnd - rootStart);
+
+        return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Трассы задач</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 0;
+            margin: 0;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+        }
+        .layout {
+            display: grid;
+            grid-template-columns: 260px 1fr;
+            height: 100vh;
+        }
+        .sidebar {
+            border-right: 1px solid var(--vscode-panel-border);
+            overflow-y: auto;
+            padding: 10px;
+        }
+        .content {
+            overflow-y: auto;
+            padding: 20px;
+        }
+        .header {
+            margin-bottom: 20px;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            gap: 10px;
+        }
+        .trace-item {
+            padding: 8px;
+            border-radius: 4px;
+            cursor: pointer;
+        }
+        .trace-item:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .trace-item.selected {
+            background: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        .muted {
+            font-size: 12px;
+            opacity: 0.7;
+        }
+        .span {
+            margin: 4px 0 4px 12px;
+            border-left: 2px solid var(--vscode-panel-border);
+            padding-left: 8px;
+        }
+        .span summary {
+            cursor: pointer;
+            display: flex;
+            align-items: center;
+            gap: 8px;
+        }
+        .span-name {
+            flex: 0 1 auto;
+        }
+        .span-body {
+            padding: 4px 0 4px 8px;
+        }
+        .kind {
+            font-size: 11px;
+            padding: 2px 6px;
+            border-radius: 4px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .kind-llm {
+            background: var(--vscode-textLink-foreground);
+            color: var(--vscode-editor-background);
+        }
+        .status {
+            font-size: 11px;
+        }
+        .status-ok {
+            color: var(--vscode-testing-iconPassed);
+        }
+        .status-error {
+            color: var(--vscode-testing-iconFailed);
+        }
+        .status-running {
+            color: var(--vscode-testing-iconQueued);
+        }
+        .timeline {
+            flex: 1;
+            min-width: 80px;
+            height: 6px;
+            background: var(--vscode-editorWidget-background);
+            border-radius: 3px;
+            display: flex;
+        }
+        .timeline-bar {
+            height: 6px;
+            border-radius: 3px;
+            background: currentColor;
+        }
+        .attributes {
+            border-collapse: collapse;
+            margin: 4px 0;
+            font-size: 12px;
+        }
+        .attributes td {
+            padding: 2px 8px 2px 0;
+            vertical-align: top;
+        }
+        .attributes td:first-child {
+            opacity: 0.7;
+            white-space: nowrap;
+        }
+        .events {
+            font-size: 12px;
+            margin: 4px 0;
+            padding-left: 20px;
+        }
+        pre {
+            white-space: pre-wrap;
+            word-break: break-word;
+            max-height: 400px;
+            overflow-y: auto;
+            background: var(--vscode-textBlockQuote-background);
+            padding: 8px;
+        }
+        .table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 20px;
+        }
+        .table th,
+        .table td {
+            padding: 6px 10px;
+            text-align: left;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .table th {
+            background: var(--vscode-list-inactiveSelectionBackground);
+        }
+        .btn {
+            padding: 6px 14px;
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+        }
+        .btn:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+        .btn:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .btn-secondary {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="layout">
+        <div class="sidebar">
+            <div class="header">
+                <b>Трассы</b>
+                <button class="btn btn-secondary" id="btnRefresh">Обновить</button>
+            </div>
+            ${this.renderTraceList(traces, selectedId)}
+        </div>
+        <div class="content">
+            ${selectedId && roots.length > 0 ? `
+            <div class="header">
+                <div>
+                    <h2>${this.escapeHtml(roots[0].name)}</h2>
+                    <div class="muted">${this.escapeHtml(selectedId)} · запусков: ${roots.length} · ${this.formatDuration(rootEnd - rootStart)}</div>
+                </div>
+                <button class="btn" id="btnReplay" data-trace-id="${this.escapeHtml(selectedId)}" ${replayableCalls === 0 || this._replaying ? 'disabled' : ''}
+                    title="Повторить вызовы моделей без инструментов (${replayableCalls}) на другой модели; шаги с инструментами не повторяются">🔁 Повторить на другой модели</button>
+            </div>
+            ${comparison ? this.renderComparison(comparison) : ''}
+            ${roots.map(root => this.renderSpan(root, rootStart, rootDuration)).join('')}` : '<p class="muted">Выберите трассу</p>'}
+        </div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        document.addEventListener('DOMContentLoaded', function() {
+            document.getElementById('btnRefresh')?.addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+            document.getElementById('btnReplay')?.addEventListener('click', event => {
+                vscode.postMessage({ command: 'replay', traceId: event.currentTarget.dataset.traceId });
+            });
+            document.querySelectorAll('.trace-item').forEach(item => {
+                item.addEventListener('click', () => vscode.postMessage({ command: 'select', traceId: item.dataset.traceId }));
+            });
+        });
+    </script>
+</body>
+</html>`;
+    }
+}